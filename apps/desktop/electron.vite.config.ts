@@ -36,6 +36,10 @@ export default defineConfig({
           __dirname,
           '../../packages/api-client/src/index.ts',
         ),
+        '@microflash/card-render': resolve(
+          __dirname,
+          '../../packages/card-render/src/index.ts',
+        ),
       },
     },
     plugins: [react()],
@@ -1,38 +1,177 @@
 /**
  * CardContent Component
  *
- * Renders card content (front/back) with Markdown and LaTeX support.
- * Uses react-markdown with remark-math, remark-breaks, and rehype-mathjax.
+ * Renders card content (front/back) from the render AST of
+ * @microflash/card-render, so cards look the same as on mobile.
  *
  * Supports:
  * - Markdown formatting (bold, italic, lists, code, etc.)
- * - Single newlines render as line breaks (remark-breaks)
- * - LaTeX math: $...$ (inline) and $$...$$ (display)
- * - LaTeX math: \(...\) (inline) and \[...\] (display)
- * - Full MathJax TeX compatibility (e.g., \over, \frac, etc.)
+ * - Single newlines render as line breaks
+ * - LaTeX math: $...$ and \(...\) (inline), $$...$$ and \[...\] (display),
+ *   typeset with KaTeX
+ * - Cloze markers ({{c1::...}}), blanked or revealed for one cloze index
+ * - Uploaded images and audio: ![alt](media:<id>)
  */
 
-import Markdown from 'react-markdown';
-import remarkMath from 'remark-math';
-import remarkBreaks from 'remark-breaks';
-import rehypeMathjax from 'rehype-mathjax';
+import { Fragment, useMemo, type ReactNode } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import {
+  parseCard,
+  sanitizeUrl,
+  type BlockNode,
+  type ClozeView,
+  type InlineNode,
+} from '@microflash/card-render';
+import { MediaEmbed } from './MediaEmbed';
 
 interface CardContentProps {
   /** The content string to render (may contain markdown and/or LaTeX) */
   content: string;
   /** Optional CSS class name */
   className?: string;
+  /** Render the content as a cloze text for this index */
+  cloze?: ClozeView;
 }
 
-export function CardContent({ content, className }: CardContentProps) {
+function MathTex({ tex, display }: { tex: string; display: boolean }) {
+  // KaTeX escapes the TeX and, without `trust`, rejects \href and friends
+  const html = useMemo(
+    () =>
+      katex.renderToString(tex, { displayMode: display, throwOnError: false }),
+    [tex, display],
+  );
+  const Tag = display ? 'div' : 'span';
+  return <Tag dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.value}</Fragment>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'inlineCode':
+        return <code key={index}>{node.value}</code>;
+      case 'inlineMath':
+        return <MathTex key={index} tex={node.value} display={node.display} />;
+      case 'break':
+        return <br key={index} />;
+      case 'link': {
+        const url = sanitizeUrl(node.url, ['http:', 'https:', 'mailto:']);
+        const children = renderInline(node.children);
+        return url ? (
+          <a
+            key={index}
+            href={url}
+            title={node.title ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {children}
+          </a>
+        ) : (
+          <Fragment key={index}>{children}</Fragment>
+        );
+      }
+      case 'image': {
+        const url = sanitizeUrl(node.url, ['http:', 'https:']);
+        return url ? (
+          <img
+            key={index}
+            src={url}
+            alt={node.alt}
+            title={node.title ?? undefined}
+          />
+        ) : (
+          <Fragment key={index}>{node.alt}</Fragment>
+        );
+      }
+      case 'media':
+        return <MediaEmbed key={index} mediaId={node.mediaId} alt={node.alt} />;
+      case 'cloze':
+        return node.revealed ? (
+          <span key={index} className="cloze cloze-answer">
+            {renderInline(node.children)}
+          </span>
+        ) : (
+          <span key={index} className="cloze cloze-blank">
+            [{node.hint ?? '...'}]
+          </span>
+        );
+    }
+  });
+}
+
+function renderBlock(node: BlockNode, key: number, tight = false): ReactNode {
+  switch (node.type) {
+    case 'paragraph':
+      return tight ? (
+        <Fragment key={key}>{renderInline(node.children)}</Fragment>
+      ) : (
+        <p key={key}>{renderInline(node.children)}</p>
+      );
+    case 'heading': {
+      const Heading = `h${node.depth}` as const;
+      return <Heading key={key}>{renderInline(node.children)}</Heading>;
+    }
+    case 'thematicBreak':
+      return <hr key={key} />;
+    case 'code':
+      return (
+        <pre key={key}>
+          <code className={node.lang ? `language-${node.lang}` : undefined}>
+            {node.value}
+          </code>
+        </pre>
+      );
+    case 'math':
+      return <MathTex key={key} tex={node.value} display />;
+    case 'blockquote':
+      return (
+        <blockquote key={key}>
+          {node.children.map((child, index) => renderBlock(child, index))}
+        </blockquote>
+      );
+    case 'list': {
+      const items = node.children.map((item, index) => (
+        <li key={index}>
+          {item.children.map((child, childIndex) =>
+            renderBlock(child, childIndex, !node.spread),
+          )}
+        </li>
+      ));
+      return node.ordered ? (
+        <ol key={key} start={node.start ?? undefined}>
+          {items}
+        </ol>
+      ) : (
+        <ul key={key}>{items}</ul>
+      );
+    }
+  }
+}
+
+export function CardContent({ content, className, cloze }: CardContentProps) {
+  const clozeIndex = cloze?.index;
+  const clozeRevealed = cloze?.revealed ?? false;
+  const root = useMemo(
+    () =>
+      parseCard(content, {
+        cloze:
+          clozeIndex !== undefined
+            ? { index: clozeIndex, revealed: clozeRevealed }
+            : undefined,
+      }),
+    [content, clozeIndex, clozeRevealed],
+  );
+
   return (
     <div className={`card-content-rendered ${className ?? ''}`}>
-      <Markdown
-        remarkPlugins={[remarkBreaks, remarkMath]}
-        rehypePlugins={[rehypeMathjax]}
-      >
-        {content}
-      </Markdown>
+      {root.children.map((node, index) => renderBlock(node, index))}
     </div>
   );
 }
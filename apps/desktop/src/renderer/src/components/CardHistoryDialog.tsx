@@ -0,0 +1,235 @@
+/**
+ * CardHistoryDialog Component
+ *
+ * Lists a card's revisions, shows how the selected one differs from the
+ * card's current text, and restores it.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Text,
+  Button,
+  Badge,
+  Callout,
+  Spinner,
+  Dialog,
+  ScrollArea,
+} from '@radix-ui/themes';
+import { ExclamationTriangleIcon } from '@radix-ui/react-icons';
+import {
+  getCardRevisions,
+  diffCardRevisions,
+  restoreCardRevision,
+  type Card,
+  type CardRevision,
+  type CardRevisionDiff,
+  type DiffLine,
+  type EditSource,
+} from '@microflash/api-client';
+
+interface CardHistoryDialogProps {
+  cardId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the card after a revision was restored */
+  onRestored: (card: Card) => void;
+}
+
+const SOURCE_LABELS: Record<EditSource, string> = {
+  MOBILE: 'Mobile',
+  DESKTOP: 'Desktop',
+  API: 'API',
+};
+
+const DIFF_PREFIXES: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  added: '+',
+  removed: '-',
+};
+
+function DiffLines({ lines }: { lines: DiffLine[] }) {
+  if (lines.length === 0) {
+    return (
+      <Text size="2" color="gray">
+        (empty)
+      </Text>
+    );
+  }
+
+  return (
+    <pre className="revision-diff">
+      {lines.map((line, index) => (
+        <div key={index} className={`revision-diff-${line.type}`}>
+          {DIFF_PREFIXES[line.type]} {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function CardHistoryDialog({
+  cardId,
+  open,
+  onOpenChange,
+  onRestored,
+}: CardHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<CardRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<CardRevisionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getCardRevisions(cardId);
+      setRevisions(response.revisions);
+      setSelectedId(response.revisions[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, loadRevisions]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    diffCardRevisions(cardId, selectedId)
+      .then((response) => {
+        if (!cancelled) setDiff(response.diff);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load diff');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId, selectedId]);
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+
+    try {
+      setRestoring(true);
+      setError(null);
+      const response = await restoreCardRevision(cardId, selectedId);
+      onRestored(response.card);
+      onOpenChange(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to restore revision',
+      );
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  // The diff shows what restoring would undo, so it runs from the revision
+  // to the current text
+  const isCurrent =
+    diff !== null &&
+    [...diff.front, ...diff.back].every((line) => line.type === 'equal');
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Content maxWidth="800px">
+        <Dialog.Title>Card History</Dialog.Title>
+        <Dialog.Description size="2" mb="4" color="gray">
+          Lines marked + were added since the selected revision, lines marked -
+          were removed.
+        </Dialog.Description>
+
+        {error && (
+          <Callout.Root color="red" mb="3">
+            <Callout.Icon>
+              <ExclamationTriangleIcon />
+            </Callout.Icon>
+            <Callout.Text>{error}</Callout.Text>
+          </Callout.Root>
+        )}
+
+        {loading ? (
+          <Flex align="center" justify="center" py="6">
+            <Spinner size="3" />
+          </Flex>
+        ) : revisions.length === 0 ? (
+          <Text size="2" color="gray">
+            This card hasn't been edited yet.
+          </Text>
+        ) : (
+          <Flex gap="4" style={{ height: 400 }}>
+            <ScrollArea style={{ width: 220, flexShrink: 0 }}>
+              <Flex direction="column" gap="1" pr="3">
+                {revisions.map((revision) => (
+                  <Button
+                    key={revision.id}
+                    variant={revision.id === selectedId ? 'soft' : 'ghost'}
+                    color="gray"
+                    onClick={() => setSelectedId(revision.id)}
+                    style={{ justifyContent: 'space-between' }}
+                  >
+                    <Text size="1">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </Text>
+                    <Badge size="1" variant="outline">
+                      {revision.source
+                        ? SOURCE_LABELS[revision.source]
+                        : 'Original'}
+                    </Badge>
+                  </Button>
+                ))}
+              </Flex>
+            </ScrollArea>
+
+            <ScrollArea style={{ flex: 1 }}>
+              {diff && (
+                <Box pr="3">
+                  <Text as="p" size="2" weight="bold" mb="1">
+                    Front
+                  </Text>
+                  <DiffLines lines={diff.front} />
+                  <Text as="p" size="2" weight="bold" mt="3" mb="1">
+                    Back
+                  </Text>
+                  <DiffLines lines={diff.back} />
+                </Box>
+              )}
+            </ScrollArea>
+          </Flex>
+        )}
+
+        <Flex gap="3" justify="end" mt="4">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Close
+            </Button>
+          </Dialog.Close>
+          <Button
+            onClick={handleRestore}
+            disabled={!selectedId || isCurrent || restoring}
+          >
+            {restoring ? 'Restoring...' : 'Restore'}
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * MediaEmbed Component
+ *
+ * Shows an uploaded media file referenced from card markdown: an image, or
+ * an audio player for audio. Files are downloaded through the API client
+ * (they need auth headers) and cached as object URLs for the session, since
+ * uploads never change.
+ */
+
+import { useEffect, useState } from 'react';
+import { fetchMedia } from '@microflash/api-client';
+
+interface LoadedMedia {
+  url: string;
+  mimeType: string;
+}
+
+const cache = new Map<string, Promise<LoadedMedia>>();
+
+/**
+ * Load a media file once per session.
+ */
+function loadMedia(mediaId: string): Promise<LoadedMedia> {
+  let media = cache.get(mediaId);
+  if (!media) {
+    media = fetchMedia(mediaId).then((blob) => ({
+      url: URL.createObjectURL(blob),
+      mimeType: blob.type,
+    }));
+    // Let failed downloads be retried on the next render
+    media.catch(() => cache.delete(mediaId));
+    cache.set(mediaId, media);
+  }
+  return media;
+}
+
+interface MediaEmbedProps {
+  mediaId: string;
+  /** Alt text, shown while loading or if loading fails */
+  alt?: string;
+}
+
+export function MediaEmbed({ mediaId, alt }: MediaEmbedProps) {
+  const [media, setMedia] = useState<LoadedMedia | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMedia(null);
+    setFailed(false);
+
+    loadMedia(mediaId)
+      .then((loaded) => {
+        if (!cancelled) setMedia(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId]);
+
+  if (!media) {
+    return (
+      <span className="media-missing">
+        {failed ? `${alt || 'Media'} (unavailable)` : alt || 'Loading…'}
+      </span>
+    );
+  }
+
+  if (media.mimeType.startsWith('audio/')) {
+    return <audio className="media-audio" controls src={media.url} />;
+  }
+
+  return <img className="media-image" src={media.url} alt={alt} />;
+}
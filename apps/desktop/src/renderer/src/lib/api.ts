@@ -25,5 +25,6 @@ export function initializeApiClient(): void {
     getAuthHeaders: () => ({
       'x-dev-clerk-id': DEV_CLERK_ID,
     }),
+    clientName: 'desktop',
   });
 }
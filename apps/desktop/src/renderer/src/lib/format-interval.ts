@@ -0,0 +1,38 @@
+/**
+ * Interval Formatting Utilities
+ *
+ * Formats review intervals for display on rating buttons (e.g. "10m", "3d").
+ */
+
+/**
+ * Format a number with at most one decimal (e.g. 1.5, 2, 12).
+ */
+function formatAmount(value: number): string {
+  return value < 10
+    ? value.toFixed(1).replace(/\.0$/, '')
+    : String(Math.round(value));
+}
+
+/**
+ * Format an interval as a short human-readable label.
+ *
+ * @param minutes - Interval in minutes
+ * @returns Label such as "1m", "4h", "3d", "1.5mo" or "2y"
+ */
+export function formatInterval(minutes: number): string {
+  if (minutes < 60) {
+    return `${Math.max(1, Math.round(minutes))}m`;
+  }
+  const hours = minutes / 60;
+  if (hours < 24) {
+    return `${Math.round(hours)}h`;
+  }
+  const days = hours / 24;
+  if (days < 30) {
+    return `${Math.round(days)}d`;
+  }
+  if (days < 365) {
+    return `${formatAmount(days / 30)}mo`;
+  }
+  return `${formatAmount(days / 365)}y`;
+}
@@ -25,21 +25,26 @@ import {
   ListBulletIcon,
   DividerHorizontalIcon,
   TrashIcon,
+  ImageIcon,
+  CounterClockwiseClockIcon,
 } from '@radix-ui/react-icons';
 import {
   getCard,
   createCard,
   updateCard,
   deleteCard,
+  uploadMedia,
   type Card,
 } from '@microflash/api-client';
 import { CardContent } from '../components/CardContent';
+import { CardHistoryDialog } from '../components/CardHistoryDialog';
 import { DraggableDivider } from '../components/DraggableDivider';
 import {
   splitCardMarkdown,
   joinCardMarkdown,
   getCursorSide,
-} from '../lib/card-markdown';
+  getClozeIndices,
+} from '@microflash/card-render';
 
 type PreviewMode = 'adaptive' | 'combined' | 'toggle';
 type Side = 'front' | 'back';
@@ -68,9 +73,12 @@ export function CardEditorPage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const [uploadingMedia, setUploadingMedia] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
 
   // Refs
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
   const isDraggingRef = useRef(false);
   const isDraggingVerticalRef = useRef(false);
 
@@ -80,6 +88,29 @@ export function CardEditorPage() {
   // Parse markdown into parts
   const parts = splitCardMarkdown(markdown);
 
+  // A front with cloze markers makes a cloze card; preview the question of
+  // this card's index (or the first one for new cards)
+  const clozeIndices = getClozeIndices(parts.front);
+  const isCloze = isNew
+    ? clozeIndices.length > 0
+    : originalCard?.type === 'CLOZE';
+  const previewCloze =
+    isCloze && clozeIndices.length > 0
+      ? {
+          index: originalCard?.clozeIndex ?? clozeIndices[0],
+          revealed: false,
+        }
+      : undefined;
+
+  // Show a loaded (or restored) card as the unedited state
+  const showCard = useCallback((card: Card) => {
+    setOriginalCard(card);
+    const combined = joinCardMarkdown(card.front, card.back);
+    setMarkdown(combined);
+    setOriginalMarkdown(combined);
+    setPriority(card.priority);
+  }, []);
+
   const loadCard = useCallback(async () => {
     if (isNew || !cardId) return;
 
@@ -87,18 +118,13 @@ export function CardEditorPage() {
       setLoading(true);
       setError(null);
       const response = await getCard(cardId);
-      const card = response.card;
-      setOriginalCard(card);
-      const combined = joinCardMarkdown(card.front, card.back);
-      setMarkdown(combined);
-      setOriginalMarkdown(combined);
-      setPriority(card.priority);
+      showCard(response.card);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load card');
     } finally {
       setLoading(false);
     }
-  }, [cardId, isNew]);
+  }, [cardId, isNew, showCard]);
 
   useEffect(() => {
     loadCard();
@@ -120,6 +146,7 @@ export function CardEditorPage() {
           back,
           deckId,
           priority,
+          type: isCloze ? 'CLOZE' : 'BASIC',
         });
       } else if (cardId) {
         await updateCard(cardId, {
@@ -252,6 +279,42 @@ export function CardEditorPage() {
     }, 0);
   };
 
+  // Upload an image or audio file and insert its reference at the cursor
+  const handleMediaSelected = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? markdown.length;
+    const end = textarea?.selectionEnd ?? markdown.length;
+
+    try {
+      setUploadingMedia(true);
+      setError(null);
+      const { media } = await uploadMedia(file, file.type, file.name);
+
+      setMarkdown(
+        (current) =>
+          current.slice(0, start) + media.markdown + current.slice(end),
+      );
+
+      setTimeout(() => {
+        if (!textarea) return;
+        textarea.focus();
+        const newPos = start + media.markdown.length;
+        textarea.setSelectionRange(newPos, newPos);
+      }, 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload media');
+    } finally {
+      setUploadingMedia(false);
+    }
+  };
+
   const insertBulletList = () => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -372,6 +435,16 @@ export function CardEditorPage() {
           <Heading size="5">{isNew ? 'New Card' : 'Edit Card'}</Heading>
         </Flex>
         <Flex gap="2">
+          {!isNew && (
+            <Button
+              variant="soft"
+              color="gray"
+              onClick={() => setShowHistoryDialog(true)}
+            >
+              <CounterClockwiseClockIcon />
+              History
+            </Button>
+          )}
           {!isNew && (
             <Button
               variant="soft"
@@ -464,6 +537,27 @@ export function CardEditorPage() {
               <ListBulletIcon width="24" height="24" />
             </IconButton>
           </Toolbar.Button>
+          <Toolbar.Button
+            asChild
+            aria-label="Attach Image or Audio"
+            disabled={uploadingMedia}
+            onClick={() => mediaInputRef.current?.click()}
+          >
+            <IconButton size="1" variant="ghost" disabled={uploadingMedia}>
+              {uploadingMedia ? (
+                <Spinner size="1" />
+              ) : (
+                <ImageIcon width="24" height="24" />
+              )}
+            </IconButton>
+          </Toolbar.Button>
+          <input
+            ref={mediaInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp,audio/*"
+            onChange={handleMediaSelected}
+            style={{ display: 'none' }}
+          />
 
           <Toolbar.Separator
             style={{
@@ -599,7 +693,10 @@ export function CardEditorPage() {
                   Front
                 </Text>
                 <Box p="3" style={{ flex: 1, overflowY: 'auto' }}>
-                  <CardContent content={parts.front || 'No content'} />
+                  <CardContent
+                    content={parts.front || 'No content'}
+                    cloze={previewCloze}
+                  />
                 </Box>
               </Box>
               <DraggableDivider
@@ -655,7 +752,10 @@ export function CardEditorPage() {
                 </Text>
               )}
               {previewContent.front && (
-                <CardContent content={parts.front || 'No content'} />
+                <CardContent
+                  content={parts.front || 'No content'}
+                  cloze={previewCloze}
+                />
               )}
               {previewContent.back &&
                 (parts.back.trim() ? (
@@ -709,6 +809,16 @@ export function CardEditorPage() {
         )}
       </Flex>
 
+      {/* Card History Dialog */}
+      {!isNew && cardId && (
+        <CardHistoryDialog
+          cardId={cardId}
+          open={showHistoryDialog}
+          onOpenChange={setShowHistoryDialog}
+          onRestored={showCard}
+        />
+      )}
+
       {/* Delete Card Dialog */}
       <Dialog.Root open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <Dialog.Content maxWidth="400px">
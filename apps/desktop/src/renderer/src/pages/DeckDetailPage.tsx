@@ -14,12 +14,16 @@ import {
   Spinner,
   IconButton,
   Badge,
+  SegmentedControl,
+  Checkbox,
 } from '@radix-ui/themes';
 import {
   Cross2Icon,
   ExclamationTriangleIcon,
   ArrowLeftIcon,
   Pencil1Icon,
+  PauseIcon,
+  PlayIcon,
 } from '@radix-ui/react-icons';
 import {
   getDeck,
@@ -27,10 +31,14 @@ import {
   updateDeck,
   deleteDeck,
   deleteCard,
+  suspendCard,
+  unsuspendCard,
   startSprint,
   ApiError,
   type Deck,
   type Card as CardType,
+  type SchedulingAlgorithm,
+  type SprintMode,
 } from '@microflash/api-client';
 
 export function DeckDetailPage() {
@@ -38,6 +46,9 @@ export function DeckDetailPage() {
   const navigate = useNavigate();
   const [deck, setDeck] = useState<Deck | null>(null);
   const [cards, setCards] = useState<CardType[]>([]);
+  // Cursor for the next page of cards (null = all loaded)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -45,8 +56,16 @@ export function DeckDetailPage() {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editPriority, setEditPriority] = useState(5);
+  // Desired retention in percent ('' = inherit)
+  const [editRetention, setEditRetention] = useState('');
+  const [editAlgorithm, setEditAlgorithm] =
+    useState<SchedulingAlgorithm>('FSRS');
+  // Daily limits ('' = only the user's limits)
+  const [editNewPerDay, setEditNewPerDay] = useState('');
+  const [editReviewsPerDay, setEditReviewsPerDay] = useState('');
+  const [editCreateReverse, setEditCreateReverse] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [startingSprint, setStartingSprint] = useState(false);
+  const [startingSprint, setStartingSprint] = useState<SprintMode | null>(null);
 
   // Delete deck confirmation
   const [showDeleteDeckDialog, setShowDeleteDeckDialog] = useState(false);
@@ -66,13 +85,31 @@ export function DeckDetailPage() {
       setError(null);
       const [deckResponse, cardsResponse] = await Promise.all([
         getDeck(deckId),
-        getCards(deckId),
+        getCards({ deckId }),
       ]);
       setDeck(deckResponse.deck);
-      setCards(cardsResponse.cards);
+      setCards(cardsResponse.items);
+      setNextCursor(cardsResponse.nextCursor);
       setEditTitle(deckResponse.deck.title);
       setEditDescription(deckResponse.deck.description || '');
       setEditPriority(deckResponse.deck.priority);
+      setEditRetention(
+        deckResponse.deck.desiredRetention != null
+          ? String(Math.round(deckResponse.deck.desiredRetention * 100))
+          : '',
+      );
+      setEditAlgorithm(deckResponse.deck.schedulingAlgorithm ?? 'FSRS');
+      setEditNewPerDay(
+        deckResponse.deck.newCardsPerDay != null
+          ? String(deckResponse.deck.newCardsPerDay)
+          : '',
+      );
+      setEditReviewsPerDay(
+        deckResponse.deck.reviewsPerDay != null
+          ? String(deckResponse.deck.reviewsPerDay)
+          : '',
+      );
+      setEditCreateReverse(deckResponse.deck.createReverseCards ?? false);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : 'Failed to load deck details',
@@ -86,6 +123,21 @@ export function DeckDetailPage() {
     loadDeckAndCards();
   }, [loadDeckAndCards]);
 
+  const handleLoadMore = async () => {
+    if (!deckId || !nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await getCards({ deckId, cursor: nextCursor });
+      setCards((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cards');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleUpdateDeck = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!deckId || !editTitle.trim()) return;
@@ -96,6 +148,11 @@ export function DeckDetailPage() {
         title: editTitle.trim(),
         description: editDescription.trim() || null,
         priority: editPriority,
+        desiredRetention: editRetention ? Number(editRetention) / 100 : null,
+        schedulingAlgorithm: editAlgorithm,
+        newCardsPerDay: editNewPerDay ? Number(editNewPerDay) : null,
+        reviewsPerDay: editReviewsPerDay ? Number(editReviewsPerDay) : null,
+        createReverseCards: editCreateReverse,
       });
       setShowEditModal(false);
       await loadDeckAndCards();
@@ -134,14 +191,36 @@ export function DeckDetailPage() {
     }
   };
 
-  const handleStartSprint = async () => {
+  const handleToggleSuspend = async (card: CardType) => {
+    try {
+      setError(null);
+      const { card: updated } = card.suspendedAt
+        ? await unsuspendCard(card.id)
+        : await suspendCard(card.id);
+      setCards((prev) =>
+        prev.map((c) =>
+          c.id === updated.id
+            ? {
+                ...c,
+                suspendedAt: updated.suspendedAt,
+                buriedUntil: updated.buriedUntil,
+              }
+            : c,
+        ),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update card');
+    }
+  };
+
+  const handleStartSprint = async (mode: SprintMode) => {
     if (!deckId) return;
 
-    setStartingSprint(true);
+    setStartingSprint(mode);
     setError(null);
 
     try {
-      const { sprint } = await startSprint({ deckId, source: 'DECK' });
+      const { sprint } = await startSprint({ deckId, source: 'DECK', mode });
       navigate(
         `/sprint/${sprint.id}?` +
           `returnTo=${encodeURIComponent(`/deck/${deckId}`)}` +
@@ -151,7 +230,11 @@ export function DeckDetailPage() {
     } catch (err) {
       if (err instanceof ApiError) {
         if (err.code === 'NO_ELIGIBLE_CARDS') {
-          setError('No cards are due for review in this deck.');
+          setError(
+            mode === 'CRAM'
+              ? 'Every card in this deck has been crammed today.'
+              : 'No cards are due for review in this deck.',
+          );
         } else {
           setError(err.message);
         }
@@ -161,7 +244,7 @@ export function DeckDetailPage() {
         setError('Failed to start sprint');
       }
     } finally {
-      setStartingSprint(false);
+      setStartingSprint(null);
     }
   };
 
@@ -210,11 +293,21 @@ export function DeckDetailPage() {
         <Flex gap="2">
           <Button
             variant="soft"
-            onClick={handleStartSprint}
-            disabled={startingSprint || cards.length === 0}
+            onClick={() => handleStartSprint('REVIEW')}
+            disabled={startingSprint !== null || cards.length === 0}
+          >
+            {startingSprint === 'REVIEW' ? <Spinner size="1" /> : null}
+            {startingSprint === 'REVIEW' ? 'Starting...' : 'Start Sprint'}
+          </Button>
+          <Button
+            variant="soft"
+            color="gray"
+            title="Review cards early without changing their schedule"
+            onClick={() => handleStartSprint('CRAM')}
+            disabled={startingSprint !== null || cards.length === 0}
           >
-            {startingSprint ? <Spinner size="1" /> : null}
-            {startingSprint ? 'Starting...' : 'Start Sprint'}
+            {startingSprint === 'CRAM' ? <Spinner size="1" /> : null}
+            {startingSprint === 'CRAM' ? 'Starting...' : 'Cram'}
           </Button>
           <Button variant="soft" onClick={() => setShowEditModal(true)}>
             Edit Deck
@@ -257,6 +350,17 @@ export function DeckDetailPage() {
         <Text size="2" color="gray">
           Priority: {deck.priority}
         </Text>
+        {deck.effectiveRetention !== undefined && (
+          <Text size="2" color="gray">
+            Retention: {Math.round(deck.effectiveRetention * 100)}%
+            {deck.desiredRetention == null && ' (inherited)'}
+          </Text>
+        )}
+        {deck.schedulingAlgorithm === 'SM2' && (
+          <Badge color="gray" variant="soft">
+            SM-2
+          </Badge>
+        )}
       </Flex>
 
       {/* Search */}
@@ -317,6 +421,17 @@ export function DeckDetailPage() {
                     <Badge size="1" variant="soft">
                       {card.state}
                     </Badge>
+                    {card.suspendedAt && (
+                      <Badge size="1" variant="soft" color="orange">
+                        Suspended
+                      </Badge>
+                    )}
+                    {card.buriedUntil &&
+                      new Date(card.buriedUntil) > new Date() && (
+                        <Badge size="1" variant="soft" color="gray">
+                          Buried
+                        </Badge>
+                      )}
                     <Text size="1" color="gray">
                       Priority: {card.priority}
                     </Text>
@@ -326,6 +441,14 @@ export function DeckDetailPage() {
                   </Flex>
                 </Box>
                 <Flex gap="1">
+                  <IconButton
+                    size="1"
+                    variant="ghost"
+                    title={card.suspendedAt ? 'Unsuspend' : 'Suspend'}
+                    onClick={() => handleToggleSuspend(card)}
+                  >
+                    {card.suspendedAt ? <PlayIcon /> : <PauseIcon />}
+                  </IconButton>
                   <IconButton
                     size="1"
                     variant="ghost"
@@ -347,6 +470,17 @@ export function DeckDetailPage() {
           ))}
         </Flex>
       )}
+      {nextCursor && (
+        <Flex justify="center" mt="4">
+          <Button
+            variant="soft"
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? 'Loading...' : 'Load more cards'}
+          </Button>
+        </Flex>
+      )}
 
       {/* Edit Deck Dialog */}
       <Dialog.Root open={showEditModal} onOpenChange={setShowEditModal}>
@@ -391,6 +525,104 @@ export function DeckDetailPage() {
                   style={{ width: '100px' }}
                 />
               </label>
+              <label>
+                <Text as="div" size="2" mb="1" weight="bold">
+                  Desired retention (70-97%)
+                </Text>
+                <TextField.Root
+                  type="number"
+                  min={70}
+                  max={97}
+                  step={1}
+                  placeholder="Inherit"
+                  value={editRetention}
+                  onChange={(e) => setEditRetention(e.target.value)}
+                  style={{ width: '100px' }}
+                />
+                <Text as="div" size="1" color="gray" mt="1">
+                  Higher retention means more frequent reviews. Leave empty to
+                  use the parent deck's setting (or 90%).
+                </Text>
+              </label>
+              <Box>
+                <Text as="div" size="2" mb="1" weight="bold">
+                  Daily limits
+                </Text>
+                <Flex gap="3">
+                  <label>
+                    <Text as="div" size="1" mb="1">
+                      New cards
+                    </Text>
+                    <TextField.Root
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder="No limit"
+                      value={editNewPerDay}
+                      onChange={(e) => setEditNewPerDay(e.target.value)}
+                      style={{ width: '100px' }}
+                    />
+                  </label>
+                  <label>
+                    <Text as="div" size="1" mb="1">
+                      Reviews
+                    </Text>
+                    <TextField.Root
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder="No limit"
+                      value={editReviewsPerDay}
+                      onChange={(e) => setEditReviewsPerDay(e.target.value)}
+                      style={{ width: '100px' }}
+                    />
+                  </label>
+                </Flex>
+                <Text as="div" size="1" color="gray" mt="1">
+                  Your overall daily limits always apply. Leave empty to use
+                  only those.
+                </Text>
+              </Box>
+              <Box>
+                <Text as="div" size="2" mb="1" weight="bold">
+                  Scheduling algorithm
+                </Text>
+                <SegmentedControl.Root
+                  value={editAlgorithm}
+                  onValueChange={(value) =>
+                    setEditAlgorithm(value as SchedulingAlgorithm)
+                  }
+                  size="2"
+                >
+                  <SegmentedControl.Item value="FSRS">
+                    FSRS
+                  </SegmentedControl.Item>
+                  <SegmentedControl.Item value="SM2">
+                    SM-2
+                  </SegmentedControl.Item>
+                </SegmentedControl.Root>
+                <Text as="div" size="1" color="gray" mt="1">
+                  SM-2 keeps imported Anki decks on their original schedule.
+                  Switching converts the state of the deck's cards.
+                </Text>
+              </Box>
+              <Box>
+                <Text as="label" size="2">
+                  <Flex gap="2" align="center">
+                    <Checkbox
+                      checked={editCreateReverse}
+                      onCheckedChange={(checked) =>
+                        setEditCreateReverse(checked === true)
+                      }
+                    />
+                    <Text weight="bold">Also create reverse cards</Text>
+                  </Flex>
+                </Text>
+                <Text as="div" size="1" color="gray" mt="1">
+                  Cards with a back are also asked back to front, scheduled on
+                  their own. A card and its reverse never share a sprint.
+                </Text>
+              </Box>
             </Flex>
 
             <Flex gap="3" mt="4" justify="between">
@@ -16,20 +16,42 @@ import {
 } from '@radix-ui/themes';
 import { Cross2Icon, ExclamationTriangleIcon } from '@radix-ui/react-icons';
 import {
-  getDecks,
+  iterateDecks,
   createDeck,
   deleteDeck,
   startSprint,
+  searchCards,
   ApiError,
   type Deck,
+  type CardSearchResult,
+  type SnippetPart,
 } from '@microflash/api-client';
 
+/** Wait for typing to pause before searching cards */
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Snippet text with the matches of the search highlighted.
+ */
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? <mark key={index}>{part.text}</mark> : part.text,
+      )}
+    </>
+  );
+}
+
 export function DecksPage() {
   const navigate = useNavigate();
   const [decks, setDecks] = useState<Deck[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [cardResults, setCardResults] = useState<CardSearchResult[]>([]);
+  const [cardResultsTotal, setCardResultsTotal] = useState(0);
+  const [searchingCards, setSearchingCards] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newDeckTitle, setNewDeckTitle] = useState('');
   const [newDeckDescription, setNewDeckDescription] = useState('');
@@ -44,8 +66,12 @@ export function DecksPage() {
     try {
       setLoading(true);
       setError(null);
-      const response = await getDecks();
-      setDecks(response.decks);
+      // Load every page; the search below filters the whole deck list
+      const allDecks: Deck[] = [];
+      for await (const deck of iterateDecks()) {
+        allDecks.push(deck);
+      }
+      setDecks(allDecks);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load decks');
     } finally {
@@ -57,6 +83,44 @@ export function DecksPage() {
     loadDecks();
   }, [loadDecks]);
 
+  const searchText = searchQuery.trim();
+
+  useEffect(() => {
+    if (!searchText) {
+      setCardResults([]);
+      setCardResultsTotal(0);
+      return;
+    }
+
+    // Ignore the response of a search the user has typed past
+    let stale = false;
+    setSearchingCards(true);
+    const timer = setTimeout(async () => {
+      try {
+        const { results, total } = await searchCards(searchText);
+        if (!stale) {
+          setCardResults(results);
+          setCardResultsTotal(total);
+        }
+      } catch (err) {
+        if (!stale) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to search cards',
+          );
+        }
+      } finally {
+        if (!stale) {
+          setSearchingCards(false);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+
   const handleCreateDeck = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newDeckTitle.trim()) return;
@@ -231,7 +295,7 @@ export function DecksPage() {
         <TextField.Root
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
-          placeholder="Search decks..."
+          placeholder="Search decks and cards..."
           style={{ maxWidth: '400px' }}
         />
       </Box>
@@ -296,6 +360,53 @@ export function DecksPage() {
         </Flex>
       )}
 
+      {/* Card search results */}
+      {searchText && (
+        <Box mt="5">
+          <Flex align="center" gap="2" mb="3">
+            <Heading size="3">Cards</Heading>
+            {searchingCards ? (
+              <Spinner size="1" />
+            ) : (
+              <Text size="2" color="gray">
+                {cardResultsTotal > cardResults.length
+                  ? `Best ${cardResults.length} of ${cardResultsTotal}`
+                  : cardResultsTotal}
+              </Text>
+            )}
+          </Flex>
+          {cardResults.length === 0 ? (
+            !searchingCards && (
+              <Text color="gray">No cards match your search.</Text>
+            )
+          ) : (
+            <Flex direction="column" gap="2">
+              {cardResults.map(({ card, snippets }) => (
+                <Card
+                  key={card.id}
+                  style={{ cursor: 'pointer' }}
+                  onClick={() =>
+                    navigate(`/deck/${card.deckId}/card/${card.id}`)
+                  }
+                >
+                  <Text as="p" size="2">
+                    <Snippet parts={snippets.front} />
+                  </Text>
+                  <Text as="p" size="2" color="gray" mt="1">
+                    <Snippet parts={snippets.back} />
+                  </Text>
+                  {card.deckTitle && (
+                    <Text as="p" size="1" color="gray" mt="2">
+                      {card.deckTitle}
+                    </Text>
+                  )}
+                </Card>
+              ))}
+            </Flex>
+          )}
+        </Box>
+      )}
+
       {/* Delete confirmation dialog */}
       <Dialog.Root
         open={deleteTarget !== null}
@@ -2,7 +2,8 @@
  * Sprint Complete Page
  *
  * Shows completion stats after a sprint is finished.
- * Provides options to return home or start another sprint.
+ * Provides options to return home or start another sprint, and to undo the
+ * last review while it is still within the undo window.
  */
 
 import { useState } from 'react';
@@ -16,17 +17,22 @@ import {
   Callout,
   Spinner,
 } from '@radix-ui/themes';
-import { ExclamationTriangleIcon } from '@radix-ui/react-icons';
-import { startSprint, ApiError } from '@microflash/api-client';
+import { ExclamationTriangleIcon, ResetIcon } from '@radix-ui/react-icons';
+import {
+  startSprint,
+  undoSprintReview,
+  ApiError,
+} from '@microflash/api-client';
 
 export function SprintCompletePage() {
-  const { sprintId: _sprintId } = useParams<{ sprintId: string }>();
+  const { sprintId } = useParams<{ sprintId: string }>();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
 
   const returnTo = searchParams.get('returnTo') ?? '/';
   const launchSource = searchParams.get('launchSource') ?? 'HOME';
   const deckId = searchParams.get('deckId') ?? '';
+  const undoableUntil = searchParams.get('undoableUntil');
 
   // Stats from query params (passed from review page)
   const totalCards = searchParams.get('totalCards');
@@ -36,9 +42,14 @@ export function SprintCompletePage() {
   const durationSeconds = searchParams.get('durationSeconds');
 
   const [startingNew, setStartingNew] = useState(false);
+  const [undoing, setUndoing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const hasStats = totalCards !== null;
+  const canUndo =
+    !!sprintId &&
+    undoableUntil !== null &&
+    new Date(undoableUntil).getTime() > Date.now();
 
   const handleDone = () => {
     // Use replace to match mobile navigation semantics
@@ -83,6 +94,39 @@ export function SprintCompletePage() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!sprintId) return;
+
+    setUndoing(true);
+    setError(null);
+
+    try {
+      await undoSprintReview(sprintId);
+
+      // Back to the reopened sprint to rate the card again
+      navigate(
+        `/sprint/${sprintId}?` +
+          `returnTo=${encodeURIComponent(returnTo)}` +
+          `&launchSource=${launchSource}` +
+          `&deckId=${encodeURIComponent(deckId)}`,
+        { replace: true },
+      );
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.code === 'UNDO_WINDOW_EXPIRED') {
+          setError('The last review can no longer be undone.');
+        } else {
+          setError(err.message);
+        }
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('Failed to undo review');
+      }
+      setUndoing(false);
+    }
+  };
+
   // Format duration as mm:ss
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -176,11 +220,15 @@ export function SprintCompletePage() {
             size="3"
             variant="soft"
             onClick={handleDone}
-            disabled={startingNew}
+            disabled={startingNew || undoing}
           >
             Done
           </Button>
-          <Button size="3" onClick={handleOneMore} disabled={startingNew}>
+          <Button
+            size="3"
+            onClick={handleOneMore}
+            disabled={startingNew || undoing}
+          >
             {startingNew ? (
               <>
                 <Spinner size="1" />
@@ -191,6 +239,18 @@ export function SprintCompletePage() {
             )}
           </Button>
         </Flex>
+
+        {canUndo && (
+          <Button
+            variant="ghost"
+            color="gray"
+            onClick={handleUndo}
+            disabled={startingNew || undoing}
+          >
+            {undoing ? <Spinner size="1" /> : <ResetIcon />}
+            Undo Last Review
+          </Button>
+        )}
       </Flex>
     </Box>
   );
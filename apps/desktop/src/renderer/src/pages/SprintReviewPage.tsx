@@ -6,7 +6,7 @@
  * Auto-completes when all cards are reviewed.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -20,10 +20,15 @@ import {
   IconButton,
   Progress,
 } from '@radix-ui/themes';
-import { ArrowLeftIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons';
+import {
+  ArrowLeftIcon,
+  ExclamationTriangleIcon,
+  ResetIcon,
+} from '@radix-ui/react-icons';
 import {
   getSprint,
   submitSprintReview,
+  undoSprintReview,
   completeSprint,
   ApiError,
   type Sprint,
@@ -31,6 +36,7 @@ import {
   type Rating,
 } from '@microflash/api-client';
 import { CardContent } from '../components/CardContent';
+import { formatInterval } from '../lib/format-interval';
 
 export function SprintReviewPage() {
   const { sprintId } = useParams<{ sprintId: string }>();
@@ -46,6 +52,12 @@ export function SprintReviewPage() {
   const [error, setError] = useState<string | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // Until when the last review can be undone (ISO timestamp)
+  const [undoableUntil, setUndoableUntil] = useState<string | null>(null);
+  // When the current card was shown and its answer revealed, for the
+  // review's answer times
+  const cardShownAtRef = useRef(Date.now());
+  const answerRevealedAtRef = useRef<number | null>(null);
 
   const fetchSprint = useCallback(async () => {
     if (!sprintId) return;
@@ -54,6 +66,8 @@ export function SprintReviewPage() {
       setError(null);
       const { sprint: fetchedSprint } = await getSprint(sprintId);
       setSprint(fetchedSprint);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
 
       // Check if sprint was auto-abandoned
       if (fetchedSprint.status === 'ABANDONED') {
@@ -91,6 +105,7 @@ export function SprintReviewPage() {
   };
 
   const handleReveal = () => {
+    answerRevealedAtRef.current = Date.now();
     setShowAnswer(true);
   };
 
@@ -100,13 +115,24 @@ export function SprintReviewPage() {
 
     setSubmitting(true);
     try {
-      const { sprint: updatedSprint } = await submitSprintReview(sprint.id, {
-        cardId: currentCard.card.id,
-        rating,
-      });
+      const ratedAt = Date.now();
+      const revealedAt = answerRevealedAtRef.current ?? ratedAt;
+      // Server rejects durations over an hour (e.g. app left open)
+      const capDuration = (ms: number) => Math.min(ms, 3600000);
+      const { sprint: updatedSprint, undoableUntil: reviewUndoableUntil } =
+        await submitSprintReview(sprint.id, {
+          cardId: currentCard.card.id,
+          rating,
+          durationMs: capDuration(ratedAt - cardShownAtRef.current),
+          timeToRevealMs: capDuration(revealedAt - cardShownAtRef.current),
+          timeToRateMs: capDuration(ratedAt - revealedAt),
+        });
 
       setSprint(updatedSprint);
       setShowAnswer(false);
+      setUndoableUntil(reviewUndoableUntil);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
 
       // Check if all cards are reviewed
       const remainingCards = updatedSprint.cards.filter(
@@ -123,6 +149,7 @@ export function SprintReviewPage() {
               `returnTo=${encodeURIComponent(returnTo)}` +
               `&launchSource=${launchSource}` +
               `&deckId=${encodeURIComponent(deckId)}` +
+              `&undoableUntil=${encodeURIComponent(reviewUndoableUntil ?? '')}` +
               `&totalCards=${stats.totalCards}` +
               `&reviewedCards=${stats.reviewedCards}` +
               `&passCount=${stats.passCount}` +
@@ -136,7 +163,8 @@ export function SprintReviewPage() {
             `/sprint/${sprint.id}/complete?` +
               `returnTo=${encodeURIComponent(returnTo)}` +
               `&launchSource=${launchSource}` +
-              `&deckId=${encodeURIComponent(deckId)}`,
+              `&deckId=${encodeURIComponent(deckId)}` +
+              `&undoableUntil=${encodeURIComponent(reviewUndoableUntil ?? '')}`,
             { replace: true },
           );
         }
@@ -162,15 +190,54 @@ export function SprintReviewPage() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!sprint || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const { sprint: updatedSprint } = await undoSprintReview(sprint.id);
+
+      setSprint(updatedSprint);
+      setShowAnswer(false);
+      setUndoableUntil(null);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
+    } catch (err) {
+      if (
+        err instanceof ApiError &&
+        (err.code === 'UNDO_WINDOW_EXPIRED' ||
+          err.code === 'UNDO_NOT_AVAILABLE')
+      ) {
+        // Nothing left to undo; just hide the button
+        setUndoableUntil(null);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('Failed to undo review');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleGoBack = () => {
     navigate(returnTo, { replace: true });
   };
 
   const currentCard = getCurrentCard();
   const progress = sprint?.progress;
+  // Cram ratings don't reschedule the card: there's no interval to show
+  const intervalPreview =
+    sprint?.mode === 'CRAM' ? null : currentCard?.card.intervalPreview;
+  const canUndo =
+    undoableUntil !== null && new Date(undoableUntil).getTime() > Date.now();
 
-  // For one-sided cards (empty back), show grading immediately
-  const isOneSidedCard = currentCard && !currentCard.card.back.trim();
+  // For one-sided cards (empty back), show grading immediately. Cloze cards
+  // hold their answer in the front, so they always need revealing
+  const isOneSidedCard =
+    currentCard &&
+    currentCard.card.clozeIndex === null &&
+    !currentCard.card.back.trim();
 
   if (loading) {
     return (
@@ -254,6 +321,17 @@ export function SprintReviewPage() {
           <ArrowLeftIcon />
         </IconButton>
         <Heading size="4">{sprint.deckTitle ?? 'Sprint Review'}</Heading>
+        {canUndo && (
+          <Button
+            variant="ghost"
+            ml="auto"
+            onClick={handleUndo}
+            disabled={submitting}
+          >
+            <ResetIcon />
+            Undo
+          </Button>
+        )}
       </Flex>
 
       {/* Progress Bar */}
@@ -284,7 +362,14 @@ export function SprintReviewPage() {
             >
               Question
             </Text>
-            <CardContent content={currentCard.card.front} />
+            <CardContent
+              content={currentCard.card.front}
+              cloze={
+                currentCard.card.clozeIndex !== null
+                  ? { index: currentCard.card.clozeIndex, revealed: showAnswer }
+                  : undefined
+              }
+            />
           </Box>
 
           {/* Back (if revealed and has content) */}
@@ -350,7 +435,11 @@ export function SprintReviewPage() {
             >
               <Flex direction="column" align="center">
                 <Text weight="bold">Again</Text>
-                <Text size="1">Forgot</Text>
+                <Text size="1">
+                  Forgot
+                  {intervalPreview &&
+                    ` · ${formatInterval(intervalPreview.AGAIN)}`}
+                </Text>
               </Flex>
             </Button>
             <Button
@@ -362,7 +451,11 @@ export function SprintReviewPage() {
             >
               <Flex direction="column" align="center">
                 <Text weight="bold">Hard</Text>
-                <Text size="1">Struggled</Text>
+                <Text size="1">
+                  Struggled
+                  {intervalPreview &&
+                    ` · ${formatInterval(intervalPreview.HARD)}`}
+                </Text>
               </Flex>
             </Button>
             <Button
@@ -374,7 +467,11 @@ export function SprintReviewPage() {
             >
               <Flex direction="column" align="center">
                 <Text weight="bold">Good</Text>
-                <Text size="1">Correct</Text>
+                <Text size="1">
+                  Correct
+                  {intervalPreview &&
+                    ` · ${formatInterval(intervalPreview.GOOD)}`}
+                </Text>
               </Flex>
             </Button>
             <Button
@@ -386,7 +483,11 @@ export function SprintReviewPage() {
             >
               <Flex direction="column" align="center">
                 <Text weight="bold">Easy</Text>
-                <Text size="1">Effortless</Text>
+                <Text size="1">
+                  Effortless
+                  {intervalPreview &&
+                    ` · ${formatInterval(intervalPreview.EASY)}`}
+                </Text>
               </Flex>
             </Button>
           </Flex>
@@ -82,7 +82,7 @@ export default function EditCardScreen() {
       Alert.alert('Error', 'Please enter the front of the card (question)');
       return;
     }
-    if (!back.trim()) {
+    if (card?.type !== 'CLOZE' && !back.trim()) {
       Alert.alert('Error', 'Please enter the back of the card (answer)');
       return;
     }
@@ -276,7 +276,16 @@ export default function EditCardScreen() {
               <View style={styles.previewCard}>
                 <Text style={styles.previewLabel}>Front (Question)</Text>
                 {front.trim() ? (
-                  <CardContent content={front} fontSize={18} color="#333" />
+                  <CardContent
+                    content={front}
+                    fontSize={18}
+                    color="#333"
+                    cloze={
+                      card && card.clozeIndex !== null
+                        ? { index: card.clozeIndex, revealed: false }
+                        : undefined
+                    }
+                  />
                 ) : (
                   <Text style={styles.previewPlaceholder}>
                     Enter the front of the card...
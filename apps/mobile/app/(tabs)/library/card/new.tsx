@@ -21,6 +21,8 @@ import {
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import Slider from '@react-native-community/slider';
 
+import { getClozeIndices } from '@microflash/card-render';
+
 import { createCard } from '@/lib/api';
 import { CardContent } from '@/components/CardContent';
 
@@ -36,12 +38,17 @@ export default function NewCardScreen() {
   const [showPreview, setShowPreview] = useState(false);
   const [saving, setSaving] = useState(false);
 
+  // A front with {{c1::...}} markers creates one cloze card per index,
+  // whose back is optional
+  const clozeIndices = getClozeIndices(front);
+  const isCloze = clozeIndices.length > 0;
+
   const handleSave = async () => {
     if (!front.trim()) {
       Alert.alert('Error', 'Please enter the front of the card (question)');
       return;
     }
-    if (!back.trim()) {
+    if (!isCloze && !back.trim()) {
       Alert.alert('Error', 'Please enter the back of the card (answer)');
       return;
     }
@@ -57,6 +64,7 @@ export default function NewCardScreen() {
         back: back.trim(),
         deckId,
         priority,
+        type: isCloze ? 'CLOZE' : 'BASIC',
       });
 
       // Navigate back
@@ -165,7 +173,16 @@ export default function NewCardScreen() {
               <View style={styles.previewCard}>
                 <Text style={styles.previewLabel}>Front (Question)</Text>
                 {front.trim() ? (
-                  <CardContent content={front} fontSize={18} color="#333" />
+                  <CardContent
+                    content={front}
+                    fontSize={18}
+                    color="#333"
+                    cloze={
+                      isCloze
+                        ? { index: clozeIndices[0], revealed: false }
+                        : undefined
+                    }
+                  />
                 ) : (
                   <Text style={styles.previewPlaceholder}>
                     Enter the front of the card...
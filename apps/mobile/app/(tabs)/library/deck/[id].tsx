@@ -2,7 +2,7 @@
  * Deck Detail Screen
  *
  * Shows deck information, cards list, and allows:
- * - Starting a sprint for this deck
+ * - Starting a sprint for this deck, or cramming it without rescheduling
  * - Navigating to card editor (create/edit)
  * - Adjusting deck priority
  */
@@ -28,39 +28,69 @@ import Slider from '@react-native-community/slider';
 
 import {
   getCards,
+  iterateCards,
   getDeck,
   updateDeck,
   startSprint,
   ApiError,
   type Card,
   type Deck,
+  type SprintMode,
 } from '@/lib/api';
 
+/**
+ * Count a deck's due cards, going through its cards soonest due first until
+ * one is not due yet.
+ */
+async function countDueCards(deckId: string): Promise<number> {
+  const now = new Date();
+  let count = 0;
+  for await (const card of iterateCards({
+    deckId,
+    sort: 'due',
+    fields: ['nextReview'],
+    limit: 200,
+  })) {
+    if (new Date(card.nextReview) > now) break;
+    count += 1;
+  }
+  return count;
+}
+
 export default function DeckDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
 
   const [deck, setDeck] = useState<Deck | null>(null);
   const [cards, setCards] = useState<Card[]>([]);
+  // Cursor for the next page of cards (null = all loaded)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [dueCardsCount, setDueCardsCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [priority, setPriority] = useState(50);
   const [savingPriority, setSavingPriority] = useState(false);
-  const [startingSprintForDeck, setStartingSprintForDeck] = useState(false);
+  const [startingSprintMode, setStartingSprintMode] =
+    useState<SprintMode | null>(null);
+  const startingSprintForDeck = startingSprintMode !== null;
 
   const fetchData = useCallback(async () => {
     if (!id) return;
 
     try {
       setError(null);
-      // Fetch deck and cards in parallel
-      const [deckResponse, cardsResponse] = await Promise.all([
+      // Fetch deck, the first page of cards and the due count in parallel
+      const [deckResponse, cardsResponse, dueCount] = await Promise.all([
         getDeck(id),
-        getCards(id),
+        getCards({ deckId: id }),
+        countDueCards(id),
       ]);
       setDeck(deckResponse.deck);
-      setCards(cardsResponse.cards);
+      setCards(cardsResponse.items);
+      setNextCursor(cardsResponse.nextCursor);
+      setDueCardsCount(dueCount);
       setPriority(deckResponse.deck.priority);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load deck');
@@ -82,6 +112,24 @@ export default function DeckDetailScreen() {
     fetchData();
   };
 
+  const handleEndReached = async () => {
+    if (!id || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getCards({ deckId: id, cursor: nextCursor });
+      setCards((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      Alert.alert(
+        'Error',
+        err instanceof Error ? err.message : 'Failed to load cards',
+      );
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handlePriorityChange = async (newPriority: number) => {
     if (!id || !deck) return;
 
@@ -126,14 +174,15 @@ export default function DeckDetailScreen() {
     });
   };
 
-  const handleStartSprintForDeck = async () => {
+  const handleStartSprintForDeck = async (mode: SprintMode) => {
     if (!id || startingSprintForDeck) return;
 
-    setStartingSprintForDeck(true);
+    setStartingSprintMode(mode);
     try {
       const { sprint } = await startSprint({
         deckId: id,
         source: 'DECK',
+        mode,
       });
 
       router.push({
@@ -148,8 +197,10 @@ export default function DeckDetailScreen() {
     } catch (err) {
       if (err instanceof ApiError && err.code === 'NO_ELIGIBLE_CARDS') {
         Alert.alert(
-          'No Cards Due',
-          'There are no cards due for review in this deck right now.',
+          mode === 'CRAM' ? 'No Cards Left' : 'No Cards Due',
+          mode === 'CRAM'
+            ? 'You have crammed every card in this deck today.'
+            : 'There are no cards due for review in this deck right now.',
         );
       } else {
         Alert.alert(
@@ -158,7 +209,7 @@ export default function DeckDetailScreen() {
         );
       }
     } finally {
-      setStartingSprintForDeck(false);
+      setStartingSprintMode(null);
     }
   };
 
@@ -217,12 +268,6 @@ export default function DeckDetailScreen() {
     );
   }
 
-  // Count due cards in this deck
-  const dueCardsCount = cards.filter((card) => {
-    const nextReview = new Date(card.nextReview);
-    return nextReview <= new Date();
-  }).length;
-
   return (
     <>
       <Stack.Screen options={{ title: deck.title }} />
@@ -236,10 +281,10 @@ export default function DeckDetailScreen() {
                 (startingSprintForDeck || dueCardsCount === 0) &&
                   styles.buttonDisabled,
               ]}
-              onPress={handleStartSprintForDeck}
+              onPress={() => handleStartSprintForDeck('REVIEW')}
               disabled={startingSprintForDeck || dueCardsCount === 0}
             >
-              {startingSprintForDeck ? (
+              {startingSprintMode === 'REVIEW' ? (
                 <ActivityIndicator color="#fff" size="small" />
               ) : (
                 <>
@@ -256,6 +301,25 @@ export default function DeckDetailScreen() {
                 </>
               )}
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.cramButton,
+                startingSprintForDeck && styles.buttonDisabled,
+              ]}
+              onPress={() => handleStartSprintForDeck('CRAM')}
+              disabled={startingSprintForDeck}
+            >
+              {startingSprintMode === 'CRAM' ? (
+                <ActivityIndicator color="#4CAF50" size="small" />
+              ) : (
+                <>
+                  <Text style={styles.cramButtonText}>Cram This Deck</Text>
+                  <Text style={styles.cramHintText}>
+                    Review cards early without changing their schedule
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
           </View>
         )}
 
@@ -313,6 +377,12 @@ export default function DeckDetailScreen() {
             renderItem={renderCard}
             keyExtractor={(item) => item.id}
             contentContainerStyle={styles.list}
+            onEndReached={handleEndReached}
+            ListFooterComponent={
+              loadingMore ? (
+                <ActivityIndicator style={styles.loadingMore} color="#2196f3" />
+              ) : null
+            }
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -359,6 +429,24 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 4,
   },
+  cramButton: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  cramButtonText: {
+    color: '#4CAF50',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cramHintText: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
   // Priority Section
   prioritySection: {
     backgroundColor: '#fff',
@@ -460,6 +548,9 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 12,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   cardItem: {
     backgroundColor: '#fff',
     borderRadius: 12,
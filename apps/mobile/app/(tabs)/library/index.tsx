@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import {
   StyleSheet,
   View,
@@ -9,10 +9,47 @@ import {
   FlatList,
   RefreshControl,
   Alert,
+  type StyleProp,
+  type TextStyle,
 } from 'react-native';
 import { useFocusEffect, router } from 'expo-router';
 
-import { getDecks, createDeck, type Deck } from '@/lib/api';
+import {
+  iterateDecks,
+  createDeck,
+  searchCards,
+  type Deck,
+  type CardSearchResult,
+  type SnippetPart,
+} from '@/lib/api';
+
+/** Wait for typing to pause before searching */
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Snippet text with the matches of the search in bold.
+ */
+function Snippet({
+  parts,
+  style,
+}: {
+  parts: SnippetPart[];
+  style: StyleProp<TextStyle>;
+}) {
+  return (
+    <Text style={style} numberOfLines={2}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <Text key={index} style={styles.snippetMatch}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        ),
+      )}
+    </Text>
+  );
+}
 
 export default function DecksScreen() {
   const [decks, setDecks] = useState<Deck[]>([]);
@@ -25,10 +62,21 @@ export default function DecksScreen() {
   const [newTitle, setNewTitle] = useState('');
   const [creating, setCreating] = useState(false);
 
+  // Card search
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CardSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const searchText = query.trim();
+
   const fetchDecks = useCallback(async () => {
     try {
       setError(null);
-      const { decks: fetchedDecks } = await getDecks();
+      // Load every page of decks; subdecks come with their parents
+      const fetchedDecks: Deck[] = [];
+      for await (const deck of iterateDecks()) {
+        fetchedDecks.push(deck);
+      }
       setDecks(fetchedDecks);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load decks');
@@ -45,6 +93,42 @@ export default function DecksScreen() {
     }, [fetchDecks]),
   );
 
+  useEffect(() => {
+    if (!searchText) {
+      setResults([]);
+      setSearchError(null);
+      return;
+    }
+
+    // Ignore the response of a search the user has typed past
+    let stale = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const { results: found } = await searchCards(searchText);
+        if (!stale) {
+          setResults(found);
+          setSearchError(null);
+        }
+      } catch (err) {
+        if (!stale) {
+          setSearchError(
+            err instanceof Error ? err.message : 'Failed to search cards',
+          );
+        }
+      } finally {
+        if (!stale) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+
   const handleRefresh = () => {
     setRefreshing(true);
     fetchDecks();
@@ -76,6 +160,19 @@ export default function DecksScreen() {
     router.push(`/(tabs)/library/deck/${deck.id}`);
   };
 
+  const renderResult = ({ item }: { item: CardSearchResult }) => (
+    <TouchableOpacity
+      style={styles.resultItem}
+      onPress={() => router.push(`/(tabs)/library/card/${item.card.id}`)}
+    >
+      <Snippet parts={item.snippets.front} style={styles.resultFront} />
+      <Snippet parts={item.snippets.back} style={styles.resultBack} />
+      {item.card.deckTitle && (
+        <Text style={styles.resultDeck}>{item.card.deckTitle}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
   const renderDeck = ({ item }: { item: Deck }) => (
     <TouchableOpacity
       style={styles.deckItem}
@@ -107,75 +204,124 @@ export default function DecksScreen() {
 
   return (
     <View style={styles.container}>
-      {/* Create Deck Form */}
-      {showForm ? (
-        <View style={styles.form}>
-          <TextInput
-            style={styles.input}
-            placeholder="Deck title"
-            value={newTitle}
-            onChangeText={setNewTitle}
-            autoFocus
-            editable={!creating}
+      {/* Card Search */}
+      <View style={styles.searchBar}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search cards"
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </View>
+
+      {searchText ? (
+        searchError ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{searchError}</Text>
+          </View>
+        ) : results.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            {searching ? (
+              <ActivityIndicator size="large" />
+            ) : (
+              <Text style={styles.emptyText}>No cards match your search</Text>
+            )}
+          </View>
+        ) : (
+          <FlatList
+            data={results}
+            renderItem={renderResult}
+            keyExtractor={(item) => item.card.id}
+            contentContainerStyle={styles.list}
+            keyboardShouldPersistTaps="handled"
           />
-          <View style={styles.formButtons}>
-            <TouchableOpacity
-              style={styles.cancelButton}
-              onPress={() => {
-                setShowForm(false);
-                setNewTitle('');
-              }}
-              disabled={creating}
-            >
-              <Text style={styles.cancelButtonText}>Cancel</Text>
-            </TouchableOpacity>
+        )
+      ) : (
+        <>
+          {/* Create Deck Form */}
+          {showForm ? (
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                placeholder="Deck title"
+                value={newTitle}
+                onChangeText={setNewTitle}
+                autoFocus
+                editable={!creating}
+              />
+              <View style={styles.formButtons}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => {
+                    setShowForm(false);
+                    setNewTitle('');
+                  }}
+                  disabled={creating}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.createButton,
+                    creating && styles.buttonDisabled,
+                  ]}
+                  onPress={handleCreateDeck}
+                  disabled={creating}
+                >
+                  {creating ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.createButtonText}>Create</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
             <TouchableOpacity
-              style={[styles.createButton, creating && styles.buttonDisabled]}
-              onPress={handleCreateDeck}
-              disabled={creating}
+              style={styles.addButton}
+              onPress={() => setShowForm(true)}
             >
-              {creating ? (
-                <ActivityIndicator color="#fff" size="small" />
-              ) : (
-                <Text style={styles.createButtonText}>Create</Text>
-              )}
+              <Text style={styles.addButtonText}>+ New Deck</Text>
             </TouchableOpacity>
-          </View>
-        </View>
-      ) : (
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => setShowForm(true)}
-        >
-          <Text style={styles.addButtonText}>+ New Deck</Text>
-        </TouchableOpacity>
-      )}
+          )}
 
-      {error ? (
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={handleRefresh}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
-      ) : decks.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyIcon}>📚</Text>
-          <Text style={styles.emptyTitle}>No decks yet</Text>
-          <Text style={styles.emptyText}>
-            Create your first deck to start learning!
-          </Text>
-        </View>
-      ) : (
-        <FlatList
-          data={decks}
-          renderItem={renderDeck}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={styles.list}
-          refreshControl={
-            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
-          }
-        />
+          {error ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={handleRefresh}
+              >
+                <Text style={styles.retryButtonText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : decks.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyIcon}>📚</Text>
+              <Text style={styles.emptyTitle}>No decks yet</Text>
+              <Text style={styles.emptyText}>
+                Create your first deck to start learning!
+              </Text>
+            </View>
+          ) : (
+            <FlatList
+              data={decks}
+              renderItem={renderDeck}
+              keyExtractor={(item) => item.id}
+              contentContainerStyle={styles.list}
+              refreshControl={
+                <RefreshControl
+                  refreshing={refreshing}
+                  onRefresh={handleRefresh}
+                />
+              }
+            />
+          )}
+        </>
       )}
     </View>
   );
@@ -241,6 +387,43 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  searchBar: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  searchInput: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  resultItem: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  resultFront: {
+    fontSize: 16,
+    color: '#333',
+  },
+  resultBack: {
+    fontSize: 14,
+    color: '#666',
+  },
+  resultDeck: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  snippetMatch: {
+    fontWeight: '700',
+    color: '#000',
+  },
   addButton: {
     backgroundColor: '#fff',
     padding: 16,
@@ -5,7 +5,7 @@
  * Shows cards one at a time with reveal/grade flow.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -24,6 +24,7 @@ import {
 import {
   getSprint,
   submitSprintReview,
+  undoSprintReview,
   completeSprint,
   ApiError,
   type Sprint,
@@ -31,6 +32,7 @@ import {
   type Rating,
 } from '@/lib/api';
 import { CardContent } from '@/components/CardContent';
+import { formatInterval } from '@/lib/format-interval';
 
 export default function SprintReviewScreen() {
   const { id, returnTo, launchSource, deckId } = useLocalSearchParams<{
@@ -45,6 +47,12 @@ export default function SprintReviewScreen() {
   const [error, setError] = useState<string | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // Until when the last review can be undone (ISO timestamp)
+  const [undoableUntil, setUndoableUntil] = useState<string | null>(null);
+  // When the current card was shown and its answer revealed, for the
+  // review's answer times
+  const cardShownAtRef = useRef(Date.now());
+  const answerRevealedAtRef = useRef<number | null>(null);
 
   const fetchSprint = useCallback(async () => {
     if (!id) return;
@@ -53,6 +61,8 @@ export default function SprintReviewScreen() {
       setError(null);
       const { sprint: fetchedSprint } = await getSprint(id);
       setSprint(fetchedSprint);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
 
       // Check if sprint was auto-abandoned
       if (fetchedSprint.status === 'ABANDONED') {
@@ -92,6 +102,7 @@ export default function SprintReviewScreen() {
   };
 
   const handleReveal = () => {
+    answerRevealedAtRef.current = Date.now();
     setShowAnswer(true);
   };
 
@@ -101,13 +112,24 @@ export default function SprintReviewScreen() {
 
     setSubmitting(true);
     try {
-      const { sprint: updatedSprint } = await submitSprintReview(sprint.id, {
-        cardId: currentCard.card.id,
-        rating,
-      });
+      const ratedAt = Date.now();
+      const revealedAt = answerRevealedAtRef.current ?? ratedAt;
+      // Server rejects durations over an hour (e.g. app left open)
+      const capDuration = (ms: number) => Math.min(ms, 3600000);
+      const { sprint: updatedSprint, undoableUntil: reviewUndoableUntil } =
+        await submitSprintReview(sprint.id, {
+          cardId: currentCard.card.id,
+          rating,
+          durationMs: capDuration(ratedAt - cardShownAtRef.current),
+          timeToRevealMs: capDuration(revealedAt - cardShownAtRef.current),
+          timeToRateMs: capDuration(ratedAt - revealedAt),
+        });
 
       setSprint(updatedSprint);
       setShowAnswer(false);
+      setUndoableUntil(reviewUndoableUntil);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
 
       // Check if all cards are reviewed
       const remainingCards = updatedSprint.cards.filter(
@@ -125,6 +147,7 @@ export default function SprintReviewScreen() {
               returnTo: returnTo ?? '/',
               launchSource: launchSource ?? 'HOME',
               deckId: deckId ?? '',
+              undoableUntil: reviewUndoableUntil ?? '',
               totalCards: String(stats.totalCards),
               reviewedCards: String(stats.reviewedCards),
               passCount: String(stats.passCount),
@@ -141,6 +164,7 @@ export default function SprintReviewScreen() {
               returnTo: returnTo ?? '/',
               launchSource: launchSource ?? 'HOME',
               deckId: deckId ?? '',
+              undoableUntil: reviewUndoableUntil ?? '',
             },
           });
         }
@@ -166,12 +190,47 @@ export default function SprintReviewScreen() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!sprint || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const { sprint: updatedSprint } = await undoSprintReview(sprint.id);
+
+      setSprint(updatedSprint);
+      setShowAnswer(false);
+      setUndoableUntil(null);
+      cardShownAtRef.current = Date.now();
+      answerRevealedAtRef.current = null;
+    } catch (err) {
+      if (
+        err instanceof ApiError &&
+        (err.code === 'UNDO_WINDOW_EXPIRED' ||
+          err.code === 'UNDO_NOT_AVAILABLE')
+      ) {
+        // Nothing left to undo; just hide the button
+        setUndoableUntil(null);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('Failed to undo review');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleGoHome = () => {
     router.replace(returnTo ?? '/');
   };
 
   const currentCard = getCurrentCard();
   const progress = sprint?.progress;
+  // Cram ratings don't reschedule the card: there's no interval to show
+  const intervalPreview =
+    sprint?.mode === 'CRAM' ? null : currentCard?.card.intervalPreview;
+  const canUndo =
+    undoableUntil !== null && new Date(undoableUntil).getTime() > Date.now();
 
   if (loading) {
     return (
@@ -219,6 +278,13 @@ export default function SprintReviewScreen() {
         options={{
           title: sprint.deckTitle ?? 'Sprint Review',
           headerBackTitle: 'Back',
+          headerRight: canUndo
+            ? () => (
+                <TouchableOpacity onPress={handleUndo} disabled={submitting}>
+                  <Text style={styles.undoButtonText}>Undo</Text>
+                </TouchableOpacity>
+              )
+            : undefined,
         }}
       />
       <View style={styles.container}>
@@ -251,20 +317,28 @@ export default function SprintReviewScreen() {
               content={currentCard.card.front}
               fontSize={18}
               color="#333"
+              cloze={
+                currentCard.card.clozeIndex !== null
+                  ? { index: currentCard.card.clozeIndex, revealed: showAnswer }
+                  : undefined
+              }
             />
 
-            {/* Back (if revealed) */}
-            {showAnswer && (
-              <>
-                <View style={styles.divider} />
-                <Text style={styles.cardLabel}>Answer</Text>
-                <CardContent
-                  content={currentCard.card.back}
-                  fontSize={18}
-                  color="#333"
-                />
-              </>
-            )}
+            {/* Back (if revealed). A cloze card's answer is in its front,
+                and its back only holds optional extra notes */}
+            {showAnswer &&
+              (currentCard.card.clozeIndex === null ||
+                currentCard.card.back.trim().length > 0) && (
+                <>
+                  <View style={styles.divider} />
+                  <Text style={styles.cardLabel}>Answer</Text>
+                  <CardContent
+                    content={currentCard.card.back}
+                    fontSize={18}
+                    color="#333"
+                  />
+                </>
+              )}
           </View>
 
           {/* Deck info */}
@@ -291,6 +365,11 @@ export default function SprintReviewScreen() {
               >
                 <Text style={styles.gradeButtonText}>Again</Text>
                 <Text style={styles.gradeButtonHint}>Forgot</Text>
+                {intervalPreview && (
+                  <Text style={styles.gradeButtonInterval}>
+                    {formatInterval(intervalPreview.AGAIN)}
+                  </Text>
+                )}
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.gradeButton, styles.hardButton]}
@@ -299,6 +378,11 @@ export default function SprintReviewScreen() {
               >
                 <Text style={styles.gradeButtonText}>Hard</Text>
                 <Text style={styles.gradeButtonHint}>Struggled</Text>
+                {intervalPreview && (
+                  <Text style={styles.gradeButtonInterval}>
+                    {formatInterval(intervalPreview.HARD)}
+                  </Text>
+                )}
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.gradeButton, styles.goodButton]}
@@ -307,6 +391,11 @@ export default function SprintReviewScreen() {
               >
                 <Text style={styles.gradeButtonText}>Good</Text>
                 <Text style={styles.gradeButtonHint}>Correct</Text>
+                {intervalPreview && (
+                  <Text style={styles.gradeButtonInterval}>
+                    {formatInterval(intervalPreview.GOOD)}
+                  </Text>
+                )}
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.gradeButton, styles.easyButton]}
@@ -315,6 +404,11 @@ export default function SprintReviewScreen() {
               >
                 <Text style={styles.gradeButtonText}>Easy</Text>
                 <Text style={styles.gradeButtonHint}>Effortless</Text>
+                {intervalPreview && (
+                  <Text style={styles.gradeButtonInterval}>
+                    {formatInterval(intervalPreview.EASY)}
+                  </Text>
+                )}
               </TouchableOpacity>
             </View>
           )}
@@ -370,6 +464,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  undoButtonText: {
+    color: '#2196f3',
+    fontSize: 16,
+  },
   // Progress
   progressContainer: {
     flexDirection: 'row',
@@ -475,6 +573,12 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginTop: 2,
   },
+  gradeButtonInterval: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   againButton: {
     backgroundColor: '#f44336',
   },
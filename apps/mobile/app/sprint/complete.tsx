@@ -2,7 +2,8 @@
  * Sprint Complete Screen
  *
  * Displays completion feedback after finishing a sprint.
- * Shows stats and provides "Done" and "One More Sprint" actions.
+ * Shows stats and provides "Done" and "One More Sprint" actions, plus
+ * "Undo Last Review" while the final review can still be undone.
  */
 
 import { useState } from 'react';
@@ -15,22 +16,31 @@ import {
 } from 'react-native';
 import { Stack, router, useLocalSearchParams } from 'expo-router';
 
-import { startSprint, ApiError, type SprintSource } from '@/lib/api';
+import {
+  startSprint,
+  undoSprintReview,
+  ApiError,
+  type SprintSource,
+} from '@/lib/api';
 
 export default function SprintCompleteScreen() {
   const {
+    sprintId,
     returnTo,
     launchSource,
     deckId,
+    undoableUntil,
     totalCards,
     reviewedCards,
     passCount,
     failCount,
     durationSeconds,
   } = useLocalSearchParams<{
+    sprintId?: string;
     returnTo?: string;
     launchSource?: string;
     deckId?: string;
+    undoableUntil?: string;
     totalCards?: string;
     reviewedCards?: string;
     passCount?: string;
@@ -39,6 +49,7 @@ export default function SprintCompleteScreen() {
   }>();
 
   const [startingNewSprint, setStartingNewSprint] = useState(false);
+  const [undoing, setUndoing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Parse stats from params
@@ -94,6 +105,42 @@ export default function SprintCompleteScreen() {
     }
   };
 
+  const canUndo =
+    !!sprintId &&
+    !!undoableUntil &&
+    new Date(undoableUntil).getTime() > Date.now();
+
+  const handleUndo = async () => {
+    if (!sprintId || undoing) return;
+
+    setUndoing(true);
+    setError(null);
+
+    try {
+      await undoSprintReview(sprintId);
+
+      // Back to the reopened sprint to rate the card again
+      router.replace({
+        pathname: '/sprint/[id]',
+        params: {
+          id: sprintId,
+          returnTo: returnTo ?? '/',
+          launchSource: launchSource ?? 'HOME',
+          deckId: deckId ?? '',
+        },
+      });
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'UNDO_WINDOW_EXPIRED') {
+        setError('The last review can no longer be undone.');
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('Failed to undo review');
+      }
+      setUndoing(false);
+    }
+  };
+
   // Format duration
   const formatDuration = (seconds: number): string => {
     if (seconds < 60) {
@@ -162,7 +209,7 @@ export default function SprintCompleteScreen() {
           <TouchableOpacity
             style={styles.doneButton}
             onPress={handleDone}
-            disabled={startingNewSprint}
+            disabled={startingNewSprint || undoing}
           >
             <Text style={styles.doneButtonText}>Done</Text>
           </TouchableOpacity>
@@ -173,7 +220,7 @@ export default function SprintCompleteScreen() {
               startingNewSprint && styles.buttonDisabled,
             ]}
             onPress={handleOneMoreSprint}
-            disabled={startingNewSprint}
+            disabled={startingNewSprint || undoing}
           >
             {startingNewSprint ? (
               <ActivityIndicator color="#2196f3" size="small" />
@@ -181,6 +228,20 @@ export default function SprintCompleteScreen() {
               <Text style={styles.oneMoreButtonText}>One More Sprint</Text>
             )}
           </TouchableOpacity>
+
+          {canUndo && (
+            <TouchableOpacity
+              style={styles.undoButton}
+              onPress={handleUndo}
+              disabled={startingNewSprint || undoing}
+            >
+              {undoing ? (
+                <ActivityIndicator color="#666" size="small" />
+              ) : (
+                <Text style={styles.undoButtonText}>Undo Last Review</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Encouragement */}
@@ -288,6 +349,14 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  undoButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  undoButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
   // Encouragement
   encouragement: {
     fontSize: 14,
@@ -1,7 +1,8 @@
 /**
  * CardContent Component
  *
- * Renders card content with support for:
+ * Renders card content from the render AST of @microflash/card-render, so
+ * cards look the same as on desktop:
  * - Markdown formatting (bold, italic, lists, code, etc.)
  * - LaTeX math expressions (inline and block)
  *
@@ -9,14 +10,33 @@
  * - Inline: $...$ or \(...\)
  * - Block: $$...$$ or \[...\]
  *
- * Uses KaTeX auto-render via WebView for content with math.
- * Uses native Markdown for content without math (better performance).
+ * Cloze markers ({{c1::...}}) are blanked or revealed for one cloze index
+ * when the cloze prop is set.
+ *
+ * Media references (![alt](media:<id>)) show the uploaded image or an audio
+ * player, depending on the media's type.
+ *
+ * Content with math, media or images is rendered as the package's sanitized
+ * HTML in a WebView, with KaTeX typesetting the math.
+ * Other content is rendered natively (better performance).
  */
 
-import React, { useMemo, useState } from 'react';
-import { View, StyleSheet, StyleProp, TextStyle } from 'react-native';
-import Markdown from 'react-native-markdown-display';
+import React, { useMemo, useState, type ReactNode } from 'react';
+import { View, Text, StyleSheet, Linking } from 'react-native';
+import type { TextStyle, ViewStyle } from 'react-native';
 import { WebView } from 'react-native-webview';
+import {
+  parseCard,
+  renderHtml,
+  sanitizeUrl,
+  someNode,
+  type BlockNode,
+  type ClozeView,
+  type InlineNode,
+  type MediaSource,
+  type RootNode,
+} from '@microflash/card-render';
+import { useMediaSources } from '@/hooks/use-media-sources';
 
 interface CardContentProps {
   /** The content string to render (may contain markdown and/or LaTeX) */
@@ -25,81 +45,30 @@ interface CardContentProps {
   fontSize?: number;
   /** Text color (default: #333) */
   color?: string;
+  /** Render the content as a cloze text for this index */
+  cloze?: ClozeView;
 }
 
 /**
- * Check if content contains any math delimiters
- */
-function containsMath(content: string): boolean {
-  // Check for any math delimiters: $, $$, \(, \), \[, \]
-  return /\$|\\\(|\\\)|\\\[|\\]/.test(content);
-}
-
-/**
- * Convert basic markdown to HTML for WebView rendering
- * Handles: bold, italic, code, headers, lists, links
+ * Check if content needs the WebView: math is typeset by KaTeX, and media
+ * and images are shown by the browser
  */
-function markdownToHtml(content: string): string {
-  let html = content;
-
-  // Escape HTML entities first (but preserve math delimiters)
-  html = html
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-
-  // Headers (must come before bold to avoid conflicts with **)
-  html = html.replace(/^### (.+)$/gm, '<h3>$1</h3>');
-  html = html.replace(/^## (.+)$/gm, '<h2>$1</h2>');
-  html = html.replace(/^# (.+)$/gm, '<h1>$1</h1>');
-
-  // Bold: **text** or __text__
-  html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-  html = html.replace(/__(.+?)__/g, '<strong>$1</strong>');
-
-  // Italic: *text* or _text_ (but not inside math)
-  // Be careful not to match inside $ delimiters
-  html = html.replace(/(?<!\$)\*(?!\*)(.+?)(?<!\*)\*(?!\$)/g, '<em>$1</em>');
-  html = html.replace(/(?<![\\$])_(?!_)(.+?)(?<!_)_(?![\\$])/g, '<em>$1</em>');
-
-  // Inline code: `code`
-  html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-
-  // Links: [text](url)
-  html = html.replace(/\[([^\]]+)]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-  // Unordered lists: - item or * item
-  html = html.replace(/^[\-*] (.+)$/gm, '<li>$1</li>');
-
-  // Ordered lists: 1. item
-  html = html.replace(/^\d+\. (.+)$/gm, '<li>$1</li>');
-
-  // Wrap consecutive <li> in <ul>
-  html = html.replace(/(<li>.*<\/li>\n?)+/g, '<ul>$&</ul>');
-
-  // Paragraphs: double newlines
-  html = html.replace(/\n\n+/g, '</p><p>');
-
-  // Single newlines to <br> (but not inside lists)
-  html = html.replace(/(?<!<\/li>)\n(?!<)/g, '<br>');
-
-  // Wrap in paragraph if not already wrapped
-  if (!html.startsWith('<')) {
-    html = '<p>' + html + '</p>';
-  }
-
-  return html;
+function needsWebView(root: RootNode): boolean {
+  return someNode(root, (node) =>
+    ['math', 'inlineMath', 'media', 'image'].includes(node.type),
+  );
 }
 
 /**
  * Generate HTML with KaTeX auto-render for mixed content
  */
 function generateKaTeXHTML(
-  content: string,
+  root: RootNode,
   fontSize: number,
   color: string,
+  mediaSources: Record<string, MediaSource>,
 ): string {
-  const htmlContent = markdownToHtml(content);
+  const htmlContent = renderHtml(root, { media: mediaSources });
 
   return `
 <!DOCTYPE html>
@@ -109,7 +78,6 @@ function generateKaTeXHTML(
   <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
   <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css" crossorigin="anonymous">
   <script defer src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.js" crossorigin="anonymous"></script>
-  <script defer src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/contrib/auto-render.min.js" crossorigin="anonymous"></script>
   <style>
     * {
       margin: 0;
@@ -156,6 +124,47 @@ function generateKaTeXHTML(
       color: #2196f3;
       text-decoration: underline;
     }
+    img {
+      display: block;
+      max-width: 100%;
+      height: auto;
+      margin: 0.5em auto;
+      border-radius: 4px;
+    }
+    audio {
+      display: block;
+      width: 100%;
+      margin: 0.5em 0;
+    }
+    .media-missing {
+      color: #999;
+      font-style: italic;
+    }
+    .cloze {
+      font-weight: bold;
+    }
+    pre {
+      background-color: #f5f5f5;
+      padding: 12px;
+      border-radius: 6px;
+      margin: 0.5em 0;
+      overflow-x: auto;
+    }
+    pre code {
+      background: none;
+      padding: 0;
+    }
+    blockquote {
+      background-color: #f9f9f9;
+      border-left: 4px solid #ddd;
+      padding: 4px 0 4px 12px;
+      margin: 0.5em 0;
+    }
+    hr {
+      border: none;
+      border-top: 1px solid #ddd;
+      margin: 0.5em 0;
+    }
     /* KaTeX styling */
     .katex {
       font-size: 1em !important;
@@ -189,26 +198,25 @@ function generateKaTeXHTML(
   <div id="content">${htmlContent}</div>
   <script>
     document.addEventListener("DOMContentLoaded", function() {
-      renderMathInElement(document.getElementById("content"), {
-        delimiters: [
-          {left: "$$", right: "$$", display: true},
-          {left: "$", right: "$", display: false},
-          {left: "\\\\(", right: "\\\\)", display: false},
-          {left: "\\\\[", right: "\\\\]", display: true}
-        ],
-        throwOnError: false,
-        errorColor: '#cc0000',
-        // Custom error callback to log and style errors
-        errorCallback: function(msg, err) {
-          console.warn('KaTeX error:', msg, err);
-        }
+      // The renderer leaves math as TeX in .math elements
+      Array.prototype.forEach.call(document.querySelectorAll(".math"), function(element) {
+        katex.render(element.textContent, element, {
+          displayMode: element.classList.contains("math-display"),
+          throwOnError: false,
+          errorColor: '#cc0000'
+        });
       });
 
       // Send height back to React Native for auto-sizing
-      setTimeout(function() {
+      function postHeight() {
         var height = document.getElementById("content").offsetHeight;
         window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'height', value: height }));
-      }, 150);
+      }
+      setTimeout(postHeight, 150);
+      // Images change the height once they are decoded
+      Array.prototype.forEach.call(document.images, function(image) {
+        image.addEventListener('load', postHeight);
+      });
     });
   </script>
 </body>
@@ -216,6 +224,145 @@ function generateKaTeXHTML(
 `;
 }
 
+/**
+ * Styles of natively rendered content, based on fontSize and color.
+ */
+interface ContentStyles {
+  body: TextStyle;
+  headings: Record<1 | 2 | 3 | 4 | 5 | 6, TextStyle>;
+  strong: TextStyle;
+  em: TextStyle;
+  codeInline: TextStyle;
+  codeBlock: ViewStyle;
+  codeBlockText: TextStyle;
+  blockquote: ViewStyle;
+  list: ViewStyle;
+  listItem: ViewStyle;
+  listMarker: TextStyle;
+  listItemContent: ViewStyle;
+  thematicBreak: ViewStyle;
+  link: TextStyle;
+  cloze: TextStyle;
+}
+
+/**
+ * Render inline nodes as nested Text.
+ */
+function renderInline(nodes: InlineNode[], style: ContentStyles): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'emphasis':
+        return (
+          <Text key={index} style={style.em}>
+            {renderInline(node.children, style)}
+          </Text>
+        );
+      case 'strong':
+        return (
+          <Text key={index} style={style.strong}>
+            {renderInline(node.children, style)}
+          </Text>
+        );
+      case 'inlineCode':
+        return (
+          <Text key={index} style={style.codeInline}>
+            {node.value}
+          </Text>
+        );
+      case 'break':
+        return '\n';
+      case 'link': {
+        const url = sanitizeUrl(node.url, ['http:', 'https:', 'mailto:']);
+        const children = renderInline(node.children, style);
+        return url ? (
+          <Text
+            key={index}
+            style={style.link}
+            onPress={() => Linking.openURL(url)}
+          >
+            {children}
+          </Text>
+        ) : (
+          <Text key={index}>{children}</Text>
+        );
+      }
+      case 'cloze':
+        return (
+          <Text key={index} style={style.cloze}>
+            {node.revealed
+              ? renderInline(node.children, style)
+              : `[${node.hint ?? '...'}]`}
+          </Text>
+        );
+      default:
+        // Math, media and images are rendered by the WebView
+        return null;
+    }
+  });
+}
+
+/**
+ * Render a block node as native views.
+ */
+function renderBlock(
+  node: BlockNode,
+  key: number,
+  style: ContentStyles,
+): ReactNode {
+  switch (node.type) {
+    case 'paragraph':
+      return (
+        <Text key={key} style={style.body}>
+          {renderInline(node.children, style)}
+        </Text>
+      );
+    case 'heading':
+      return (
+        <Text key={key} style={style.headings[node.depth]}>
+          {renderInline(node.children, style)}
+        </Text>
+      );
+    case 'thematicBreak':
+      return <View key={key} style={style.thematicBreak} />;
+    case 'code':
+      return (
+        <View key={key} style={style.codeBlock}>
+          <Text style={style.codeBlockText}>{node.value}</Text>
+        </View>
+      );
+    case 'blockquote':
+      return (
+        <View key={key} style={style.blockquote}>
+          {node.children.map((child, index) =>
+            renderBlock(child, index, style),
+          )}
+        </View>
+      );
+    case 'list':
+      return (
+        <View key={key} style={style.list}>
+          {node.children.map((item, index) => (
+            <View key={index} style={style.listItem}>
+              <Text style={[style.body, style.listMarker]}>
+                {node.ordered ? `${(node.start ?? 1) + index}.` : '•'}
+              </Text>
+              <View style={style.listItemContent}>
+                {item.children.map((child, childIndex) =>
+                  renderBlock(child, childIndex, style),
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      );
+    default:
+      // Math is rendered by the WebView
+      return null;
+  }
+}
+
 /**
  * CardContent - Main component for rendering card content.
  */
@@ -223,27 +370,50 @@ export function CardContent({
   content,
   fontSize = 18,
   color = '#333',
+  cloze,
 }: CardContentProps) {
   const [webViewHeight, setWebViewHeight] = useState(100);
 
-  // Check if content has any math
-  const hasMath = useMemo(() => containsMath(content), [content]);
+  const clozeIndex = cloze?.index;
+  const clozeRevealed = cloze?.revealed ?? false;
+  const root = useMemo(
+    () =>
+      parseCard(content, {
+        cloze:
+          clozeIndex !== undefined
+            ? { index: clozeIndex, revealed: clozeRevealed }
+            : undefined,
+      }),
+    [content, clozeIndex, clozeRevealed],
+  );
 
-  // Generate HTML for WebView (only if has math)
+  const mediaSources = useMediaSources(content);
+  const useWebView = useMemo(() => needsWebView(root), [root]);
+
+  // Generate HTML for WebView (only if needed)
   const html = useMemo(
-    () => (hasMath ? generateKaTeXHTML(content, fontSize, color) : ''),
-    [content, fontSize, color, hasMath],
+    () =>
+      useWebView ? generateKaTeXHTML(root, fontSize, color, mediaSources) : '',
+    [root, fontSize, color, useWebView, mediaSources],
+  );
+
+  const contentStyles = useMemo(
+    () => getContentStyles(fontSize, color),
+    [fontSize, color],
   );
 
-  // If no math, render pure native Markdown (better performance)
-  if (!hasMath) {
+  // Otherwise render natively (better performance)
+  if (!useWebView) {
     return (
-      // @ts-expect-error style doesn't exist?
-      <Markdown style={getMarkdownStyles(fontSize, color)}>{content}</Markdown>
+      <View>
+        {root.children.map((node, index) =>
+          renderBlock(node, index, contentStyles),
+        )}
+      </View>
     );
   }
 
-  // Render content with math in WebView using KaTeX auto-render
+  // Render content with math or media in WebView using KaTeX
   const handleMessage = (event: { nativeEvent: { data: string } }) => {
     try {
       const data = JSON.parse(event.nativeEvent.data);
@@ -276,64 +446,60 @@ export function CardContent({
 }
 
 /**
- * Generate markdown styles based on fontSize and color.
+ * Generate content styles based on fontSize and color.
  */
-function getMarkdownStyles(
-  fontSize: number,
-  color: string,
-): StyleProp<TextStyle> {
+function getContentStyles(fontSize: number, color: string): ContentStyles {
   return {
     body: {
       fontSize,
       color,
       lineHeight: fontSize * 1.5,
+      marginBottom: 4,
     },
-    heading1: {
-      fontSize: fontSize * 1.5,
-      fontWeight: 'bold' as const,
-      color,
-      marginVertical: 8,
-    },
-    heading2: {
-      fontSize: fontSize * 1.3,
-      fontWeight: 'bold' as const,
-      color,
-      marginVertical: 6,
-    },
-    heading3: {
-      fontSize: fontSize * 1.1,
-      fontWeight: 'bold' as const,
-      color,
-      marginVertical: 4,
+    headings: {
+      1: {
+        fontSize: fontSize * 1.5,
+        fontWeight: 'bold',
+        color,
+        marginVertical: 8,
+      },
+      2: {
+        fontSize: fontSize * 1.3,
+        fontWeight: 'bold',
+        color,
+        marginVertical: 6,
+      },
+      3: {
+        fontSize: fontSize * 1.1,
+        fontWeight: 'bold',
+        color,
+        marginVertical: 4,
+      },
+      4: { fontSize, fontWeight: 'bold', color, marginVertical: 4 },
+      5: { fontSize, fontWeight: 'bold', color, marginVertical: 4 },
+      6: { fontSize, fontWeight: 'bold', color, marginVertical: 4 },
     },
     strong: {
-      fontWeight: 'bold' as const,
+      fontWeight: 'bold',
     },
     em: {
-      fontStyle: 'italic' as const,
+      fontStyle: 'italic',
     },
-    code_inline: {
+    codeInline: {
       backgroundColor: '#f0f0f0',
       fontFamily: 'monospace',
       fontSize: fontSize * 0.9,
-      paddingHorizontal: 4,
-      borderRadius: 3,
     },
-    code_block: {
+    codeBlock: {
       backgroundColor: '#f5f5f5',
-      fontFamily: 'monospace',
-      fontSize: fontSize * 0.85,
       padding: 12,
       borderRadius: 6,
       marginVertical: 8,
     },
-    fence: {
-      backgroundColor: '#f5f5f5',
+    codeBlockText: {
       fontFamily: 'monospace',
       fontSize: fontSize * 0.85,
-      padding: 12,
-      borderRadius: 6,
-      marginVertical: 8,
+      color,
     },
     blockquote: {
       backgroundColor: '#f9f9f9',
@@ -343,20 +509,33 @@ function getMarkdownStyles(
       paddingVertical: 4,
       marginVertical: 8,
     },
-    list_item: {
+    list: {
+      marginVertical: 4,
+    },
+    listItem: {
+      flexDirection: 'row',
       marginVertical: 2,
     },
-    bullet_list: {
-      marginVertical: 4,
+    listMarker: {
+      minWidth: fontSize * 1.2,
+      marginBottom: 0,
     },
-    ordered_list: {
-      marginVertical: 4,
+    listItemContent: {
+      flex: 1,
+    },
+    thematicBreak: {
+      borderTopWidth: 1,
+      borderTopColor: '#ddd',
+      marginVertical: 8,
     },
     link: {
       color: '#2196f3',
-      textDecorationLine: 'underline' as const,
+      textDecorationLine: 'underline',
     },
-  } as StyleProp<TextStyle>;
+    cloze: {
+      fontWeight: 'bold',
+    },
+  };
 }
 
 const styles = StyleSheet.create({
@@ -0,0 +1,79 @@
+/**
+ * Hook that loads the media a card references.
+ *
+ * Media is downloaded through the API client (it needs auth headers) and
+ * turned into data URIs, which both native images and the WebView renderer
+ * can display. Loaded media is cached for the session: uploads never change.
+ */
+
+import { useEffect, useState } from 'react';
+import { getMediaIds, type MediaSource } from '@microflash/card-render';
+import { fetchMedia } from '@/lib/api';
+
+const cache = new Map<string, Promise<MediaSource>>();
+
+/**
+ * Read a blob as a data URI.
+ */
+function toDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Load a media file once per session.
+ */
+function loadMedia(mediaId: string): Promise<MediaSource> {
+  let source = cache.get(mediaId);
+  if (!source) {
+    source = fetchMedia(mediaId).then(async (blob) => ({
+      uri: await toDataUri(blob),
+      mimeType: blob.type,
+    }));
+    // Let failed downloads be retried on the next render
+    source.catch(() => cache.delete(mediaId));
+    cache.set(mediaId, source);
+  }
+  return source;
+}
+
+/**
+ * Load the media referenced by a card's content.
+ *
+ * @param content - Card markdown
+ * @returns Loaded media by ID (missing until loaded, or if loading failed)
+ */
+export function useMediaSources(content: string): Record<string, MediaSource> {
+  const [sources, setSources] = useState<Record<string, MediaSource>>({});
+  const key = getMediaIds(content).join(',');
+
+  useEffect(() => {
+    const mediaIds = key ? key.split(',') : [];
+    if (mediaIds.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    for (const mediaId of mediaIds) {
+      loadMedia(mediaId)
+        .then((source) => {
+          if (!cancelled) {
+            setSources((current) => ({ ...current, [mediaId]: source }));
+          }
+        })
+        .catch((error) => {
+          console.warn(`Failed to load media ${mediaId}:`, error);
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return sources;
+}
@@ -12,6 +12,8 @@ module.exports = {
     // Map workspace packages to their source
     '^@microflash/api-client$':
       '<rootDir>/../../packages/api-client/src/index.ts',
+    '^@microflash/card-render$':
+      '<rootDir>/../../packages/card-render/src/index.ts',
   },
   // pnpm hoists packages to root node_modules/.pnpm, so we need patterns that work
   // for both the local node_modules symlinks AND the hoisted .pnpm structure.
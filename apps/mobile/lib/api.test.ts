@@ -4,6 +4,7 @@
  * Tests for edge cases in the API client, particularly:
  * - 204 No Content response handling
  * - Non-JSON error body handling
+ * - Following cursors through paginated lists
  *
  * These tests verify the shared @microflash/api-client behavior
  * through the mobile adapter.
@@ -176,4 +177,49 @@ describe('API client', () => {
       expect(result).toEqual({ deck: mockDeckData });
     });
   });
+
+  describe('Paginated lists', () => {
+    it('iterateCards follows the cursor until the last page', async () => {
+      const page = (ids: string[], nextCursor: string | null) => ({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue({
+          items: ids.map((id) => ({ id })),
+          total: 3,
+          pageSize: 2,
+          hasMore: nextCursor !== null,
+          nextCursor,
+        }),
+      });
+      mockFetch
+        .mockResolvedValueOnce(page(['card-1', 'card-2'], 'cursor-1'))
+        .mockResolvedValueOnce(page(['card-3'], null));
+
+      const { iterateCards } = require('./api');
+      const ids: string[] = [];
+      for await (const card of iterateCards({
+        deckId: 'deck-1',
+        fields: ['front', 'back'],
+        limit: 2,
+      })) {
+        ids.push(card.id);
+      }
+
+      expect(ids).toEqual(['card-1', 'card-2', 'card-3']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining(
+          '/api/cards?deckId=deck-1&fields=front%2Cback&limit=2',
+        ),
+        expect.anything(),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('&cursor=cursor-1'),
+        expect.anything(),
+      );
+    });
+  });
 });
@@ -24,6 +24,7 @@ if (!isApiClientConfigured()) {
     getAuthHeaders: () => ({
       'x-dev-clerk-id': DEV_CLERK_ID,
     }),
+    clientName: 'mobile',
   });
 }
 
@@ -38,21 +39,74 @@ export {
   type ApiClientConfig,
   type AuthHeaderProvider,
   // Types
+  type SortOrder,
+  type Page,
+  type PageOptions,
   type User,
+  type FSRSParameters,
+  type FSRSVersion,
+  type OptimizationStatus,
+  type FSRSOptimization,
+  type SchedulingAlgorithm,
   type Deck,
+  type DeckSort,
+  type DeckListField,
+  type GetDecksOptions,
+  type DeckPage,
   type CreateDeckRequest,
   type UpdateDeckRequest,
+  type FilteredDeckFilters,
+  type FilteredDeck,
+  type CreateFilteredDeckRequest,
+  type UpdateFilteredDeckRequest,
   type CardState,
+  type CardType,
   type Card,
+  type CardSort,
+  type CardListField,
+  type GetCardsOptions,
+  type CardAvailability,
+  type LeechAction,
+  type LeechCard,
+  type LeechReportDeck,
+  type SnippetPart,
+  type CardSearchResult,
+  type SearchCardsOptions,
   type CreateCardRequest,
+  type CreateCardResponse,
   type UpdateCardRequest,
+  type EditSource,
+  type CardRevision,
+  type DiffLine,
+  type CardRevisionDiff,
+  type Tag,
+  type CardTag,
+  type TagTreeNode,
+  type NoteFields,
+  type CardTemplate,
+  type NoteType,
+  type NoteCard,
+  type Note,
+  type CreateNoteTypeRequest,
+  type CreateNoteRequest,
+  type Media,
   type Rating,
   type Review,
+  type ReviewStateBefore,
+  type ReviewStateAfter,
+  type ReviewWithCard,
+  type ReviewListField,
+  type GetReviewsOptions,
+  type ReviewTiming,
+  type TimingAverages,
+  type ReviewTimingStats,
   type SprintStatus,
   type SprintSource,
+  type SprintMode,
   type CardResult,
   type SprintProgress,
   type CardInSprint,
+  type IntervalPreview,
   type SprintCard,
   type Sprint,
   type SprintStats,
@@ -63,21 +117,65 @@ export {
   type DevTestSprintNotificationResponse,
   // API Methods
   getMe,
+  getFSRSParameters,
+  optimizeFSRSParameters,
+  getFSRSOptimization,
+  setFSRSVersion,
+  resetFSRSParameters,
   getDecks,
+  iterateDecks,
   createDeck,
   getDeck,
   updateDeck,
   deleteDeck,
+  getFilteredDeck,
+  createFilteredDeck,
+  updateFilteredDeck,
+  deleteFilteredDeck,
   getCards,
+  iterateCards,
+  searchCards,
   getDueCards,
+  getLeeches,
+  suspendCard,
+  unsuspendCard,
+  buryCard,
+  unburyCard,
   createCard,
   getCard,
   updateCard,
   deleteCard,
+  getCardRevisions,
+  diffCardRevisions,
+  restoreCardRevision,
+  getTags,
+  getTagTree,
+  createTag,
+  renameTag,
+  deleteTag,
+  getCardTags,
+  addCardTag,
+  removeCardTag,
+  getNoteTypes,
+  createNoteType,
+  getNotes,
+  createNote,
+  getNote,
+  updateNote,
+  deleteNote,
+  getMediaList,
+  uploadMedia,
+  fetchMedia,
+  deleteMedia,
   submitReview,
+  undoLastReview,
+  getReviews,
+  iterateReviews,
+  getReviewTiming,
   startSprint,
   getSprint,
   submitSprintReview,
+  undoSprintReview,
   completeSprint,
   abandonSprint,
   getHomeSummary,
@@ -0,0 +1,16 @@
+import { formatInterval } from './format-interval';
+
+describe('formatInterval', () => {
+  it('formats learning steps in minutes and hours', () => {
+    expect(formatInterval(1)).toBe('1m');
+    expect(formatInterval(10)).toBe('10m');
+    expect(formatInterval(90)).toBe('2h');
+  });
+
+  it('formats review intervals in days, months and years', () => {
+    expect(formatInterval(3 * 1440)).toBe('3d');
+    expect(formatInterval(45 * 1440)).toBe('1.5mo');
+    expect(formatInterval(60 * 1440)).toBe('2mo');
+    expect(formatInterval(730 * 1440)).toBe('2y');
+  });
+});
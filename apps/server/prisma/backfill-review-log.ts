@@ -0,0 +1,35 @@
+import { prisma } from '../src/lib/prisma';
+import { backfillReviewLog } from '../src/services/review-log';
+
+/**
+ * Review Log Backfill Script
+ *
+ * Fills in the before/after scheduling state of reviews that were recorded
+ * before the review log existed, by replaying each card's review history.
+ *
+ * Usage:
+ *   pnpm db:backfill-review-log   (from apps/server)
+ *
+ * This script is idempotent - reviews that already have a log are skipped,
+ * so it can be run multiple times safely.
+ */
+
+async function main() {
+  console.log('📜 Backfilling review log...');
+
+  const { cardCount, reviewCount } = await backfillReviewLog();
+
+  console.log('✅ Backfill complete!');
+  console.log(`   - Cards replayed: ${cardCount}`);
+  console.log(`   - Reviews filled in: ${reviewCount}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:');
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "difficultyAfter" DOUBLE PRECISION,
+ADD COLUMN     "difficultyBefore" DOUBLE PRECISION,
+ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "elapsedDaysAfter" INTEGER,
+ADD COLUMN     "elapsedDaysBefore" INTEGER,
+ADD COLUMN     "lapsesBefore" INTEGER,
+ADD COLUMN     "lastReviewBefore" TIMESTAMP(3),
+ADD COLUMN     "nextReviewDate" TIMESTAMP(3),
+ADD COLUMN     "nextReviewDateBefore" TIMESTAMP(3),
+ADD COLUMN     "repsBefore" INTEGER,
+ADD COLUMN     "scheduledDaysAfter" INTEGER,
+ADD COLUMN     "scheduledDaysBefore" INTEGER,
+ADD COLUMN     "sprintId" TEXT,
+ADD COLUMN     "stabilityAfter" DOUBLE PRECISION,
+ADD COLUMN     "stabilityBefore" DOUBLE PRECISION,
+ADD COLUMN     "stateAfter" "CardState",
+ADD COLUMN     "stateBefore" "CardState";
+
+-- CreateIndex
+CREATE INDEX "Review_sprintId_idx" ON "Review"("sprintId");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "learningSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "relearningSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "learningSteps" INTEGER[] DEFAULT ARRAY[1, 10]::INTEGER[],
+ADD COLUMN     "relearningSteps" INTEGER[] DEFAULT ARRAY[1, 10]::INTEGER[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "enableFuzz" BOOLEAN NOT NULL DEFAULT true;
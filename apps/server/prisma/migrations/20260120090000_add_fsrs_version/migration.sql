@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "FSRSVersion" AS ENUM ('FSRS_4_5', 'FSRS_5');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "fsrsVersion" "FSRSVersion" NOT NULL DEFAULT 'FSRS_4_5';
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "fsrsVersion" "FSRSVersion" NOT NULL DEFAULT 'FSRS_4_5';
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "SchedulingAlgorithm" AS ENUM ('FSRS', 'SM2');
+
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "schedulingAlgorithm" "SchedulingAlgorithm" NOT NULL DEFAULT 'FSRS';
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "schedulingAlgorithm" "SchedulingAlgorithm" NOT NULL DEFAULT 'FSRS';
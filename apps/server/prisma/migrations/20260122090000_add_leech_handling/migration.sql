@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "LeechAction" AS ENUM ('TAG', 'SUSPEND', 'TAG_AND_SUSPEND');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "leechThreshold" INTEGER NOT NULL DEFAULT 8,
+ADD COLUMN     "leechAction" "LeechAction" NOT NULL DEFAULT 'TAG';
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "suspendedAt" TIMESTAMP(3);
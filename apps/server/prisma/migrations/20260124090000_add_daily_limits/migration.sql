@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "newCardsPerDay" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "reviewsPerDay" INTEGER NOT NULL DEFAULT 200;
+
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "newCardsPerDay" INTEGER,
+ADD COLUMN     "reviewsPerDay" INTEGER;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SprintMode" AS ENUM ('REVIEW', 'CRAM');
+
+-- AlterTable
+ALTER TABLE "Sprint" ADD COLUMN     "mode" "SprintMode" NOT NULL DEFAULT 'REVIEW';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "timeToRevealMs" INTEGER,
+ADD COLUMN     "timeToRateMs" INTEGER;
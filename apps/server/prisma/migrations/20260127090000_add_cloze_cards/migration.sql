@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "CardType" AS ENUM ('BASIC', 'CLOZE');
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "clozeGroupId" TEXT,
+ADD COLUMN     "clozeIndex" INTEGER,
+ADD COLUMN     "type" "CardType" NOT NULL DEFAULT 'BASIC';
+
+-- CreateIndex
+CREATE INDEX "Card_clozeGroupId_idx" ON "Card"("clozeGroupId");
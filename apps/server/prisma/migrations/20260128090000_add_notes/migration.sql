@@ -0,0 +1,79 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "noteId" TEXT,
+ADD COLUMN     "templateOrdinal" INTEGER;
+
+-- CreateTable
+CREATE TABLE "NoteType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "fields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NoteType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CardTemplate" (
+    "id" TEXT NOT NULL,
+    "noteTypeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ordinal" INTEGER NOT NULL,
+    "front" TEXT NOT NULL,
+    "back" TEXT NOT NULL,
+
+    CONSTRAINT "CardTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Note" (
+    "id" TEXT NOT NULL,
+    "noteTypeId" TEXT NOT NULL,
+    "deckId" TEXT NOT NULL,
+    "fields" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Note_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoteType_userId_idx" ON "NoteType"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardTemplate_noteTypeId_ordinal_key" ON "CardTemplate"("noteTypeId", "ordinal");
+
+-- CreateIndex
+CREATE INDEX "Note_deckId_idx" ON "Note"("deckId");
+
+-- CreateIndex
+CREATE INDEX "Note_noteTypeId_idx" ON "Note"("noteTypeId");
+
+-- CreateIndex
+CREATE INDEX "Card_noteId_idx" ON "Card"("noteId");
+
+-- AddForeignKey
+ALTER TABLE "Card" ADD CONSTRAINT "Card_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteType" ADD CONSTRAINT "NoteType_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CardTemplate" ADD CONSTRAINT "CardTemplate_noteTypeId_fkey" FOREIGN KEY ("noteTypeId") REFERENCES "NoteType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Note" ADD CONSTRAINT "Note_noteTypeId_fkey" FOREIGN KEY ("noteTypeId") REFERENCES "NoteType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Note" ADD CONSTRAINT "Note_deckId_fkey" FOREIGN KEY ("deckId") REFERENCES "Deck"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Stock note types, shared by all users
+INSERT INTO "NoteType" ("id", "name", "userId", "fields", "updatedAt") VALUES
+    ('basic', 'Basic', NULL, ARRAY['Front', 'Back'], CURRENT_TIMESTAMP),
+    ('basic-and-reversed', 'Basic (and reversed card)', NULL, ARRAY['Front', 'Back'], CURRENT_TIMESTAMP);
+
+INSERT INTO "CardTemplate" ("id", "noteTypeId", "name", "ordinal", "front", "back") VALUES
+    ('basic-card-1', 'basic', 'Card 1', 1, '{{Front}}', '{{Back}}'),
+    ('basic-and-reversed-card-1', 'basic-and-reversed', 'Card 1', 1, '{{Front}}', '{{Back}}'),
+    ('basic-and-reversed-card-2', 'basic-and-reversed', 'Card 2', 2, '{{Back}}', '{{Front}}');
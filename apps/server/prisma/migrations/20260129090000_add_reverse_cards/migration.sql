@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN     "createReverseCards" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "reverseOfId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Card_reverseOfId_key" ON "Card"("reverseOfId");
+
+-- AddForeignKey
+ALTER TABLE "Card" ADD CONSTRAINT "Card_reverseOfId_fkey" FOREIGN KEY ("reverseOfId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
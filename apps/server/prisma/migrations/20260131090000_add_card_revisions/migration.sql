@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "EditSource" AS ENUM ('MOBILE', 'DESKTOP', 'API');
+
+-- CreateTable
+CREATE TABLE "CardRevision" (
+    "id" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "front" TEXT NOT NULL,
+    "back" TEXT NOT NULL,
+    "source" "EditSource",
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CardRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CardRevision_cardId_createdAt_idx" ON "CardRevision"("cardId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CardRevision" ADD CONSTRAINT "CardRevision_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
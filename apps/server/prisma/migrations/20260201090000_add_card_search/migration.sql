@@ -0,0 +1,10 @@
+-- AlterTable
+-- Generated search document: fronts rank above backs. The 'simple'
+-- configuration doesn't stem, as cards mix languages.
+ALTER TABLE "Card" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', "front"), 'A') ||
+    setweight(to_tsvector('simple', "back"), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Card_searchVector_idx" ON "Card" USING GIN ("searchVector");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "FilteredDeck" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "query" TEXT,
+    "deckId" TEXT,
+    "tagId" TEXT,
+    "state" "CardState",
+    "minLapses" INTEGER,
+    "dueWithinDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FilteredDeck_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FilteredDeck_userId_idx" ON "FilteredDeck"("userId");
+
+-- AddForeignKey
+ALTER TABLE "FilteredDeck" ADD CONSTRAINT "FilteredDeck_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilteredDeck" ADD CONSTRAINT "FilteredDeck_deckId_fkey" FOREIGN KEY ("deckId") REFERENCES "Deck"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilteredDeck" ADD CONSTRAINT "FilteredDeck_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "FilteredDeckSearchMatch" (
+    "filteredDeckId" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+
+    CONSTRAINT "FilteredDeckSearchMatch_pkey" PRIMARY KEY ("filteredDeckId","cardId")
+);
+
+-- CreateIndex
+CREATE INDEX "FilteredDeckSearchMatch_cardId_idx" ON "FilteredDeckSearchMatch"("cardId");
+
+-- AddForeignKey
+ALTER TABLE "FilteredDeckSearchMatch" ADD CONSTRAINT "FilteredDeckSearchMatch_filteredDeckId_fkey" FOREIGN KEY ("filteredDeckId") REFERENCES "FilteredDeck"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilteredDeckSearchMatch" ADD CONSTRAINT "FilteredDeckSearchMatch_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
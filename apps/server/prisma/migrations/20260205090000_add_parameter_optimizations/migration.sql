@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "OptimizationStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ParameterOptimization" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "OptimizationStatus" NOT NULL DEFAULT 'RUNNING',
+    "reviewCount" INTEGER NOT NULL,
+    "scoredReviewCount" INTEGER,
+    "initialLoss" DOUBLE PRECISION,
+    "finalLoss" DOUBLE PRECISION,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ParameterOptimization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParameterOptimization_userId_startedAt_idx" ON "ParameterOptimization"("userId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ParameterOptimization" ADD CONSTRAINT "ParameterOptimization_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
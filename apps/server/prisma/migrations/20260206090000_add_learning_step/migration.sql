@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "learningStep" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "learningStepBefore" INTEGER;
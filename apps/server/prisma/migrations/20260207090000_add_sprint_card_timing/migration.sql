@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SprintCard" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "timeToRevealMs" INTEGER,
+ADD COLUMN     "timeToRateMs" INTEGER,
+ADD COLUMN     "cardState" "CardState";
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "fsrsVersionBefore" "FSRSVersion",
+ADD COLUMN     "schedulingAlgorithmBefore" "SchedulingAlgorithm",
+ADD COLUMN     "lastNotificationSentBefore" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "FilteredDeckSearchMatch" DROP CONSTRAINT "FilteredDeckSearchMatch_filteredDeckId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "FilteredDeckSearchMatch" DROP CONSTRAINT "FilteredDeckSearchMatch_cardId_fkey";
+
+-- DropTable
+DROP TABLE "FilteredDeckSearchMatch";
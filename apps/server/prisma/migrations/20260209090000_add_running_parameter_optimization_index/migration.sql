@@ -0,0 +1,14 @@
+-- Keep only the latest running optimization of each user
+UPDATE "ParameterOptimization" AS "optimization"
+SET "status" = 'FAILED', "completedAt" = CURRENT_TIMESTAMP
+WHERE "optimization"."status" = 'RUNNING'
+  AND EXISTS (
+    SELECT 1 FROM "ParameterOptimization" AS "later"
+    WHERE "later"."userId" = "optimization"."userId"
+      AND "later"."status" = 'RUNNING'
+      AND ("later"."startedAt", "later"."id") > ("optimization"."startedAt", "optimization"."id")
+  );
+
+-- CreateIndex
+-- Partial index, which Prisma can't express: at most one RUNNING optimization per user
+CREATE UNIQUE INDEX "ParameterOptimization_userId_running_key" ON "ParameterOptimization"("userId") WHERE "status" = 'RUNNING';
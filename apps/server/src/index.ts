@@ -6,7 +6,11 @@ import { startScheduler, stopScheduler } from '@/services/scheduler';
 
 // Import routes
 import decksRouter from '@/routes/decks';
+import filteredDecksRouter from '@/routes/filtered-decks';
 import cardsRouter from '@/routes/cards';
+import notesRouter from '@/routes/notes';
+import tagsRouter from '@/routes/tags';
+import mediaRouter from '@/routes/media';
 import reviewsRouter from '@/routes/reviews';
 import notificationsRouter from '@/routes/notifications';
 import meRouter from '@/routes/me';
@@ -41,7 +45,11 @@ app.get('/health', (_req, res) => {
 // Mount routes
 app.use('/api/me', meRouter);
 app.use('/api/decks', decksRouter);
+app.use('/api/filtered-decks', filteredDecksRouter);
 app.use('/api/cards', cardsRouter);
+app.use('/api/notes', notesRouter);
+app.use('/api/tags', tagsRouter);
+app.use('/api/media', mediaRouter);
 app.use('/api/reviews', reviewsRouter);
 app.use('/api/notifications', notificationsRouter);
 app.use('/api/sprints', sprintsRouter);
@@ -0,0 +1,106 @@
+import {
+  decodeCursor,
+  encodeCursor,
+  paginate,
+  selectFields,
+} from '@/lib/pagination';
+
+describe('Pagination', () => {
+  describe('decodeCursor', () => {
+    it('should decode an encoded cursor', () => {
+      const cursor = {
+        sort: 'due',
+        order: 'asc' as const,
+        value: '2025-06-01T12:00:00.000Z',
+        id: 'card-1',
+      };
+
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should return null for a string that is not a cursor', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(
+        decodeCursor(Buffer.from('{"sort":"due"}').toString('base64url')),
+      ).toBeNull();
+    });
+
+    it('should return null for a sort value that is not a date or number', () => {
+      const cursor = encodeCursor({
+        sort: 'due',
+        order: 'asc',
+        value: 'tomorrow',
+        id: 'card-1',
+      });
+
+      expect(decodeCursor(cursor)).toBeNull();
+    });
+  });
+
+  describe('paginate', () => {
+    const items = [
+      { id: 'card-3', lapses: 5 },
+      { id: 'card-2', lapses: 5 },
+      { id: 'card-1', lapses: 1 },
+    ];
+
+    it('should return the first page with a cursor for the next', async () => {
+      const findMany = jest.fn().mockResolvedValue(items);
+
+      const page = await paginate(
+        { sort: 'lapses', field: 'lapses', order: 'desc', limit: 2 },
+        { userId: 'user-1' },
+        { findMany, count: jest.fn().mockResolvedValue(3) },
+      );
+
+      expect(findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        orderBy: [{ lapses: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+      expect(page).toEqual({
+        items: items.slice(0, 2),
+        total: 3,
+        pageSize: 2,
+        hasMore: true,
+        nextCursor: expect.any(String),
+      });
+      expect(decodeCursor(page.nextCursor!)).toEqual({
+        sort: 'lapses',
+        order: 'desc',
+        value: 5,
+        id: 'card-2',
+      });
+    });
+
+    it('should return no cursor on the last page', async () => {
+      const page = await paginate(
+        { sort: 'lapses', field: 'lapses', order: 'desc', limit: 5 },
+        { userId: 'user-1' },
+        {
+          findMany: jest.fn().mockResolvedValue(items),
+          count: jest.fn().mockResolvedValue(3),
+        },
+      );
+
+      expect(page.hasMore).toBe(false);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('selectFields', () => {
+    const card = { id: 'card-1', front: 'Question', back: 'Answer', reps: 3 };
+
+    it('should keep the id and the selected fields', () => {
+      expect(selectFields(card, ['front', 'reps'])).toEqual({
+        id: 'card-1',
+        front: 'Question',
+        reps: 3,
+      });
+    });
+
+    it('should keep every field without a selection', () => {
+      expect(selectFields(card)).toEqual(card);
+    });
+  });
+});
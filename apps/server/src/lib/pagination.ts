@@ -0,0 +1,194 @@
+/**
+ * Cursor Pagination
+ *
+ * List endpoints return their items a page at a time. Each page comes with a
+ * cursor for the next one: an opaque string holding the sort and the sort
+ * value and ID of the page's last item. The next page starts right after
+ * that item (keyset pagination), so:
+ * - items added or deleted between requests don't shift later pages
+ * - a deep page costs as much to load as the first one
+ *
+ * Items are ordered by the sort field and then by ID, which breaks ties
+ * between items with the same sort value. A cursor only continues the sort
+ * and order it was made for.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Where a page starts: right after the item with this sort value and ID.
+ * Dates are kept as ISO strings.
+ */
+export interface PageCursor {
+  sort: string;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+export interface PageRequest<Field extends string> {
+  /** Name of the sort, e.g. 'due'; stored in cursors */
+  sort: string;
+  /** Field the sort orders by, e.g. 'nextReviewDate' */
+  field: Field;
+  order: SortOrder;
+  cursor?: PageCursor;
+  limit: number;
+}
+
+export interface Page<Item> {
+  items: Item[];
+  /** Number of items in the whole list */
+  total: number;
+  pageSize: number;
+  hasMore: boolean;
+  /** Cursor for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Encode a cursor for API responses.
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a request.
+ *
+ * @returns The cursor, or null if it isn't one
+ */
+export function decodeCursor(cursor: string): PageCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof decoded !== 'object' || decoded === null) {
+    return null;
+  }
+  const { sort, order, value, id } = decoded as Record<string, unknown>;
+  if (
+    typeof sort !== 'string' ||
+    (order !== 'asc' && order !== 'desc') ||
+    typeof id !== 'string'
+  ) {
+    return null;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { sort, order, value, id };
+  }
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return { sort, order, value, id };
+  }
+  return null;
+}
+
+/**
+ * Load a page of a list.
+ *
+ * @param request - Sort, cursor and page size
+ * @param where - Conditions of the whole list
+ * @param query - Finds the items and counts the list, e.g. with
+ *   prisma.card.findMany() and prisma.card.count()
+ * @returns The page, with the number of items in the whole list
+ */
+export async function paginate<
+  Field extends string,
+  Where extends object,
+  Item extends { id: string } & Record<Field, Date | number>,
+>(
+  request: PageRequest<Field>,
+  where: Where,
+  query: {
+    findMany: (args: {
+      where: Where;
+      orderBy: Array<Partial<Record<Field | 'id', SortOrder>>>;
+      take: number;
+    }) => Promise<Item[]>;
+    count: (args: { where: Where }) => Promise<number>;
+  },
+): Promise<Page<Item>> {
+  const { sort, field, order, cursor, limit } = request;
+
+  let pageWhere = where;
+  if (cursor) {
+    const value =
+      typeof cursor.value === 'string' ? new Date(cursor.value) : cursor.value;
+    const after = order === 'desc' ? 'lt' : 'gt';
+    pageWhere = {
+      AND: [
+        where,
+        {
+          OR: [
+            { [field]: { [after]: value } },
+            { [field]: value, id: { [after]: cursor.id } },
+          ],
+        },
+      ],
+    } as Where;
+  }
+
+  // One extra item tells whether there is a next page
+  const [items, total] = await Promise.all([
+    query.findMany({
+      where: pageWhere,
+      orderBy: [{ [field]: order }, { id: order }] as Array<
+        Partial<Record<Field | 'id', SortOrder>>
+      >,
+      take: limit + 1,
+    }),
+    query.count({ where }),
+  ]);
+
+  const hasMore = items.length > limit;
+  const pageItems = hasMore ? items.slice(0, limit) : items;
+  const last = pageItems[pageItems.length - 1];
+
+  return {
+    items: pageItems,
+    total,
+    pageSize: limit,
+    hasMore,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({
+            sort,
+            order,
+            value:
+              last[field] instanceof Date
+                ? last[field].toISOString()
+                : (last[field] as number),
+            id: last.id,
+          })
+        : null,
+  };
+}
+
+/**
+ * Keep only the requested fields of a list item, for sparse field
+ * selection. The ID is always kept.
+ *
+ * @param fields - Fields to keep; all of them if not given
+ */
+export function selectFields<Item extends { id: string }>(
+  item: Item,
+  fields?: ReadonlyArray<string>,
+): Partial<Item> & { id: string } {
+  if (!fields) {
+    return item;
+  }
+
+  const selected = { id: item.id } as Partial<Item> & { id: string };
+  for (const field of fields) {
+    if (field in item) {
+      selected[field as keyof Item] = item[field as keyof Item];
+    }
+  }
+  return selected;
+}
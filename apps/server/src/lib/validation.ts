@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import {
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type PageCursor,
+  type SortOrder,
+} from '@/lib/pagination';
 
 /**
  * Validation schemas for API request bodies.
@@ -18,7 +25,59 @@ export const prioritySchema = z
 
 export type Priority = z.infer<typeof prioritySchema>;
 
+// Learning/relearning steps validation (minutes, 1 minute to 30 days each)
+export const learningStepsSchema = z
+  .array(
+    z
+      .number({ error: 'Each step must be a number of minutes' })
+      .int({ error: 'Each step must be a whole number of minutes' })
+      .min(1, { error: 'Each step must be at least 1 minute' })
+      .max(43200, { error: 'Each step must be at most 30 days' }),
+    { error: 'Steps must be a list of minutes' },
+  )
+  .min(1, { error: 'At least one step is required' })
+  .max(10, { error: 'At most 10 steps are allowed' });
+
+export type LearningSteps = z.infer<typeof learningStepsSchema>;
+
+// Desired retention validation (probability of recall when a card is due)
+export const desiredRetentionSchema = z
+  .number({ error: 'Desired retention must be a number' })
+  .min(0.7, { error: 'Desired retention must be at least 0.70' })
+  .max(0.97, { error: 'Desired retention must be at most 0.97' });
+
+export type DesiredRetention = z.infer<typeof desiredRetentionSchema>;
+
+// Scheduling algorithm validation (per deck)
+export const schedulingAlgorithmEnum = z.enum(['FSRS', 'SM2'], {
+  error: 'Scheduling algorithm must be one of: FSRS, SM2',
+});
+
+export type SchedulingAlgorithmInput = z.infer<typeof schedulingAlgorithmEnum>;
+
+// Leech settings
+export const leechThresholdSchema = z
+  .number()
+  .int()
+  .min(1, { error: 'Leech threshold must be at least 1' })
+  .max(99, { error: 'Leech threshold must be at most 99' });
+
+export const leechActionEnum = z.enum(['TAG', 'SUSPEND', 'TAG_AND_SUSPEND'], {
+  error: 'Leech action must be one of: TAG, SUSPEND, TAG_AND_SUSPEND',
+});
+
+// Daily limit validation (cards per study day)
+export const dailyLimitSchema = z
+  .number()
+  .int()
+  .min(0, { error: 'Daily limit cannot be negative' })
+  .max(9999, { error: 'Daily limit must be at most 9999' });
+
 // Card validation schemas
+export const cardTypeEnum = z.enum(['BASIC', 'CLOZE'], {
+  error: 'Type must be one of: BASIC, CLOZE',
+});
+
 export const createCardSchema = z
   .object({
     front: z
@@ -32,6 +91,7 @@ export const createCardSchema = z
       .string({ error: 'Deck ID is required' })
       .min(1, { error: 'Deck ID is required' }),
     priority: prioritySchema.optional(),
+    type: cardTypeEnum.optional().default('BASIC'), // CLOZE creates one card per index
   })
   .strict();
 
@@ -56,6 +116,371 @@ export const updateCardSchema = z
 
 export type UpdateCardInput = z.infer<typeof updateCardSchema>;
 
+export const cardStateEnum = z.enum(
+  ['NEW', 'LEARNING', 'REVIEW', 'RELEARNING'],
+  {
+    error: 'State must be one of: NEW, LEARNING, REVIEW, RELEARNING',
+  },
+);
+
+// Query of GET /api/cards/search
+export const searchCardsQuerySchema = z.object({
+  q: z
+    .string({ error: 'Search text is required' })
+    .trim()
+    .min(1, { error: 'Search text cannot be empty' })
+    .max(200, { error: 'Search text is too long (max 200 characters)' }),
+  deckId: z.string().min(1).optional(),
+  tagId: z.string().min(1).optional(),
+  state: cardStateEnum.optional(),
+  due: z
+    .enum(['true', 'false'], { error: 'Due must be true or false' })
+    .transform((due) => due === 'true')
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { error: 'Limit must be at least 1' })
+    .max(100, { error: 'Limit must be at most 100' })
+    .default(20),
+  offset: z.coerce
+    .number()
+    .int()
+    .min(0, { error: 'Offset cannot be negative' })
+    .default(0),
+});
+
+export type SearchCardsQuery = z.infer<typeof searchCardsQuerySchema>;
+
+// Query of GET /api/cards/leeches
+export const leechesQuerySchema = z.object({
+  deckId: z.string().min(1).optional(),
+});
+
+export type LeechesQuery = z.infer<typeof leechesQuerySchema>;
+
+// List query validation schemas
+// Lists are paged with cursors (see lib/pagination.ts)
+export const sortOrderEnum = z.enum(['asc', 'desc'], {
+  error: 'Order must be asc or desc',
+});
+
+const pageCursorSchema = z.string().transform((cursor, ctx) => {
+  const decoded = decodeCursor(cursor);
+  if (!decoded) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+  return decoded;
+});
+
+const pageShape = {
+  cursor: pageCursorSchema.optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { error: 'Limit must be at least 1' })
+    .max(MAX_PAGE_SIZE, { error: `Limit must be at most ${MAX_PAGE_SIZE}` })
+    .default(DEFAULT_PAGE_SIZE),
+  order: sortOrderEnum.optional(),
+};
+
+// Sparse field selection: a comma-separated list of the fields to return
+// (`fields=front,nextReview`); the id is always returned
+function fieldsSchema<const Field extends string>(
+  fields: readonly [Field, ...Field[]],
+) {
+  return z
+    .string()
+    .transform((value) =>
+      value
+        .split(',')
+        .map((field) => field.trim())
+        .filter((field) => field.length > 0),
+    )
+    .pipe(
+      z.array(
+        z.enum(fields, {
+          error: `Fields must be some of: ${fields.join(', ')}`,
+        }),
+      ),
+    );
+}
+
+// Default order of a list sort, and the type of the values it orders by
+// (dates are kept as ISO strings in cursors)
+interface PageSort {
+  order: SortOrder;
+  value: 'date' | 'number';
+}
+
+/**
+ * Fill in the default order of a list query's sort, and reject a cursor
+ * that was made for another sort or order, or whose sort value isn't of
+ * the sort's type.
+ */
+function resolvePageOrder<Sort extends string>(sorts: Record<Sort, PageSort>) {
+  return <Query extends { sort: Sort; order?: SortOrder; cursor?: PageCursor }>(
+    query: Query,
+    ctx: z.RefinementCtx,
+  ) => {
+    const sort = sorts[query.sort];
+    const order = query.order ?? sort.order;
+    if (
+      query.cursor &&
+      (query.cursor.sort !== query.sort || query.cursor.order !== order)
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['cursor'],
+        message: 'Cursor was made for another sort or order',
+      });
+      return z.NEVER;
+    }
+    if (
+      query.cursor &&
+      typeof query.cursor.value !==
+        (sort.value === 'date' ? 'string' : 'number')
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['cursor'],
+        message: 'Invalid cursor',
+      });
+      return z.NEVER;
+    }
+    return { ...query, order };
+  };
+}
+
+// GET /api/cards
+export const listCardsQuerySchema = z
+  .object({
+    deckId: z.string().min(1).optional(),
+    tagId: z.string().min(1).optional(),
+    filteredDeckId: z.string().min(1).optional(),
+    sort: z
+      .enum(['created', 'due', 'priority', 'lapses'], {
+        error: 'Sort must be one of: created, due, priority, lapses',
+      })
+      .default('created'),
+    fields: fieldsSchema([
+      'front',
+      'back',
+      'priority',
+      'deckId',
+      'deckTitle',
+      'type',
+      'clozeIndex',
+      'clozeGroupId',
+      'noteId',
+      'reverseOfId',
+      'state',
+      'nextReview',
+      'lastReview',
+      'reps',
+      'lapses',
+      'suspendedAt',
+      'buriedUntil',
+      'tags',
+      'createdAt',
+    ]).optional(),
+    ...pageShape,
+  })
+  .transform(
+    resolvePageOrder({
+      created: { order: 'desc', value: 'date' },
+      due: { order: 'asc', value: 'date' },
+      priority: { order: 'desc', value: 'number' },
+      lapses: { order: 'desc', value: 'number' },
+    }),
+  );
+
+export type ListCardsQuery = z.infer<typeof listCardsQuerySchema>;
+
+// GET /api/decks
+export const listDecksQuerySchema = z
+  .object({
+    sort: z
+      .enum(['created', 'priority'], {
+        error: 'Sort must be one of: created, priority',
+      })
+      .default('created'),
+    fields: fieldsSchema([
+      'title',
+      'description',
+      'priority',
+      'cardCount',
+      'createdAt',
+      'updatedAt',
+      'subdecks',
+    ]).optional(),
+    ...pageShape,
+  })
+  .transform(
+    resolvePageOrder({
+      created: { order: 'desc', value: 'date' },
+      priority: { order: 'desc', value: 'number' },
+    }),
+  );
+
+export type ListDecksQuery = z.infer<typeof listDecksQuerySchema>;
+
+// GET /api/reviews
+export const listReviewsQuerySchema = z
+  .object({
+    sort: z
+      .enum(['created'], { error: 'Sort must be created' })
+      .default('created'),
+    fields: fieldsSchema([
+      'cardId',
+      'rating',
+      'sprintId',
+      'durationMs',
+      'timeToRevealMs',
+      'timeToRateMs',
+      'createdAt',
+      'before',
+      'after',
+      'card',
+    ]).optional(),
+    ...pageShape,
+  })
+  .transform(resolvePageOrder({ created: { order: 'desc', value: 'date' } }));
+
+export type ListReviewsQuery = z.infer<typeof listReviewsQuerySchema>;
+
+// Query of GET /api/reviews/timing
+export const reviewTimingQuerySchema = z.object({
+  deckId: z.string().min(1).optional(),
+});
+
+export type ReviewTimingQuery = z.infer<typeof reviewTimingQuerySchema>;
+
+// Filtered deck validation schemas
+const filteredDeckTitleSchema = z
+  .string({ error: 'Title is required' })
+  .trim()
+  .min(1, { error: 'Title cannot be empty' })
+  .max(255, { error: 'Title is too long (max 255 characters)' });
+
+// Filters of a filtered deck; null clears a filter
+const filteredDeckFiltersShape = {
+  query: z
+    .string()
+    .trim()
+    .min(1, { error: 'Search text cannot be empty' })
+    .max(200, { error: 'Search text is too long (max 200 characters)' })
+    .nullable()
+    .optional(),
+  deckId: z.string().min(1).nullable().optional(),
+  tagId: z.string().min(1).nullable().optional(),
+  state: cardStateEnum.nullable().optional(),
+  minLapses: z
+    .number()
+    .int()
+    .min(1, { error: 'Minimum lapses must be at least 1' })
+    .nullable()
+    .optional(),
+  dueWithinDays: z
+    .number()
+    .int()
+    .min(0, { error: 'Due window cannot be negative' })
+    .max(365, { error: 'Due window is too long (max 365 days)' })
+    .nullable()
+    .optional(),
+};
+
+export const createFilteredDeckSchema = z
+  .object({
+    title: filteredDeckTitleSchema,
+    ...filteredDeckFiltersShape,
+  })
+  .strict();
+
+export type CreateFilteredDeckInput = z.infer<typeof createFilteredDeckSchema>;
+
+export const updateFilteredDeckSchema = z
+  .object({
+    title: filteredDeckTitleSchema.optional(),
+    ...filteredDeckFiltersShape,
+  })
+  .strict();
+
+export type UpdateFilteredDeckInput = z.infer<typeof updateFilteredDeckSchema>;
+
+// Note validation schemas
+const noteFieldValuesSchema = z.record(
+  z.string().min(1, { error: 'Field name cannot be empty' }),
+  z.string().max(10000, { error: 'Field is too long (max 10000 characters)' }),
+  { error: 'Fields must map field names to text' },
+);
+
+export const createNoteTypeSchema = z
+  .object({
+    name: z
+      .string({ error: 'Name is required' })
+      .min(1, { error: 'Name cannot be empty' })
+      .max(255, { error: 'Name is too long (max 255 characters)' }),
+    fields: z
+      .array(
+        z
+          .string()
+          .min(1, { error: 'Field name cannot be empty' })
+          .max(100, { error: 'Field name is too long (max 100 characters)' })
+          .regex(/^[^{}]+$/, { error: 'Field names cannot contain braces' }),
+        { error: 'Fields are required' },
+      )
+      .min(1, { error: 'At least one field is required' })
+      .max(50, { error: 'Too many fields (max 50)' }),
+    templates: z
+      .array(
+        z
+          .object({
+            name: z
+              .string({ error: 'Template name is required' })
+              .min(1, { error: 'Template name cannot be empty' })
+              .max(255, { error: 'Template name is too long' }),
+            front: z
+              .string({ error: 'Template front is required' })
+              .min(1, { error: 'Template front cannot be empty' })
+              .max(10000, { error: 'Template front is too long' }),
+            back: z
+              .string({ error: 'Template back is required' })
+              .max(10000, { error: 'Template back is too long' }),
+          })
+          .strict(),
+        { error: 'Templates are required' },
+      )
+      .min(1, { error: 'At least one template is required' })
+      .max(20, { error: 'Too many templates (max 20)' }),
+  })
+  .strict();
+
+export type CreateNoteTypeInput = z.infer<typeof createNoteTypeSchema>;
+
+export const createNoteSchema = z
+  .object({
+    noteTypeId: z
+      .string({ error: 'Note type ID is required' })
+      .min(1, { error: 'Note type ID is required' }),
+    deckId: z
+      .string({ error: 'Deck ID is required' })
+      .min(1, { error: 'Deck ID is required' }),
+    fields: noteFieldValuesSchema,
+  })
+  .strict();
+
+export type CreateNoteInput = z.infer<typeof createNoteSchema>;
+
+export const updateNoteSchema = z
+  .object({
+    fields: noteFieldValuesSchema,
+  })
+  .strict();
+
+export type UpdateNoteInput = z.infer<typeof updateNoteSchema>;
+
 // Deck validation schemas
 export const createDeckSchema = z
   .object({
@@ -69,6 +494,13 @@ export const createDeckSchema = z
       .optional(),
     parentDeckId: z.string().optional(),
     priority: prioritySchema.optional(),
+    learningSteps: learningStepsSchema.optional(),
+    relearningSteps: learningStepsSchema.optional(),
+    desiredRetention: desiredRetentionSchema.optional(),
+    schedulingAlgorithm: schedulingAlgorithmEnum.optional(),
+    newCardsPerDay: dailyLimitSchema.optional(),
+    reviewsPerDay: dailyLimitSchema.optional(),
+    createReverseCards: z.boolean().optional(),
   })
   .strict();
 
@@ -89,12 +521,30 @@ export const updateDeckSchema = z
       .optional(),
     parentDeckId: z.string().nullable().optional(),
     priority: prioritySchema.optional(),
+    // null clears the override so the deck uses the user's steps
+    learningSteps: learningStepsSchema.nullable().optional(),
+    relearningSteps: learningStepsSchema.nullable().optional(),
+    // null clears the override so the deck inherits its parent's retention
+    desiredRetention: desiredRetentionSchema.nullable().optional(),
+    schedulingAlgorithm: schedulingAlgorithmEnum.optional(),
+    // null clears the deck's own limit so only the user's limit applies
+    newCardsPerDay: dailyLimitSchema.nullable().optional(),
+    reviewsPerDay: dailyLimitSchema.nullable().optional(),
+    // Applies to cards added or edited from now on
+    createReverseCards: z.boolean().optional(),
   })
   .strict();
 
 export type UpdateDeckInput = z.infer<typeof updateDeckSchema>;
 
 // Review validation schemas
+// Time taken to answer a card, in milliseconds (capped at one hour)
+export const reviewDurationSchema = z
+  .number({ error: 'Duration must be a number' })
+  .int({ error: 'Duration must be an integer' })
+  .min(0, { error: 'Duration cannot be negative' })
+  .max(3600000, { error: 'Duration cannot exceed one hour' });
+
 export const createReviewSchema = z
   .object({
     cardId: z
@@ -103,23 +553,42 @@ export const createReviewSchema = z
     rating: z.enum(['AGAIN', 'HARD', 'GOOD', 'EASY'], {
       error: 'Rating must be one of: AGAIN, HARD, GOOD, EASY',
     }),
+    durationMs: reviewDurationSchema.optional(),
+    timeToRevealMs: reviewDurationSchema.optional(),
+    timeToRateMs: reviewDurationSchema.optional(),
   })
   .strict();
 
 export type CreateReviewInput = z.infer<typeof createReviewSchema>;
 
 // Tag validation schemas
+// `::` separates the levels of hierarchical tags (`lang::spanish::verbs`)
+const tagNameSchema = z
+  .string({ error: 'Tag name is required' })
+  .trim()
+  .min(1, { error: 'Tag name cannot be empty' })
+  .max(100, { error: 'Tag name is too long (max 100 characters)' })
+  .refine(
+    (name) => name.split('::').every((level) => level.trim().length > 0),
+    { error: 'Tag name cannot have empty levels (e.g. "a::::b")' },
+  );
+
 export const createTagSchema = z
   .object({
-    name: z
-      .string({ error: 'Tag name is required' })
-      .min(1, { error: 'Tag name cannot be empty' })
-      .max(100, { error: 'Tag name is too long (max 100 characters)' }),
+    name: tagNameSchema,
   })
   .strict();
 
 export type CreateTagInput = z.infer<typeof createTagSchema>;
 
+export const updateTagSchema = z
+  .object({
+    name: tagNameSchema,
+  })
+  .strict();
+
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
+
 export const addTagToCardSchema = z
   .object({
     tagId: z
@@ -175,6 +644,13 @@ export const updateNotificationPreferencesSchema = z
       .min(3, { error: 'Sprint size must be at least 3' })
       .max(10, { error: 'Sprint size cannot exceed 10' })
       .optional(),
+    learningSteps: learningStepsSchema.optional(),
+    relearningSteps: learningStepsSchema.optional(),
+    enableFuzz: z.boolean().optional(),
+    leechThreshold: leechThresholdSchema.optional(),
+    leechAction: leechActionEnum.optional(),
+    newCardsPerDay: dailyLimitSchema.optional(),
+    reviewsPerDay: dailyLimitSchema.optional(),
   })
   .strict();
 
@@ -194,6 +670,10 @@ export const sprintSourceEnum = z.enum(['HOME', 'DECK', 'PUSH'], {
   error: 'Source must be one of: HOME, DECK, PUSH',
 });
 
+export const sprintModeEnum = z.enum(['REVIEW', 'CRAM'], {
+  error: 'Mode must be one of: REVIEW, CRAM',
+});
+
 export const cardResultEnum = z.enum(['PASS', 'FAIL', 'SKIP'], {
   error: 'Result must be one of: PASS, FAIL, SKIP',
 });
@@ -202,6 +682,9 @@ export const createSprintSchema = z
   .object({
     deckId: z.string().optional(), // Optional: constrain sprint to a specific deck
     source: sprintSourceEnum.optional().default('HOME'), // Where the sprint was started from
+    tagId: z.string().optional(), // Optional: constrain sprint to cards with a tag
+    filteredDeckId: z.string().optional(), // Optional: constrain sprint to a filtered deck's cards
+    mode: sprintModeEnum.optional().default('REVIEW'), // CRAM needs a deckId, tagId or filteredDeckId
   })
   .strict();
 
@@ -236,6 +719,9 @@ export const submitSprintReviewSchema = z
       .string({ error: 'Card ID is required' })
       .min(1, { error: 'Card ID is required' }),
     rating: ratingEnum,
+    durationMs: reviewDurationSchema.optional(),
+    timeToRevealMs: reviewDurationSchema.optional(),
+    timeToRateMs: reviewDurationSchema.optional(),
   })
   .strict();
 
@@ -250,3 +736,16 @@ export const updateOnboardingSchema = z
   .strict();
 
 export type UpdateOnboardingInput = z.infer<typeof updateOnboardingSchema>;
+
+// FSRS engine version validation schema (for PUT /api/me/fsrs-parameters/version)
+export const fsrsVersionEnum = z.enum(['FSRS_4_5', 'FSRS_5'], {
+  error: 'Version must be one of: FSRS_4_5, FSRS_5',
+});
+
+export const updateFSRSVersionSchema = z
+  .object({
+    version: fsrsVersionEnum,
+  })
+  .strict();
+
+export type UpdateFSRSVersionInput = z.infer<typeof updateFSRSVersionSchema>;
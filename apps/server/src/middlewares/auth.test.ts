@@ -171,6 +171,16 @@ describe('Auth Middleware - Unit Tests', () => {
         notificationsCountToday: 0,
         notificationsCountThisWeek: 0,
         sprintSize: 5,
+        fsrsWeights: [],
+        fsrsOptimizedAt: null,
+        learningSteps: [1, 10],
+        relearningSteps: [1, 10],
+        enableFuzz: false,
+        fsrsVersion: 'FSRS_4_5' as const,
+        leechThreshold: 8,
+        leechAction: 'TAG' as const,
+        newCardsPerDay: 20,
+        reviewsPerDay: 200,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -205,6 +215,16 @@ describe('Auth Middleware - Unit Tests', () => {
         notificationsCountToday: 0,
         notificationsCountThisWeek: 0,
         sprintSize: 5,
+        fsrsWeights: [],
+        fsrsOptimizedAt: null,
+        learningSteps: [1, 10],
+        relearningSteps: [1, 10],
+        enableFuzz: false,
+        fsrsVersion: 'FSRS_4_5' as const,
+        leechThreshold: 8,
+        leechAction: 'TAG' as const,
+        newCardsPerDay: 20,
+        reviewsPerDay: 200,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -29,6 +29,16 @@ const mockUser = {
   notificationsCountToday: 0,
   notificationsCountThisWeek: 0,
   sprintSize: 5,
+  fsrsWeights: [],
+  fsrsOptimizedAt: null,
+  learningSteps: [1, 10],
+  relearningSteps: [1, 10],
+  enableFuzz: false,
+  fsrsVersion: 'FSRS_4_5' as const,
+  leechThreshold: 8,
+  leechAction: 'TAG' as const,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -60,6 +70,7 @@ jest.mock('@/middlewares/auth', () => ({
 // Import after mocks are set up
 import cardsRouter from '@/routes/cards';
 import { errorHandler } from '@/middlewares/error-handler';
+import { convertSchedulingState } from '@/services/fsrs';
 
 // Helper to create test app
 function createTestApp(): Express {
@@ -85,6 +96,16 @@ describe('Cards Routes - Unit Tests', () => {
   beforeEach(() => {
     mockReset(prismaMock);
     shouldAttachUser = true;
+    // Edits record revisions; no card has older revisions to prune
+    prismaMock.cardRevision.findMany.mockResolvedValue([]);
+    prismaMock.cardRevision.create.mockResolvedValue({
+      id: 'revision-1',
+    } as never);
+    // Transactions run on the same client
+    prismaMock.$transaction.mockImplementation(((
+      arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+    ) =>
+      typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)) as never);
   });
 
   describe('POST /api/cards', () => {
@@ -169,7 +190,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'different-user-id', // Different user owns this deck
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
@@ -192,7 +220,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'user-internal-id', // Same user owns this deck
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -209,10 +244,21 @@ describe('Cards Routes - Unit Tests', () => {
         reps: 0,
         lapses: 0,
         state: 'NEW',
+        learningStep: 0,
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
       });
@@ -247,7 +293,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'user-internal-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -264,10 +317,21 @@ describe('Cards Routes - Unit Tests', () => {
         reps: 0,
         lapses: 0,
         state: 'NEW',
+        learningStep: 0,
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
       });
@@ -295,7 +359,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'user-internal-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -312,10 +383,21 @@ describe('Cards Routes - Unit Tests', () => {
         reps: 0,
         lapses: 0,
         state: 'NEW',
+        learningStep: 0,
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
       });
@@ -339,6 +421,94 @@ describe('Cards Routes - Unit Tests', () => {
       });
     });
 
+    it('should create one card per cloze index', async () => {
+      const now = new Date();
+
+      prismaMock.deck.findUnique.mockResolvedValue({
+        id: 'deck-1',
+        title: 'Test Deck',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+      prismaMock.card.create.mockImplementation((({
+        data,
+      }: {
+        data: { clozeIndex: number };
+      }) =>
+        Promise.resolve({
+          ...data,
+          id: `card-c${data.clozeIndex}`,
+          nextReviewDate: now,
+          createdAt: now,
+        })) as never);
+
+      const response = await request(app).post('/api/cards').send({
+        front: '{{c1::Paris}} is the capital of {{c2::France}}',
+        back: '',
+        deckId: 'deck-1',
+        type: 'CLOZE',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.card).toMatchObject({
+        id: 'card-c1',
+        type: 'CLOZE',
+        clozeIndex: 1,
+      });
+      expect(
+        response.body.cards.map(
+          (card: { clozeIndex: number }) => card.clozeIndex,
+        ),
+      ).toEqual([1, 2]);
+      expect(prismaMock.card.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 400 for cloze cards without markers', async () => {
+      const now = new Date();
+
+      prismaMock.deck.findUnique.mockResolvedValue({
+        id: 'deck-1',
+        title: 'Test Deck',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const response = await request(app).post('/api/cards').send({
+        front: 'Paris is the capital of France',
+        back: '',
+        deckId: 'deck-1',
+        type: 'CLOZE',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.card.create).not.toHaveBeenCalled();
+    });
+
     it('should return 500 on database error', async () => {
       const now = new Date();
 
@@ -349,7 +519,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'user-internal-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -399,9 +576,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -433,9 +620,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 1,
         state: 'REVIEW',
         lastReview: now,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -499,9 +696,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -535,9 +742,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -560,9 +777,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -596,9 +823,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -621,9 +858,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -663,9 +910,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -701,9 +958,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -720,7 +987,14 @@ describe('Cards Routes - Unit Tests', () => {
         priority: 50,
         userId: 'different-user-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -732,6 +1006,554 @@ describe('Cards Routes - Unit Tests', () => {
       expect(response.status).toBe(403);
       expect(response.body.error.code).toBe('FORBIDDEN');
     });
+
+    it("should convert the card's state when moving to an SM-2 deck", async () => {
+      const now = new Date();
+      const card = {
+        id: 'card-123',
+        front: 'Question',
+        back: 'Answer',
+        priority: 50,
+        deckId: 'deck-1',
+        stability: 10,
+        difficulty: 5,
+        elapsedDays: 10,
+        scheduledDays: 10,
+        reps: 4,
+        lapses: 0,
+        state: 'REVIEW' as const,
+        learningStep: 0,
+        lastReview: now,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
+        nextReviewDate: now,
+        lastNotificationSent: null,
+        snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      prismaMock.card.findUnique.mockResolvedValue({
+        ...card,
+        deck: {
+          id: 'deck-1',
+          title: 'Test Deck',
+          userId: 'user-internal-id',
+        },
+      } as never);
+      prismaMock.deck.findUnique.mockResolvedValue({
+        id: 'sm2-deck',
+        title: 'Imported',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'SM2' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+      prismaMock.card.update.mockResolvedValue({
+        ...card,
+        deckId: 'sm2-deck',
+        deck: { id: 'sm2-deck', title: 'Imported' },
+      } as never);
+
+      const response = await request(app)
+        .patch('/api/cards/card-123')
+        .send({ deckId: 'sm2-deck' });
+
+      const expected = convertSchedulingState(card, 'FSRS', 'SM2');
+      expect(response.status).toBe(200);
+      expect(prismaMock.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-123' },
+        data: {
+          deckId: 'sm2-deck',
+          stability: expected.stability,
+          difficulty: expected.difficulty,
+          schedulingAlgorithm: 'SM2',
+        },
+        include: expect.anything(),
+      });
+    });
+  });
+
+  describe('PATCH /api/cards/:id (note cards)', () => {
+    it('should return 400 when editing the text of a note card', async () => {
+      const now = new Date();
+      prismaMock.card.findUnique.mockResolvedValue({
+        id: 'card-123',
+        front: 'Hund',
+        back: 'dog',
+        deckId: 'deck-1',
+        noteId: 'note-1',
+        templateOrdinal: 1,
+        createdAt: now,
+        updatedAt: now,
+        deck: {
+          id: 'deck-1',
+          title: 'Test Deck',
+          userId: 'user-internal-id',
+        },
+      } as never);
+
+      const response = await request(app)
+        .patch('/api/cards/card-123')
+        .send({ back: 'hound' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/cards/:id (cloze)', () => {
+    const now = new Date();
+    const clozeCard = {
+      id: 'card-c1',
+      front: '{{c1::Paris}} is the capital of {{c2::France}}',
+      back: '',
+      priority: 50,
+      deckId: 'deck-1',
+      stability: 10,
+      difficulty: 5,
+      elapsedDays: 10,
+      scheduledDays: 10,
+      reps: 4,
+      lapses: 0,
+      state: 'REVIEW' as const,
+      learningStep: 0,
+      lastReview: now,
+      fsrsVersion: 'FSRS_4_5' as const,
+      schedulingAlgorithm: 'FSRS' as const,
+      nextReviewDate: now,
+      lastNotificationSent: null,
+      snoozedUntil: null,
+      suspendedAt: null,
+      buriedUntil: null,
+      type: 'CLOZE' as const,
+      clozeIndex: 1,
+      clozeGroupId: 'group-1',
+      noteId: null,
+      templateOrdinal: null,
+      reverseOfId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    beforeEach(() => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        ...clozeCard,
+        deck: {
+          id: 'deck-1',
+          title: 'Test Deck',
+          userId: 'user-internal-id',
+        },
+      } as never);
+    });
+
+    it("should return 400 when the text drops the card's index", async () => {
+      const response = await request(app)
+        .patch('/api/cards/card-c1')
+        .send({ front: 'Paris is the capital of {{c2::France}}' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.card.update).not.toHaveBeenCalled();
+    });
+
+    it('should update the siblings and keep their scheduling', async () => {
+      const front = '{{c1::Paris}} is the capital of {{c2::France}}!';
+      prismaMock.card.update.mockResolvedValue({
+        ...clozeCard,
+        front,
+        deck: { id: 'deck-1', title: 'Test Deck' },
+      } as never);
+      prismaMock.card.findMany.mockResolvedValue([
+        { ...clozeCard, id: 'card-c2', clozeIndex: 2 },
+      ]);
+
+      const response = await request(app)
+        .patch('/api/cards/card-c1')
+        .send({ front });
+
+      expect(response.status).toBe(200);
+      expect(response.body.card).toMatchObject({
+        type: 'CLOZE',
+        clozeIndex: 1,
+        clozeGroupId: 'group-1',
+      });
+      expect(prismaMock.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-c2' },
+        data: { front, back: '', deckId: 'deck-1' },
+      });
+      expect(prismaMock.card.create).not.toHaveBeenCalled();
+      expect(response.body.deletedCardIds).toEqual([]);
+    });
+
+    it('should report the siblings whose marker was removed', async () => {
+      const front = '{{c1::Paris}} is the capital of France';
+      prismaMock.card.update.mockResolvedValue({
+        ...clozeCard,
+        front,
+        deck: { id: 'deck-1', title: 'Test Deck' },
+      } as never);
+      prismaMock.card.findMany.mockResolvedValue([
+        { ...clozeCard, id: 'card-c2', clozeIndex: 2 },
+      ]);
+
+      const response = await request(app)
+        .patch('/api/cards/card-c1')
+        .send({ front });
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.card.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['card-c2'] } },
+      });
+      expect(response.body.deletedCardIds).toEqual(['card-c2']);
+    });
+  });
+
+  describe('reverse cards', () => {
+    const now = new Date();
+    const deck = {
+      id: 'deck-1',
+      title: 'Test Deck',
+      description: null,
+      priority: 50,
+      userId: 'user-internal-id',
+      parentDeckId: null,
+      isOnboardingFixture: false,
+      learningSteps: [],
+      relearningSteps: [],
+      desiredRetention: null,
+      schedulingAlgorithm: 'FSRS' as const,
+      newCardsPerDay: null,
+      reviewsPerDay: null,
+      createReverseCards: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const basicCard = {
+      id: 'card-1',
+      front: 'Hund',
+      back: 'dog',
+      priority: 50,
+      deckId: 'deck-1',
+      stability: 10,
+      difficulty: 5,
+      elapsedDays: 10,
+      scheduledDays: 10,
+      reps: 4,
+      lapses: 0,
+      state: 'REVIEW' as const,
+      learningStep: 0,
+      lastReview: now,
+      fsrsVersion: 'FSRS_4_5' as const,
+      schedulingAlgorithm: 'FSRS' as const,
+      nextReviewDate: now,
+      lastNotificationSent: null,
+      snoozedUntil: null,
+      suspendedAt: null,
+      buriedUntil: null,
+      type: 'BASIC' as const,
+      clozeIndex: null,
+      clozeGroupId: null,
+      noteId: null,
+      templateOrdinal: null,
+      reverseOfId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    it('should create a reverse card in bidirectional decks', async () => {
+      prismaMock.deck.findUnique.mockResolvedValue(deck);
+      prismaMock.card.create
+        .mockResolvedValueOnce({ ...basicCard, state: 'NEW', reps: 0 })
+        .mockResolvedValueOnce({
+          ...basicCard,
+          id: 'card-2',
+          front: 'dog',
+          back: 'Hund',
+          reverseOfId: 'card-1',
+        });
+
+      const response = await request(app)
+        .post('/api/cards')
+        .send({ front: 'Hund', back: 'dog', deckId: 'deck-1' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.card.reverseCardId).toBe('card-2');
+      expect(prismaMock.card.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          front: 'dog',
+          back: 'Hund',
+          reverseOfId: 'card-1',
+          state: 'NEW',
+        }),
+      });
+    });
+
+    it('should copy edits to the reverse card and keep its scheduling', async () => {
+      prismaMock.card.findUnique
+        .mockResolvedValueOnce({
+          ...basicCard,
+          deck: {
+            id: 'deck-1',
+            title: 'Test Deck',
+            userId: 'user-internal-id',
+            createReverseCards: true,
+          },
+        } as never)
+        .mockResolvedValueOnce({
+          ...basicCard,
+          id: 'card-2',
+          front: 'dog',
+          back: 'Hund',
+          reverseOfId: 'card-1',
+        });
+      prismaMock.card.update.mockResolvedValue({
+        ...basicCard,
+        back: 'hound',
+        deck: { id: 'deck-1', title: 'Test Deck' },
+      } as never);
+
+      const response = await request(app)
+        .patch('/api/cards/card-1')
+        .send({ back: 'hound' });
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.card.update).toHaveBeenLastCalledWith({
+        where: { id: 'card-2' },
+        data: { front: 'hound', back: 'Hund', deckId: 'deck-1' },
+      });
+      expect(prismaMock.card.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when clearing the back of a reverse card', async () => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        ...basicCard,
+        id: 'card-2',
+        reverseOfId: 'card-1',
+        deck: {
+          id: 'deck-1',
+          title: 'Test Deck',
+          userId: 'user-internal-id',
+          createReverseCards: true,
+        },
+      } as never);
+
+      const response = await request(app)
+        .patch('/api/cards/card-2')
+        .send({ back: '' });
+
+      expect(response.status).toBe(400);
+      expect(prismaMock.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('card revisions', () => {
+    const now = new Date();
+    const card = {
+      id: 'card-1',
+      front: 'Capital of France?',
+      back: 'Lyon',
+      priority: 50,
+      deckId: 'deck-1',
+      type: 'BASIC' as const,
+      noteId: null,
+      reverseOfId: null,
+      schedulingAlgorithm: 'FSRS' as const,
+      nextReviewDate: now,
+      lastReview: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const ownedCard = {
+      ...card,
+      deck: {
+        id: 'deck-1',
+        title: 'Test Deck',
+        userId: 'user-internal-id',
+        createReverseCards: false,
+      },
+    };
+
+    beforeEach(() => {
+      prismaMock.card.findUnique.mockResolvedValue(ownedCard as never);
+      prismaMock.cardRevision.findFirst.mockResolvedValue(null);
+    });
+
+    it('should record edits with the client that made them', async () => {
+      prismaMock.card.update.mockResolvedValue({
+        ...card,
+        back: 'Paris',
+        deck: { id: 'deck-1', title: 'Test Deck' },
+      } as never);
+
+      const response = await request(app)
+        .patch('/api/cards/card-1')
+        .set('X-Client', 'mobile')
+        .send({ back: 'Paris' });
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+      expect(prismaMock.cardRevision.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          cardId: 'card-1',
+          back: 'Paris',
+          source: 'MOBILE',
+        }),
+      });
+    });
+
+    it('should restore the text of a revision', async () => {
+      prismaMock.cardRevision.findUnique.mockResolvedValue({
+        id: 'rev-1',
+        cardId: 'card-1',
+        front: 'Capital of France?',
+        back: 'Paris',
+        source: 'DESKTOP',
+        restoredFromId: null,
+        createdAt: now,
+      });
+      prismaMock.card.update.mockResolvedValue({
+        ...card,
+        back: 'Paris',
+        deck: { id: 'deck-1', title: 'Test Deck' },
+      } as never);
+
+      const response = await request(app)
+        .post('/api/cards/card-1/revisions/rev-1/restore')
+        .set('X-Client', 'desktop');
+
+      expect(response.status).toBe(200);
+      expect(response.body.card.back).toBe('Paris');
+      expect(prismaMock.card.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'card-1' },
+          data: { front: 'Capital of France?', back: 'Paris' },
+        }),
+      );
+      expect(prismaMock.cardRevision.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          source: 'DESKTOP',
+          restoredFromId: 'rev-1',
+        }),
+      });
+    });
+
+    it('should return 404 for revisions of other cards', async () => {
+      prismaMock.cardRevision.findUnique.mockResolvedValue({
+        id: 'rev-9',
+        cardId: 'card-9',
+        front: '',
+        back: '',
+        source: null,
+        restoredFromId: null,
+        createdAt: now,
+      });
+
+      const response = await request(app).post(
+        '/api/cards/card-1/revisions/rev-9/restore',
+      );
+
+      expect(response.status).toBe(404);
+      expect(prismaMock.card.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for diffs without a revision to diff from', async () => {
+      const response = await request(app).get(
+        '/api/cards/card-1/revisions/diff',
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/cards/:id/suspend', () => {
+    it('should suspend the card', async () => {
+      const suspendedAt = new Date('2025-01-01T12:00:00Z');
+      prismaMock.card.findUnique.mockResolvedValue({
+        deck: { userId: mockUser.id },
+      } as never);
+      prismaMock.card.findUniqueOrThrow.mockResolvedValue({
+        id: 'card-123',
+        suspendedAt,
+        buriedUntil: null,
+      } as never);
+
+      const response = await request(app).post('/api/cards/card-123/suspend');
+
+      expect(response.status).toBe(200);
+      expect(response.body.card).toEqual({
+        id: 'card-123',
+        suspendedAt: suspendedAt.toISOString(),
+        buriedUntil: null,
+      });
+      expect(prismaMock.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-123', suspendedAt: null },
+        data: { suspendedAt: expect.any(Date) },
+      });
+    });
+
+    it('should return 404 for unknown cards', async () => {
+      prismaMock.card.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).post('/api/cards/card-123/suspend');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+
+    it("should return 403 for another user's card", async () => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        deck: { userId: 'other-user' },
+      } as never);
+
+      const response = await request(app).delete('/api/cards/card-123/suspend');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FORBIDDEN');
+      expect(prismaMock.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/cards/:id/bury', () => {
+    it("should bury the card until the start of the user's next day", async () => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        deck: { userId: mockUser.id },
+      } as never);
+      prismaMock.card.update.mockResolvedValue({
+        id: 'card-123',
+        suspendedAt: null,
+        buriedUntil: new Date('2025-01-02T00:00:00Z'),
+      } as never);
+
+      const response = await request(app).post('/api/cards/card-123/bury');
+
+      expect(response.status).toBe(200);
+      expect(response.body.card.buriedUntil).toBe('2025-01-02T00:00:00.000Z');
+      const { data } = prismaMock.card.update.mock.calls[0][0];
+      const buriedUntil = data.buriedUntil as Date;
+      expect(buriedUntil.getTime()).toBeGreaterThan(Date.now());
+      expect(buriedUntil.getUTCHours()).toBe(0);
+      expect(buriedUntil.getUTCMinutes()).toBe(0);
+    });
   });
 
   describe('DELETE /api/cards/:id', () => {
@@ -769,9 +1591,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -801,9 +1633,19 @@ describe('Cards Routes - Unit Tests', () => {
         lapses: 0,
         state: 'NEW',
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
         deck: {
@@ -824,10 +1666,21 @@ describe('Cards Routes - Unit Tests', () => {
         reps: 0,
         lapses: 0,
         state: 'NEW',
+        learningStep: 0,
         lastReview: null,
+        fsrsVersion: 'FSRS_4_5' as const,
+        schedulingAlgorithm: 'FSRS' as const,
         nextReviewDate: now,
         lastNotificationSent: null,
         snoozedUntil: null,
+        suspendedAt: null,
+        buriedUntil: null,
+        type: 'BASIC' as const,
+        clozeIndex: null,
+        clozeGroupId: null,
+        noteId: null,
+        templateOrdinal: null,
+        reverseOfId: null,
         createdAt: now,
         updatedAt: now,
       });
@@ -869,9 +1722,19 @@ describe('Cards Routes - Unit Tests', () => {
           lapses: 0,
           state: 'LEARNING',
           lastReview: pastDate,
+          fsrsVersion: 'FSRS_4_5' as const,
+          schedulingAlgorithm: 'FSRS' as const,
           nextReviewDate: pastDate, // Due in the past
           lastNotificationSent: null,
           snoozedUntil: null,
+          suspendedAt: null,
+          buriedUntil: null,
+          type: 'BASIC' as const,
+          clozeIndex: null,
+          clozeGroupId: null,
+          noteId: null,
+          templateOrdinal: null,
+          reverseOfId: null,
           createdAt: now,
           updatedAt: now,
           deck: {
@@ -925,6 +1788,66 @@ describe('Cards Routes - Unit Tests', () => {
     });
   });
 
+  describe('GET /api/cards/leeches', () => {
+    it('should return leeches grouped by deck', async () => {
+      const suspendedAt = new Date('2025-01-01T12:00:00Z');
+      prismaMock.user.findUnique.mockResolvedValue({
+        leechThreshold: 8,
+      } as never);
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          front: 'Question 1',
+          back: 'Answer 1',
+          lapses: 9,
+          suspendedAt,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          cardTags: [{ id: 'ct-1' }],
+        },
+      ] as never);
+
+      const response = await request(app).get(
+        '/api/cards/leeches?deckId=deck-1',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        decks: [
+          {
+            deckId: 'deck-1',
+            deckTitle: 'Test Deck',
+            cards: [
+              {
+                id: 'card-1',
+                front: 'Question 1',
+                back: 'Answer 1',
+                lapses: 9,
+                suspendedAt: suspendedAt.toISOString(),
+                tagged: true,
+              },
+            ],
+          },
+        ],
+        total: 1,
+      });
+      expect(prismaMock.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deck: { userId: mockUser.id, id: 'deck-1' },
+          }),
+        }),
+      );
+    });
+
+    it('should return 400 for an empty deckId', async () => {
+      const response = await request(app).get('/api/cards/leeches?deckId=');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.card.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/cards', () => {
     it('should return 401 when user not found', async () => {
       shouldAttachUser = false;
@@ -952,24 +1875,193 @@ describe('Cards Routes - Unit Tests', () => {
           lapses: 0,
           state: 'NEW',
           lastReview: null,
+          fsrsVersion: 'FSRS_4_5' as const,
+          schedulingAlgorithm: 'FSRS' as const,
           nextReviewDate: now,
           lastNotificationSent: null,
           snoozedUntil: null,
+          suspendedAt: null,
+          buriedUntil: null,
+          type: 'BASIC' as const,
+          clozeIndex: null,
+          clozeGroupId: null,
+          noteId: null,
+          templateOrdinal: null,
+          reverseOfId: null,
           createdAt: now,
           updatedAt: now,
           deck: {
             id: 'deck-1',
             title: 'Test Deck',
           },
+          cardTags: [{ tag: { id: 'tag-1', name: 'networking' } }],
         },
       ] as never);
+      prismaMock.card.count.mockResolvedValue(1);
 
       const response = await request(app).get('/api/cards');
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveProperty('cards');
-      expect(response.body).toHaveProperty('total');
-      expect(response.body.cards).toHaveLength(1);
+      expect(response.body).toHaveProperty('items');
+      expect(response.body.total).toBe(1);
+      expect(response.body.hasMore).toBe(false);
+      expect(response.body.nextCursor).toBeNull();
+      expect(response.body.items).toHaveLength(1);
+      expect(response.body.items[0].tags).toEqual([
+        { id: 'tag-1', name: 'networking' },
+      ]);
+      expect(prismaMock.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: 51,
+        }),
+      );
+    });
+
+    it('should return a cursor that continues after the last card', async () => {
+      const due = new Date('2025-06-01T12:00:00Z');
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          nextReviewDate: due,
+          createdAt: due,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          cardTags: [],
+        },
+        {
+          id: 'card-2',
+          nextReviewDate: due,
+          createdAt: due,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          cardTags: [],
+        },
+      ] as never);
+      prismaMock.card.count.mockResolvedValue(3);
+
+      const first = await request(app).get('/api/cards?sort=due&limit=1');
+
+      expect(first.status).toBe(200);
+      expect(first.body.items).toHaveLength(1);
+      expect(first.body.hasMore).toBe(true);
+      expect(prismaMock.card.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          orderBy: [{ nextReviewDate: 'asc' }, { id: 'asc' }],
+          take: 2,
+        }),
+      );
+
+      prismaMock.card.findMany.mockResolvedValue([]);
+
+      const next = await request(app).get(
+        `/api/cards?sort=due&limit=1&cursor=${first.body.nextCursor}`,
+      );
+
+      expect(next.status).toBe(200);
+      expect(prismaMock.card.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {
+                deck: { userId: mockUser.id, isOnboardingFixture: false },
+              },
+              {
+                OR: [
+                  { nextReviewDate: { gt: due } },
+                  { nextReviewDate: due, id: { gt: 'card-1' } },
+                ],
+              },
+            ],
+          },
+        }),
+      );
+      // The total is of the whole list, not of what is left
+      expect(prismaMock.card.count).toHaveBeenLastCalledWith({
+        where: { deck: { userId: mockUser.id, isOnboardingFixture: false } },
+      });
+    });
+
+    it('should return 400 for a cursor made for another sort', async () => {
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          lapses: 4,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          nextReviewDate: new Date(),
+          createdAt: new Date(),
+          cardTags: [],
+        },
+        {
+          id: 'card-2',
+          lapses: 3,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          nextReviewDate: new Date(),
+          createdAt: new Date(),
+          cardTags: [],
+        },
+      ] as never);
+
+      const first = await request(app).get('/api/cards?sort=lapses&limit=1');
+      const response = await request(app).get(
+        `/api/cards?sort=priority&cursor=${first.body.nextCursor}`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 for a cursor whose value is not of the sort type', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'lapses',
+          order: 'desc',
+          value: '2025-06-01T12:00:00.000Z',
+          id: 'card-1',
+        }),
+      ).toString('base64url');
+
+      const response = await request(app).get(
+        `/api/cards?sort=lapses&cursor=${cursor}`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.card.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+      const response = await request(app).get('/api/cards?cursor=not-a-cursor');
+
+      expect(response.status).toBe(400);
+      expect(prismaMock.card.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return only the selected fields', async () => {
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          front: 'Question 1',
+          back: 'Answer 1',
+          lapses: 2,
+          deck: { id: 'deck-1', title: 'Test Deck' },
+          nextReviewDate: new Date(),
+          createdAt: new Date(),
+          cardTags: [],
+        },
+      ] as never);
+
+      const response = await request(app).get('/api/cards?fields=front,lapses');
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([
+        { id: 'card-1', front: 'Question 1', lapses: 2 },
+      ]);
+    });
+
+    it('should return 400 for an unknown field', async () => {
+      const response = await request(app).get('/api/cards?fields=front,userId');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
 
     it('should filter cards by deckId when provided', async () => {
@@ -986,5 +2078,235 @@ describe('Cards Routes - Unit Tests', () => {
         }),
       );
     });
+
+    it('should filter cards by tagId, including descendant tags', async () => {
+      prismaMock.tag.findUnique.mockResolvedValue({
+        userId: mockUser.id,
+        name: 'lang::es',
+      } as never);
+      prismaMock.card.findMany.mockResolvedValue([]);
+
+      const response = await request(app).get('/api/cards?tagId=tag-1');
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                cardTags: {
+                  some: {
+                    tag: {
+                      userId: mockUser.id,
+                      OR: [
+                        { name: 'lang::es' },
+                        { name: { startsWith: 'lang::es::' } },
+                      ],
+                    },
+                  },
+                },
+              },
+            ],
+          }),
+        }),
+      );
+    });
+
+    it('should return 404 for an unknown tagId', async () => {
+      prismaMock.tag.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/cards?tagId=tag-1');
+
+      expect(response.status).toBe(404);
+      expect(prismaMock.card.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should filter cards by filteredDeckId', async () => {
+      prismaMock.filteredDeck.findUnique.mockResolvedValue({
+        id: 'filtered-1',
+        userId: mockUser.id,
+        title: 'Leeches',
+        query: null,
+        deckId: null,
+        tagId: null,
+        state: null,
+        minLapses: 3,
+        dueWithinDays: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      prismaMock.card.findMany.mockResolvedValue([]);
+
+      const response = await request(app).get(
+        '/api/cards?filteredDeckId=filtered-1',
+      );
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                AND: [
+                  {
+                    deck: { userId: mockUser.id, isOnboardingFixture: false },
+                  },
+                  { lapses: { gte: 3 } },
+                ],
+              },
+            ],
+          }),
+        }),
+      );
+    });
+
+    it("should return 403 for another user's filtered deck", async () => {
+      prismaMock.filteredDeck.findUnique.mockResolvedValue({
+        userId: 'other-user',
+      } as never);
+
+      const response = await request(app).get(
+        '/api/cards?filteredDeckId=filtered-1',
+      );
+
+      expect(response.status).toBe(403);
+      expect(prismaMock.card.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/cards/search', () => {
+    it('should return matching cards with their rank and snippets', async () => {
+      const now = new Date();
+      prismaMock.$queryRaw
+        .mockResolvedValueOnce([
+          {
+            id: 'card-1',
+            rank: 0.6,
+            front: '\uE000Capital\uE001',
+            back: 'Paris',
+          },
+        ])
+        .mockResolvedValueOnce([{ total: 1 }]);
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          front: 'Capital',
+          back: 'Paris',
+          deckId: 'deck-1',
+          priority: 50,
+          reps: 0,
+          lapses: 0,
+          state: 'NEW',
+          lastReview: null,
+          nextReviewDate: now,
+          suspendedAt: null,
+          buriedUntil: null,
+          type: 'BASIC' as const,
+          clozeIndex: null,
+          clozeGroupId: null,
+          noteId: null,
+          reverseOfId: null,
+          createdAt: now,
+          updatedAt: now,
+          deck: { id: 'deck-1', title: 'Geography' },
+          cardTags: [],
+        },
+      ] as never);
+
+      const response = await request(app).get('/api/cards/search?q=capital');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.results).toEqual([
+        {
+          card: expect.objectContaining({
+            id: 'card-1',
+            deckTitle: 'Geography',
+          }),
+          rank: 0.6,
+          snippets: {
+            front: [{ text: 'Capital', match: true }],
+            back: [{ text: 'Paris', match: false }],
+          },
+        },
+      ]);
+    });
+
+    it('should return 400 without a query', async () => {
+      const response = await request(app).get('/api/cards/search?q=%20');
+
+      expect(response.status).toBe(400);
+      expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown tagId', async () => {
+      prismaMock.tag.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).get(
+        '/api/cards/search?q=capital&tagId=tag-1',
+      );
+
+      expect(response.status).toBe(404);
+      expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/cards/:id/tags', () => {
+    it("should tag the card and return the card's tags", async () => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        deck: { userId: mockUser.id },
+      } as never);
+      prismaMock.tag.findUnique.mockResolvedValue({
+        userId: mockUser.id,
+      } as never);
+      prismaMock.cardTag.findMany.mockResolvedValue([
+        { tag: { id: 'tag-1', name: 'networking' } },
+      ] as never);
+
+      const response = await request(app)
+        .post('/api/cards/card-1/tags')
+        .send({ tagId: 'tag-1' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.tags).toEqual([{ id: 'tag-1', name: 'networking' }]);
+      expect(prismaMock.cardTag.upsert).toHaveBeenCalled();
+    });
+
+    it("should return 403 for another user's tag", async () => {
+      prismaMock.card.findUnique.mockResolvedValue({
+        deck: { userId: mockUser.id },
+      } as never);
+      prismaMock.tag.findUnique.mockResolvedValue({
+        userId: 'other-user',
+      } as never);
+
+      const response = await request(app)
+        .post('/api/cards/card-1/tags')
+        .send({ tagId: 'tag-1' });
+
+      expect(response.status).toBe(403);
+      expect(prismaMock.cardTag.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 without a tagId', async () => {
+      const response = await request(app)
+        .post('/api/cards/card-1/tags')
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/cards/:id/tags/:tagId', () => {
+    it('should return 404 for a missing card', async () => {
+      prismaMock.card.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).delete(
+        '/api/cards/card-1/tags/tag-1',
+      );
+
+      expect(response.status).toBe(404);
+      expect(prismaMock.cardTag.deleteMany).not.toHaveBeenCalled();
+    });
   });
 });
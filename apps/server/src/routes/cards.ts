@@ -1,18 +1,251 @@
 import { Router, type Router as RouterType } from 'express';
 import { prisma } from '@/lib/prisma';
+import { paginate, selectFields } from '@/lib/pagination';
 import {
+  addTagToCardSchema,
+  type AddTagToCardInput,
   createCardSchema,
   type CreateCardInput,
+  leechesQuerySchema,
+  type LeechesQuery,
+  listCardsQuerySchema,
+  type ListCardsQuery,
+  searchCardsQuerySchema,
+  type SearchCardsQuery,
   updateCardSchema,
   type UpdateCardInput,
 } from '@/lib/validation';
 import { requireUser } from '@/middlewares/auth';
 import { validate } from '@/middlewares/validate';
 import { asyncHandler, ApiError } from '@/middlewares/error-handler';
-import { initializeFSRS, calculateInitialReviewDate } from '@/services/fsrs';
+import {
+  initializeFSRS,
+  calculateInitialReviewDate,
+  convertSchedulingState,
+  getFSRSParameters,
+  type SchedulingAlgorithmType,
+} from '@/services/fsrs';
+import {
+  availableCardConditions,
+  buryCard,
+  suspendCard,
+  unburyCard,
+  unsuspendCard,
+  type CardAvailability,
+} from '@/services/card-availability';
+import { getLeechReport } from '@/services/leech';
+import { getNextStudyDayStart } from '@/services/study-day';
+import {
+  assertClozeEdit,
+  createClozeCards,
+  syncClozeSiblings,
+} from '@/services/cloze';
+import {
+  canHaveReverseCard,
+  createReverseCard,
+  syncReverseCard,
+} from '@/services/reverse-cards';
+import { collectUnreferencedMedia } from '@/services/media';
+import {
+  CLIENT_HEADER,
+  diffCardRevisions,
+  getCardRevision,
+  getEditSource,
+  listCardRevisions,
+  recordCardRevision,
+} from '@/services/card-revisions';
+import {
+  addCardTag,
+  CARD_TAGS_INCLUDE,
+  listCardTags,
+  removeCardTag,
+  tagFilterConditions,
+  toCardTagSummaries,
+} from '@/services/tags';
+import { searchCards } from '@/services/card-search';
+import { filteredDeckConditions } from '@/services/filtered-decks';
+import type {
+  Card,
+  CardRevision,
+  CardTag,
+  EditSource,
+  Prisma,
+  User,
+} from '@/generated/prisma';
 
 const router: RouterType = Router();
 
+/**
+ * Include for the cards of card lists; see formatCardListItem().
+ */
+const CARD_LIST_INCLUDE = {
+  deck: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  cardTags: CARD_TAGS_INCLUDE,
+} as const;
+
+/**
+ * Format a card loaded with CARD_LIST_INCLUDE for card lists.
+ */
+function formatCardListItem(
+  card: Card & {
+    deck: { id: string; title: string };
+    cardTags: Array<CardTag & { tag: { id: string; name: string } }>;
+  },
+) {
+  return {
+    id: card.id,
+    front: card.front,
+    back: card.back,
+    priority: card.priority,
+    deckId: card.deckId,
+    deckTitle: card.deck.title,
+    type: card.type,
+    clozeIndex: card.clozeIndex,
+    clozeGroupId: card.clozeGroupId,
+    noteId: card.noteId,
+    reverseOfId: card.reverseOfId,
+    state: card.state,
+    nextReview: card.nextReviewDate.toISOString(),
+    lastReview: card.lastReview?.toISOString() ?? null,
+    reps: card.reps,
+    lapses: card.lapses,
+    suspendedAt: card.suspendedAt?.toISOString() ?? null,
+    buriedUntil: card.buriedUntil?.toISOString() ?? null,
+    tags: toCardTagSummaries(card.cardTags),
+    createdAt: card.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Card fields the sorts of GET /api/cards order by.
+ */
+const CARD_SORT_FIELDS = {
+  created: 'createdAt',
+  due: 'nextReviewDate',
+  priority: 'priority',
+  lapses: 'lapses',
+} as const;
+
+/**
+ * Map card availability service errors to API errors.
+ */
+function toAvailabilityApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'CARD_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Card not found');
+      case 'CARD_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to modify this card',
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Map card revision service errors to API errors.
+ */
+function toRevisionApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'CARD_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Card not found');
+      case 'CARD_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to access this card',
+        );
+      case 'REVISION_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Revision not found');
+    }
+  }
+  return error;
+}
+
+/**
+ * Format a card revision for API responses.
+ */
+function formatRevision(revision: CardRevision) {
+  return {
+    id: revision.id,
+    front: revision.front,
+    back: revision.back,
+    source: revision.source,
+    restoredFromId: revision.restoredFromId,
+    createdAt: revision.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Map cloze service errors to API errors.
+ */
+function toClozeApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'CLOZE_MARKERS_REQUIRED':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          'Cloze cards need at least one {{c1::...}} marker',
+        );
+      case 'CLOZE_INDEX_REMOVED':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          "The text no longer contains this card's cloze marker; delete the card instead",
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Map card tag errors to API errors.
+ */
+function toCardTagApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'CARD_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Card not found');
+      case 'CARD_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to modify this card',
+        );
+      case 'TAG_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Tag not found');
+      case 'TAG_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to use this tag',
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Format a card's availability for API responses.
+ */
+function formatAvailability(card: CardAvailability) {
+  return {
+    id: card.id,
+    suspendedAt: card.suspendedAt?.toISOString() ?? null,
+    buriedUntil: card.buriedUntil?.toISOString() ?? null,
+  };
+}
+
 // GET /api/cards/due - Get cards due for review
 // IMPORTANT: This route MUST be defined before /:id to avoid being shadowed
 router.get(
@@ -23,11 +256,13 @@ router.get(
 
     // Find all cards due for review (nextReviewDate <= now)
     // that belong to the authenticated user (via deck ownership)
+    // and are not snoozed, suspended or buried
     const now = new Date();
 
     const dueCards = await prisma.card.findMany({
       where: {
         nextReviewDate: { lte: now },
+        AND: availableCardConditions(now),
         deck: {
           userId: user.id,
           isOnboardingFixture: false,
@@ -54,6 +289,11 @@ router.get(
         priority: card.priority,
         deckId: card.deckId,
         deckTitle: card.deck.title,
+        type: card.type,
+        clozeIndex: card.clozeIndex,
+        clozeGroupId: card.clozeGroupId,
+        noteId: card.noteId,
+        reverseOfId: card.reverseOfId,
         state: card.state,
         nextReview: card.nextReviewDate.toISOString(),
         lastReview: card.lastReview?.toISOString() ?? null,
@@ -65,57 +305,152 @@ router.get(
   }),
 );
 
-// GET /api/cards - List cards (filterable by deckId)
+// GET /api/cards/leeches - List leech cards grouped by deck (filterable by deckId)
+// IMPORTANT: This route MUST be defined before /:id to avoid being shadowed
+router.get(
+  '/leeches',
+  requireUser,
+  validate({ query: leechesQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { deckId } = req.validated!.query as LeechesQuery;
+
+    const decks = await getLeechReport(user.id, deckId);
+
+    res.json({
+      decks: decks.map((deck) => ({
+        deckId: deck.deckId,
+        deckTitle: deck.deckTitle,
+        cards: deck.cards.map((card) => ({
+          ...card,
+          suspendedAt: card.suspendedAt?.toISOString() ?? null,
+        })),
+      })),
+      total: decks.reduce((sum, deck) => sum + deck.cards.length, 0),
+    });
+  }),
+);
+
+// GET /api/cards - List a page of cards (filterable by deckId, by tagId
+// including the tag's descendants, and by filteredDeckId; sorted by created,
+// due, priority or lapses; paged with cursor and limit; fields selects the
+// fields to return)
 router.get(
   '/',
   requireUser,
+  validate({ query: listCardsQuerySchema }),
   asyncHandler(async (req, res) => {
     const user = req.user!;
-    const { deckId } = req.query;
+    const { deckId, tagId, filteredDeckId, sort, fields, ...page } = req
+      .validated!.query as ListCardsQuery;
 
     // Build where clause
-    const where: {
-      deck: { userId: string; isOnboardingFixture: boolean };
-      deckId?: string;
-    } = {
+    const where: Prisma.CardWhereInput = {
       deck: { userId: user.id, isOnboardingFixture: false },
     };
 
-    if (typeof deckId === 'string' && deckId.length > 0) {
+    if (deckId) {
       where.deckId = deckId;
     }
 
-    const cards = await prisma.card.findMany({
+    const conditions: Prisma.CardWhereInput[] = [];
+
+    if (tagId) {
+      try {
+        conditions.push(await tagFilterConditions(user.id, tagId));
+      } catch (error) {
+        throw toCardTagApiError(error);
+      }
+    }
+
+    if (filteredDeckId) {
+      try {
+        conditions.push(await filteredDeckConditions(user.id, filteredDeckId));
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          error.message === 'FILTERED_DECK_NOT_FOUND'
+        ) {
+          throw new ApiError(404, 'NOT_FOUND', 'Filtered deck not found');
+        }
+        if (
+          error instanceof Error &&
+          error.message === 'FILTERED_DECK_NOT_OWNED'
+        ) {
+          throw new ApiError(
+            403,
+            'FORBIDDEN',
+            'You do not have permission to access this filtered deck',
+          );
+        }
+        throw error;
+      }
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    const cards = await paginate(
+      { ...page, sort, field: CARD_SORT_FIELDS[sort] },
       where,
-      include: {
-        deck: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
+      {
+        findMany: (args) =>
+          prisma.card.findMany({ ...args, include: CARD_LIST_INCLUDE }),
+        count: (args) => prisma.card.count(args),
       },
+    );
+
+    res.json({
+      ...cards,
+      items: cards.items.map((card) =>
+        selectFields(formatCardListItem(card), fields),
+      ),
+    });
+  }),
+);
+
+// GET /api/cards/search?q=... - Full-text search of fronts and backs, best
+// matches first (filterable by deckId, tagId, state and due; paged with
+// limit and offset)
+// IMPORTANT: This route MUST be defined before /:id to avoid being shadowed
+router.get(
+  '/search',
+  requireUser,
+  validate({ query: searchCardsQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { q, limit, offset, ...filters } = req.validated!
+      .query as SearchCardsQuery;
+
+    let search;
+    try {
+      search = await searchCards(user.id, q, filters, { limit, offset });
+    } catch (error) {
+      throw toCardTagApiError(error);
+    }
+
+    const cards = await prisma.card.findMany({
+      where: { id: { in: search.hits.map((hit) => hit.cardId) } },
+      include: CARD_LIST_INCLUDE,
     });
+    const cardsById = new Map(cards.map((card) => [card.id, card]));
 
     res.json({
-      cards: cards.map((card) => ({
-        id: card.id,
-        front: card.front,
-        back: card.back,
-        priority: card.priority,
-        deckId: card.deckId,
-        deckTitle: card.deck.title,
-        state: card.state,
-        nextReview: card.nextReviewDate.toISOString(),
-        lastReview: card.lastReview?.toISOString() ?? null,
-        reps: card.reps,
-        lapses: card.lapses,
-        createdAt: card.createdAt.toISOString(),
-      })),
-      total: cards.length,
+      results: search.hits.flatMap((hit) => {
+        const card = cardsById.get(hit.cardId);
+        // Skip cards deleted since the search
+        return card
+          ? [
+              {
+                card: formatCardListItem(card),
+                rank: hit.rank,
+                snippets: hit.snippets,
+              },
+            ]
+          : [];
+      }),
+      total: search.total,
     });
   }),
 );
@@ -130,7 +465,7 @@ router.post(
     const user = req.user!;
 
     // Body is validated and typed by validate middleware
-    const { front, back, deckId, priority } = req.validated!
+    const { front, back, deckId, priority, type } = req.validated!
       .body as CreateCardInput;
 
     // Verify deck exists and belongs to user
@@ -150,6 +485,43 @@ router.post(
       );
     }
 
+    // Cloze cards are created as one sibling per cloze index
+    if (type === 'CLOZE') {
+      let cards;
+      try {
+        cards = await createClozeCards({
+          front,
+          back,
+          deckId,
+          priority,
+          schedulingAlgorithm: deck.schedulingAlgorithm,
+        });
+      } catch (error) {
+        throw toClozeApiError(error);
+      }
+
+      const formatted = cards.map((card) => ({
+        id: card.id,
+        front: card.front,
+        back: card.back,
+        priority: card.priority,
+        deckId: card.deckId,
+        type: card.type,
+        clozeIndex: card.clozeIndex,
+        clozeGroupId: card.clozeGroupId,
+        state: card.state,
+        stability: card.stability,
+        difficulty: card.difficulty,
+        reps: card.reps,
+        lapses: card.lapses,
+        nextReview: card.nextReviewDate.toISOString(),
+        createdAt: card.createdAt.toISOString(),
+      }));
+
+      res.status(201).json({ card: formatted[0], cards: formatted });
+      return;
+    }
+
     // Initialize FSRS state for the new card
     const fsrsState = initializeFSRS();
     const nextReviewDate = calculateInitialReviewDate();
@@ -170,10 +542,17 @@ router.post(
         lapses: fsrsState.lapses,
         state: fsrsState.state,
         lastReview: fsrsState.lastReview,
+        schedulingAlgorithm: deck.schedulingAlgorithm,
         nextReviewDate,
       },
     });
 
+    // Bidirectional decks review the card both ways
+    const reverseCard =
+      deck.createReverseCards && canHaveReverseCard(card)
+        ? await createReverseCard(card)
+        : null;
+
     // Return created card with FSRS state
     res.status(201).json({
       card: {
@@ -182,6 +561,10 @@ router.post(
         back: card.back,
         priority: card.priority,
         deckId: card.deckId,
+        type: card.type,
+        clozeIndex: card.clozeIndex,
+        clozeGroupId: card.clozeGroupId,
+        reverseCardId: reverseCard?.id ?? null,
         // FSRS state
         state: card.state,
         stability: card.stability,
@@ -239,6 +622,11 @@ router.get(
         priority: card.priority,
         deckId: card.deckId,
         deckTitle: card.deck.title,
+        type: card.type,
+        clozeIndex: card.clozeIndex,
+        clozeGroupId: card.clozeGroupId,
+        noteId: card.noteId,
+        reverseOfId: card.reverseOfId,
         // FSRS state
         state: card.state,
         stability: card.stability,
@@ -250,6 +638,8 @@ router.get(
         // Scheduling
         nextReview: card.nextReviewDate.toISOString(),
         lastReview: card.lastReview?.toISOString() ?? null,
+        suspendedAt: card.suspendedAt?.toISOString() ?? null,
+        buriedUntil: card.buriedUntil?.toISOString() ?? null,
         // Timestamps
         createdAt: card.createdAt.toISOString(),
         updatedAt: card.updatedAt.toISOString(),
@@ -258,85 +648,146 @@ router.get(
   }),
 );
 
-// PATCH /api/cards/:id - Update card
-router.patch(
-  '/:id',
-  requireUser,
-  validate({ body: updateCardSchema }),
-  asyncHandler(async (req, res) => {
-    const user = req.user!;
-    const { id } = req.params;
-    const updates = req.validated!.body as UpdateCardInput;
-
-    // Fetch card with deck info for ownership check
-    const card = await prisma.card.findUnique({
-      where: { id },
-      include: {
-        deck: {
-          select: {
-            id: true,
-            title: true,
-            userId: true,
-          },
+/**
+ * Apply an edit to a user's card: check it, update the card, keep its cloze
+ * siblings or reverse card in line and record the new text in its history.
+ *
+ * @returns The updated card, formatted for API responses, and the IDs of the
+ *   cloze siblings deleted because the edit removed their index
+ */
+async function updateOwnedCard(
+  user: User,
+  id: string,
+  updates: UpdateCardInput,
+  edit: { source: EditSource; restoredFromId?: string },
+) {
+  // Fetch card with deck info for ownership check
+  const card = await prisma.card.findUnique({
+    where: { id },
+    include: {
+      deck: {
+        select: {
+          id: true,
+          title: true,
+          userId: true,
+          createReverseCards: true,
         },
       },
+    },
+  });
+
+  if (!card) {
+    throw new ApiError(404, 'NOT_FOUND', 'Card not found');
+  }
+
+  // Enforce ownership via deck
+  if (card.deck.userId !== user.id) {
+    throw new ApiError(
+      403,
+      'FORBIDDEN',
+      'You do not have permission to update this card',
+    );
+  }
+
+  // Cards generated from a note get their text from the note's fields
+  if (
+    card.noteId &&
+    (updates.front !== undefined || updates.back !== undefined)
+  ) {
+    throw new ApiError(
+      400,
+      'VALIDATION_ERROR',
+      'This card is generated from a note; edit the note instead',
+    );
+  }
+
+  // The back of a reverse card is its original's front
+  if (
+    card.reverseOfId &&
+    updates.back !== undefined &&
+    updates.back.trim().length === 0
+  ) {
+    throw new ApiError(
+      400,
+      'VALIDATION_ERROR',
+      'Reverse cards need a back; clear the back of the original card instead',
+    );
+  }
+
+  // A cloze card's text must keep its own cloze index
+  if (card.type === 'CLOZE' && updates.front !== undefined) {
+    try {
+      assertClozeEdit(card, updates.front);
+    } catch (error) {
+      throw toClozeApiError(error);
+    }
+  }
+
+  // If moving to a different deck, verify ownership of the new deck
+  let newDeck = null;
+  if (updates.deckId !== undefined && updates.deckId !== card.deckId) {
+    newDeck = await prisma.deck.findUnique({
+      where: { id: updates.deckId },
     });
 
-    if (!card) {
-      throw new ApiError(404, 'NOT_FOUND', 'Card not found');
+    if (!newDeck) {
+      throw new ApiError(404, 'NOT_FOUND', 'Target deck not found');
     }
 
-    // Enforce ownership via deck
-    if (card.deck.userId !== user.id) {
+    if (newDeck.userId !== user.id) {
       throw new ApiError(
         403,
         'FORBIDDEN',
-        'You do not have permission to update this card',
+        'You do not have permission to move card to this deck',
       );
     }
+  }
 
-    // If moving to a different deck, verify ownership of the new deck
-    if (updates.deckId !== undefined && updates.deckId !== card.deckId) {
-      const newDeck = await prisma.deck.findUnique({
-        where: { id: updates.deckId },
-      });
+  // Build update data
+  const updateData: {
+    front?: string;
+    back?: string;
+    deckId?: string;
+    priority?: number;
+    stability?: number;
+    difficulty?: number;
+    schedulingAlgorithm?: SchedulingAlgorithmType;
+  } = {};
 
-      if (!newDeck) {
-        throw new ApiError(404, 'NOT_FOUND', 'Target deck not found');
-      }
+  if (updates.front !== undefined) {
+    updateData.front = updates.front;
+  }
+  if (updates.back !== undefined) {
+    updateData.back = updates.back;
+  }
+  if (updates.deckId !== undefined) {
+    updateData.deckId = updates.deckId;
+  }
+  if (updates.priority !== undefined) {
+    updateData.priority = updates.priority;
+  }
 
-      if (newDeck.userId !== user.id) {
-        throw new ApiError(
-          403,
-          'FORBIDDEN',
-          'You do not have permission to move card to this deck',
-        );
-      }
-    }
+  const params = getFSRSParameters(user.fsrsWeights, {
+    version: user.fsrsVersion,
+  });
 
-    // Build update data
-    const updateData: {
-      front?: string;
-      back?: string;
-      deckId?: string;
-      priority?: number;
-    } = {};
-
-    if (updates.front !== undefined) {
-      updateData.front = updates.front;
-    }
-    if (updates.back !== undefined) {
-      updateData.back = updates.back;
-    }
-    if (updates.deckId !== undefined) {
-      updateData.deckId = updates.deckId;
-    }
-    if (updates.priority !== undefined) {
-      updateData.priority = updates.priority;
-    }
+  // Convert the card's state if the new deck uses another algorithm
+  if (newDeck && newDeck.schedulingAlgorithm !== card.schedulingAlgorithm) {
+    const { stability, difficulty } = convertSchedulingState(
+      card,
+      card.schedulingAlgorithm,
+      newDeck.schedulingAlgorithm,
+      params,
+    );
+    updateData.stability = stability;
+    updateData.difficulty = difficulty;
+    updateData.schedulingAlgorithm = newDeck.schedulingAlgorithm;
+  }
 
-    // Update the card
-    const updatedCard = await prisma.card.update({
+  // The card, its history and its siblings change together or not at all
+  let deletedCardIds: string[] = [];
+  const updatedCard = await prisma.$transaction(async (tx) => {
+    const updated = await tx.card.update({
       where: { id },
       data: updateData,
       include: {
@@ -349,30 +800,312 @@ router.patch(
       },
     });
 
-    res.json({
-      card: {
-        id: updatedCard.id,
-        front: updatedCard.front,
-        back: updatedCard.back,
-        priority: updatedCard.priority,
-        deckId: updatedCard.deckId,
-        deckTitle: updatedCard.deck.title,
-        // FSRS state
-        state: updatedCard.state,
-        stability: updatedCard.stability,
-        difficulty: updatedCard.difficulty,
-        elapsedDays: updatedCard.elapsedDays,
-        scheduledDays: updatedCard.scheduledDays,
-        reps: updatedCard.reps,
-        lapses: updatedCard.lapses,
-        // Scheduling
-        nextReview: updatedCard.nextReviewDate.toISOString(),
-        lastReview: updatedCard.lastReview?.toISOString() ?? null,
-        // Timestamps
-        createdAt: updatedCard.createdAt.toISOString(),
-        updatedAt: updatedCard.updatedAt.toISOString(),
-      },
+    // Keep the edit in the card's history
+    await recordCardRevision(
+      card,
+      updated,
+      edit.source,
+      edit.restoredFromId,
+      tx,
+    );
+
+    // Siblings of a cloze card follow its text and deck
+    if (
+      updated.type === 'CLOZE' &&
+      (updates.front !== undefined ||
+        updates.back !== undefined ||
+        updates.deckId !== undefined)
+    ) {
+      ({ deletedCardIds } = await syncClozeSiblings(updated, params, tx));
+    }
+
+    // Reverse cards follow their original's text and deck, and the other way
+    // round. Bidirectional decks add missing reverse cards
+    if (
+      updated.type === 'BASIC' &&
+      !updated.noteId &&
+      (updates.front !== undefined ||
+        updates.back !== undefined ||
+        updates.deckId !== undefined)
+    ) {
+      await syncReverseCard(
+        updated,
+        (newDeck ?? card.deck).createReverseCards,
+        params,
+        tx,
+      );
+    }
+
+    return updated;
+  });
+
+  const formatted = {
+    id: updatedCard.id,
+    front: updatedCard.front,
+    back: updatedCard.back,
+    priority: updatedCard.priority,
+    deckId: updatedCard.deckId,
+    deckTitle: updatedCard.deck.title,
+    type: updatedCard.type,
+    clozeIndex: updatedCard.clozeIndex,
+    clozeGroupId: updatedCard.clozeGroupId,
+    noteId: updatedCard.noteId,
+    reverseOfId: updatedCard.reverseOfId,
+    // FSRS state
+    state: updatedCard.state,
+    stability: updatedCard.stability,
+    difficulty: updatedCard.difficulty,
+    elapsedDays: updatedCard.elapsedDays,
+    scheduledDays: updatedCard.scheduledDays,
+    reps: updatedCard.reps,
+    lapses: updatedCard.lapses,
+    // Scheduling
+    nextReview: updatedCard.nextReviewDate.toISOString(),
+    lastReview: updatedCard.lastReview?.toISOString() ?? null,
+    // Timestamps
+    createdAt: updatedCard.createdAt.toISOString(),
+    updatedAt: updatedCard.updatedAt.toISOString(),
+  };
+
+  return { card: formatted, deletedCardIds };
+}
+
+// PATCH /api/cards/:id - Update card
+router.patch(
+  '/:id',
+  requireUser,
+  validate({ body: updateCardSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { id } = req.params;
+    const updates = req.validated!.body as UpdateCardInput;
+
+    const result = await updateOwnedCard(user, id, updates, {
+      source: getEditSource(req.get(CLIENT_HEADER)),
     });
+
+    res.json(result);
+  }),
+);
+
+// GET /api/cards/:id/revisions - List a card's edit history, newest first
+router.get(
+  '/:id/revisions',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const revisions = await listCardRevisions(user.id, req.params.id);
+      res.json({
+        revisions: revisions.map(formatRevision),
+        total: revisions.length,
+      });
+    } catch (error) {
+      throw toRevisionApiError(error);
+    }
+  }),
+);
+
+// GET /api/cards/:id/revisions/diff?from=<id>&to=<id> - Line diff of two
+// revisions (without "to": of a revision and the current text)
+// IMPORTANT: This route MUST be defined before /:id/revisions/:revisionId
+router.get(
+  '/:id/revisions/diff',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { from, to } = req.query;
+
+    if (typeof from !== 'string' || from.length === 0) {
+      throw new ApiError(
+        400,
+        'VALIDATION_ERROR',
+        'The revision to diff from is required',
+      );
+    }
+
+    try {
+      const diff = await diffCardRevisions(
+        user.id,
+        req.params.id,
+        from,
+        typeof to === 'string' && to.length > 0 ? to : undefined,
+      );
+      res.json({ diff });
+    } catch (error) {
+      throw toRevisionApiError(error);
+    }
+  }),
+);
+
+// GET /api/cards/:id/revisions/:revisionId - Get one revision
+router.get(
+  '/:id/revisions/:revisionId',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const revision = await getCardRevision(
+        user.id,
+        req.params.id,
+        req.params.revisionId,
+      );
+      res.json({ revision: formatRevision(revision) });
+    } catch (error) {
+      throw toRevisionApiError(error);
+    }
+  }),
+);
+
+// POST /api/cards/:id/revisions/:revisionId/restore - Put a revision's text
+// back on the card (recorded as a new revision)
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { id, revisionId } = req.params;
+
+    let revision: CardRevision;
+    try {
+      revision = await getCardRevision(user.id, id, revisionId);
+    } catch (error) {
+      throw toRevisionApiError(error);
+    }
+
+    const result = await updateOwnedCard(
+      user,
+      id,
+      { front: revision.front, back: revision.back },
+      {
+        source: getEditSource(req.get(CLIENT_HEADER)),
+        restoredFromId: revision.id,
+      },
+    );
+
+    res.json(result);
+  }),
+);
+
+// GET /api/cards/:id/tags - List a card's tags
+router.get(
+  '/:id/tags',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const tags = await listCardTags(user.id, req.params.id);
+      res.json({ tags });
+    } catch (error) {
+      throw toCardTagApiError(error);
+    }
+  }),
+);
+
+// POST /api/cards/:id/tags - Tag a card
+router.post(
+  '/:id/tags',
+  requireUser,
+  validate({ body: addTagToCardSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { tagId } = req.validated!.body as AddTagToCardInput;
+
+    try {
+      const tags = await addCardTag(user.id, req.params.id, tagId);
+      res.json({ tags });
+    } catch (error) {
+      throw toCardTagApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/cards/:id/tags/:tagId - Remove a tag from a card
+router.delete(
+  '/:id/tags/:tagId',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const tags = await removeCardTag(
+        user.id,
+        req.params.id,
+        req.params.tagId,
+      );
+      res.json({ tags });
+    } catch (error) {
+      throw toCardTagApiError(error);
+    }
+  }),
+);
+
+// POST /api/cards/:id/suspend - Take a card out of rotation until unsuspended
+router.post(
+  '/:id/suspend',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const card = await suspendCard(user.id, req.params.id);
+      res.json({ card: formatAvailability(card) });
+    } catch (error) {
+      throw toAvailabilityApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/cards/:id/suspend - Unsuspend a card
+router.delete(
+  '/:id/suspend',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const card = await unsuspendCard(user.id, req.params.id);
+      res.json({ card: formatAvailability(card) });
+    } catch (error) {
+      throw toAvailabilityApiError(error);
+    }
+  }),
+);
+
+// POST /api/cards/:id/bury - Take a card out of rotation until tomorrow
+// (the start of the user's next day in their timezone)
+router.post(
+  '/:id/bury',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const until = getNextStudyDayStart(new Date(), user.timezone);
+
+    try {
+      const card = await buryCard(user.id, req.params.id, until);
+      res.json({ card: formatAvailability(card) });
+    } catch (error) {
+      throw toAvailabilityApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/cards/:id/bury - Unbury a card
+router.delete(
+  '/:id/bury',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const card = await unburyCard(user.id, req.params.id);
+      res.json({ card: formatAvailability(card) });
+    } catch (error) {
+      throw toAvailabilityApiError(error);
+    }
   }),
 );
 
@@ -414,6 +1147,9 @@ router.delete(
       where: { id },
     });
 
+    // Media only this card used goes with it
+    await collectUnreferencedMedia(user.id, [card.front, card.back]);
+
     res.status(204).send();
   }),
 );
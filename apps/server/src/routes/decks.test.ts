@@ -30,6 +30,16 @@ const mockUser = {
   notificationsCountToday: 0,
   notificationsCountThisWeek: 0,
   sprintSize: 5,
+  fsrsWeights: [],
+  fsrsOptimizedAt: null,
+  learningSteps: [1, 10],
+  relearningSteps: [1, 10],
+  enableFuzz: false,
+  fsrsVersion: 'FSRS_4_5' as const,
+  leechThreshold: 8,
+  leechAction: 'TAG' as const,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -39,6 +49,13 @@ jest.mock('@/lib/prisma', () => ({
   prisma: prismaMock,
 }));
 
+// Mock the scheduling migration service
+const mockSetDeckSchedulingAlgorithm = jest.fn();
+jest.mock('@/services/fsrs-migration', () => ({
+  setDeckSchedulingAlgorithm: (...args: unknown[]) =>
+    mockSetDeckSchedulingAlgorithm(...args),
+}));
+
 // Mock the auth middleware - requireUser attaches req.user
 let shouldAttachUser = true;
 jest.mock('@/middlewares/auth', () => ({
@@ -85,6 +102,10 @@ describe('Decks Routes - Unit Tests', () => {
   beforeEach(() => {
     mockReset(prismaMock);
     shouldAttachUser = true;
+    // Transactions run on the same client
+    prismaMock.$transaction.mockImplementation(((
+      fn: (tx: typeof prismaMock) => Promise<unknown>,
+    ) => fn(prismaMock)) as never);
   });
 
   describe('GET /api/decks', () => {
@@ -108,6 +129,13 @@ describe('Decks Routes - Unit Tests', () => {
           userId: 'user-internal-id',
           parentDeckId: null,
           isOnboardingFixture: false,
+          learningSteps: [],
+          relearningSteps: [],
+          desiredRetention: null,
+          schedulingAlgorithm: 'FSRS' as const,
+          newCardsPerDay: null,
+          reviewsPerDay: null,
+          createReverseCards: false,
           createdAt: new Date('2024-01-01'),
           updatedAt: new Date('2024-01-01'),
           subDecks: [],
@@ -118,11 +146,13 @@ describe('Decks Routes - Unit Tests', () => {
       }>[];
 
       prismaMock.deck.findMany.mockResolvedValue(mockDecks);
+      prismaMock.deck.count.mockResolvedValue(1);
+      prismaMock.filteredDeck.findMany.mockResolvedValue([]);
 
       const response = await request(app).get('/api/decks');
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveProperty('decks');
+      expect(response.body).toHaveProperty('items');
       expect(response.body).toHaveProperty('total');
       expect(prismaMock.deck.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -133,12 +163,156 @@ describe('Decks Routes - Unit Tests', () => {
 
     it('should return empty array when user has no decks', async () => {
       prismaMock.deck.findMany.mockResolvedValue([]);
+      prismaMock.deck.count.mockResolvedValue(0);
+      prismaMock.filteredDeck.findMany.mockResolvedValue([]);
 
       const response = await request(app).get('/api/decks');
 
       expect(response.status).toBe(200);
-      expect(response.body.decks).toEqual([]);
+      expect(response.body.items).toEqual([]);
+      expect(response.body.filteredDecks).toEqual([]);
       expect(response.body.total).toBe(0);
+      expect(response.body.hasMore).toBe(false);
+      expect(response.body.nextCursor).toBeNull();
+    });
+
+    it('should page top-level decks by priority', async () => {
+      const deck = {
+        id: 'deck-1',
+        title: 'JavaScript Basics',
+        description: null,
+        priority: 80,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+        subDecks: [
+          {
+            id: 'deck-2',
+            title: 'Closures',
+            description: null,
+            priority: 50,
+            createdAt: new Date('2024-01-02'),
+            updatedAt: new Date('2024-01-02'),
+            _count: { cards: 4 },
+          },
+        ],
+        _count: { cards: 10 },
+      };
+      prismaMock.deck.findMany.mockResolvedValue([
+        deck,
+        { ...deck, id: 'deck-3', priority: 60, subDecks: [] },
+      ] as never);
+      prismaMock.deck.count.mockResolvedValue(5);
+      prismaMock.filteredDeck.findMany.mockResolvedValue([]);
+
+      const response = await request(app).get(
+        '/api/decks?sort=priority&limit=1',
+      );
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.deck.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-internal-id',
+            parentDeckId: null,
+            isOnboardingFixture: false,
+          },
+          orderBy: [{ priority: 'desc' }, { id: 'desc' }],
+          take: 2,
+        }),
+      );
+      expect(response.body.items).toHaveLength(1);
+      expect(response.body.items[0].subdecks).toEqual([
+        expect.objectContaining({ id: 'deck-2', cardCount: 4 }),
+      ]);
+      expect(response.body.total).toBe(5);
+      expect(response.body.hasMore).toBe(true);
+      expect(response.body.nextCursor).toEqual(expect.any(String));
+
+      const next = await request(app).get(
+        `/api/decks?sort=priority&limit=1&cursor=${response.body.nextCursor}`,
+      );
+
+      // Filtered decks only come with the first page
+      expect(next.status).toBe(200);
+      expect(next.body).not.toHaveProperty('filteredDecks');
+      expect(prismaMock.filteredDeck.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return only the selected fields', async () => {
+      prismaMock.deck.findMany.mockResolvedValue([
+        {
+          id: 'deck-1',
+          title: 'JavaScript Basics',
+          description: null,
+          priority: 50,
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+          subDecks: [],
+          _count: { cards: 10 },
+        },
+      ] as never);
+      prismaMock.deck.count.mockResolvedValue(1);
+      prismaMock.filteredDeck.findMany.mockResolvedValue([]);
+
+      const response = await request(app).get(
+        '/api/decks?fields=title,cardCount',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([
+        { id: 'deck-1', title: 'JavaScript Basics', cardCount: 10 },
+      ]);
+    });
+
+    it('should return 400 for an unknown sort', async () => {
+      const response = await request(app).get('/api/decks?sort=lapses');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.deck.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should list filtered decks with their current card counts', async () => {
+      prismaMock.deck.findMany.mockResolvedValue([]);
+      prismaMock.deck.count.mockResolvedValue(0);
+      prismaMock.filteredDeck.findMany.mockResolvedValue([
+        {
+          id: 'filtered-1',
+          userId: 'user-internal-id',
+          title: 'Leeches',
+          query: null,
+          deckId: null,
+          tagId: null,
+          state: null,
+          minLapses: 3,
+          dueWithinDays: null,
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+        },
+      ]);
+      prismaMock.card.count.mockResolvedValue(7);
+
+      const response = await request(app).get('/api/decks');
+
+      expect(response.status).toBe(200);
+      expect(response.body.filteredDecks).toEqual([
+        expect.objectContaining({
+          id: 'filtered-1',
+          title: 'Leeches',
+          minLapses: 3,
+          cardCount: 7,
+        }),
+      ]);
+      expect(prismaMock.card.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {
+              deck: { userId: 'user-internal-id', isOnboardingFixture: false },
+            },
+            { lapses: { gte: 3 } },
+          ],
+        },
+      });
     });
 
     it('should handle database errors gracefully', async () => {
@@ -200,6 +374,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -230,6 +411,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -253,6 +441,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -291,6 +486,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'different-user-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -315,6 +517,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: 'grandparent-deck', // Already a subdeck
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -358,6 +567,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'different-user-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -381,6 +597,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [
@@ -442,6 +665,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'different-user-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -466,6 +696,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -479,6 +716,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -504,6 +748,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -529,6 +780,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [{ id: 'subdeck-1' }],
@@ -543,6 +801,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -567,6 +832,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -581,6 +853,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: 'grandparent-deck',
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -616,6 +895,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
         subDecks: [],
@@ -629,6 +915,356 @@ describe('Decks Routes - Unit Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body.deck).toHaveProperty('parentDeckId', null);
     });
+
+    describe('learning step overrides', () => {
+      const now = new Date();
+      const existingDeck = {
+        id: 'deck-123',
+        title: 'Spanish',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+        subDecks: [],
+      };
+
+      it('should set learning and relearning steps', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue(existingDeck as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          learningSteps: [10, 60, 1440],
+          relearningSteps: [10],
+          _count: { cards: 0 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ learningSteps: [10, 60, 1440], relearningSteps: [10] });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.deck.update).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: { learningSteps: [10, 60, 1440], relearningSteps: [10] },
+          }),
+        );
+        expect(response.body.deck.learningSteps).toEqual([10, 60, 1440]);
+        expect(response.body.deck.relearningSteps).toEqual([10]);
+      });
+
+      it('should clear an override when set to null', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue({
+          ...existingDeck,
+          learningSteps: [10, 60, 1440],
+        } as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          _count: { cards: 0 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ learningSteps: null });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.deck.update).toHaveBeenCalledWith(
+          expect.objectContaining({ data: { learningSteps: [] } }),
+        );
+        expect(response.body.deck.learningSteps).toBeNull();
+      });
+
+      it('should return 400 for a step shorter than one minute', async () => {
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ learningSteps: [0, 10] });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      });
+
+      it('should return 400 for an empty list of steps', async () => {
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ relearningSteps: [] });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
+
+    describe('desired retention', () => {
+      const now = new Date();
+      const existingDeck = {
+        id: 'deck-123',
+        title: 'Spanish',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: 'deck-parent',
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+        subDecks: [],
+      };
+
+      it('should set the desired retention', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue(existingDeck as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          desiredRetention: 0.85,
+          parentDeck: { desiredRetention: 0.95 },
+          _count: { cards: 0 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ desiredRetention: 0.85 });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.deck.update).toHaveBeenCalledWith(
+          expect.objectContaining({ data: { desiredRetention: 0.85 } }),
+        );
+        expect(response.body.deck.desiredRetention).toBe(0.85);
+        expect(response.body.deck.effectiveRetention).toBe(0.85);
+      });
+
+      it("should inherit the parent deck's retention when cleared", async () => {
+        prismaMock.deck.findUnique.mockResolvedValue({
+          ...existingDeck,
+          desiredRetention: 0.85,
+        } as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          parentDeck: { desiredRetention: 0.95 },
+          _count: { cards: 0 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ desiredRetention: null });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.deck.update).toHaveBeenCalledWith(
+          expect.objectContaining({ data: { desiredRetention: null } }),
+        );
+        expect(response.body.deck.desiredRetention).toBeNull();
+        expect(response.body.deck.effectiveRetention).toBe(0.95);
+      });
+
+      it('should return 400 for a retention outside 0.70-0.97', async () => {
+        const low = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ desiredRetention: 0.5 });
+        const high = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ desiredRetention: 0.99 });
+
+        expect(low.status).toBe(400);
+        expect(high.status).toBe(400);
+        expect(high.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
+
+    describe('scheduling algorithm', () => {
+      const now = new Date();
+      const existingDeck = {
+        id: 'deck-123',
+        title: 'Imported',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'SM2' as const,
+        createdAt: now,
+        updatedAt: now,
+        subDecks: [],
+      };
+
+      beforeEach(() => {
+        mockSetDeckSchedulingAlgorithm.mockReset();
+      });
+
+      it("should convert the deck's cards when switching algorithm", async () => {
+        prismaMock.deck.findUnique.mockResolvedValue(existingDeck as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          schedulingAlgorithm: 'FSRS',
+          parentDeck: null,
+          _count: { cards: 3 },
+        } as never);
+        mockSetDeckSchedulingAlgorithm.mockResolvedValue({
+          algorithm: 'FSRS',
+          convertedCardCount: 3,
+        });
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ schedulingAlgorithm: 'FSRS' });
+
+        expect(response.status).toBe(200);
+        // In the same transaction as the deck update
+        expect(mockSetDeckSchedulingAlgorithm).toHaveBeenCalledWith(
+          'deck-123',
+          'FSRS',
+          prismaMock,
+        );
+        expect(response.body.deck.schedulingAlgorithm).toBe('FSRS');
+      });
+
+      it('should not convert cards when the algorithm is unchanged', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue(existingDeck as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          parentDeck: null,
+          _count: { cards: 3 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ schedulingAlgorithm: 'SM2' });
+
+        expect(response.status).toBe(200);
+        expect(mockSetDeckSchedulingAlgorithm).not.toHaveBeenCalled();
+      });
+
+      it('should add reverse cards to existing cards when turned on', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue({
+          ...existingDeck,
+          createReverseCards: false,
+        } as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          createReverseCards: true,
+          parentDeck: null,
+          _count: { cards: 4 },
+        } as never);
+        const basicCard = {
+          id: 'card-1',
+          front: 'Hund',
+          back: 'dog',
+          priority: 50,
+          deckId: 'deck-123',
+          type: 'BASIC',
+          noteId: null,
+          reverseOfId: null,
+          schedulingAlgorithm: 'SM2',
+        };
+        prismaMock.card.findMany.mockResolvedValue([
+          basicCard,
+          { ...basicCard, id: 'card-2', back: '  ' },
+        ] as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ createReverseCards: true });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.card.findMany).toHaveBeenCalledWith({
+          where: {
+            deckId: 'deck-123',
+            type: 'BASIC',
+            noteId: null,
+            reverseOfId: null,
+            reverseCard: null,
+          },
+        });
+        // Cards without a back can't be asked the other way round
+        expect(prismaMock.card.create).toHaveBeenCalledTimes(1);
+        expect(prismaMock.card.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            front: 'dog',
+            back: 'Hund',
+            reverseOfId: 'card-1',
+            schedulingAlgorithm: 'SM2',
+          }),
+        });
+      });
+
+      it('should return 400 for an unknown algorithm', async () => {
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ schedulingAlgorithm: 'SM5' });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
+
+    describe('daily limits', () => {
+      const now = new Date();
+      const existingDeck = {
+        id: 'deck-123',
+        title: 'Spanish',
+        description: null,
+        priority: 50,
+        userId: 'user-internal-id',
+        parentDeckId: null,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: 5,
+        reviewsPerDay: null,
+        createReverseCards: false,
+        createdAt: now,
+        updatedAt: now,
+        subDecks: [],
+      };
+
+      it('should set and clear the deck limits', async () => {
+        prismaMock.deck.findUnique.mockResolvedValue(existingDeck as never);
+        prismaMock.deck.update.mockResolvedValue({
+          ...existingDeck,
+          newCardsPerDay: null,
+          reviewsPerDay: 100,
+          parentDeck: null,
+          _count: { cards: 0 },
+        } as never);
+
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ newCardsPerDay: null, reviewsPerDay: 100 });
+
+        expect(response.status).toBe(200);
+        expect(prismaMock.deck.update).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: { newCardsPerDay: null, reviewsPerDay: 100 },
+          }),
+        );
+        expect(response.body.deck.newCardsPerDay).toBeNull();
+        expect(response.body.deck.reviewsPerDay).toBe(100);
+      });
+
+      it('should return 400 for a fractional limit', async () => {
+        const response = await request(app)
+          .patch('/api/decks/deck-123')
+          .send({ newCardsPerDay: 2.5 });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
   });
 
   describe('DELETE /api/decks/:id', () => {
@@ -661,6 +1297,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'different-user-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -682,6 +1325,13 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -694,9 +1344,17 @@ describe('Decks Routes - Unit Tests', () => {
         userId: 'user-internal-id',
         parentDeckId: null,
         isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       });
+      prismaMock.card.findMany.mockResolvedValue([]);
 
       const response = await request(app).delete('/api/decks/deck-123');
 
@@ -1,70 +1,118 @@
 import { Router, type Router as RouterType } from 'express';
 import { prisma } from '@/lib/prisma';
+import { paginate, selectFields } from '@/lib/pagination';
 import {
   createDeckSchema,
   type CreateDeckInput,
+  listDecksQuerySchema,
+  type ListDecksQuery,
   updateDeckSchema,
   type UpdateDeckInput,
 } from '@/lib/validation';
 import { requireUser } from '@/middlewares/auth';
 import { validate } from '@/middlewares/validate';
 import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import { resolveDesiredRetention } from '@/services/fsrs';
+import { setDeckSchedulingAlgorithm } from '@/services/fsrs-migration';
+import { collectUnreferencedMedia } from '@/services/media';
+import { createMissingReverseCards } from '@/services/reverse-cards';
+import {
+  formatFilteredDeck,
+  listFilteredDecks,
+} from '@/services/filtered-decks';
 
 const router: RouterType = Router();
 
-// GET /api/decks - List all decks for authenticated user
+/**
+ * Format a deck's learning step override for API response.
+ * Null means the deck uses the user's steps.
+ */
+function formatStepsOverride(steps: number[]): number[] | null {
+  return steps.length > 0 ? steps : null;
+}
+
+/**
+ * Deck fields the sorts of GET /api/decks order by.
+ */
+const DECK_SORT_FIELDS = {
+  created: 'createdAt',
+  priority: 'priority',
+} as const;
+
+// GET /api/decks - List a page of top-level decks with their subdecks
+// (sorted by created or priority; paged with cursor and limit; fields
+// selects the fields to return). The first page also lists the user's
+// filtered decks (saved searches, see /api/filtered-decks)
 router.get(
   '/',
   requireUser,
+  validate({ query: listDecksQuerySchema }),
   asyncHandler(async (req, res) => {
     // User is guaranteed to exist by requireUser middleware
     const user = req.user!;
+    const { sort, fields, ...page } = req.validated!.query as ListDecksQuery;
 
-    // Fetch all decks for the user, including subdeck relationships
+    // Fetch the user's top-level decks with their subdecks
     // Exclude onboarding fixture decks
-    const decks = await prisma.deck.findMany({
-      where: {
+    const decks = await paginate(
+      { ...page, sort, field: DECK_SORT_FIELDS[sort] },
+      {
         userId: user.id,
+        parentDeckId: null,
         isOnboardingFixture: false,
       },
-      include: {
-        subDecks: true, // Include child decks
-        _count: {
-          select: {
-            cards: true, // Count cards in each deck
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
+      {
+        findMany: (args) =>
+          prisma.deck.findMany({
+            ...args,
+            include: {
+              subDecks: {
+                include: { _count: { select: { cards: true } } },
+              },
+              _count: {
+                select: {
+                  cards: true, // Count cards in each deck
+                },
+              },
+            },
+          }),
+        count: (args) => prisma.deck.count(args),
       },
-    });
+    );
 
-    // Organize into parent decks with nested subdecks
-    const parentDecks = decks.filter((deck) => !deck.parentDeckId);
-
-    const decksWithSubdecks = parentDecks.map((parent) => ({
-      id: parent.id,
-      title: parent.title,
-      description: parent.description,
-      priority: parent.priority,
-      cardCount: parent._count.cards,
-      createdAt: parent.createdAt,
-      updatedAt: parent.updatedAt,
-      subdecks: parent.subDecks.map((subdeck) => ({
-        id: subdeck.id,
-        title: subdeck.title,
-        description: subdeck.description,
-        priority: subdeck.priority,
-        cardCount: decks.find((d) => d.id === subdeck.id)?._count.cards || 0,
-        createdAt: subdeck.createdAt,
-        updatedAt: subdeck.updatedAt,
-      })),
-    }));
+    // Filtered decks aren't paged; they come with the first page only
+    const filteredDecks = page.cursor
+      ? undefined
+      : await listFilteredDecks(user.id);
 
     res.json({
-      decks: decksWithSubdecks,
-      total: parentDecks.length,
+      ...decks,
+      items: decks.items.map((parent) =>
+        selectFields(
+          {
+            id: parent.id,
+            title: parent.title,
+            description: parent.description,
+            priority: parent.priority,
+            cardCount: parent._count.cards,
+            createdAt: parent.createdAt,
+            updatedAt: parent.updatedAt,
+            subdecks: parent.subDecks.map((subdeck) => ({
+              id: subdeck.id,
+              title: subdeck.title,
+              description: subdeck.description,
+              priority: subdeck.priority,
+              cardCount: subdeck._count.cards,
+              createdAt: subdeck.createdAt,
+              updatedAt: subdeck.updatedAt,
+            })),
+          },
+          fields,
+        ),
+      ),
+      ...(filteredDecks && {
+        filteredDecks: filteredDecks.map(formatFilteredDeck),
+      }),
     });
   }),
 );
@@ -76,12 +124,24 @@ router.post(
   validate({ body: createDeckSchema }),
   asyncHandler(async (req, res) => {
     const user = req.user!;
-    const { title, description, parentDeckId, priority } = req.validated!
-      .body as CreateDeckInput;
+    const {
+      title,
+      description,
+      parentDeckId,
+      priority,
+      learningSteps,
+      relearningSteps,
+      desiredRetention,
+      schedulingAlgorithm,
+      newCardsPerDay,
+      reviewsPerDay,
+      createReverseCards,
+    } = req.validated!.body as CreateDeckInput;
 
     // If parentDeckId is provided, verify it exists and belongs to user
+    let parentDeck = null;
     if (parentDeckId) {
-      const parentDeck = await prisma.deck.findUnique({
+      parentDeck = await prisma.deck.findUnique({
         where: { id: parentDeckId },
       });
 
@@ -114,6 +174,13 @@ router.post(
         userId: user.id,
         parentDeckId: parentDeckId ?? null,
         ...(priority !== undefined && { priority }),
+        ...(learningSteps !== undefined && { learningSteps }),
+        ...(relearningSteps !== undefined && { relearningSteps }),
+        ...(desiredRetention !== undefined && { desiredRetention }),
+        ...(schedulingAlgorithm !== undefined && { schedulingAlgorithm }),
+        ...(newCardsPerDay !== undefined && { newCardsPerDay }),
+        ...(reviewsPerDay !== undefined && { reviewsPerDay }),
+        ...(createReverseCards !== undefined && { createReverseCards }),
       },
     });
 
@@ -124,6 +191,14 @@ router.post(
         description: deck.description,
         priority: deck.priority,
         parentDeckId: deck.parentDeckId,
+        learningSteps: formatStepsOverride(deck.learningSteps),
+        relearningSteps: formatStepsOverride(deck.relearningSteps),
+        desiredRetention: deck.desiredRetention,
+        effectiveRetention: resolveDesiredRetention({ ...deck, parentDeck }),
+        schedulingAlgorithm: deck.schedulingAlgorithm,
+        newCardsPerDay: deck.newCardsPerDay,
+        reviewsPerDay: deck.reviewsPerDay,
+        createReverseCards: deck.createReverseCards,
         createdAt: deck.createdAt.toISOString(),
         updatedAt: deck.updatedAt.toISOString(),
       },
@@ -143,6 +218,7 @@ router.get(
     const deck = await prisma.deck.findUnique({
       where: { id },
       include: {
+        parentDeck: { select: { desiredRetention: true } },
         subDecks: {
           include: {
             _count: {
@@ -176,6 +252,14 @@ router.get(
         description: deck.description,
         priority: deck.priority,
         parentDeckId: deck.parentDeckId,
+        learningSteps: formatStepsOverride(deck.learningSteps),
+        relearningSteps: formatStepsOverride(deck.relearningSteps),
+        desiredRetention: deck.desiredRetention,
+        effectiveRetention: resolveDesiredRetention(deck),
+        schedulingAlgorithm: deck.schedulingAlgorithm,
+        newCardsPerDay: deck.newCardsPerDay,
+        reviewsPerDay: deck.reviewsPerDay,
+        createReverseCards: deck.createReverseCards,
         cardCount: deck._count.cards,
         createdAt: deck.createdAt.toISOString(),
         updatedAt: deck.updatedAt.toISOString(),
@@ -280,6 +364,12 @@ router.patch(
       description?: string | null;
       parentDeckId?: string | null;
       priority?: number;
+      learningSteps?: number[];
+      relearningSteps?: number[];
+      desiredRetention?: number | null;
+      newCardsPerDay?: number | null;
+      reviewsPerDay?: number | null;
+      createReverseCards?: boolean;
     } = {};
 
     if (updates.title !== undefined) {
@@ -295,23 +385,58 @@ router.patch(
     if (updates.priority !== undefined) {
       updateData.priority = updates.priority;
     }
+    if (updates.learningSteps !== undefined) {
+      updateData.learningSteps = updates.learningSteps ?? [];
+    }
+    if (updates.relearningSteps !== undefined) {
+      updateData.relearningSteps = updates.relearningSteps ?? [];
+    }
+    if (updates.desiredRetention !== undefined) {
+      updateData.desiredRetention = updates.desiredRetention;
+    }
+    if (updates.newCardsPerDay !== undefined) {
+      updateData.newCardsPerDay = updates.newCardsPerDay;
+    }
+    if (updates.reviewsPerDay !== undefined) {
+      updateData.reviewsPerDay = updates.reviewsPerDay;
+    }
+    if (updates.createReverseCards !== undefined) {
+      updateData.createReverseCards = updates.createReverseCards;
+    }
 
-    // Update the deck
-    const updatedDeck = await prisma.deck.update({
-      where: { id },
-      data: updateData,
-      include: {
-        subDecks: {
-          include: {
-            _count: {
-              select: { cards: true },
+    // The deck, its cards' conversion and its new reverse cards are saved
+    // together or not at all
+    const updatedDeck = await prisma.$transaction(async (tx) => {
+      // Switching algorithm converts the state of the deck's cards
+      if (
+        updates.schedulingAlgorithm !== undefined &&
+        updates.schedulingAlgorithm !== deck.schedulingAlgorithm
+      ) {
+        await setDeckSchedulingAlgorithm(id, updates.schedulingAlgorithm, tx);
+      }
+
+      // Turning reverse cards on adds them to the deck's existing cards
+      if (updates.createReverseCards && !deck.createReverseCards) {
+        await createMissingReverseCards(id, tx);
+      }
+
+      return tx.deck.update({
+        where: { id },
+        data: updateData,
+        include: {
+          parentDeck: { select: { desiredRetention: true } },
+          subDecks: {
+            include: {
+              _count: {
+                select: { cards: true },
+              },
             },
           },
+          _count: {
+            select: { cards: true },
+          },
         },
-        _count: {
-          select: { cards: true },
-        },
-      },
+      });
     });
 
     res.json({
@@ -321,6 +446,14 @@ router.patch(
         description: updatedDeck.description,
         priority: updatedDeck.priority,
         parentDeckId: updatedDeck.parentDeckId,
+        learningSteps: formatStepsOverride(updatedDeck.learningSteps),
+        relearningSteps: formatStepsOverride(updatedDeck.relearningSteps),
+        desiredRetention: updatedDeck.desiredRetention,
+        effectiveRetention: resolveDesiredRetention(updatedDeck),
+        schedulingAlgorithm: updatedDeck.schedulingAlgorithm,
+        newCardsPerDay: updatedDeck.newCardsPerDay,
+        reviewsPerDay: updatedDeck.reviewsPerDay,
+        createReverseCards: updatedDeck.createReverseCards,
         cardCount: updatedDeck._count.cards,
         createdAt: updatedDeck.createdAt.toISOString(),
         updatedAt: updatedDeck.updatedAt.toISOString(),
@@ -365,11 +498,23 @@ router.delete(
       );
     }
 
+    // Keep the text of the deck's cards (and its subdecks') to collect
+    // their media afterwards
+    const cards = await prisma.card.findMany({
+      where: { deck: { OR: [{ id }, { parentDeckId: id }] } },
+      select: { front: true, back: true },
+    });
+
     // Delete the deck (cards and subdecks cascade automatically via Prisma)
     await prisma.deck.delete({
       where: { id },
     });
 
+    await collectUnreferencedMedia(
+      user.id,
+      cards.flatMap((card) => [card.front, card.back]),
+    );
+
     res.status(204).send();
   }),
 );
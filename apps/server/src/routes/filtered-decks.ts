@@ -0,0 +1,140 @@
+/**
+ * Filtered Deck Routes
+ *
+ * Filtered decks are saved searches studied like decks. They are listed
+ * with the decks by GET /api/decks; their cards are listed by
+ * GET /api/cards?filteredDeckId= and studied by starting a sprint with a
+ * filteredDeckId.
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { requireUser } from '@/middlewares/auth';
+import { validate } from '@/middlewares/validate';
+import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import {
+  createFilteredDeckSchema,
+  updateFilteredDeckSchema,
+  type CreateFilteredDeckInput,
+  type UpdateFilteredDeckInput,
+} from '@/lib/validation';
+import {
+  createFilteredDeck,
+  deleteFilteredDeck,
+  formatFilteredDeck,
+  getFilteredDeck,
+  updateFilteredDeck,
+} from '@/services/filtered-decks';
+
+const router: RouterType = Router();
+
+/**
+ * Map filtered decks service errors to API errors.
+ */
+function toFilteredDeckApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'FILTERED_DECK_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Filtered deck not found');
+      case 'FILTERED_DECK_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to access this filtered deck',
+        );
+      case 'DECK_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Deck not found');
+      case 'DECK_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to filter by this deck',
+        );
+      case 'TAG_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Tag not found');
+      case 'TAG_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to filter by this tag',
+        );
+    }
+  }
+  return error;
+}
+
+// POST /api/filtered-decks - Save a search as a filtered deck
+router.post(
+  '/',
+  requireUser,
+  validate({ body: createFilteredDeckSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const input = req.validated!.body as CreateFilteredDeckInput;
+
+    try {
+      const filteredDeck = await createFilteredDeck(user.id, input);
+      res.status(201).json({ filteredDeck: formatFilteredDeck(filteredDeck) });
+    } catch (error) {
+      throw toFilteredDeckApiError(error);
+    }
+  }),
+);
+
+// GET /api/filtered-decks/:id - Get a filtered deck with its current card
+// count
+router.get(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const filteredDeck = await getFilteredDeck(user.id, req.params.id);
+      res.json({ filteredDeck: formatFilteredDeck(filteredDeck) });
+    } catch (error) {
+      throw toFilteredDeckApiError(error);
+    }
+  }),
+);
+
+// PATCH /api/filtered-decks/:id - Rename a filtered deck or change its
+// filters (null clears a filter)
+router.patch(
+  '/:id',
+  requireUser,
+  validate({ body: updateFilteredDeckSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const updates = req.validated!.body as UpdateFilteredDeckInput;
+
+    try {
+      const filteredDeck = await updateFilteredDeck(
+        user.id,
+        req.params.id,
+        updates,
+      );
+      res.json({ filteredDeck: formatFilteredDeck(filteredDeck) });
+    } catch (error) {
+      throw toFilteredDeckApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/filtered-decks/:id - Delete a filtered deck (its cards stay
+// where they are)
+router.delete(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      await deleteFilteredDeck(user.id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      throw toFilteredDeckApiError(error);
+    }
+  }),
+);
+
+export default router;
@@ -13,6 +13,11 @@ import {
   calculateProgress,
 } from '@/services/sprint-service';
 import { getUserPushEligibility } from '@/services/notification-eligibility';
+import { availableCardConditions } from '@/services/card-availability';
+import {
+  countWithinDailyLimits,
+  getDailyAllowance,
+} from '@/services/daily-limits';
 
 const router: RouterType = Router();
 
@@ -20,8 +25,8 @@ const router: RouterType = Router();
  * GET /api/home/summary - Get home screen summary
  *
  * Returns:
- * - dueCount: Total cards due for review
- * - overdueCount: Cards overdue by more than 24 hours
+ * - dueCount: Total cards due for review (within today's limits)
+ * - overdueCount: Cards overdue by more than 24 hours (within today's limits)
  * - resumableSprint: Active resumable sprint info (if any)
  * - nextEligiblePushTime: When user is next eligible for push (null until E4.1)
  * - notificationsEnabled: Whether notifications are enabled
@@ -35,23 +40,38 @@ router.get(
     const now = new Date();
     const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
-    // Count due cards (not snoozed, exclude onboarding fixture)
-    const dueCount = await prisma.card.count({
+    // New cards and reviews beyond today's limits are not counted
+    const allowance = await getDailyAllowance(user.id, now);
+
+    // Count due cards (not snoozed, suspended or buried, exclude onboarding fixture)
+    const dueGroups = await prisma.card.groupBy({
+      by: ['deckId', 'state'],
       where: {
         deck: { userId: user.id, isOnboardingFixture: false },
         nextReviewDate: { lte: now },
-        OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+        AND: availableCardConditions(now),
       },
+      _count: { _all: true },
     });
+    const dueCount = countWithinDailyLimits(
+      dueGroups.map((g) => ({ ...g, count: g._count._all })),
+      allowance,
+    );
 
     // Count overdue cards (due more than 24 hours ago, exclude onboarding fixture)
-    const overdueCount = await prisma.card.count({
+    const overdueGroups = await prisma.card.groupBy({
+      by: ['deckId', 'state'],
       where: {
         deck: { userId: user.id, isOnboardingFixture: false },
         nextReviewDate: { lte: twentyFourHoursAgo },
-        OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+        AND: availableCardConditions(now),
       },
+      _count: { _all: true },
     });
+    const overdueCount = countWithinDailyLimits(
+      overdueGroups.map((g) => ({ ...g, count: g._count._all })),
+      allowance,
+    );
 
     // Check for resumable sprint
     const resumableSprint = await findResumableSprint(user.id);
@@ -24,6 +24,16 @@ const mockUser = {
   notificationsCountToday: 0,
   notificationsCountThisWeek: 0,
   sprintSize: 5,
+  fsrsWeights: [],
+  fsrsOptimizedAt: null,
+  learningSteps: [1, 10],
+  relearningSteps: [1, 10],
+  enableFuzz: false,
+  fsrsVersion: 'FSRS_4_5' as const,
+  leechThreshold: 8,
+  leechAction: 'TAG' as const,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
   createdAt: new Date('2024-01-01'),
   updatedAt: new Date('2024-01-01'),
 };
@@ -46,9 +56,36 @@ jest.mock('@/middlewares/auth', () => ({
   },
 }));
 
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock the optimizations (covered by their own tests)
+jest.mock('@/services/fsrs-parameters', () => ({
+  startFSRSOptimization: jest.fn(),
+  getLatestFSRSOptimization: jest.fn(),
+}));
+
+// Mock the engine migration (the replay is covered by its own tests)
+jest.mock('@/services/fsrs-migration', () => ({
+  switchFSRSVersion: jest.fn(),
+}));
+
 // Import after mocks are set up
 import meRouter from '@/routes/me';
 import { errorHandler } from '@/middlewares/error-handler';
+import { prisma } from '@/lib/prisma';
+import {
+  getLatestFSRSOptimization,
+  startFSRSOptimization,
+} from '@/services/fsrs-parameters';
+import { switchFSRSVersion } from '@/services/fsrs-migration';
+import { DEFAULT_FSRS_PARAMETERS, getFSRSEngine } from '@/services/fsrs';
 
 // Helper to create test app
 function createTestApp(): Express {
@@ -64,6 +101,7 @@ const app = createTestApp();
 describe('Me Routes - Unit Tests', () => {
   beforeEach(() => {
     shouldAttachUser = true;
+    jest.clearAllMocks();
   });
 
   describe('GET /api/me', () => {
@@ -101,4 +139,182 @@ describe('Me Routes - Unit Tests', () => {
       mockUser.pushToken = originalPushToken;
     });
   });
+
+  describe('GET /api/me/fsrs-parameters', () => {
+    it('should return default parameters for a user without fitted weights', async () => {
+      const response = await request(app).get('/api/me/fsrs-parameters');
+
+      expect(response.status).toBe(200);
+      expect(response.body.parameters).toEqual({
+        version: 'FSRS_4_5',
+        weights: [...DEFAULT_FSRS_PARAMETERS.w],
+        requestRetention: DEFAULT_FSRS_PARAMETERS.requestRetention,
+        maximumInterval: DEFAULT_FSRS_PARAMETERS.maximumInterval,
+        isPersonalized: false,
+        optimizedAt: null,
+      });
+    });
+  });
+
+  describe('POST /api/me/fsrs-parameters/optimize', () => {
+    const startedAt = new Date('2024-02-01T00:00:00.000Z');
+    const optimization = {
+      id: 'optimization-1',
+      userId: 'user-internal-id',
+      status: 'RUNNING',
+      reviewCount: 250,
+      scoredReviewCount: null,
+      initialLoss: null,
+      finalLoss: null,
+      startedAt,
+      completedAt: null,
+    };
+
+    it('should start the optimization and return 202', async () => {
+      (startFSRSOptimization as jest.Mock).mockResolvedValue(optimization);
+
+      const response = await request(app).post(
+        '/api/me/fsrs-parameters/optimize',
+      );
+
+      expect(response.status).toBe(202);
+      expect(startFSRSOptimization).toHaveBeenCalledWith('user-internal-id');
+      expect(response.body.optimization).toEqual({
+        id: 'optimization-1',
+        status: 'RUNNING',
+        reviewCount: 250,
+        scoredReviewCount: null,
+        initialLoss: null,
+        finalLoss: null,
+        startedAt: startedAt.toISOString(),
+        completedAt: null,
+      });
+    });
+
+    it('should return 400 when the user has too few reviews', async () => {
+      (startFSRSOptimization as jest.Mock).mockRejectedValue(
+        new Error('INSUFFICIENT_REVIEWS'),
+      );
+
+      const response = await request(app).post(
+        '/api/me/fsrs-parameters/optimize',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INSUFFICIENT_REVIEWS');
+    });
+
+    it('should return 409 while an optimization is running', async () => {
+      (startFSRSOptimization as jest.Mock).mockRejectedValue(
+        new Error('OPTIMIZATION_RUNNING'),
+      );
+
+      const response = await request(app).post(
+        '/api/me/fsrs-parameters/optimize',
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('GET /api/me/fsrs-parameters/optimize', () => {
+    it('should return the latest optimization with the parameters in use', async () => {
+      const completedAt = new Date('2024-02-01T00:05:00.000Z');
+      (getLatestFSRSOptimization as jest.Mock).mockResolvedValue({
+        id: 'optimization-1',
+        userId: 'user-internal-id',
+        status: 'SUCCEEDED',
+        reviewCount: 250,
+        scoredReviewCount: 180,
+        initialLoss: 0.4,
+        finalLoss: 0.3,
+        startedAt: new Date('2024-02-01T00:00:00.000Z'),
+        completedAt,
+      });
+
+      const response = await request(app).get(
+        '/api/me/fsrs-parameters/optimize',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.optimization).toEqual(
+        expect.objectContaining({
+          status: 'SUCCEEDED',
+          scoredReviewCount: 180,
+          finalLoss: 0.3,
+          completedAt: completedAt.toISOString(),
+        }),
+      );
+      expect(response.body.parameters.version).toBe('FSRS_4_5');
+    });
+
+    it('should return null before the first optimization', async () => {
+      (getLatestFSRSOptimization as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get(
+        '/api/me/fsrs-parameters/optimize',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.optimization).toBeNull();
+    });
+  });
+
+  describe('PUT /api/me/fsrs-parameters/version', () => {
+    it('should switch the engine and recompute card state', async () => {
+      (switchFSRSVersion as jest.Mock).mockResolvedValue({
+        version: 'FSRS_5',
+        recomputedCardCount: 12,
+      });
+
+      const response = await request(app)
+        .put('/api/me/fsrs-parameters/version')
+        .send({ version: 'FSRS_5' });
+
+      expect(response.status).toBe(200);
+      expect(switchFSRSVersion).toHaveBeenCalledWith(
+        'user-internal-id',
+        'FSRS_5',
+      );
+      expect(response.body.recomputedCardCount).toBe(12);
+      expect(response.body.parameters.version).toBe('FSRS_5');
+      expect(response.body.parameters.weights).toEqual([
+        ...getFSRSEngine('FSRS_5').defaultWeights,
+      ]);
+      expect(response.body.parameters.isPersonalized).toBe(false);
+    });
+
+    it('should return 400 for an unknown version', async () => {
+      const response = await request(app)
+        .put('/api/me/fsrs-parameters/version')
+        .send({ version: 'SM2' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(switchFSRSVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/me/fsrs-parameters', () => {
+    it('should reset the user to the default parameters', async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        fsrsWeights: [],
+        fsrsOptimizedAt: null,
+      });
+
+      const response = await request(app).delete('/api/me/fsrs-parameters');
+
+      expect(response.status).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-internal-id' },
+        data: { fsrsWeights: [], fsrsOptimizedAt: null },
+      });
+      expect(response.body.parameters.isPersonalized).toBe(false);
+      expect(response.body.parameters.weights).toEqual([
+        ...DEFAULT_FSRS_PARAMETERS.w,
+      ]);
+    });
+  });
 });
@@ -1,6 +1,20 @@
 import { Router, type Router as RouterType } from 'express';
+import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/middlewares/auth';
-import { asyncHandler } from '@/middlewares/error-handler';
+import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import { validate } from '@/middlewares/validate';
+import {
+  updateFSRSVersionSchema,
+  type UpdateFSRSVersionInput,
+} from '@/lib/validation';
+import type { ParameterOptimization } from '@/generated/prisma';
+import { getFSRSParameters, type FSRSVersionType } from '@/services/fsrs';
+import { MIN_REVIEWS_FOR_OPTIMIZATION } from '@/services/fsrs-optimizer';
+import {
+  getLatestFSRSOptimization,
+  startFSRSOptimization,
+} from '@/services/fsrs-parameters';
+import { switchFSRSVersion } from '@/services/fsrs-migration';
 
 const router: RouterType = Router();
 
@@ -32,4 +46,176 @@ router.get(
   }),
 );
 
+/**
+ * Format a user's FSRS parameters for API response.
+ */
+function formatFSRSParameters(user: {
+  fsrsVersion: FSRSVersionType;
+  fsrsWeights: number[];
+  fsrsOptimizedAt: Date | null;
+}) {
+  const params = getFSRSParameters(user.fsrsWeights, {
+    version: user.fsrsVersion,
+  });
+  return {
+    version: params.version,
+    weights: [...params.w],
+    requestRetention: params.requestRetention,
+    maximumInterval: params.maximumInterval,
+    isPersonalized: user.fsrsOptimizedAt !== null,
+    optimizedAt: user.fsrsOptimizedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * GET /api/me/fsrs-parameters - Get the FSRS parameters used for scheduling
+ *
+ * Returns the user's engine version and fitted weights, or the engine's
+ * defaults if the user has not been optimized yet.
+ */
+router.get(
+  '/fsrs-parameters',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    res.json({ parameters: formatFSRSParameters(user) });
+  }),
+);
+
+/**
+ * Format an optimization for API responses.
+ */
+function formatOptimization(optimization: ParameterOptimization) {
+  return {
+    id: optimization.id,
+    status: optimization.status,
+    reviewCount: optimization.reviewCount,
+    scoredReviewCount: optimization.scoredReviewCount,
+    initialLoss: optimization.initialLoss,
+    finalLoss: optimization.finalLoss,
+    startedAt: optimization.startedAt.toISOString(),
+    completedAt: optimization.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * POST /api/me/fsrs-parameters/optimize - Fit FSRS weights to review history
+ *
+ * Starts replaying the reviews of the user's FSRS cards to fit the weights
+ * of their FSRS engine. The fit runs in the background and stores the
+ * weights when it succeeds; poll GET /api/me/fsrs-parameters/optimize for
+ * the result. All future reviews (sprint and standalone) are then scheduled
+ * with them.
+ *
+ * Response (202):
+ * - optimization: { id, status: 'RUNNING', reviewCount, startedAt, ... }
+ */
+router.post(
+  '/fsrs-parameters/optimize',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const optimization = await startFSRSOptimization(user.id);
+
+      res.status(202).json({ optimization: formatOptimization(optimization) });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'INSUFFICIENT_REVIEWS') {
+        throw new ApiError(
+          400,
+          'INSUFFICIENT_REVIEWS',
+          `At least ${MIN_REVIEWS_FOR_OPTIMIZATION} reviews are needed to optimize scheduling`,
+        );
+      }
+      if (error instanceof Error && error.message === 'OPTIMIZATION_RUNNING') {
+        throw new ApiError(
+          409,
+          'CONFLICT',
+          'Scheduling is already being optimized',
+        );
+      }
+      throw error;
+    }
+  }),
+);
+
+/**
+ * GET /api/me/fsrs-parameters/optimize - Get the latest optimization
+ *
+ * Response:
+ * - parameters: FSRS parameters now in use
+ * - optimization: { id, status, reviewCount, scoredReviewCount, initialLoss,
+ *   finalLoss, startedAt, completedAt }, or null if there was none
+ */
+router.get(
+  '/fsrs-parameters/optimize',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const optimization = await getLatestFSRSOptimization(user.id);
+
+    res.json({
+      parameters: formatFSRSParameters(user),
+      optimization: optimization && formatOptimization(optimization),
+    });
+  }),
+);
+
+/**
+ * PUT /api/me/fsrs-parameters/version - Switch the FSRS engine
+ *
+ * Recomputes the state of every card from its reviews with the new engine
+ * and clears fitted weights (they belong to the previous engine).
+ *
+ * Request body:
+ * - version: 'FSRS_4_5' | 'FSRS_5'
+ *
+ * Response:
+ * - parameters: FSRS parameters now in use
+ * - recomputedCardCount: number of cards replayed from their reviews
+ */
+router.put(
+  '/fsrs-parameters/version',
+  requireUser,
+  validate({ body: updateFSRSVersionSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { version } = req.validated!.body as UpdateFSRSVersionInput;
+
+    const { recomputedCardCount } = await switchFSRSVersion(user.id, version);
+
+    res.json({
+      parameters: formatFSRSParameters({
+        fsrsVersion: version,
+        fsrsWeights: [],
+        fsrsOptimizedAt: null,
+      }),
+      recomputedCardCount,
+    });
+  }),
+);
+
+/**
+ * DELETE /api/me/fsrs-parameters - Reset to the default FSRS parameters
+ *
+ * Keeps the user's engine version; only the fitted weights are cleared.
+ */
+router.delete(
+  '/fsrs-parameters',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { fsrsWeights: [], fsrsOptimizedAt: null },
+    });
+
+    res.json({ parameters: formatFSRSParameters(updatedUser) });
+  }),
+);
+
 export default router;
@@ -0,0 +1,174 @@
+/**
+ * Media Routes
+ *
+ * Image and audio uploads for cards. Files are uploaded as the raw request
+ * body with their MIME type as Content-Type, e.g.
+ *
+ *   POST /api/media?filename=heart.png
+ *   Content-Type: image/png
+ *
+ * and referenced from card markdown with the returned snippet.
+ */
+
+import express, {
+  Router,
+  type NextFunction,
+  type Request,
+  type Response,
+  type Router as RouterType,
+} from 'express';
+import type { Media } from '@/generated/prisma';
+import { requireUser } from '@/middlewares/auth';
+import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import {
+  deleteMedia,
+  getMediaMarkdown,
+  listMedia,
+  MAX_MEDIA_BYTES,
+  readMedia,
+  uploadMedia,
+} from '@/services/media';
+
+const router: RouterType = Router();
+
+const parseRawBody = express.raw({ type: () => true, limit: MAX_MEDIA_BYTES });
+
+/**
+ * Read the request body as bytes, rejecting bodies above the size limit.
+ */
+function rawBody(req: Request, res: Response, next: NextFunction): void {
+  parseRawBody(req, res, (error?: unknown) => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      next(
+        new ApiError(
+          413,
+          'PAYLOAD_TOO_LARGE',
+          'Media files can be at most 10 MB',
+        ),
+      );
+      return;
+    }
+    next(error);
+  });
+}
+
+/**
+ * Map media service errors to API errors.
+ */
+function toMediaApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'MEDIA_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Media not found');
+      case 'MEDIA_IN_USE':
+        return new ApiError(
+          409,
+          'CONFLICT',
+          'Media is still used by a card; remove it from the card first',
+        );
+      case 'EMPTY_MEDIA':
+        return new ApiError(400, 'VALIDATION_ERROR', 'The file is empty');
+      case 'MEDIA_TOO_LARGE':
+        return new ApiError(
+          413,
+          'PAYLOAD_TOO_LARGE',
+          'Media files can be at most 10 MB',
+        );
+      case 'UNSUPPORTED_MEDIA_TYPE':
+        return new ApiError(
+          415,
+          'UNSUPPORTED_MEDIA_TYPE',
+          'Only PNG, JPEG, GIF and WebP images and MP3, M4A, AAC, Ogg, WAV and WebM audio can be uploaded',
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Format media for API responses.
+ */
+function formatMedia(media: Media) {
+  return {
+    id: media.id,
+    mimeType: media.mimeType,
+    size: media.size,
+    filename: media.filename,
+    markdown: getMediaMarkdown(media),
+    createdAt: media.createdAt.toISOString(),
+  };
+}
+
+// GET /api/media - List the user's media
+router.get(
+  '/',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const media = await listMedia(user.id);
+
+    res.json({ media: media.map(formatMedia), total: media.length });
+  }),
+);
+
+// POST /api/media - Upload an image or audio file (raw body)
+router.post(
+  '/',
+  requireUser,
+  rawBody,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { filename } = req.query;
+
+    try {
+      const media = await uploadMedia(user.id, {
+        data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        mimeType: req.get('content-type') ?? '',
+        filename:
+          typeof filename === 'string' && filename.length > 0
+            ? filename
+            : undefined,
+      });
+      res.status(201).json({ media: formatMedia(media) });
+    } catch (error) {
+      throw toMediaApiError(error);
+    }
+  }),
+);
+
+// GET /api/media/:id - Download a media file
+router.get(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const { media, data } = await readMedia(user.id, req.params.id);
+      // Media never changes once uploaded
+      res.set('Cache-Control', 'private, max-age=31536000, immutable');
+      res.type(media.mimeType).send(data);
+    } catch (error) {
+      throw toMediaApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/media/:id - Delete a media file no card uses
+router.delete(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      await deleteMedia(user.id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      throw toMediaApiError(error);
+    }
+  }),
+);
+
+export default router;
@@ -0,0 +1,252 @@
+/**
+ * Note Routes
+ *
+ * Notes hold named fields; their note type's templates generate the cards.
+ * Editing a note re-renders its cards without resetting their scheduling.
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { requireUser } from '@/middlewares/auth';
+import { validate } from '@/middlewares/validate';
+import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import {
+  createNoteSchema,
+  createNoteTypeSchema,
+  updateNoteSchema,
+  type CreateNoteInput,
+  type CreateNoteTypeInput,
+  type UpdateNoteInput,
+} from '@/lib/validation';
+import {
+  createNote,
+  createNoteType,
+  deleteNote,
+  getNote,
+  listNotes,
+  listNoteTypes,
+  updateNote,
+  type NoteTypeWithTemplates,
+  type NoteWithCards,
+} from '@/services/notes';
+import { CLIENT_HEADER, getEditSource } from '@/services/card-revisions';
+
+const router: RouterType = Router();
+
+/**
+ * Map notes service errors to API errors.
+ */
+function toNoteApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'NOTE_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Note not found');
+      case 'NOTE_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to access this note',
+        );
+      case 'DECK_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Deck not found');
+      case 'DECK_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to add notes to this deck',
+        );
+      case 'NOTE_TYPE_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Note type not found');
+      case 'UNKNOWN_FIELD':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          'Fields must belong to the note type',
+        );
+      case 'NOTE_WITHOUT_CARDS':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          'The fields do not produce any card; fill in the first field',
+        );
+      case 'DUPLICATE_FIELD':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          'Field names must be unique',
+        );
+      case 'UNKNOWN_TEMPLATE_FIELD':
+        return new ApiError(
+          400,
+          'VALIDATION_ERROR',
+          'Templates can only use the fields of the note type',
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Format a note type for API responses.
+ */
+function formatNoteType(noteType: NoteTypeWithTemplates) {
+  return {
+    id: noteType.id,
+    name: noteType.name,
+    fields: noteType.fields,
+    // Stock note types are shared and cannot be changed
+    isStock: noteType.userId === null,
+    templates: noteType.templates.map((template) => ({
+      name: template.name,
+      ordinal: template.ordinal,
+      front: template.front,
+      back: template.back,
+    })),
+  };
+}
+
+/**
+ * Format a note and its cards for API responses.
+ */
+function formatNote(note: NoteWithCards) {
+  return {
+    id: note.id,
+    noteTypeId: note.noteTypeId,
+    noteTypeName: note.noteType.name,
+    deckId: note.deckId,
+    fields: note.fields,
+    cards: note.cards.map((card) => ({
+      id: card.id,
+      templateOrdinal: card.templateOrdinal,
+      front: card.front,
+      back: card.back,
+      state: card.state,
+      nextReview: card.nextReviewDate.toISOString(),
+    })),
+    createdAt: note.createdAt.toISOString(),
+    updatedAt: note.updatedAt.toISOString(),
+  };
+}
+
+// GET /api/notes/types - List stock and own note types
+// IMPORTANT: This route MUST be defined before /:id to avoid being shadowed
+router.get(
+  '/types',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const noteTypes = await listNoteTypes(user.id);
+
+    res.json({ noteTypes: noteTypes.map(formatNoteType) });
+  }),
+);
+
+// POST /api/notes/types - Create a custom note type
+router.post(
+  '/types',
+  requireUser,
+  validate({ body: createNoteTypeSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const input = req.validated!.body as CreateNoteTypeInput;
+
+    try {
+      const noteType = await createNoteType(user.id, input);
+      res.status(201).json({ noteType: formatNoteType(noteType) });
+    } catch (error) {
+      throw toNoteApiError(error);
+    }
+  }),
+);
+
+// GET /api/notes - List notes (filterable by deckId)
+router.get(
+  '/',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { deckId } = req.query;
+
+    const notes = await listNotes(
+      user.id,
+      typeof deckId === 'string' && deckId.length > 0 ? deckId : undefined,
+    );
+
+    res.json({ notes: notes.map(formatNote), total: notes.length });
+  }),
+);
+
+// POST /api/notes - Create a note and its cards
+router.post(
+  '/',
+  requireUser,
+  validate({ body: createNoteSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const input = req.validated!.body as CreateNoteInput;
+
+    try {
+      const note = await createNote(user.id, input);
+      res.status(201).json({ note: formatNote(note) });
+    } catch (error) {
+      throw toNoteApiError(error);
+    }
+  }),
+);
+
+// GET /api/notes/:id - Get a note and its cards
+router.get(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      const note = await getNote(user.id, req.params.id);
+      res.json({ note: formatNote(note) });
+    } catch (error) {
+      throw toNoteApiError(error);
+    }
+  }),
+);
+
+// PATCH /api/notes/:id - Update a note's fields and re-render its cards
+router.patch(
+  '/:id',
+  requireUser,
+  validate({ body: updateNoteSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { fields } = req.validated!.body as UpdateNoteInput;
+
+    try {
+      const note = await updateNote(
+        user.id,
+        req.params.id,
+        fields,
+        getEditSource(req.get(CLIENT_HEADER)),
+      );
+      res.json({ note: formatNote(note) });
+    } catch (error) {
+      throw toNoteApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/notes/:id - Delete a note and its cards
+router.delete(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      await deleteNote(user.id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      throw toNoteApiError(error);
+    }
+  }),
+);
+
+export default router;
@@ -46,6 +46,16 @@ jest.mock('@/middlewares/auth', () => ({
       notificationsCountToday: 0,
       notificationsCountThisWeek: 0,
       sprintSize: 5,
+      fsrsWeights: [],
+      fsrsOptimizedAt: null,
+      learningSteps: [1, 10],
+      relearningSteps: [1, 10],
+      enableFuzz: false,
+      fsrsVersion: 'FSRS_4_5' as const,
+      leechThreshold: 8,
+      leechAction: 'TAG' as const,
+      newCardsPerDay: 20,
+      reviewsPerDay: 200,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -377,6 +387,112 @@ describe('Notifications Routes', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should update learning and relearning steps', async () => {
+      (mockPrisma.user.update as jest.Mock).mockResolvedValue({
+        id: 'user-1',
+        notificationsEnabled: true,
+        notificationCooldownMinutes: 120,
+        maxNotificationsPerDay: 10,
+        pushToken: 'ExponentPushToken[xxx]',
+        lastPushSentAt: null,
+        notificationsCountToday: 0,
+        learningSteps: [10, 60, 1440],
+        relearningSteps: [10],
+      });
+
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ learningSteps: [10, 60, 1440], relearningSteps: [10] });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { learningSteps: [10, 60, 1440], relearningSteps: [10] },
+        select: expect.any(Object),
+      });
+      expect(response.body.prefs.learningSteps).toEqual([10, 60, 1440]);
+      expect(response.body.prefs.relearningSteps).toEqual([10]);
+    });
+
+    it('should reject an empty list of learning steps', async () => {
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ learningSteps: [] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject non-integer learning steps', async () => {
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ learningSteps: [1.5] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should turn interval fuzz off', async () => {
+      (mockPrisma.user.update as jest.Mock).mockResolvedValue({
+        id: 'user-1',
+        notificationsEnabled: true,
+        notificationCooldownMinutes: 120,
+        maxNotificationsPerDay: 10,
+        pushToken: null,
+        lastPushSentAt: null,
+        notificationsCountToday: 0,
+        learningSteps: [1, 10],
+        relearningSteps: [1, 10],
+        enableFuzz: false,
+        fsrsVersion: 'FSRS_4_5' as const,
+      });
+
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ enableFuzz: false });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { enableFuzz: false },
+        select: expect.any(Object),
+      });
+      expect(response.body.prefs.enableFuzz).toBe(false);
+    });
+
+    it('should update daily limits', async () => {
+      (mockPrisma.user.update as jest.Mock).mockResolvedValue({
+        id: 'user-1',
+        notificationsEnabled: true,
+        notificationCooldownMinutes: 120,
+        maxNotificationsPerDay: 10,
+        pushToken: null,
+        lastPushSentAt: null,
+        notificationsCountToday: 0,
+        newCardsPerDay: 5,
+        reviewsPerDay: 50,
+      });
+
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ newCardsPerDay: 5, reviewsPerDay: 50 });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { newCardsPerDay: 5, reviewsPerDay: 50 },
+        select: expect.any(Object),
+      });
+      expect(response.body.prefs.newCardsPerDay).toBe(5);
+      expect(response.body.prefs.reviewsPerDay).toBe(50);
+    });
+
+    it('should reject negative daily limits', async () => {
+      const response = await request(app)
+        .patch('/api/notifications/preferences')
+        .send({ newCardsPerDay: -1 });
+
+      expect(response.status).toBe(400);
+    });
   });
 
   describe('GET /api/notifications/preferences', () => {
@@ -388,6 +504,8 @@ describe('Notifications Routes', () => {
         pushToken: 'ExponentPushToken[xxx]',
         lastPushSentAt: new Date('2024-01-15T10:00:00.000Z'),
         notificationsCountToday: 3,
+        learningSteps: [1, 10],
+        relearningSteps: [10],
       });
 
       const response = await request(app).get('/api/notifications/preferences');
@@ -399,6 +517,8 @@ describe('Notifications Routes', () => {
       expect(response.body.hasPushToken).toBe(true);
       expect(response.body.lastPushSentAt).toBe('2024-01-15T10:00:00.000Z');
       expect(response.body.notificationsCountToday).toBe(3);
+      expect(response.body.learningSteps).toEqual([1, 10]);
+      expect(response.body.relearningSteps).toEqual([10]);
     });
   });
 });
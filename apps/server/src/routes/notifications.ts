@@ -1,6 +1,12 @@
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import {
+  dailyLimitSchema,
+  learningStepsSchema,
+  leechActionEnum,
+  leechThresholdSchema,
+} from '@/lib/validation';
 import { requireUser } from '@/middlewares/auth';
 import { validate } from '@/middlewares/validate';
 import { asyncHandler, ApiError } from '@/middlewares/error-handler';
@@ -56,6 +62,13 @@ const updatePreferencesSchema = z.object({
     .min(3, 'Sprint size must be at least 3')
     .max(10, 'Sprint size must be at most 10')
     .optional(),
+  learningSteps: learningStepsSchema.optional(),
+  relearningSteps: learningStepsSchema.optional(),
+  enableFuzz: z.boolean().optional(),
+  leechThreshold: leechThresholdSchema.optional(),
+  leechAction: leechActionEnum.optional(),
+  newCardsPerDay: dailyLimitSchema.optional(),
+  reviewsPerDay: dailyLimitSchema.optional(),
 });
 
 // POST /api/notifications/register - Register push token
@@ -194,6 +207,13 @@ router.patch(
       quietHoursStart,
       quietHoursEnd,
       sprintSize,
+      learningSteps,
+      relearningSteps,
+      enableFuzz,
+      leechThreshold,
+      leechAction,
+      newCardsPerDay,
+      reviewsPerDay,
     } = req.validated!.body as z.infer<typeof updatePreferencesSchema>;
 
     // Build update data (only include fields that were provided)
@@ -204,6 +224,13 @@ router.patch(
       quietHoursStart?: string;
       quietHoursEnd?: string;
       sprintSize?: number;
+      learningSteps?: number[];
+      relearningSteps?: number[];
+      enableFuzz?: boolean;
+      leechThreshold?: number;
+      leechAction?: z.infer<typeof leechActionEnum>;
+      newCardsPerDay?: number;
+      reviewsPerDay?: number;
     } = {};
 
     if (notificationsEnabled !== undefined) {
@@ -224,6 +251,27 @@ router.patch(
     if (sprintSize !== undefined) {
       updateData.sprintSize = sprintSize;
     }
+    if (learningSteps !== undefined) {
+      updateData.learningSteps = learningSteps;
+    }
+    if (relearningSteps !== undefined) {
+      updateData.relearningSteps = relearningSteps;
+    }
+    if (enableFuzz !== undefined) {
+      updateData.enableFuzz = enableFuzz;
+    }
+    if (leechThreshold !== undefined) {
+      updateData.leechThreshold = leechThreshold;
+    }
+    if (leechAction !== undefined) {
+      updateData.leechAction = leechAction;
+    }
+    if (newCardsPerDay !== undefined) {
+      updateData.newCardsPerDay = newCardsPerDay;
+    }
+    if (reviewsPerDay !== undefined) {
+      updateData.reviewsPerDay = reviewsPerDay;
+    }
 
     // Update user's notification preferences
     const updatedUser = await prisma.user.update({
@@ -236,6 +284,13 @@ router.patch(
         pushToken: true,
         lastPushSentAt: true,
         notificationsCountToday: true,
+        learningSteps: true,
+        relearningSteps: true,
+        enableFuzz: true,
+        leechThreshold: true,
+        leechAction: true,
+        newCardsPerDay: true,
+        reviewsPerDay: true,
       },
     });
 
@@ -249,6 +304,13 @@ router.patch(
         hasPushToken: !!updatedUser.pushToken,
         lastPushSentAt: updatedUser.lastPushSentAt?.toISOString() ?? null,
         notificationsCountToday: updatedUser.notificationsCountToday,
+        learningSteps: updatedUser.learningSteps,
+        relearningSteps: updatedUser.relearningSteps,
+        enableFuzz: updatedUser.enableFuzz,
+        leechThreshold: updatedUser.leechThreshold,
+        leechAction: updatedUser.leechAction,
+        newCardsPerDay: updatedUser.newCardsPerDay,
+        reviewsPerDay: updatedUser.reviewsPerDay,
       },
     });
   }),
@@ -271,6 +333,13 @@ router.get(
         pushToken: true,
         lastPushSentAt: true,
         notificationsCountToday: true,
+        learningSteps: true,
+        relearningSteps: true,
+        enableFuzz: true,
+        leechThreshold: true,
+        leechAction: true,
+        newCardsPerDay: true,
+        reviewsPerDay: true,
       },
     });
 
@@ -285,6 +354,13 @@ router.get(
       hasPushToken: !!userData.pushToken,
       lastPushSentAt: userData.lastPushSentAt?.toISOString() ?? null,
       notificationsCountToday: userData.notificationsCountToday,
+      learningSteps: userData.learningSteps,
+      relearningSteps: userData.relearningSteps,
+      enableFuzz: userData.enableFuzz,
+      leechThreshold: userData.leechThreshold,
+      leechAction: userData.leechAction,
+      newCardsPerDay: userData.newCardsPerDay,
+      reviewsPerDay: userData.reviewsPerDay,
     });
   }),
 );
@@ -105,7 +105,7 @@ router.post(
     });
 
     res.status(201).json({
-      sprint: formatSprintResponse(sprint as SprintWithCards),
+      sprint: formatSprintResponse(sprint as SprintWithCards, user),
     });
   }),
 );
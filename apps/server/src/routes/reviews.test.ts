@@ -29,10 +29,49 @@ const mockUser = {
   notificationsCountToday: 0,
   notificationsCountThisWeek: 0,
   sprintSize: 5,
+  fsrsWeights: [],
+  fsrsOptimizedAt: null,
+  learningSteps: [1, 10],
+  relearningSteps: [1, 10],
+  enableFuzz: false,
+  fsrsVersion: 'FSRS_4_5' as const,
+  leechThreshold: 8,
+  leechAction: 'TAG' as const,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
 
+// Review log fields of a review that predates the log
+const emptyReviewLog = {
+  sprintId: null,
+  durationMs: null,
+  timeToRevealMs: null,
+  timeToRateMs: null,
+  stateBefore: null,
+  stabilityBefore: null,
+  difficultyBefore: null,
+  elapsedDaysBefore: null,
+  scheduledDaysBefore: null,
+  repsBefore: null,
+  lapsesBefore: null,
+  learningStepBefore: null,
+  lastReviewBefore: null,
+  nextReviewDateBefore: null,
+  fsrsVersionBefore: null,
+  schedulingAlgorithmBefore: null,
+  lastNotificationSentBefore: null,
+  stateAfter: null,
+  stabilityAfter: null,
+  difficultyAfter: null,
+  elapsedDaysAfter: null,
+  scheduledDaysAfter: null,
+  nextReviewDate: null,
+  leechTagged: false,
+  leechSuspended: false,
+};
+
 // Mock the prisma module
 jest.mock('@/lib/prisma', () => ({
   prisma: prismaMock,
@@ -101,9 +140,13 @@ describe('Reviews Routes - Unit Tests', () => {
       lapses: 0,
       state: 'NEW' as const,
       lastReview: null,
+      fsrsVersion: 'FSRS_4_5' as const,
+      schedulingAlgorithm: 'FSRS' as const,
       nextReviewDate: now,
       lastNotificationSent: null,
       snoozedUntil: null,
+      suspendedAt: null,
+      buriedUntil: null,
       createdAt: now,
       updatedAt: now,
       deck: {
@@ -112,7 +155,14 @@ describe('Reviews Routes - Unit Tests', () => {
         description: null,
         userId: 'user-internal-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       },
@@ -217,6 +267,176 @@ describe('Reviews Routes - Unit Tests', () => {
       expect(response.body.review.id).toBe('review-1');
       expect(response.body.review.rating).toBe('GOOD');
       expect(response.body.card.state).toBe('REVIEW');
+      expect(new Date(response.body.undoableUntil).getTime()).toBeGreaterThan(
+        now.getTime(),
+      );
+    });
+
+    it('should log the card state before and after the review', async () => {
+      prismaMock.card.findUnique.mockResolvedValue(mockCard as never);
+      prismaMock.$transaction.mockResolvedValue([
+        {
+          id: 'review-1',
+          cardId: 'card-1',
+          userId: 'user-internal-id',
+          rating: 'GOOD',
+          createdAt: now,
+          ...emptyReviewLog,
+        },
+        mockCard,
+      ]);
+
+      const response = await request(app)
+        .post('/api/reviews')
+        .send({ cardId: 'card-1', rating: 'GOOD', durationMs: 4200 });
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.review.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardId: 'card-1',
+          userId: 'user-internal-id',
+          rating: 'GOOD',
+          durationMs: 4200,
+          stateBefore: 'NEW',
+          stabilityBefore: 0,
+          repsBefore: 0,
+          lastReviewBefore: null,
+          nextReviewDateBefore: mockCard.nextReviewDate,
+          stateAfter: 'REVIEW',
+          stabilityAfter: expect.any(Number),
+          nextReviewDate: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should store the time to reveal and to rate', async () => {
+      prismaMock.card.findUnique.mockResolvedValue(mockCard as never);
+      prismaMock.$transaction.mockResolvedValue([
+        {
+          id: 'review-1',
+          cardId: 'card-1',
+          userId: 'user-internal-id',
+          rating: 'GOOD',
+          createdAt: now,
+          ...emptyReviewLog,
+          durationMs: 5000,
+          timeToRevealMs: 3000,
+          timeToRateMs: 2000,
+        },
+        mockCard,
+      ]);
+
+      const response = await request(app).post('/api/reviews').send({
+        cardId: 'card-1',
+        rating: 'GOOD',
+        timeToRevealMs: 3000,
+        timeToRateMs: 2000,
+      });
+
+      expect(response.status).toBe(201);
+      // The total is derived from its parts when not sent
+      expect(prismaMock.review.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          durationMs: 5000,
+          timeToRevealMs: 3000,
+          timeToRateMs: 2000,
+        }),
+      });
+      expect(response.body.review.timeToRevealMs).toBe(3000);
+      expect(response.body.review.timeToRateMs).toBe(2000);
+    });
+
+    it('should return 400 for negative duration', async () => {
+      const response = await request(app)
+        .post('/api/reviews')
+        .send({ cardId: 'card-1', rating: 'GOOD', durationMs: -1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/reviews/undo', () => {
+    const now = new Date();
+    const loggedReview = {
+      id: 'review-1',
+      cardId: 'card-1',
+      userId: 'user-internal-id',
+      rating: 'GOOD',
+      createdAt: new Date(now.getTime() - 60000),
+      ...emptyReviewLog,
+      stateBefore: 'NEW',
+      stabilityBefore: 0,
+      difficultyBefore: 0,
+      elapsedDaysBefore: 0,
+      scheduledDaysBefore: 0,
+      repsBefore: 0,
+      lapsesBefore: 0,
+      nextReviewDateBefore: now,
+      stateAfter: 'LEARNING',
+    };
+
+    it('should restore the card and delete the review', async () => {
+      prismaMock.review.findFirst.mockResolvedValue(loggedReview as never);
+      prismaMock.review.count.mockResolvedValue(0);
+      prismaMock.$transaction.mockResolvedValue([
+        { id: 'card-1', state: 'NEW', nextReviewDate: now },
+        loggedReview,
+      ]);
+
+      const response = await request(app).post('/api/reviews/undo');
+
+      expect(response.status).toBe(200);
+      expect(response.body.review.id).toBe('review-1');
+      expect(response.body.card).toEqual({
+        id: 'card-1',
+        state: 'NEW',
+        nextReview: now.toISOString(),
+      });
+      expect(prismaMock.review.delete).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+      });
+    });
+
+    it('should return 404 when there is no review to undo', async () => {
+      prismaMock.review.findFirst.mockResolvedValue(null);
+
+      const response = await request(app).post('/api/reviews/undo');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NO_REVIEW_TO_UNDO');
+    });
+
+    it('should return 409 when the undo window has passed', async () => {
+      prismaMock.review.findFirst.mockResolvedValue({
+        ...loggedReview,
+        createdAt: new Date(now.getTime() - 60 * 60000),
+      } as never);
+
+      const response = await request(app).post('/api/reviews/undo');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('UNDO_WINDOW_EXPIRED');
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when reopening a completed sprint while another is active', async () => {
+      prismaMock.review.findFirst.mockResolvedValue({
+        ...loggedReview,
+        sprintId: 'sprint-1',
+      } as never);
+      prismaMock.review.count.mockResolvedValue(0);
+      prismaMock.sprint.findUnique.mockResolvedValue({
+        id: 'sprint-1',
+        status: 'COMPLETED',
+      } as never);
+      prismaMock.sprint.count.mockResolvedValue(1);
+
+      const response = await request(app).post('/api/reviews/undo');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
     });
   });
 
@@ -246,11 +466,128 @@ describe('Reviews Routes - Unit Tests', () => {
         },
       ] as never);
 
+      prismaMock.review.count.mockResolvedValue(1);
+
       const response = await request(app).get('/api/reviews');
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveProperty('reviews');
-      expect(Array.isArray(response.body.reviews)).toBe(true);
+      expect(response.body).toHaveProperty('items');
+      expect(Array.isArray(response.body.items)).toBe(true);
+      expect(response.body.total).toBe(1);
+    });
+
+    it('should page past the newest reviews', async () => {
+      const createdAt = new Date('2025-06-01T12:00:00Z');
+      prismaMock.review.findMany.mockResolvedValue([
+        {
+          id: 'review-1',
+          cardId: 'card-1',
+          rating: 'GOOD',
+          createdAt,
+          card: { id: 'card-1', front: 'Question', back: 'Answer' },
+        },
+        {
+          id: 'review-2',
+          cardId: 'card-1',
+          rating: 'AGAIN',
+          createdAt,
+          card: { id: 'card-1', front: 'Question', back: 'Answer' },
+        },
+      ] as never);
+      prismaMock.review.count.mockResolvedValue(250);
+
+      const first = await request(app).get(
+        '/api/reviews?limit=1&fields=rating',
+      );
+
+      expect(first.status).toBe(200);
+      expect(first.body.items).toEqual([{ id: 'review-1', rating: 'GOOD' }]);
+      expect(first.body.hasMore).toBe(true);
+
+      await request(app).get(`/api/reviews?cursor=${first.body.nextCursor}`);
+
+      expect(prismaMock.review.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { userId: 'user-internal-id' },
+              {
+                OR: [
+                  { createdAt: { lt: createdAt } },
+                  { createdAt, id: { lt: 'review-1' } },
+                ],
+              },
+            ],
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+    });
+  });
+
+  describe('GET /api/reviews/timing', () => {
+    it('should return average answer times', async () => {
+      prismaMock.review.groupBy.mockResolvedValue([
+        {
+          cardId: 'card-1',
+          stateBefore: 'REVIEW',
+          _sum: { durationMs: 9000, timeToRevealMs: 6000, timeToRateMs: 3000 },
+          _count: { durationMs: 2, timeToRevealMs: 2, timeToRateMs: 2 },
+        },
+      ] as never);
+      prismaMock.sprintCard.groupBy.mockResolvedValue([] as never);
+      prismaMock.card.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          front: 'Question',
+          deck: { id: 'deck-1', title: 'Test Deck' },
+        },
+      ] as never);
+
+      const response = await request(app)
+        .get('/api/reviews/timing')
+        .query({ deckId: 'deck-1' });
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.review.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-internal-id',
+            durationMs: { not: null },
+            card: { deckId: 'deck-1' },
+          },
+        }),
+      );
+      const averages = {
+        reviewCount: 2,
+        averageSeconds: 4.5,
+        averageRevealSeconds: 3,
+        averageRateSeconds: 1.5,
+      };
+      expect(response.body).toEqual({
+        overall: averages,
+        byDeck: [{ deckId: 'deck-1', deckTitle: 'Test Deck', ...averages }],
+        byState: [{ state: 'REVIEW', ...averages }],
+        slowestCards: [
+          {
+            cardId: 'card-1',
+            front: 'Question',
+            deckId: 'deck-1',
+            deckTitle: 'Test Deck',
+            ...averages,
+          },
+        ],
+      });
+    });
+
+    it('should return 400 for an empty deckId', async () => {
+      const response = await request(app)
+        .get('/api/reviews/timing')
+        .query({ deckId: '' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.review.groupBy).not.toHaveBeenCalled();
     });
   });
 
@@ -269,9 +606,13 @@ describe('Reviews Routes - Unit Tests', () => {
       lapses: 0,
       state: 'NEW' as const,
       lastReview: null,
+      fsrsVersion: 'FSRS_4_5' as const,
+      schedulingAlgorithm: 'FSRS' as const,
       nextReviewDate: now,
       lastNotificationSent: null,
       snoozedUntil: null,
+      suspendedAt: null,
+      buriedUntil: null,
       createdAt: now,
       updatedAt: now,
       deck: {
@@ -280,7 +621,14 @@ describe('Reviews Routes - Unit Tests', () => {
         description: null,
         userId: 'user-internal-id',
         parentDeckId: null,
-    isOnboardingFixture: false,
+        isOnboardingFixture: false,
+        learningSteps: [],
+        relearningSteps: [],
+        desiredRetention: null,
+        schedulingAlgorithm: 'FSRS' as const,
+        newCardsPerDay: null,
+        reviewsPerDay: null,
+        createReverseCards: false,
         createdAt: now,
         updatedAt: now,
       },
@@ -327,6 +675,7 @@ describe('Reviews Routes - Unit Tests', () => {
           userId: 'user-internal-id',
           rating: 'GOOD',
           createdAt: now,
+          ...emptyReviewLog,
         },
       ]);
 
@@ -335,6 +684,8 @@ describe('Reviews Routes - Unit Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('reviews');
       expect(Array.isArray(response.body.reviews)).toBe(true);
+      expect(response.body.reviews[0].before.state).toBeNull();
+      expect(response.body.reviews[0].after.nextReviewDate).toBeNull();
     });
   });
 });
@@ -1,22 +1,78 @@
 import { Router, type Router as RouterType } from 'express';
 import { prisma } from '@/lib/prisma';
-import { createReviewSchema, type CreateReviewInput } from '@/lib/validation';
+import { paginate, selectFields } from '@/lib/pagination';
+import type { Review } from '@/generated/prisma';
+import {
+  createReviewSchema,
+  type CreateReviewInput,
+  listReviewsQuerySchema,
+  type ListReviewsQuery,
+  reviewTimingQuerySchema,
+  type ReviewTimingQuery,
+} from '@/lib/validation';
 import { requireUser } from '@/middlewares/auth';
 import { validate } from '@/middlewares/validate';
 import { asyncHandler, ApiError } from '@/middlewares/error-handler';
 import {
-  calculateNextReview,
+  getFSRSParameters,
+  resolveSchedulingOverrides,
   type FSRSState,
   type RatingType,
 } from '@/services/fsrs';
+import { handleLeech } from '@/services/leech';
+import { scheduleReview } from '@/services/load-balancer';
+import { buildReviewLogData } from '@/services/review-log';
+import {
+  buildReviewTimingData,
+  getTimingStats,
+} from '@/services/review-timing';
+import { getUndoableUntil, undoLastReview } from '@/services/review-undo';
 
 const router: RouterType = Router();
 
+/**
+ * Format a review, including its scheduling log, for API response.
+ * Log fields are null for reviews that predate the log and were not backfilled.
+ */
+function formatReview(review: Review) {
+  return {
+    id: review.id,
+    cardId: review.cardId,
+    rating: review.rating,
+    sprintId: review.sprintId,
+    durationMs: review.durationMs,
+    timeToRevealMs: review.timeToRevealMs,
+    timeToRateMs: review.timeToRateMs,
+    createdAt: review.createdAt.toISOString(),
+    before: {
+      state: review.stateBefore,
+      stability: review.stabilityBefore,
+      difficulty: review.difficultyBefore,
+      elapsedDays: review.elapsedDaysBefore,
+      scheduledDays: review.scheduledDaysBefore,
+      reps: review.repsBefore,
+      lapses: review.lapsesBefore,
+      lastReview: review.lastReviewBefore?.toISOString() ?? null,
+      nextReviewDate: review.nextReviewDateBefore?.toISOString() ?? null,
+    },
+    after: {
+      state: review.stateAfter,
+      stability: review.stabilityAfter,
+      difficulty: review.difficultyAfter,
+      elapsedDays: review.elapsedDaysAfter,
+      scheduledDays: review.scheduledDaysAfter,
+      nextReviewDate: review.nextReviewDate?.toISOString() ?? null,
+    },
+  };
+}
+
 /**
  * POST /api/reviews - Submit a card review
  *
- * Accepts a cardId and rating, calculates the new FSRS state,
- * creates a review record, and updates the card.
+ * Accepts a cardId, rating and optional answer times, calculates the
+ * new FSRS state, logs the review with the card's state before and after,
+ * and updates the card. If the review turns the card into a leech, the
+ * user's leech action is applied.
  */
 router.post(
   '/',
@@ -24,13 +80,26 @@ router.post(
   validate({ body: createReviewSchema }),
   asyncHandler(async (req, res) => {
     const user = req.user!;
-    const { cardId, rating } = req.validated!.body as CreateReviewInput;
+    const { cardId, rating, durationMs, timeToRevealMs, timeToRateMs } = req
+      .validated!.body as CreateReviewInput;
     const reviewTime = new Date();
 
     // Fetch the card to review
     const card = await prisma.card.findUnique({
       where: { id: cardId },
-      include: { deck: true },
+      include: {
+        deck: {
+          include: {
+            parentDeck: {
+              select: {
+                desiredRetention: true,
+                learningSteps: true,
+                relearningSteps: true,
+              },
+            },
+          },
+        },
+      },
     });
 
     if (!card) {
@@ -55,15 +124,25 @@ router.post(
       reps: card.reps,
       lapses: card.lapses,
       state: card.state,
+      learningStep: card.learningStep,
       lastReview: card.lastReview,
     };
 
-    // Calculate new FSRS state based on rating
-    const { state: newState, nextReviewDate } = calculateNextReview(
+    // Calculate new FSRS state based on rating, using the user's engine and
+    // fitted weights when they have been optimized and the deck's retention
+    // and steps
+    const params = getFSRSParameters(
+      user.fsrsWeights,
+      resolveSchedulingOverrides(card.deck, user),
+    );
+    const { state: newState, nextReviewDate } = await scheduleReview({
+      userId: user.id,
+      cardId: card.id,
       currentState,
-      rating as RatingType,
+      rating: rating as RatingType,
       reviewTime,
-    );
+      params,
+    });
 
     // Use a transaction to ensure atomicity
     const [review, updatedCard] = await prisma.$transaction([
@@ -73,6 +152,12 @@ router.post(
           cardId,
           userId: user.id,
           rating: rating,
+          ...buildReviewTimingData({
+            durationMs,
+            timeToRevealMs,
+            timeToRateMs,
+          }),
+          ...buildReviewLogData(currentState, card, newState, nextReviewDate),
         },
       }),
       // Update card with new FSRS state
@@ -86,7 +171,10 @@ router.post(
           reps: newState.reps,
           lapses: newState.lapses,
           state: newState.state,
+          learningStep: newState.learningStep,
           lastReview: newState.lastReview,
+          fsrsVersion: params.version,
+          schedulingAlgorithm: params.algorithm,
           nextReviewDate,
           // Reset notification flag since card was just reviewed
           lastNotificationSent: null,
@@ -94,14 +182,19 @@ router.post(
       }),
     ]);
 
+    const leech = await handleLeech({
+      userId: user.id,
+      cardId,
+      reviewId: review.id,
+      lapsesBefore: currentState.lapses,
+      lapsesAfter: newState.lapses,
+      settings: user,
+      now: reviewTime,
+    });
+
     // Return the review and updated card
     res.status(201).json({
-      review: {
-        id: review.id,
-        cardId: review.cardId,
-        rating: review.rating,
-        createdAt: review.createdAt.toISOString(),
-      },
+      review: formatReview(review),
       card: {
         id: updatedCard.id,
         front: updatedCard.front,
@@ -117,48 +210,143 @@ router.post(
         nextReview: updatedCard.nextReviewDate.toISOString(),
         lastReview: updatedCard.lastReview?.toISOString() ?? null,
       },
+      undoableUntil: getUndoableUntil(review.createdAt).toISOString(),
+      leech,
     });
   }),
 );
 
-// GET /api/reviews - Get review history
-router.get(
-  '/',
+/**
+ * POST /api/reviews/undo - Undo the user's last review
+ *
+ * Restores the card's scheduling state from before the review and deletes
+ * the review. If it was made in a sprint, the sprint card's result is cleared
+ * (reopening a completed sprint). Only allowed within the undo window.
+ */
+router.post(
+  '/undo',
   requireUser,
   asyncHandler(async (req, res) => {
     const user = req.user!;
 
-    const reviews = await prisma.review.findMany({
-      where: { userId: user.id },
-      orderBy: { createdAt: 'desc' },
-      take: 100, // Limit to last 100 reviews
-      include: {
+    try {
+      const { review, card } = await undoLastReview({ userId: user.id });
+
+      res.json({
+        review: formatReview(review),
         card: {
-          select: {
-            id: true,
-            front: true,
-            back: true,
-          },
+          id: card.id,
+          state: card.state,
+          nextReview: card.nextReviewDate.toISOString(),
         },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'NO_REVIEW_TO_UNDO':
+            throw new ApiError(
+              404,
+              'NO_REVIEW_TO_UNDO',
+              'There is no review to undo',
+            );
+          case 'UNDO_WINDOW_EXPIRED':
+            throw new ApiError(
+              409,
+              'UNDO_WINDOW_EXPIRED',
+              'The last review is too old to undo',
+            );
+          case 'UNDO_NOT_AVAILABLE':
+            throw new ApiError(
+              409,
+              'UNDO_NOT_AVAILABLE',
+              'The last review cannot be undone',
+            );
+          case 'SPRINT_NOT_ACTIVE':
+            throw new ApiError(
+              409,
+              'SPRINT_NOT_ACTIVE',
+              'Reviews in an abandoned sprint cannot be undone',
+            );
+          case 'ACTIVE_SPRINT_EXISTS':
+            throw new ApiError(
+              409,
+              'CONFLICT',
+              'Finish or abandon your active sprint before undoing a review of a completed one',
+            );
+        }
+      }
+      throw error;
+    }
+  }),
+);
+
+// GET /api/reviews - Get a page of the review history (newest first unless
+// order=asc; paged with cursor and limit; fields selects the fields to
+// return)
+router.get(
+  '/',
+  requireUser,
+  validate({ query: listReviewsQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { sort, fields, ...page } = req.validated!.query as ListReviewsQuery;
+
+    const reviews = await paginate(
+      { ...page, sort, field: 'createdAt' },
+      { userId: user.id },
+      {
+        findMany: (args) =>
+          prisma.review.findMany({
+            ...args,
+            include: {
+              card: {
+                select: {
+                  id: true,
+                  front: true,
+                  back: true,
+                },
+              },
+            },
+          }),
+        count: (args) => prisma.review.count(args),
       },
-    });
+    );
 
     res.json({
-      reviews: reviews.map((review) => ({
-        id: review.id,
-        cardId: review.cardId,
-        rating: review.rating,
-        createdAt: review.createdAt.toISOString(),
-        card: {
-          id: review.card.id,
-          front: review.card.front,
-          back: review.card.back,
-        },
-      })),
+      ...reviews,
+      items: reviews.items.map((review) =>
+        selectFields(
+          {
+            ...formatReview(review),
+            card: {
+              id: review.card.id,
+              front: review.card.front,
+              back: review.card.back,
+            },
+          },
+          fields,
+        ),
+      ),
     });
   }),
 );
 
+// GET /api/reviews/timing - Average answer times per card, deck and state
+// (filterable by deckId)
+router.get(
+  '/timing',
+  requireUser,
+  validate({ query: reviewTimingQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { deckId } = req.validated!.query as ReviewTimingQuery;
+
+    const stats = await getTimingStats(user.id, deckId);
+
+    res.json(stats);
+  }),
+);
+
 // GET /api/reviews/card/:cardId - Get reviews for specific card
 router.get(
   '/card/:cardId',
@@ -191,12 +379,7 @@ router.get(
     });
 
     res.json({
-      reviews: reviews.map((review) => ({
-        id: review.id,
-        cardId: review.cardId,
-        rating: review.rating,
-        createdAt: review.createdAt.toISOString(),
-      })),
+      reviews: reviews.map(formatReview),
     });
   }),
 );
@@ -25,6 +25,16 @@ const mockUser: User = {
   notificationsCountToday: 0,
   notificationsCountThisWeek: 0,
   sprintSize: 5,
+  fsrsWeights: [],
+  fsrsOptimizedAt: null,
+  learningSteps: [1, 10],
+  relearningSteps: [1, 10],
+  enableFuzz: false,
+  fsrsVersion: 'FSRS_4_5' as const,
+  leechThreshold: 8,
+  leechAction: 'TAG' as const,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -36,7 +46,14 @@ const mockDeck: Deck & { cards?: Card[] } = {
   description: null,
   priority: 50,
   parentDeckId: null,
-    isOnboardingFixture: false,
+  isOnboardingFixture: false,
+  learningSteps: [],
+  relearningSteps: [],
+  desiredRetention: null,
+  schedulingAlgorithm: 'FSRS',
+  newCardsPerDay: null,
+  reviewsPerDay: null,
+  createReverseCards: false,
   userId: 'user-1',
   createdAt: new Date(),
   updatedAt: new Date(),
@@ -60,10 +77,21 @@ const mockCards: Card[] = [
     reps: 1,
     lapses: 0,
     state: 'REVIEW',
+    learningStep: 0,
     lastReview: pastDate,
+    fsrsVersion: 'FSRS_4_5' as const,
+    schedulingAlgorithm: 'FSRS' as const,
     nextReviewDate: pastDate,
     lastNotificationSent: null,
     snoozedUntil: null,
+    suspendedAt: null,
+    buriedUntil: null,
+    type: 'BASIC' as const,
+    clozeIndex: null,
+    clozeGroupId: null,
+    noteId: null,
+    templateOrdinal: null,
+    reverseOfId: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date(),
   },
@@ -80,10 +108,21 @@ const mockCards: Card[] = [
     reps: 1,
     lapses: 0,
     state: 'REVIEW',
+    learningStep: 0,
     lastReview: pastDate,
+    fsrsVersion: 'FSRS_4_5' as const,
+    schedulingAlgorithm: 'FSRS' as const,
     nextReviewDate: pastDate,
     lastNotificationSent: null,
     snoozedUntil: null,
+    suspendedAt: null,
+    buriedUntil: null,
+    type: 'BASIC' as const,
+    clozeIndex: null,
+    clozeGroupId: null,
+    noteId: null,
+    templateOrdinal: null,
+    reverseOfId: null,
     createdAt: new Date('2024-01-02'),
     updatedAt: new Date(),
   },
@@ -100,10 +139,21 @@ const mockCards: Card[] = [
     reps: 1,
     lapses: 0,
     state: 'REVIEW',
+    learningStep: 0,
     lastReview: pastDate,
+    fsrsVersion: 'FSRS_4_5' as const,
+    schedulingAlgorithm: 'FSRS' as const,
     nextReviewDate: pastDate,
     lastNotificationSent: null,
     snoozedUntil: null,
+    suspendedAt: null,
+    buriedUntil: null,
+    type: 'BASIC' as const,
+    clozeIndex: null,
+    clozeGroupId: null,
+    noteId: null,
+    templateOrdinal: null,
+    reverseOfId: null,
     createdAt: new Date('2024-01-03'),
     updatedAt: new Date(),
   },
@@ -132,14 +182,40 @@ jest.mock('@/lib/prisma', () => ({
     },
     review: {
       create: jest.fn(),
+      update: jest.fn(),
+    },
+    tag: {
+      upsert: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    filteredDeck: {
+      findUnique: jest.fn(),
+    },
+    cardTag: {
+      createMany: jest.fn(),
     },
     $transaction: jest.fn(),
   },
 }));
 
+// Daily limits are covered in daily-limits.test.ts
+jest.mock('@/services/daily-limits', () => ({
+  ...jest.requireActual('@/services/daily-limits'),
+  getDailyAllowance: jest.fn(),
+}));
+
 import { prisma } from '@/lib/prisma';
+import { getDailyAllowance } from '@/services/daily-limits';
 
 const mockedPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockGetDailyAllowance = getDailyAllowance as jest.MockedFunction<
+  typeof getDailyAllowance
+>;
+
+const unlimitedAllowance = {
+  NEW: { total: 1000, byDeck: new Map<string, number>() },
+  REVIEW: { total: 1000, byDeck: new Map<string, number>() },
+};
 
 // Create test app
 function createTestApp() {
@@ -168,7 +244,10 @@ function createTestApp() {
       const { sprint, resumed } = await startSprint({
         userId: mockUser.id,
         deckId: req.body.deckId,
+        tagId: req.body.tagId,
+        filteredDeckId: req.body.filteredDeckId,
         source: req.body.source || 'HOME',
+        mode: req.body.mode,
       });
       res.status(resumed ? 200 : 201).json({
         sprint: formatSprintResponse(sprint),
@@ -183,6 +262,14 @@ function createTestApp() {
           },
         });
       }
+      if (error instanceof Error && error.message === 'DECK_REQUIRED') {
+        return res.status(400).json({
+          error: {
+            code: 'DECK_REQUIRED',
+            message: 'A deck, tag or filtered deck is required to cram',
+          },
+        });
+      }
       next(error);
     }
   });
@@ -195,7 +282,7 @@ function createTestApp() {
       );
       const sprint = await getSprintById(req.params.id, mockUser.id);
       res.json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, mockUser),
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -223,11 +310,12 @@ function createTestApp() {
       const { submitSprintReview, formatSprintResponse } = await import(
         '@/services/sprint-service'
       );
-      const { sprint, updatedCard } = await submitSprintReview({
+      const { sprint, updatedCard, leech } = await submitSprintReview({
         sprintId: req.params.id,
         userId: mockUser.id,
         cardId: req.body.cardId,
         rating: req.body.rating,
+        durationMs: req.body.durationMs,
       });
       res.json({
         sprint: formatSprintResponse(sprint),
@@ -236,6 +324,7 @@ function createTestApp() {
           nextReviewDate: updatedCard.nextReviewDate.toISOString(),
           state: updatedCard.state,
         },
+        leech,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -384,11 +473,12 @@ function createTestApp() {
       const { submitSprintReview, formatSprintResponse } = await import(
         '@/services/sprint-service'
       );
-      const { sprint, updatedCard } = await submitSprintReview({
+      const { sprint, updatedCard, leech } = await submitSprintReview({
         sprintId: req.params.id,
         userId: mockUser.id,
         cardId: req.body.cardId,
         rating: req.body.rating,
+        durationMs: req.body.durationMs,
       });
       res.json({
         sprint: formatSprintResponse(sprint),
@@ -397,6 +487,7 @@ function createTestApp() {
           nextReviewDate: updatedCard.nextReviewDate.toISOString(),
           state: updatedCard.state,
         },
+        leech,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -458,6 +549,7 @@ describe('Sprint Routes', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetDailyAllowance.mockResolvedValue(unlimitedAllowance);
     app = createTestApp();
   });
 
@@ -531,6 +623,137 @@ describe('Sprint Routes', () => {
       });
     });
 
+    it('holds back new cards beyond the daily limits', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+      });
+      mockGetDailyAllowance.mockResolvedValue({
+        ...unlimitedAllowance,
+        NEW: { total: 2, byDeck: new Map() },
+      });
+
+      // One new card is already waiting in an active sprint
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([
+        {
+          cardId: 'card-pending',
+          result: null,
+          card: {
+            id: 'card-pending',
+            state: 'NEW',
+            deckId: mockDeck.id,
+            clozeGroupId: null,
+            noteId: null,
+            reverseOfId: null,
+          },
+          sprint: { mode: 'REVIEW' },
+        },
+      ]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue(
+        mockCards.map((c) => ({
+          ...c,
+          state: 'NEW',
+          deck: {
+            id: mockDeck.id,
+            title: mockDeck.title,
+            priority: mockDeck.priority,
+          },
+        })),
+      );
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-1',
+        status: 'ACTIVE',
+        sprintCards: [],
+      });
+
+      await request(app).post('/api/sprints/start').send({ source: 'HOME' });
+
+      expect(mockedPrisma.sprint.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            sprintCards: { create: [{ cardId: 'card-1', order: 1 }] },
+          }),
+        }),
+      );
+    });
+
+    it('keeps siblings out of the same sprint and of active sprints', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+      });
+
+      // The reverse of card-3 is waiting in an active sprint
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([
+        {
+          cardId: 'card-3-reverse',
+          result: null,
+          card: {
+            id: 'card-3-reverse',
+            state: 'NEW',
+            deckId: mockDeck.id,
+            clozeGroupId: null,
+            noteId: null,
+            reverseOfId: 'card-3',
+          },
+          sprint: { mode: 'REVIEW' },
+        },
+      ]);
+      // card-1 and card-2 are cards of the same cloze text
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue(
+        mockCards.map((c) => ({
+          ...c,
+          clozeGroupId: c.id === 'card-3' ? null : 'group-1',
+          deck: {
+            id: mockDeck.id,
+            title: mockDeck.title,
+            priority: mockDeck.priority,
+          },
+        })),
+      );
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-1',
+        status: 'ACTIVE',
+        sprintCards: [],
+      });
+
+      await request(app).post('/api/sprints/start').send({ source: 'HOME' });
+
+      expect(mockedPrisma.sprint.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            sprintCards: { create: [{ cardId: 'card-1', order: 1 }] },
+          }),
+        }),
+      );
+    });
+
+    it('skips new cards once the daily new card limit is used up', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+      });
+      mockGetDailyAllowance.mockResolvedValue({
+        ...unlimitedAllowance,
+        NEW: { total: 0, byDeck: new Map() },
+      });
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ source: 'HOME' });
+
+      expect(response.status).toBe(404);
+      expect(mockedPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: expect.arrayContaining([{ NOT: { state: 'NEW' } }]),
+          }),
+        }),
+      );
+    });
+
     it('returns existing resumable sprint', async () => {
       const resumableUntil = new Date(now.getTime() + 15 * 60000); // 15 min from now
 
@@ -666,6 +889,270 @@ describe('Sprint Routes', () => {
       expect(response.body.sprint.deckId).toBe('deck-1');
       expect(response.body.sprint.source).toBe('DECK');
     });
+
+    it('creates a cram sprint from cards of the deck that are not due', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+        timezone: 'UTC',
+      });
+      // card-3 is in an active sprint, card-2 was passed in a cram sprint today
+      (mockedPrisma.sprintCard.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ cardId: 'card-3' }])
+        .mockResolvedValueOnce([{ cardId: 'card-2' }]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        { id: 'card-1' },
+      ]);
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-cram',
+        userId: 'user-1',
+        deckId: 'deck-1',
+        status: 'ACTIVE',
+        source: 'DECK',
+        mode: 'CRAM',
+        createdAt: now,
+        startedAt: now,
+        completedAt: null,
+        resumableUntil: new Date(now.getTime() + 30 * 60000),
+        abandonedAt: null,
+        deck: { id: mockDeck.id, title: mockDeck.title },
+        sprintCards: [
+          {
+            id: 'sc-1',
+            order: 1,
+            result: null,
+            card: {
+              ...mockCards[0],
+              nextReviewDate: new Date(now.getTime() + 7 * 86400000),
+              deck: { id: mockDeck.id, title: mockDeck.title },
+            },
+          },
+        ],
+      });
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ deckId: 'deck-1', source: 'DECK', mode: 'CRAM' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.sprint.mode).toBe('CRAM');
+      expect(mockedPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deck: { userId: 'user-1', id: 'deck-1' },
+            suspendedAt: null,
+            id: { notIn: ['card-3', 'card-2'] },
+          },
+        }),
+      );
+      expect(mockedPrisma.sprint.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            mode: 'CRAM',
+            sprintCards: { create: [{ cardId: 'card-1', order: 1 }] },
+          }),
+        }),
+      );
+      // Daily limits don't apply to cramming
+      expect(mockGetDailyAllowance).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for a cram sprint without a deck', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ mode: 'CRAM' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('DECK_REQUIRED');
+      expect(mockedPrisma.sprint.create).not.toHaveBeenCalled();
+    });
+
+    it('creates a sprint from due cards with a tag across decks', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.tag.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        name: 'networking',
+      });
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+      });
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...mockCards[0],
+          deck: {
+            id: mockDeck.id,
+            title: mockDeck.title,
+            priority: mockDeck.priority,
+          },
+        },
+      ]);
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-tag',
+        userId: 'user-1',
+        deckId: null,
+        status: 'ACTIVE',
+        source: 'HOME',
+        createdAt: now,
+        startedAt: now,
+        completedAt: null,
+        resumableUntil: new Date(now.getTime() + 30 * 60000),
+        abandonedAt: null,
+        deck: null,
+        sprintCards: [],
+      });
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ tagId: 'tag-1' });
+
+      expect(response.status).toBe(201);
+      const { where } = (mockedPrisma.card.findMany as jest.Mock).mock
+        .calls[0][0];
+      expect(where.deck).toEqual({ userId: 'user-1' });
+      expect(where.AND).toContainEqual({
+        cardTags: {
+          some: {
+            tag: {
+              userId: 'user-1',
+              OR: [
+                { name: 'networking' },
+                { name: { startsWith: 'networking::' } },
+              ],
+            },
+          },
+        },
+      });
+      expect(mockedPrisma.sprint.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ deckId: null }),
+        }),
+      );
+    });
+
+    it('creates a cram sprint from cards with a tag', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.tag.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        name: 'networking',
+      });
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+        timezone: 'UTC',
+      });
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        { id: 'card-1' },
+      ]);
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-cram',
+        userId: 'user-1',
+        deckId: null,
+        status: 'ACTIVE',
+        source: 'HOME',
+        mode: 'CRAM',
+        createdAt: now,
+        startedAt: now,
+        completedAt: null,
+        resumableUntil: new Date(now.getTime() + 30 * 60000),
+        abandonedAt: null,
+        deck: null,
+        sprintCards: [],
+      });
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ tagId: 'tag-1', mode: 'CRAM' });
+
+      expect(response.status).toBe(201);
+      expect(mockedPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deck: { userId: 'user-1', id: undefined },
+            AND: [expect.objectContaining({ cardTags: expect.anything() })],
+          }),
+        }),
+      );
+    });
+
+    it('creates a cram sprint from the cards of a filtered deck', async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        id: 'filtered-1',
+        userId: 'user-1',
+        title: 'CS leeches',
+        query: null,
+        deckId: 'deck-1',
+        tagId: null,
+        state: null,
+        minLapses: 3,
+        dueWithinDays: null,
+      });
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+        timezone: 'UTC',
+      });
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([]);
+      (mockedPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        { id: 'card-1' },
+      ]);
+      (mockedPrisma.sprint.create as jest.Mock).mockResolvedValue({
+        id: 'sprint-cram',
+        userId: 'user-1',
+        deckId: null,
+        status: 'ACTIVE',
+        source: 'HOME',
+        mode: 'CRAM',
+        createdAt: now,
+        startedAt: now,
+        completedAt: null,
+        resumableUntil: new Date(now.getTime() + 30 * 60000),
+        abandonedAt: null,
+        deck: null,
+        sprintCards: [],
+      });
+
+      const response = await request(app)
+        .post('/api/sprints/start')
+        .send({ filteredDeckId: 'filtered-1', mode: 'CRAM' });
+
+      expect(response.status).toBe(201);
+      const { where } = (mockedPrisma.card.findMany as jest.Mock).mock
+        .calls[0][0];
+      expect(where.AND).toEqual([
+        {
+          AND: [
+            { deck: { userId: 'user-1', isOnboardingFixture: false } },
+            {
+              deck: { OR: [{ id: 'deck-1' }, { parentDeckId: 'deck-1' }] },
+            },
+            { lapses: { gte: 3 } },
+          ],
+        },
+      ]);
+    });
+
+    it("rejects another user's filtered deck", async () => {
+      (mockedPrisma.sprint.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        id: 'filtered-1',
+        userId: 'user-2',
+      });
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        sprintSize: 5,
+        timezone: 'UTC',
+      });
+      (mockedPrisma.sprintCard.findMany as jest.Mock).mockResolvedValue([]);
+
+      await request(app)
+        .post('/api/sprints/start')
+        .send({ filteredDeckId: 'filtered-1', mode: 'CRAM' });
+
+      expect(mockedPrisma.card.findMany).not.toHaveBeenCalled();
+      expect(mockedPrisma.sprint.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/sprints/:id', () => {
@@ -706,6 +1193,62 @@ describe('Sprint Routes', () => {
       expect(response.body.sprint.status).toBe('ACTIVE');
     });
 
+    it('returns recall probability and interval preview for each card', async () => {
+      (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue({
+        id: 'sprint-1',
+        userId: 'user-1',
+        deckId: null,
+        status: 'ACTIVE',
+        source: 'HOME',
+        createdAt: now,
+        startedAt: now,
+        completedAt: null,
+        resumableUntil: new Date(now.getTime() + 15 * 60000),
+        abandonedAt: null,
+        deck: null,
+        sprintCards: [
+          {
+            id: 'sc-1',
+            order: 1,
+            result: null,
+            card: {
+              ...mockCards[0],
+              deck: { id: mockDeck.id, title: mockDeck.title },
+            },
+          },
+          {
+            id: 'sc-2',
+            order: 2,
+            result: null,
+            card: {
+              ...mockCards[0],
+              id: 'card-new',
+              state: 'NEW',
+              stability: 0,
+              reps: 0,
+              lastReview: null,
+              deck: { id: mockDeck.id, title: mockDeck.title },
+            },
+          },
+        ],
+      });
+
+      const response = await request(app).get('/api/sprints/sprint-1');
+
+      expect(response.status).toBe(200);
+      const [reviewCard, newCard] = response.body.sprint.cards;
+      expect(reviewCard.card.retrievability).toBeGreaterThan(0);
+      expect(reviewCard.card.retrievability).toBeLessThan(1);
+      expect(newCard.card.retrievability).toBeNull();
+
+      const preview = reviewCard.card.intervalPreview;
+      // AGAIN uses the first relearning step (1 minute by default)
+      expect(preview.AGAIN).toBe(1);
+      expect(preview.HARD).toBeLessThanOrEqual(preview.GOOD);
+      expect(preview.GOOD).toBeLessThanOrEqual(preview.EASY);
+      expect(newCard.card.intervalPreview.AGAIN).toBe(1);
+    });
+
     it('returns 404 for non-existent sprint', async () => {
       (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(null);
 
@@ -932,6 +1475,40 @@ describe('Sprint Routes', () => {
       expect(response.body.updatedCard.nextReviewDate).toBeDefined();
     });
 
+    it('logs the review with its sprint, duration and before/after state', async () => {
+      (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(
+        activeSprint,
+      );
+      (mockedPrisma.$transaction as jest.Mock).mockResolvedValue([
+        { id: 'review-1' },
+        { ...mockCards[0], state: 'REVIEW' },
+        { id: 'sc-1', result: 'PASS' },
+        activeSprint,
+      ]);
+
+      const response = await request(app)
+        .post('/api/sprints/sprint-1/review')
+        .send({ cardId: 'card-1', rating: 'GOOD', durationMs: 3500 });
+
+      expect(response.status).toBe(200);
+      expect(mockedPrisma.review.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardId: 'card-1',
+          userId: 'user-1',
+          rating: 'GOOD',
+          sprintId: 'sprint-1',
+          durationMs: 3500,
+          stateBefore: 'REVIEW',
+          stabilityBefore: mockCards[0].stability,
+          repsBefore: 1,
+          lastReviewBefore: mockCards[0].lastReview,
+          nextReviewDateBefore: mockCards[0].nextReviewDate,
+          stateAfter: 'REVIEW',
+          nextReviewDate: expect.any(Date),
+        }),
+      });
+    });
+
     it('returns 404 for non-existent sprint', async () => {
       (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(null);
 
@@ -1112,6 +1689,115 @@ describe('Sprint Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body.sprint.resumableUntil).toBeDefined();
     });
+
+    it("applies the user's leech action when a lapse reaches the threshold", async () => {
+      (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(
+        activeSprint,
+      );
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        leechThreshold: 1,
+        leechAction: 'TAG_AND_SUSPEND',
+      });
+      (mockedPrisma.tag.upsert as jest.Mock).mockResolvedValue({ id: 'tag-1' });
+      (mockedPrisma.cardTag.createMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      (mockedPrisma.card.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      (mockedPrisma.$transaction as jest.Mock).mockResolvedValue([
+        { id: 'review-1' },
+        { ...mockCards[0], state: 'RELEARNING', lapses: 1 },
+        { id: 'sc-1', result: 'FAIL' },
+        activeSprint,
+      ]);
+
+      const response = await request(app)
+        .post('/api/sprints/sprint-1/review')
+        .send({ cardId: 'card-1', rating: 'AGAIN' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.leech).toBe(true);
+      expect(mockedPrisma.cardTag.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [{ cardId: 'card-1', tagId: 'tag-1' }],
+        }),
+      );
+      expect(mockedPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-1', suspendedAt: null },
+        data: { suspendedAt: expect.any(Date) },
+      });
+      expect(mockedPrisma.review.update).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+        data: { leechTagged: true, leechSuspended: true },
+      });
+    });
+
+    it('does not report a leech below the threshold', async () => {
+      (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(
+        activeSprint,
+      );
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        leechThreshold: 8,
+        leechAction: 'TAG',
+      });
+      (mockedPrisma.$transaction as jest.Mock).mockResolvedValue([
+        { id: 'review-1' },
+        { ...mockCards[0], state: 'RELEARNING', lapses: 1 },
+        { id: 'sc-1', result: 'FAIL' },
+        activeSprint,
+      ]);
+
+      const response = await request(app)
+        .post('/api/sprints/sprint-1/review')
+        .send({ cardId: 'card-1', rating: 'AGAIN' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.leech).toBe(false);
+      expect(mockedPrisma.tag.upsert).not.toHaveBeenCalled();
+    });
+
+    it("leaves the card's schedule untouched in a cram sprint", async () => {
+      const cramSprint = { ...activeSprint, mode: 'CRAM' };
+      (mockedPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(
+        cramSprint,
+      );
+      (mockedPrisma.$transaction as jest.Mock).mockResolvedValue([
+        { id: 'sc-1', result: 'FAIL' },
+        {
+          ...cramSprint,
+          sprintCards: [
+            { ...cramSprint.sprintCards[0], result: 'FAIL' },
+            cramSprint.sprintCards[1],
+          ],
+        },
+      ]);
+
+      const response = await request(app)
+        .post('/api/sprints/sprint-1/review')
+        .send({ cardId: 'card-1', rating: 'AGAIN', durationMs: 4000 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.sprint.progress.reviewed).toBe(1);
+      // Ratings don't reschedule the card, so there are no intervals
+      expect(response.body.sprint.cards[0].card.intervalPreview).toBeNull();
+      expect(response.body.updatedCard).toEqual({
+        id: 'card-1',
+        nextReviewDate: mockCards[0].nextReviewDate.toISOString(),
+        state: 'REVIEW',
+      });
+      expect(mockedPrisma.sprintCard.update).toHaveBeenCalledWith({
+        where: { id: 'sc-1' },
+        data: {
+          result: 'FAIL',
+          durationMs: 4000,
+          cardState: 'REVIEW',
+        },
+      });
+      expect(mockedPrisma.card.update).not.toHaveBeenCalled();
+      expect(mockedPrisma.review.create).not.toHaveBeenCalled();
+      expect(response.body.leech).toBe(false);
+    });
   });
 
   describe('POST /api/sprints/:id/complete', () => {
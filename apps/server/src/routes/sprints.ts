@@ -22,6 +22,7 @@ import {
   abandonSprint,
   formatSprintResponse,
 } from '@/services/sprint-service';
+import { getUndoableUntil, undoLastReview } from '@/services/review-undo';
 
 const router: RouterType = Router();
 
@@ -34,7 +35,14 @@ const router: RouterType = Router();
  *
  * Request body:
  * - deckId?: string - Optional deck constraint
+ * - tagId?: string - Optional tag constraint (cards with the tag or one of
+ *   its descendants, from any deck unless deckId is given)
+ * - filteredDeckId?: string - Optional filtered deck constraint (cards
+ *   matching its saved search)
  * - source?: 'HOME' | 'DECK' | 'PUSH' - Where the sprint originated
+ * - mode?: 'REVIEW' | 'CRAM' - CRAM reviews the cards of a deck, tag or
+ *   filtered deck whether due or not, without changing their schedules
+ *   (requires deckId, tagId or filteredDeckId)
  *
  * Response:
  * - sprint: SprintDTO
@@ -46,17 +54,21 @@ router.post(
   validate({ body: createSprintSchema }),
   asyncHandler(async (req, res) => {
     const user = req.user!;
-    const { deckId, source } = req.validated!.body as CreateSprintInput;
+    const { deckId, tagId, filteredDeckId, source, mode } = req.validated!
+      .body as CreateSprintInput;
 
     try {
       const { sprint, resumed } = await startSprint({
         userId: user.id,
         deckId,
+        tagId,
+        filteredDeckId,
         source,
+        mode,
       });
 
       res.status(resumed ? 200 : 201).json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, user),
         resumed,
       });
     } catch (error) {
@@ -64,7 +76,42 @@ router.post(
         throw new ApiError(
           404,
           'NO_ELIGIBLE_CARDS',
-          'No cards are due for review',
+          mode === 'CRAM'
+            ? 'No cards are left to cram'
+            : 'No cards are due for review',
+        );
+      }
+      if (error instanceof Error && error.message === 'TAG_NOT_FOUND') {
+        throw new ApiError(404, 'NOT_FOUND', 'Tag not found');
+      }
+      if (error instanceof Error && error.message === 'TAG_NOT_OWNED') {
+        throw new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to use this tag',
+        );
+      }
+      if (
+        error instanceof Error &&
+        error.message === 'FILTERED_DECK_NOT_FOUND'
+      ) {
+        throw new ApiError(404, 'NOT_FOUND', 'Filtered deck not found');
+      }
+      if (
+        error instanceof Error &&
+        error.message === 'FILTERED_DECK_NOT_OWNED'
+      ) {
+        throw new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to use this filtered deck',
+        );
+      }
+      if (error instanceof Error && error.message === 'DECK_REQUIRED') {
+        throw new ApiError(
+          400,
+          'DECK_REQUIRED',
+          'A deck, tag or filtered deck is required to cram',
         );
       }
       throw error;
@@ -93,7 +140,7 @@ router.get(
       const sprint = await getSprintById(id, user.id);
 
       res.json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, user),
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -121,10 +168,16 @@ router.get(
  * Request body:
  * - cardId: string - The card to review
  * - rating: 'AGAIN' | 'HARD' | 'GOOD' | 'EASY' - The grade
+ * - durationMs?: number - Time taken to answer, in milliseconds
+ * - timeToRevealMs?: number - Time until the answer was revealed
+ * - timeToRateMs?: number - Time from revealing the answer until rating
  *
  * Response:
  * - sprint: SprintDTO (updated)
  * - updatedCard: { id, nextReviewDate, state }
+ * - undoableUntil: ISO timestamp until which the review can be undone
+ *   (null in cram sprints, whose reviews don't change the card)
+ * - leech: true if the review turned the card into a leech
  */
 router.post(
   '/:id/review',
@@ -133,23 +186,32 @@ router.post(
   asyncHandler(async (req, res) => {
     const user = req.user!;
     const { id: sprintId } = req.params;
-    const { cardId, rating } = req.validated!.body as SubmitSprintReviewInput;
+    const { cardId, rating, durationMs, timeToRevealMs, timeToRateMs } = req
+      .validated!.body as SubmitSprintReviewInput;
 
     try {
-      const { sprint, updatedCard } = await submitSprintReview({
-        sprintId,
-        userId: user.id,
-        cardId,
-        rating,
-      });
+      const { sprint, updatedCard, reviewedAt, leech } =
+        await submitSprintReview({
+          sprintId,
+          userId: user.id,
+          cardId,
+          rating,
+          durationMs,
+          timeToRevealMs,
+          timeToRateMs,
+        });
 
       res.json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, user),
         updatedCard: {
           id: updatedCard.id,
           nextReviewDate: updatedCard.nextReviewDate.toISOString(),
           state: updatedCard.state,
         },
+        undoableUntil: reviewedAt
+          ? getUndoableUntil(reviewedAt).toISOString()
+          : null,
+        leech,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -193,6 +255,80 @@ router.post(
   }),
 );
 
+/**
+ * POST /api/sprints/:id/undo - Undo the last review in a sprint
+ *
+ * Restores the card's previous scheduling state, deletes the review and
+ * clears the sprint card's result so it can be re-rated. A completed sprint
+ * is reopened. Only allowed within the undo window after the review.
+ *
+ * Response:
+ * - sprint: SprintDTO (updated)
+ * - undoneCardId: string
+ */
+router.post(
+  '/:id/undo',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { id: sprintId } = req.params;
+
+    try {
+      const { card } = await undoLastReview({ userId: user.id, sprintId });
+      const sprint = await getSprintById(sprintId, user.id);
+
+      res.json({
+        sprint: formatSprintResponse(sprint, user),
+        undoneCardId: card.id,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'SPRINT_NOT_FOUND':
+            throw new ApiError(404, 'SPRINT_NOT_FOUND', 'Sprint not found');
+          case 'SPRINT_NOT_OWNED':
+            throw new ApiError(
+              403,
+              'FORBIDDEN',
+              'You do not have permission to access this sprint',
+            );
+          case 'NO_REVIEW_TO_UNDO':
+            throw new ApiError(
+              404,
+              'NO_REVIEW_TO_UNDO',
+              'There is no review to undo in this sprint',
+            );
+          case 'UNDO_WINDOW_EXPIRED':
+            throw new ApiError(
+              409,
+              'UNDO_WINDOW_EXPIRED',
+              'The last review is too old to undo',
+            );
+          case 'UNDO_NOT_AVAILABLE':
+            throw new ApiError(
+              409,
+              'UNDO_NOT_AVAILABLE',
+              'The last review cannot be undone',
+            );
+          case 'SPRINT_NOT_ACTIVE':
+            throw new ApiError(
+              409,
+              'SPRINT_NOT_ACTIVE',
+              'Reviews in an abandoned sprint cannot be undone',
+            );
+          case 'ACTIVE_SPRINT_EXISTS':
+            throw new ApiError(
+              409,
+              'CONFLICT',
+              'Finish or abandon your active sprint before undoing a review of a completed one',
+            );
+        }
+      }
+      throw error;
+    }
+  }),
+);
+
 /**
  * POST /api/sprints/:id/complete - Complete a sprint
  *
@@ -214,7 +350,7 @@ router.post(
       const { sprint, stats } = await completeSprint(sprintId, user.id);
 
       res.json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, user),
         stats,
       });
     } catch (error) {
@@ -277,7 +413,7 @@ router.post(
       );
 
       res.json({
-        sprint: formatSprintResponse(sprint),
+        sprint: formatSprintResponse(sprint, user),
         snoozedCardCount,
       });
     } catch (error) {
@@ -0,0 +1,148 @@
+/**
+ * Tag Routes
+ *
+ * Tags group cards across decks. Cards are tagged through
+ * /api/cards/:id/tags; GET /api/cards and sprints can be filtered by tag.
+ * Tag names are paths (`lang::spanish::verbs`); renaming or deleting a tag
+ * applies to its descendants too.
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { requireUser } from '@/middlewares/auth';
+import { validate } from '@/middlewares/validate';
+import { asyncHandler, ApiError } from '@/middlewares/error-handler';
+import {
+  createTagSchema,
+  updateTagSchema,
+  type CreateTagInput,
+  type UpdateTagInput,
+} from '@/lib/validation';
+import {
+  createTag,
+  deleteTag,
+  listTags,
+  getTagTree,
+  renameTag,
+  type TagWithCardCount,
+} from '@/services/tags';
+
+const router: RouterType = Router();
+
+/**
+ * Map tags service errors to API errors.
+ */
+function toTagApiError(error: unknown): unknown {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'TAG_NOT_FOUND':
+        return new ApiError(404, 'NOT_FOUND', 'Tag not found');
+      case 'TAG_NOT_OWNED':
+        return new ApiError(
+          403,
+          'FORBIDDEN',
+          'You do not have permission to access this tag',
+        );
+      case 'TAG_EXISTS':
+        return new ApiError(
+          409,
+          'CONFLICT',
+          'You already have a tag with this name',
+        );
+    }
+  }
+  return error;
+}
+
+/**
+ * Format a tag for API responses.
+ */
+function formatTag(tag: TagWithCardCount) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    cardCount: tag._count.cardTags,
+    createdAt: tag.createdAt.toISOString(),
+  };
+}
+
+// GET /api/tags - List tags with their card counts
+router.get(
+  '/',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const tags = await listTags(user.id);
+
+    res.json({ tags: tags.map(formatTag), total: tags.length });
+  }),
+);
+
+// GET /api/tags/tree - Tags as a tree by `::` levels, with the card and due
+// counts of every subtree
+router.get(
+  '/tree',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    const tree = await getTagTree(user.id);
+
+    res.json({ tree });
+  }),
+);
+
+// POST /api/tags - Create a tag and its missing ancestors
+router.post(
+  '/',
+  requireUser,
+  validate({ body: createTagSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { name } = req.validated!.body as CreateTagInput;
+
+    try {
+      const tag = await createTag(user.id, name);
+      res.status(201).json({ tag: formatTag(tag) });
+    } catch (error) {
+      throw toTagApiError(error);
+    }
+  }),
+);
+
+// PATCH /api/tags/:id - Rename or move a tag along with its descendants
+router.patch(
+  '/:id',
+  requireUser,
+  validate({ body: updateTagSchema }),
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+    const { name } = req.validated!.body as UpdateTagInput;
+
+    try {
+      const tag = await renameTag(user.id, req.params.id, name);
+      res.json({ tag: formatTag(tag) });
+    } catch (error) {
+      throw toTagApiError(error);
+    }
+  }),
+);
+
+// DELETE /api/tags/:id - Delete a tag and its descendants, removing them from
+// their cards
+router.delete(
+  '/:id',
+  requireUser,
+  asyncHandler(async (req, res) => {
+    const user = req.user!;
+
+    try {
+      await deleteTag(user.id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      throw toTagApiError(error);
+    }
+  }),
+);
+
+export default router;
@@ -0,0 +1,107 @@
+import {
+  availableCardConditions,
+  buryCard,
+  suspendCard,
+  unburyCard,
+  unsuspendCard,
+} from '../card-availability';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Card Availability Service', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const select = { id: true, suspendedAt: true, buriedUntil: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({
+      deck: { userId: 'user-1' },
+    });
+  });
+
+  describe('availableCardConditions', () => {
+    it('should exclude snoozed, suspended and buried cards', () => {
+      expect(availableCardConditions(now)).toEqual([
+        { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+        { suspendedAt: null },
+        { OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }] },
+      ]);
+    });
+  });
+
+  describe('ownership', () => {
+    it('should throw CARD_NOT_FOUND for unknown cards', async () => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(suspendCard('user-1', 'card-1', now)).rejects.toThrow(
+        'CARD_NOT_FOUND',
+      );
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should throw CARD_NOT_OWNED for another user's card", async () => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({
+        deck: { userId: 'user-2' },
+      });
+
+      await expect(unburyCard('user-1', 'card-1')).rejects.toThrow(
+        'CARD_NOT_OWNED',
+      );
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suspendCard', () => {
+    it('should only set the suspension time of unsuspended cards', async () => {
+      await suspendCard('user-1', 'card-1', now);
+
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-1', suspendedAt: null },
+        data: { suspendedAt: now },
+      });
+      expect(mockPrisma.card.findUniqueOrThrow).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        select,
+      });
+    });
+  });
+
+  describe('unsuspendCard', () => {
+    it('should clear the suspension', async () => {
+      await unsuspendCard('user-1', 'card-1');
+
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: { suspendedAt: null },
+        select,
+      });
+    });
+  });
+
+  describe('buryCard', () => {
+    it('should bury the card until the given time', async () => {
+      const until = new Date('2025-01-02T00:00:00Z');
+
+      await buryCard('user-1', 'card-1', until);
+
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: { buriedUntil: until },
+        select,
+      });
+    });
+  });
+});
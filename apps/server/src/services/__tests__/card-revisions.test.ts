@@ -0,0 +1,198 @@
+import {
+  diffCardRevisions,
+  diffLines,
+  getEditSource,
+  MAX_REVISIONS_PER_CARD,
+  recordCardRevision,
+} from '../card-revisions';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      findUnique: jest.fn(),
+    },
+    cardRevision: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const createdAt = new Date('2025-01-01T12:00:00Z');
+const card = {
+  id: 'card-1',
+  front: 'Capital of France?',
+  back: 'Paris',
+  createdAt,
+};
+
+describe('Card Revisions Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.cardRevision.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('getEditSource', () => {
+    it('should recognize the apps and default to API', () => {
+      expect(getEditSource('mobile')).toBe('MOBILE');
+      expect(getEditSource(' Desktop ')).toBe('DESKTOP');
+      expect(getEditSource('curl')).toBe('API');
+      expect(getEditSource(undefined)).toBe('API');
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark removed, added and unchanged lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'equal', text: 'c' },
+        { type: 'added', text: 'd' },
+      ]);
+    });
+
+    it('should treat empty text as no lines', () => {
+      expect(diffLines('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+    });
+
+    it('should replace the changed lines of texts too long to match up', () => {
+      const lines = (prefix: string) =>
+        Array.from({ length: 1000 }, (_, index) => `${prefix}${index}`);
+      const before = ['start', ...lines('old '), 'end'].join('\n');
+      const after = ['start', ...lines('new '), 'end'].join('\n');
+
+      const diff = diffLines(before, after);
+
+      expect(diff).toHaveLength(2002);
+      expect(diff[0]).toEqual({ type: 'equal', text: 'start' });
+      expect(diff[1]).toEqual({ type: 'removed', text: 'old 0' });
+      expect(diff[1001]).toEqual({ type: 'added', text: 'new 0' });
+      expect(diff[2001]).toEqual({ type: 'equal', text: 'end' });
+    });
+  });
+
+  describe('recordCardRevision', () => {
+    it('should keep the text the card was created with on the first edit', async () => {
+      (mockPrisma.cardRevision.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.cardRevision.create as jest.Mock).mockResolvedValueOnce({
+        id: 'rev-original',
+      });
+
+      await recordCardRevision(
+        card,
+        { front: card.front, back: 'Paris (since 508)' },
+        'MOBILE',
+      );
+
+      expect(mockPrisma.cardRevision.create).toHaveBeenNthCalledWith(1, {
+        data: {
+          cardId: 'card-1',
+          front: 'Capital of France?',
+          back: 'Paris',
+          source: null,
+          createdAt,
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.cardRevision.create).toHaveBeenNthCalledWith(2, {
+        data: {
+          cardId: 'card-1',
+          front: 'Capital of France?',
+          back: 'Paris (since 508)',
+          source: 'MOBILE',
+          restoredFromId: null,
+        },
+      });
+    });
+
+    it('should only add the new text once there is history', async () => {
+      (mockPrisma.cardRevision.findFirst as jest.Mock).mockResolvedValue({
+        id: 'rev-1',
+      });
+
+      await recordCardRevision(card, { ...card, back: 'Paris!' }, 'DESKTOP');
+
+      expect(mockPrisma.cardRevision.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prune revisions beyond the limit but keep the original', async () => {
+      (mockPrisma.cardRevision.findFirst as jest.Mock).mockResolvedValue({
+        id: 'rev-1',
+      });
+      (mockPrisma.cardRevision.findMany as jest.Mock).mockResolvedValue([
+        { id: 'rev-old' },
+      ]);
+
+      await recordCardRevision(card, { ...card, back: 'Paris!' }, 'DESKTOP');
+
+      expect(mockPrisma.cardRevision.findFirst).toHaveBeenCalledWith({
+        where: { cardId: 'card-1' },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+      expect(mockPrisma.cardRevision.findMany).toHaveBeenCalledWith({
+        where: { cardId: 'card-1', id: { not: 'rev-1' } },
+        orderBy: { createdAt: 'desc' },
+        skip: MAX_REVISIONS_PER_CARD - 1,
+        select: { id: true },
+      });
+      expect(mockPrisma.cardRevision.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['rev-old'] } },
+      });
+    });
+
+    it('should ignore edits that leave the text unchanged', async () => {
+      await recordCardRevision(card, card, 'API');
+
+      expect(mockPrisma.cardRevision.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffCardRevisions', () => {
+    beforeEach(() => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({
+        ...card,
+        back: 'Paris\nPop. 2.1 million',
+        deck: { userId: 'user-1' },
+      });
+    });
+
+    it('should diff a revision against the current text', async () => {
+      (mockPrisma.cardRevision.findUnique as jest.Mock).mockResolvedValue({
+        id: 'rev-1',
+        cardId: 'card-1',
+        front: card.front,
+        back: 'Paris',
+      });
+
+      const diff = await diffCardRevisions('user-1', 'card-1', 'rev-1');
+
+      expect(diff.front).toEqual([
+        { type: 'equal', text: 'Capital of France?' },
+      ]);
+      expect(diff.back).toEqual([
+        { type: 'equal', text: 'Paris' },
+        { type: 'added', text: 'Pop. 2.1 million' },
+      ]);
+    });
+
+    it('should reject revisions of other cards', async () => {
+      (mockPrisma.cardRevision.findUnique as jest.Mock).mockResolvedValue({
+        id: 'rev-9',
+        cardId: 'card-9',
+      });
+
+      await expect(
+        diffCardRevisions('user-1', 'card-1', 'rev-9'),
+      ).rejects.toThrow('REVISION_NOT_FOUND');
+    });
+  });
+});
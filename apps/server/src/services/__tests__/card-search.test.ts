@@ -0,0 +1,189 @@
+import {
+  MAX_SEARCH_WORDS,
+  parseHeadline,
+  searchCards,
+  toSearchQuery,
+} from '../card-search';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    tag: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const page = { limit: 20, offset: 0 };
+
+/**
+ * Get the SQL text of a tagged $queryRaw call, with nested fragments
+ * inlined and their values left as placeholders.
+ */
+function queryText(call: unknown[]): string {
+  const [strings, ...values] = call as [TemplateStringsArray, ...unknown[]];
+  return strings.reduce((sql, part, index) => {
+    const value = values[index - 1] as { sql?: string } | undefined;
+    return sql + (value?.sql ?? '?') + part;
+  });
+}
+
+describe('Card Search Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toSearchQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(toSearchQuery('Capital of Fr')).toBe('capital:* & of:* & fr:*');
+    });
+
+    it('should split words on punctuation and drop tsquery operators', () => {
+      expect(toSearchQuery("it's (a|b) & !c:*")).toBe(
+        'it:* & s:* & a:* & b:* & c:*',
+      );
+    });
+
+    it('should keep letters of any script and digits', () => {
+      expect(toSearchQuery('Ñandú 42 日本')).toBe('ñandú:* & 42:* & 日本:*');
+    });
+
+    it('should return null without words', () => {
+      expect(toSearchQuery('  ?! ')).toBeNull();
+    });
+
+    it('should use at most MAX_SEARCH_WORDS words', () => {
+      const text = Array.from({ length: 15 }, (_, i) => `w${i}`).join(' ');
+
+      expect(toSearchQuery(text)!.split(' & ')).toHaveLength(MAX_SEARCH_WORDS);
+    });
+  });
+
+  describe('parseHeadline', () => {
+    it('should split matches from the surrounding text', () => {
+      expect(
+        parseHeadline('The \uE000capital\uE001 of \uE000France\uE001'),
+      ).toEqual([
+        { text: 'The ', match: false },
+        { text: 'capital', match: true },
+        { text: ' of ', match: false },
+        { text: 'France', match: true },
+      ]);
+    });
+
+    it('should return text without matches as one part', () => {
+      expect(parseHeadline('Paris')).toEqual([{ text: 'Paris', match: false }]);
+    });
+
+    it('should return no parts for empty text', () => {
+      expect(parseHeadline('')).toEqual([]);
+    });
+  });
+
+  describe('searchCards', () => {
+    it('should not query without search words', async () => {
+      const result = await searchCards('user-1', '...', {}, page);
+
+      expect(result).toEqual({ hits: [], total: 0 });
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should return ranked hits with snippets and the total', async () => {
+      (mockPrisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([
+          {
+            id: 'card-1',
+            rank: 0.6,
+            front: 'What is the \uE000capital\uE001?',
+            back: 'Paris',
+          },
+        ])
+        .mockResolvedValueOnce([{ total: 7 }]);
+
+      const result = await searchCards('user-1', 'capital', {}, page);
+
+      expect(result).toEqual({
+        hits: [
+          {
+            cardId: 'card-1',
+            rank: 0.6,
+            snippets: {
+              front: [
+                { text: 'What is the ', match: false },
+                { text: 'capital', match: true },
+                { text: '?', match: false },
+              ],
+              back: [{ text: 'Paris', match: false }],
+            },
+          },
+        ],
+        total: 7,
+      });
+      const [pageQuery] = (mockPrisma.$queryRaw as jest.Mock).mock.calls;
+      expect(pageQuery).toEqual(expect.arrayContaining(['capital:*']));
+    });
+
+    it('should only add the conditions of the given filters', async () => {
+      (mockPrisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+
+      await searchCards('user-1', 'capital', {}, page);
+
+      const countQuery = queryText(
+        (mockPrisma.$queryRaw as jest.Mock).mock.calls[1],
+      );
+      expect(countQuery).toContain('"searchVector" @@ query');
+      expect(countQuery).not.toContain('c."deckId" =');
+      expect(countQuery).not.toContain('"CardTag"');
+      expect(countQuery).not.toContain('c."state" =');
+      expect(countQuery).not.toContain('"nextReviewDate"');
+    });
+
+    it('should filter by deck, tag subtree, state and due status', async () => {
+      (mockPrisma.tag.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        name: 'geo',
+      });
+      (mockPrisma.tag.findMany as jest.Mock).mockResolvedValue([
+        { id: 'tag-1' },
+        { id: 'tag-2' },
+      ]);
+      (mockPrisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+
+      await searchCards(
+        'user-1',
+        'capital',
+        { deckId: 'deck-1', tagId: 'tag-1', state: 'REVIEW', due: false },
+        page,
+      );
+
+      const countQuery = queryText(
+        (mockPrisma.$queryRaw as jest.Mock).mock.calls[1],
+      );
+      expect(countQuery).toContain('c."deckId" = ?');
+      expect(countQuery).toContain('ct."tagId" IN (?,?)');
+      expect(countQuery).toContain('c."state" = ?::"CardState"');
+      expect(countQuery).toContain('NOT (c."nextReviewDate" <= ?');
+    });
+
+    it("should reject another user's tag", async () => {
+      (mockPrisma.tag.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-2',
+        name: 'geo',
+      });
+
+      await expect(
+        searchCards('user-1', 'capital', { tagId: 'tag-1' }, page),
+      ).rejects.toThrow('TAG_NOT_OWNED');
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { getSiblingKey, skipSiblings } from '../card-siblings';
+
+function card(
+  id: string,
+  siblings: {
+    clozeGroupId?: string;
+    noteId?: string;
+    reverseOfId?: string;
+  } = {},
+) {
+  return {
+    id,
+    clozeGroupId: siblings.clozeGroupId ?? null,
+    noteId: siblings.noteId ?? null,
+    reverseOfId: siblings.reverseOfId ?? null,
+  };
+}
+
+describe('Card Siblings', () => {
+  describe('getSiblingKey', () => {
+    it('should give a card and its reverse the same key', () => {
+      expect(getSiblingKey(card('card-1'))).toBe('card-1');
+      expect(getSiblingKey(card('card-2', { reverseOfId: 'card-1' }))).toBe(
+        'card-1',
+      );
+    });
+
+    it('should key cloze and note cards by their group', () => {
+      expect(getSiblingKey(card('card-1', { clozeGroupId: 'group-1' }))).toBe(
+        'group-1',
+      );
+      expect(getSiblingKey(card('card-2', { noteId: 'note-1' }))).toBe(
+        'note-1',
+      );
+    });
+  });
+
+  describe('skipSiblings', () => {
+    it('should keep the first card of each sibling group', () => {
+      const cards = [
+        card('card-1', { noteId: 'note-1' }),
+        card('card-2'),
+        card('card-3', { noteId: 'note-1' }),
+        card('card-4', { reverseOfId: 'card-2' }),
+      ];
+
+      expect(skipSiblings(cards).map((c) => c.id)).toEqual([
+        'card-1',
+        'card-2',
+      ]);
+    });
+
+    it('should skip siblings of taken cards', () => {
+      const cards = [card('card-1'), card('card-2', { clozeGroupId: 'g' })];
+
+      expect(skipSiblings(cards, ['card-1']).map((c) => c.id)).toEqual([
+        'card-2',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  assertClozeEdit,
+  createClozeCards,
+  getClozeIndices,
+  syncClozeSiblings,
+} from '../cloze';
+import { DEFAULT_FSRS_PARAMETERS } from '../fsrs';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Cloze Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.card.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: `card-c${data.clozeIndex}`, ...data }),
+    );
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((arg) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg),
+    );
+  });
+
+  describe('getClozeIndices', () => {
+    it('should return distinct indices in ascending order', () => {
+      expect(
+        getClozeIndices(
+          '{{c2::Paris}} is the capital of {{c1::France}}, as is {{c2::Lyon::not}}',
+        ),
+      ).toEqual([1, 2]);
+    });
+
+    it('should ignore text without valid markers', () => {
+      expect(getClozeIndices('Plain {{c0::zero}} and {c1::broken}')).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('createClozeCards', () => {
+    const source = {
+      front: '{{c1::Paris}} is the capital of {{c2::France}}',
+      back: 'Geography',
+      deckId: 'deck-1',
+      schedulingAlgorithm: 'FSRS' as const,
+    };
+
+    it('should create one new card per index in the same group', async () => {
+      const cards = await createClozeCards(source);
+
+      expect(cards.map((card) => card.clozeIndex)).toEqual([1, 2]);
+      expect(cards[0].clozeGroupId).toBeTruthy();
+      expect(cards[1].clozeGroupId).toBe(cards[0].clozeGroupId);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.card.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          front: source.front,
+          back: 'Geography',
+          type: 'CLOZE',
+          state: 'NEW',
+          reps: 0,
+        }),
+      });
+    });
+
+    it('should throw CLOZE_MARKERS_REQUIRED without markers', async () => {
+      await expect(
+        createClozeCards({ ...source, front: 'No markers' }),
+      ).rejects.toThrow('CLOZE_MARKERS_REQUIRED');
+      expect(mockPrisma.card.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertClozeEdit', () => {
+    it("should reject text that drops the card's own index", () => {
+      expect(() => assertClozeEdit({ clozeIndex: 2 }, '{{c1::only}}')).toThrow(
+        'CLOZE_INDEX_REMOVED',
+      );
+      expect(() => assertClozeEdit({ clozeIndex: 1 }, 'none')).toThrow(
+        'CLOZE_MARKERS_REQUIRED',
+      );
+      expect(() =>
+        assertClozeEdit({ clozeIndex: 1 }, '{{c1::kept}}'),
+      ).not.toThrow();
+    });
+  });
+
+  describe('syncClozeSiblings', () => {
+    const edited = {
+      id: 'card-c1',
+      front: '{{c1::Paris}} lies on the {{c3::Seine}}',
+      back: '',
+      deckId: 'deck-1',
+      priority: 50,
+      clozeIndex: 1,
+      clozeGroupId: 'group-1',
+      schedulingAlgorithm: 'FSRS' as const,
+    };
+
+    it('should update, add and remove siblings', async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'card-c2',
+          clozeIndex: 2,
+          schedulingAlgorithm: 'FSRS',
+        },
+        {
+          id: 'card-c3',
+          clozeIndex: 3,
+          schedulingAlgorithm: 'FSRS',
+          stability: 12,
+          state: 'REVIEW',
+        },
+      ]);
+
+      const result = await syncClozeSiblings(edited, DEFAULT_FSRS_PARAMETERS);
+
+      expect(result).toEqual({
+        createdIndices: [],
+        deletedIndices: [2],
+        deletedCardIds: ['card-c2'],
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith({
+        where: { clozeGroupId: 'group-1', id: { not: 'card-c1' } },
+      });
+      expect(mockPrisma.card.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['card-c2'] } },
+      });
+      // Scheduling of the kept sibling is left untouched
+      expect(mockPrisma.card.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-c3' },
+        data: { front: edited.front, back: '', deckId: 'deck-1' },
+      });
+      expect(mockPrisma.card.create).not.toHaveBeenCalled();
+    });
+
+    it('should create cards for new indices', async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await syncClozeSiblings(edited, DEFAULT_FSRS_PARAMETERS);
+
+      expect(result).toEqual({
+        createdIndices: [3],
+        deletedIndices: [],
+        deletedCardIds: [],
+      });
+      expect(mockPrisma.card.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.card.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clozeIndex: 3,
+          clozeGroupId: 'group-1',
+          priority: 50,
+          state: 'NEW',
+        }),
+      });
+    });
+  });
+});
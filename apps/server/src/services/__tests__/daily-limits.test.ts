@@ -0,0 +1,165 @@
+import {
+  applyDailyLimits,
+  countWithinDailyLimits,
+  dailyLimitConditions,
+  getDailyAllowance,
+  type DailyAllowance,
+} from '../daily-limits';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    deck: {
+      findMany: jest.fn(),
+    },
+    review: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+function allowance(
+  newTotal: number,
+  reviewTotal: number,
+  newByDeck: Record<string, number> = {},
+  reviewByDeck: Record<string, number> = {},
+): DailyAllowance {
+  return {
+    NEW: { total: newTotal, byDeck: new Map(Object.entries(newByDeck)) },
+    REVIEW: {
+      total: reviewTotal,
+      byDeck: new Map(Object.entries(reviewByDeck)),
+    },
+  };
+}
+
+describe('Daily Limits Service', () => {
+  const now = new Date('2025-01-15T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getDailyAllowance', () => {
+    beforeEach(() => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        timezone: 'Asia/Tokyo',
+        newCardsPerDay: 10,
+        reviewsPerDay: 100,
+      });
+      (mockPrisma.deck.findMany as jest.Mock).mockResolvedValue([
+        { id: 'deck-1', newCardsPerDay: 3, reviewsPerDay: null },
+      ]);
+    });
+
+    it('should throw USER_NOT_FOUND for unknown users', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(getDailyAllowance('user-1', now)).rejects.toThrow(
+        'USER_NOT_FOUND',
+      );
+    });
+
+    it("should subtract today's introductions and reviews", async () => {
+      (mockPrisma.review.findMany as jest.Mock).mockResolvedValue([
+        { stateBefore: 'NEW', card: { deckId: 'deck-1' } },
+        { stateBefore: 'NEW', card: { deckId: 'deck-2' } },
+        { stateBefore: 'REVIEW', card: { deckId: 'deck-1' } },
+      ]);
+
+      const result = await getDailyAllowance('user-1', now);
+
+      expect(result).toEqual(allowance(8, 99, { 'deck-1': 2 }));
+    });
+
+    it("should count from midnight in the user's timezone", async () => {
+      (mockPrisma.review.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getDailyAllowance('user-1', now);
+
+      // 12:00 UTC is 21:00 in Tokyo, whose day started at 15:00 UTC
+      expect(mockPrisma.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            createdAt: { gte: new Date('2025-01-14T15:00:00Z') },
+            stateBefore: { in: ['NEW', 'REVIEW'] },
+          },
+        }),
+      );
+    });
+  });
+
+  describe('applyDailyLimits', () => {
+    const cards = [
+      { id: 'a', state: 'NEW', deckId: 'deck-1' },
+      { id: 'b', state: 'NEW', deckId: 'deck-2' },
+      { id: 'c', state: 'NEW', deckId: 'deck-1' },
+      { id: 'd', state: 'REVIEW', deckId: 'deck-1' },
+      { id: 'e', state: 'LEARNING', deckId: 'deck-1' },
+    ];
+
+    it('should admit cards in order until the global limit', () => {
+      const { admitted, remaining } = applyDailyLimits(cards, allowance(2, 0));
+
+      expect(admitted.map((c) => c.id)).toEqual(['a', 'b', 'e']);
+      expect(remaining.NEW.total).toBe(0);
+    });
+
+    it('should respect deck limits', () => {
+      const { admitted } = applyDailyLimits(
+        cards,
+        allowance(10, 10, { 'deck-1': 1 }),
+      );
+
+      expect(admitted.map((c) => c.id)).toEqual(['a', 'b', 'd', 'e']);
+    });
+
+    it('should not change the given allowance', () => {
+      const given = allowance(1, 1, { 'deck-1': 1 });
+
+      applyDailyLimits(cards, given);
+
+      expect(given).toEqual(allowance(1, 1, { 'deck-1': 1 }));
+    });
+  });
+
+  describe('dailyLimitConditions', () => {
+    it('should be empty while limits are left', () => {
+      expect(dailyLimitConditions(allowance(1, 1, { 'deck-1': 1 }))).toEqual(
+        [],
+      );
+    });
+
+    it('should exclude used up limits', () => {
+      expect(
+        dailyLimitConditions(allowance(0, 5, {}, { 'deck-1': 0, 'deck-2': 3 })),
+      ).toEqual([
+        { NOT: { state: 'NEW' } },
+        { NOT: { state: 'REVIEW', deckId: { in: ['deck-1'] } } },
+      ]);
+    });
+  });
+
+  describe('countWithinDailyLimits', () => {
+    it('should cap limited states per deck and overall', () => {
+      const groups = [
+        { deckId: 'deck-1', state: 'NEW', count: 50 },
+        { deckId: 'deck-2', state: 'NEW', count: 50 },
+        { deckId: 'deck-1', state: 'REVIEW', count: 7 },
+        { deckId: 'deck-1', state: 'RELEARNING', count: 4 },
+      ];
+
+      // NEW: min(50, 5) + 50 capped at 20; REVIEW: 7; RELEARNING: 4
+      expect(
+        countWithinDailyLimits(groups, allowance(20, 100, { 'deck-1': 5 })),
+      ).toBe(31);
+    });
+  });
+});
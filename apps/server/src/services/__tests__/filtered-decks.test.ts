@@ -0,0 +1,291 @@
+import {
+  createFilteredDeck,
+  deleteFilteredDeck,
+  filteredDeckConditions,
+  listFilteredDecks,
+  updateFilteredDeck,
+} from '../filtered-decks';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      count: jest.fn(),
+    },
+    deck: {
+      findUnique: jest.fn(),
+    },
+    tag: {
+      findUnique: jest.fn(),
+    },
+    filteredDeck: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+const filteredDeck = {
+  id: 'filtered-1',
+  userId: 'user-1',
+  title: 'CS leeches',
+  query: null,
+  deckId: null,
+  tagId: null,
+  state: null,
+  minLapses: null,
+  dueWithinDays: null,
+  createdAt: new Date('2025-01-01T12:00:00Z'),
+  updatedAt: new Date('2025-01-01T12:00:00Z'),
+};
+
+const ownCards = { deck: { userId: 'user-1', isOnboardingFixture: false } };
+
+describe('Filtered Decks Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('filteredDeckConditions', () => {
+    it("should only match the user's cards without filters", async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue(
+        filteredDeck,
+      );
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).resolves.toEqual({ AND: [ownCards] });
+    });
+
+    it('should combine every filter that is set', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        query: 'tcp',
+        deckId: 'deck-1',
+        tagId: 'tag-1',
+        state: 'REVIEW',
+        minLapses: 3,
+        dueWithinDays: 2,
+      });
+      (mockPrisma.tag.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        name: 'networking',
+      });
+      (mockPrisma.$queryRaw as jest.Mock).mockResolvedValue([{ id: 'card-1' }]);
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).resolves.toEqual({
+        AND: [
+          ownCards,
+          { deck: { OR: [{ id: 'deck-1' }, { parentDeckId: 'deck-1' }] } },
+          {
+            cardTags: {
+              some: {
+                tag: {
+                  userId: 'user-1',
+                  OR: [
+                    { name: 'networking' },
+                    { name: { startsWith: 'networking::' } },
+                  ],
+                },
+              },
+            },
+          },
+          { state: 'REVIEW' },
+          { lapses: { gte: 3 } },
+          { nextReviewDate: { lte: new Date('2025-06-03T12:00:00Z') } },
+          { id: { in: ['card-1'] } },
+        ],
+      });
+    });
+
+    it('should match the cards the search finds, without writing', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        query: 'TCP handshake',
+      });
+      (mockPrisma.$queryRaw as jest.Mock).mockResolvedValue([
+        { id: 'card-1' },
+        { id: 'card-2' },
+      ]);
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).resolves.toEqual({
+        AND: [ownCards, { id: { in: ['card-1', 'card-2'] } }],
+      });
+
+      const [strings, ...values] = (mockPrisma.$queryRaw as jest.Mock).mock
+        .calls[0];
+      expect(strings.join('?')).toContain('"searchVector" @@ to_tsquery');
+      expect(values).toContainEqual(
+        expect.objectContaining({
+          sql: expect.stringContaining('NOT d."isOnboardingFixture"'),
+        }),
+      );
+      expect(values).toContain('tcp:* & handshake:*');
+    });
+
+    it('should match no cards with a query without words', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        query: '?!',
+      });
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).resolves.toEqual({ AND: [ownCards, { id: { in: [] } }] });
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should match cards due now with a due window of 0 days', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        dueWithinDays: 0,
+      });
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).resolves.toEqual({
+        AND: [ownCards, { nextReviewDate: { lte: now } }],
+      });
+    });
+
+    it('should throw FILTERED_DECK_NOT_FOUND for a missing filtered deck', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).rejects.toThrow('FILTERED_DECK_NOT_FOUND');
+    });
+
+    it("should throw FILTERED_DECK_NOT_OWNED for another user's filtered deck", async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        userId: 'user-2',
+      });
+
+      await expect(
+        filteredDeckConditions('user-1', 'filtered-1', now),
+      ).rejects.toThrow('FILTERED_DECK_NOT_OWNED');
+    });
+  });
+
+  describe('listFilteredDecks', () => {
+    it('should count the cards each filtered deck has now', async () => {
+      (mockPrisma.filteredDeck.findMany as jest.Mock).mockResolvedValue([
+        filteredDeck,
+        { ...filteredDeck, id: 'filtered-2', minLapses: 3 },
+      ]);
+      (mockPrisma.card.count as jest.Mock)
+        .mockResolvedValueOnce(12)
+        .mockResolvedValueOnce(4);
+
+      const result = await listFilteredDecks('user-1', now);
+
+      expect(result.map((deck) => deck.cardCount)).toEqual([12, 4]);
+      expect(mockPrisma.card.count).toHaveBeenLastCalledWith({
+        where: { AND: [ownCards, { lapses: { gte: 3 } }] },
+      });
+    });
+  });
+
+  describe('createFilteredDeck', () => {
+    it('should save the filters', async () => {
+      (mockPrisma.deck.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+      });
+      (mockPrisma.filteredDeck.create as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        deckId: 'deck-1',
+        minLapses: 3,
+      });
+      (mockPrisma.card.count as jest.Mock).mockResolvedValue(5);
+
+      const result = await createFilteredDeck(
+        'user-1',
+        { title: 'CS leeches', deckId: 'deck-1', minLapses: 3 },
+        now,
+      );
+
+      expect(mockPrisma.filteredDeck.create).toHaveBeenCalledWith({
+        data: {
+          title: 'CS leeches',
+          deckId: 'deck-1',
+          minLapses: 3,
+          userId: 'user-1',
+        },
+      });
+      expect(result.cardCount).toBe(5);
+    });
+
+    it("should reject another user's deck", async () => {
+      (mockPrisma.deck.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-2',
+      });
+
+      await expect(
+        createFilteredDeck('user-1', { title: 'CS', deckId: 'deck-1' }, now),
+      ).rejects.toThrow('DECK_NOT_OWNED');
+      expect(mockPrisma.filteredDeck.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing tag', async () => {
+      (mockPrisma.tag.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        createFilteredDeck('user-1', { title: 'CS', tagId: 'tag-1' }, now),
+      ).rejects.toThrow('TAG_NOT_FOUND');
+      expect(mockPrisma.filteredDeck.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateFilteredDeck', () => {
+    it('should clear filters set to null', async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        minLapses: 3,
+      });
+      (mockPrisma.filteredDeck.update as jest.Mock).mockResolvedValue(
+        filteredDeck,
+      );
+      (mockPrisma.card.count as jest.Mock).mockResolvedValue(40);
+
+      await updateFilteredDeck(
+        'user-1',
+        'filtered-1',
+        { minLapses: null },
+        now,
+      );
+
+      expect(mockPrisma.filteredDeck.update).toHaveBeenCalledWith({
+        where: { id: 'filtered-1' },
+        data: { minLapses: null },
+      });
+    });
+  });
+
+  describe('deleteFilteredDeck', () => {
+    it("should not delete another user's filtered deck", async () => {
+      (mockPrisma.filteredDeck.findUnique as jest.Mock).mockResolvedValue({
+        ...filteredDeck,
+        userId: 'user-2',
+      });
+
+      await expect(deleteFilteredDeck('user-1', 'filtered-1')).rejects.toThrow(
+        'FILTERED_DECK_NOT_OWNED',
+      );
+      expect(mockPrisma.filteredDeck.delete).not.toHaveBeenCalled();
+    });
+  });
+});
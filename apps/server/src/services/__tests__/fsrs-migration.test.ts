@@ -0,0 +1,279 @@
+import {
+  replayReviews,
+  setDeckSchedulingAlgorithm,
+  switchFSRSVersion,
+  SWITCH_BATCH_SIZE,
+} from '../fsrs-migration';
+import {
+  calculateNextReview,
+  convertSchedulingState,
+  getFSRSParameters,
+  initializeFSRS,
+  DEFAULT_FSRS_PARAMETERS,
+} from '../fsrs';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    deck: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    card: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Scheduling Migration', () => {
+  const t0 = new Date('2025-01-01T12:00:00Z');
+  const reviews = [
+    { rating: 'GOOD' as const, createdAt: t0 },
+    { rating: 'GOOD' as const, createdAt: new Date(t0.getTime() + 3 * DAY_MS) },
+    {
+      rating: 'AGAIN' as const,
+      createdAt: new Date(t0.getTime() + 20 * DAY_MS),
+    },
+  ];
+  const noSteps = { learningSteps: [], relearningSteps: [] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+      learningSteps: [1, 10],
+      relearningSteps: [1, 10],
+    });
+    (mockPrisma.$transaction as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('replayReviews', () => {
+    it('should return null for a card without reviews', () => {
+      expect(replayReviews([], DEFAULT_FSRS_PARAMETERS)).toBeNull();
+    });
+
+    it('should apply each review in order from a fresh state', () => {
+      const first = calculateNextReview(
+        initializeFSRS(),
+        'GOOD',
+        reviews[0].createdAt,
+      );
+      const second = calculateNextReview(
+        first.state,
+        'GOOD',
+        reviews[1].createdAt,
+      );
+
+      expect(
+        replayReviews(reviews.slice(0, 2), DEFAULT_FSRS_PARAMETERS),
+      ).toEqual(second);
+    });
+
+    it('should produce different state with another engine', () => {
+      const fsrs45 = replayReviews(reviews, DEFAULT_FSRS_PARAMETERS)!;
+      const fsrs5 = replayReviews(
+        reviews,
+        getFSRSParameters(null, { version: 'FSRS_5' }),
+      )!;
+
+      expect(fsrs5.state.state).toBe(fsrs45.state.state);
+      expect(fsrs5.state.lapses).toBe(fsrs45.state.lapses);
+      expect(fsrs5.state.stability).not.toBeCloseTo(fsrs45.state.stability);
+    });
+  });
+
+  describe('switchFSRSVersion', () => {
+    it('should throw USER_NOT_FOUND for unknown users', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(switchFSRSVersion('user-1', 'FSRS_5')).rejects.toThrow(
+        'USER_NOT_FOUND',
+      );
+    });
+
+    it("should recompute reviewed cards with the new engine and the deck's settings", async () => {
+      (mockPrisma.card.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'card-1' }, { id: 'card-2' }])
+        .mockResolvedValueOnce([
+          {
+            id: 'card-1',
+            reps: 3,
+            deck: { ...noSteps, desiredRetention: 0.8, parentDeck: null },
+            reviews,
+          },
+          {
+            id: 'card-2',
+            reps: 0,
+            deck: { ...noSteps, desiredRetention: null, parentDeck: null },
+            reviews: [],
+          },
+        ]);
+
+      const result = await switchFSRSVersion('user-1', 'FSRS_5');
+
+      const expected = replayReviews(
+        reviews,
+        getFSRSParameters(null, {
+          version: 'FSRS_5',
+          requestRetention: 0.8,
+          learningSteps: [1, 10],
+          relearningSteps: [1, 10],
+          enableFuzz: false,
+        }),
+      )!;
+      expect(result).toEqual({ version: 'FSRS_5', recomputedCardCount: 1 });
+      expect(mockPrisma.card.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: expect.objectContaining({
+          stability: expected.state.stability,
+          difficulty: expected.state.difficulty,
+          state: expected.state.state,
+          nextReviewDate: expected.nextReviewDate,
+          fsrsVersion: 'FSRS_5',
+        }),
+      });
+    });
+
+    it('should keep the state of cards with fewer reviews than reps', async () => {
+      (mockPrisma.card.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'card-1' }])
+        .mockResolvedValueOnce([
+          {
+            id: 'card-1',
+            reps: 8,
+            deck: { ...noSteps, desiredRetention: null, parentDeck: null },
+            reviews,
+          },
+        ]);
+
+      const result = await switchFSRSVersion('user-1', 'FSRS_5');
+
+      expect(result).toEqual({ version: 'FSRS_5', recomputedCardCount: 0 });
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+
+    it('should replay the cards in batches', async () => {
+      const ids = Array.from({ length: SWITCH_BATCH_SIZE + 1 }, (_, i) => ({
+        id: `card-${i}`,
+      }));
+      (mockPrisma.card.findMany as jest.Mock)
+        .mockResolvedValueOnce(ids)
+        .mockResolvedValue([]);
+
+      await switchFSRSVersion('user-1', 'FSRS_5');
+
+      expect(mockPrisma.card.findMany).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.card.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { id: { in: [`card-${SWITCH_BATCH_SIZE}`] } },
+        }),
+      );
+    });
+
+    it('should store the version and clear fitted weights', async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      await switchFSRSVersion('user-1', 'FSRS_5');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { fsrsVersion: 'FSRS_5', fsrsWeights: [], fsrsOptimizedAt: null },
+      });
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { deck: { userId: 'user-1' }, schedulingAlgorithm: 'FSRS' },
+        data: { fsrsVersion: 'FSRS_5' },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave cards scheduled with SM-2 alone', async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      await switchFSRSVersion('user-1', 'FSRS_5');
+
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { deck: { userId: 'user-1' }, schedulingAlgorithm: 'FSRS' },
+        }),
+      );
+    });
+  });
+
+  describe('setDeckSchedulingAlgorithm', () => {
+    const sm2Card = {
+      id: 'card-1',
+      schedulingAlgorithm: 'SM2' as const,
+      stability: 30,
+      difficulty: 2.2,
+      elapsedDays: 25,
+      scheduledDays: 30,
+      reps: 6,
+      lapses: 1,
+      state: 'REVIEW' as const,
+      learningStep: 0,
+      lastReview: t0,
+    };
+
+    beforeEach(() => {
+      (mockPrisma.deck.findUnique as jest.Mock).mockResolvedValue({
+        user: { fsrsVersion: 'FSRS_5', fsrsWeights: [] },
+      });
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((fn) =>
+        fn(mockPrisma),
+      );
+    });
+
+    it('should throw DECK_NOT_FOUND for unknown decks', async () => {
+      (mockPrisma.deck.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        setDeckSchedulingAlgorithm('deck-1', 'FSRS'),
+      ).rejects.toThrow('DECK_NOT_FOUND');
+    });
+
+    it("should convert the deck's cards with the user's engine", async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([sm2Card]);
+
+      const result = await setDeckSchedulingAlgorithm('deck-1', 'FSRS');
+
+      const expected = convertSchedulingState(
+        sm2Card,
+        'SM2',
+        'FSRS',
+        getFSRSParameters(null, { version: 'FSRS_5' }),
+      );
+      expect(result).toEqual({ algorithm: 'FSRS', convertedCardCount: 1 });
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { deckId: 'deck-1', schedulingAlgorithm: { not: 'FSRS' } },
+        }),
+      );
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: {
+          stability: expected.stability,
+          difficulty: expected.difficulty,
+          schedulingAlgorithm: 'FSRS',
+          fsrsVersion: 'FSRS_5',
+        },
+      });
+      expect(mockPrisma.deck.update).toHaveBeenCalledWith({
+        where: { id: 'deck-1' },
+        data: { schedulingAlgorithm: 'FSRS' },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
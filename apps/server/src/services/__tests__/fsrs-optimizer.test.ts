@@ -0,0 +1,168 @@
+import {
+  groupReviewsByCard,
+  computeLogLoss,
+  optimizeWeights,
+  WEIGHT_BOUNDS,
+  type ReviewHistoryEntry,
+} from '../fsrs-optimizer';
+import { DEFAULT_FSRS_PARAMETERS } from '../fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a history where every card is first rated GOOD, then recalled
+ * (GOOD) at steadily growing gaps much longer than the default schedule.
+ * A user like this remembers better than the default weights predict.
+ */
+function buildStrongMemoryHistory(
+  cardCount: number,
+  reviewsPerCard: number,
+): ReviewHistoryEntry[] {
+  const start = new Date('2024-01-01T00:00:00.000Z').getTime();
+  const reviews: ReviewHistoryEntry[] = [];
+
+  for (let c = 0; c < cardCount; c++) {
+    let time = start + c * 60000;
+    let gapDays = 10;
+    for (let r = 0; r < reviewsPerCard; r++) {
+      reviews.push({
+        cardId: `card-${c}`,
+        // Occasional lapse so the loss has both outcomes to fit
+        rating: r > 0 && (c + r) % 9 === 0 ? 'AGAIN' : 'GOOD',
+        createdAt: new Date(time),
+      });
+      time += gapDays * DAY_MS;
+      gapDays *= 2;
+    }
+  }
+
+  return reviews;
+}
+
+describe('FSRS Optimizer', () => {
+  describe('groupReviewsByCard', () => {
+    it('should group reviews per card sorted oldest first', () => {
+      const groups = groupReviewsByCard([
+        { cardId: 'a', rating: 'GOOD', createdAt: new Date(3000) },
+        { cardId: 'b', rating: 'HARD', createdAt: new Date(2000) },
+        { cardId: 'a', rating: 'AGAIN', createdAt: new Date(1000) },
+      ]);
+
+      expect(groups).toHaveLength(2);
+      const cardA = groups.find((g) => g[0].cardId === 'a')!;
+      expect(cardA.map((r) => r.rating)).toEqual(['AGAIN', 'GOOD']);
+    });
+  });
+
+  describe('computeLogLoss', () => {
+    it('should only score reviews made in REVIEW state', () => {
+      const t0 = new Date('2024-01-01T00:00:00.000Z');
+      const history: ReviewHistoryEntry[] = [
+        // NEW -> LEARNING (not scored)
+        { cardId: 'a', rating: 'AGAIN', createdAt: t0 },
+        // Second learning step (not scored)
+        {
+          cardId: 'a',
+          rating: 'GOOD',
+          createdAt: new Date(t0.getTime() + 60000),
+        },
+        // LEARNING -> REVIEW (not scored)
+        {
+          cardId: 'a',
+          rating: 'GOOD',
+          createdAt: new Date(t0.getTime() + 660000),
+        },
+        // REVIEW -> REVIEW (scored)
+        {
+          cardId: 'a',
+          rating: 'GOOD',
+          createdAt: new Date(t0.getTime() + 3 * DAY_MS),
+        },
+      ];
+
+      const { loss, count } = computeLogLoss(
+        [history],
+        DEFAULT_FSRS_PARAMETERS,
+      );
+
+      expect(count).toBe(1);
+      expect(loss).toBeGreaterThan(0);
+    });
+
+    it('should return zero loss when nothing is scored', () => {
+      const { loss, count } = computeLogLoss([], DEFAULT_FSRS_PARAMETERS);
+
+      expect(count).toBe(0);
+      expect(loss).toBe(0);
+    });
+  });
+
+  describe('optimizeWeights', () => {
+    const history = buildStrongMemoryHistory(30, 6);
+
+    it('should not increase the loss', () => {
+      const result = optimizeWeights(history, { maxIterations: 5 });
+
+      expect(result.reviewCount).toBe(history.length);
+      expect(result.scoredReviewCount).toBeGreaterThan(0);
+      expect(result.finalLoss).toBeLessThan(result.initialLoss);
+    });
+
+    it('should keep every weight within its bounds', () => {
+      const result = optimizeWeights(history, { maxIterations: 5 });
+
+      expect(result.weights).toHaveLength(17);
+      result.weights.forEach((w, i) => {
+        expect(w).toBeGreaterThanOrEqual(WEIGHT_BOUNDS[i][0]);
+        expect(w).toBeLessThanOrEqual(WEIGHT_BOUNDS[i][1]);
+      });
+    });
+
+    it('should be deterministic', () => {
+      const a = optimizeWeights(history, { maxIterations: 3 });
+      const b = optimizeWeights(history, { maxIterations: 3 });
+
+      expect(a.weights).toEqual(b.weights);
+    });
+
+    it('should fit all 19 weights for FSRS-5', () => {
+      const result = optimizeWeights(history, {
+        version: 'FSRS_5',
+        maxIterations: 3,
+      });
+
+      expect(result.weights).toHaveLength(19);
+      expect(result.finalLoss).toBeLessThanOrEqual(result.initialLoss);
+    });
+
+    it('should replay the reviews with the given learning steps', () => {
+      const t0 = new Date('2024-01-01T00:00:00.000Z');
+      const history: ReviewHistoryEntry[] = [0, 1, 11, 3 * 24 * 60].map(
+        (minutes) => ({
+          cardId: 'a',
+          rating: minutes === 0 ? 'AGAIN' : 'GOOD',
+          createdAt: new Date(t0.getTime() + minutes * 60000),
+        }),
+      );
+
+      const withDefaultSteps = optimizeWeights(history, { maxIterations: 1 });
+      const withOneStep = optimizeWeights(history, {
+        maxIterations: 1,
+        learningSteps: [1],
+      });
+
+      expect(withOneStep.scoredReviewCount).toBeGreaterThan(
+        withDefaultSteps.scoredReviewCount,
+      );
+    });
+
+    it('should return the initial weights when no review is scorable', () => {
+      const result = optimizeWeights([
+        { cardId: 'a', rating: 'GOOD', createdAt: new Date() },
+      ]);
+
+      expect(result.scoredReviewCount).toBe(0);
+      expect(result.weights).toEqual([...DEFAULT_FSRS_PARAMETERS.w]);
+    });
+  });
+});
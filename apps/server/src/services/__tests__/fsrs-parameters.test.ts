@@ -0,0 +1,271 @@
+import {
+  getLatestFSRSOptimization,
+  getUserFSRSParameters,
+  startFSRSOptimization,
+  OPTIMIZATION_TIMEOUT_MINUTES,
+} from '../fsrs-parameters';
+import { DEFAULT_FSRS_PARAMETERS } from '../fsrs';
+import { MIN_REVIEWS_FOR_OPTIMIZATION } from '../fsrs-optimizer';
+import { runOptimizerWorker } from '../fsrs-optimizer-worker';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    review: {
+      findMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    parameterOptimization: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// The fitting itself is covered by the optimizer's tests
+jest.mock('../fsrs-optimizer-worker', () => ({
+  runOptimizerWorker: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockRunOptimizerWorker = runOptimizerWorker as jest.MockedFunction<
+  typeof runOptimizerWorker
+>;
+
+/**
+ * Let the optimization running in the background finish.
+ */
+function flushBackgroundWork(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('FSRS Parameters Service', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getUserFSRSParameters', () => {
+    it('should return defaults when the user has no fitted weights', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        fsrsWeights: [],
+        learningSteps: [1, 10],
+        relearningSteps: [1, 10],
+      });
+
+      const params = await getUserFSRSParameters('user-1');
+
+      expect(params).toEqual(DEFAULT_FSRS_PARAMETERS);
+    });
+
+    it("should apply the deck's learning steps over the user's", async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        fsrsWeights: [],
+        learningSteps: [5],
+        relearningSteps: [15],
+      });
+
+      const params = await getUserFSRSParameters('user-1', {
+        learningSteps: [10, 60, 1440],
+        relearningSteps: [],
+        desiredRetention: null,
+      });
+
+      expect(params.learningSteps).toEqual([10, 60, 1440]);
+      expect(params.relearningSteps).toEqual([15]);
+    });
+
+    it('should return the fitted weights when present', async () => {
+      const weights = DEFAULT_FSRS_PARAMETERS.w.map((w) => w * 1.1);
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        fsrsWeights: weights,
+      });
+
+      const params = await getUserFSRSParameters('user-1');
+
+      expect(params.w).toEqual(weights);
+      expect(params.requestRetention).toBe(
+        DEFAULT_FSRS_PARAMETERS.requestRetention,
+      );
+    });
+  });
+
+  describe('startFSRSOptimization', () => {
+    const reviews = Array.from(
+      { length: MIN_REVIEWS_FOR_OPTIMIZATION },
+      (_, index) => ({
+        cardId: `card-${index % 20}`,
+        rating: 'GOOD',
+        createdAt: new Date(now.getTime() - index * 60000),
+      }),
+    );
+    const optimization = {
+      id: 'optimization-1',
+      userId: 'user-1',
+      status: 'RUNNING',
+      reviewCount: reviews.length,
+      scoredReviewCount: null,
+      initialLoss: null,
+      finalLoss: null,
+      startedAt: now,
+      completedAt: null,
+    };
+    const result = {
+      weights: DEFAULT_FSRS_PARAMETERS.w.map((w) => w * 1.1),
+      reviewCount: reviews.length,
+      scoredReviewCount: 150,
+      initialLoss: 0.4,
+      finalLoss: 0.3,
+    };
+
+    beforeEach(() => {
+      (mockPrisma.user.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+        fsrsVersion: 'FSRS_5',
+        learningSteps: [5, 30],
+        relearningSteps: [],
+      });
+      (mockPrisma.review.findMany as jest.Mock).mockResolvedValue(reviews);
+      (mockPrisma.parameterOptimization.create as jest.Mock).mockResolvedValue(
+        optimization,
+      );
+      (mockPrisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.parameterOptimization.update as jest.Mock).mockResolvedValue(
+        {},
+      );
+      mockRunOptimizerWorker.mockResolvedValue(result);
+    });
+
+    it('should fit the reviews of FSRS cards in the background', async () => {
+      await expect(startFSRSOptimization('user-1', now)).resolves.toBe(
+        optimization,
+      );
+
+      expect(mockPrisma.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', card: { schedulingAlgorithm: 'FSRS' } },
+        }),
+      );
+      expect(mockPrisma.parameterOptimization.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', reviewCount: reviews.length, startedAt: now },
+      });
+      expect(mockRunOptimizerWorker).toHaveBeenCalledWith(reviews, {
+        version: 'FSRS_5',
+        learningSteps: [5, 30],
+        relearningSteps: DEFAULT_FSRS_PARAMETERS.relearningSteps,
+      });
+    });
+
+    it('should store the fitted weights when the fit succeeds', async () => {
+      await startFSRSOptimization('user-1', now);
+      await flushBackgroundWork();
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', fsrsVersion: 'FSRS_5' },
+        data: {
+          fsrsWeights: result.weights,
+          fsrsOptimizedAt: expect.any(Date),
+        },
+      });
+      expect(mockPrisma.parameterOptimization.update).toHaveBeenCalledWith({
+        where: { id: 'optimization-1' },
+        data: {
+          status: 'SUCCEEDED',
+          scoredReviewCount: 150,
+          initialLoss: 0.4,
+          finalLoss: 0.3,
+          completedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should fail without storing weights if the engine was switched', async () => {
+      (mockPrisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await startFSRSOptimization('user-1', now);
+      await flushBackgroundWork();
+
+      expect(mockPrisma.parameterOptimization.update).toHaveBeenCalledWith({
+        where: { id: 'optimization-1' },
+        data: { status: 'FAILED', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('should record a failed fit', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockRunOptimizerWorker.mockRejectedValue(new Error('worker crashed'));
+
+      await startFSRSOptimization('user-1', now);
+      await flushBackgroundWork();
+
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.parameterOptimization.update).toHaveBeenCalledWith({
+        where: { id: 'optimization-1' },
+        data: { status: 'FAILED', completedAt: expect.any(Date) },
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should throw OPTIMIZATION_RUNNING while one is running', async () => {
+      (mockPrisma.parameterOptimization.create as jest.Mock).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(startFSRSOptimization('user-1', now)).rejects.toThrow(
+        'OPTIMIZATION_RUNNING',
+      );
+      expect(mockRunOptimizerWorker).not.toHaveBeenCalled();
+    });
+
+    it('should throw INSUFFICIENT_REVIEWS below the minimum', async () => {
+      (mockPrisma.review.findMany as jest.Mock).mockResolvedValue(
+        reviews.slice(1),
+      );
+
+      await expect(startFSRSOptimization('user-1', now)).rejects.toThrow(
+        'INSUFFICIENT_REVIEWS',
+      );
+      expect(mockPrisma.parameterOptimization.create).not.toHaveBeenCalled();
+      expect(mockRunOptimizerWorker).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatestFSRSOptimization', () => {
+    it('should fail lost optimizations before returning the latest', async () => {
+      (
+        mockPrisma.parameterOptimization.findFirst as jest.Mock
+      ).mockResolvedValue(null);
+
+      await expect(getLatestFSRSOptimization('user-1', now)).resolves.toBe(
+        null,
+      );
+
+      expect(mockPrisma.parameterOptimization.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          status: 'RUNNING',
+          startedAt: {
+            lt: new Date(now.getTime() - OPTIMIZATION_TIMEOUT_MINUTES * 60000),
+          },
+        },
+        data: { status: 'FAILED', completedAt: now },
+      });
+      expect(mockPrisma.parameterOptimization.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        orderBy: { startedAt: 'desc' },
+      });
+    });
+  });
+});
@@ -5,6 +5,17 @@ import {
   RATING_VALUES,
   STATE_VALUES,
   DEFAULT_FSRS_PARAMETERS,
+  getFSRSParameters,
+  resolveLearningSteps,
+  resolveDesiredRetention,
+  resolveSchedulingOverrides,
+  getCurrentRetrievability,
+  previewNextIntervals,
+  getFSRSEngine,
+  getSchedulingEngine,
+  convertSchedulingState,
+  FSRS_VERSIONS,
+  SM2_ENGINE,
   type FSRSState,
 } from '../fsrs';
 
@@ -77,28 +88,345 @@ describe('FSRS Algorithm', () => {
   });
 
   // ==========================================================================
-  // calculateNextReview() Tests - Basic Functionality
+  // Engine Tests - run against every FSRS version
   // ==========================================================================
-  describe('calculateNextReview', () => {
-    const now = new Date('2025-01-01T12:00:00Z');
+  describe.each(FSRS_VERSIONS)('%s engine', (version) => {
+    const engineParams = getFSRSParameters(null, { version });
+
+    // ==========================================================================
+    // calculateNextReview() Tests - Basic Functionality
+    // ==========================================================================
+    describe('calculateNextReview', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+
+      describe('with AGAIN rating', () => {
+        it('should increase lapses for reviewed cards', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            lapses: 0,
+            stability: 10,
+            difficulty: 5,
+          };
+
+          const result = calculateNextReview(state, 'AGAIN', now, engineParams);
+
+          expect(result.state.lapses).toBe(1);
+        });
+
+        it('should produce short interval (less than 1 day)', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+          };
+
+          const result = calculateNextReview(state, 'AGAIN', now, engineParams);
+          const intervalMs = result.nextReviewDate.getTime() - now.getTime();
+          const intervalDays = intervalMs / (1000 * 60 * 60 * 24);
+
+          expect(intervalDays).toBeLessThan(1);
+        });
+
+        it('should transition REVIEW to RELEARNING', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+          };
+
+          const result = calculateNextReview(state, 'AGAIN', now, engineParams);
+
+          expect(result.state.state).toBe('RELEARNING');
+        });
+      });
+
+      describe('with HARD rating', () => {
+        it('should produce shorter interval than GOOD', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+            lastReview: new Date('2024-12-25T12:00:00Z'),
+          };
+
+          const hardResult = calculateNextReview(
+            state,
+            'HARD',
+            now,
+            engineParams,
+          );
+          const goodResult = calculateNextReview(
+            state,
+            'GOOD',
+            now,
+            engineParams,
+          );
+
+          expect(hardResult.nextReviewDate.getTime()).toBeLessThan(
+            goodResult.nextReviewDate.getTime(),
+          );
+        });
+      });
+
+      describe('with GOOD rating', () => {
+        it('should increment reps', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+          };
+
+          const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+          expect(result.state.reps).toBe(6);
+        });
+
+        it('should produce future review date', () => {
+          const state = initializeFSRS();
+
+          const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+          expect(result.nextReviewDate.getTime()).toBeGreaterThan(
+            now.getTime(),
+          );
+        });
+
+        it('should transition NEW to REVIEW (graduate immediately)', () => {
+          const state = initializeFSRS();
+
+          const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+          expect(result.state.state).toBe('REVIEW');
+        });
+      });
+
+      describe('with EASY rating', () => {
+        it('should produce longest interval', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+            lastReview: new Date('2024-12-25T12:00:00Z'),
+          };
+
+          const againResult = calculateNextReview(
+            state,
+            'AGAIN',
+            now,
+            engineParams,
+          );
+          const hardResult = calculateNextReview(
+            state,
+            'HARD',
+            now,
+            engineParams,
+          );
+          const goodResult = calculateNextReview(
+            state,
+            'GOOD',
+            now,
+            engineParams,
+          );
+          const easyResult = calculateNextReview(
+            state,
+            'EASY',
+            now,
+            engineParams,
+          );
+
+          expect(easyResult.nextReviewDate.getTime()).toBeGreaterThan(
+            goodResult.nextReviewDate.getTime(),
+          );
+          expect(goodResult.nextReviewDate.getTime()).toBeGreaterThan(
+            hardResult.nextReviewDate.getTime(),
+          );
+          expect(hardResult.nextReviewDate.getTime()).toBeGreaterThan(
+            againResult.nextReviewDate.getTime(),
+          );
+        });
+
+        it('should provide bonus to stability', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 5,
+            stability: 10,
+            difficulty: 5,
+            lastReview: new Date('2024-12-25T12:00:00Z'),
+          };
+
+          const goodResult = calculateNextReview(
+            state,
+            'GOOD',
+            now,
+            engineParams,
+          );
+          const easyResult = calculateNextReview(
+            state,
+            'EASY',
+            now,
+            engineParams,
+          );
+
+          expect(easyResult.state.stability).toBeGreaterThan(
+            goodResult.state.stability,
+          );
+        });
+      });
+
+      describe('interval ordering: AGAIN < HARD < GOOD < EASY', () => {
+        it('should produce intervals in correct order for NEW cards', () => {
+          const state = initializeFSRS();
+
+          const againResult = calculateNextReview(
+            state,
+            'AGAIN',
+            now,
+            engineParams,
+          );
+          const hardResult = calculateNextReview(
+            state,
+            'HARD',
+            now,
+            engineParams,
+          );
+          const goodResult = calculateNextReview(
+            state,
+            'GOOD',
+            now,
+            engineParams,
+          );
+          const easyResult = calculateNextReview(
+            state,
+            'EASY',
+            now,
+            engineParams,
+          );
+
+          expect(againResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
+            hardResult.nextReviewDate.getTime(),
+          );
+          expect(hardResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
+            goodResult.nextReviewDate.getTime(),
+          );
+          expect(goodResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
+            easyResult.nextReviewDate.getTime(),
+          );
+        });
+
+        it('should produce intervals in correct order for REVIEW cards', () => {
+          const state: FSRSState = {
+            ...initializeFSRS(),
+            state: 'REVIEW',
+            reps: 10,
+            stability: 20,
+            difficulty: 5,
+            lastReview: new Date('2024-12-15T12:00:00Z'),
+          };
+
+          const againResult = calculateNextReview(
+            state,
+            'AGAIN',
+            now,
+            engineParams,
+          );
+          const hardResult = calculateNextReview(
+            state,
+            'HARD',
+            now,
+            engineParams,
+          );
+          const goodResult = calculateNextReview(
+            state,
+            'GOOD',
+            now,
+            engineParams,
+          );
+          const easyResult = calculateNextReview(
+            state,
+            'EASY',
+            now,
+            engineParams,
+          );
+
+          expect(againResult.nextReviewDate.getTime()).toBeLessThan(
+            hardResult.nextReviewDate.getTime(),
+          );
+          expect(hardResult.nextReviewDate.getTime()).toBeLessThan(
+            goodResult.nextReviewDate.getTime(),
+          );
+          expect(goodResult.nextReviewDate.getTime()).toBeLessThan(
+            easyResult.nextReviewDate.getTime(),
+          );
+        });
+      });
+    });
+
+    // ==========================================================================
+    // State Transition Tests
+    // ==========================================================================
+    describe('State Transitions', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+
+      it('should transition NEW -> LEARNING on AGAIN', () => {
+        const state = initializeFSRS();
+
+        const result = calculateNextReview(state, 'AGAIN', now, engineParams);
+
+        expect(result.state.state).toBe('LEARNING');
+      });
+
+      it('should transition NEW -> LEARNING on HARD', () => {
+        const state = initializeFSRS();
+
+        const result = calculateNextReview(state, 'HARD', now, engineParams);
+
+        expect(result.state.state).toBe('LEARNING');
+      });
+
+      it('should transition NEW -> REVIEW on GOOD', () => {
+        const state = initializeFSRS();
+
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+        expect(result.state.state).toBe('REVIEW');
+      });
+
+      it('should transition NEW -> REVIEW on EASY', () => {
+        const state = initializeFSRS();
+
+        const result = calculateNextReview(state, 'EASY', now, engineParams);
+
+        expect(result.state.state).toBe('REVIEW');
+      });
 
-    describe('with AGAIN rating', () => {
-      it('should increase lapses for reviewed cards', () => {
+      it('should transition REVIEW -> RELEARNING on lapse (AGAIN)', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
           reps: 5,
-          lapses: 0,
           stability: 10,
           difficulty: 5,
         };
 
-        const result = calculateNextReview(state, 'AGAIN', now);
+        const result = calculateNextReview(state, 'AGAIN', now, engineParams);
 
-        expect(result.state.lapses).toBe(1);
+        expect(result.state.state).toBe('RELEARNING');
       });
 
-      it('should produce short interval (less than 1 day)', () => {
+      it('should stay in REVIEW on successful recall (GOOD)', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
@@ -107,483 +435,911 @@ describe('FSRS Algorithm', () => {
           difficulty: 5,
         };
 
-        const result = calculateNextReview(state, 'AGAIN', now);
-        const intervalMs = result.nextReviewDate.getTime() - now.getTime();
-        const intervalDays = intervalMs / (1000 * 60 * 60 * 24);
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(intervalDays).toBeLessThan(1);
+        expect(result.state.state).toBe('REVIEW');
       });
 
-      it('should transition REVIEW to RELEARNING', () => {
+      it('should transition RELEARNING -> REVIEW on recovery (GOOD)', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
-          state: 'REVIEW',
+          state: 'RELEARNING',
+          learningStep: 1,
           reps: 5,
-          stability: 10,
+          lapses: 1,
+          stability: 2,
+          difficulty: 6,
+        };
+
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+        expect(result.state.state).toBe('REVIEW');
+      });
+
+      it('should transition LEARNING -> REVIEW on graduation (GOOD)', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'LEARNING',
+          learningStep: 1,
+          reps: 2,
+          stability: 0.6,
           difficulty: 5,
         };
 
-        const result = calculateNextReview(state, 'AGAIN', now);
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(result.state.state).toBe('RELEARNING');
+        expect(result.state.state).toBe('REVIEW');
+        expect(result.state.learningStep).toBe(0);
+      });
+
+      it('should stay in LEARNING on GOOD before the last step', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'LEARNING',
+          reps: 1,
+          stability: 0.6,
+          difficulty: 5,
+        };
+
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+        expect(result.state.state).toBe('LEARNING');
+        expect(result.state.learningStep).toBe(1);
       });
     });
 
-    describe('with HARD rating', () => {
-      it('should produce shorter interval than GOOD', () => {
+    // ==========================================================================
+    // Edge Case Tests
+    // ==========================================================================
+    describe('Edge Cases', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+
+      it('should handle card with many lapses', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
-          reps: 5,
-          stability: 10,
-          difficulty: 5,
-          lastReview: new Date('2024-12-25T12:00:00Z'),
+          reps: 50,
+          lapses: 20,
+          stability: 5,
+          difficulty: 8,
+        };
+
+        // Should not throw
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
+
+        expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
+        expect(result.state.stability).toBeGreaterThan(0);
+      });
+
+      it('should handle card with high reps count', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 500,
+          stability: 100,
+          difficulty: 3,
+          lastReview: new Date('2024-09-01T12:00:00Z'),
         };
 
-        const hardResult = calculateNextReview(state, 'HARD', now);
-        const goodResult = calculateNextReview(state, 'GOOD', now);
+        // Should not throw or produce unreasonable values
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(hardResult.nextReviewDate.getTime()).toBeLessThan(
-          goodResult.nextReviewDate.getTime(),
+        expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
+        // Interval should not exceed maximum
+        const intervalDays =
+          (result.nextReviewDate.getTime() - now.getTime()) /
+          (1000 * 60 * 60 * 24);
+        expect(intervalDays).toBeLessThanOrEqual(
+          DEFAULT_FSRS_PARAMETERS.maximumInterval,
         );
       });
-    });
 
-    describe('with GOOD rating', () => {
-      it('should increment reps', () => {
+      it('should handle very old lastReview date', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
-          reps: 5,
-          stability: 10,
+          reps: 10,
+          stability: 30,
           difficulty: 5,
+          lastReview: new Date('2020-01-01T12:00:00Z'), // 5 years ago
         };
 
-        const result = calculateNextReview(state, 'GOOD', now);
+        // Should not throw
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(result.state.reps).toBe(6);
+        expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
       });
 
-      it('should produce future review date', () => {
-        const state = initializeFSRS();
+      it('should handle early review (nextReview in future)', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 10,
+          difficulty: 5,
+          lastReview: new Date('2024-12-31T12:00:00Z'), // Yesterday
+        };
 
-        const result = calculateNextReview(state, 'GOOD', now);
+        // Reviewing early (only 1 day elapsed when scheduled for 10)
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
         expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
       });
 
-      it('should transition NEW to REVIEW (graduate immediately)', () => {
-        const state = initializeFSRS();
+      it('should handle zero stability gracefully', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'LEARNING',
+          reps: 1,
+          stability: 0,
+          difficulty: 5,
+        };
 
-        const result = calculateNextReview(state, 'GOOD', now);
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(result.state.state).toBe('REVIEW');
+        expect(result.state.stability).toBeGreaterThan(0);
       });
     });
 
-    describe('with EASY rating', () => {
-      it('should produce longest interval', () => {
+    // ==========================================================================
+    // Stability and Difficulty Tests
+    // ==========================================================================
+    describe('Stability and Difficulty', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+
+      it('should increase stability after successful review (GOOD)', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
           reps: 5,
           stability: 10,
           difficulty: 5,
-          lastReview: new Date('2024-12-25T12:00:00Z'),
+          lastReview: new Date('2024-12-22T12:00:00Z'), // 10 days ago
         };
 
-        const againResult = calculateNextReview(state, 'AGAIN', now);
-        const hardResult = calculateNextReview(state, 'HARD', now);
-        const goodResult = calculateNextReview(state, 'GOOD', now);
-        const easyResult = calculateNextReview(state, 'EASY', now);
+        const result = calculateNextReview(state, 'GOOD', now, engineParams);
 
-        expect(easyResult.nextReviewDate.getTime()).toBeGreaterThan(
-          goodResult.nextReviewDate.getTime(),
-        );
-        expect(goodResult.nextReviewDate.getTime()).toBeGreaterThan(
-          hardResult.nextReviewDate.getTime(),
-        );
-        expect(hardResult.nextReviewDate.getTime()).toBeGreaterThan(
-          againResult.nextReviewDate.getTime(),
-        );
+        expect(result.state.stability).toBeGreaterThan(state.stability);
       });
 
-      it('should provide bonus to stability', () => {
+      it('should increase stability more for EASY than GOOD', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
           reps: 5,
           stability: 10,
           difficulty: 5,
-          lastReview: new Date('2024-12-25T12:00:00Z'),
+          lastReview: new Date('2024-12-22T12:00:00Z'),
         };
 
-        const goodResult = calculateNextReview(state, 'GOOD', now);
-        const easyResult = calculateNextReview(state, 'EASY', now);
+        const goodResult = calculateNextReview(
+          state,
+          'GOOD',
+          now,
+          engineParams,
+        );
+        const easyResult = calculateNextReview(
+          state,
+          'EASY',
+          now,
+          engineParams,
+        );
 
         expect(easyResult.state.stability).toBeGreaterThan(
           goodResult.state.stability,
         );
       });
-    });
 
-    describe('interval ordering: AGAIN < HARD < GOOD < EASY', () => {
-      it('should produce intervals in correct order for NEW cards', () => {
-        const state = initializeFSRS();
+      it('should decrease/reset stability after AGAIN', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 30,
+          difficulty: 5,
+          lastReview: new Date('2024-12-01T12:00:00Z'),
+        };
+
+        const result = calculateNextReview(state, 'AGAIN', now, engineParams);
+
+        expect(result.state.stability).toBeLessThan(state.stability);
+      });
 
-        const againResult = calculateNextReview(state, 'AGAIN', now);
-        const hardResult = calculateNextReview(state, 'HARD', now);
-        const goodResult = calculateNextReview(state, 'GOOD', now);
-        const easyResult = calculateNextReview(state, 'EASY', now);
+      it('should adjust difficulty based on rating (AGAIN vs EASY)', () => {
+        // FSRS difficulty formula pulls toward mean (w4=4.93) with rating adjustment
+        // For cards with difficulty > mean, AGAIN increases it, EASY decreases it
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 10,
+          difficulty: 7, // Above mean difficulty
+          lastReview: new Date('2024-12-22T12:00:00Z'),
+        };
 
-        expect(againResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
-          hardResult.nextReviewDate.getTime(),
+        const againResult = calculateNextReview(
+          state,
+          'AGAIN',
+          now,
+          engineParams,
         );
-        expect(hardResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
-          goodResult.nextReviewDate.getTime(),
+        const easyResult = calculateNextReview(
+          state,
+          'EASY',
+          now,
+          engineParams,
         );
-        expect(goodResult.nextReviewDate.getTime()).toBeLessThanOrEqual(
-          easyResult.nextReviewDate.getTime(),
+
+        // AGAIN should result in higher difficulty than EASY
+        expect(againResult.state.difficulty).toBeGreaterThan(
+          easyResult.state.difficulty,
         );
       });
 
-      it('should produce intervals in correct order for REVIEW cards', () => {
+      it('should have AGAIN produce higher difficulty than GOOD', () => {
         const state: FSRSState = {
           ...initializeFSRS(),
           state: 'REVIEW',
-          reps: 10,
-          stability: 20,
+          reps: 5,
+          stability: 10,
           difficulty: 5,
-          lastReview: new Date('2024-12-15T12:00:00Z'),
+          lastReview: new Date('2024-12-22T12:00:00Z'),
         };
 
-        const againResult = calculateNextReview(state, 'AGAIN', now);
-        const hardResult = calculateNextReview(state, 'HARD', now);
-        const goodResult = calculateNextReview(state, 'GOOD', now);
-        const easyResult = calculateNextReview(state, 'EASY', now);
+        const againResult = calculateNextReview(
+          state,
+          'AGAIN',
+          now,
+          engineParams,
+        );
+        const goodResult = calculateNextReview(
+          state,
+          'GOOD',
+          now,
+          engineParams,
+        );
 
-        expect(againResult.nextReviewDate.getTime()).toBeLessThan(
-          hardResult.nextReviewDate.getTime(),
+        expect(againResult.state.difficulty).toBeGreaterThan(
+          goodResult.state.difficulty,
         );
-        expect(hardResult.nextReviewDate.getTime()).toBeLessThan(
-          goodResult.nextReviewDate.getTime(),
+      });
+
+      it('should keep difficulty within valid range (1-10)', () => {
+        // Test with very low difficulty
+        const lowDiffState: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 10,
+          difficulty: 1,
+          lastReview: new Date('2024-12-22T12:00:00Z'),
+        };
+
+        const easyResult = calculateNextReview(
+          lowDiffState,
+          'EASY',
+          now,
+          engineParams,
         );
-        expect(goodResult.nextReviewDate.getTime()).toBeLessThan(
-          easyResult.nextReviewDate.getTime(),
+        expect(easyResult.state.difficulty).toBeGreaterThanOrEqual(1);
+
+        // Test with very high difficulty
+        const highDiffState: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 10,
+          difficulty: 10,
+          lastReview: new Date('2024-12-22T12:00:00Z'),
+        };
+
+        const againResult = calculateNextReview(
+          highDiffState,
+          'AGAIN',
+          now,
+          engineParams,
         );
+        expect(againResult.state.difficulty).toBeLessThanOrEqual(10);
       });
     });
-  });
 
-  // ==========================================================================
-  // State Transition Tests
-  // ==========================================================================
-  describe('State Transitions', () => {
-    const now = new Date('2025-01-01T12:00:00Z');
+    // ==========================================================================
+    // Learning Steps Tests
+    // ==========================================================================
+    describe('Learning Steps', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      const params = getFSRSParameters(null, {
+        version,
+        learningSteps: [10, 60, 1440],
+        relearningSteps: [30],
+      });
 
-    it('should transition NEW -> LEARNING on AGAIN', () => {
-      const state = initializeFSRS();
+      const minutesUntil = (date: Date) =>
+        (date.getTime() - now.getTime()) / (60 * 1000);
 
-      const result = calculateNextReview(state, 'AGAIN', now);
+      const learningState = (learningStep: number): FSRSState => ({
+        ...initializeFSRS(),
+        state: 'LEARNING',
+        learningStep,
+        // Lifetime reps play no part in choosing the step
+        reps: 20,
+        stability: 0.6,
+        difficulty: 5,
+        lastReview: now,
+      });
 
-      expect(result.state.state).toBe('LEARNING');
-    });
+      it('should use the first learning step when a new card fails', () => {
+        const result = calculateNextReview(
+          initializeFSRS(),
+          'AGAIN',
+          now,
+          params,
+        );
 
-    it('should transition NEW -> LEARNING on HARD', () => {
-      const state = initializeFSRS();
+        expect(minutesUntil(result.nextReviewDate)).toBe(10);
+        expect(result.state.learningStep).toBe(0);
+      });
 
-      const result = calculateNextReview(state, 'HARD', now);
+      it('should advance through every learning step on GOOD', () => {
+        let result = calculateNextReview(
+          initializeFSRS(),
+          'AGAIN',
+          now,
+          params,
+        );
+        const minutes = [minutesUntil(result.nextReviewDate)];
 
-      expect(result.state.state).toBe('LEARNING');
-    });
+        while (result.state.state === 'LEARNING') {
+          result = calculateNextReview(result.state, 'GOOD', now, params);
+          minutes.push(minutesUntil(result.nextReviewDate));
+        }
 
-    it('should transition NEW -> REVIEW on GOOD', () => {
-      const state = initializeFSRS();
+        expect(minutes.slice(0, -1)).toEqual([10, 60, 1440]);
+        expect(result.state.state).toBe('REVIEW');
+        expect(result.state.learningStep).toBe(0);
+      });
 
-      const result = calculateNextReview(state, 'GOOD', now);
+      it('should repeat the current step on HARD', () => {
+        const result = calculateNextReview(
+          learningState(1),
+          'HARD',
+          now,
+          params,
+        );
 
-      expect(result.state.state).toBe('REVIEW');
-    });
+        expect(result.state.state).toBe('LEARNING');
+        expect(result.state.learningStep).toBe(1);
+        expect(minutesUntil(result.nextReviewDate)).toBe(60);
+      });
 
-    it('should transition NEW -> REVIEW on EASY', () => {
-      const state = initializeFSRS();
+      it('should wait halfway to the second step on HARD on the first step', () => {
+        const result = calculateNextReview(
+          learningState(0),
+          'HARD',
+          now,
+          params,
+        );
 
-      const result = calculateNextReview(state, 'EASY', now);
+        expect(result.state.learningStep).toBe(0);
+        expect(minutesUntil(result.nextReviewDate)).toBe(35);
+      });
 
-      expect(result.state.state).toBe('REVIEW');
-    });
+      it('should restart the steps on AGAIN', () => {
+        const result = calculateNextReview(
+          learningState(2),
+          'AGAIN',
+          now,
+          params,
+        );
 
-    it('should transition REVIEW -> RELEARNING on lapse (AGAIN)', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 5,
-      };
+        expect(result.state.state).toBe('LEARNING');
+        expect(result.state.learningStep).toBe(0);
+        expect(minutesUntil(result.nextReviewDate)).toBe(10);
+      });
+
+      it('should graduate on EASY from any step', () => {
+        const result = calculateNextReview(
+          learningState(0),
+          'EASY',
+          now,
+          params,
+        );
+
+        expect(result.state.state).toBe('REVIEW');
+      });
 
-      const result = calculateNextReview(state, 'AGAIN', now);
+      it('should stay on the last step once the steps are shortened', () => {
+        const hard = calculateNextReview(learningState(8), 'HARD', now, params);
+        const good = calculateNextReview(learningState(8), 'GOOD', now, params);
 
-      expect(result.state.state).toBe('RELEARNING');
+        expect(minutesUntil(hard.nextReviewDate)).toBe(1440);
+        expect(hard.state.learningStep).toBe(2);
+        expect(good.state.state).toBe('REVIEW');
+      });
+
+      it('should use relearning steps for lapsed cards', () => {
+        const state: FSRSState = {
+          ...initializeFSRS(),
+          state: 'REVIEW',
+          reps: 5,
+          stability: 10,
+          difficulty: 5,
+          lastReview: now,
+        };
+
+        const lapse = calculateNextReview(state, 'AGAIN', now, params);
+        expect(minutesUntil(lapse.nextReviewDate)).toBe(30);
+
+        const hard = calculateNextReview(lapse.state, 'HARD', now, params);
+        expect(minutesUntil(hard.nextReviewDate)).toBe(30);
+
+        const good = calculateNextReview(hard.state, 'GOOD', now, params);
+        expect(good.state.state).toBe('REVIEW');
+      });
+
+      it('should default to 1 and 10 minute steps', () => {
+        const result = calculateNextReview(
+          initializeFSRS(),
+          'AGAIN',
+          now,
+          engineParams,
+        );
+
+        expect(minutesUntil(result.nextReviewDate)).toBe(1);
+        expect(DEFAULT_FSRS_PARAMETERS.learningSteps).toEqual([1, 10]);
+        expect(DEFAULT_FSRS_PARAMETERS.relearningSteps).toEqual([1, 10]);
+      });
+
+      describe('resolveLearningSteps', () => {
+        it('should prefer the first source that sets each list', () => {
+          const steps = resolveLearningSteps(
+            { learningSteps: [10, 60, 1440], relearningSteps: [] },
+            { learningSteps: [1, 10], relearningSteps: [20] },
+          );
+
+          expect(steps).toEqual({
+            learningSteps: [10, 60, 1440],
+            relearningSteps: [20],
+          });
+        });
+
+        it('should fall back to the defaults', () => {
+          expect(resolveLearningSteps(null, undefined)).toEqual({
+            learningSteps: DEFAULT_FSRS_PARAMETERS.learningSteps,
+            relearningSteps: DEFAULT_FSRS_PARAMETERS.relearningSteps,
+          });
+        });
+      });
     });
 
-    it('should stay in REVIEW on successful recall (GOOD)', () => {
-      const state: FSRSState = {
+    describe('Desired Retention', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      const reviewState: FSRSState = {
         ...initializeFSRS(),
         state: 'REVIEW',
         reps: 5,
-        stability: 10,
+        stability: 20,
         difficulty: 5,
+        lastReview: new Date('2024-12-12T12:00:00Z'),
       };
 
-      const result = calculateNextReview(state, 'GOOD', now);
+      const intervalFor = (requestRetention: number) =>
+        calculateNextReview(
+          reviewState,
+          'GOOD',
+          now,
+          getFSRSParameters(null, { version, requestRetention }),
+        ).state.scheduledDays;
+
+      it('should schedule shorter intervals for higher retention', () => {
+        expect(intervalFor(0.97)).toBeLessThan(intervalFor(0.9));
+        expect(intervalFor(0.9)).toBeLessThan(intervalFor(0.7));
+      });
 
-      expect(result.state.state).toBe('REVIEW');
-    });
+      it('should match the defaults at 0.9', () => {
+        const result = calculateNextReview(
+          reviewState,
+          'GOOD',
+          now,
+          engineParams,
+        );
 
-    it('should transition RELEARNING -> REVIEW on recovery (GOOD)', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'RELEARNING',
-        reps: 5,
-        lapses: 1,
-        stability: 2,
-        difficulty: 6,
-      };
+        expect(intervalFor(0.9)).toBe(result.state.scheduledDays);
+      });
 
-      const result = calculateNextReview(state, 'GOOD', now);
+      describe('resolveDesiredRetention', () => {
+        it("should prefer the deck's retention over its parent's", () => {
+          expect(
+            resolveDesiredRetention({
+              desiredRetention: 0.8,
+              parentDeck: { desiredRetention: 0.95 },
+            }),
+          ).toBe(0.8);
+        });
+
+        it("should inherit the parent deck's retention", () => {
+          expect(
+            resolveDesiredRetention({
+              desiredRetention: null,
+              parentDeck: { desiredRetention: 0.95 },
+            }),
+          ).toBe(0.95);
+        });
+
+        it('should fall back to the default', () => {
+          expect(resolveDesiredRetention({ desiredRetention: null })).toBe(
+            DEFAULT_FSRS_PARAMETERS.requestRetention,
+          );
+          expect(resolveDesiredRetention(null)).toBe(
+            DEFAULT_FSRS_PARAMETERS.requestRetention,
+          );
+        });
+      });
 
-      expect(result.state.state).toBe('REVIEW');
+      describe('resolveSchedulingOverrides', () => {
+        it('should inherit retention and steps from the parent deck', () => {
+          const overrides = resolveSchedulingOverrides(
+            {
+              desiredRetention: null,
+              learningSteps: [],
+              relearningSteps: [],
+              parentDeck: {
+                desiredRetention: 0.85,
+                learningSteps: [5, 30],
+                relearningSteps: [],
+              },
+            },
+            { learningSteps: [1, 10], relearningSteps: [20] },
+          );
+
+          expect(overrides).toEqual({
+            requestRetention: 0.85,
+            learningSteps: [5, 30],
+            relearningSteps: [20],
+          });
+        });
+      });
     });
 
-    it('should transition LEARNING -> REVIEW on graduation (GOOD)', () => {
-      const state: FSRSState = {
+    describe('Review Preview', () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      const DAY_MS = 24 * 60 * 60 * 1000;
+      const reviewState: FSRSState = {
         ...initializeFSRS(),
-        state: 'LEARNING',
-        reps: 1,
-        stability: 0.6,
+        state: 'REVIEW',
+        reps: 5,
+        stability: 10,
         difficulty: 5,
+        lastReview: new Date(now.getTime() - 10 * DAY_MS),
       };
 
-      const result = calculateNextReview(state, 'GOOD', now);
+      describe('getCurrentRetrievability', () => {
+        it('should return null for cards never reviewed', () => {
+          expect(
+            getCurrentRetrievability(initializeFSRS(), now, engineParams),
+          ).toBeNull();
+        });
+
+        it('should decay with time since the last review', () => {
+          const soon = getCurrentRetrievability(
+            { ...reviewState, lastReview: new Date(now.getTime() - DAY_MS) },
+            now,
+            engineParams,
+          )!;
+          const later = getCurrentRetrievability(
+            reviewState,
+            now,
+            engineParams,
+          )!;
+
+          expect(soon).toBeGreaterThan(later);
+          expect(later).toBeCloseTo(0.9, 2);
+        });
+      });
 
-      expect(result.state.state).toBe('REVIEW');
+      describe('previewNextIntervals', () => {
+        it('should match calculateNextReview for every rating', () => {
+          const preview = previewNextIntervals(reviewState, now, engineParams);
+
+          for (const rating of ['AGAIN', 'HARD', 'GOOD', 'EASY'] as const) {
+            const { nextReviewDate } = calculateNextReview(
+              reviewState,
+              rating,
+              now,
+              engineParams,
+            );
+            expect(preview[rating]).toBe(
+              Math.round((nextReviewDate.getTime() - now.getTime()) / 60000),
+            );
+          }
+        });
+
+        it('should order intervals from AGAIN to EASY', () => {
+          const preview = previewNextIntervals(reviewState, now, engineParams);
+
+          expect(preview.AGAIN).toBeLessThan(preview.HARD);
+          expect(preview.HARD).toBeLessThanOrEqual(preview.GOOD);
+          expect(preview.GOOD).toBeLessThanOrEqual(preview.EASY);
+        });
+
+        it('should use the given parameters', () => {
+          const preview = previewNextIntervals(
+            initializeFSRS(),
+            now,
+            getFSRSParameters(null, { version, learningSteps: [15] }),
+          );
+
+          expect(preview.AGAIN).toBe(15);
+        });
+      });
     });
   });
 
   // ==========================================================================
-  // Edge Case Tests
+  // Engine Selection Tests
   // ==========================================================================
-  describe('Edge Cases', () => {
+  describe('Engine Selection', () => {
     const now = new Date('2025-01-01T12:00:00Z');
+    const fsrs5Params = getFSRSParameters(null, { version: 'FSRS_5' });
 
-    it('should handle card with many lapses', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 50,
-        lapses: 20,
-        stability: 5,
-        difficulty: 8,
-      };
-
-      // Should not throw
-      const result = calculateNextReview(state, 'GOOD', now);
-
-      expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
-      expect(result.state.stability).toBeGreaterThan(0);
+    it('should use the default weights of the selected engine', () => {
+      expect(fsrs5Params.version).toBe('FSRS_5');
+      expect(fsrs5Params.w).toEqual(getFSRSEngine('FSRS_5').defaultWeights);
     });
 
-    it('should handle card with high reps count', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 500,
-        stability: 100,
-        difficulty: 3,
-        lastReview: new Date('2024-09-01T12:00:00Z'),
-      };
-
-      // Should not throw or produce unreasonable values
-      const result = calculateNextReview(state, 'GOOD', now);
+    it('should ignore weights fitted for another engine', () => {
+      const fitted = DEFAULT_FSRS_PARAMETERS.w.map((w) => w * 1.1);
 
-      expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
-      // Interval should not exceed maximum
-      const intervalDays =
-        (result.nextReviewDate.getTime() - now.getTime()) /
-        (1000 * 60 * 60 * 24);
-      expect(intervalDays).toBeLessThanOrEqual(
-        DEFAULT_FSRS_PARAMETERS.maximumInterval,
+      expect(getFSRSParameters(fitted, { version: 'FSRS_5' }).w).toEqual(
+        getFSRSEngine('FSRS_5').defaultWeights,
       );
+      expect(getFSRSParameters(fitted).w).toEqual(fitted);
     });
 
-    it('should handle very old lastReview date', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 10,
-        stability: 30,
-        difficulty: 5,
-        lastReview: new Date('2020-01-01T12:00:00Z'), // 5 years ago
-      };
-
-      // Should not throw
-      const result = calculateNextReview(state, 'GOOD', now);
-
-      expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
+    it("should take the version from the user's settings", () => {
+      expect(
+        resolveSchedulingOverrides(null, { fsrsVersion: 'FSRS_5' }).version,
+      ).toBe('FSRS_5');
     });
 
-    it('should handle early review (nextReview in future)', () => {
+    it('should use short-term stability for same-day reviews with FSRS-5', () => {
       const state: FSRSState = {
         ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
+        state: 'LEARNING',
+        reps: 1,
+        stability: 3,
         difficulty: 5,
-        lastReview: new Date('2024-12-31T12:00:00Z'), // Yesterday
+        lastReview: new Date(now.getTime() - 10 * 60 * 1000),
       };
+      const w = fsrs5Params.w;
 
-      // Reviewing early (only 1 day elapsed when scheduled for 10)
-      const result = calculateNextReview(state, 'GOOD', now);
+      const result = calculateNextReview(state, 'GOOD', now, fsrs5Params);
 
-      expect(result.nextReviewDate.getTime()).toBeGreaterThan(now.getTime());
+      expect(result.state.stability).toBeCloseTo(3 * Math.exp(w[17] * w[18]));
     });
 
-    it('should handle zero stability gracefully', () => {
+    it('should keep stability on same-day HARD with FSRS-4.5', () => {
       const state: FSRSState = {
         ...initializeFSRS(),
         state: 'LEARNING',
         reps: 1,
-        stability: 0,
+        stability: 3,
         difficulty: 5,
+        lastReview: new Date(now.getTime() - 10 * 60 * 1000),
       };
 
-      const result = calculateNextReview(state, 'GOOD', now);
+      const result = calculateNextReview(state, 'HARD', now);
 
-      expect(result.state.stability).toBeGreaterThan(0);
+      expect(result.state.stability).toBe(3);
     });
   });
 
   // ==========================================================================
-  // Stability and Difficulty Tests
+  // SM-2 Engine Tests
   // ==========================================================================
-  describe('Stability and Difficulty', () => {
+  describe('SM-2 Engine', () => {
     const now = new Date('2025-01-01T12:00:00Z');
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const sm2Params = getFSRSParameters(null, { algorithm: 'SM2' });
+    const reviewState: FSRSState = {
+      ...initializeFSRS(),
+      state: 'REVIEW',
+      reps: 5,
+      stability: 10, // interval in days
+      difficulty: 2.5, // ease factor
+      lastReview: new Date(now.getTime() - 10 * DAY_MS),
+    };
+
+    it("should be selected by the deck's algorithm", () => {
+      const overrides = resolveSchedulingOverrides({
+        schedulingAlgorithm: 'SM2',
+      });
 
-    it('should increase stability after successful review (GOOD)', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 5,
-        lastReview: new Date('2024-12-22T12:00:00Z'), // 10 days ago
-      };
+      expect(overrides.algorithm).toBe('SM2');
+      expect(getSchedulingEngine(getFSRSParameters(null, overrides))).toBe(
+        SM2_ENGINE,
+      );
+      expect(getSchedulingEngine(DEFAULT_FSRS_PARAMETERS)).toBe(
+        getFSRSEngine('FSRS_4_5'),
+      );
+    });
 
-      const result = calculateNextReview(state, 'GOOD', now);
+    it('should graduate new cards with the graduating or easy interval', () => {
+      const good = calculateNextReview(
+        initializeFSRS(),
+        'GOOD',
+        now,
+        sm2Params,
+      );
+      const easy = calculateNextReview(
+        initializeFSRS(),
+        'EASY',
+        now,
+        sm2Params,
+      );
 
-      expect(result.state.stability).toBeGreaterThan(state.stability);
+      expect(good.state.state).toBe('REVIEW');
+      expect(good.state.scheduledDays).toBe(1);
+      expect(good.state.difficulty).toBe(2.5);
+      expect(easy.state.scheduledDays).toBe(4);
     });
 
-    it('should increase stability more for EASY than GOOD', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 5,
-        lastReview: new Date('2024-12-22T12:00:00Z'),
-      };
-
-      const goodResult = calculateNextReview(state, 'GOOD', now);
-      const easyResult = calculateNextReview(state, 'EASY', now);
+    it('should use the learning steps like FSRS', () => {
+      const result = calculateNextReview(
+        initializeFSRS(),
+        'AGAIN',
+        now,
+        sm2Params,
+      );
 
-      expect(easyResult.state.stability).toBeGreaterThan(
-        goodResult.state.stability,
+      expect(result.state.state).toBe('LEARNING');
+      expect(result.nextReviewDate.getTime() - now.getTime()).toBe(
+        sm2Params.learningSteps[0] * 60 * 1000,
       );
     });
 
-    it('should decrease/reset stability after AGAIN', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 30,
-        difficulty: 5,
-        lastReview: new Date('2024-12-01T12:00:00Z'),
-      };
+    it('should multiply the interval by the ease factor on GOOD', () => {
+      const result = calculateNextReview(reviewState, 'GOOD', now, sm2Params);
+
+      expect(result.state.scheduledDays).toBe(25);
+      expect(result.state.stability).toBe(25);
+      expect(result.state.difficulty).toBe(2.5);
+    });
 
-      const result = calculateNextReview(state, 'AGAIN', now);
+    it('should adjust the ease factor on HARD and EASY', () => {
+      const hard = calculateNextReview(reviewState, 'HARD', now, sm2Params);
+      const easy = calculateNextReview(reviewState, 'EASY', now, sm2Params);
 
-      expect(result.state.stability).toBeLessThan(state.stability);
+      expect(hard.state.scheduledDays).toBe(12);
+      expect(hard.state.difficulty).toBeCloseTo(2.35);
+      expect(easy.state.scheduledDays).toBe(33);
+      expect(easy.state.difficulty).toBeCloseTo(2.65);
     });
 
-    it('should adjust difficulty based on rating (AGAIN vs EASY)', () => {
-      // FSRS difficulty formula pulls toward mean (w4=4.93) with rating adjustment
-      // For cards with difficulty > mean, AGAIN increases it, EASY decreases it
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 7, // Above mean difficulty
-        lastReview: new Date('2024-12-22T12:00:00Z'),
-      };
+    it('should count half the extra days of a late review on GOOD', () => {
+      const result = calculateNextReview(
+        { ...reviewState, lastReview: new Date(now.getTime() - 14 * DAY_MS) },
+        'GOOD',
+        now,
+        sm2Params,
+      );
 
-      const againResult = calculateNextReview(state, 'AGAIN', now);
-      const easyResult = calculateNextReview(state, 'EASY', now);
+      expect(result.state.scheduledDays).toBe(30);
+    });
 
-      // AGAIN should result in higher difficulty than EASY
-      expect(againResult.state.difficulty).toBeGreaterThan(
-        easyResult.state.difficulty,
+    it('should relearn lapses and graduate with the lapse interval', () => {
+      const lapse = calculateNextReview(reviewState, 'AGAIN', now, sm2Params);
+      const step = calculateNextReview(
+        lapse.state,
+        'GOOD',
+        new Date(now.getTime() + 60 * 1000),
+        sm2Params,
+      );
+      const relearned = calculateNextReview(
+        step.state,
+        'GOOD',
+        new Date(now.getTime() + 11 * 60 * 1000),
+        sm2Params,
       );
+
+      expect(lapse.state.state).toBe('RELEARNING');
+      expect(lapse.state.lapses).toBe(1);
+      expect(lapse.state.difficulty).toBeCloseTo(2.3);
+      expect(step.state.state).toBe('RELEARNING');
+      expect(relearned.state.state).toBe('REVIEW');
+      expect(relearned.state.scheduledDays).toBe(1);
     });
 
-    it('should have AGAIN produce higher difficulty than GOOD', () => {
-      const state: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 5,
-        lastReview: new Date('2024-12-22T12:00:00Z'),
-      };
+    it('should not drop the ease factor below 1.3', () => {
+      const result = calculateNextReview(
+        { ...reviewState, difficulty: 1.35 },
+        'AGAIN',
+        now,
+        sm2Params,
+      );
 
-      const againResult = calculateNextReview(state, 'AGAIN', now);
-      const goodResult = calculateNextReview(state, 'GOOD', now);
+      expect(result.state.difficulty).toBe(1.3);
+    });
 
-      expect(againResult.state.difficulty).toBeGreaterThan(
-        goodResult.state.difficulty,
+    it('should report 90% recall when a card is due', () => {
+      expect(getCurrentRetrievability(reviewState, now, sm2Params)).toBeCloseTo(
+        0.9,
+        2,
       );
     });
+  });
 
-    it('should keep difficulty within valid range (1-10)', () => {
-      // Test with very low difficulty
-      const lowDiffState: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 1,
-        lastReview: new Date('2024-12-22T12:00:00Z'),
-      };
+  // ==========================================================================
+  // Algorithm Conversion Tests
+  // ==========================================================================
+  describe('convertSchedulingState', () => {
+    const sm2State: FSRSState = {
+      ...initializeFSRS(),
+      state: 'REVIEW',
+      reps: 8,
+      stability: 40,
+      difficulty: 2.5,
+      lastReview: new Date('2025-01-01T12:00:00Z'),
+    };
+
+    it('should return the state unchanged for the same algorithm', () => {
+      expect(convertSchedulingState(sm2State, 'SM2', 'SM2')).toBe(sm2State);
+    });
 
-      const easyResult = calculateNextReview(lowDiffState, 'EASY', now);
-      expect(easyResult.state.difficulty).toBeGreaterThanOrEqual(1);
+    it('should restart the memory state of cards that never graduated', () => {
+      const converted = convertSchedulingState(
+        { ...sm2State, state: 'LEARNING', stability: 1 },
+        'SM2',
+        'FSRS',
+      );
 
-      // Test with very high difficulty
-      const highDiffState: FSRSState = {
-        ...initializeFSRS(),
-        state: 'REVIEW',
-        reps: 5,
-        stability: 10,
-        difficulty: 10,
-        lastReview: new Date('2024-12-22T12:00:00Z'),
-      };
+      expect(converted.stability).toBe(0);
+      expect(converted.difficulty).toBe(0);
+      expect(converted.state).toBe('LEARNING');
+    });
+
+    it('should map the SM-2 interval to FSRS stability', () => {
+      const converted = convertSchedulingState(sm2State, 'SM2', 'FSRS');
+
+      expect(converted.stability).toBe(40);
+      expect(converted.reps).toBe(8);
+      expect(converted.difficulty).toBeGreaterThanOrEqual(1);
+      expect(converted.difficulty).toBeLessThanOrEqual(10);
+    });
 
-      const againResult = calculateNextReview(highDiffState, 'AGAIN', now);
-      expect(againResult.state.difficulty).toBeLessThanOrEqual(10);
+    it('should map a higher ease factor to a lower difficulty', () => {
+      const hard = convertSchedulingState(
+        { ...sm2State, difficulty: 1.8 },
+        'SM2',
+        'FSRS',
+      );
+      const easy = convertSchedulingState(
+        { ...sm2State, difficulty: 2.8 },
+        'SM2',
+        'FSRS',
+      );
+
+      expect(easy.difficulty).toBeLessThan(hard.difficulty);
     });
+
+    it.each(FSRS_VERSIONS)(
+      'should round-trip FSRS difficulty through SM-2 with %s',
+      (version) => {
+        const params = getFSRSParameters(null, { version });
+        const fsrsState: FSRSState = {
+          ...sm2State,
+          stability: 10,
+          difficulty: 6,
+        };
+
+        const sm2 = convertSchedulingState(fsrsState, 'FSRS', 'SM2', params);
+        const back = convertSchedulingState(sm2, 'SM2', 'FSRS', params);
+
+        expect(sm2.stability).toBe(10);
+        expect(sm2.difficulty).toBeGreaterThan(1.3);
+        expect(back.difficulty).toBeCloseTo(6);
+      },
+    );
   });
 
   // ==========================================================================
@@ -608,6 +1364,13 @@ describe('FSRS Algorithm', () => {
       expect(DEFAULT_FSRS_PARAMETERS.requestRetention).toBe(0.9);
       expect(DEFAULT_FSRS_PARAMETERS.maximumInterval).toBe(36500);
       expect(DEFAULT_FSRS_PARAMETERS.w).toHaveLength(17);
+      expect(DEFAULT_FSRS_PARAMETERS.version).toBe('FSRS_4_5');
+    });
+
+    it('should have an engine for every FSRS version', () => {
+      expect(FSRS_VERSIONS).toEqual(['FSRS_4_5', 'FSRS_5']);
+      expect(getFSRSEngine('FSRS_4_5').defaultWeights).toHaveLength(17);
+      expect(getFSRSEngine('FSRS_5').defaultWeights).toHaveLength(19);
     });
   });
 });
@@ -0,0 +1,269 @@
+import {
+  applyLeechAction,
+  getLeechReport,
+  handleLeech,
+  isNewLeech,
+  LEECH_TAG_NAME,
+} from '../leech';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    card: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    tag: {
+      upsert: jest.fn(),
+    },
+    cardTag: {
+      createMany: jest.fn(),
+    },
+    review: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Leech Service', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.tag.upsert as jest.Mock).mockResolvedValue({ id: 'tag-1' });
+    (mockPrisma.cardTag.createMany as jest.Mock).mockResolvedValue({
+      count: 1,
+    });
+    (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('isNewLeech', () => {
+    it('should be true when lapses reach the threshold', () => {
+      expect(isNewLeech(7, 8, 8)).toBe(true);
+    });
+
+    it('should be false below the threshold', () => {
+      expect(isNewLeech(6, 7, 8)).toBe(false);
+    });
+
+    it('should be false for cards that were already leeches', () => {
+      expect(isNewLeech(8, 9, 8)).toBe(false);
+    });
+  });
+
+  describe('applyLeechAction', () => {
+    it('should tag the card with TAG', async () => {
+      const result = await applyLeechAction('user-1', 'card-1', 'TAG', now);
+
+      expect(mockPrisma.tag.upsert).toHaveBeenCalledWith({
+        where: { userId_name: { userId: 'user-1', name: LEECH_TAG_NAME } },
+        create: { userId: 'user-1', name: LEECH_TAG_NAME },
+        update: {},
+      });
+      expect(mockPrisma.cardTag.createMany).toHaveBeenCalledWith({
+        data: [{ cardId: 'card-1', tagId: 'tag-1' }],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+      expect(result).toEqual({ tagged: true, suspended: false });
+    });
+
+    it('should suspend the card with SUSPEND', async () => {
+      const result = await applyLeechAction('user-1', 'card-1', 'SUSPEND', now);
+
+      expect(mockPrisma.tag.upsert).not.toHaveBeenCalled();
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-1', suspendedAt: null },
+        data: { suspendedAt: now },
+      });
+      expect(result).toEqual({ tagged: false, suspended: true });
+    });
+
+    it('should tag and suspend the card with TAG_AND_SUSPEND', async () => {
+      await applyLeechAction('user-1', 'card-1', 'TAG_AND_SUSPEND', now);
+
+      expect(mockPrisma.cardTag.createMany).toHaveBeenCalled();
+      expect(mockPrisma.card.updateMany).toHaveBeenCalled();
+    });
+
+    it('should report a tag or suspension the card already had as unchanged', async () => {
+      (mockPrisma.cardTag.createMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+      (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        applyLeechAction('user-1', 'card-1', 'TAG_AND_SUSPEND', now),
+      ).resolves.toEqual({ tagged: false, suspended: false });
+    });
+  });
+
+  describe('handleLeech', () => {
+    const settings = { leechThreshold: 3, leechAction: 'SUSPEND' as const };
+
+    it('should apply the action when the card becomes a leech', async () => {
+      const leech = await handleLeech({
+        userId: 'user-1',
+        cardId: 'card-1',
+        reviewId: 'review-1',
+        lapsesBefore: 2,
+        lapsesAfter: 3,
+        settings,
+        now,
+      });
+
+      expect(leech).toBe(true);
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 'card-1', suspendedAt: null },
+        data: { suspendedAt: now },
+      });
+      expect(mockPrisma.review.update).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+        data: { leechTagged: false, leechSuspended: true },
+      });
+    });
+
+    it('should not record an action that changed nothing', async () => {
+      (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+
+      const leech = await handleLeech({
+        userId: 'user-1',
+        cardId: 'card-1',
+        reviewId: 'review-1',
+        lapsesBefore: 2,
+        lapsesAfter: 3,
+        settings,
+        now,
+      });
+
+      expect(leech).toBe(true);
+      expect(mockPrisma.review.update).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing otherwise', async () => {
+      const leech = await handleLeech({
+        userId: 'user-1',
+        cardId: 'card-1',
+        reviewId: 'review-1',
+        lapsesBefore: 2,
+        lapsesAfter: 2,
+        settings,
+        now,
+      });
+
+      expect(leech).toBe(false);
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLeechReport', () => {
+    it('should throw USER_NOT_FOUND for unknown users', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(getLeechReport('user-1')).rejects.toThrow('USER_NOT_FOUND');
+    });
+
+    it('should group leeches by deck', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        leechThreshold: 8,
+      });
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'card-1',
+          front: 'Q1',
+          back: 'A1',
+          lapses: 10,
+          suspendedAt: now,
+          deck: { id: 'deck-1', title: 'Deck 1' },
+          cardTags: [],
+        },
+        {
+          id: 'card-2',
+          front: 'Q2',
+          back: 'A2',
+          lapses: 9,
+          suspendedAt: null,
+          deck: { id: 'deck-2', title: 'Deck 2' },
+          cardTags: [{ id: 'ct-1' }],
+        },
+        {
+          id: 'card-3',
+          front: 'Q3',
+          back: 'A3',
+          lapses: 8,
+          suspendedAt: null,
+          deck: { id: 'deck-1', title: 'Deck 1' },
+          cardTags: [{ id: 'ct-2' }],
+        },
+      ]);
+
+      const report = await getLeechReport('user-1');
+
+      expect(report).toEqual([
+        {
+          deckId: 'deck-1',
+          deckTitle: 'Deck 1',
+          cards: [
+            {
+              id: 'card-1',
+              front: 'Q1',
+              back: 'A1',
+              lapses: 10,
+              suspendedAt: now,
+              tagged: false,
+            },
+            {
+              id: 'card-3',
+              front: 'Q3',
+              back: 'A3',
+              lapses: 8,
+              suspendedAt: null,
+              tagged: true,
+            },
+          ],
+        },
+        {
+          deckId: 'deck-2',
+          deckTitle: 'Deck 2',
+          cards: [
+            {
+              id: 'card-2',
+              front: 'Q2',
+              back: 'A2',
+              lapses: 9,
+              suspendedAt: null,
+              tagged: true,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should filter by deck', async () => {
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({
+        leechThreshold: 8,
+      });
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getLeechReport('user-1', 'deck-1');
+
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deck: { userId: 'user-1', id: 'deck-1' },
+          }),
+        }),
+      );
+    });
+  });
+});
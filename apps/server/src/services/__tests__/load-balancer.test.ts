@@ -0,0 +1,251 @@
+import {
+  getFuzzSeed,
+  pickBalancedInterval,
+  getDueCountsByInterval,
+  scheduleReview,
+} from '../load-balancer';
+import {
+  calculateNextReview,
+  createSeededRandom,
+  getFSRSParameters,
+  getFuzzRange,
+  initializeFSRS,
+  DEFAULT_FSRS_PARAMETERS,
+  type FSRSState,
+} from '../fsrs';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Load Balancer Service', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const reviewState: FSRSState = {
+    ...initializeFSRS(),
+    state: 'REVIEW',
+    reps: 5,
+    stability: 20,
+    difficulty: 5,
+    lastReview: new Date(now.getTime() - 20 * DAY_MS),
+  };
+  const fuzzParams = getFSRSParameters(null, { enableFuzz: true });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('getFuzzRange', () => {
+    it('should not fuzz short intervals', () => {
+      expect(getFuzzRange(2, 0)).toEqual({ minInterval: 2, maxInterval: 2 });
+    });
+
+    it('should widen the range for longer intervals', () => {
+      const short = getFuzzRange(5, 0);
+      const long = getFuzzRange(100, 0);
+
+      expect(short.minInterval).toBeLessThan(5);
+      expect(short.maxInterval).toBeGreaterThan(5);
+      expect(long.maxInterval - long.minInterval).toBeGreaterThan(
+        short.maxInterval - short.minInterval,
+      );
+    });
+
+    it('should not schedule sooner than the elapsed days', () => {
+      expect(getFuzzRange(30, 29).minInterval).toBe(30);
+    });
+
+    it('should respect the maximum interval', () => {
+      expect(getFuzzRange(100, 0, 100).maxInterval).toBe(100);
+    });
+  });
+
+  describe('createSeededRandom', () => {
+    it('should return the same sequence for the same seed', () => {
+      const a = createSeededRandom(getFuzzSeed('card-1', 3));
+      const b = createSeededRandom(getFuzzSeed('card-1', 3));
+
+      expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    });
+
+    it('should return different sequences for different seeds', () => {
+      expect(createSeededRandom('card-1:3')()).not.toBe(
+        createSeededRandom('card-2:3')(),
+      );
+    });
+  });
+
+  describe('pickBalancedInterval', () => {
+    const range = { minInterval: 10, maxInterval: 14 };
+
+    it('should pick the day with the fewest cards due', () => {
+      const interval = pickBalancedInterval(
+        range,
+        [5, 3, 8, 1, 4],
+        createSeededRandom('seed'),
+      );
+
+      expect(interval).toBe(13);
+    });
+
+    it('should break ties within the least loaded days', () => {
+      const picks = new Set(
+        ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((seed) =>
+          pickBalancedInterval(
+            range,
+            [2, 0, 2, 0, 2],
+            createSeededRandom(seed),
+          ),
+        ),
+      );
+
+      expect([...picks].every((i) => i === 11 || i === 13)).toBe(true);
+    });
+  });
+
+  describe('getDueCountsByInterval', () => {
+    it("should bucket the user's due cards by interval", async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        { nextReviewDate: new Date(now.getTime() + 10 * DAY_MS) },
+        { nextReviewDate: new Date(now.getTime() + 10.4 * DAY_MS) },
+        { nextReviewDate: new Date(now.getTime() + 12 * DAY_MS) },
+      ]);
+
+      const counts = await getDueCountsByInterval(
+        'user-1',
+        now,
+        { minInterval: 10, maxInterval: 12 },
+        'card-1',
+      );
+
+      expect(counts).toEqual([2, 0, 1]);
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deck: { userId: 'user-1' },
+            id: { not: 'card-1' },
+          }),
+        }),
+      );
+    });
+
+    it('should not count suspended, snoozed or buried cards', async () => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getDueCountsByInterval('user-1', now, {
+        minInterval: 10,
+        maxInterval: 12,
+      });
+
+      const windowStart = new Date(now.getTime() + 9.5 * DAY_MS);
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                OR: [
+                  { snoozedUntil: null },
+                  { snoozedUntil: { lte: windowStart } },
+                ],
+              },
+              { suspendedAt: null },
+              {
+                OR: [
+                  { buriedUntil: null },
+                  { buriedUntil: { lte: windowStart } },
+                ],
+              },
+            ],
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('scheduleReview', () => {
+    const options = {
+      userId: 'user-1',
+      cardId: 'card-1',
+      currentState: reviewState,
+      rating: 'GOOD' as const,
+      reviewTime: now,
+    };
+
+    it('should match calculateNextReview when fuzz is disabled', async () => {
+      const result = await scheduleReview({
+        ...options,
+        params: DEFAULT_FSRS_PARAMETERS,
+      });
+
+      expect(result).toEqual(calculateNextReview(reviewState, 'GOOD', now));
+      expect(mockPrisma.card.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the interval within the fuzz range', async () => {
+      const plain = calculateNextReview(reviewState, 'GOOD', now);
+      const range = getFuzzRange(
+        plain.state.scheduledDays,
+        plain.state.elapsedDays,
+      );
+
+      const result = await scheduleReview({ ...options, params: fuzzParams });
+
+      expect(result.state.scheduledDays).toBeGreaterThanOrEqual(
+        range.minInterval,
+      );
+      expect(result.state.scheduledDays).toBeLessThanOrEqual(range.maxInterval);
+      expect(result.nextReviewDate.getTime()).toBe(
+        now.getTime() + result.state.scheduledDays * DAY_MS,
+      );
+    });
+
+    it('should be reproducible for the same card and repetition', async () => {
+      const a = await scheduleReview({ ...options, params: fuzzParams });
+      const b = await scheduleReview({ ...options, params: fuzzParams });
+
+      expect(a).toEqual(b);
+    });
+
+    it('should move the card away from a busy day', async () => {
+      const plain = calculateNextReview(reviewState, 'GOOD', now);
+      const range = getFuzzRange(
+        plain.state.scheduledDays,
+        plain.state.elapsedDays,
+      );
+      // Every day in the range is busy except the last one
+      const busyDays = [];
+      for (let d = range.minInterval; d < range.maxInterval; d++) {
+        busyDays.push({ nextReviewDate: new Date(now.getTime() + d * DAY_MS) });
+      }
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue(busyDays);
+
+      const result = await scheduleReview({ ...options, params: fuzzParams });
+
+      expect(result.state.scheduledDays).toBe(range.maxInterval);
+    });
+
+    it('should not fuzz learning steps', async () => {
+      const result = await scheduleReview({
+        ...options,
+        currentState: initializeFSRS(),
+        rating: 'AGAIN',
+        params: fuzzParams,
+      });
+
+      expect(result).toEqual(
+        calculateNextReview(initializeFSRS(), 'AGAIN', now, fuzzParams),
+      );
+      expect(mockPrisma.card.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
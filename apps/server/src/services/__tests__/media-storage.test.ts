@@ -0,0 +1,40 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createLocalDiskStorage } from '../media-storage';
+
+describe('Media Storage', () => {
+  describe('createLocalDiskStorage', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = await mkdtemp(path.join(tmpdir(), 'media-'));
+    });
+
+    afterEach(async () => {
+      await rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete files by key', async () => {
+      const storage = createLocalDiskStorage(rootDir);
+
+      await storage.put('user-1/a.png', Buffer.from('png'), 'image/png');
+      await expect(storage.get('user-1/a.png')).resolves.toEqual(
+        Buffer.from('png'),
+      );
+
+      await storage.delete('user-1/a.png');
+      await expect(storage.get('user-1/a.png')).resolves.toBeNull();
+      // Deleting twice is fine
+      await expect(storage.delete('user-1/a.png')).resolves.toBeUndefined();
+    });
+
+    it('should reject keys outside the root directory', async () => {
+      const storage = createLocalDiskStorage(rootDir);
+
+      await expect(storage.get('../secret')).rejects.toThrow(
+        'INVALID_STORAGE_KEY',
+      );
+    });
+  });
+});
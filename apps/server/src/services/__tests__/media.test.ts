@@ -0,0 +1,160 @@
+import {
+  collectUnreferencedMedia,
+  deleteMedia,
+  getMediaIds,
+  uploadMedia,
+} from '../media';
+import { setMediaStorage, type MediaStorage } from '../media-storage';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    media: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    card: {
+      count: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const storage: jest.Mocked<MediaStorage> = {
+  put: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+};
+
+const media = {
+  id: 'media1',
+  userId: 'user-1',
+  storageKey: 'user-1/abc.png',
+  mimeType: 'image/png',
+  size: 3,
+  filename: 'heart.png',
+  createdAt: new Date('2025-01-01'),
+};
+
+describe('Media Service', () => {
+  beforeAll(() => {
+    setMediaStorage(storage);
+  });
+
+  afterAll(() => {
+    setMediaStorage(null);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getMediaIds', () => {
+    it('should find each referenced media once', () => {
+      expect(
+        getMediaIds(
+          '![heart](media:abc123) and ![](media:def456), again ![x](media:abc123)',
+        ),
+      ).toEqual(['abc123', 'def456']);
+    });
+  });
+
+  describe('uploadMedia', () => {
+    it("should store the file under the user's key", async () => {
+      (mockPrisma.media.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'media1', ...data }),
+      );
+
+      await uploadMedia('user-1', {
+        data: Buffer.from('png'),
+        mimeType: 'image/png; charset=binary',
+        filename: ' heart.png ',
+      });
+
+      expect(storage.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^user-1\/[0-9a-f-]+\.png$/),
+        Buffer.from('png'),
+        'image/png',
+      );
+      expect(mockPrisma.media.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          mimeType: 'image/png',
+          size: 3,
+          filename: 'heart.png',
+        }),
+      });
+    });
+
+    it('should reject unsupported types', async () => {
+      await expect(
+        uploadMedia('user-1', {
+          data: Buffer.from('<svg/>'),
+          mimeType: 'image/svg+xml',
+        }),
+      ).rejects.toThrow('UNSUPPORTED_MEDIA_TYPE');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMedia', () => {
+    it('should refuse to delete media a card still uses', async () => {
+      (mockPrisma.media.findUnique as jest.Mock).mockResolvedValue(media);
+      (mockPrisma.card.count as jest.Mock).mockResolvedValue(1);
+
+      await expect(deleteMedia('user-1', 'media1')).rejects.toThrow(
+        'MEDIA_IN_USE',
+      );
+      expect(storage.delete).not.toHaveBeenCalled();
+    });
+
+    it("should not reveal another user's media", async () => {
+      (mockPrisma.media.findUnique as jest.Mock).mockResolvedValue({
+        ...media,
+        userId: 'user-2',
+      });
+
+      await expect(deleteMedia('user-1', 'media1')).rejects.toThrow(
+        'MEDIA_NOT_FOUND',
+      );
+    });
+  });
+
+  describe('collectUnreferencedMedia', () => {
+    it('should delete media no remaining card references', async () => {
+      (mockPrisma.media.findMany as jest.Mock).mockResolvedValue([
+        media,
+        { ...media, id: 'media2', storageKey: 'user-1/def.mp3' },
+      ]);
+      // media1 is still used by another card
+      (mockPrisma.card.count as jest.Mock)
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0);
+
+      const deleted = await collectUnreferencedMedia('user-1', [
+        '![heart](media:media1)',
+        '![](media:media2)',
+      ]);
+
+      expect(deleted).toBe(1);
+      expect(mockPrisma.media.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', id: { in: ['media1', 'media2'] } },
+      });
+      expect(mockPrisma.media.delete).toHaveBeenCalledWith({
+        where: { id: 'media2' },
+      });
+      expect(storage.delete).toHaveBeenCalledWith('user-1/def.mp3');
+    });
+
+    it('should not query anything for cards without media', async () => {
+      await expect(
+        collectUnreferencedMedia('user-1', ['Question', 'Answer']),
+      ).resolves.toBe(0);
+      expect(mockPrisma.media.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
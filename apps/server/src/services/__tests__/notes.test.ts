@@ -0,0 +1,292 @@
+import {
+  createNote,
+  createNoteType,
+  renderNoteCards,
+  renderTemplate,
+  updateNote,
+} from '../notes';
+import { prisma } from '@/lib/prisma';
+import { recordCardRevision } from '@/services/card-revisions';
+import { collectUnreferencedMedia } from '@/services/media';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    deck: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    noteType: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    note: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    card: {
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/card-revisions', () => ({
+  recordCardRevision: jest.fn(),
+}));
+
+jest.mock('@/services/media', () => ({
+  collectUnreferencedMedia: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const reversedTemplates = [
+  { ordinal: 1, front: '{{Front}}', back: '{{Back}}' },
+  { ordinal: 2, front: '{{Back}}', back: '{{Front}}' },
+];
+
+const reversedType = {
+  id: 'basic-and-reversed',
+  name: 'Basic (and reversed card)',
+  userId: null,
+  fields: ['Front', 'Back'],
+  templates: reversedTemplates,
+};
+
+const deck = {
+  id: 'deck-1',
+  userId: 'user-1',
+  schedulingAlgorithm: 'FSRS',
+};
+
+describe('Notes Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.card.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: `card-${data.templateOrdinal}`, ...data }),
+    );
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((fn) =>
+      fn(mockPrisma),
+    );
+  });
+
+  describe('renderTemplate', () => {
+    it('should replace placeholders and blank missing fields', () => {
+      expect(
+        renderTemplate('{{Word}} ({{ Gender }}) {{Missing}}', {
+          Word: 'Hund',
+          Gender: 'der',
+        }),
+      ).toBe('Hund (der) ');
+    });
+  });
+
+  describe('renderNoteCards', () => {
+    it('should skip templates whose front renders empty', () => {
+      expect(renderNoteCards(reversedTemplates, { Front: 'dog' })).toEqual([
+        { templateOrdinal: 1, front: 'dog', back: '' },
+      ]);
+    });
+  });
+
+  describe('createNoteType', () => {
+    it('should reject templates using unknown fields', async () => {
+      await expect(
+        createNoteType('user-1', {
+          name: 'Vocab',
+          fields: ['Word'],
+          templates: [
+            { name: 'Card 1', front: '{{Word}}', back: '{{Meaning}}' },
+          ],
+        }),
+      ).rejects.toThrow('UNKNOWN_TEMPLATE_FIELD');
+      expect(mockPrisma.noteType.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createNote', () => {
+    beforeEach(() => {
+      (mockPrisma.deck.findUnique as jest.Mock).mockResolvedValue(deck);
+      (mockPrisma.noteType.findUnique as jest.Mock).mockResolvedValue(
+        reversedType,
+      );
+      (mockPrisma.note.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({
+          id: 'note-1',
+          noteTypeId: data.noteTypeId,
+          deckId: data.deckId,
+          fields: data.fields,
+          cards: data.cards.create,
+        }),
+      );
+    });
+
+    it('should create the note with one card per rendered template', async () => {
+      const note = await createNote('user-1', {
+        noteTypeId: 'basic-and-reversed',
+        deckId: 'deck-1',
+        fields: { Front: 'Hund', Back: 'dog' },
+      });
+
+      expect(note.cards.map((card) => [card.front, card.back])).toEqual([
+        ['Hund', 'dog'],
+        ['dog', 'Hund'],
+      ]);
+      expect(mockPrisma.note.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cards: {
+            create: [
+              expect.objectContaining({ templateOrdinal: 1 }),
+              expect.objectContaining({
+                templateOrdinal: 2,
+                deckId: 'deck-1',
+                state: 'NEW',
+              }),
+            ],
+          },
+        }),
+        include: { cards: { orderBy: { templateOrdinal: 'asc' } } },
+      });
+      expect(mockPrisma.card.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject another user's note type", async () => {
+      (mockPrisma.noteType.findUnique as jest.Mock).mockResolvedValue({
+        ...reversedType,
+        userId: 'user-2',
+      });
+
+      await expect(
+        createNote('user-1', {
+          noteTypeId: 'basic-and-reversed',
+          deckId: 'deck-1',
+          fields: { Front: 'Hund' },
+        }),
+      ).rejects.toThrow('NOTE_TYPE_NOT_FOUND');
+    });
+
+    it('should reject fields the note type does not have', async () => {
+      await expect(
+        createNote('user-1', {
+          noteTypeId: 'basic-and-reversed',
+          deckId: 'deck-1',
+          fields: { Front: 'Hund', Plural: 'Hunde' },
+        }),
+      ).rejects.toThrow('UNKNOWN_FIELD');
+      expect(mockPrisma.note.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject notes that render no card', async () => {
+      await expect(
+        createNote('user-1', {
+          noteTypeId: 'basic-and-reversed',
+          deckId: 'deck-1',
+          fields: { Front: ' ', Back: '' },
+        }),
+      ).rejects.toThrow('NOTE_WITHOUT_CARDS');
+    });
+  });
+
+  describe('updateNote', () => {
+    const hundCard = {
+      id: 'card-1',
+      templateOrdinal: 1,
+      front: 'Hund',
+      back: '',
+      reps: 5,
+    };
+
+    function mockNote(fields: Record<string, string>, cards: unknown[]) {
+      (mockPrisma.note.findUnique as jest.Mock).mockResolvedValue({
+        id: 'note-1',
+        noteTypeId: 'basic-and-reversed',
+        deckId: 'deck-1',
+        fields,
+        noteType: reversedType,
+        cards,
+        deck: { userId: 'user-1' },
+      });
+      (mockPrisma.deck.findUniqueOrThrow as jest.Mock).mockResolvedValue(deck);
+    }
+
+    it('should re-render cards in place and add newly rendered ones', async () => {
+      mockNote({ Front: 'Hund', Back: '' }, [hundCard]);
+
+      await updateNote('user-1', 'note-1', { Back: 'dog' }, 'MOBILE');
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.note.update).toHaveBeenCalledWith({
+        where: { id: 'note-1' },
+        data: { fields: { Front: 'Hund', Back: 'dog' } },
+      });
+      // Only the content changes, so the card keeps its scheduling
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: { front: 'Hund', back: 'dog' },
+      });
+      expect(mockPrisma.card.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.card.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          noteId: 'note-1',
+          templateOrdinal: 2,
+          front: 'dog',
+          back: 'Hund',
+        }),
+      });
+      expect(mockPrisma.card.deleteMany).not.toHaveBeenCalled();
+      // The revision is written in the same transaction
+      expect(recordCardRevision).toHaveBeenCalledWith(
+        hundCard,
+        expect.objectContaining({ front: 'Hund', back: 'dog' }),
+        'MOBILE',
+        undefined,
+        mockPrisma,
+      );
+    });
+
+    it('should delete cards whose template no longer renders a front', async () => {
+      const dogCard = {
+        id: 'card-2',
+        templateOrdinal: 2,
+        front: 'dog',
+        back: 'Hund',
+      };
+      mockNote({ Front: 'Hund', Back: 'dog' }, [hundCard, dogCard]);
+
+      await updateNote('user-1', 'note-1', { Back: '' });
+
+      expect(mockPrisma.card.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['card-2'] } },
+      });
+      expect(collectUnreferencedMedia).toHaveBeenCalledWith('user-1', [
+        'dog',
+        'Hund',
+      ]);
+    });
+
+    it('should throw NOTE_WITHOUT_CARDS if no template renders a card', async () => {
+      mockNote({ Front: 'Hund', Back: '' }, [hundCard]);
+
+      await expect(
+        updateNote('user-1', 'note-1', { Front: '' }),
+      ).rejects.toThrow('NOTE_WITHOUT_CARDS');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject another user's note", async () => {
+      (mockPrisma.note.findUnique as jest.Mock).mockResolvedValue({
+        id: 'note-1',
+        deck: { userId: 'user-2' },
+      });
+
+      await expect(
+        updateNote('user-1', 'note-1', { Back: 'dog' }),
+      ).rejects.toThrow('NOTE_NOT_OWNED');
+      expect(mockPrisma.note.update).not.toHaveBeenCalled();
+    });
+  });
+});
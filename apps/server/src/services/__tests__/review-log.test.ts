@@ -0,0 +1,150 @@
+import { buildReviewLogData, backfillReviewLog } from '../review-log';
+import { initializeFSRS, calculateNextReview } from '../fsrs';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    review: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Review Log Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.review.update as jest.Mock).mockImplementation((args) => args);
+    (mockPrisma.$transaction as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('buildReviewLogData', () => {
+    it('should map the before and after states onto review fields', () => {
+      const before = initializeFSRS();
+      const dueBefore = new Date('2024-01-01T00:00:00.000Z');
+      const { state: after, nextReviewDate } = calculateNextReview(
+        before,
+        'GOOD',
+        dueBefore,
+      );
+
+      const notifiedAt = new Date('2023-12-31T09:00:00.000Z');
+
+      const data = buildReviewLogData(
+        before,
+        {
+          nextReviewDate: dueBefore,
+          fsrsVersion: 'FSRS_5',
+          schedulingAlgorithm: 'FSRS',
+          lastNotificationSent: notifiedAt,
+        },
+        after,
+        nextReviewDate,
+      );
+
+      expect(data).toEqual({
+        stateBefore: 'NEW',
+        stabilityBefore: 0,
+        difficultyBefore: 0,
+        elapsedDaysBefore: 0,
+        scheduledDaysBefore: 0,
+        repsBefore: 0,
+        lapsesBefore: 0,
+        learningStepBefore: 0,
+        lastReviewBefore: null,
+        nextReviewDateBefore: dueBefore,
+        fsrsVersionBefore: 'FSRS_5',
+        schedulingAlgorithmBefore: 'FSRS',
+        lastNotificationSentBefore: notifiedAt,
+        stateAfter: 'REVIEW',
+        stabilityAfter: after.stability,
+        difficultyAfter: after.difficulty,
+        elapsedDaysAfter: after.elapsedDays,
+        scheduledDaysAfter: after.scheduledDays,
+        nextReviewDate,
+      });
+    });
+  });
+
+  describe('backfillReviewLog', () => {
+    const cardCreatedAt = new Date('2024-01-01T00:00:00.000Z');
+    const legacyReview = (id: string, rating: string, createdAt: Date) => ({
+      id,
+      cardId: 'card-1',
+      rating,
+      createdAt,
+      stateAfter: null,
+      card: { createdAt: cardCreatedAt },
+    });
+
+    it('should do nothing when every review has a log', async () => {
+      (mockPrisma.review.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      const result = await backfillReviewLog();
+
+      expect(result).toEqual({ cardCount: 0, reviewCount: 0 });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should replay a card history and fill in each review', async () => {
+      const first = new Date(cardCreatedAt.getTime() + DAY_MS);
+      const second = new Date(first.getTime() + 5 * DAY_MS);
+
+      (mockPrisma.review.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ cardId: 'card-1' }])
+        .mockResolvedValueOnce([
+          legacyReview('review-1', 'GOOD', first),
+          legacyReview('review-2', 'GOOD', second),
+        ]);
+
+      const result = await backfillReviewLog();
+
+      expect(result).toEqual({ cardCount: 1, reviewCount: 2 });
+
+      const updates = (mockPrisma.$transaction as jest.Mock).mock.calls[0][0];
+      expect(updates).toHaveLength(2);
+
+      // First review starts from a new card that was due on creation
+      expect(updates[0].where).toEqual({ id: 'review-1' });
+      expect(updates[0].data.stateBefore).toBe('NEW');
+      expect(updates[0].data.nextReviewDateBefore).toEqual(cardCreatedAt);
+      expect(updates[0].data.stateAfter).toBe('REVIEW');
+
+      // Second review continues from the first review's after-state
+      expect(updates[1].data.stateBefore).toBe('REVIEW');
+      expect(updates[1].data.stabilityBefore).toBe(
+        updates[0].data.stabilityAfter,
+      );
+      expect(updates[1].data.lastReviewBefore).toEqual(first);
+      expect(updates[1].data.nextReviewDateBefore).toEqual(
+        updates[0].data.nextReviewDate,
+      );
+    });
+
+    it('should leave reviews that already have a log untouched', async () => {
+      const first = new Date(cardCreatedAt.getTime() + DAY_MS);
+      const second = new Date(first.getTime() + 5 * DAY_MS);
+
+      (mockPrisma.review.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ cardId: 'card-1' }])
+        .mockResolvedValueOnce([
+          legacyReview('review-1', 'AGAIN', first),
+          { ...legacyReview('review-2', 'GOOD', second), stateAfter: 'REVIEW' },
+        ]);
+
+      const result = await backfillReviewLog();
+
+      expect(result.reviewCount).toBe(1);
+      const updates = (mockPrisma.$transaction as jest.Mock).mock.calls[0][0];
+      expect(updates.map((u: { where: { id: string } }) => u.where.id)).toEqual(
+        ['review-1'],
+      );
+    });
+  });
+});
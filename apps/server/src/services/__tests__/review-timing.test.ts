@@ -0,0 +1,174 @@
+import { buildReviewTimingData, getTimingStats } from '../review-timing';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    review: {
+      groupBy: jest.fn(),
+    },
+    sprintCard: {
+      groupBy: jest.fn(),
+    },
+    card: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+function group(
+  cardId: string,
+  stateBefore: string | null,
+  durations: [number, number],
+  reveals: [number, number] = [0, 0],
+) {
+  return {
+    cardId,
+    stateBefore,
+    _sum: {
+      durationMs: durations[0],
+      timeToRevealMs: reveals[1] > 0 ? reveals[0] : null,
+      timeToRateMs: null,
+    },
+    _count: {
+      durationMs: durations[1],
+      timeToRevealMs: reveals[1],
+      timeToRateMs: 0,
+    },
+  };
+}
+
+function crammedGroup(
+  cardId: string,
+  cardState: string,
+  durations: [number, number],
+) {
+  const { stateBefore: _stateBefore, ...rest } = group(cardId, null, durations);
+  return { ...rest, cardState };
+}
+
+describe('Review Timing Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildReviewTimingData', () => {
+    it('should keep a reported total', () => {
+      expect(
+        buildReviewTimingData({
+          durationMs: 6000,
+          timeToRevealMs: 3000,
+          timeToRateMs: 2000,
+        }),
+      ).toEqual({ durationMs: 6000, timeToRevealMs: 3000, timeToRateMs: 2000 });
+    });
+
+    it('should add up the parts when no total is reported', () => {
+      expect(
+        buildReviewTimingData({ timeToRevealMs: 3000, timeToRateMs: 2000 }),
+      ).toEqual({ durationMs: 5000, timeToRevealMs: 3000, timeToRateMs: 2000 });
+    });
+
+    it('should leave the total empty when a part is missing', () => {
+      expect(buildReviewTimingData({ timeToRevealMs: 3000 })).toEqual({
+        durationMs: undefined,
+        timeToRevealMs: 3000,
+        timeToRateMs: undefined,
+      });
+    });
+  });
+
+  describe('getTimingStats', () => {
+    beforeEach(() => {
+      (mockPrisma.card.findMany as jest.Mock).mockResolvedValue([
+        { id: 'card-1', front: 'Fast', deck: { id: 'deck-1', title: 'A' } },
+        { id: 'card-2', front: 'Slow', deck: { id: 'deck-1', title: 'A' } },
+        { id: 'card-3', front: 'Medium', deck: { id: 'deck-2', title: 'B' } },
+      ]);
+      (mockPrisma.sprintCard.groupBy as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should return empty stats without timed reviews', async () => {
+      (mockPrisma.review.groupBy as jest.Mock).mockResolvedValue([]);
+
+      expect(await getTimingStats('user-1')).toEqual({
+        overall: {
+          reviewCount: 0,
+          averageSeconds: null,
+          averageRevealSeconds: null,
+          averageRateSeconds: null,
+        },
+        byDeck: [],
+        byState: [],
+        slowestCards: [],
+      });
+    });
+
+    it('should weight averages by the number of reviews', async () => {
+      (mockPrisma.review.groupBy as jest.Mock).mockResolvedValue([
+        group('card-1', 'REVIEW', [4000, 2], [3000, 2]),
+        group('card-2', 'NEW', [30000, 1]),
+        group('card-2', 'REVIEW', [10000, 1]),
+        group('card-3', 'REVIEW', [8000, 1]),
+        // Reviews from before states were logged only count overall
+        group('card-3', null, [4000, 1]),
+      ]);
+
+      const stats = await getTimingStats('user-1');
+
+      expect(stats.overall).toEqual({
+        reviewCount: 6,
+        averageSeconds: 9.3,
+        averageRevealSeconds: 1.5,
+        averageRateSeconds: null,
+      });
+      expect(
+        stats.byDeck.map((deck) => [deck.deckId, deck.averageSeconds]),
+      ).toEqual([
+        ['deck-1', 11],
+        ['deck-2', 6],
+      ]);
+      expect(
+        stats.byState.map((state) => [state.state, state.averageSeconds]),
+      ).toEqual([
+        ['NEW', 30],
+        ['REVIEW', 5.5],
+      ]);
+      expect(
+        stats.slowestCards.map((card) => [card.cardId, card.averageSeconds]),
+      ).toEqual([
+        ['card-2', 20],
+        ['card-3', 6],
+        ['card-1', 2],
+      ]);
+    });
+
+    it('should count the answer times of crammed cards', async () => {
+      (mockPrisma.review.groupBy as jest.Mock).mockResolvedValue([
+        group('card-1', 'REVIEW', [4000, 2]),
+      ]);
+      (mockPrisma.sprintCard.groupBy as jest.Mock).mockResolvedValue([
+        crammedGroup('card-1', 'REVIEW', [8000, 2]),
+      ]);
+
+      const stats = await getTimingStats('user-1', 'deck-1');
+
+      expect(mockPrisma.sprintCard.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            sprint: { userId: 'user-1', mode: 'CRAM' },
+            durationMs: { not: null },
+            card: { deckId: 'deck-1' },
+          },
+        }),
+      );
+      expect(stats.overall.reviewCount).toBe(4);
+      expect(stats.overall.averageSeconds).toBe(3);
+      expect(stats.byState).toEqual([
+        expect.objectContaining({ state: 'REVIEW', reviewCount: 4 }),
+      ]);
+    });
+  });
+});
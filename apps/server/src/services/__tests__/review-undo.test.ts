@@ -0,0 +1,283 @@
+import {
+  getUndoableUntil,
+  undoLastReview,
+  UNDO_WINDOW_MINUTES,
+} from '../review-undo';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sprint: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    review: {
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      delete: jest.fn(),
+    },
+    card: {
+      update: jest.fn(),
+    },
+    cardTag: {
+      deleteMany: jest.fn(),
+    },
+    sprintCard: {
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('Review Undo Service', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const previousReviewDate = new Date('2024-12-20T12:00:00Z');
+  const previousDueDate = new Date('2025-01-01T10:00:00Z');
+
+  const review = {
+    id: 'review-1',
+    cardId: 'card-1',
+    userId: 'user-1',
+    sprintId: null as string | null,
+    rating: 'GOOD',
+    createdAt: new Date(now.getTime() - 60000),
+    stateBefore: 'REVIEW',
+    stabilityBefore: 12,
+    difficultyBefore: 5,
+    elapsedDaysBefore: 0,
+    scheduledDaysBefore: 12,
+    repsBefore: 4,
+    lapsesBefore: 0,
+    learningStepBefore: 0,
+    lastReviewBefore: previousReviewDate,
+    nextReviewDateBefore: previousDueDate,
+    fsrsVersionBefore: null as string | null,
+    schedulingAlgorithmBefore: null as string | null,
+    lastNotificationSentBefore: null as Date | null,
+    leechTagged: false,
+    leechSuspended: false,
+  };
+
+  const restoredCard = {
+    id: 'card-1',
+    state: 'REVIEW',
+    nextReviewDate: previousDueDate,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue(review);
+    (mockPrisma.review.count as jest.Mock).mockResolvedValue(0);
+    (mockPrisma.sprint.count as jest.Mock).mockResolvedValue(0);
+    (mockPrisma.$transaction as jest.Mock).mockResolvedValue([
+      restoredCard,
+      review,
+    ]);
+  });
+
+  describe('getUndoableUntil', () => {
+    it('should add the undo window to the review time', () => {
+      expect(getUndoableUntil(now).getTime()).toBe(
+        now.getTime() + UNDO_WINDOW_MINUTES * 60000,
+      );
+    });
+  });
+
+  describe('undoLastReview', () => {
+    it("should restore the card's state from before the review", async () => {
+      const result = await undoLastReview({ userId: 'user-1', now });
+
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 'card-1' },
+        data: {
+          state: 'REVIEW',
+          stability: 12,
+          difficulty: 5,
+          elapsedDays: 0,
+          scheduledDays: 12,
+          reps: 4,
+          lapses: 0,
+          learningStep: 0,
+          lastReview: previousReviewDate,
+          nextReviewDate: previousDueDate,
+        },
+        select: { id: true, state: true, nextReviewDate: true },
+      });
+      expect(mockPrisma.review.delete).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+      });
+      expect(mockPrisma.sprintCard.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.cardTag.deleteMany).not.toHaveBeenCalled();
+      expect(result).toEqual({ review, card: restoredCard });
+    });
+
+    it("should restore the card's engine and last notification", async () => {
+      const notifiedAt = new Date('2025-01-01T09:00:00Z');
+      (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue({
+        ...review,
+        fsrsVersionBefore: 'FSRS_5',
+        schedulingAlgorithmBefore: 'SM2',
+        lastNotificationSentBefore: notifiedAt,
+      });
+
+      await undoLastReview({ userId: 'user-1', now });
+
+      expect(mockPrisma.card.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            fsrsVersion: 'FSRS_5',
+            schedulingAlgorithm: 'SM2',
+            lastNotificationSent: notifiedAt,
+          }),
+        }),
+      );
+    });
+
+    it('should take back the leech tag and suspension the review gave', async () => {
+      (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue({
+        ...review,
+        leechTagged: true,
+        leechSuspended: true,
+      });
+
+      await undoLastReview({ userId: 'user-1', now });
+
+      expect(mockPrisma.card.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ suspendedAt: null }),
+        }),
+      );
+      expect(mockPrisma.cardTag.deleteMany).toHaveBeenCalledWith({
+        where: {
+          cardId: 'card-1',
+          tag: { userId: 'user-1', name: 'leech' },
+        },
+      });
+    });
+
+    it('should throw NO_REVIEW_TO_UNDO when the user has no reviews', async () => {
+      (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(undoLastReview({ userId: 'user-1', now })).rejects.toThrow(
+        'NO_REVIEW_TO_UNDO',
+      );
+    });
+
+    it('should throw UNDO_WINDOW_EXPIRED for old reviews', async () => {
+      (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue({
+        ...review,
+        createdAt: new Date(now.getTime() - (UNDO_WINDOW_MINUTES + 1) * 60000),
+      });
+
+      await expect(undoLastReview({ userId: 'user-1', now })).rejects.toThrow(
+        'UNDO_WINDOW_EXPIRED',
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw UNDO_NOT_AVAILABLE for reviews without a log', async () => {
+      (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue({
+        ...review,
+        stateBefore: null,
+      });
+
+      await expect(undoLastReview({ userId: 'user-1', now })).rejects.toThrow(
+        'UNDO_NOT_AVAILABLE',
+      );
+    });
+
+    it('should throw UNDO_NOT_AVAILABLE when the card was reviewed again', async () => {
+      (mockPrisma.review.count as jest.Mock).mockResolvedValue(1);
+
+      await expect(undoLastReview({ userId: 'user-1', now })).rejects.toThrow(
+        'UNDO_NOT_AVAILABLE',
+      );
+    });
+
+    describe('with a sprint', () => {
+      const sprintReview = { ...review, sprintId: 'sprint-1' };
+
+      beforeEach(() => {
+        (mockPrisma.review.findFirst as jest.Mock).mockResolvedValue(
+          sprintReview,
+        );
+      });
+
+      it('should throw SPRINT_NOT_FOUND for unknown sprints', async () => {
+        (mockPrisma.sprint.findUnique as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          undoLastReview({ userId: 'user-1', sprintId: 'sprint-1', now }),
+        ).rejects.toThrow('SPRINT_NOT_FOUND');
+      });
+
+      it("should throw SPRINT_NOT_OWNED for another user's sprint", async () => {
+        (mockPrisma.sprint.findUnique as jest.Mock).mockResolvedValue({
+          userId: 'user-2',
+        });
+
+        await expect(
+          undoLastReview({ userId: 'user-1', sprintId: 'sprint-1', now }),
+        ).rejects.toThrow('SPRINT_NOT_OWNED');
+      });
+
+      it('should clear the sprint card and reopen the sprint', async () => {
+        (mockPrisma.sprint.findUnique as jest.Mock)
+          .mockResolvedValueOnce({ userId: 'user-1' })
+          .mockResolvedValueOnce({ id: 'sprint-1', status: 'COMPLETED' });
+
+        await undoLastReview({ userId: 'user-1', sprintId: 'sprint-1', now });
+
+        expect(mockPrisma.review.findFirst).toHaveBeenCalledWith({
+          where: { userId: 'user-1', sprintId: 'sprint-1' },
+          orderBy: { createdAt: 'desc' },
+        });
+        expect(mockPrisma.sprintCard.updateMany).toHaveBeenCalledWith({
+          where: { sprintId: 'sprint-1', cardId: 'card-1' },
+          data: { result: null },
+        });
+        expect(mockPrisma.sprint.update).toHaveBeenCalledWith({
+          where: { id: 'sprint-1' },
+          data: expect.objectContaining({
+            status: 'ACTIVE',
+            completedAt: null,
+          }),
+        });
+        expect(mockPrisma.sprint.count).toHaveBeenCalledWith({
+          where: {
+            userId: 'user-1',
+            status: 'ACTIVE',
+            id: { not: 'sprint-1' },
+          },
+        });
+      });
+
+      it('should throw ACTIVE_SPRINT_EXISTS when another sprint is active', async () => {
+        (mockPrisma.sprint.findUnique as jest.Mock)
+          .mockResolvedValueOnce({ userId: 'user-1' })
+          .mockResolvedValueOnce({ id: 'sprint-1', status: 'COMPLETED' });
+        (mockPrisma.sprint.count as jest.Mock).mockResolvedValue(1);
+
+        await expect(
+          undoLastReview({ userId: 'user-1', sprintId: 'sprint-1', now }),
+        ).rejects.toThrow('ACTIVE_SPRINT_EXISTS');
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should throw SPRINT_NOT_ACTIVE for abandoned sprints', async () => {
+        (mockPrisma.sprint.findUnique as jest.Mock)
+          .mockResolvedValueOnce({ userId: 'user-1' })
+          .mockResolvedValueOnce({ id: 'sprint-1', status: 'ABANDONED' });
+
+        await expect(
+          undoLastReview({ userId: 'user-1', sprintId: 'sprint-1', now }),
+        ).rejects.toThrow('SPRINT_NOT_ACTIVE');
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
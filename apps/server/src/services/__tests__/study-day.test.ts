@@ -0,0 +1,80 @@
+import {
+  getCurrentTimeInTimezone,
+  getNextStudyDayStart,
+  getStudyDayStart,
+} from '../study-day';
+
+describe('Study Day', () => {
+  describe('getCurrentTimeInTimezone', () => {
+    it("should return minutes since midnight in the user's timezone", () => {
+      expect(
+        getCurrentTimeInTimezone(
+          new Date('2025-01-15T13:45:00Z'),
+          'Asia/Tokyo',
+        ),
+      ).toBe(22 * 60 + 45);
+    });
+
+    it('should return 0-59 in the hour after midnight', () => {
+      expect(
+        getCurrentTimeInTimezone(new Date('2025-01-15T00:30:00Z'), 'UTC'),
+      ).toBe(30);
+    });
+  });
+
+  describe('getStudyDayStart', () => {
+    it('should return UTC midnight for UTC users', () => {
+      expect(
+        getStudyDayStart(new Date('2025-01-15T13:45:30.500Z'), 'UTC'),
+      ).toEqual(new Date('2025-01-15T00:00:00Z'));
+    });
+
+    it('should return the same day just after midnight', () => {
+      expect(getStudyDayStart(new Date('2025-01-15T00:30:00Z'), 'UTC')).toEqual(
+        new Date('2025-01-15T00:00:00Z'),
+      );
+    });
+
+    it("should return midnight in the user's timezone", () => {
+      // 02:00 UTC is still the previous evening in New York (UTC-5)
+      expect(
+        getStudyDayStart(new Date('2025-01-15T02:00:00Z'), 'America/New_York'),
+      ).toEqual(new Date('2025-01-14T05:00:00Z'));
+    });
+
+    it('should return midnight before a DST change later that day', () => {
+      // Midnight on 2025-03-09 in New York was still EST (UTC-5)
+      expect(
+        getStudyDayStart(new Date('2025-03-09T12:00:00Z'), 'America/New_York'),
+      ).toEqual(new Date('2025-03-09T05:00:00Z'));
+    });
+  });
+
+  describe('getNextStudyDayStart', () => {
+    it('should return the next local midnight', () => {
+      expect(
+        getNextStudyDayStart(new Date('2025-01-15T13:00:00Z'), 'Asia/Tokyo'),
+      ).toEqual(new Date('2025-01-15T15:00:00Z'));
+    });
+
+    it('should handle days shortened by DST', () => {
+      // New York springs forward on 2025-03-09, a 23 hour day
+      expect(
+        getNextStudyDayStart(
+          new Date('2025-03-09T12:00:00Z'),
+          'America/New_York',
+        ),
+      ).toEqual(new Date('2025-03-10T04:00:00Z'));
+    });
+
+    it('should handle days lengthened by DST', () => {
+      // New York falls back on 2025-11-02, a 25 hour day
+      expect(
+        getNextStudyDayStart(
+          new Date('2025-11-02T12:00:00Z'),
+          'America/New_York',
+        ),
+      ).toEqual(new Date('2025-11-03T05:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import {
+  addCardTag,
+  buildTagTree,
+  createTag,
+  deleteTag,
+  getAncestorNames,
+  normalizeTagName,
+  removeCardTag,
+  renameTag,
+  taggedCardConditions,
+} from '../tags';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: {
+      findUnique: jest.fn(),
+    },
+    tag: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    cardTag: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const tag = {
+  id: 'tag-1',
+  name: 'networking',
+  userId: 'user-1',
+  createdAt: new Date('2025-01-01T12:00:00Z'),
+  _count: { cardTags: 0 },
+};
+
+/**
+ * Make tag.findUnique answer lookups by ID and by name.
+ */
+function mockTags(tags: Array<{ id: string; name: string; userId: string }>) {
+  (mockPrisma.tag.findUnique as jest.Mock).mockImplementation(
+    ({ where }: { where: { id?: string; userId_name?: { name: string } } }) =>
+      Promise.resolve(
+        tags.find((t) =>
+          where.id ? t.id === where.id : t.name === where.userId_name?.name,
+        ) ?? null,
+      ),
+  );
+}
+
+describe('Tags Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({
+      deck: { userId: 'user-1' },
+    });
+    (mockPrisma.cardTag.findMany as jest.Mock).mockResolvedValue([
+      { tag: { id: 'tag-1', name: 'networking' } },
+    ]);
+  });
+
+  describe('normalizeTagName', () => {
+    it('should trim every level', () => {
+      expect(normalizeTagName(' lang :: spanish::verbs ')).toBe(
+        'lang::spanish::verbs',
+      );
+    });
+  });
+
+  describe('getAncestorNames', () => {
+    it('should list ancestors outermost first', () => {
+      expect(getAncestorNames('a::b::c')).toEqual(['a', 'a::b']);
+      expect(getAncestorNames('a')).toEqual([]);
+    });
+  });
+
+  describe('taggedCardConditions', () => {
+    it('should match cards having the tag or a descendant', () => {
+      expect(
+        taggedCardConditions({ userId: 'user-1', name: 'lang::spanish' }),
+      ).toEqual({
+        cardTags: {
+          some: {
+            tag: {
+              userId: 'user-1',
+              OR: [
+                { name: 'lang::spanish' },
+                { name: { startsWith: 'lang::spanish::' } },
+              ],
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create a tag for the user', async () => {
+      mockTags([]);
+      (mockPrisma.tag.create as jest.Mock).mockResolvedValue(tag);
+
+      await expect(createTag('user-1', 'networking')).resolves.toBe(tag);
+      expect(mockPrisma.tag.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { userId: 'user-1', name: 'networking' },
+        }),
+      );
+      expect(mockPrisma.tag.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should create missing ancestors', async () => {
+      mockTags([]);
+
+      await createTag('user-1', 'lang :: spanish::verbs');
+
+      expect(mockPrisma.tag.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-1', name: 'lang' },
+          { userId: 'user-1', name: 'lang::spanish' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.tag.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { userId: 'user-1', name: 'lang::spanish::verbs' },
+        }),
+      );
+    });
+
+    it('should reject a name the user already has', async () => {
+      mockTags([tag]);
+
+      await expect(createTag('user-1', 'networking')).rejects.toThrow(
+        'TAG_EXISTS',
+      );
+      expect(mockPrisma.tag.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameTag', () => {
+    const spanish = { ...tag, id: 'tag-es', name: 'lang::es' };
+
+    beforeEach(() => {
+      mockTags([spanish]);
+      (mockPrisma.tag.findMany as jest.Mock).mockResolvedValue([
+        { id: 'tag-es', name: 'lang::es' },
+        { id: 'tag-verbs', name: 'lang::es::verbs' },
+      ]);
+      (mockPrisma.tag.findFirst as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should rename the tag and its descendants', async () => {
+      await renameTag('user-1', 'tag-es', 'spanish');
+
+      expect(mockPrisma.tag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            OR: [{ name: 'lang::es' }, { name: { startsWith: 'lang::es::' } }],
+          },
+        }),
+      );
+      // Out of the way first, then to the new names
+      expect(mockPrisma.tag.update).toHaveBeenCalledTimes(4);
+      expect(mockPrisma.tag.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 'tag-es' },
+        data: { name: '::tag-es' },
+      });
+      expect(mockPrisma.tag.update).toHaveBeenNthCalledWith(3, {
+        where: { id: 'tag-es' },
+        data: { name: 'spanish' },
+      });
+      expect(mockPrisma.tag.update).toHaveBeenNthCalledWith(4, {
+        where: { id: 'tag-verbs' },
+        data: { name: 'spanish::verbs' },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+      expect(mockPrisma.tag.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should create the missing ancestors of a moved tag', async () => {
+      await renameTag('user-1', 'tag-es', 'langs::romance::es');
+
+      expect(mockPrisma.tag.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-1', name: 'langs' },
+          { userId: 'user-1', name: 'langs::romance' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should do nothing when keeping the same name', async () => {
+      await renameTag('user-1', 'tag-es', 'lang :: es');
+
+      expect(mockPrisma.tag.update).not.toHaveBeenCalled();
+      expect(mockPrisma.tag.findUniqueOrThrow).toHaveBeenCalled();
+    });
+
+    it('should reject names taken outside the subtree', async () => {
+      (mockPrisma.tag.findFirst as jest.Mock).mockResolvedValue({
+        id: 'tag-other',
+      });
+
+      await expect(renameTag('user-1', 'tag-es', 'spanish')).rejects.toThrow(
+        'TAG_EXISTS',
+      );
+      expect(mockPrisma.tag.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            name: { in: ['spanish', 'spanish::verbs'] },
+            id: { notIn: ['tag-es', 'tag-verbs'] },
+          },
+        }),
+      );
+      expect(mockPrisma.tag.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should delete the tag and its descendants', async () => {
+      mockTags([tag]);
+
+      await deleteTag('user-1', 'tag-1');
+
+      expect(mockPrisma.tag.deleteMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          OR: [
+            { name: 'networking' },
+            { name: { startsWith: 'networking::' } },
+          ],
+        },
+      });
+    });
+
+    it('should throw TAG_NOT_FOUND for a missing tag', async () => {
+      mockTags([]);
+
+      await expect(deleteTag('user-1', 'tag-1')).rejects.toThrow(
+        'TAG_NOT_FOUND',
+      );
+    });
+
+    it("should throw TAG_NOT_OWNED for another user's tag", async () => {
+      mockTags([{ ...tag, userId: 'user-2' }]);
+
+      await expect(deleteTag('user-1', 'tag-1')).rejects.toThrow(
+        'TAG_NOT_OWNED',
+      );
+      expect(mockPrisma.tag.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildTagTree', () => {
+    const tags = [
+      { id: 'tag-lang', name: 'lang' },
+      { id: 'tag-es', name: 'lang::es' },
+      { id: 'tag-verbs', name: 'lang::es::verbs' },
+      { id: 'tag-de', name: 'lang::de' },
+      { id: 'tag-leech', name: 'leech' },
+    ];
+
+    it('should nest tags by level and sort every level by name', () => {
+      const tree = buildTagTree(tags, [], []);
+
+      expect(tree.map((node) => node.path)).toEqual(['lang', 'leech']);
+      expect(tree[0].children.map((node) => node.name)).toEqual(['de', 'es']);
+      expect(tree[0].children[1].children[0]).toEqual({
+        id: 'tag-verbs',
+        name: 'verbs',
+        path: 'lang::es::verbs',
+        cardCount: 0,
+        dueCount: 0,
+        children: [],
+      });
+    });
+
+    it('should count the cards of descendants once', () => {
+      const tree = buildTagTree(
+        tags,
+        [
+          { tagId: 'tag-verbs', cardId: 'card-1' },
+          { tagId: 'tag-es', cardId: 'card-1' },
+          { tagId: 'tag-es', cardId: 'card-2' },
+          { tagId: 'tag-de', cardId: 'card-3' },
+        ],
+        [{ tagId: 'tag-verbs', cardId: 'card-1' }],
+      );
+
+      const [lang] = tree;
+      const [de, es] = lang.children;
+      expect([lang.cardCount, lang.dueCount]).toEqual([3, 1]);
+      expect([es.cardCount, es.dueCount]).toEqual([2, 1]);
+      expect([de.cardCount, de.dueCount]).toEqual([1, 0]);
+    });
+
+    it('should add nodes without an ID for missing ancestors', () => {
+      const tree = buildTagTree(
+        [{ id: 'tag-verbs', name: 'lang::es::verbs' }],
+        [{ tagId: 'tag-verbs', cardId: 'card-1' }],
+        [],
+      );
+
+      expect(tree[0]).toMatchObject({ id: null, path: 'lang', cardCount: 1 });
+      expect(tree[0].children[0]).toMatchObject({ id: null, path: 'lang::es' });
+    });
+  });
+
+  describe('addCardTag', () => {
+    it("should tag the card and return the card's tags", async () => {
+      mockTags([tag]);
+
+      const tags = await addCardTag('user-1', 'card-1', 'tag-1');
+
+      expect(mockPrisma.cardTag.upsert).toHaveBeenCalledWith({
+        where: { cardId_tagId: { cardId: 'card-1', tagId: 'tag-1' } },
+        create: { cardId: 'card-1', tagId: 'tag-1' },
+        update: {},
+      });
+      expect(tags).toEqual([{ id: 'tag-1', name: 'networking' }]);
+    });
+
+    it("should not tag another user's card", async () => {
+      mockTags([tag]);
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({
+        deck: { userId: 'user-2' },
+      });
+
+      await expect(addCardTag('user-1', 'card-1', 'tag-1')).rejects.toThrow(
+        'CARD_NOT_OWNED',
+      );
+      expect(mockPrisma.cardTag.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should not use another user's tag", async () => {
+      mockTags([{ ...tag, userId: 'user-2' }]);
+
+      await expect(addCardTag('user-1', 'card-1', 'tag-1')).rejects.toThrow(
+        'TAG_NOT_OWNED',
+      );
+      expect(mockPrisma.cardTag.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeCardTag', () => {
+    it('should remove the tag from the card', async () => {
+      (mockPrisma.cardTag.findMany as jest.Mock).mockResolvedValue([]);
+
+      const tags = await removeCardTag('user-1', 'card-1', 'tag-1');
+
+      expect(mockPrisma.cardTag.deleteMany).toHaveBeenCalledWith({
+        where: { cardId: 'card-1', tagId: 'tag-1' },
+      });
+      expect(tags).toEqual([]);
+    });
+
+    it('should throw CARD_NOT_FOUND for a missing card', async () => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(removeCardTag('user-1', 'card-1', 'tag-1')).rejects.toThrow(
+        'CARD_NOT_FOUND',
+      );
+    });
+  });
+});
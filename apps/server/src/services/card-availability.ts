@@ -0,0 +1,169 @@
+/**
+ * Card Availability
+ *
+ * Cards can be taken out of rotation without losing their review history:
+ * - snoozed until a given time (notification snooze, abandoned sprints)
+ * - suspended until the user unsuspends them (e.g. unfinished cards, leeches)
+ * - buried until a given time, usually the start of the user's next study day
+ *
+ * Every query that selects cards for review or counts due cards must combine
+ * its filters with availableCardConditions() (availableCardSql() for raw
+ * queries).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+
+/**
+ * A card's availability as returned by the suspend and bury operations.
+ */
+export interface CardAvailability {
+  id: string;
+  suspendedAt: Date | null;
+  buriedUntil: Date | null;
+}
+
+const CARD_AVAILABILITY_SELECT = {
+  id: true,
+  suspendedAt: true,
+  buriedUntil: true,
+} as const;
+
+/**
+ * Conditions a card must meet to be reviewed: not snoozed, suspended or
+ * buried. Meant to be used as (or added to) an AND list.
+ *
+ * @param now - Current time
+ * @returns Prisma where conditions
+ */
+export function availableCardConditions(now: Date): Prisma.CardWhereInput[] {
+  return [
+    { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+    { suspendedAt: null },
+    { OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }] },
+  ];
+}
+
+/**
+ * availableCardConditions() for raw queries, where the card table is
+ * aliased `c`.
+ *
+ * @param now - Current time
+ * @returns SQL condition
+ */
+export function availableCardSql(now: Date): Prisma.Sql {
+  return Prisma.sql`(c."snoozedUntil" IS NULL OR c."snoozedUntil" <= ${now})
+    AND c."suspendedAt" IS NULL
+    AND (c."buriedUntil" IS NULL OR c."buriedUntil" <= ${now})`;
+}
+
+/**
+ * Check that a card exists and belongs to the user.
+ *
+ * @throws Error('CARD_NOT_FOUND') if the card doesn't exist
+ * @throws Error('CARD_NOT_OWNED') if the card belongs to another user
+ */
+async function assertCardOwner(userId: string, cardId: string): Promise<void> {
+  const card = await prisma.card.findUnique({
+    where: { id: cardId },
+    select: { deck: { select: { userId: true } } },
+  });
+
+  if (!card) {
+    throw new Error('CARD_NOT_FOUND');
+  }
+
+  if (card.deck.userId !== userId) {
+    throw new Error('CARD_NOT_OWNED');
+  }
+}
+
+/**
+ * Suspend a card. Suspending an already suspended card keeps the original
+ * suspension time.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @param now - Suspension time
+ * @returns The card's availability
+ */
+export async function suspendCard(
+  userId: string,
+  cardId: string,
+  now: Date = new Date(),
+): Promise<CardAvailability> {
+  await assertCardOwner(userId, cardId);
+
+  await prisma.card.updateMany({
+    where: { id: cardId, suspendedAt: null },
+    data: { suspendedAt: now },
+  });
+
+  return prisma.card.findUniqueOrThrow({
+    where: { id: cardId },
+    select: CARD_AVAILABILITY_SELECT,
+  });
+}
+
+/**
+ * Unsuspend a card. Its scheduling state is untouched, so a card that became
+ * due while suspended is due right away.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @returns The card's availability
+ */
+export async function unsuspendCard(
+  userId: string,
+  cardId: string,
+): Promise<CardAvailability> {
+  await assertCardOwner(userId, cardId);
+
+  return prisma.card.update({
+    where: { id: cardId },
+    data: { suspendedAt: null },
+    select: CARD_AVAILABILITY_SELECT,
+  });
+}
+
+/**
+ * Bury a card until a given time (see getNextStudyDayStart).
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @param until - When the card comes back into rotation
+ * @returns The card's availability
+ */
+export async function buryCard(
+  userId: string,
+  cardId: string,
+  until: Date,
+): Promise<CardAvailability> {
+  await assertCardOwner(userId, cardId);
+
+  return prisma.card.update({
+    where: { id: cardId },
+    data: { buriedUntil: until },
+    select: CARD_AVAILABILITY_SELECT,
+  });
+}
+
+/**
+ * Unbury a card.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @returns The card's availability
+ */
+export async function unburyCard(
+  userId: string,
+  cardId: string,
+): Promise<CardAvailability> {
+  await assertCardOwner(userId, cardId);
+
+  return prisma.card.update({
+    where: { id: cardId },
+    data: { buriedUntil: null },
+    select: CARD_AVAILABILITY_SELECT,
+  });
+}
@@ -0,0 +1,319 @@
+/**
+ * Card Revisions
+ *
+ * Every edit of a card's front or back is kept as a revision: the text after
+ * the edit, when it was made and from which client. A card's first edit
+ * also keeps the text it replaced, so the original can always be restored.
+ * Restoring a revision is an edit itself and adds a revision.
+ *
+ * A card's original text and its newest revisions are kept, up to
+ * MAX_REVISIONS_PER_CARD in all.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type {
+  Card,
+  CardRevision,
+  EditSource,
+  Prisma,
+} from '@/generated/prisma';
+
+/**
+ * Revisions kept per card, the original included; older ones are pruned.
+ */
+export const MAX_REVISIONS_PER_CARD = 100;
+
+/**
+ * Header naming the client that makes a request ("mobile" or "desktop").
+ */
+export const CLIENT_HEADER = 'x-client';
+
+/**
+ * One line of a line diff.
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diffs of a card's front and back between two versions.
+ */
+export interface CardTextDiff {
+  front: DiffLine[];
+  back: DiffLine[];
+}
+
+/**
+ * Get the edit source from the client header.
+ *
+ * @param client - Value of the X-Client header
+ * @returns MOBILE or DESKTOP for the apps, API otherwise
+ */
+export function getEditSource(client: string | undefined): EditSource {
+  switch (client?.trim().toLowerCase()) {
+    case 'mobile':
+      return 'MOBILE';
+    case 'desktop':
+      return 'DESKTOP';
+    default:
+      return 'API';
+  }
+}
+
+/**
+ * Most cells of the table diffLines() fills; lines of texts that would need
+ * more are all marked removed and added instead.
+ */
+export const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Diff two texts line by line (longest common subsequence).
+ *
+ * Lines the texts start and end with are equal and left out of the table.
+ * If what remains would need more than MAX_DIFF_CELLS cells, its lines are
+ * marked removed and added without matching them up.
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @returns Lines in order, marked equal, removed (only in before) or added
+ *   (only in after)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.length > 0 ? before.split('\n') : [];
+  const b = after.length > 0 ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let aEnd = a.length;
+  let bEnd = b.length;
+  while (aEnd > start && bEnd > start && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  const lines: DiffLine[] = a
+    .slice(0, start)
+    .map((text) => ({ type: 'equal', text }));
+  const suffix: DiffLine[] = a
+    .slice(aEnd)
+    .map((text) => ({ type: 'equal', text }));
+  const aMiddle = a.slice(start, aEnd);
+  const bMiddle = b.slice(start, bEnd);
+
+  if ((aMiddle.length + 1) * (bMiddle.length + 1) > MAX_DIFF_CELLS) {
+    for (const text of aMiddle) lines.push({ type: 'removed', text });
+    for (const text of bMiddle) lines.push({ type: 'added', text });
+    return [...lines, ...suffix];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of aMiddle[i..],
+  // bMiddle[j..]
+  const lcs = Array.from(
+    { length: aMiddle.length + 1 },
+    () => new Uint32Array(bMiddle.length + 1),
+  );
+  for (let i = aMiddle.length - 1; i >= 0; i--) {
+    for (let j = bMiddle.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        aMiddle[i] === bMiddle[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < aMiddle.length && j < bMiddle.length) {
+    if (aMiddle[i] === bMiddle[j]) {
+      lines.push({ type: 'equal', text: aMiddle[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: aMiddle[i++] });
+    } else {
+      lines.push({ type: 'added', text: bMiddle[j++] });
+    }
+  }
+  while (i < aMiddle.length)
+    lines.push({ type: 'removed', text: aMiddle[i++] });
+  while (j < bMiddle.length) lines.push({ type: 'added', text: bMiddle[j++] });
+
+  return [...lines, ...suffix];
+}
+
+/**
+ * Diff the front and back of two versions of a card.
+ */
+export function diffCardText(
+  before: Pick<CardRevision, 'front' | 'back'>,
+  after: Pick<CardRevision, 'front' | 'back'>,
+): CardTextDiff {
+  return {
+    front: diffLines(before.front, after.front),
+    back: diffLines(before.back, after.back),
+  };
+}
+
+/**
+ * Record an edit of a card's text. Does nothing if the text didn't change.
+ *
+ * @param previous - The card before the edit
+ * @param next - The card's text after the edit
+ * @param source - Client that made the edit
+ * @param restoredFromId - Revision the edit restored, if any
+ * @param db - Client to write with, for edits made in a transaction
+ */
+export async function recordCardRevision(
+  previous: Pick<Card, 'id' | 'front' | 'back' | 'createdAt'>,
+  next: Pick<Card, 'front' | 'back'>,
+  source: EditSource,
+  restoredFromId?: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<void> {
+  if (previous.front === next.front && previous.back === next.back) {
+    return;
+  }
+
+  // Keep the text of cards edited for the first time, as of their creation
+  const original =
+    (await db.cardRevision.findFirst({
+      where: { cardId: previous.id },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })) ??
+    (await db.cardRevision.create({
+      data: {
+        cardId: previous.id,
+        front: previous.front,
+        back: previous.back,
+        source: null,
+        createdAt: previous.createdAt,
+      },
+      select: { id: true },
+    }));
+
+  await db.cardRevision.create({
+    data: {
+      cardId: previous.id,
+      front: next.front,
+      back: next.back,
+      source,
+      restoredFromId: restoredFromId ?? null,
+    },
+  });
+
+  // The original is never pruned, so it can always be restored
+  const pruned = await db.cardRevision.findMany({
+    where: { cardId: previous.id, id: { not: original.id } },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_REVISIONS_PER_CARD - 1,
+    select: { id: true },
+  });
+  if (pruned.length > 0) {
+    await db.cardRevision.deleteMany({
+      where: { id: { in: pruned.map((revision) => revision.id) } },
+    });
+  }
+}
+
+/**
+ * Check that a card exists and belongs to the user.
+ *
+ * @returns The card
+ * @throws Error('CARD_NOT_FOUND') if the card doesn't exist
+ * @throws Error('CARD_NOT_OWNED') if the card belongs to another user
+ */
+async function getOwnedCard(userId: string, cardId: string): Promise<Card> {
+  const card = await prisma.card.findUnique({
+    where: { id: cardId },
+    include: { deck: { select: { userId: true } } },
+  });
+
+  if (!card) {
+    throw new Error('CARD_NOT_FOUND');
+  }
+
+  if (card.deck.userId !== userId) {
+    throw new Error('CARD_NOT_OWNED');
+  }
+
+  return card;
+}
+
+/**
+ * List a card's revisions, newest first.
+ *
+ * @throws Error('CARD_NOT_FOUND') / Error('CARD_NOT_OWNED')
+ */
+export async function listCardRevisions(
+  userId: string,
+  cardId: string,
+): Promise<CardRevision[]> {
+  await getOwnedCard(userId, cardId);
+
+  return prisma.cardRevision.findMany({
+    where: { cardId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Find a revision of a card.
+ *
+ * @throws Error('REVISION_NOT_FOUND') if the card has no such revision
+ */
+async function findCardRevision(
+  cardId: string,
+  revisionId: string,
+): Promise<CardRevision> {
+  const revision = await prisma.cardRevision.findUnique({
+    where: { id: revisionId },
+  });
+
+  if (!revision || revision.cardId !== cardId) {
+    throw new Error('REVISION_NOT_FOUND');
+  }
+
+  return revision;
+}
+
+/**
+ * Get one of a card's revisions.
+ *
+ * @throws Error('CARD_NOT_FOUND') / Error('CARD_NOT_OWNED')
+ * @throws Error('REVISION_NOT_FOUND') if the card has no such revision
+ */
+export async function getCardRevision(
+  userId: string,
+  cardId: string,
+  revisionId: string,
+): Promise<CardRevision> {
+  await getOwnedCard(userId, cardId);
+  return findCardRevision(cardId, revisionId);
+}
+
+/**
+ * Diff two revisions of a card, or a revision and the card's current text.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @param fromId - Older revision
+ * @param toId - Newer revision (default: the current text)
+ * @throws Error('CARD_NOT_FOUND') / Error('CARD_NOT_OWNED')
+ * @throws Error('REVISION_NOT_FOUND') if a revision isn't the card's
+ */
+export async function diffCardRevisions(
+  userId: string,
+  cardId: string,
+  fromId: string,
+  toId?: string,
+): Promise<CardTextDiff> {
+  const card = await getOwnedCard(userId, cardId);
+  const from = await findCardRevision(cardId, fromId);
+  const to = toId ? await findCardRevision(cardId, toId) : card;
+
+  return diffCardText(from, to);
+}
@@ -0,0 +1,223 @@
+/**
+ * Card Search
+ *
+ * Full-text search over card fronts and backs. Postgres keeps a search
+ * document for every card in the generated Card.searchVector column, which
+ * has a GIN index (see the add_card_search migration):
+ * - The 'simple' text search configuration is used: cards mix languages,
+ *   and stemming for one language would mangle words of the others.
+ * - Every search word must match, as a prefix, so results show up while
+ *   typing.
+ * - Fronts weigh more than backs in the ranking.
+ *
+ * Results come with snippets of the front and back with the matches marked.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma, type CardState } from '@/generated/prisma';
+import { availableCardSql } from '@/services/card-availability';
+import { getSubtreeTagIds } from '@/services/tags';
+
+/**
+ * Most words of a search that are used; the rest are ignored.
+ */
+export const MAX_SEARCH_WORDS = 10;
+
+const SEARCH_WORD = /[\p{L}\p{N}]+/gu;
+
+// ts_headline marks matches with these private use characters, which don't
+// occur in card text, so snippets can be split without escaping
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+const HEADLINE_OPTIONS = [
+  `StartSel=${MATCH_START}`,
+  `StopSel=${MATCH_END}`,
+  'MinWords=10',
+  'MaxWords=25',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+/**
+ * Part of a snippet; matches of the search are separate parts.
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface CardSearchFilters {
+  deckId?: string;
+  /** Cards with the tag or one of its descendants */
+  tagId?: string;
+  state?: CardState;
+  /** true: only cards due for review now; false: only cards that are not */
+  due?: boolean;
+}
+
+export interface CardSearchHit {
+  cardId: string;
+  rank: number;
+  snippets: { front: SnippetPart[]; back: SnippetPart[] };
+}
+
+export interface CardSearchResult {
+  hits: CardSearchHit[];
+  /** Number of matching cards, for paging */
+  total: number;
+}
+
+/**
+ * Turn search text into a tsquery that matches cards containing every word
+ * as a prefix. Punctuation separates words, as it does in the search
+ * documents.
+ *
+ * @example toSearchQuery('Capital of Fr') // 'capital:* & of:* & fr:*'
+ * @returns The tsquery, or null if the text has no words
+ */
+export function toSearchQuery(text: string): string | null {
+  const words = (text.toLowerCase().match(SEARCH_WORD) ?? []).slice(
+    0,
+    MAX_SEARCH_WORDS,
+  );
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+/**
+ * Split a ts_headline result into snippet parts.
+ */
+export function parseHeadline(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [index, segment] of headline.split(MATCH_START).entries()) {
+    const [matched, rest] =
+      index === 0 ? [null, segment] : segment.split(MATCH_END, 2);
+    if (matched) {
+      parts.push({ text: matched, match: true });
+    }
+    if (rest) {
+      parts.push({ text: rest, match: false });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Conditions for a user's cards that can be searched, for queries over
+ * "Card" c joined with "Deck" d. Cards of the onboarding fixture deck are
+ * left out.
+ */
+export function searchableCardsSql(userId: string): Prisma.Sql {
+  return Prisma.sql`d."userId" = ${userId} AND NOT d."isOnboardingFixture"`;
+}
+
+/**
+ * Get the IDs of a user's searchable cards that match search text, for
+ * filters that combine a search with Prisma conditions (see
+ * filtered-decks.ts).
+ *
+ * @returns The IDs; none if the text has no words
+ */
+export async function findMatchingCardIds(
+  userId: string,
+  text: string,
+): Promise<string[]> {
+  const searchQuery = toSearchQuery(text);
+  if (!searchQuery) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT c."id"
+    FROM "Card" c
+    JOIN "Deck" d ON d."id" = c."deckId"
+    WHERE ${searchableCardsSql(userId)}
+      AND c."searchVector" @@ to_tsquery('simple', ${searchQuery})`;
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Search a user's cards, best matches first. Cards of the onboarding
+ * fixture deck are left out.
+ *
+ * @param userId - User ID
+ * @param text - Search text
+ * @param filters - Deck, tag, state and due filters
+ * @param page - Number of hits to return and to skip
+ * @param now - Current time, for the due filter
+ * @returns The page of hits and the number of matching cards
+ * @throws Error('TAG_NOT_FOUND') / Error('TAG_NOT_OWNED') for a tagId that
+ *   isn't one of the user's tags
+ */
+export async function searchCards(
+  userId: string,
+  text: string,
+  filters: CardSearchFilters,
+  page: { limit: number; offset: number },
+  now: Date = new Date(),
+): Promise<CardSearchResult> {
+  const searchQuery = toSearchQuery(text);
+  if (!searchQuery) {
+    return { hits: [], total: 0 };
+  }
+
+  const conditions: Prisma.Sql[] = [
+    searchableCardsSql(userId),
+    Prisma.sql`c."searchVector" @@ query`,
+  ];
+  if (filters.deckId) {
+    conditions.push(Prisma.sql`c."deckId" = ${filters.deckId}`);
+  }
+  if (filters.tagId) {
+    const tagIds = await getSubtreeTagIds(userId, filters.tagId);
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "CardTag" ct WHERE ct."cardId" = c."id" AND ct."tagId" IN (${Prisma.join(tagIds)}))`,
+    );
+  }
+  if (filters.state) {
+    conditions.push(Prisma.sql`c."state" = ${filters.state}::"CardState"`);
+  }
+  if (filters.due !== undefined) {
+    const due = Prisma.sql`(c."nextReviewDate" <= ${now} AND ${availableCardSql(now)})`;
+    conditions.push(filters.due ? due : Prisma.sql`NOT ${due}`);
+  }
+
+  const matches = Prisma.sql`
+    FROM "Card" c
+    JOIN "Deck" d ON d."id" = c."deckId",
+    to_tsquery('simple', ${searchQuery}) query
+    WHERE ${Prisma.join(conditions, ' AND ')}`;
+
+  // Snippets are only made for the page of hits
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{ id: string; rank: number; front: string; back: string }>
+    >`
+      SELECT hit."id", hit."rank",
+        ts_headline('simple', c."front", query, ${HEADLINE_OPTIONS}) AS "front",
+        ts_headline('simple', c."back", query, ${HEADLINE_OPTIONS}) AS "back"
+      FROM (
+        SELECT c."id", ts_rank(c."searchVector", query) AS "rank", c."createdAt"
+        ${matches}
+        ORDER BY "rank" DESC, c."createdAt" DESC, c."id"
+        LIMIT ${page.limit}::int OFFSET ${page.offset}::int
+      ) hit
+      JOIN "Card" c ON c."id" = hit."id",
+      to_tsquery('simple', ${searchQuery}) query
+      ORDER BY hit."rank" DESC, hit."createdAt" DESC, hit."id"`,
+    prisma.$queryRaw<Array<{ total: number }>>`
+      SELECT count(*)::int AS "total" ${matches}`,
+  ]);
+
+  return {
+    hits: rows.map((row) => ({
+      cardId: row.id,
+      rank: row.rank,
+      snippets: {
+        front: parseHeadline(row.front),
+        back: parseHeadline(row.back),
+      },
+    })),
+    total,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Card Siblings
+ *
+ * Siblings are cards made from the same material: the cards of a cloze text,
+ * the cards of a note, or a card and its reverse. Reviewing one right after
+ * another gives the answer away, so a sprint never holds two siblings and
+ * cards whose sibling is in an active sprint are left out (sibling burying).
+ */
+
+import type { Prisma } from '@/generated/prisma';
+
+/**
+ * Card fields that identify its siblings.
+ */
+export interface SiblingFields {
+  id: string;
+  clozeGroupId: string | null;
+  noteId: string | null;
+  reverseOfId: string | null;
+}
+
+/**
+ * Prisma select for the fields of SiblingFields.
+ */
+export const SIBLING_FIELDS_SELECT = {
+  id: true,
+  clozeGroupId: true,
+  noteId: true,
+  reverseOfId: true,
+} as const satisfies Prisma.CardSelect;
+
+/**
+ * Get the key shared by a card and its siblings.
+ *
+ * @param card - Card sibling fields
+ * @returns Cloze group, note or original card ID
+ */
+export function getSiblingKey(card: SiblingFields): string {
+  return card.clozeGroupId ?? card.noteId ?? card.reverseOfId ?? card.id;
+}
+
+/**
+ * Keep the first card of each sibling group, in the given order.
+ *
+ * @param cards - Cards in order of preference
+ * @param takenKeys - Sibling keys of cards that are already taken, e.g. by
+ *   active sprints
+ * @returns Cards without siblings of each other or of taken cards
+ */
+export function skipSiblings<T extends SiblingFields>(
+  cards: T[],
+  takenKeys: Iterable<string> = [],
+): T[] {
+  const taken = new Set(takenKeys);
+
+  return cards.filter((card) => {
+    const key = getSiblingKey(card);
+    if (taken.has(key)) {
+      return false;
+    }
+    taken.add(key);
+    return true;
+  });
+}
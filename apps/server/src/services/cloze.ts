@@ -0,0 +1,251 @@
+/**
+ * Cloze Cards
+ *
+ * A cloze card's front is a source text with markers such as
+ * `{{c1::Paris}} is the capital of {{c2::France}}` (an optional hint follows
+ * a second `::`, e.g. `{{c1::Paris::city}}`). One card is created per cloze
+ * index; all of them share the same front and back and a clozeGroupId, but
+ * each is scheduled on its own.
+ *
+ * Editing one sibling updates the text of all of them, adds cards for new
+ * indices and removes the cards whose index no longer appears. Existing
+ * siblings keep their scheduling state.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import type { Card, Prisma } from '@/generated/prisma';
+import {
+  calculateInitialReviewDate,
+  convertSchedulingState,
+  initializeFSRS,
+  type FSRSParameters,
+  type SchedulingAlgorithmType,
+} from '@/services/fsrs';
+
+const CLOZE_MARKER = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * Source of a new group of cloze cards.
+ */
+export interface ClozeSource {
+  /** Text with cloze markers */
+  front: string;
+  /** Extra notes shown with the answer */
+  back: string;
+  deckId: string;
+  priority?: number;
+  schedulingAlgorithm: SchedulingAlgorithmType;
+}
+
+/**
+ * Changes made to the siblings of an edited cloze card.
+ */
+export interface ClozeSyncResult {
+  /** Indices of the cards created for new markers */
+  createdIndices: number[];
+  /** Indices of the cards deleted because their marker was removed */
+  deletedIndices: number[];
+  /** IDs of the deleted cards */
+  deletedCardIds: string[];
+}
+
+/**
+ * Get the distinct cloze indices used in a text, in ascending order.
+ *
+ * @param text - Text with cloze markers
+ * @returns Cloze indices (empty if the text has no markers)
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_MARKER)) {
+    const index = Number(match[1]);
+    if (index > 0) {
+      indices.add(index);
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Data for a new card with an initial scheduling state.
+ */
+function newClozeCardData(
+  source: ClozeSource,
+  clozeIndex: number,
+  clozeGroupId: string,
+) {
+  const fsrsState = initializeFSRS();
+
+  return {
+    front: source.front,
+    back: source.back,
+    deckId: source.deckId,
+    ...(source.priority !== undefined && { priority: source.priority }),
+    type: 'CLOZE' as const,
+    clozeIndex,
+    clozeGroupId,
+    stability: fsrsState.stability,
+    difficulty: fsrsState.difficulty,
+    elapsedDays: fsrsState.elapsedDays,
+    scheduledDays: fsrsState.scheduledDays,
+    reps: fsrsState.reps,
+    lapses: fsrsState.lapses,
+    state: fsrsState.state,
+    lastReview: fsrsState.lastReview,
+    schedulingAlgorithm: source.schedulingAlgorithm,
+    nextReviewDate: calculateInitialReviewDate(),
+  };
+}
+
+/**
+ * Create one card per cloze index of the source text, all or none.
+ *
+ * @param source - Source text and deck of the cards
+ * @returns Created cards in cloze index order
+ * @throws Error('CLOZE_MARKERS_REQUIRED') if the text has no cloze markers
+ */
+export async function createClozeCards(source: ClozeSource): Promise<Card[]> {
+  const indices = getClozeIndices(source.front);
+  if (indices.length === 0) {
+    throw new Error('CLOZE_MARKERS_REQUIRED');
+  }
+
+  const clozeGroupId = randomUUID();
+  return prisma.$transaction(
+    indices.map((index) =>
+      prisma.card.create({
+        data: newClozeCardData(source, index, clozeGroupId),
+      }),
+    ),
+  );
+}
+
+/**
+ * Check that an edited source text can replace a cloze card's text.
+ *
+ * @param card - The cloze card being edited
+ * @param front - New source text
+ * @throws Error('CLOZE_MARKERS_REQUIRED') if the text has no cloze markers
+ * @throws Error('CLOZE_INDEX_REMOVED') if the text drops the card's own index
+ */
+export function assertClozeEdit(
+  card: Pick<Card, 'clozeIndex'>,
+  front: string,
+): void {
+  const indices = getClozeIndices(front);
+  if (indices.length === 0) {
+    throw new Error('CLOZE_MARKERS_REQUIRED');
+  }
+  if (card.clozeIndex !== null && !indices.includes(card.clozeIndex)) {
+    throw new Error('CLOZE_INDEX_REMOVED');
+  }
+}
+
+/**
+ * Bring the siblings of an edited cloze card in line with it: copy its text
+ * and deck, create cards for new indices and delete cards whose index was
+ * removed. Siblings moved to a deck with another algorithm have their state
+ * converted; otherwise their scheduling is left untouched. The siblings
+ * change together or not at all.
+ *
+ * @param card - The cloze card, after its own update
+ * @param params - Parameters to convert scheduling states with
+ * @param tx - Transaction to run in (default: a new one)
+ * @returns Indices of the created and deleted siblings, and the IDs of the
+ *   deleted ones
+ */
+export async function syncClozeSiblings(
+  card: Pick<
+    Card,
+    | 'id'
+    | 'front'
+    | 'back'
+    | 'deckId'
+    | 'priority'
+    | 'clozeIndex'
+    | 'clozeGroupId'
+    | 'schedulingAlgorithm'
+  >,
+  params: FSRSParameters,
+  tx?: Prisma.TransactionClient,
+): Promise<ClozeSyncResult> {
+  if (!card.clozeGroupId) {
+    return { createdIndices: [], deletedIndices: [], deletedCardIds: [] };
+  }
+  if (!tx) {
+    return prisma.$transaction((tx) => syncClozeSiblings(card, params, tx));
+  }
+
+  const indices = getClozeIndices(card.front);
+  const siblings = await tx.card.findMany({
+    where: { clozeGroupId: card.clozeGroupId, id: { not: card.id } },
+  });
+
+  const deleted = siblings.filter(
+    (sibling) =>
+      sibling.clozeIndex === null || !indices.includes(sibling.clozeIndex),
+  );
+  if (deleted.length > 0) {
+    await tx.card.deleteMany({
+      where: { id: { in: deleted.map((sibling) => sibling.id) } },
+    });
+  }
+
+  for (const sibling of siblings) {
+    if (deleted.includes(sibling)) continue;
+
+    const converted =
+      sibling.schedulingAlgorithm !== card.schedulingAlgorithm
+        ? convertSchedulingState(
+            sibling,
+            sibling.schedulingAlgorithm,
+            card.schedulingAlgorithm,
+            params,
+          )
+        : null;
+
+    await tx.card.update({
+      where: { id: sibling.id },
+      data: {
+        front: card.front,
+        back: card.back,
+        deckId: card.deckId,
+        ...(converted && {
+          stability: converted.stability,
+          difficulty: converted.difficulty,
+          schedulingAlgorithm: card.schedulingAlgorithm,
+        }),
+      },
+    });
+  }
+
+  const existing = new Set([
+    card.clozeIndex,
+    ...siblings.map((sibling) => sibling.clozeIndex),
+  ]);
+  const createdIndices = indices.filter((index) => !existing.has(index));
+  for (const index of createdIndices) {
+    await tx.card.create({
+      data: newClozeCardData(
+        {
+          front: card.front,
+          back: card.back,
+          deckId: card.deckId,
+          priority: card.priority,
+          schedulingAlgorithm: card.schedulingAlgorithm,
+        },
+        index,
+        card.clozeGroupId,
+      ),
+    });
+  }
+
+  return {
+    createdIndices,
+    deletedIndices: deleted
+      .map((sibling) => sibling.clozeIndex)
+      .filter((index): index is number => index !== null),
+    deletedCardIds: deleted.map((sibling) => sibling.id),
+  };
+}
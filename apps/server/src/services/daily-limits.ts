@@ -0,0 +1,226 @@
+/**
+ * Daily Limits
+ *
+ * Caps how many NEW cards are introduced and how many REVIEW cards are
+ * reviewed per day, across all decks (User) and per deck (Deck). Days are
+ * study days in the user's timezone. Learning and relearning cards are never
+ * held back, so learning steps are not interrupted.
+ *
+ * Usage is counted from today's review log: a review of a NEW card is an
+ * introduction, a review of a REVIEW card is a review.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { CardState, Prisma } from '@/generated/prisma';
+import { getStudyDayStart } from '@/services/study-day';
+
+/**
+ * Card states that count against a daily limit.
+ */
+const LIMITED_STATES = ['NEW', 'REVIEW'] as const;
+
+type LimitedState = (typeof LIMITED_STATES)[number];
+
+/**
+ * What is left of one daily limit.
+ */
+export interface QueueAllowance {
+  /** Left across all decks */
+  total: number;
+  /** Left per deck, for decks with their own limit */
+  byDeck: Map<string, number>;
+}
+
+/**
+ * What is left of the daily limits, per limited card state.
+ */
+export type DailyAllowance = Record<LimitedState, QueueAllowance>;
+
+/**
+ * The part of a card the daily limits look at.
+ */
+export interface LimitedCard {
+  state: CardState | string;
+  deckId: string;
+}
+
+/**
+ * Number of due cards of one deck in one state.
+ */
+export interface DueCardGroup {
+  deckId: string;
+  state: CardState | string;
+  count: number;
+}
+
+function isLimitedState(state: string): state is LimitedState {
+  return (LIMITED_STATES as readonly string[]).includes(state);
+}
+
+/**
+ * Get what is left of the user's daily limits today.
+ *
+ * @param userId - User ID
+ * @param now - Current time
+ * @returns Remaining allowance per limited state
+ * @throws Error('USER_NOT_FOUND') if the user doesn't exist
+ */
+export async function getDailyAllowance(
+  userId: string,
+  now: Date = new Date(),
+): Promise<DailyAllowance> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, newCardsPerDay: true, reviewsPerDay: true },
+  });
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const [decks, reviews] = await Promise.all([
+    prisma.deck.findMany({
+      where: {
+        userId,
+        OR: [
+          { newCardsPerDay: { not: null } },
+          { reviewsPerDay: { not: null } },
+        ],
+      },
+      select: { id: true, newCardsPerDay: true, reviewsPerDay: true },
+    }),
+    prisma.review.findMany({
+      where: {
+        userId,
+        createdAt: { gte: getStudyDayStart(now, user.timezone) },
+        stateBefore: { in: [...LIMITED_STATES] },
+      },
+      select: { stateBefore: true, card: { select: { deckId: true } } },
+    }),
+  ]);
+
+  const allowance: DailyAllowance = {
+    NEW: { total: user.newCardsPerDay, byDeck: new Map() },
+    REVIEW: { total: user.reviewsPerDay, byDeck: new Map() },
+  };
+  for (const deck of decks) {
+    if (deck.newCardsPerDay !== null) {
+      allowance.NEW.byDeck.set(deck.id, deck.newCardsPerDay);
+    }
+    if (deck.reviewsPerDay !== null) {
+      allowance.REVIEW.byDeck.set(deck.id, deck.reviewsPerDay);
+    }
+  }
+
+  return applyDailyLimits(
+    reviews.map((review) => ({
+      state: review.stateBefore!,
+      deckId: review.card.deckId,
+    })),
+    allowance,
+  ).remaining;
+}
+
+/**
+ * Admit cards, in order, while the daily limits allow.
+ * Cards in states without a limit are always admitted.
+ *
+ * @param cards - Cards in order of preference
+ * @param allowance - What is left of the daily limits
+ * @returns The admitted cards and what is left afterwards
+ */
+export function applyDailyLimits<T extends LimitedCard>(
+  cards: readonly T[],
+  allowance: DailyAllowance,
+): { admitted: T[]; remaining: DailyAllowance } {
+  const remaining: DailyAllowance = {
+    NEW: {
+      total: allowance.NEW.total,
+      byDeck: new Map(allowance.NEW.byDeck),
+    },
+    REVIEW: {
+      total: allowance.REVIEW.total,
+      byDeck: new Map(allowance.REVIEW.byDeck),
+    },
+  };
+
+  const admitted = cards.filter((card) => {
+    if (!isLimitedState(card.state)) return true;
+
+    const queue = remaining[card.state];
+    const deckLeft = queue.byDeck.get(card.deckId);
+    if (queue.total <= 0 || (deckLeft !== undefined && deckLeft <= 0)) {
+      return false;
+    }
+
+    queue.total -= 1;
+    if (deckLeft !== undefined) {
+      queue.byDeck.set(card.deckId, deckLeft - 1);
+    }
+    return true;
+  });
+
+  return { admitted, remaining };
+}
+
+/**
+ * Card conditions excluding limits that are used up, so queries don't return
+ * cards that applyDailyLimits() would drop anyway.
+ *
+ * @param allowance - What is left of the daily limits
+ * @returns Prisma where conditions, to add to an AND list
+ */
+export function dailyLimitConditions(
+  allowance: DailyAllowance,
+): Prisma.CardWhereInput[] {
+  return LIMITED_STATES.flatMap((state): Prisma.CardWhereInput[] => {
+    const queue = allowance[state];
+    if (queue.total <= 0) {
+      return [{ NOT: { state } }];
+    }
+
+    const exhaustedDeckIds = [...queue.byDeck]
+      .filter(([, left]) => left <= 0)
+      .map(([deckId]) => deckId);
+    return exhaustedDeckIds.length > 0
+      ? [{ NOT: { state, deckId: { in: exhaustedDeckIds } } }]
+      : [];
+  });
+}
+
+/**
+ * Count the due cards that can still be reviewed today.
+ *
+ * @param groups - Due card counts per deck and state
+ * @param allowance - What is left of the daily limits
+ * @returns Number of due cards within the limits
+ */
+export function countWithinDailyLimits(
+  groups: readonly DueCardGroup[],
+  allowance: DailyAllowance,
+): number {
+  const limited: Record<LimitedState, number> = { NEW: 0, REVIEW: 0 };
+  let unlimited = 0;
+
+  for (const group of groups) {
+    if (!isLimitedState(group.state)) {
+      unlimited += group.count;
+      continue;
+    }
+
+    const deckLeft = allowance[group.state].byDeck.get(group.deckId);
+    limited[group.state] += Math.min(
+      group.count,
+      Math.max(0, deckLeft ?? Infinity),
+    );
+  }
+
+  return (
+    unlimited +
+    LIMITED_STATES.reduce(
+      (sum, state) =>
+        sum + Math.min(limited[state], Math.max(0, allowance[state].total)),
+      0,
+    )
+  );
+}
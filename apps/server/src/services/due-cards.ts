@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import type { Prisma } from '@/generated/prisma';
+import { availableCardConditions } from '@/services/card-availability';
 
 /**
  * Notification window in minutes (±7 minutes from current time).
@@ -56,7 +57,7 @@ export interface FindDueCardsOptions {
  *
  * The query:
  * 1. Finds cards where nextReviewDate is within ±7 minutes of now
- * 2. Excludes cards where snoozedUntil > now (user snoozed the card)
+ * 2. Excludes snoozed, suspended and buried cards
  * 3. Excludes cards that were notified within the last 30 minutes
  * 4. Only includes cards from users with notifications enabled and a push token
  * 5. Includes related deck and user information for grouping
@@ -90,10 +91,8 @@ export async function findDueCards(
         lte: windowEnd,
       },
     },
-    // Card is not snoozed (or snooze has expired)
-    {
-      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
-    },
+    // Card is not snoozed, suspended or buried
+    ...availableCardConditions(now),
     // User has notifications enabled and has a push token
     {
       deck: {
@@ -193,9 +192,7 @@ export async function countDueCards(
         lte: windowEnd,
       },
     },
-    {
-      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
-    },
+    ...availableCardConditions(now),
     {
       deck: {
         user: {
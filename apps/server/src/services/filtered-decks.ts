@@ -0,0 +1,281 @@
+/**
+ * Filtered Decks
+ *
+ * A filtered deck is a saved search studied like a deck, e.g. "cards with 3
+ * or more lapses in my CS deck". It stores filters rather than cards: its
+ * cards are the user's cards that match every filter that is set, worked out
+ * each time the deck is used, so cards move in and out as they are added,
+ * edited and reviewed. Filters:
+ * - query: full-text search of fronts and backs (see card-search.ts)
+ * - deckId: cards of the deck or its subdecks
+ * - tagId: cards with the tag or one of its descendants
+ * - state: cards in this state
+ * - minLapses: cards lapsed at least this often
+ * - dueWithinDays: cards due within this many days (0 = due now)
+ *
+ * Cards of the onboarding fixture deck never match. Queries for the cards of
+ * a filtered deck must use filteredDeckConditions().
+ *
+ * Prisma can't filter on the search documents, so the IDs of the cards
+ * matching the query are looked up first and the conditions filter on them.
+ * Working out a deck's cards never writes anything.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { FilteredDeck, Prisma } from '@/generated/prisma';
+import type {
+  CreateFilteredDeckInput,
+  UpdateFilteredDeckInput,
+} from '@/lib/validation';
+import { findMatchingCardIds } from '@/services/card-search';
+import { getOwnedTag, taggedCardConditions } from '@/services/tags';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FilteredDeckWithCardCount = FilteredDeck & { cardCount: number };
+
+/**
+ * Get a filtered deck, checking that it belongs to the user.
+ *
+ * @throws Error('FILTERED_DECK_NOT_FOUND') if the filtered deck doesn't exist
+ * @throws Error('FILTERED_DECK_NOT_OWNED') if it belongs to another user
+ */
+async function getOwnedFilteredDeck(
+  userId: string,
+  filteredDeckId: string,
+): Promise<FilteredDeck> {
+  const filteredDeck = await prisma.filteredDeck.findUnique({
+    where: { id: filteredDeckId },
+  });
+
+  if (!filteredDeck) {
+    throw new Error('FILTERED_DECK_NOT_FOUND');
+  }
+
+  if (filteredDeck.userId !== userId) {
+    throw new Error('FILTERED_DECK_NOT_OWNED');
+  }
+
+  return filteredDeck;
+}
+
+/**
+ * Check that the deck and tag a filtered deck filters by belong to the user.
+ *
+ * @throws Error('DECK_NOT_FOUND') / Error('DECK_NOT_OWNED')
+ * @throws Error('TAG_NOT_FOUND') / Error('TAG_NOT_OWNED')
+ */
+async function assertFilterReferences(
+  userId: string,
+  filters: { deckId?: string | null; tagId?: string | null },
+): Promise<void> {
+  if (filters.deckId) {
+    const deck = await prisma.deck.findUnique({
+      where: { id: filters.deckId },
+      select: { userId: true },
+    });
+    if (!deck) {
+      throw new Error('DECK_NOT_FOUND');
+    }
+    if (deck.userId !== userId) {
+      throw new Error('DECK_NOT_OWNED');
+    }
+  }
+
+  if (filters.tagId) {
+    await getOwnedTag(userId, filters.tagId);
+  }
+}
+
+/**
+ * Conditions a card must meet to be in a filtered deck.
+ */
+async function membershipConditions(
+  filteredDeck: FilteredDeck,
+  now: Date,
+): Promise<Prisma.CardWhereInput> {
+  const { userId } = filteredDeck;
+  const conditions: Prisma.CardWhereInput[] = [
+    { deck: { userId, isOnboardingFixture: false } },
+  ];
+
+  if (filteredDeck.deckId) {
+    conditions.push({
+      deck: {
+        OR: [
+          { id: filteredDeck.deckId },
+          { parentDeckId: filteredDeck.deckId },
+        ],
+      },
+    });
+  }
+  if (filteredDeck.tagId) {
+    conditions.push(
+      taggedCardConditions(await getOwnedTag(userId, filteredDeck.tagId)),
+    );
+  }
+  if (filteredDeck.state) {
+    conditions.push({ state: filteredDeck.state });
+  }
+  if (filteredDeck.minLapses !== null) {
+    conditions.push({ lapses: { gte: filteredDeck.minLapses } });
+  }
+  if (filteredDeck.dueWithinDays !== null) {
+    conditions.push({
+      nextReviewDate: {
+        lte: new Date(now.getTime() + filteredDeck.dueWithinDays * DAY_MS),
+      },
+    });
+  }
+  if (filteredDeck.query) {
+    conditions.push({
+      id: { in: await findMatchingCardIds(userId, filteredDeck.query) },
+    });
+  }
+
+  return { AND: conditions };
+}
+
+/**
+ * Conditions a card must meet to be in a filtered deck, checking that the
+ * user owns the filtered deck. Meant to be used as (or added to) an AND
+ * list.
+ *
+ * @param userId - User ID
+ * @param filteredDeckId - Filtered deck ID
+ * @param now - Current time, for the due window
+ * @returns Prisma where conditions
+ * @throws Error('FILTERED_DECK_NOT_FOUND') / Error('FILTERED_DECK_NOT_OWNED')
+ */
+export async function filteredDeckConditions(
+  userId: string,
+  filteredDeckId: string,
+  now: Date = new Date(),
+): Promise<Prisma.CardWhereInput> {
+  return membershipConditions(
+    await getOwnedFilteredDeck(userId, filteredDeckId),
+    now,
+  );
+}
+
+/**
+ * Add the number of cards currently in a filtered deck.
+ */
+async function withCardCount(
+  filteredDeck: FilteredDeck,
+  now: Date,
+): Promise<FilteredDeckWithCardCount> {
+  const cardCount = await prisma.card.count({
+    where: await membershipConditions(filteredDeck, now),
+  });
+  return { ...filteredDeck, cardCount };
+}
+
+/**
+ * List a user's filtered decks with their card counts, newest first.
+ */
+export async function listFilteredDecks(
+  userId: string,
+  now: Date = new Date(),
+): Promise<FilteredDeckWithCardCount[]> {
+  const filteredDecks = await prisma.filteredDeck.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return Promise.all(
+    filteredDecks.map((filteredDeck) => withCardCount(filteredDeck, now)),
+  );
+}
+
+/**
+ * Get a filtered deck with its card count.
+ *
+ * @throws Error('FILTERED_DECK_NOT_FOUND') / Error('FILTERED_DECK_NOT_OWNED')
+ */
+export async function getFilteredDeck(
+  userId: string,
+  filteredDeckId: string,
+  now: Date = new Date(),
+): Promise<FilteredDeckWithCardCount> {
+  return withCardCount(await getOwnedFilteredDeck(userId, filteredDeckId), now);
+}
+
+/**
+ * Create a filtered deck.
+ *
+ * @throws Error('DECK_NOT_FOUND') / Error('DECK_NOT_OWNED') for a deckId
+ *   that isn't one of the user's decks
+ * @throws Error('TAG_NOT_FOUND') / Error('TAG_NOT_OWNED') for a tagId that
+ *   isn't one of the user's tags
+ */
+export async function createFilteredDeck(
+  userId: string,
+  input: CreateFilteredDeckInput,
+  now: Date = new Date(),
+): Promise<FilteredDeckWithCardCount> {
+  await assertFilterReferences(userId, input);
+
+  const filteredDeck = await prisma.filteredDeck.create({
+    data: { ...input, userId },
+  });
+
+  return withCardCount(filteredDeck, now);
+}
+
+/**
+ * Rename a filtered deck or change its filters; null clears a filter.
+ *
+ * @throws Error('FILTERED_DECK_NOT_FOUND') / Error('FILTERED_DECK_NOT_OWNED')
+ * @throws Error('DECK_NOT_FOUND') / Error('DECK_NOT_OWNED')
+ * @throws Error('TAG_NOT_FOUND') / Error('TAG_NOT_OWNED')
+ */
+export async function updateFilteredDeck(
+  userId: string,
+  filteredDeckId: string,
+  updates: UpdateFilteredDeckInput,
+  now: Date = new Date(),
+): Promise<FilteredDeckWithCardCount> {
+  await getOwnedFilteredDeck(userId, filteredDeckId);
+  await assertFilterReferences(userId, updates);
+
+  const filteredDeck = await prisma.filteredDeck.update({
+    where: { id: filteredDeckId },
+    data: updates,
+  });
+
+  return withCardCount(filteredDeck, now);
+}
+
+/**
+ * Delete a filtered deck. Its cards are left as they are.
+ *
+ * @throws Error('FILTERED_DECK_NOT_FOUND') / Error('FILTERED_DECK_NOT_OWNED')
+ */
+export async function deleteFilteredDeck(
+  userId: string,
+  filteredDeckId: string,
+): Promise<void> {
+  await getOwnedFilteredDeck(userId, filteredDeckId);
+
+  await prisma.filteredDeck.delete({ where: { id: filteredDeckId } });
+}
+
+/**
+ * Format a filtered deck for API responses.
+ */
+export function formatFilteredDeck(filteredDeck: FilteredDeckWithCardCount) {
+  return {
+    id: filteredDeck.id,
+    title: filteredDeck.title,
+    query: filteredDeck.query,
+    deckId: filteredDeck.deckId,
+    tagId: filteredDeck.tagId,
+    state: filteredDeck.state,
+    minLapses: filteredDeck.minLapses,
+    dueWithinDays: filteredDeck.dueWithinDays,
+    cardCount: filteredDeck.cardCount,
+    createdAt: filteredDeck.createdAt.toISOString(),
+    updatedAt: filteredDeck.updatedAt.toISOString(),
+  };
+}
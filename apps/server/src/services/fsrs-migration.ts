@@ -0,0 +1,287 @@
+/**
+ * Scheduling Migration
+ *
+ * A card's stability and difficulty only mean something to the engine that
+ * produced them, so switching a user to another FSRS version recomputes
+ * every card's state by replaying its reviews through the new engine.
+ *
+ * Switching a deck between FSRS and SM-2 converts its cards' state instead:
+ * imported SM-2 cards often have no review history to replay.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
+import {
+  calculateNextReview,
+  convertSchedulingState,
+  getFSRSParameters,
+  initializeFSRS,
+  resolveSchedulingOverrides,
+  type FSRSParameters,
+  type FSRSReviewResult,
+  type FSRSVersionType,
+  type RatingType,
+  type SchedulingAlgorithmType,
+} from '@/services/fsrs';
+
+/**
+ * Number of cards replayed per transaction when switching FSRS versions.
+ */
+export const SWITCH_BATCH_SIZE = 200;
+
+/**
+ * A review as needed to replay a card's history.
+ */
+export interface ReplayedReview {
+  rating: RatingType;
+  createdAt: Date;
+}
+
+/**
+ * Result of switching a user's FSRS version.
+ */
+export interface SwitchFSRSVersionResult {
+  version: FSRSVersionType;
+  /** Number of cards whose state was recomputed from their reviews */
+  recomputedCardCount: number;
+}
+
+/**
+ * Result of switching a deck's scheduling algorithm.
+ */
+export interface SetDeckSchedulingAlgorithmResult {
+  algorithm: SchedulingAlgorithmType;
+  /** Number of cards whose state was converted */
+  convertedCardCount: number;
+}
+
+/**
+ * Replay a card's reviews from a fresh state.
+ * Fuzz is not applied, so the result only depends on the reviews.
+ *
+ * @param reviews - The card's reviews, oldest first
+ * @param params - FSRS parameters to schedule with
+ * @returns State after the last review, or null if there are no reviews
+ */
+export function replayReviews(
+  reviews: readonly ReplayedReview[],
+  params: FSRSParameters,
+): FSRSReviewResult | null {
+  let result: FSRSReviewResult | null = null;
+
+  for (const review of reviews) {
+    result = calculateNextReview(
+      result?.state ?? initializeFSRS(),
+      review.rating,
+      review.createdAt,
+      params,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Switch a user to another FSRS version and recompute the state of their
+ * cards from the review log. Fitted weights are cleared, as they belong to
+ * the previous engine. Cards are replayed in batches of SWITCH_BATCH_SIZE,
+ * each written in its own transaction; the version itself is stored last,
+ * so an interrupted switch can simply be run again.
+ *
+ * Cards without reviews keep their (NEW) state, and so do cards whose
+ * reviews don't account for their state (e.g. imported or converted from
+ * SM-2 with fewer reviews than reps), as replaying them would lose it.
+ * Cards scheduled with SM-2 are left alone.
+ *
+ * @param userId - User ID
+ * @param version - FSRS version to switch to
+ * @returns The new version and how many cards were recomputed
+ * @throws Error('USER_NOT_FOUND') if the user doesn't exist
+ */
+export async function switchFSRSVersion(
+  userId: string,
+  version: FSRSVersionType,
+): Promise<SwitchFSRSVersionResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { learningSteps: true, relearningSteps: true },
+  });
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const fsrsCards = { deck: { userId }, schedulingAlgorithm: 'FSRS' } as const;
+  const cardIds = (
+    await prisma.card.findMany({
+      where: fsrsCards,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    })
+  ).map((card) => card.id);
+
+  let recomputedCardCount = 0;
+
+  for (let i = 0; i < cardIds.length; i += SWITCH_BATCH_SIZE) {
+    const cards = await prisma.card.findMany({
+      where: { id: { in: cardIds.slice(i, i + SWITCH_BATCH_SIZE) } },
+      select: {
+        id: true,
+        reps: true,
+        deck: {
+          select: {
+            learningSteps: true,
+            relearningSteps: true,
+            desiredRetention: true,
+            parentDeck: {
+              select: {
+                learningSteps: true,
+                relearningSteps: true,
+                desiredRetention: true,
+              },
+            },
+          },
+        },
+        reviews: {
+          select: { rating: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    const cardUpdates = cards.flatMap((card) => {
+      // Every review adds a rep, so fewer reviews than reps means part of the
+      // card's history was never logged
+      if (card.reviews.length < card.reps) return [];
+
+      const result = replayReviews(
+        card.reviews,
+        getFSRSParameters(
+          null,
+          resolveSchedulingOverrides(card.deck, {
+            ...user,
+            fsrsVersion: version,
+            enableFuzz: false,
+          }),
+        ),
+      );
+      if (!result) return [];
+
+      const { state, nextReviewDate } = result;
+      return [
+        prisma.card.update({
+          where: { id: card.id },
+          data: {
+            stability: state.stability,
+            difficulty: state.difficulty,
+            elapsedDays: state.elapsedDays,
+            scheduledDays: state.scheduledDays,
+            reps: state.reps,
+            lapses: state.lapses,
+            state: state.state,
+            learningStep: state.learningStep,
+            lastReview: state.lastReview,
+            nextReviewDate,
+            fsrsVersion: version,
+          },
+        }),
+      ];
+    });
+
+    if (cardUpdates.length > 0) {
+      await prisma.$transaction(cardUpdates);
+    }
+    recomputedCardCount += cardUpdates.length;
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { fsrsVersion: version, fsrsWeights: [], fsrsOptimizedAt: null },
+    }),
+    prisma.card.updateMany({
+      where: fsrsCards,
+      data: { fsrsVersion: version },
+    }),
+  ]);
+
+  return { version, recomputedCardCount };
+}
+
+/**
+ * Switch a deck to another scheduling algorithm and convert the state of its
+ * cards (see convertSchedulingState), using the owner's FSRS engine and
+ * weights. Subdecks keep their own algorithm. The deck and its cards change
+ * together or not at all.
+ *
+ * @param deckId - Deck ID
+ * @param algorithm - Algorithm to switch to
+ * @param tx - Transaction to run in (default: a new one)
+ * @returns The new algorithm and how many cards were converted
+ * @throws Error('DECK_NOT_FOUND') if the deck doesn't exist
+ */
+export async function setDeckSchedulingAlgorithm(
+  deckId: string,
+  algorithm: SchedulingAlgorithmType,
+  tx?: Prisma.TransactionClient,
+): Promise<SetDeckSchedulingAlgorithmResult> {
+  if (!tx) {
+    return prisma.$transaction((tx) =>
+      setDeckSchedulingAlgorithm(deckId, algorithm, tx),
+    );
+  }
+
+  const deck = await tx.deck.findUnique({
+    where: { id: deckId },
+    select: { user: { select: { fsrsVersion: true, fsrsWeights: true } } },
+  });
+
+  if (!deck) {
+    throw new Error('DECK_NOT_FOUND');
+  }
+
+  const params = getFSRSParameters(deck.user.fsrsWeights, {
+    version: deck.user.fsrsVersion,
+  });
+
+  const cards = await tx.card.findMany({
+    where: { deckId, schedulingAlgorithm: { not: algorithm } },
+    select: {
+      id: true,
+      schedulingAlgorithm: true,
+      stability: true,
+      difficulty: true,
+      elapsedDays: true,
+      scheduledDays: true,
+      reps: true,
+      lapses: true,
+      state: true,
+      learningStep: true,
+      lastReview: true,
+    },
+  });
+
+  await tx.deck.update({
+    where: { id: deckId },
+    data: { schedulingAlgorithm: algorithm },
+  });
+  for (const card of cards) {
+    const { stability, difficulty } = convertSchedulingState(
+      card,
+      card.schedulingAlgorithm,
+      algorithm,
+      params,
+    );
+    await tx.card.update({
+      where: { id: card.id },
+      data: {
+        stability,
+        difficulty,
+        schedulingAlgorithm: algorithm,
+        fsrsVersion: params.version,
+      },
+    });
+  }
+
+  return { algorithm, convertedCardCount: cards.length };
+}
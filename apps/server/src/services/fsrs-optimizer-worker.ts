@@ -0,0 +1,67 @@
+/**
+ * FSRS Optimizer Worker
+ *
+ * Fitting weights replays a user's reviews thousands of times, which takes
+ * seconds to minutes of CPU. It runs in a worker thread so requests keep
+ * being served meanwhile. This module is both the worker and the way to
+ * start it.
+ */
+
+import {
+  isMainThread,
+  parentPort,
+  Worker,
+  workerData,
+} from 'node:worker_threads';
+import {
+  optimizeWeights,
+  type OptimizationResult,
+  type OptimizeWeightsOptions,
+  type ReviewHistoryEntry,
+} from '@/services/fsrs-optimizer';
+
+interface OptimizerWorkerData {
+  /** Tells the worker apart from other threads that load this module */
+  kind: 'fsrs-optimizer';
+  reviews: ReviewHistoryEntry[];
+  options: OptimizeWeightsOptions;
+}
+
+/**
+ * Run optimizeWeights() in a worker thread.
+ *
+ * @param reviews - The user's reviews (any order)
+ * @param options - Search options
+ * @returns Fitted weights and loss before/after
+ */
+export function runOptimizerWorker(
+  reviews: ReviewHistoryEntry[],
+  options: OptimizeWeightsOptions,
+): Promise<OptimizationResult> {
+  return new Promise((resolve, reject) => {
+    const data: OptimizerWorkerData = {
+      kind: 'fsrs-optimizer',
+      reviews,
+      options,
+    };
+    // Running from source (pnpm dev), the worker loads this file through tsx
+    const worker = __filename.endsWith('.ts')
+      ? new Worker(
+          `require('tsx/cjs'); require(${JSON.stringify(__filename)});`,
+          { eval: true, workerData: data },
+        )
+      : new Worker(__filename, { workerData: data });
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) {
+        reject(new Error(`Optimizer worker exited with code ${code}`));
+      }
+    });
+  });
+}
+
+const data = workerData as Partial<OptimizerWorkerData> | null;
+if (!isMainThread && parentPort && data?.kind === 'fsrs-optimizer') {
+  parentPort.postMessage(optimizeWeights(data.reviews!, data.options));
+}
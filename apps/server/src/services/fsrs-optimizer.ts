@@ -0,0 +1,302 @@
+/**
+ * FSRS Parameter Optimizer
+ *
+ * Fits the FSRS weights (17 for FSRS-4.5, 19 for FSRS-5) to a user's own
+ * review history so scheduling reflects how they actually remember, instead
+ * of the Anki-derived defaults.
+ *
+ * The optimizer replays each card's reviews through calculateNextReview(),
+ * scores the predicted recall probability of every long-term (REVIEW state)
+ * review against what actually happened, and minimizes the log loss with
+ * projected gradient descent inside the usual FSRS weight bounds.
+ *
+ * Fitting a user's weights runs in a worker thread (see
+ * fsrs-optimizer-worker.ts and fsrs-parameters.ts), so this module doesn't
+ * touch the database.
+ */
+
+import {
+  calculateNextReview,
+  getFSRSEngine,
+  getFSRSParameters,
+  initializeFSRS,
+  resolveLearningSteps,
+  DEFAULT_FSRS_PARAMETERS,
+  type FSRSParameters,
+  type FSRSVersionType,
+  type RatingType,
+} from '@/services/fsrs';
+
+/**
+ * Minimum number of reviews required before a user's weights are fitted.
+ * Below this the defaults generalize better than a fit would.
+ */
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 200;
+
+/**
+ * Default number of gradient descent iterations.
+ */
+const DEFAULT_MAX_ITERATIONS = 50;
+
+/**
+ * Initial step size, as a fraction of each weight's allowed range.
+ */
+const DEFAULT_STEP_SIZE = 0.05;
+
+/**
+ * Step size below which the search is considered converged.
+ */
+const MIN_STEP_SIZE = 1e-4;
+
+/**
+ * Allowed [min, max] range for each weight (w0..w18; FSRS-4.5 uses w0..w16).
+ * Keeps fitted weights in the region where the FSRS formulas stay well-behaved.
+ */
+export const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.1, 100], // w0
+  [0.1, 100], // w1
+  [0.1, 100], // w2
+  [0.1, 100], // w3
+  [1, 10], // w4
+  [0.001, 4], // w5
+  [0.001, 4], // w6
+  [0, 0.75], // w7
+  [0, 4.5], // w8
+  [0, 0.8], // w9
+  [0.01, 3.5], // w10
+  [0.1, 5], // w11
+  [0.01, 0.25], // w12
+  [0.01, 0.9], // w13
+  [0, 4], // w14
+  [0, 1], // w15
+  [1, 6], // w16
+  [0, 2], // w17
+  [0, 2], // w18
+];
+
+/**
+ * A single review as needed by the optimizer.
+ */
+export interface ReviewHistoryEntry {
+  cardId: string;
+  rating: RatingType;
+  createdAt: Date;
+}
+
+/**
+ * Options for optimizeWeights().
+ */
+export interface OptimizeWeightsOptions {
+  /** Engine to fit the weights for (defaults to FSRS-4.5) */
+  version?: FSRSVersionType;
+  /** Weights to start the search from (defaults to the engine's) */
+  initialWeights?: readonly number[];
+  /** Maximum number of gradient descent iterations */
+  maxIterations?: number;
+  /** Learning steps to replay the reviews with (defaults to the engine's) */
+  learningSteps?: readonly number[];
+  /** Relearning steps to replay the reviews with (defaults to the engine's) */
+  relearningSteps?: readonly number[];
+}
+
+/**
+ * Result of fitting weights to a review history.
+ */
+export interface OptimizationResult {
+  /** Fitted weights (w0..w16, or w0..w18 for FSRS-5) */
+  weights: number[];
+  /** Number of reviews in the history */
+  reviewCount: number;
+  /** Number of reviews the loss was computed over */
+  scoredReviewCount: number;
+  /** Mean log loss with the initial weights */
+  initialLoss: number;
+  /** Mean log loss with the fitted weights */
+  finalLoss: number;
+}
+
+/**
+ * Clamp a value between min and max.
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Clamp every weight into its allowed range.
+ */
+function clampWeights(weights: readonly number[]): number[] {
+  return weights.map((w, i) =>
+    clamp(w, WEIGHT_BOUNDS[i][0], WEIGHT_BOUNDS[i][1]),
+  );
+}
+
+/**
+ * Group reviews by card, each group sorted oldest first.
+ *
+ * @param reviews - Reviews in any order
+ * @returns Per-card review sequences
+ */
+export function groupReviewsByCard(
+  reviews: readonly ReviewHistoryEntry[],
+): ReviewHistoryEntry[][] {
+  const byCard = new Map<string, ReviewHistoryEntry[]>();
+  for (const review of reviews) {
+    const history = byCard.get(review.cardId);
+    if (history) {
+      history.push(review);
+    } else {
+      byCard.set(review.cardId, [review]);
+    }
+  }
+
+  return [...byCard.values()].map((history) =>
+    history.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+  );
+}
+
+/**
+ * Compute the mean log loss of the recall predictions made by a set of weights.
+ *
+ * Each card is replayed from a fresh state. Only reviews made while the card
+ * was in REVIEW state are scored: learning steps are scheduled in minutes and
+ * say little about long-term memory.
+ *
+ * @param histories - Per-card review sequences (oldest first)
+ * @param params - FSRS parameters to evaluate
+ * @returns Mean log loss and the number of scored reviews
+ */
+export function computeLogLoss(
+  histories: readonly ReviewHistoryEntry[][],
+  params: FSRSParameters,
+): { loss: number; count: number } {
+  let totalLoss = 0;
+  let count = 0;
+  const engine = getFSRSEngine(params.version);
+
+  for (const history of histories) {
+    let state = initializeFSRS();
+
+    for (const review of history) {
+      if (state.state === 'REVIEW' && state.lastReview) {
+        const elapsedDays =
+          (review.createdAt.getTime() - state.lastReview.getTime()) /
+          (1000 * 60 * 60 * 24);
+        const predicted = clamp(
+          engine.retrievability(state.stability, elapsedDays),
+          1e-6,
+          1 - 1e-6,
+        );
+        const recalled = review.rating !== 'AGAIN';
+        totalLoss -= recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        count++;
+      }
+
+      state = calculateNextReview(
+        state,
+        review.rating,
+        review.createdAt,
+        params,
+      ).state;
+    }
+  }
+
+  return { loss: count > 0 ? totalLoss / count : 0, count };
+}
+
+/**
+ * Fit FSRS weights to a review history.
+ *
+ * Uses projected gradient descent with central-difference gradients, scaled
+ * by each weight's allowed range. A step is only taken when it lowers the
+ * loss; otherwise the step size is halved. Deterministic for a given input.
+ *
+ * @param reviews - The user's reviews (any order)
+ * @param options - Search options
+ * @returns Fitted weights and loss before/after
+ */
+export function optimizeWeights(
+  reviews: readonly ReviewHistoryEntry[],
+  options: OptimizeWeightsOptions = {},
+): OptimizationResult {
+  const {
+    version = DEFAULT_FSRS_PARAMETERS.version,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+  } = options;
+  const initialWeights =
+    options.initialWeights ?? getFSRSEngine(version).defaultWeights;
+
+  const histories = groupReviewsByCard(reviews);
+  const steps = resolveLearningSteps(options);
+  const lossFor = (weights: readonly number[]) =>
+    computeLogLoss(
+      histories,
+      getFSRSParameters(weights, { version, ...steps }),
+    );
+
+  let weights = clampWeights(initialWeights);
+  const initial = lossFor(weights);
+  let loss = initial.loss;
+  let stepSize = DEFAULT_STEP_SIZE;
+
+  // Nothing to fit against (e.g. only learning-step reviews)
+  if (initial.count === 0) {
+    return {
+      weights,
+      reviewCount: reviews.length,
+      scoredReviewCount: 0,
+      initialLoss: 0,
+      finalLoss: 0,
+    };
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Gradient in range-normalized coordinates
+    const gradient = weights.map((w, i) => {
+      const [min, max] = WEIGHT_BOUNDS[i];
+      const h = (max - min) * 1e-3;
+      const up = [...weights];
+      const down = [...weights];
+      up[i] = clamp(w + h, min, max);
+      down[i] = clamp(w - h, min, max);
+      if (up[i] === down[i]) return 0;
+      return (
+        ((lossFor(up).loss - lossFor(down).loss) / (up[i] - down[i])) *
+        (max - min)
+      );
+    });
+
+    const norm = Math.sqrt(gradient.reduce((sum, g) => sum + g * g, 0));
+    if (norm === 0) break;
+
+    // Try progressively smaller steps until the loss improves
+    let improved = false;
+    while (stepSize >= MIN_STEP_SIZE) {
+      const candidate = clampWeights(
+        weights.map((w, i) => {
+          const [min, max] = WEIGHT_BOUNDS[i];
+          return w - stepSize * (max - min) * (gradient[i] / norm);
+        }),
+      );
+      const candidateLoss = lossFor(candidate).loss;
+
+      if (candidateLoss < loss) {
+        weights = candidate;
+        loss = candidateLoss;
+        improved = true;
+        break;
+      }
+      stepSize /= 2;
+    }
+
+    if (!improved) break;
+  }
+
+  return {
+    weights,
+    reviewCount: reviews.length,
+    scoredReviewCount: initial.count,
+    initialLoss: initial.loss,
+    finalLoss: loss,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * FSRS Parameters
+ *
+ * A user's FSRS parameters: the weights fitted to their review history, their
+ * learning steps and the settings of the card's deck, on top of the engine's
+ * defaults.
+ *
+ * Fitting the weights (see fsrs-optimizer.ts) takes long, so it runs in a
+ * worker thread in the background. Each run is a ParameterOptimization,
+ * which clients poll for the result.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma, type ParameterOptimization } from '@/generated/prisma';
+import {
+  getFSRSParameters,
+  resolveLearningSteps,
+  resolveSchedulingOverrides,
+  type DeckSchedulingSettings,
+  type FSRSParameters,
+  type FSRSVersionType,
+} from '@/services/fsrs';
+import {
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  type OptimizeWeightsOptions,
+  type ReviewHistoryEntry,
+} from '@/services/fsrs-optimizer';
+import { runOptimizerWorker } from '@/services/fsrs-optimizer-worker';
+
+/**
+ * Get the FSRS parameters to schedule a user's reviews with.
+ * Uses the defaults for anything the user has not fitted or configured.
+ *
+ * @param userId - User ID
+ * @param deck - Scheduling settings of the card's deck (and its parent), if any
+ * @returns FSRS parameters for the user
+ */
+export async function getUserFSRSParameters(
+  userId: string,
+  deck?: DeckSchedulingSettings | null,
+): Promise<FSRSParameters> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      fsrsVersion: true,
+      fsrsWeights: true,
+      learningSteps: true,
+      relearningSteps: true,
+      enableFuzz: true,
+    },
+  });
+  return getFSRSParameters(
+    user?.fsrsWeights,
+    resolveSchedulingOverrides(deck, user),
+  );
+}
+
+/**
+ * How long an optimization may run, in minutes. One still running after
+ * this was lost, e.g. to a server restart, and counts as failed.
+ */
+export const OPTIMIZATION_TIMEOUT_MINUTES = 30;
+
+/**
+ * Mark a user's lost optimizations as failed.
+ */
+async function failLostOptimizations(userId: string, now: Date): Promise<void> {
+  await prisma.parameterOptimization.updateMany({
+    where: {
+      userId,
+      status: 'RUNNING',
+      startedAt: {
+        lt: new Date(now.getTime() - OPTIMIZATION_TIMEOUT_MINUTES * 60000),
+      },
+    },
+    data: { status: 'FAILED', completedAt: now },
+  });
+}
+
+/**
+ * Fit the weights in a worker thread and store them on the user. The user's
+ * engine may have been switched meanwhile; the weights are only stored if
+ * it is still the one they were fitted for.
+ */
+async function runOptimization(
+  optimization: ParameterOptimization,
+  reviews: ReviewHistoryEntry[],
+  options: OptimizeWeightsOptions & { version: FSRSVersionType },
+): Promise<void> {
+  const { version } = options;
+  try {
+    const result = await runOptimizerWorker(reviews, options);
+    const completedAt = new Date();
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: optimization.userId, fsrsVersion: version },
+      data: { fsrsWeights: result.weights, fsrsOptimizedAt: completedAt },
+    });
+
+    await prisma.parameterOptimization.update({
+      where: { id: optimization.id },
+      data:
+        count > 0
+          ? {
+              status: 'SUCCEEDED',
+              scoredReviewCount: result.scoredReviewCount,
+              initialLoss: result.initialLoss,
+              finalLoss: result.finalLoss,
+              completedAt,
+            }
+          : { status: 'FAILED', completedAt },
+    });
+  } catch (error) {
+    console.error('[FSRS Optimizer] Optimization failed:', error);
+    await prisma.parameterOptimization
+      .update({
+        where: { id: optimization.id },
+        data: { status: 'FAILED', completedAt: new Date() },
+      })
+      .catch((updateError: unknown) =>
+        console.error(
+          '[FSRS Optimizer] Could not record failure:',
+          updateError,
+        ),
+      );
+  }
+}
+
+/**
+ * Start fitting a user's FSRS weights for their engine to the reviews of
+ * their FSRS cards (reviews of SM-2 cards say nothing about the FSRS
+ * weights), replayed with the user's learning steps. The fit runs in the
+ * background; the weights are stored on the user when it succeeds.
+ *
+ * A user has at most one running optimization, which a partial unique index
+ * enforces; starting a second one fails on it.
+ *
+ * @param userId - User ID
+ * @param now - Current time
+ * @returns The started optimization
+ * @throws Error('OPTIMIZATION_RUNNING') if one is already running
+ * @throws Error('INSUFFICIENT_REVIEWS') if the user has too few reviews
+ */
+export async function startFSRSOptimization(
+  userId: string,
+  now: Date = new Date(),
+): Promise<ParameterOptimization> {
+  await failLostOptimizations(userId, now);
+
+  const [user, reviews] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { fsrsVersion: true, learningSteps: true, relearningSteps: true },
+    }),
+    prisma.review.findMany({
+      where: { userId, card: { schedulingAlgorithm: 'FSRS' } },
+      select: { cardId: true, rating: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  if (reviews.length < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    throw new Error('INSUFFICIENT_REVIEWS');
+  }
+
+  const optimization = await prisma.parameterOptimization
+    .create({
+      data: { userId, reviewCount: reviews.length, startedAt: now },
+    })
+    .catch((error: unknown) => {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new Error('OPTIMIZATION_RUNNING');
+      }
+      throw error;
+    });
+
+  void runOptimization(optimization, reviews, {
+    version: user.fsrsVersion,
+    ...resolveLearningSteps(user),
+  });
+
+  return optimization;
+}
+
+/**
+ * Get a user's most recent optimization.
+ *
+ * @returns The optimization, or null if the user never started one
+ */
+export async function getLatestFSRSOptimization(
+  userId: string,
+  now: Date = new Date(),
+): Promise<ParameterOptimization | null> {
+  await failLostOptimizations(userId, now);
+
+  return prisma.parameterOptimization.findFirst({
+    where: { userId },
+    orderBy: { startedAt: 'desc' },
+  });
+}
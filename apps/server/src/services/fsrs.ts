@@ -5,12 +5,26 @@
  * based on user performance. FSRS is a modern spaced repetition algorithm that
  * uses a more sophisticated model than traditional SM-2.
  *
+ * Two versions of the memory model are available as engines (see FSRSEngine):
+ * FSRS-4.5 and FSRS-5, which adds short-term stability for same-day reviews.
+ * Learning steps and state transitions are shared by both.
+ *
+ * Decks can instead be scheduled with SM-2 (see SM2_ENGINE), e.g. to keep an
+ * imported Anki collection on the algorithm its history was built with.
+ * Cards are converted between the two when their deck switches algorithm
+ * (see convertSchedulingState).
+ *
  * @see https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
  */
 
 // Re-export Prisma enums for convenience
 // These are the canonical source of truth for card states and ratings
-export { CardState, Rating } from '@/generated/prisma';
+export {
+  CardState,
+  Rating,
+  FSRSVersion,
+  SchedulingAlgorithm,
+} from '@/generated/prisma';
 
 /**
  * FSRS state stored with each card.
@@ -32,6 +46,11 @@ export interface FSRSState {
   lapses: number;
   /** Current learning state of the card */
   state: import('@/generated/prisma').CardState;
+  /**
+   * Index of the learning or relearning step the card is on; 0 outside
+   * learning. Restarts at 0 on each (re)learning cycle and on AGAIN.
+   */
+  learningStep: number;
   /** Timestamp of the last review, null if never reviewed */
   lastReview: Date | null;
 }
@@ -47,18 +66,122 @@ export interface FSRSReviewResult {
   nextReviewDate: Date;
 }
 
+/**
+ * Stability and difficulty of a card: the part of its state the memory
+ * model updates on each review.
+ */
+export type MemoryState = Pick<FSRSState, 'stability' | 'difficulty'>;
+
 /**
  * FSRS algorithm parameters.
- * These are the default parameters from FSRS-4.5.
- * They can be customized per-user in the future for personalized scheduling.
+ * Defaults come from FSRS-4.5; the weights can be fitted per-user from
+ * review history (see fsrs-optimizer).
  */
 export interface FSRSParameters {
+  /** Algorithm to schedule with. SM2 ignores version, weights and retention */
+  algorithm: SchedulingAlgorithmType;
+  /** Engine to schedule with (see FSRSEngine) */
+  version: FSRSVersionType;
   /** Request retention: Target probability of recall (default: 0.9 = 90%) */
   requestRetention: number;
   /** Maximum interval in days (default: 36500 = ~100 years) */
   maximumInterval: number;
-  /** Weights for the FSRS algorithm (17 parameters) */
+  /** Weights for the FSRS algorithm (17 for FSRS-4.5, 19 for FSRS-5) */
   w: readonly number[];
+  /** Learning steps in minutes, for NEW and LEARNING cards */
+  learningSteps: readonly number[];
+  /** Relearning steps in minutes, for lapsed (RELEARNING) cards */
+  relearningSteps: readonly number[];
+  /** Spread review intervals over a small range (see load-balancer) */
+  enableFuzz: boolean;
+}
+
+/**
+ * A scheduling model: how a review changes a card's stability and
+ * difficulty, and how stability maps to recall probability and intervals.
+ */
+export interface SchedulingEngine {
+  /** Probability of recall after elapsedDays (0-1) */
+  retrievability(stability: number, elapsedDays: number): number;
+  /** Days until recall probability drops to requestRetention */
+  interval(
+    stability: number,
+    requestRetention: number,
+    maximumInterval: number,
+  ): number;
+  /** Stability and difficulty after a review */
+  nextMemoryState(
+    current: FSRSState,
+    rating: RatingType,
+    elapsedDays: number,
+    params: FSRSParameters,
+  ): MemoryState;
+}
+
+/**
+ * A version of the FSRS memory model.
+ */
+export interface FSRSEngine extends SchedulingEngine {
+  version: FSRSVersionType;
+  /** Weights used when the user has none fitted for this engine */
+  defaultWeights: readonly number[];
+}
+
+/**
+ * Learning and relearning steps, as configured on a user or deck.
+ * An empty list means "not set" (inherit from the next level).
+ */
+export interface LearningStepsSettings {
+  learningSteps: readonly number[];
+  relearningSteps: readonly number[];
+}
+
+/**
+ * Scheduling settings stored on a deck. Unset values are inherited from the
+ * parent deck (subdecks are one level deep), then the user, then the defaults.
+ */
+export interface DeckSchedulingSettings extends Partial<LearningStepsSettings> {
+  /** Desired retention for cards in the deck (null = inherit) */
+  desiredRetention?: number | null;
+  /** Algorithm for cards in the deck (not inherited from the parent deck) */
+  schedulingAlgorithm?: SchedulingAlgorithmType;
+  parentDeck?: Omit<DeckSchedulingSettings, 'parentDeck'> | null;
+}
+
+/**
+ * Scheduling settings stored on a user.
+ */
+export interface UserSchedulingSettings extends Partial<LearningStepsSettings> {
+  enableFuzz?: boolean;
+  fsrsVersion?: FSRSVersionType;
+}
+
+/**
+ * FSRS parameters that can be overridden per user or deck.
+ */
+export type FSRSParameterOverrides = Partial<
+  Pick<
+    FSRSParameters,
+    | 'algorithm'
+    | 'version'
+    | 'requestRetention'
+    | 'learningSteps'
+    | 'relearningSteps'
+    | 'enableFuzz'
+  >
+>;
+
+/**
+ * Next review interval for each rating, in minutes.
+ */
+export type IntervalPreview = Record<RatingType, number>;
+
+/**
+ * Range of intervals (in days) a review interval may be fuzzed to.
+ */
+export interface FuzzRange {
+  minInterval: number;
+  maxInterval: number;
 }
 
 /**
@@ -66,6 +189,8 @@ export interface FSRSParameters {
  * These weights are optimized from large-scale Anki data.
  */
 export const DEFAULT_FSRS_PARAMETERS: FSRSParameters = {
+  algorithm: 'FSRS',
+  version: 'FSRS_4_5',
   requestRetention: 0.9,
   maximumInterval: 36500,
   // FSRS-4.5 default weights
@@ -88,8 +213,98 @@ export const DEFAULT_FSRS_PARAMETERS: FSRSParameters = {
     0.29, // w15: Stability weight
     2.61, // w16: Stability weight
   ],
+  learningSteps: [1, 10], // 1 minute, then 10 minutes
+  relearningSteps: [1, 10],
+  // Off by default so scheduling stays deterministic
+  enableFuzz: false,
 } as const;
 
+/**
+ * Build FSRS parameters from a stored set of weights and overrides.
+ * Falls back to the engine's default weights when no (or a malformed, e.g.
+ * fitted for another engine) weight set is stored, and to the defaults for
+ * anything not overridden.
+ *
+ * @param weights - Per-user weights (e.g. User.fsrsWeights)
+ * @param overrides - Engine, retention and steps to use (see resolveSchedulingOverrides)
+ * @returns FSRS parameters to schedule with
+ */
+export function getFSRSParameters(
+  weights?: readonly number[] | null,
+  overrides?: FSRSParameterOverrides,
+): FSRSParameters {
+  const version = overrides?.version ?? DEFAULT_FSRS_PARAMETERS.version;
+  const defaultWeights = getFSRSEngine(version).defaultWeights;
+  const hasWeights = !!weights && weights.length === defaultWeights.length;
+  if (!hasWeights && !overrides) {
+    return DEFAULT_FSRS_PARAMETERS;
+  }
+  return {
+    ...DEFAULT_FSRS_PARAMETERS,
+    w: hasWeights ? [...weights] : defaultWeights,
+    ...overrides,
+  };
+}
+
+/**
+ * Resolve the learning steps that apply to a card.
+ * Each list is taken from the first source that sets it (non-empty),
+ * e.g. resolveLearningSteps(deck, user), falling back to the defaults.
+ *
+ * @param sources - Settings in order of precedence
+ * @returns Learning and relearning steps in minutes
+ */
+export function resolveLearningSteps(
+  ...sources: Array<Partial<LearningStepsSettings> | null | undefined>
+): LearningStepsSettings {
+  const pick = (key: keyof LearningStepsSettings): readonly number[] =>
+    sources.find((source) => source?.[key]?.length)?.[key] ??
+    DEFAULT_FSRS_PARAMETERS[key];
+
+  return {
+    learningSteps: pick('learningSteps'),
+    relearningSteps: pick('relearningSteps'),
+  };
+}
+
+/**
+ * Resolve the desired retention of a deck, inheriting from its parent.
+ *
+ * @param deck - The deck (with its parent deck, if any)
+ * @returns Desired retention (0-1)
+ */
+export function resolveDesiredRetention(
+  deck?: DeckSchedulingSettings | null,
+): number {
+  return (
+    deck?.desiredRetention ??
+    deck?.parentDeck?.desiredRetention ??
+    DEFAULT_FSRS_PARAMETERS.requestRetention
+  );
+}
+
+/**
+ * Resolve the scheduling overrides for a card in a deck.
+ * Deck settings win over the parent deck's, which win over the user's.
+ * The algorithm is always the deck's own.
+ *
+ * @param deck - The card's deck (with its parent deck, if any)
+ * @param user - The user's scheduling settings
+ * @returns Overrides to pass to getFSRSParameters()
+ */
+export function resolveSchedulingOverrides(
+  deck?: DeckSchedulingSettings | null,
+  user?: UserSchedulingSettings | null,
+): FSRSParameterOverrides {
+  return {
+    requestRetention: resolveDesiredRetention(deck),
+    ...resolveLearningSteps(deck, deck?.parentDeck, user),
+    ...(user?.enableFuzz !== undefined && { enableFuzz: user.enableFuzz }),
+    ...(user?.fsrsVersion && { version: user.fsrsVersion }),
+    ...(deck?.schedulingAlgorithm && { algorithm: deck.schedulingAlgorithm }),
+  };
+}
+
 /**
  * Numeric values for ratings used in calculations.
  * Matches the Prisma Rating enum order.
@@ -122,6 +337,17 @@ export type RatingType = keyof typeof RATING_VALUES;
  */
 export type CardStateType = keyof typeof STATE_VALUES;
 
+/**
+ * Type for FSRS engine version string literals.
+ */
+export type FSRSVersionType = import('@/generated/prisma').FSRSVersion;
+
+/**
+ * Type for scheduling algorithm string literals.
+ */
+export type SchedulingAlgorithmType =
+  import('@/generated/prisma').SchedulingAlgorithm;
+
 // =============================================================================
 // FSRS Initialization Functions
 // =============================================================================
@@ -141,6 +367,7 @@ export function initializeFSRS(): FSRSState {
     reps: 0,
     lapses: 0,
     state: 'NEW' as const,
+    learningStep: 0,
     lastReview: null,
   };
 }
@@ -159,12 +386,6 @@ export function calculateInitialReviewDate(): Date {
 // FSRS Core Algorithm Functions
 // =============================================================================
 
-/**
- * Learning step intervals in minutes.
- * Used for cards in LEARNING or RELEARNING state.
- */
-const LEARNING_STEPS_MINUTES = [1, 10]; // 1 minute, then 10 minutes
-
 /**
  * Clamp a value between min and max.
  */
@@ -208,13 +429,13 @@ function calculateInitialStability(
 
 /**
  * Calculate the retrievability (probability of recall) given stability and elapsed days.
- * Uses FSRS formula: R(t,S) = (1 + t/(9*S))^(-1)
+ * Uses the FSRS-4.5 formula: R(t,S) = (1 + t/(9*S))^(-1)
  *
  * @param stability - Current stability in days
  * @param elapsedDays - Days since last review
  * @returns Retrievability (0-1)
  */
-function calculateRetrievability(
+export function calculateRetrievability(
   stability: number,
   elapsedDays: number,
 ): number {
@@ -316,7 +537,7 @@ function calculateForgetStability(
 
 /**
  * Calculate the interval in days from stability and desired retention.
- * Uses FSRS formula: I(r,S) = 9 * S * (1/r - 1)
+ * Uses the FSRS-4.5 formula: I(r,S) = 9 * S * (1/r - 1)
  *
  * @param stability - Stability in days
  * @param requestRetention - Desired retention rate (default 0.9)
@@ -333,19 +554,492 @@ function calculateInterval(
 }
 
 /**
- * Get the next learning step interval in minutes.
+ * Get the interval of a learning step in minutes.
+ * Indexes past the last step (e.g. after the steps were shortened) stay on
+ * the last step.
  *
- * @param reps - Number of repetitions in current learning cycle
+ * @param stepIndex - Index of the step in the current learning cycle
+ * @param steps - Learning or relearning steps in minutes
  * @returns Interval in minutes
  */
-function getLearningStepMinutes(reps: number): number {
-  const stepIndex = Math.min(reps, LEARNING_STEPS_MINUTES.length - 1);
-  return LEARNING_STEPS_MINUTES[stepIndex];
+function getLearningStepMinutes(
+  stepIndex: number,
+  steps: readonly number[] = DEFAULT_FSRS_PARAMETERS.learningSteps,
+): number {
+  return steps[Math.min(stepIndex, steps.length - 1)];
 }
 
+/**
+ * Get the interval in minutes for HARD on a learning step. HARD repeats the
+ * step, except on the first one, where it waits halfway to the second (as
+ * Anki does).
+ *
+ * @param stepIndex - Index of the step in the current learning cycle
+ * @param steps - Learning or relearning steps in minutes
+ * @returns Interval in minutes
+ */
+function getHardStepMinutes(
+  stepIndex: number,
+  steps: readonly number[] = DEFAULT_FSRS_PARAMETERS.learningSteps,
+): number {
+  if (stepIndex === 0 && steps.length > 1) {
+    return (steps[0] + steps[1]) / 2;
+  }
+  return getLearningStepMinutes(stepIndex, steps);
+}
+
+// =============================================================================
+// FSRS-5 Memory Model
+// =============================================================================
+
+/**
+ * Decay of the FSRS-5 power forgetting curve.
+ */
+const FSRS_5_DECAY = -0.5;
+
+/**
+ * Factor of the FSRS-5 forgetting curve, chosen so that R(S, S) = 90%.
+ */
+const FSRS_5_FACTOR = Math.pow(0.9, 1 / FSRS_5_DECAY) - 1;
+
+/**
+ * Default FSRS-5 weights (w0..w18).
+ * w17 and w18 drive the short-term stability of same-day reviews.
+ */
+const FSRS_5_DEFAULT_WEIGHTS: readonly number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575,
+  0.1192, 1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655,
+  0.6621,
+];
+
+/**
+ * Calculate retrievability with the FSRS-5 power forgetting curve.
+ * Uses FSRS formula: R(t,S) = (1 + FACTOR * t/S)^DECAY
+ *
+ * @param stability - Current stability in days
+ * @param elapsedDays - Days since last review
+ * @returns Retrievability (0-1)
+ */
+function calculateFSRS5Retrievability(
+  stability: number,
+  elapsedDays: number,
+): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + (FSRS_5_FACTOR * elapsedDays) / stability, FSRS_5_DECAY);
+}
+
+/**
+ * Calculate the interval in days with the FSRS-5 forgetting curve.
+ * Uses FSRS formula: I(r,S) = S / FACTOR * (r^(1/DECAY) - 1)
+ *
+ * @param stability - Stability in days
+ * @param requestRetention - Desired retention rate
+ * @param maxInterval - Maximum interval in days
+ * @returns Interval in days
+ */
+function calculateFSRS5Interval(
+  stability: number,
+  requestRetention: number,
+  maxInterval: number,
+): number {
+  const interval =
+    (stability / FSRS_5_FACTOR) *
+    (Math.pow(requestRetention, 1 / FSRS_5_DECAY) - 1);
+  return Math.min(Math.max(1, Math.round(interval)), maxInterval);
+}
+
+/**
+ * Calculate initial difficulty with FSRS-5.
+ * Uses FSRS formula: D0(G) = w4 - e^(w5 * (G-1)) + 1
+ *
+ * @param rating - The first rating given to the card
+ * @param w - FSRS-5 weights
+ * @returns Initial difficulty value (clamped to 1-10)
+ */
+function calculateFSRS5InitialDifficulty(
+  rating: RatingType,
+  w: readonly number[],
+): number {
+  const g = RATING_VALUES[rating];
+  return clamp(w[4] - Math.exp(w[5] * (g - 1)) + 1, 1, 10);
+}
+
+/**
+ * Update difficulty with FSRS-5.
+ * The change shrinks linearly as difficulty approaches 10, then reverts
+ * towards D0(EASY): D' = w7 * D0(4) + (1 - w7) * (D - w6 * (G-3) * (10-D)/9)
+ *
+ * @param currentDifficulty - Current difficulty
+ * @param rating - The rating given
+ * @param w - FSRS-5 weights
+ * @returns Updated difficulty (clamped to 1-10)
+ */
+function updateFSRS5Difficulty(
+  currentDifficulty: number,
+  rating: RatingType,
+  w: readonly number[],
+): number {
+  const g = RATING_VALUES[rating];
+  const damped =
+    currentDifficulty - (w[6] * (g - 3) * (10 - currentDifficulty)) / 9;
+  const newD =
+    w[7] * calculateFSRS5InitialDifficulty('EASY', w) + (1 - w[7]) * damped;
+  return clamp(newD, 1, 10);
+}
+
+/**
+ * Calculate stability after a same-day review with FSRS-5.
+ * Uses FSRS formula: S'(S,G) = S * e^(w17 * (G - 3 + w18))
+ *
+ * @param stability - Current stability
+ * @param rating - The rating given
+ * @param w - FSRS-5 weights
+ * @returns New stability value
+ */
+function calculateShortTermStability(
+  stability: number,
+  rating: RatingType,
+  w: readonly number[],
+): number {
+  const g = RATING_VALUES[rating];
+  return Math.max(0.1, stability * Math.exp(w[17] * (g - 3 + w[18])));
+}
+
+// =============================================================================
+// FSRS Engines
+// =============================================================================
+
+/**
+ * FSRS-4.5: stability and difficulty only change where the original
+ * implementation changed them (learning steps keep their stability on HARD).
+ */
+const FSRS_4_5_ENGINE: FSRSEngine = {
+  version: 'FSRS_4_5',
+  defaultWeights: DEFAULT_FSRS_PARAMETERS.w,
+  retrievability: calculateRetrievability,
+  interval: calculateInterval,
+  nextMemoryState(current, rating, elapsedDays, params) {
+    const { state, stability, difficulty } = current;
+
+    if (state === 'NEW') {
+      return {
+        stability: calculateInitialStability(rating, params),
+        difficulty: calculateInitialDifficulty(rating, params),
+      };
+    }
+
+    const retrievability = calculateRetrievability(stability, elapsedDays);
+
+    if (state === 'LEARNING' || state === 'RELEARNING') {
+      if (rating === 'AGAIN') {
+        // Recalculate stability on lapse
+        return {
+          stability:
+            stability > 0
+              ? calculateForgetStability(
+                  difficulty,
+                  stability,
+                  retrievability,
+                  params,
+                )
+              : stability,
+          difficulty,
+        };
+      }
+      if (rating === 'HARD') {
+        return { stability, difficulty };
+      }
+      if (stability <= 0) {
+        // First time graduating
+        return {
+          stability: calculateInitialStability(rating, params),
+          difficulty: calculateInitialDifficulty(rating, params),
+        };
+      }
+    }
+
+    return {
+      stability:
+        rating === 'AGAIN'
+          ? calculateForgetStability(
+              difficulty,
+              stability,
+              retrievability,
+              params,
+            )
+          : calculateRecallStability(
+              difficulty,
+              stability,
+              retrievability,
+              rating,
+              params,
+            ),
+      difficulty: updateDifficulty(difficulty, rating, params),
+    };
+  },
+};
+
+/**
+ * FSRS-5: every review updates difficulty, and reviews less than a day after
+ * the previous one (learning steps, same-day repeats) use short-term stability
+ * instead of the long-term recall/forget formulas.
+ */
+const FSRS_5_ENGINE: FSRSEngine = {
+  version: 'FSRS_5',
+  defaultWeights: FSRS_5_DEFAULT_WEIGHTS,
+  retrievability: calculateFSRS5Retrievability,
+  interval: calculateFSRS5Interval,
+  nextMemoryState(current, rating, elapsedDays, params) {
+    const { state, stability, difficulty, lastReview } = current;
+    const w = params.w;
+
+    if (state === 'NEW' || stability <= 0) {
+      return {
+        stability: calculateInitialStability(rating, params),
+        difficulty: calculateFSRS5InitialDifficulty(rating, w),
+      };
+    }
+
+    const newDifficulty = updateFSRS5Difficulty(difficulty, rating, w);
+
+    if (lastReview && elapsedDays < 1) {
+      return {
+        stability: calculateShortTermStability(stability, rating, w),
+        difficulty: newDifficulty,
+      };
+    }
+
+    const retrievability = calculateFSRS5Retrievability(stability, elapsedDays);
+    const newStability =
+      rating === 'AGAIN'
+        ? // Never more stable after a lapse than a same-day AGAIN would make it
+          Math.min(
+            calculateForgetStability(
+              difficulty,
+              stability,
+              retrievability,
+              params,
+            ),
+            stability / Math.exp(w[17] * w[18]),
+          )
+        : calculateRecallStability(
+            difficulty,
+            stability,
+            retrievability,
+            rating,
+            params,
+          );
+
+    return {
+      stability: Math.max(0.1, newStability),
+      difficulty: newDifficulty,
+    };
+  },
+};
+
+const FSRS_ENGINES: Record<FSRSVersionType, FSRSEngine> = {
+  FSRS_4_5: FSRS_4_5_ENGINE,
+  FSRS_5: FSRS_5_ENGINE,
+};
+
+/**
+ * Available engine versions, oldest first.
+ */
+export const FSRS_VERSIONS = Object.keys(FSRS_ENGINES) as FSRSVersionType[];
+
+/**
+ * Get the engine for an FSRS version.
+ *
+ * @param version - Engine version (e.g. User.fsrsVersion)
+ * @returns The engine
+ */
+export function getFSRSEngine(version: FSRSVersionType): FSRSEngine {
+  return FSRS_ENGINES[version];
+}
+
+// =============================================================================
+// SM-2 Engine
+// =============================================================================
+
+/** Ease factor of a card on its first graduation */
+const SM2_INITIAL_EASE = 2.5;
+
+/** Lowest ease factor a card can drop to */
+const SM2_MINIMUM_EASE = 1.3;
+
+/** Interval in days after graduating with GOOD */
+const SM2_GRADUATING_INTERVAL = 1;
+
+/** Interval in days after graduating with EASY */
+const SM2_EASY_INTERVAL = 4;
+
+/** Interval in days a lapsed card relearns towards */
+const SM2_LAPSE_INTERVAL = 1;
+
+/** Interval multiplier for HARD */
+const SM2_HARD_MULTIPLIER = 1.2;
+
+/** Extra interval multiplier for EASY */
+const SM2_EASY_BONUS = 1.3;
+
+/**
+ * SM-2, with Anki's default settings. SM-2 has no memory model, so the
+ * memory state is reused: stability holds the card's interval in days and
+ * difficulty its ease factor (0 until the card first graduates).
+ *
+ * Learning steps and state transitions are the same as for FSRS.
+ */
+export const SM2_ENGINE: SchedulingEngine = {
+  // No forgetting curve: assume recall drops to 90% when the card is due
+  retrievability: calculateRetrievability,
+  interval(stability, _requestRetention, maximumInterval) {
+    return Math.min(Math.max(1, Math.round(stability)), maximumInterval);
+  },
+  nextMemoryState(current, rating, elapsedDays, params) {
+    const { state, stability: interval } = current;
+    const ease = current.difficulty > 0 ? current.difficulty : SM2_INITIAL_EASE;
+
+    if (state === 'NEW' || state === 'LEARNING') {
+      return {
+        stability:
+          rating === 'EASY' ? SM2_EASY_INTERVAL : SM2_GRADUATING_INTERVAL,
+        difficulty: ease,
+      };
+    }
+
+    if (state === 'RELEARNING') {
+      // Graduates again with the interval set when it lapsed
+      return { stability: interval, difficulty: ease };
+    }
+
+    // Reviews made late count (part of) the extra days towards the interval
+    const daysLate = Math.max(0, elapsedDays - interval);
+    const nextInterval = (days: number) =>
+      Math.min(
+        Math.max(interval + 1, Math.round(days)),
+        params.maximumInterval,
+      );
+
+    switch (rating) {
+      case 'AGAIN':
+        return {
+          stability: SM2_LAPSE_INTERVAL,
+          difficulty: Math.max(SM2_MINIMUM_EASE, ease - 0.2),
+        };
+      case 'HARD':
+        return {
+          stability: nextInterval(interval * SM2_HARD_MULTIPLIER),
+          difficulty: Math.max(SM2_MINIMUM_EASE, ease - 0.15),
+        };
+      case 'GOOD':
+        return {
+          stability: nextInterval((interval + daysLate / 2) * ease),
+          difficulty: ease,
+        };
+      case 'EASY':
+        return {
+          stability: nextInterval(
+            (interval + daysLate) * ease * SM2_EASY_BONUS,
+          ),
+          difficulty: ease + 0.15,
+        };
+    }
+  },
+};
+
+/**
+ * Get the engine that schedules with a set of parameters.
+ *
+ * @param params - FSRS parameters (algorithm and version)
+ * @returns SM2_ENGINE for SM-2, otherwise the FSRS engine for params.version
+ */
+export function getSchedulingEngine(params: FSRSParameters): SchedulingEngine {
+  return params.algorithm === 'SM2'
+    ? SM2_ENGINE
+    : getFSRSEngine(params.version);
+}
+
+// =============================================================================
+// Algorithm Conversion
+// =============================================================================
+
+/**
+ * Retention SM-2 intervals are assumed to target. At 90%, stability equals
+ * the interval for both FSRS forgetting curves.
+ */
+const SM2_ASSUMED_RETENTION = 0.9;
+
+/**
+ * Stability increase per point of (11 - difficulty) that FSRS predicts for a
+ * successful review at the assumed SM-2 retention. The full increase plays
+ * the role of SM-2's ease factor: E = 1 + (11-D) * k, from the FSRS recall
+ * stability formula (w8-w10 mean the same in every engine).
+ */
+function calculateEaseSlope(stability: number, w: readonly number[]): number {
+  return (
+    Math.exp(w[8]) *
+    Math.pow(stability, -w[9]) *
+    (Math.exp((1 - SM2_ASSUMED_RETENTION) * w[10]) - 1)
+  );
+}
+
+/**
+ * Convert a card's state between scheduling algorithms.
+ * Interval and stability map one-to-one; ease and difficulty are matched
+ * through the stability increase of a successful review (the same mapping
+ * Anki uses when enabling FSRS). Cards that never graduated restart their
+ * memory state.
+ *
+ * @param state - Current state of the card
+ * @param from - Algorithm that produced the state (Card.schedulingAlgorithm)
+ * @param to - Algorithm to convert to
+ * @param params - FSRS parameters whose weights to convert with
+ * @returns The converted state (unchanged if from === to)
+ */
+export function convertSchedulingState(
+  state: FSRSState,
+  from: SchedulingAlgorithmType,
+  to: SchedulingAlgorithmType,
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS,
+): FSRSState {
+  if (from === to) {
+    return state;
+  }
+
+  if (state.state === 'NEW' || state.state === 'LEARNING') {
+    return { ...state, stability: 0, difficulty: 0 };
+  }
+
+  if (to === 'FSRS') {
+    const stability = Math.max(0.1, state.stability);
+    const slope = calculateEaseSlope(stability, params.w);
+    return {
+      ...state,
+      stability,
+      difficulty: clamp(11 - (state.difficulty - 1) / slope, 1, 10),
+    };
+  }
+
+  return {
+    ...state,
+    stability: Math.max(1, Math.round(state.stability)),
+    difficulty: Math.max(
+      SM2_MINIMUM_EASE,
+      1 +
+        (11 - state.difficulty) * calculateEaseSlope(state.stability, params.w),
+    ),
+  };
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
 /**
  * Calculate the next review based on current state and rating.
- * This is the main FSRS algorithm function.
+ * This is the main FSRS algorithm function. The engine selected by
+ * params.algorithm and params.version updates stability and difficulty;
+ * learning steps and state transitions are the same for every engine.
  *
  * @param currentState - Current FSRS state of the card
  * @param rating - The rating given by the user
@@ -359,8 +1053,8 @@ export function calculateNextReview(
   reviewTime: Date = new Date(),
   params: FSRSParameters = DEFAULT_FSRS_PARAMETERS,
 ): FSRSReviewResult {
-  const { state, stability, difficulty, reps, lapses, lastReview } =
-    currentState;
+  const { state, reps, lapses, learningStep, lastReview } = currentState;
+  const engine = getSchedulingEngine(params);
 
   // Calculate elapsed days since last review
   let elapsedDays = 0;
@@ -371,148 +1065,90 @@ export function calculateNextReview(
     );
   }
 
-  // Initialize result with current values
-  let newStability = stability;
-  let newDifficulty = difficulty;
+  const { stability: newStability, difficulty: newDifficulty } =
+    engine.nextMemoryState(currentState, rating, elapsedDays, params);
+
   let newState: CardStateType = state;
   let newReps = reps;
   let newLapses = lapses;
+  let newLearningStep = 0;
   let scheduledDays = 0;
   let nextReviewDate: Date;
 
+  // Schedule a learning step, in minutes
+  const scheduleMinutes = (minutes: number) => {
+    nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
+    scheduledDays = minutes / (60 * 24);
+  };
+  // Schedule the next long-term review, in days
+  const scheduleReview = () => {
+    scheduledDays = engine.interval(
+      newStability,
+      params.requestRetention,
+      params.maximumInterval,
+    );
+    nextReviewDate = new Date(
+      reviewTime.getTime() + scheduledDays * 24 * 60 * 60 * 1000,
+    );
+  };
+
   // Handle based on current state
   if (state === 'NEW') {
     // First review of a new card
-    newStability = calculateInitialStability(rating, params);
-    newDifficulty = calculateInitialDifficulty(rating, params);
     newReps = 1;
 
     if (rating === 'AGAIN') {
       // Failed first review - go to learning
       newState = 'LEARNING';
       newLapses = 1;
-      const minutes = getLearningStepMinutes(0);
-      nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
-      scheduledDays = minutes / (60 * 24);
+      scheduleMinutes(getLearningStepMinutes(0, params.learningSteps));
     } else if (rating === 'HARD') {
       // Hard on first review - short learning period
       newState = 'LEARNING';
-      const minutes = getLearningStepMinutes(0);
-      nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
-      scheduledDays = minutes / (60 * 24);
-    } else if (rating === 'GOOD') {
-      // Good on first review - graduate to review
-      newState = 'REVIEW';
-      scheduledDays = calculateInterval(
-        newStability,
-        params.requestRetention,
-        params.maximumInterval,
-      );
-      nextReviewDate = new Date(
-        reviewTime.getTime() + scheduledDays * 24 * 60 * 60 * 1000,
-      );
+      scheduleMinutes(getHardStepMinutes(0, params.learningSteps));
     } else {
-      // Easy on first review - graduate with bonus
+      // Good or Easy on first review - graduate to review
       newState = 'REVIEW';
-      scheduledDays = calculateInterval(
-        newStability,
-        params.requestRetention,
-        params.maximumInterval,
-      );
-      nextReviewDate = new Date(
-        reviewTime.getTime() + scheduledDays * 24 * 60 * 60 * 1000,
-      );
+      scheduleReview();
     }
   } else if (state === 'LEARNING' || state === 'RELEARNING') {
     // Card is in learning/relearning phase
     newReps = reps + 1;
+    const steps =
+      state === 'LEARNING' ? params.learningSteps : params.relearningSteps;
+
+    // Steps may have been shortened since the card entered this one
+    const currentStep = Math.min(learningStep, steps.length - 1);
 
     if (rating === 'AGAIN') {
       // Reset learning progress
       newLapses = state === 'LEARNING' ? lapses : lapses + 1;
-      newState = state === 'LEARNING' ? 'LEARNING' : 'RELEARNING';
-      const minutes = getLearningStepMinutes(0);
-      nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
-      scheduledDays = minutes / (60 * 24);
-      // Recalculate stability on lapse
-      if (stability > 0) {
-        const retrievability = calculateRetrievability(stability, elapsedDays);
-        newStability = calculateForgetStability(
-          difficulty,
-          stability,
-          retrievability,
-          params,
-        );
-      }
+      scheduleMinutes(getLearningStepMinutes(0, steps));
     } else if (rating === 'HARD') {
-      // Stay in learning but advance
-      const minutes = getLearningStepMinutes(newReps - 1);
-      nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
-      scheduledDays = minutes / (60 * 24);
+      // Stay on the current step
+      newLearningStep = currentStep;
+      scheduleMinutes(getHardStepMinutes(currentStep, steps));
+    } else if (rating === 'GOOD' && currentStep + 1 < steps.length) {
+      // Advance to the next step
+      newLearningStep = currentStep + 1;
+      scheduleMinutes(getLearningStepMinutes(newLearningStep, steps));
     } else {
-      // Good or Easy - graduate to review
+      // Easy, or Good on the last step - graduate to review
       newState = 'REVIEW';
-      if (stability > 0) {
-        const retrievability = calculateRetrievability(stability, elapsedDays);
-        newStability = calculateRecallStability(
-          difficulty,
-          stability,
-          retrievability,
-          rating,
-          params,
-        );
-        newDifficulty = updateDifficulty(difficulty, rating, params);
-      } else {
-        // First time graduating
-        newStability = calculateInitialStability(rating, params);
-        newDifficulty = calculateInitialDifficulty(rating, params);
-      }
-      scheduledDays = calculateInterval(
-        newStability,
-        params.requestRetention,
-        params.maximumInterval,
-      );
-      nextReviewDate = new Date(
-        reviewTime.getTime() + scheduledDays * 24 * 60 * 60 * 1000,
-      );
+      scheduleReview();
     }
   } else {
     // Card is in REVIEW state
-    const retrievability = calculateRetrievability(stability, elapsedDays);
     newReps = reps + 1;
 
     if (rating === 'AGAIN') {
       // Lapse - go to relearning
       newState = 'RELEARNING';
       newLapses = lapses + 1;
-      newStability = calculateForgetStability(
-        difficulty,
-        stability,
-        retrievability,
-        params,
-      );
-      newDifficulty = updateDifficulty(difficulty, rating, params);
-      const minutes = getLearningStepMinutes(0);
-      nextReviewDate = new Date(reviewTime.getTime() + minutes * 60 * 1000);
-      scheduledDays = minutes / (60 * 24);
+      scheduleMinutes(getLearningStepMinutes(0, params.relearningSteps));
     } else {
       // Successful recall
-      newStability = calculateRecallStability(
-        difficulty,
-        stability,
-        retrievability,
-        rating,
-        params,
-      );
-      newDifficulty = updateDifficulty(difficulty, rating, params);
-      scheduledDays = calculateInterval(
-        newStability,
-        params.requestRetention,
-        params.maximumInterval,
-      );
-      nextReviewDate = new Date(
-        reviewTime.getTime() + scheduledDays * 24 * 60 * 60 * 1000,
-      );
+      scheduleReview();
     }
   }
 
@@ -525,8 +1161,152 @@ export function calculateNextReview(
       reps: newReps,
       lapses: newLapses,
       state: newState,
+      learningStep: newLearningStep,
       lastReview: reviewTime,
     },
-    nextReviewDate,
+    nextReviewDate: nextReviewDate!,
+  };
+}
+
+/**
+ * Get the range of intervals a review interval may be fuzzed to.
+ * Follows the FSRS fuzz factors: ±15% for 2.5-7 days, ±10% for 7-20 days and
+ * ±5% beyond, plus one day. Intervals under 2.5 days are not fuzzed.
+ *
+ * @param interval - Scheduled interval in days
+ * @param elapsedDays - Days since the previous review
+ * @param maximumInterval - Maximum interval in days
+ * @returns Allowed interval range in days
+ */
+export function getFuzzRange(
+  interval: number,
+  elapsedDays: number,
+  maximumInterval: number = DEFAULT_FSRS_PARAMETERS.maximumInterval,
+): FuzzRange {
+  if (interval < 2.5) {
+    return { minInterval: interval, maxInterval: interval };
+  }
+
+  const delta =
+    1 +
+    0.15 * (Math.min(interval, 7) - 2.5) +
+    0.1 * Math.max(0, Math.min(interval, 20) - 7) +
+    0.05 * Math.max(0, interval - 20);
+
+  let minInterval = Math.max(2, Math.round(interval - delta));
+  const maxInterval = Math.min(Math.round(interval + delta), maximumInterval);
+  // A successful review should never be scheduled sooner than the last gap
+  if (interval > elapsedDays) {
+    minInterval = Math.max(minInterval, Math.round(elapsedDays) + 1);
+  }
+
+  return { minInterval: Math.min(minInterval, maxInterval), maxInterval };
+}
+
+/**
+ * Create a deterministic pseudo-random number generator (mulberry32).
+ * The same seed always yields the same sequence.
+ *
+ * @param seed - Seed string (e.g. card ID and repetition count)
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  // FNV-1a hash of the seed
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Move a review result to a different interval (e.g. after fuzzing).
+ *
+ * @param result - Result from calculateNextReview()
+ * @param interval - New interval in days
+ * @param reviewTime - When the review occurred
+ * @returns Result with the new interval and next review date
+ */
+export function rescheduleReviewResult(
+  result: FSRSReviewResult,
+  interval: number,
+  reviewTime: Date,
+): FSRSReviewResult {
+  return {
+    state: { ...result.state, scheduledDays: interval },
+    nextReviewDate: new Date(
+      reviewTime.getTime() + interval * 24 * 60 * 60 * 1000,
+    ),
+  };
+}
+
+// =============================================================================
+// Review Preview Functions
+// =============================================================================
+
+/**
+ * Get a card's current probability of recall.
+ *
+ * @param state - Current FSRS state of the card
+ * @param now - Time to evaluate at (defaults to now)
+ * @param params - FSRS parameters (defaults to FSRS-4.5)
+ * @returns Retrievability (0-1), or null for cards never reviewed
+ */
+export function getCurrentRetrievability(
+  state: FSRSState,
+  now: Date = new Date(),
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS,
+): number | null {
+  if (state.state === 'NEW' || !state.lastReview) {
+    return null;
+  }
+  const elapsedDays = Math.max(
+    0,
+    (now.getTime() - state.lastReview.getTime()) / (1000 * 60 * 60 * 24),
+  );
+  return getSchedulingEngine(params).retrievability(
+    state.stability,
+    elapsedDays,
+  );
+}
+
+/**
+ * Preview the next review interval for each possible rating.
+ * Intervals are before fuzz, which may move a review by a few days.
+ *
+ * @param state - Current FSRS state of the card
+ * @param reviewTime - When the card would be reviewed (defaults to now)
+ * @param params - FSRS parameters (defaults to FSRS-4.5)
+ * @returns Interval in minutes for each rating
+ */
+export function previewNextIntervals(
+  state: FSRSState,
+  reviewTime: Date = new Date(),
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS,
+): IntervalPreview {
+  const intervalFor = (rating: RatingType) => {
+    const { nextReviewDate } = calculateNextReview(
+      state,
+      rating,
+      reviewTime,
+      params,
+    );
+    return Math.round(
+      (nextReviewDate.getTime() - reviewTime.getTime()) / (60 * 1000),
+    );
+  };
+
+  return {
+    AGAIN: intervalFor('AGAIN'),
+    HARD: intervalFor('HARD'),
+    GOOD: intervalFor('GOOD'),
+    EASY: intervalFor('EASY'),
   };
 }
@@ -0,0 +1,229 @@
+/**
+ * Leech Service
+ *
+ * A leech is a card the user keeps forgetting. When a review takes a card's
+ * lapses to the user's leech threshold, the user's leech action is applied:
+ * the card is tagged "leech" (through Tag/CardTag), suspended, or both, so it
+ * stops eating into every sprint until the user rewrites or unsuspends it.
+ * The review records what the action did, so undoing the review takes it
+ * back (see review-undo.ts).
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { LeechAction } from '@/generated/prisma';
+
+/**
+ * Name of the tag leeches are given.
+ */
+export const LEECH_TAG_NAME = 'leech';
+
+/**
+ * A user's leech settings.
+ */
+export interface LeechSettings {
+  leechThreshold: number;
+  leechAction: LeechAction;
+}
+
+/**
+ * Options for handleLeech()
+ */
+export interface HandleLeechOptions {
+  userId: string;
+  cardId: string;
+  /** The review, which records what the action did */
+  reviewId: string;
+  /** Lapses before the review */
+  lapsesBefore: number;
+  /** Lapses after the review */
+  lapsesAfter: number;
+  settings: LeechSettings;
+  now?: Date;
+}
+
+/**
+ * What applying a leech action changed. A card that already had the leech
+ * tag or was already suspended is left as it was.
+ */
+export interface LeechActionResult {
+  tagged: boolean;
+  suspended: boolean;
+}
+
+/**
+ * A leech as listed in the leech report
+ */
+export interface LeechCard {
+  id: string;
+  front: string;
+  back: string;
+  lapses: number;
+  suspendedAt: Date | null;
+  /** Whether the card has the leech tag */
+  tagged: boolean;
+}
+
+/**
+ * Leeches of one deck
+ */
+export interface LeechReportDeck {
+  deckId: string;
+  deckTitle: string;
+  cards: LeechCard[];
+}
+
+/**
+ * Check whether a review turned a card into a leech.
+ * Only crossing the threshold counts, so a card the user has dealt with
+ * (e.g. unsuspended) is not handled again on its next lapse.
+ *
+ * @param lapsesBefore - Lapses before the review
+ * @param lapsesAfter - Lapses after the review
+ * @param threshold - The user's leech threshold
+ * @returns True if the card just became a leech
+ */
+export function isNewLeech(
+  lapsesBefore: number,
+  lapsesAfter: number,
+  threshold: number,
+): boolean {
+  return lapsesBefore < threshold && lapsesAfter >= threshold;
+}
+
+/**
+ * Apply a leech action to a card.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - The leech
+ * @param action - What to do with it
+ * @param now - Suspension time
+ * @returns What the action changed
+ */
+export async function applyLeechAction(
+  userId: string,
+  cardId: string,
+  action: LeechAction,
+  now: Date = new Date(),
+): Promise<LeechActionResult> {
+  const result: LeechActionResult = { tagged: false, suspended: false };
+
+  if (action === 'TAG' || action === 'TAG_AND_SUSPEND') {
+    const tag = await prisma.tag.upsert({
+      where: { userId_name: { userId, name: LEECH_TAG_NAME } },
+      create: { userId, name: LEECH_TAG_NAME },
+      update: {},
+    });
+    const { count } = await prisma.cardTag.createMany({
+      data: [{ cardId, tagId: tag.id }],
+      skipDuplicates: true,
+    });
+    result.tagged = count > 0;
+  }
+
+  if (action === 'SUSPEND' || action === 'TAG_AND_SUSPEND') {
+    const { count } = await prisma.card.updateMany({
+      where: { id: cardId, suspendedAt: null },
+      data: { suspendedAt: now },
+    });
+    result.suspended = count > 0;
+  }
+
+  return result;
+}
+
+/**
+ * Apply the user's leech action if a review turned the card into a leech,
+ * and record on the review what it did.
+ *
+ * @param options - The reviewed card, its lapses and the user's settings
+ * @returns True if the card became a leech
+ */
+export async function handleLeech(
+  options: HandleLeechOptions,
+): Promise<boolean> {
+  const { userId, cardId, reviewId, lapsesBefore, lapsesAfter, settings, now } =
+    options;
+
+  if (!isNewLeech(lapsesBefore, lapsesAfter, settings.leechThreshold)) {
+    return false;
+  }
+
+  const { tagged, suspended } = await applyLeechAction(
+    userId,
+    cardId,
+    settings.leechAction,
+    now,
+  );
+  if (tagged || suspended) {
+    await prisma.review.update({
+      where: { id: reviewId },
+      data: { leechTagged: tagged, leechSuspended: suspended },
+    });
+  }
+  return true;
+}
+
+/**
+ * List a user's leeches, grouped by deck.
+ * A card is a leech if it has the leech tag or its lapses have reached the
+ * user's threshold (suspend-only leeches are not tagged).
+ *
+ * @param userId - User ID
+ * @param deckId - Only list leeches in this deck
+ * @returns Decks with at least one leech, most lapses first
+ */
+export async function getLeechReport(
+  userId: string,
+  deckId?: string,
+): Promise<LeechReportDeck[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { leechThreshold: true },
+  });
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const cards = await prisma.card.findMany({
+    where: {
+      deck: { userId, ...(deckId && { id: deckId }) },
+      OR: [
+        { lapses: { gte: user.leechThreshold } },
+        { cardTags: { some: { tag: { name: LEECH_TAG_NAME } } } },
+      ],
+    },
+    select: {
+      id: true,
+      front: true,
+      back: true,
+      lapses: true,
+      suspendedAt: true,
+      deck: { select: { id: true, title: true } },
+      cardTags: {
+        where: { tag: { name: LEECH_TAG_NAME } },
+        select: { id: true },
+      },
+    },
+    orderBy: [{ lapses: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  const decks = new Map<string, LeechReportDeck>();
+  for (const card of cards) {
+    let deck = decks.get(card.deck.id);
+    if (!deck) {
+      deck = { deckId: card.deck.id, deckTitle: card.deck.title, cards: [] };
+      decks.set(card.deck.id, deck);
+    }
+    deck.cards.push({
+      id: card.id,
+      front: card.front,
+      back: card.back,
+      lapses: card.lapses,
+      suspendedAt: card.suspendedAt,
+      tagged: card.cardTags.length > 0,
+    });
+  }
+
+  return [...decks.values()];
+}
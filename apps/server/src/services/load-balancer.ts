@@ -0,0 +1,177 @@
+/**
+ * Load Balancer Service
+ *
+ * calculateNextReview() is deterministic, so cards created or reviewed
+ * together stay clumped together forever, producing spikes in due counts
+ * and push notifications.
+ *
+ * When fuzz is enabled, each review interval is moved within its fuzz range
+ * (see getFuzzRange) to the day with the fewest of the user's cards already
+ * due. Ties are broken with a random generator seeded from the card and its
+ * repetition count, so the same review is always scheduled the same way.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { availableCardConditions } from '@/services/card-availability';
+import {
+  calculateNextReview,
+  createSeededRandom,
+  getFuzzRange,
+  rescheduleReviewResult,
+  type FSRSParameters,
+  type FSRSReviewResult,
+  type FSRSState,
+  type FuzzRange,
+  type RatingType,
+} from '@/services/fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for scheduleReview().
+ */
+export interface ScheduleReviewOptions {
+  userId: string;
+  cardId: string;
+  currentState: FSRSState;
+  rating: RatingType;
+  reviewTime: Date;
+  params: FSRSParameters;
+}
+
+/**
+ * Build the fuzz seed for a review of a card.
+ *
+ * @param cardId - Card ID
+ * @param reps - Repetition count before the review
+ * @returns Seed for createSeededRandom()
+ */
+export function getFuzzSeed(cardId: string, reps: number): string {
+  return `${cardId}:${reps}`;
+}
+
+/**
+ * Pick the interval in a fuzz range with the fewest cards already due.
+ * Ties are broken randomly.
+ *
+ * @param range - Allowed interval range in days
+ * @param dueCounts - Cards due per interval, starting at range.minInterval
+ * @param random - Random number generator (see createSeededRandom)
+ * @returns Interval in days
+ */
+export function pickBalancedInterval(
+  range: FuzzRange,
+  dueCounts: readonly number[],
+  random: () => number,
+): number {
+  const candidates: number[] = [];
+  let fewest = Infinity;
+
+  for (
+    let interval = range.minInterval;
+    interval <= range.maxInterval;
+    interval++
+  ) {
+    const count = dueCounts[interval - range.minInterval] ?? 0;
+    if (count < fewest) {
+      fewest = count;
+      candidates.length = 0;
+    }
+    if (count === fewest) {
+      candidates.push(interval);
+    }
+  }
+
+  return candidates[Math.floor(random() * candidates.length)];
+}
+
+/**
+ * Count a user's cards due around each interval in a fuzz range.
+ * A card counts towards an interval when it is due within 12 hours either
+ * side of reviewTime + interval days. Suspended cards, and cards snoozed or
+ * buried past the start of the range, are not counted: they won't be shown
+ * then.
+ *
+ * @param userId - User ID
+ * @param reviewTime - When the review occurred
+ * @param range - Interval range in days
+ * @param excludeCardId - Card being scheduled (not counted)
+ * @returns Cards due per interval, starting at range.minInterval
+ */
+export async function getDueCountsByInterval(
+  userId: string,
+  reviewTime: Date,
+  range: FuzzRange,
+  excludeCardId?: string,
+): Promise<number[]> {
+  const windowStart = reviewTime.getTime() + (range.minInterval - 0.5) * DAY_MS;
+  const windowEnd = reviewTime.getTime() + (range.maxInterval + 0.5) * DAY_MS;
+
+  const cards = await prisma.card.findMany({
+    where: {
+      deck: { userId },
+      nextReviewDate: { gte: new Date(windowStart), lt: new Date(windowEnd) },
+      AND: availableCardConditions(new Date(windowStart)),
+      ...(excludeCardId && { id: { not: excludeCardId } }),
+    },
+    select: { nextReviewDate: true },
+  });
+
+  const counts = new Array<number>(
+    range.maxInterval - range.minInterval + 1,
+  ).fill(0);
+  for (const card of cards) {
+    const index = Math.floor(
+      (card.nextReviewDate.getTime() - windowStart) / DAY_MS,
+    );
+    if (index >= 0 && index < counts.length) {
+      counts[index]++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Calculate the next review of a card, applying fuzz and load balancing when
+ * enabled in the parameters. Only intervals of cards in REVIEW state are
+ * moved; learning steps are kept as configured.
+ *
+ * @param options - The review to schedule
+ * @returns Updated state and next review date
+ */
+export async function scheduleReview(
+  options: ScheduleReviewOptions,
+): Promise<FSRSReviewResult> {
+  const { userId, cardId, currentState, rating, reviewTime, params } = options;
+
+  const result = calculateNextReview(currentState, rating, reviewTime, params);
+  if (!params.enableFuzz || result.state.state !== 'REVIEW') {
+    return result;
+  }
+
+  const range = getFuzzRange(
+    result.state.scheduledDays,
+    result.state.elapsedDays,
+    params.maximumInterval,
+  );
+  if (range.minInterval === range.maxInterval) {
+    return range.minInterval === result.state.scheduledDays
+      ? result
+      : rescheduleReviewResult(result, range.minInterval, reviewTime);
+  }
+
+  const dueCounts = await getDueCountsByInterval(
+    userId,
+    reviewTime,
+    range,
+    cardId,
+  );
+  const interval = pickBalancedInterval(
+    range,
+    dueCounts,
+    createSeededRandom(getFuzzSeed(cardId, currentState.reps)),
+  );
+
+  return rescheduleReviewResult(result, interval, reviewTime);
+}
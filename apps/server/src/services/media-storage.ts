@@ -0,0 +1,90 @@
+/**
+ * Media Storage
+ *
+ * Where the bytes of uploaded media live. The database keeps a Media row per
+ * file with its storage key; the storage backend only maps keys to bytes.
+ *
+ * The default backend writes to local disk under MEDIA_STORAGE_DIR (default
+ * ./uploads). Object stores (S3, R2, GCS) plug in by implementing MediaStorage
+ * and passing it to setMediaStorage at startup.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * A backend that stores media bytes by key.
+ */
+export interface MediaStorage {
+  /** Store bytes under a key, replacing anything stored there */
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  /** Read the bytes stored under a key, or null if there are none */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove the bytes stored under a key; missing keys are ignored */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create a backend that stores media as files below a directory. Keys map to
+ * relative paths, e.g. "<userId>/<file>".
+ *
+ * @param rootDir - Directory to store files in (created when needed)
+ * @returns Local disk media storage
+ */
+export function createLocalDiskStorage(rootDir: string): MediaStorage {
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(rootDir, key);
+    // Keys are generated by the server, but never leave the root directory
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error('INVALID_STORAGE_KEY');
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+// Storage backend singleton
+let mediaStorage: MediaStorage | null = null;
+
+/**
+ * Gets the media storage backend, creating the local disk backend if none
+ * was set.
+ */
+export function getMediaStorage(): MediaStorage {
+  if (!mediaStorage) {
+    mediaStorage = createLocalDiskStorage(
+      process.env.MEDIA_STORAGE_DIR || path.resolve('uploads'),
+    );
+  }
+  return mediaStorage;
+}
+
+/**
+ * Sets the media storage backend (e.g. an object store, or a fake in tests).
+ * Pass null to go back to the default local disk backend.
+ */
+export function setMediaStorage(storage: MediaStorage | null): void {
+  mediaStorage = storage;
+}
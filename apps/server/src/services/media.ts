@@ -0,0 +1,242 @@
+/**
+ * Media
+ *
+ * Users upload images and audio, then reference them from card markdown as
+ * ![alt](media:<id>). Clients show images or play audio depending on the
+ * media's type. Files are stored per user (see media-storage).
+ *
+ * Media is garbage-collected when the last card referencing it is deleted.
+ * Only media referenced by the deleted cards is considered, so files uploaded
+ * for a card that hasn't been saved yet are kept.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import type { Media } from '@/generated/prisma';
+import { getMediaStorage } from '@/services/media-storage';
+
+/**
+ * Largest accepted upload, in bytes (10 MB).
+ */
+export const MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Accepted media types and the file extension they are stored with. SVG is
+ * left out since it can carry scripts.
+ */
+export const MEDIA_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+};
+
+const MEDIA_REFERENCE = /media:([a-z0-9]+)/g;
+
+export interface UploadMediaInput {
+  data: Buffer;
+  mimeType: string;
+  filename?: string;
+}
+
+/**
+ * Get the IDs of the media referenced by card text.
+ *
+ * @param text - Card front or back
+ * @returns Unique media IDs in order of appearance
+ */
+export function getMediaIds(text: string): string[] {
+  return [
+    ...new Set([...text.matchAll(MEDIA_REFERENCE)].map((match) => match[1])),
+  ];
+}
+
+/**
+ * Markdown that shows the media on a card.
+ */
+export function getMediaMarkdown(media: Pick<Media, 'id' | 'filename'>) {
+  const alt = (media.filename ?? '').replace(/[[\]]/g, '');
+  return `![${alt}](media:${media.id})`;
+}
+
+/**
+ * Store an uploaded file for a user.
+ *
+ * @param userId - Owner of the media
+ * @param input - File bytes, MIME type and optional original file name
+ * @returns The media record
+ * @throws Error('EMPTY_MEDIA') if there are no bytes
+ * @throws Error('MEDIA_TOO_LARGE') above MAX_MEDIA_BYTES
+ * @throws Error('UNSUPPORTED_MEDIA_TYPE') for types other than the accepted
+ *   images and audio
+ */
+export async function uploadMedia(
+  userId: string,
+  input: UploadMediaInput,
+): Promise<Media> {
+  // Drop parameters such as "; charset=binary"
+  const mimeType = input.mimeType.split(';')[0].trim().toLowerCase();
+  const extension = MEDIA_TYPE_EXTENSIONS[mimeType];
+
+  if (!extension) {
+    throw new Error('UNSUPPORTED_MEDIA_TYPE');
+  }
+  if (input.data.length === 0) {
+    throw new Error('EMPTY_MEDIA');
+  }
+  if (input.data.length > MAX_MEDIA_BYTES) {
+    throw new Error('MEDIA_TOO_LARGE');
+  }
+
+  const storageKey = `${userId}/${randomUUID()}.${extension}`;
+  await getMediaStorage().put(storageKey, input.data, mimeType);
+
+  try {
+    return await prisma.media.create({
+      data: {
+        userId,
+        storageKey,
+        mimeType,
+        size: input.data.length,
+        filename: input.filename?.trim() || null,
+      },
+    });
+  } catch (error) {
+    await getMediaStorage().delete(storageKey);
+    throw error;
+  }
+}
+
+/**
+ * Get a media record, checking that the user owns it.
+ *
+ * @throws Error('MEDIA_NOT_FOUND') if it doesn't exist or belongs to another
+ *   user (media IDs are not revealed across users)
+ */
+export async function getMedia(
+  userId: string,
+  mediaId: string,
+): Promise<Media> {
+  const media = await prisma.media.findUnique({ where: { id: mediaId } });
+
+  if (!media || media.userId !== userId) {
+    throw new Error('MEDIA_NOT_FOUND');
+  }
+
+  return media;
+}
+
+/**
+ * Read a media file's bytes.
+ *
+ * @returns The media record and its bytes
+ * @throws Error('MEDIA_NOT_FOUND') if the record or its bytes are missing
+ */
+export async function readMedia(
+  userId: string,
+  mediaId: string,
+): Promise<{ media: Media; data: Buffer }> {
+  const media = await getMedia(userId, mediaId);
+  const data = await getMediaStorage().get(media.storageKey);
+
+  if (!data) {
+    throw new Error('MEDIA_NOT_FOUND');
+  }
+
+  return { media, data };
+}
+
+/**
+ * List a user's media, newest first.
+ */
+export async function listMedia(userId: string): Promise<Media[]> {
+  return prisma.media.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Count the user's cards that reference a media file.
+ */
+async function countReferencingCards(
+  userId: string,
+  mediaId: string,
+): Promise<number> {
+  const reference = `media:${mediaId}`;
+
+  return prisma.card.count({
+    where: {
+      deck: { userId },
+      OR: [
+        { front: { contains: reference } },
+        { back: { contains: reference } },
+      ],
+    },
+  });
+}
+
+/**
+ * Delete a media file and its record.
+ */
+async function removeMedia(media: Media): Promise<void> {
+  await prisma.media.delete({ where: { id: media.id } });
+  await getMediaStorage().delete(media.storageKey);
+}
+
+/**
+ * Delete a media file that no card references any more.
+ *
+ * @throws Error('MEDIA_NOT_FOUND') if it doesn't exist or isn't the user's
+ * @throws Error('MEDIA_IN_USE') if a card still references it
+ */
+export async function deleteMedia(
+  userId: string,
+  mediaId: string,
+): Promise<void> {
+  const media = await getMedia(userId, mediaId);
+
+  if ((await countReferencingCards(userId, mediaId)) > 0) {
+    throw new Error('MEDIA_IN_USE');
+  }
+
+  await removeMedia(media);
+}
+
+/**
+ * Garbage-collect the media referenced by deleted cards once no remaining
+ * card references it. Call after the cards are deleted.
+ *
+ * @param userId - Owner of the deleted cards
+ * @param texts - Fronts and backs of the deleted cards
+ * @returns Number of media files deleted
+ */
+export async function collectUnreferencedMedia(
+  userId: string,
+  texts: string[],
+): Promise<number> {
+  const mediaIds = getMediaIds(texts.join('\n'));
+  if (mediaIds.length === 0) {
+    return 0;
+  }
+
+  const candidates = await prisma.media.findMany({
+    where: { userId, id: { in: mediaIds } },
+  });
+
+  let deleted = 0;
+  for (const media of candidates) {
+    if ((await countReferencingCards(userId, media.id)) === 0) {
+      await removeMedia(media);
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
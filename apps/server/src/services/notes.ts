@@ -0,0 +1,443 @@
+/**
+ * Notes
+ *
+ * A note holds named field values, e.g. { Front: 'der Hund', Back: 'dog' }.
+ * Its note type lists the fields and the card templates that turn a note
+ * into cards: each template renders one card by replacing `{{Field}}`
+ * placeholders with the note's values. Templates whose front renders empty
+ * generate no card, so optional fields can make optional cards.
+ *
+ * Stock note types (Basic, Basic and reversed) are shared by all users;
+ * users can add their own. Cards created through POST /api/cards have no
+ * note and behave as Basic cards.
+ *
+ * Editing a note re-renders its cards in place, keeping their scheduling,
+ * and deletes the cards whose template no longer renders a front.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type {
+  Card,
+  CardTemplate,
+  EditSource,
+  Note,
+  NoteType,
+} from '@/generated/prisma';
+import { recordCardRevision } from '@/services/card-revisions';
+import {
+  calculateInitialReviewDate,
+  initializeFSRS,
+  type SchedulingAlgorithmType,
+} from '@/services/fsrs';
+import { collectUnreferencedMedia } from '@/services/media';
+
+/**
+ * IDs of the stock note types created by the migration.
+ */
+export const STOCK_NOTE_TYPE_IDS = {
+  BASIC: 'basic',
+  BASIC_AND_REVERSED: 'basic-and-reversed',
+} as const;
+
+const FIELD_PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Field values by field name.
+ */
+export type NoteFields = Record<string, string>;
+
+export type NoteTypeWithTemplates = NoteType & { templates: CardTemplate[] };
+
+export type NoteWithCards = Note & {
+  noteType: NoteTypeWithTemplates;
+  cards: Card[];
+};
+
+/**
+ * Template as given when creating a note type.
+ */
+export interface CardTemplateInput {
+  name: string;
+  front: string;
+  back: string;
+}
+
+export interface CreateNoteTypeInput {
+  name: string;
+  fields: string[];
+  templates: CardTemplateInput[];
+}
+
+export interface CreateNoteInput {
+  noteTypeId: string;
+  deckId: string;
+  fields: NoteFields;
+}
+
+/**
+ * Card content rendered from one template.
+ */
+export interface RenderedCard {
+  templateOrdinal: number;
+  front: string;
+  back: string;
+}
+
+const NOTE_INCLUDE = {
+  noteType: { include: { templates: { orderBy: { ordinal: 'asc' } } } },
+  cards: { orderBy: { templateOrdinal: 'asc' } },
+} as const;
+
+/**
+ * Get the field names used as placeholders in a template.
+ *
+ * @param template - Template text with {{Field}} placeholders
+ * @returns Field names in order of appearance
+ */
+export function getTemplateFieldNames(template: string): string[] {
+  return [...template.matchAll(FIELD_PLACEHOLDER)].map((match) => match[1]);
+}
+
+/**
+ * Render a template with a note's field values. Missing fields render empty.
+ *
+ * @param template - Template text with {{Field}} placeholders
+ * @param fields - Field values by name
+ * @returns Rendered text
+ */
+export function renderTemplate(template: string, fields: NoteFields): string {
+  return template.replace(
+    FIELD_PLACEHOLDER,
+    (_placeholder, name: string) => fields[name] ?? '',
+  );
+}
+
+/**
+ * Render the cards of a note, skipping templates whose front is empty.
+ *
+ * @param templates - The note type's templates
+ * @param fields - The note's field values
+ * @returns Rendered cards in template order
+ */
+export function renderNoteCards(
+  templates: Pick<CardTemplate, 'ordinal' | 'front' | 'back'>[],
+  fields: NoteFields,
+): RenderedCard[] {
+  return [...templates]
+    .sort((a, b) => a.ordinal - b.ordinal)
+    .map((template) => ({
+      templateOrdinal: template.ordinal,
+      front: renderTemplate(template.front, fields).trim(),
+      back: renderTemplate(template.back, fields).trim(),
+    }))
+    .filter((card) => card.front.length > 0);
+}
+
+/**
+ * Data for a new note card with an initial scheduling state.
+ */
+function newNoteCardData(
+  rendered: RenderedCard,
+  deck: { id: string; schedulingAlgorithm: SchedulingAlgorithmType },
+) {
+  const fsrsState = initializeFSRS();
+
+  return {
+    front: rendered.front,
+    back: rendered.back,
+    deckId: deck.id,
+    templateOrdinal: rendered.templateOrdinal,
+    stability: fsrsState.stability,
+    difficulty: fsrsState.difficulty,
+    elapsedDays: fsrsState.elapsedDays,
+    scheduledDays: fsrsState.scheduledDays,
+    reps: fsrsState.reps,
+    lapses: fsrsState.lapses,
+    state: fsrsState.state,
+    lastReview: fsrsState.lastReview,
+    schedulingAlgorithm: deck.schedulingAlgorithm,
+    nextReviewDate: calculateInitialReviewDate(),
+  };
+}
+
+/**
+ * Check that every given field belongs to the note type.
+ *
+ * @throws Error('UNKNOWN_FIELD') for fields the note type doesn't have
+ */
+function assertKnownFields(noteType: NoteType, fields: NoteFields): void {
+  if (Object.keys(fields).some((name) => !noteType.fields.includes(name))) {
+    throw new Error('UNKNOWN_FIELD');
+  }
+}
+
+/**
+ * List the note types available to a user: the stock types, then their own.
+ *
+ * @param userId - User ID
+ * @returns Note types with their templates
+ */
+export async function listNoteTypes(
+  userId: string,
+): Promise<NoteTypeWithTemplates[]> {
+  return prisma.noteType.findMany({
+    where: { OR: [{ userId: null }, { userId }] },
+    include: { templates: { orderBy: { ordinal: 'asc' } } },
+    orderBy: [
+      { userId: { sort: 'asc', nulls: 'first' } },
+      { createdAt: 'asc' },
+    ],
+  });
+}
+
+/**
+ * Create a note type owned by a user. Templates are numbered from 1 in the
+ * given order.
+ *
+ * @param userId - Owner of the note type
+ * @param input - Name, fields and templates
+ * @returns The created note type
+ * @throws Error('DUPLICATE_FIELD') if a field name is used twice
+ * @throws Error('UNKNOWN_TEMPLATE_FIELD') if a template uses an unlisted field
+ */
+export async function createNoteType(
+  userId: string,
+  input: CreateNoteTypeInput,
+): Promise<NoteTypeWithTemplates> {
+  if (new Set(input.fields).size !== input.fields.length) {
+    throw new Error('DUPLICATE_FIELD');
+  }
+
+  const usesUnknownField = input.templates.some((template) =>
+    getTemplateFieldNames(template.front + template.back).some(
+      (name) => !input.fields.includes(name),
+    ),
+  );
+  if (usesUnknownField) {
+    throw new Error('UNKNOWN_TEMPLATE_FIELD');
+  }
+
+  return prisma.noteType.create({
+    data: {
+      name: input.name,
+      userId,
+      fields: input.fields,
+      templates: {
+        create: input.templates.map((template, index) => ({
+          name: template.name,
+          ordinal: index + 1,
+          front: template.front,
+          back: template.back,
+        })),
+      },
+    },
+    include: { templates: { orderBy: { ordinal: 'asc' } } },
+  });
+}
+
+/**
+ * Get a note with its type and cards, checking that the user owns it.
+ *
+ * @throws Error('NOTE_NOT_FOUND') if the note doesn't exist
+ * @throws Error('NOTE_NOT_OWNED') if the note belongs to another user
+ */
+export async function getNote(
+  userId: string,
+  noteId: string,
+): Promise<NoteWithCards> {
+  const note = await prisma.note.findUnique({
+    where: { id: noteId },
+    include: { ...NOTE_INCLUDE, deck: { select: { userId: true } } },
+  });
+
+  if (!note) {
+    throw new Error('NOTE_NOT_FOUND');
+  }
+
+  if (note.deck.userId !== userId) {
+    throw new Error('NOTE_NOT_OWNED');
+  }
+
+  return note;
+}
+
+/**
+ * List a user's notes, newest first.
+ *
+ * @param userId - User ID
+ * @param deckId - Only list notes in this deck
+ * @returns Notes with their type and cards
+ */
+export async function listNotes(
+  userId: string,
+  deckId?: string,
+): Promise<NoteWithCards[]> {
+  return prisma.note.findMany({
+    where: { deck: { userId }, ...(deckId && { deckId }) },
+    include: NOTE_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Create a note and the cards its type's templates generate.
+ *
+ * @param userId - Owner of the deck
+ * @param input - Note type, deck and field values
+ * @returns The created note with its cards
+ * @throws Error('DECK_NOT_FOUND') / Error('DECK_NOT_OWNED')
+ * @throws Error('NOTE_TYPE_NOT_FOUND') if the type isn't available to the user
+ * @throws Error('UNKNOWN_FIELD') for fields the note type doesn't have
+ * @throws Error('NOTE_WITHOUT_CARDS') if no template renders a card
+ */
+export async function createNote(
+  userId: string,
+  input: CreateNoteInput,
+): Promise<NoteWithCards> {
+  const deck = await prisma.deck.findUnique({ where: { id: input.deckId } });
+  if (!deck) {
+    throw new Error('DECK_NOT_FOUND');
+  }
+  if (deck.userId !== userId) {
+    throw new Error('DECK_NOT_OWNED');
+  }
+
+  const noteType = await prisma.noteType.findUnique({
+    where: { id: input.noteTypeId },
+    include: { templates: { orderBy: { ordinal: 'asc' } } },
+  });
+  if (!noteType || (noteType.userId !== null && noteType.userId !== userId)) {
+    throw new Error('NOTE_TYPE_NOT_FOUND');
+  }
+
+  assertKnownFields(noteType, input.fields);
+
+  const rendered = renderNoteCards(noteType.templates, input.fields);
+  if (rendered.length === 0) {
+    throw new Error('NOTE_WITHOUT_CARDS');
+  }
+
+  // The note is created with its cards, or not at all
+  const note = await prisma.note.create({
+    data: {
+      noteTypeId: noteType.id,
+      deckId: deck.id,
+      fields: input.fields,
+      cards: {
+        create: rendered.map((card) => newNoteCardData(card, deck)),
+      },
+    },
+    include: { cards: NOTE_INCLUDE.cards },
+  });
+
+  return { ...note, noteType };
+}
+
+/**
+ * Update a note's field values and re-render its cards. Existing cards keep
+ * their scheduling and get a revision for the edit; templates that start
+ * rendering a card get a new one. Cards whose template now renders an empty
+ * front are deleted, with media only they used.
+ *
+ * @param userId - Owner of the note
+ * @param noteId - Note ID
+ * @param fields - Field values to change; other fields keep their values
+ * @param source - Client that made the edit
+ * @returns The updated note with its cards
+ * @throws Error('NOTE_NOT_FOUND') / Error('NOTE_NOT_OWNED')
+ * @throws Error('UNKNOWN_FIELD') for fields the note type doesn't have
+ * @throws Error('NOTE_WITHOUT_CARDS') if no template renders a card
+ */
+export async function updateNote(
+  userId: string,
+  noteId: string,
+  fields: NoteFields,
+  source: EditSource = 'API',
+): Promise<NoteWithCards> {
+  const note = await getNote(userId, noteId);
+  assertKnownFields(note.noteType, fields);
+
+  const merged: NoteFields = { ...(note.fields as NoteFields), ...fields };
+  const rendered = renderNoteCards(note.noteType.templates, merged);
+  if (rendered.length === 0) {
+    throw new Error('NOTE_WITHOUT_CARDS');
+  }
+
+  const deck = await prisma.deck.findUniqueOrThrow({
+    where: { id: note.deckId },
+  });
+
+  const edited: Array<{ existing: Card; card: RenderedCard }> = [];
+  const added: RenderedCard[] = [];
+  for (const card of rendered) {
+    const existing = note.cards.find(
+      (noteCard) => noteCard.templateOrdinal === card.templateOrdinal,
+    );
+    if (existing) {
+      edited.push({ existing, card });
+    } else {
+      added.push(card);
+    }
+  }
+  const removed = note.cards.filter(
+    (noteCard) =>
+      !rendered.some(
+        (card) => card.templateOrdinal === noteCard.templateOrdinal,
+      ),
+  );
+
+  await prisma.$transaction(async (tx) => {
+    await tx.note.update({
+      where: { id: note.id },
+      data: { fields: merged },
+    });
+
+    for (const { existing, card } of edited) {
+      await tx.card.update({
+        where: { id: existing.id },
+        data: { front: card.front, back: card.back },
+      });
+      // Keep the edit in the card's history
+      await recordCardRevision(existing, card, source, undefined, tx);
+    }
+
+    for (const card of added) {
+      await tx.card.create({
+        data: { ...newNoteCardData(card, deck), noteId: note.id },
+      });
+    }
+
+    if (removed.length > 0) {
+      await tx.card.deleteMany({
+        where: { id: { in: removed.map((card) => card.id) } },
+      });
+    }
+  });
+
+  if (removed.length > 0) {
+    await collectUnreferencedMedia(
+      userId,
+      removed.flatMap((card) => [card.front, card.back]),
+    );
+  }
+
+  return getNote(userId, noteId);
+}
+
+/**
+ * Delete a note and all of its cards, and media only they used.
+ *
+ * @throws Error('NOTE_NOT_FOUND') / Error('NOTE_NOT_OWNED')
+ */
+export async function deleteNote(
+  userId: string,
+  noteId: string,
+): Promise<void> {
+  const note = await getNote(userId, noteId);
+  await prisma.note.delete({ where: { id: noteId } });
+
+  await collectUnreferencedMedia(
+    userId,
+    note.cards.flatMap((card) => [card.front, card.back]),
+  );
+}
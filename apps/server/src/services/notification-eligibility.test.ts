@@ -14,6 +14,7 @@ import {
   findResumableSprint,
   type SprintWithCards,
 } from '@/services/sprint-service';
+import { getDailyAllowance } from '@/services/daily-limits';
 import { prisma } from '@/lib/prisma';
 
 // Mock dependencies
@@ -21,6 +22,11 @@ jest.mock('@/services/sprint-service', () => ({
   findResumableSprint: jest.fn(),
 }));
 
+jest.mock('@/services/daily-limits', () => ({
+  ...jest.requireActual('@/services/daily-limits'),
+  getDailyAllowance: jest.fn(),
+}));
+
 jest.mock('@/lib/prisma', () => ({
   prisma: {
     user: {
@@ -37,6 +43,9 @@ const mockFindResumableSprint = findResumableSprint as jest.MockedFunction<
   typeof findResumableSprint
 >;
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockGetDailyAllowance = getDailyAllowance as jest.MockedFunction<
+  typeof getDailyAllowance
+>;
 
 describe('Notification Eligibility Service', () => {
   const now = new Date('2024-01-15T10:00:00.000Z');
@@ -433,6 +442,13 @@ describe('Notification Eligibility Service', () => {
   });
 
   describe('userHasDueCards', () => {
+    beforeEach(() => {
+      mockGetDailyAllowance.mockResolvedValue({
+        NEW: { total: 20, byDeck: new Map() },
+        REVIEW: { total: 200, byDeck: new Map() },
+      });
+    });
+
     it('should return true when user has due cards', async () => {
       (mockPrisma.card.count as jest.Mock).mockResolvedValue(5);
 
@@ -443,7 +459,11 @@ describe('Notification Eligibility Service', () => {
         where: {
           deck: { userId: 'user-1' },
           nextReviewDate: { lte: now },
-          OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+          AND: [
+            { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+            { suspendedAt: null },
+            { OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }] },
+          ],
         },
       });
     });
@@ -455,5 +475,24 @@ describe('Notification Eligibility Service', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should not count cards beyond the daily limits', async () => {
+      (mockPrisma.card.count as jest.Mock).mockResolvedValue(0);
+      mockGetDailyAllowance.mockResolvedValue({
+        NEW: { total: 0, byDeck: new Map() },
+        REVIEW: { total: 200, byDeck: new Map([['deck-1', 0]]) },
+      });
+
+      await userHasDueCards('user-1', now);
+
+      expect(mockPrisma.card.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          AND: expect.arrayContaining([
+            { NOT: { state: 'NEW' } },
+            { NOT: { state: 'REVIEW', deckId: { in: ['deck-1'] } } },
+          ]),
+        }),
+      });
+    });
   });
 });
@@ -10,6 +10,12 @@
 import { prisma } from '@/lib/prisma';
 import type { User } from '@/generated/prisma';
 import { findResumableSprint } from '@/services/sprint-service';
+import { availableCardConditions } from '@/services/card-availability';
+import { getCurrentTimeInTimezone } from '@/services/study-day';
+import {
+  dailyLimitConditions,
+  getDailyAllowance,
+} from '@/services/daily-limits';
 
 /**
  * Result of checking a user's push notification eligibility.
@@ -86,42 +92,6 @@ export function timeStringToMinutes(timeString: string): number {
   return hours * 60 + minutes;
 }
 
-/**
- * Gets the current time in minutes since midnight for a given timezone.
- * @param now - Current date/time
- * @param timezone - IANA timezone string (e.g., "America/New_York")
- * @returns Minutes since midnight in the user's timezone (0-1439)
- */
-export function getCurrentTimeInTimezone(now: Date, timezone: string): number {
-  try {
-    // Format the time in the user's timezone
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone,
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
-
-    const parts = formatter.formatToParts(now);
-    const hours = parseInt(
-      parts.find((p) => p.type === 'hour')?.value ?? '0',
-      10,
-    );
-    const minutes = parseInt(
-      parts.find((p) => p.type === 'minute')?.value ?? '0',
-      10,
-    );
-
-    return hours * 60 + minutes;
-  } catch (_error) {
-    // If timezone is invalid, fall back to UTC
-    console.error(
-      `[NotificationEligibility] Invalid timezone: ${timezone}, falling back to UTC`,
-    );
-    return now.getUTCHours() * 60 + now.getUTCMinutes();
-  }
-}
-
 /**
  * Checks if the current time falls within quiet hours.
  * Handles cases where quiet hours span midnight (e.g., 22:00 to 07:00).
@@ -412,7 +382,8 @@ export async function getCandidateUsersForPush(): Promise<
 }
 
 /**
- * Checks if a user has any due cards available for a sprint.
+ * Checks if a user has any due cards available for a sprint, within the
+ * daily new card and review limits.
  *
  * @param userId - User ID to check
  * @param now - Current time
@@ -422,11 +393,15 @@ export async function userHasDueCards(
   userId: string,
   now: Date = new Date(),
 ): Promise<boolean> {
+  const allowance = await getDailyAllowance(userId, now);
   const count = await prisma.card.count({
     where: {
       deck: { userId },
       nextReviewDate: { lte: now },
-      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+      AND: [
+        ...availableCardConditions(now),
+        ...dailyLimitConditions(allowance),
+      ],
     },
   });
   return count > 0;
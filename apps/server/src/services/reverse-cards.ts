@@ -0,0 +1,191 @@
+/**
+ * Reverse Cards
+ *
+ * Decks with createReverseCards give each Basic card with a back a linked
+ * reverse card: front and back swapped, scheduled on its own. Editing either
+ * card copies the text to the other, so the pair never drifts apart.
+ * Clearing the back of the original deletes its reverse, since a one-sided
+ * card can't be asked the other way round.
+ *
+ * Cards generated from notes or cloze texts get their siblings from there
+ * and never have reverse cards.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Card, Prisma } from '@/generated/prisma';
+import {
+  calculateInitialReviewDate,
+  convertSchedulingState,
+  initializeFSRS,
+  type FSRSParameters,
+} from '@/services/fsrs';
+
+/**
+ * Card fields read when creating or syncing a reverse card.
+ */
+export type ReversibleCard = Pick<
+  Card,
+  | 'id'
+  | 'front'
+  | 'back'
+  | 'priority'
+  | 'deckId'
+  | 'type'
+  | 'noteId'
+  | 'reverseOfId'
+  | 'schedulingAlgorithm'
+>;
+
+/**
+ * Whether a card can have a reverse card.
+ *
+ * @param card - The card
+ * @returns True for Basic cards with a back that aren't reverses themselves
+ */
+export function canHaveReverseCard(card: ReversibleCard): boolean {
+  return (
+    card.type === 'BASIC' &&
+    card.noteId === null &&
+    card.reverseOfId === null &&
+    card.back.trim().length > 0
+  );
+}
+
+/**
+ * Create the reverse card of a card, with an initial scheduling state.
+ *
+ * @param card - The original card (see canHaveReverseCard)
+ * @param db - Client to write with, for cards created in a transaction
+ * @returns The reverse card
+ */
+export async function createReverseCard(
+  card: ReversibleCard,
+  db: Prisma.TransactionClient = prisma,
+): Promise<Card> {
+  const fsrsState = initializeFSRS();
+
+  return db.card.create({
+    data: {
+      front: card.back,
+      back: card.front,
+      deckId: card.deckId,
+      priority: card.priority,
+      reverseOfId: card.id,
+      stability: fsrsState.stability,
+      difficulty: fsrsState.difficulty,
+      elapsedDays: fsrsState.elapsedDays,
+      scheduledDays: fsrsState.scheduledDays,
+      reps: fsrsState.reps,
+      lapses: fsrsState.lapses,
+      state: fsrsState.state,
+      lastReview: fsrsState.lastReview,
+      schedulingAlgorithm: card.schedulingAlgorithm,
+      nextReviewDate: calculateInitialReviewDate(),
+    },
+  });
+}
+
+/**
+ * Create the missing reverse cards of a deck's cards, for a deck that starts
+ * creating reverse cards.
+ *
+ * @param deckId - Deck ID
+ * @param db - Client to write with, for decks updated in a transaction
+ * @returns Number of reverse cards created
+ */
+export async function createMissingReverseCards(
+  deckId: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<number> {
+  const cards = await db.card.findMany({
+    where: {
+      deckId,
+      type: 'BASIC',
+      noteId: null,
+      reverseOfId: null,
+      reverseCard: null,
+    },
+  });
+
+  const reversible = cards.filter(canHaveReverseCard);
+  for (const card of reversible) {
+    await createReverseCard(card, db);
+  }
+  return reversible.length;
+}
+
+/**
+ * Copy an edited card's text (swapped) and deck to its partner. The
+ * partner's scheduling is kept, converted if the deck uses another algorithm.
+ */
+async function mirrorOnto(
+  partner: Card,
+  card: ReversibleCard,
+  params: FSRSParameters,
+  db: Prisma.TransactionClient,
+): Promise<void> {
+  const converted =
+    partner.schedulingAlgorithm !== card.schedulingAlgorithm
+      ? convertSchedulingState(
+          partner,
+          partner.schedulingAlgorithm,
+          card.schedulingAlgorithm,
+          params,
+        )
+      : null;
+
+  await db.card.update({
+    where: { id: partner.id },
+    data: {
+      front: card.back,
+      back: card.front,
+      deckId: card.deckId,
+      ...(converted && {
+        stability: converted.stability,
+        difficulty: converted.difficulty,
+        schedulingAlgorithm: card.schedulingAlgorithm,
+      }),
+    },
+  });
+}
+
+/**
+ * Bring an edited card's partner in line with it: the original of a reverse
+ * card, or the reverse card of an original. A missing reverse card is
+ * created when the deck asks for reverse cards.
+ *
+ * @param card - The edited card, after its own update
+ * @param createMissing - Whether the card's deck creates reverse cards
+ * @param params - Parameters to convert scheduling states with
+ * @param db - Client to write with, for edits made in a transaction
+ */
+export async function syncReverseCard(
+  card: ReversibleCard,
+  createMissing: boolean,
+  params: FSRSParameters,
+  db: Prisma.TransactionClient = prisma,
+): Promise<void> {
+  if (card.reverseOfId) {
+    const original = await db.card.findUnique({
+      where: { id: card.reverseOfId },
+    });
+    if (original) {
+      await mirrorOnto(original, card, params, db);
+    }
+    return;
+  }
+
+  const reverse = await db.card.findUnique({
+    where: { reverseOfId: card.id },
+  });
+
+  if (reverse) {
+    if (card.back.trim().length === 0) {
+      await db.card.delete({ where: { id: reverse.id } });
+    } else {
+      await mirrorOnto(reverse, card, params, db);
+    }
+  } else if (createMissing && canHaveReverseCard(card)) {
+    await createReverseCard(card, db);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Review Log Service
+ *
+ * Every review records the card's scheduling state before and after it was
+ * graded. This is the source data for auditing, undo and FSRS optimization.
+ *
+ * Also provides the backfill for reviews created before the log existed.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  calculateNextReview,
+  initializeFSRS,
+  DEFAULT_FSRS_PARAMETERS,
+  type CardStateType,
+  type FSRSState,
+  type FSRSVersionType,
+  type SchedulingAlgorithmType,
+} from '@/services/fsrs';
+
+/**
+ * Number of cards whose reviews are replayed per backfill batch.
+ */
+const DEFAULT_BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Card fields a review overwrites besides its FSRS state. The backfill only
+ * knows the due date.
+ */
+export interface ReviewedCardFields {
+  nextReviewDate: Date | null;
+  fsrsVersion?: FSRSVersionType;
+  schedulingAlgorithm?: SchedulingAlgorithmType;
+  lastNotificationSent?: Date | null;
+}
+
+/**
+ * Scheduling fields stored on a Review row.
+ */
+export interface ReviewLogData {
+  stateBefore: CardStateType;
+  stabilityBefore: number;
+  difficultyBefore: number;
+  elapsedDaysBefore: number;
+  scheduledDaysBefore: number;
+  repsBefore: number;
+  lapsesBefore: number;
+  learningStepBefore: number;
+  lastReviewBefore: Date | null;
+  nextReviewDateBefore: Date | null;
+  fsrsVersionBefore: FSRSVersionType | null;
+  schedulingAlgorithmBefore: SchedulingAlgorithmType | null;
+  lastNotificationSentBefore: Date | null;
+  stateAfter: CardStateType;
+  stabilityAfter: number;
+  difficultyAfter: number;
+  elapsedDaysAfter: number;
+  scheduledDaysAfter: number;
+  nextReviewDate: Date;
+}
+
+/**
+ * Build the review log fields for a review.
+ *
+ * @param before - Card FSRS state before the review
+ * @param cardBefore - The card's other fields before the review (when it
+ *   was due, its engine and last notification)
+ * @param after - Card FSRS state after the review
+ * @param nextReviewDate - Computed next review date
+ * @returns Fields to store on the Review row
+ */
+export function buildReviewLogData(
+  before: FSRSState,
+  cardBefore: ReviewedCardFields,
+  after: FSRSState,
+  nextReviewDate: Date,
+): ReviewLogData {
+  return {
+    stateBefore: before.state,
+    stabilityBefore: before.stability,
+    difficultyBefore: before.difficulty,
+    elapsedDaysBefore: before.elapsedDays,
+    scheduledDaysBefore: before.scheduledDays,
+    repsBefore: before.reps,
+    lapsesBefore: before.lapses,
+    learningStepBefore: before.learningStep,
+    lastReviewBefore: before.lastReview,
+    nextReviewDateBefore: cardBefore.nextReviewDate,
+    fsrsVersionBefore: cardBefore.fsrsVersion ?? null,
+    schedulingAlgorithmBefore: cardBefore.schedulingAlgorithm ?? null,
+    lastNotificationSentBefore: cardBefore.lastNotificationSent ?? null,
+    stateAfter: after.state,
+    stabilityAfter: after.stability,
+    difficultyAfter: after.difficulty,
+    elapsedDaysAfter: after.elapsedDays,
+    scheduledDaysAfter: after.scheduledDays,
+    nextReviewDate,
+  };
+}
+
+/**
+ * Result of a review log backfill run.
+ */
+export interface BackfillReviewLogResult {
+  /** Number of cards whose history was replayed */
+  cardCount: number;
+  /** Number of reviews that were filled in */
+  reviewCount: number;
+}
+
+/**
+ * Fill in the review log for reviews created before it existed.
+ *
+ * Each affected card's reviews are replayed in order from a fresh FSRS state
+ * with the default parameters (the only ones in use before the log existed).
+ * Reviews that already have a log are left untouched. Safe to run repeatedly.
+ *
+ * @param options - Batch size (number of cards per batch)
+ * @returns Counts of replayed cards and filled-in reviews
+ */
+export async function backfillReviewLog(
+  options: { batchSize?: number } = {},
+): Promise<BackfillReviewLogResult> {
+  const { batchSize = DEFAULT_BACKFILL_BATCH_SIZE } = options;
+
+  const pending = await prisma.review.findMany({
+    where: { stateAfter: null },
+    select: { cardId: true },
+    distinct: ['cardId'],
+  });
+  const cardIds = pending.map((r) => r.cardId);
+
+  let reviewCount = 0;
+
+  for (let i = 0; i < cardIds.length; i += batchSize) {
+    const batch = cardIds.slice(i, i + batchSize);
+
+    const reviews = await prisma.review.findMany({
+      where: { cardId: { in: batch } },
+      orderBy: { createdAt: 'asc' },
+      include: { card: { select: { createdAt: true } } },
+    });
+
+    const stateByCard = new Map<
+      string,
+      { state: FSRSState; nextReviewDate: Date }
+    >();
+    const updates = [];
+
+    for (const review of reviews) {
+      const current = stateByCard.get(review.cardId) ?? {
+        state: initializeFSRS(),
+        // New cards are due as soon as they are created
+        nextReviewDate: review.card.createdAt,
+      };
+
+      const { state: newState, nextReviewDate } = calculateNextReview(
+        current.state,
+        review.rating,
+        review.createdAt,
+        DEFAULT_FSRS_PARAMETERS,
+      );
+
+      if (review.stateAfter === null) {
+        updates.push(
+          prisma.review.update({
+            where: { id: review.id },
+            data: buildReviewLogData(
+              current.state,
+              { nextReviewDate: current.nextReviewDate },
+              newState,
+              nextReviewDate,
+            ),
+          }),
+        );
+      }
+      stateByCard.set(review.cardId, { state: newState, nextReviewDate });
+    }
+
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+      reviewCount += updates.length;
+    }
+  }
+
+  return { cardCount: cardIds.length, reviewCount };
+}
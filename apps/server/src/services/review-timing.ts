@@ -0,0 +1,258 @@
+/**
+ * Review Timing Service
+ *
+ * Clients report how long each review took: the time to reveal the answer
+ * and the time to rate it. Averages per card, deck and state show which
+ * cards are slow to answer, which often means they are badly written.
+ *
+ * CRAM sprints log no review: their answer times are kept on the sprint card
+ * and counted alongside those of reviews.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { CardState } from '@/generated/prisma';
+
+/**
+ * Number of cards listed in the slowest cards report.
+ */
+export const SLOWEST_CARDS_LIMIT = 20;
+
+/**
+ * Answer times reported by the client, in milliseconds.
+ */
+export interface ReviewTiming {
+  /** Total time taken to answer */
+  durationMs?: number;
+  /** Showing the front until revealing the answer */
+  timeToRevealMs?: number;
+  /** Revealing the answer until rating */
+  timeToRateMs?: number;
+}
+
+/**
+ * Average answer times over a set of reviews.
+ * Averages are null when none of the reviews reported that time.
+ */
+export interface TimingAverages {
+  /** Reviews with a reported answer time */
+  reviewCount: number;
+  averageSeconds: number | null;
+  averageRevealSeconds: number | null;
+  averageRateSeconds: number | null;
+}
+
+export interface CardTiming extends TimingAverages {
+  cardId: string;
+  front: string;
+  deckId: string;
+  deckTitle: string;
+}
+
+export interface DeckTiming extends TimingAverages {
+  deckId: string;
+  deckTitle: string;
+}
+
+export interface StateTiming extends TimingAverages {
+  /** Card state at the time of the review */
+  state: CardState;
+}
+
+/**
+ * Answer time report for a user.
+ */
+export interface TimingStats {
+  overall: TimingAverages;
+  /** Slowest decks first */
+  byDeck: DeckTiming[];
+  /** In card state order (NEW, LEARNING, REVIEW, RELEARNING) */
+  byState: StateTiming[];
+  /** Slowest cards first, at most SLOWEST_CARDS_LIMIT */
+  slowestCards: CardTiming[];
+}
+
+const TIMING_FIELDS = ['durationMs', 'timeToRevealMs', 'timeToRateMs'] as const;
+
+type TimingField = (typeof TIMING_FIELDS)[number];
+
+type TimingTotals = Record<TimingField, { sum: number; count: number }>;
+
+const CARD_STATE_ORDER: CardState[] = [
+  'NEW',
+  'LEARNING',
+  'REVIEW',
+  'RELEARNING',
+];
+
+function emptyTotals(): TimingTotals {
+  return {
+    durationMs: { sum: 0, count: 0 },
+    timeToRevealMs: { sum: 0, count: 0 },
+    timeToRateMs: { sum: 0, count: 0 },
+  };
+}
+
+function addTotals(target: TimingTotals, source: TimingTotals): void {
+  for (const field of TIMING_FIELDS) {
+    target[field].sum += source[field].sum;
+    target[field].count += source[field].count;
+  }
+}
+
+function averageSeconds({ sum, count }: { sum: number; count: number }) {
+  // Seconds with one decimal
+  return count > 0 ? Math.round(sum / count / 100) / 10 : null;
+}
+
+function toAverages(totals: TimingTotals): TimingAverages {
+  return {
+    reviewCount: totals.durationMs.count,
+    averageSeconds: averageSeconds(totals.durationMs),
+    averageRevealSeconds: averageSeconds(totals.timeToRevealMs),
+    averageRateSeconds: averageSeconds(totals.timeToRateMs),
+  };
+}
+
+function bySlowest(a: TimingAverages, b: TimingAverages): number {
+  return (b.averageSeconds ?? 0) - (a.averageSeconds ?? 0);
+}
+
+/**
+ * Build the timing fields to store on a Review row (or on the SprintCard of
+ * a CRAM sprint). The total is taken from its parts when the client only
+ * sent those.
+ *
+ * @param timing - Answer times reported by the client
+ * @returns Fields to store on the Review or SprintCard row
+ */
+export function buildReviewTimingData(timing: ReviewTiming): ReviewTiming {
+  const { durationMs, timeToRevealMs, timeToRateMs } = timing;
+
+  return {
+    durationMs:
+      durationMs ??
+      (timeToRevealMs !== undefined && timeToRateMs !== undefined
+        ? timeToRevealMs + timeToRateMs
+        : undefined),
+    timeToRevealMs,
+    timeToRateMs,
+  };
+}
+
+/**
+ * Get a user's average answer times per card, deck and card state, over
+ * their reviews and the cards they crammed.
+ *
+ * @param userId - User ID
+ * @param deckId - Only include reviews of cards in this deck
+ * @returns Timing averages, slowest first
+ */
+export async function getTimingStats(
+  userId: string,
+  deckId?: string,
+): Promise<TimingStats> {
+  const reviewGroups = await prisma.review.groupBy({
+    by: ['cardId', 'stateBefore'],
+    where: {
+      userId,
+      durationMs: { not: null },
+      ...(deckId && { card: { deckId } }),
+    },
+    _sum: { durationMs: true, timeToRevealMs: true, timeToRateMs: true },
+    _count: { durationMs: true, timeToRevealMs: true, timeToRateMs: true },
+  });
+  const crammedGroups = await prisma.sprintCard.groupBy({
+    by: ['cardId', 'cardState'],
+    where: {
+      sprint: { userId, mode: 'CRAM' },
+      durationMs: { not: null },
+      ...(deckId && { card: { deckId } }),
+    },
+    _sum: { durationMs: true, timeToRevealMs: true, timeToRateMs: true },
+    _count: { durationMs: true, timeToRevealMs: true, timeToRateMs: true },
+  });
+  const groups = [
+    ...reviewGroups.map(({ stateBefore, ...group }) => ({
+      ...group,
+      state: stateBefore,
+    })),
+    ...crammedGroups.map(({ cardState, ...group }) => ({
+      ...group,
+      state: cardState,
+    })),
+  ];
+
+  const cards = await prisma.card.findMany({
+    where: { id: { in: [...new Set(groups.map((group) => group.cardId))] } },
+    select: {
+      id: true,
+      front: true,
+      deck: { select: { id: true, title: true } },
+    },
+  });
+  const cardsById = new Map(cards.map((card) => [card.id, card]));
+
+  const overall = emptyTotals();
+  const cardTotals = new Map<string, TimingTotals>();
+  const deckTotals = new Map<string, TimingTotals>();
+  const stateTotals = new Map<CardState, TimingTotals>();
+
+  const totalsFor = <K>(map: Map<K, TimingTotals>, key: K) => {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  };
+
+  for (const group of groups) {
+    const card = cardsById.get(group.cardId);
+    if (!card) continue;
+
+    const totals = emptyTotals();
+    for (const field of TIMING_FIELDS) {
+      totals[field].sum = group._sum[field] ?? 0;
+      totals[field].count = group._count[field];
+    }
+
+    addTotals(overall, totals);
+    addTotals(totalsFor(cardTotals, card.id), totals);
+    addTotals(totalsFor(deckTotals, card.deck.id), totals);
+    // Reviews logged before card states were recorded have no state
+    if (group.state) {
+      addTotals(totalsFor(stateTotals, group.state), totals);
+    }
+  }
+
+  const deckTitles = new Map(
+    cards.map((card) => [card.deck.id, card.deck.title]),
+  );
+
+  return {
+    overall: toAverages(overall),
+    byDeck: [...deckTotals]
+      .map(([id, totals]) => ({
+        deckId: id,
+        deckTitle: deckTitles.get(id)!,
+        ...toAverages(totals),
+      }))
+      .sort(bySlowest),
+    byState: CARD_STATE_ORDER.filter((state) => stateTotals.has(state)).map(
+      (state) => ({ state, ...toAverages(stateTotals.get(state)!) }),
+    ),
+    slowestCards: [...cardTotals]
+      .map(([id, totals]) => {
+        const card = cardsById.get(id)!;
+        return {
+          cardId: card.id,
+          front: card.front,
+          deckId: card.deck.id,
+          deckTitle: card.deck.title,
+          ...toAverages(totals),
+        };
+      })
+      .sort(bySlowest)
+      .slice(0, SLOWEST_CARDS_LIMIT),
+  };
+}
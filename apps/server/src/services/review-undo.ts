@@ -0,0 +1,210 @@
+/**
+ * Review Undo Service
+ *
+ * Undoes a user's most recent review within a short window: the card's
+ * scheduling state is restored from the review log, the Review row is deleted
+ * and, for sprint reviews, the sprint card is cleared so it can be re-rated.
+ * If the review made the card a leech, the leech tag and suspension it got
+ * are taken back too.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Review } from '@/generated/prisma';
+import { LEECH_TAG_NAME } from '@/services/leech';
+import { RESUME_WINDOW_MINUTES } from '@/services/sprint-service';
+
+/**
+ * How long after a review it can still be undone, in minutes.
+ */
+export const UNDO_WINDOW_MINUTES = 10;
+
+/**
+ * Options for undoing a review
+ */
+export interface UndoLastReviewOptions {
+  userId: string;
+  /** Only undo the last review of this sprint */
+  sprintId?: string;
+  now?: Date;
+}
+
+/**
+ * Result of undoing a review
+ */
+export interface UndoLastReviewResult {
+  /** The deleted review */
+  review: Review;
+  /** The card with its restored scheduling state */
+  card: {
+    id: string;
+    state: string;
+    nextReviewDate: Date;
+  };
+}
+
+/**
+ * Get the time until which a review can be undone.
+ *
+ * @param reviewedAt - When the review was made
+ * @returns End of the undo window
+ */
+export function getUndoableUntil(reviewedAt: Date): Date {
+  return new Date(reviewedAt.getTime() + UNDO_WINDOW_MINUTES * 60000);
+}
+
+/**
+ * Undo the user's most recent review (optionally within a sprint).
+ *
+ * A review made in a sprint also clears its sprint card's result. If the
+ * sprint was completed, it is reopened so the card can be re-rated, unless
+ * the user has started another sprint since. A leech
+ * tag or suspension the review gave the card is removed.
+ *
+ * @param options - User, optional sprint, and current time
+ * @returns The deleted review and the restored card
+ * @throws Error('SPRINT_NOT_FOUND') if the sprint doesn't exist
+ * @throws Error('SPRINT_NOT_OWNED') if the sprint belongs to another user
+ * @throws Error('NO_REVIEW_TO_UNDO') if there is no review to undo
+ * @throws Error('UNDO_WINDOW_EXPIRED') if the review is too old to undo
+ * @throws Error('UNDO_NOT_AVAILABLE') if the review has no log to restore
+ *   from, or the card has been reviewed again since
+ * @throws Error('SPRINT_NOT_ACTIVE') if the review's sprint was abandoned
+ * @throws Error('ACTIVE_SPRINT_EXISTS') if the review's sprint was completed
+ *   and the user has another active sprint
+ */
+export async function undoLastReview(
+  options: UndoLastReviewOptions,
+): Promise<UndoLastReviewResult> {
+  const { userId, sprintId, now = new Date() } = options;
+
+  if (sprintId) {
+    const sprint = await prisma.sprint.findUnique({
+      where: { id: sprintId },
+      select: { userId: true },
+    });
+    if (!sprint) {
+      throw new Error('SPRINT_NOT_FOUND');
+    }
+    if (sprint.userId !== userId) {
+      throw new Error('SPRINT_NOT_OWNED');
+    }
+  }
+
+  const review = await prisma.review.findFirst({
+    where: { userId, ...(sprintId && { sprintId }) },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!review) {
+    throw new Error('NO_REVIEW_TO_UNDO');
+  }
+
+  if (getUndoableUntil(review.createdAt) < now) {
+    throw new Error('UNDO_WINDOW_EXPIRED');
+  }
+
+  // Reviews that predate the review log can't be restored
+  if (
+    review.stateBefore === null ||
+    review.stabilityBefore === null ||
+    review.difficultyBefore === null ||
+    review.elapsedDaysBefore === null ||
+    review.scheduledDaysBefore === null ||
+    review.repsBefore === null ||
+    review.lapsesBefore === null ||
+    review.nextReviewDateBefore === null
+  ) {
+    throw new Error('UNDO_NOT_AVAILABLE');
+  }
+
+  // Restoring an older state would discard a later review of the card
+  const laterReviews = await prisma.review.count({
+    where: { cardId: review.cardId, createdAt: { gt: review.createdAt } },
+  });
+  if (laterReviews > 0) {
+    throw new Error('UNDO_NOT_AVAILABLE');
+  }
+
+  const sprint = review.sprintId
+    ? await prisma.sprint.findUnique({
+        where: { id: review.sprintId },
+        select: { id: true, status: true },
+      })
+    : null;
+
+  if (sprint?.status === 'ABANDONED') {
+    throw new Error('SPRINT_NOT_ACTIVE');
+  }
+
+  // A user has at most one active sprint, so a completed one can't be reopened
+  // while another is in progress
+  if (sprint?.status === 'COMPLETED') {
+    const activeSprints = await prisma.sprint.count({
+      where: { userId, status: 'ACTIVE', id: { not: sprint.id } },
+    });
+    if (activeSprints > 0) {
+      throw new Error('ACTIVE_SPRINT_EXISTS');
+    }
+  }
+
+  const [card] = await prisma.$transaction([
+    prisma.card.update({
+      where: { id: review.cardId },
+      data: {
+        state: review.stateBefore,
+        stability: review.stabilityBefore,
+        difficulty: review.difficultyBefore,
+        elapsedDays: review.elapsedDaysBefore,
+        scheduledDays: review.scheduledDaysBefore,
+        reps: review.repsBefore,
+        lapses: review.lapsesBefore,
+        // Not logged before learning steps were tracked per cycle
+        learningStep: review.learningStepBefore ?? 0,
+        lastReview: review.lastReviewBefore,
+        nextReviewDate: review.nextReviewDateBefore,
+        // Not logged by older reviews
+        ...(review.fsrsVersionBefore !== null && {
+          fsrsVersion: review.fsrsVersionBefore,
+          lastNotificationSent: review.lastNotificationSentBefore,
+        }),
+        ...(review.schedulingAlgorithmBefore !== null && {
+          schedulingAlgorithm: review.schedulingAlgorithmBefore,
+        }),
+        ...(review.leechSuspended && { suspendedAt: null }),
+      },
+      select: { id: true, state: true, nextReviewDate: true },
+    }),
+    prisma.review.delete({ where: { id: review.id } }),
+    ...(review.leechTagged
+      ? [
+          prisma.cardTag.deleteMany({
+            where: {
+              cardId: review.cardId,
+              tag: { userId, name: LEECH_TAG_NAME },
+            },
+          }),
+        ]
+      : []),
+    ...(sprint
+      ? [
+          prisma.sprintCard.updateMany({
+            where: { sprintId: sprint.id, cardId: review.cardId },
+            data: { result: null },
+          }),
+          // Reopen (or keep open) the sprint so the card can be re-rated
+          prisma.sprint.update({
+            where: { id: sprint.id },
+            data: {
+              status: 'ACTIVE',
+              completedAt: null,
+              resumableUntil: new Date(
+                now.getTime() + RESUME_WINDOW_MINUTES * 60000,
+              ),
+            },
+          }),
+        ]
+      : []),
+  ]);
+
+  return { review, card };
+}
@@ -5,12 +5,48 @@
  */
 
 import { prisma } from '@/lib/prisma';
-import type { SprintStatus, SprintSource } from '@/generated/prisma';
+import type {
+  CardType,
+  Prisma,
+  SprintMode,
+  SprintStatus,
+  SprintSource,
+} from '@/generated/prisma';
 import {
-  calculateNextReview,
+  getCurrentRetrievability,
+  getFSRSParameters,
+  previewNextIntervals,
+  resolveSchedulingOverrides,
+  type CardStateType,
+  type DeckSchedulingSettings,
   type FSRSState,
+  type FSRSVersionType,
   type RatingType,
+  type SchedulingAlgorithmType,
+  type UserSchedulingSettings,
 } from '@/services/fsrs';
+import { getUserFSRSParameters } from '@/services/fsrs-parameters';
+import { availableCardConditions } from '@/services/card-availability';
+import {
+  getSiblingKey,
+  SIBLING_FIELDS_SELECT,
+  skipSiblings,
+} from '@/services/card-siblings';
+import {
+  applyDailyLimits,
+  dailyLimitConditions,
+  getDailyAllowance,
+} from '@/services/daily-limits';
+import { handleLeech } from '@/services/leech';
+import { scheduleReview } from '@/services/load-balancer';
+import { tagFilterConditions } from '@/services/tags';
+import { filteredDeckConditions } from '@/services/filtered-decks';
+import { buildReviewLogData } from '@/services/review-log';
+import {
+  buildReviewTimingData,
+  type ReviewTiming,
+} from '@/services/review-timing';
+import { getStudyDayStart } from '@/services/study-day';
 
 /**
  * Resume window duration in minutes.
@@ -34,7 +70,13 @@ export const DEFAULT_SPRINT_SIZE = 5;
 export interface StartSprintOptions {
   userId: string;
   deckId?: string;
+  /** Only take cards with this tag, from any deck unless deckId is given */
+  tagId?: string;
+  /** Only take cards of this filtered deck */
+  filteredDeckId?: string;
   source?: SprintSource;
+  /** CRAM sprints need a deckId, tagId or filteredDeckId */
+  mode?: SprintMode;
 }
 
 /**
@@ -45,6 +87,26 @@ export interface StartSprintResult {
   resumed: boolean;
 }
 
+/**
+ * Deck fields loaded with each sprint card: the title for display, plus the
+ * scheduling settings needed to schedule and preview its reviews.
+ */
+const SPRINT_CARD_DECK_SELECT = {
+  id: true,
+  title: true,
+  desiredRetention: true,
+  learningSteps: true,
+  relearningSteps: true,
+  schedulingAlgorithm: true,
+  parentDeck: {
+    select: {
+      desiredRetention: true,
+      learningSteps: true,
+      relearningSteps: true,
+    },
+  },
+} as const;
+
 /**
  * Card with FSRS fields included (for sprint review calculations)
  */
@@ -54,6 +116,8 @@ export interface CardWithFSRS {
   back: string;
   priority: number;
   deckId: string;
+  type: CardType;
+  clozeIndex: number | null;
   state: string;
   nextReviewDate: Date;
   snoozedUntil: Date | null;
@@ -64,8 +128,12 @@ export interface CardWithFSRS {
   scheduledDays: number;
   reps: number;
   lapses: number;
+  learningStep: number;
   lastReview: Date | null;
-  deck: { id: string; title: string };
+  fsrsVersion: FSRSVersionType;
+  schedulingAlgorithm: SchedulingAlgorithmType;
+  lastNotificationSent: Date | null;
+  deck: { id: string; title: string } & DeckSchedulingSettings;
 }
 
 /**
@@ -77,6 +145,7 @@ export interface SprintWithCards {
   deckId: string | null;
   status: SprintStatus;
   source: SprintSource;
+  mode: SprintMode;
   createdAt: Date;
   startedAt: Date | null;
   completedAt: Date | null;
@@ -91,6 +160,13 @@ export interface SprintWithCards {
   }>;
 }
 
+/**
+ * User settings used to preview a sprint card's next intervals
+ */
+export interface SprintUserSettings extends UserSchedulingSettings {
+  fsrsWeights?: readonly number[] | null;
+}
+
 /**
  * Find an active resumable sprint for a user.
  * Returns the sprint if it exists and is still within the resume window.
@@ -113,7 +189,7 @@ export async function findResumableSprint(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -135,14 +211,40 @@ async function getUserSprintSize(userId: string): Promise<number> {
   return user?.sprintSize ?? DEFAULT_SPRINT_SIZE;
 }
 
+/**
+ * Conditions limiting a sprint's cards to those with a tag (or one of its
+ * descendants) and to those of a filtered deck, for the filters given.
+ *
+ * @returns Conditions for an AND list (none without filters)
+ */
+async function sprintFilterConditions(
+  userId: string,
+  tagId: string | undefined,
+  filteredDeckId: string | undefined,
+  now: Date,
+): Promise<Prisma.CardWhereInput[]> {
+  return [
+    ...(tagId ? [await tagFilterConditions(userId, tagId)] : []),
+    ...(filteredDeckId
+      ? [await filteredDeckConditions(userId, filteredDeckId, now)]
+      : []),
+  ];
+}
+
 /**
  * Select eligible cards for a sprint using the priority-aware algorithm.
  *
  * Selection criteria:
- * 1. Card belongs to user (via deck)
+ * 1. Card belongs to user (via deck), to the given deck if any, has the
+ *    given tag or one of its descendants if any, and is in the given
+ *    filtered deck if any
  * 2. nextReviewDate <= now (due)
- * 3. Not snoozed (snoozedUntil is null or <= now)
+ * 3. Not snoozed, suspended or buried (see availableCardConditions)
  * 4. Not already in an ACTIVE sprint
+ * 5. No siblings of each other or of cards in ACTIVE sprints (the first
+ *    card in order is kept, see card-siblings)
+ * 6. Within the daily new card and review limits, counting unreviewed cards
+ *    of ACTIVE sprints as used
  *
  * Ordering:
  * 1. nextReviewDate ASC (most urgent first)
@@ -154,6 +256,8 @@ export async function selectEligibleCards(
   userId: string,
   limit: number,
   deckId?: string,
+  tagId?: string,
+  filteredDeckId?: string,
 ): Promise<
   Array<{
     id: string;
@@ -169,17 +273,43 @@ export async function selectEligibleCards(
 > {
   const now = new Date();
 
-  // Get IDs of cards already in active sprints
-  const activeSprintCardIds = await prisma.sprintCard.findMany({
+  // Get cards already in active sprints
+  const activeSprintCards = await prisma.sprintCard.findMany({
     where: {
       sprint: {
         userId,
         status: 'ACTIVE',
       },
     },
-    select: { cardId: true },
+    select: {
+      cardId: true,
+      result: true,
+      card: {
+        select: { state: true, deckId: true, ...SIBLING_FIELDS_SELECT },
+      },
+      sprint: { select: { mode: true } },
+    },
   });
-  const excludeCardIds = activeSprintCardIds.map((sc) => sc.cardId);
+  const excludeCardIds = activeSprintCards.map((sc) => sc.cardId);
+  const takenSiblingKeys = activeSprintCards.map((sc) =>
+    getSiblingKey(sc.card),
+  );
+
+  // What is left of today's limits once active sprints are finished
+  // (cram sprints don't count, their reviews aren't scheduled)
+  const { remaining: allowance } = applyDailyLimits(
+    activeSprintCards
+      .filter((sc) => sc.result === null && sc.sprint.mode === 'REVIEW')
+      .map((sc) => sc.card),
+    await getDailyAllowance(userId, now),
+  );
+
+  const filterConditions = await sprintFilterConditions(
+    userId,
+    tagId,
+    filteredDeckId,
+    now,
+  );
 
   // Build deck filter
   let deckFilter: { userId: string; id?: string } = { userId };
@@ -193,7 +323,11 @@ export async function selectEligibleCards(
     where: {
       deck: deckFilter,
       nextReviewDate: { lte: now },
-      OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+      AND: [
+        ...availableCardConditions(now),
+        ...dailyLimitConditions(allowance),
+        ...filterConditions,
+      ],
       id: excludeCardIds.length > 0 ? { notIn: excludeCardIds } : undefined,
     },
     include: {
@@ -211,24 +345,97 @@ export async function selectEligibleCards(
 
   // Sort by deck priority (secondary sort after card priority)
   // Since Prisma can't do this, we do it in memory
-  return cards
-    .sort((a, b) => {
-      // Primary: nextReviewDate ASC
-      const dateDiff = a.nextReviewDate.getTime() - b.nextReviewDate.getTime();
-      if (dateDiff !== 0) return dateDiff;
-
-      // Secondary: card priority DESC
-      const cardPriorityDiff = b.priority - a.priority;
-      if (cardPriorityDiff !== 0) return cardPriorityDiff;
-
-      // Tertiary: deck priority DESC
-      const deckPriorityDiff = b.deck.priority - a.deck.priority;
-      if (deckPriorityDiff !== 0) return deckPriorityDiff;
-
-      // Quaternary: createdAt ASC
-      return a.createdAt.getTime() - b.createdAt.getTime();
-    })
-    .slice(0, limit);
+  const sortedCards = cards.sort((a, b) => {
+    // Primary: nextReviewDate ASC
+    const dateDiff = a.nextReviewDate.getTime() - b.nextReviewDate.getTime();
+    if (dateDiff !== 0) return dateDiff;
+
+    // Secondary: card priority DESC
+    const cardPriorityDiff = b.priority - a.priority;
+    if (cardPriorityDiff !== 0) return cardPriorityDiff;
+
+    // Tertiary: deck priority DESC
+    const deckPriorityDiff = b.deck.priority - a.deck.priority;
+    if (deckPriorityDiff !== 0) return deckPriorityDiff;
+
+    // Quaternary: createdAt ASC
+    return a.createdAt.getTime() - b.createdAt.getTime();
+  });
+
+  return applyDailyLimits(
+    skipSiblings(sortedCards, takenSiblingKeys),
+    allowance,
+  ).admitted.slice(0, limit);
+}
+
+/**
+ * Select cards of a deck, tag or filtered deck for a cram sprint, whether
+ * due or not.
+ *
+ * Selection criteria:
+ * 1. Card belongs to the user's deck, has the tag (or one of its
+ *    descendants) if one is given, and is in the filtered deck if one is
+ *    given
+ * 2. Not suspended (snoozed and buried cards can be crammed)
+ * 3. Not already in an ACTIVE sprint
+ * 4. Not passed in a cram sprint earlier today, so repeated cram sprints
+ *    work through the deck while failed cards come back
+ *
+ * Ordering: nextReviewDate ASC (soonest due first), then
+ * Card.priority DESC and Card.createdAt ASC. Daily limits don't apply.
+ */
+export async function selectCramCards(
+  userId: string,
+  limit: number,
+  deckId: string | undefined,
+  tagId?: string,
+  filteredDeckId?: string,
+): Promise<Array<{ id: string }>> {
+  const now = new Date();
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  });
+  const studyDayStart = getStudyDayStart(now, user?.timezone ?? 'UTC');
+
+  const [activeSprintCards, crammedCards] = await Promise.all([
+    prisma.sprintCard.findMany({
+      where: { sprint: { userId, status: 'ACTIVE' } },
+      select: { cardId: true },
+    }),
+    prisma.sprintCard.findMany({
+      where: {
+        result: 'PASS',
+        sprint: { userId, mode: 'CRAM', startedAt: { gte: studyDayStart } },
+      },
+      select: { cardId: true },
+    }),
+  ]);
+  const excludeCardIds = [...activeSprintCards, ...crammedCards].map(
+    (sc) => sc.cardId,
+  );
+  const filterConditions = await sprintFilterConditions(
+    userId,
+    tagId,
+    filteredDeckId,
+    now,
+  );
+
+  return prisma.card.findMany({
+    where: {
+      deck: { userId, id: deckId },
+      suspendedAt: null,
+      id: excludeCardIds.length > 0 ? { notIn: excludeCardIds } : undefined,
+      ...(filterConditions.length > 0 && { AND: filterConditions }),
+    },
+    select: { id: true },
+    orderBy: [
+      { nextReviewDate: 'asc' },
+      { priority: 'desc' },
+      { createdAt: 'asc' },
+    ],
+    take: limit,
+  });
 }
 
 /**
@@ -238,11 +445,33 @@ export async function selectEligibleCards(
  * 1. Check for existing ACTIVE sprint within resume window
  * 2. If found, return it (resumed = true)
  * 3. Otherwise, create new sprint with selected cards
+ *
+ * CRAM sprints take any cards of the deck, tag or filtered deck (see
+ * selectCramCards) and their reviews leave the cards' schedules untouched.
+ *
+ * @throws Error('DECK_REQUIRED') for a CRAM sprint without a deckId, tagId
+ *   or filteredDeckId
+ * @throws Error('TAG_NOT_FOUND') / Error('TAG_NOT_OWNED') for a tagId that
+ *   isn't one of the user's tags
+ * @throws Error('FILTERED_DECK_NOT_FOUND') / Error('FILTERED_DECK_NOT_OWNED')
+ *   for a filteredDeckId that isn't one of the user's filtered decks
+ * @throws Error('NO_ELIGIBLE_CARDS') if there are no cards to review
  */
 export async function startSprint(
   options: StartSprintOptions,
 ): Promise<StartSprintResult> {
-  const { userId, deckId, source = 'HOME' } = options;
+  const {
+    userId,
+    deckId,
+    tagId,
+    filteredDeckId,
+    source = 'HOME',
+    mode = 'REVIEW',
+  } = options;
+
+  if (mode === 'CRAM' && !deckId && !tagId && !filteredDeckId) {
+    throw new Error('DECK_REQUIRED');
+  }
 
   // Check for resumable sprint first
   const existingSprint = await findResumableSprint(userId);
@@ -254,7 +483,16 @@ export async function startSprint(
   const sprintSize = await getUserSprintSize(userId);
 
   // Select eligible cards
-  const eligibleCards = await selectEligibleCards(userId, sprintSize, deckId);
+  const eligibleCards =
+    mode === 'CRAM'
+      ? await selectCramCards(userId, sprintSize, deckId, tagId, filteredDeckId)
+      : await selectEligibleCards(
+          userId,
+          sprintSize,
+          deckId,
+          tagId,
+          filteredDeckId,
+        );
 
   if (eligibleCards.length === 0) {
     throw new Error('NO_ELIGIBLE_CARDS');
@@ -272,6 +510,7 @@ export async function startSprint(
       deckId: deckId ?? null,
       status: 'ACTIVE',
       source,
+      mode,
       startedAt: now,
       resumableUntil,
       sprintCards: {
@@ -288,7 +527,7 @@ export async function startSprint(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -364,7 +603,7 @@ export async function createPendingPushSprint(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -416,7 +655,7 @@ export async function getSprintById(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -464,7 +703,7 @@ export async function getSprintById(
           include: {
             card: {
               include: {
-                deck: { select: { id: true, title: true } },
+                deck: { select: SPRINT_CARD_DECK_SELECT },
               },
             },
           },
@@ -480,6 +719,7 @@ export async function getSprintById(
 
 /**
  * Internal function to abandon a sprint and snooze remaining cards.
+ * Cards of CRAM sprints aren't snoozed, as they may not be due.
  * Used by both auto-abandon and explicit abandon.
  */
 async function abandonSprintInternal(
@@ -493,6 +733,7 @@ async function abandonSprintInternal(
     where: {
       sprintId,
       result: null,
+      sprint: { mode: 'REVIEW' },
     },
     select: { cardId: true },
   });
@@ -514,7 +755,7 @@ async function abandonSprintInternal(
           include: {
             card: {
               include: {
-                deck: { select: { id: true, title: true } },
+                deck: { select: SPRINT_CARD_DECK_SELECT },
               },
             },
           },
@@ -538,7 +779,7 @@ async function abandonSprintInternal(
 /**
  * Options for submitting a sprint review
  */
-export interface SubmitSprintReviewOptions {
+export interface SubmitSprintReviewOptions extends ReviewTiming {
   sprintId: string;
   userId: string;
   cardId: string;
@@ -555,6 +796,10 @@ export interface SubmitSprintReviewResult {
     nextReviewDate: Date;
     state: string;
   };
+  /** When the review was made (starts its undo window), null if not logged */
+  reviewedAt: Date | null;
+  /** Whether the review turned the card into a leech */
+  leech: boolean;
 }
 
 /**
@@ -573,10 +818,15 @@ function ratingToCardResult(
  * This function:
  * 1. Validates sprint ownership and state
  * 2. Validates card belongs to sprint and hasn't been reviewed
- * 3. Creates Review record
+ * 3. Creates Review record (with the card's state before and after)
  * 4. Updates card FSRS state
  * 5. Updates SprintCard result
  * 6. Extends sprint resumableUntil
+ * 7. Applies the user's leech action if the card became a leech
+ *
+ * In CRAM sprints only steps 5 and 6 happen: the card's schedule is left
+ * untouched and no review is logged, so it can't be undone either. The
+ * answer times are stored on the SprintCard instead.
  */
 export async function submitSprintReview(
   options: SubmitSprintReviewOptions,
@@ -594,7 +844,7 @@ export async function submitSprintReview(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -637,9 +887,58 @@ export async function submitSprintReview(
     throw new Error('CARD_ALREADY_REVIEWED');
   }
 
+  // Calculate new resumableUntil
+  const newResumableUntil = new Date(
+    now.getTime() + RESUME_WINDOW_MINUTES * 60000,
+  );
+
+  // Map rating to CardResult
+  const cardResult = ratingToCardResult(rating);
+
   // Get the card for FSRS calculation
   const card = sprintCard.card;
 
+  if (sprint.mode === 'CRAM') {
+    const [, crammedSprint] = await prisma.$transaction([
+      prisma.sprintCard.update({
+        where: { id: sprintCard.id },
+        data: {
+          result: cardResult,
+          ...buildReviewTimingData(options),
+          cardState: card.state,
+        },
+      }),
+      prisma.sprint.update({
+        where: { id: sprintId },
+        data: { resumableUntil: newResumableUntil },
+        include: {
+          deck: { select: { id: true, title: true } },
+          sprintCards: {
+            orderBy: { order: 'asc' },
+            include: {
+              card: {
+                include: {
+                  deck: { select: SPRINT_CARD_DECK_SELECT },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      sprint: crammedSprint as SprintWithCards,
+      updatedCard: {
+        id: card.id,
+        nextReviewDate: card.nextReviewDate,
+        state: card.state,
+      },
+      reviewedAt: null,
+      leech: false,
+    };
+  }
+
   // Build current FSRS state from card
   const currentState: FSRSState = {
     stability: card.stability,
@@ -649,26 +948,24 @@ export async function submitSprintReview(
     reps: card.reps,
     lapses: card.lapses,
     state: card.state,
+    learningStep: card.learningStep,
     lastReview: card.lastReview,
   };
 
-  // Calculate new FSRS state
-  const { state: newState, nextReviewDate } = calculateNextReview(
+  // Calculate new FSRS state with the user's (possibly fitted) parameters
+  // and the settings of the card's deck, spreading out due dates if enabled
+  const params = await getUserFSRSParameters(userId, card.deck);
+  const { state: newState, nextReviewDate } = await scheduleReview({
+    userId,
+    cardId: card.id,
     currentState,
-    rating as RatingType,
-    now,
-  );
-
-  // Calculate new resumableUntil
-  const newResumableUntil = new Date(
-    now.getTime() + RESUME_WINDOW_MINUTES * 60000,
-  );
-
-  // Map rating to CardResult
-  const cardResult = ratingToCardResult(rating);
+    rating: rating as RatingType,
+    reviewTime: now,
+    params,
+  });
 
   // Perform all updates in a transaction
-  const [_review, updatedCard, _updatedSprintCard, updatedSprint] =
+  const [review, updatedCard, _updatedSprintCard, updatedSprint] =
     await prisma.$transaction([
       // Create review record
       prisma.review.create({
@@ -676,6 +973,9 @@ export async function submitSprintReview(
           cardId,
           userId,
           rating,
+          sprintId,
+          ...buildReviewTimingData(options),
+          ...buildReviewLogData(currentState, card, newState, nextReviewDate),
         },
       }),
       // Update card with new FSRS state
@@ -689,7 +989,10 @@ export async function submitSprintReview(
           reps: newState.reps,
           lapses: newState.lapses,
           state: newState.state,
+          learningStep: newState.learningStep,
           lastReview: newState.lastReview,
+          fsrsVersion: params.version,
+          schedulingAlgorithm: params.algorithm,
           nextReviewDate,
           // Reset notification flag since card was just reviewed
           lastNotificationSent: null,
@@ -713,7 +1016,7 @@ export async function submitSprintReview(
             include: {
               card: {
                 include: {
-                  deck: { select: { id: true, title: true } },
+                  deck: { select: SPRINT_CARD_DECK_SELECT },
                 },
               },
             },
@@ -722,6 +1025,22 @@ export async function submitSprintReview(
       }),
     ]);
 
+  const leechSettings = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { leechThreshold: true, leechAction: true },
+  });
+  const leech = leechSettings
+    ? await handleLeech({
+        userId,
+        cardId,
+        reviewId: review.id,
+        lapsesBefore: currentState.lapses,
+        lapsesAfter: newState.lapses,
+        settings: leechSettings,
+        now,
+      })
+    : false;
+
   return {
     sprint: updatedSprint as SprintWithCards,
     updatedCard: {
@@ -729,6 +1048,8 @@ export async function submitSprintReview(
       nextReviewDate: updatedCard.nextReviewDate,
       state: updatedCard.state,
     },
+    reviewedAt: now,
+    leech,
   };
 }
 
@@ -776,7 +1097,7 @@ export async function completeSprint(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -863,7 +1184,7 @@ export async function completeSprint(
         include: {
           card: {
             include: {
-              deck: { select: { id: true, title: true } },
+              deck: { select: SPRINT_CARD_DECK_SELECT },
             },
           },
         },
@@ -915,7 +1236,7 @@ export async function abandonSprint(
           include: {
             card: {
               include: {
-                deck: { select: { id: true, title: true } },
+                deck: { select: SPRINT_CARD_DECK_SELECT },
               },
             },
           },
@@ -925,7 +1246,8 @@ export async function abandonSprint(
     return { sprint: fullSprint as SprintWithCards, snoozedCardCount: 0 };
   }
 
-  const snoozedCardCount = sprint.sprintCards.length;
+  const snoozedCardCount =
+    sprint.mode === 'CRAM' ? 0 : sprint.sprintCards.length;
   const abandonedSprint = await abandonSprintInternal(sprintId);
 
   return { sprint: abandonedSprint, snoozedCardCount };
@@ -946,16 +1268,56 @@ export function calculateProgress(
   };
 }
 
+/**
+ * Build a card's recall probability and the next interval for each rating,
+ * using the user's parameters and the settings of the card's deck.
+ * CRAM sprints get no intervals, as their ratings don't reschedule the card.
+ */
+function formatSchedulingPreview(
+  card: CardWithFSRS,
+  user: SprintUserSettings | null | undefined,
+  now: Date,
+  mode: SprintMode,
+) {
+  const state: FSRSState = {
+    stability: card.stability,
+    difficulty: card.difficulty,
+    elapsedDays: card.elapsedDays,
+    scheduledDays: card.scheduledDays,
+    reps: card.reps,
+    lapses: card.lapses,
+    state: card.state as CardStateType,
+    learningStep: card.learningStep,
+    lastReview: card.lastReview,
+  };
+  const params = getFSRSParameters(
+    user?.fsrsWeights,
+    resolveSchedulingOverrides(card.deck, user),
+  );
+
+  return {
+    retrievability: getCurrentRetrievability(state, now, params),
+    intervalPreview:
+      mode === 'CRAM' ? null : previewNextIntervals(state, now, params),
+  };
+}
+
 /**
  * Format a sprint for API response.
+ * Pass the user to preview intervals with their own FSRS parameters.
  */
-export function formatSprintResponse(sprint: SprintWithCards) {
+export function formatSprintResponse(
+  sprint: SprintWithCards,
+  user?: SprintUserSettings | null,
+  now: Date = new Date(),
+) {
   const progress = calculateProgress(sprint.sprintCards);
 
   return {
     id: sprint.id,
     status: sprint.status,
     source: sprint.source,
+    mode: sprint.mode,
     deckId: sprint.deckId,
     deckTitle: sprint.deck?.title ?? null,
     createdAt: sprint.createdAt.toISOString(),
@@ -975,9 +1337,12 @@ export function formatSprintResponse(sprint: SprintWithCards) {
         priority: sc.card.priority,
         deckId: sc.card.deckId,
         deckTitle: sc.card.deck.title,
+        type: sc.card.type,
+        clozeIndex: sc.card.clozeIndex,
         state: sc.card.state,
         nextReviewDate: sc.card.nextReviewDate.toISOString(),
         snoozedUntil: sc.card.snoozedUntil?.toISOString() ?? null,
+        ...formatSchedulingPreview(sc.card, user, now, sprint.mode),
       },
     })),
     progress,
@@ -0,0 +1,92 @@
+/**
+ * Study Day
+ *
+ * Day boundaries in the user's timezone. A study day runs from local
+ * midnight to the next local midnight.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Gets the current time in minutes since midnight for a given timezone.
+ * @param now - Current date/time
+ * @param timezone - IANA timezone string (e.g., "America/New_York")
+ * @returns Minutes since midnight in the user's timezone (0-1439)
+ */
+export function getCurrentTimeInTimezone(now: Date, timezone: string): number {
+  try {
+    // Format the time in the user's timezone
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+
+    const parts = formatter.formatToParts(now);
+    const hours = parseInt(
+      parts.find((p) => p.type === 'hour')?.value ?? '0',
+      10,
+    );
+    const minutes = parseInt(
+      parts.find((p) => p.type === 'minute')?.value ?? '0',
+      10,
+    );
+
+    // hour12: false formats the midnight hour as "24"
+    return (hours % 24) * 60 + minutes;
+  } catch (_error) {
+    // If timezone is invalid, fall back to UTC
+    console.error(
+      `[StudyDay] Invalid timezone: ${timezone}, falling back to UTC`,
+    );
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+}
+
+/**
+ * Move a time that is within a few hours of local midnight onto it.
+ * Needed because days are 23 or 25 hours long when DST changes.
+ */
+function alignToMidnight(date: Date, timezone: string): Date {
+  const minutesSinceMidnight = getCurrentTimeInTimezone(date, timezone);
+  if (minutesSinceMidnight === 0) return date;
+
+  // Just past midnight, or just before the next one
+  const drift =
+    minutesSinceMidnight < 720
+      ? minutesSinceMidnight
+      : minutesSinceMidnight - 1440;
+  return new Date(date.getTime() - drift * MINUTE_MS);
+}
+
+/**
+ * Get the start of the study day containing `now`.
+ *
+ * @param now - Current time
+ * @param timezone - IANA timezone string (invalid timezones fall back to UTC)
+ * @returns Local midnight of the current day
+ */
+export function getStudyDayStart(now: Date, timezone: string): Date {
+  const minutesSinceMidnight = getCurrentTimeInTimezone(now, timezone);
+  const startOfMinute = now.getTime() - (now.getTime() % MINUTE_MS);
+  return alignToMidnight(
+    new Date(startOfMinute - minutesSinceMidnight * MINUTE_MS),
+    timezone,
+  );
+}
+
+/**
+ * Get the start of the study day after the one containing `now`.
+ *
+ * @param now - Current time
+ * @param timezone - IANA timezone string (invalid timezones fall back to UTC)
+ * @returns Local midnight of the next day
+ */
+export function getNextStudyDayStart(now: Date, timezone: string): Date {
+  return alignToMidnight(
+    new Date(getStudyDayStart(now, timezone).getTime() + DAY_MS),
+    timezone,
+  );
+}
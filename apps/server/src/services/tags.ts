@@ -0,0 +1,531 @@
+/**
+ * Tags
+ *
+ * Tags group cards across decks by topic. Tag names are unique per user.
+ * The leech tag is an ordinary tag that the leech service creates on demand
+ * (see leech.ts).
+ *
+ * Tag names are paths: `::` separates levels, so `lang::spanish::verbs` is a
+ * child of `lang::spanish`, as in Anki. Every level is a tag of its own:
+ * creating or renaming a tag creates its missing ancestors. A tag's subtree
+ * is the tag and all of its descendants:
+ * - filtering cards by a tag matches cards with any tag of its subtree
+ * - renaming (or moving) a tag renames its whole subtree
+ * - deleting a tag deletes its whole subtree
+ *
+ * Queries that filter cards by tag must use tagFilterConditions().
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Prisma, Tag } from '@/generated/prisma';
+import { availableCardConditions } from '@/services/card-availability';
+
+/**
+ * Separator of the levels of a tag name.
+ */
+export const TAG_SEPARATOR = '::';
+
+export type TagWithCardCount = Tag & { _count: { cardTags: number } };
+
+/**
+ * Node of the tag tree. Its counts include the cards of its descendants,
+ * each card counted once.
+ */
+export interface TagTreeNode {
+  /** Null for levels that are no tag of their own (see buildTagTree) */
+  id: string | null;
+  /** Last level of the name */
+  name: string;
+  /** Full tag name */
+  path: string;
+  cardCount: number;
+  /** Cards that are due and not snoozed, suspended or buried */
+  dueCount: number;
+  children: TagTreeNode[];
+}
+
+/**
+ * Tag as listed on a card.
+ */
+export interface CardTagSummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * Include for a card's tags, sorted by name. Use with toCardTagSummaries().
+ */
+export const CARD_TAGS_INCLUDE = {
+  include: { tag: { select: { id: true, name: true } } },
+  orderBy: { tag: { name: 'asc' } },
+} as const;
+
+/**
+ * Normalize a tag name: trims every level, so `lang :: spanish` becomes
+ * `lang::spanish`.
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .split(TAG_SEPARATOR)
+    .map((level) => level.trim())
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Get the names of a tag's ancestors, outermost first.
+ *
+ * @example getAncestorNames('a::b::c') // ['a', 'a::b']
+ */
+export function getAncestorNames(name: string): string[] {
+  const levels = name.split(TAG_SEPARATOR);
+  return levels
+    .slice(1)
+    .map((_level, index) => levels.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Conditions matching a user's tag and its descendants.
+ */
+function subtreeConditions(userId: string, name: string): Prisma.TagWhereInput {
+  return {
+    userId,
+    OR: [{ name }, { name: { startsWith: `${name}${TAG_SEPARATOR}` } }],
+  };
+}
+
+/**
+ * Conditions a card must meet to have a tag or one of its descendants.
+ * Meant to be used as (or added to) an AND list.
+ *
+ * @param tag - The tag's owner and name
+ * @returns Prisma where conditions
+ */
+export function taggedCardConditions(tag: {
+  userId: string;
+  name: string;
+}): Prisma.CardWhereInput {
+  return {
+    cardTags: { some: { tag: subtreeConditions(tag.userId, tag.name) } },
+  };
+}
+
+/**
+ * Conditions a card must meet to match a tag filter, checking that the user
+ * owns the tag (see taggedCardConditions).
+ *
+ * @param userId - User ID
+ * @param tagId - Tag ID
+ * @returns Prisma where conditions
+ * @throws Error('TAG_NOT_FOUND') if the tag doesn't exist
+ * @throws Error('TAG_NOT_OWNED') if the tag belongs to another user
+ */
+export async function tagFilterConditions(
+  userId: string,
+  tagId: string,
+): Promise<Prisma.CardWhereInput> {
+  return taggedCardConditions(await getOwnedTag(userId, tagId));
+}
+
+/**
+ * Get a card's tags from its card tags loaded with CARD_TAGS_INCLUDE.
+ */
+export function toCardTagSummaries(
+  cardTags: Array<{ tag: CardTagSummary }>,
+): CardTagSummary[] {
+  return cardTags.map(({ tag }) => ({ id: tag.id, name: tag.name }));
+}
+
+/**
+ * Get the IDs of a tag and its descendants, checking that the user owns the
+ * tag. For raw queries; use tagFilterConditions() otherwise.
+ *
+ * @throws Error('TAG_NOT_FOUND') if the tag doesn't exist
+ * @throws Error('TAG_NOT_OWNED') if the tag belongs to another user
+ */
+export async function getSubtreeTagIds(
+  userId: string,
+  tagId: string,
+): Promise<string[]> {
+  const tag = await getOwnedTag(userId, tagId);
+
+  const subtree = await prisma.tag.findMany({
+    where: subtreeConditions(userId, tag.name),
+    select: { id: true },
+  });
+
+  return subtree.map((t) => t.id);
+}
+
+/**
+ * Get a tag, checking that it belongs to the user.
+ *
+ * @throws Error('TAG_NOT_FOUND') if the tag doesn't exist
+ * @throws Error('TAG_NOT_OWNED') if the tag belongs to another user
+ */
+export async function getOwnedTag(
+  userId: string,
+  tagId: string,
+): Promise<{ userId: string; name: string }> {
+  const tag = await prisma.tag.findUnique({
+    where: { id: tagId },
+    select: { userId: true, name: true },
+  });
+
+  if (!tag) {
+    throw new Error('TAG_NOT_FOUND');
+  }
+
+  if (tag.userId !== userId) {
+    throw new Error('TAG_NOT_OWNED');
+  }
+
+  return tag;
+}
+
+/**
+ * Check that a card exists and belongs to the user.
+ *
+ * @throws Error('CARD_NOT_FOUND') if the card doesn't exist
+ * @throws Error('CARD_NOT_OWNED') if the card belongs to another user
+ */
+async function assertCardOwner(userId: string, cardId: string): Promise<void> {
+  const card = await prisma.card.findUnique({
+    where: { id: cardId },
+    select: { deck: { select: { userId: true } } },
+  });
+
+  if (!card) {
+    throw new Error('CARD_NOT_FOUND');
+  }
+
+  if (card.deck.userId !== userId) {
+    throw new Error('CARD_NOT_OWNED');
+  }
+}
+
+/**
+ * Create the missing ancestors of a tag.
+ */
+async function createAncestors(userId: string, name: string): Promise<void> {
+  const ancestors = getAncestorNames(name);
+  if (ancestors.length > 0) {
+    await prisma.tag.createMany({
+      data: ancestors.map((ancestor) => ({ userId, name: ancestor })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * Get a card's tags by name.
+ */
+async function findCardTags(cardId: string): Promise<CardTagSummary[]> {
+  const cardTags = await prisma.cardTag.findMany({
+    where: { cardId },
+    ...CARD_TAGS_INCLUDE,
+  });
+
+  return toCardTagSummaries(cardTags);
+}
+
+/**
+ * List a user's tags by name, with the number of cards having each.
+ *
+ * @param userId - User ID
+ * @returns Tags with card counts
+ */
+export async function listTags(userId: string): Promise<TagWithCardCount[]> {
+  return prisma.tag.findMany({
+    where: { userId },
+    include: { _count: { select: { cardTags: true } } },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Create a tag and its missing ancestors.
+ *
+ * @param userId - Owner of the tag
+ * @param name - Tag name
+ * @returns The created tag
+ * @throws Error('TAG_EXISTS') if the user has a tag with this name
+ */
+export async function createTag(
+  userId: string,
+  name: string,
+): Promise<TagWithCardCount> {
+  const tagName = normalizeTagName(name);
+
+  const existing = await prisma.tag.findUnique({
+    where: { userId_name: { userId, name: tagName } },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error('TAG_EXISTS');
+  }
+
+  await createAncestors(userId, tagName);
+
+  return prisma.tag.create({
+    data: { userId, name: tagName },
+    include: { _count: { select: { cardTags: true } } },
+  });
+}
+
+/**
+ * Rename a tag, which also moves it if its parent changes. Its descendants
+ * are renamed along with it (`lang::es` to `spanish` renames `lang::es::verbs`
+ * to `spanish::verbs`) and its missing new ancestors are created. Cards keep
+ * their tags.
+ *
+ * @param userId - Owner of the tag
+ * @param tagId - Tag ID
+ * @param name - New name
+ * @returns The renamed tag
+ * @throws Error('TAG_EXISTS') if one of the new names is taken by a tag
+ *   outside the subtree
+ */
+export async function renameTag(
+  userId: string,
+  tagId: string,
+  name: string,
+): Promise<TagWithCardCount> {
+  const tag = await getOwnedTag(userId, tagId);
+  const newName = normalizeTagName(name);
+
+  if (newName !== tag.name) {
+    const subtree = await prisma.tag.findMany({
+      where: subtreeConditions(userId, tag.name),
+      select: { id: true, name: true },
+    });
+    const renamed = subtree.map((t) => ({
+      id: t.id,
+      name: newName + t.name.slice(tag.name.length),
+    }));
+
+    const conflict = await prisma.tag.findFirst({
+      where: {
+        userId,
+        name: { in: renamed.map((t) => t.name) },
+        id: { notIn: subtree.map((t) => t.id) },
+      },
+      select: { id: true },
+    });
+    if (conflict) {
+      throw new Error('TAG_EXISTS');
+    }
+
+    // New names can be old names of the subtree (`a` to `a::b` while
+    // `a::b` becomes `a::b::b`), so move every tag out of the way first.
+    // Names starting with the separator can't be given to tags.
+    await prisma.$transaction([
+      ...renamed.map((t) =>
+        prisma.tag.update({
+          where: { id: t.id },
+          data: { name: `${TAG_SEPARATOR}${t.id}` },
+        }),
+      ),
+      ...renamed.map((t) =>
+        prisma.tag.update({ where: { id: t.id }, data: { name: t.name } }),
+      ),
+    ]);
+
+    await createAncestors(userId, newName);
+  }
+
+  return prisma.tag.findUniqueOrThrow({
+    where: { id: tagId },
+    include: { _count: { select: { cardTags: true } } },
+  });
+}
+
+/**
+ * Delete a tag and its descendants, removing them from their cards. The
+ * cards are kept.
+ *
+ * @param userId - Owner of the tag
+ * @param tagId - Tag ID
+ */
+export async function deleteTag(userId: string, tagId: string): Promise<void> {
+  const tag = await getOwnedTag(userId, tagId);
+
+  await prisma.tag.deleteMany({ where: subtreeConditions(userId, tag.name) });
+}
+
+/**
+ * Build the tag tree from a user's tags and the cards having them. Tags
+ * created before tag names were paths can lack ancestors; those levels get
+ * a node without an ID.
+ *
+ * @param tags - The user's tags
+ * @param cardTags - Every card tag of the user's tags
+ * @param dueCardTags - The card tags of due cards
+ * @returns The top-level nodes, every level sorted by name
+ */
+export function buildTagTree(
+  tags: Array<{ id: string; name: string }>,
+  cardTags: Array<{ tagId: string; cardId: string }>,
+  dueCardTags: Array<{ tagId: string; cardId: string }>,
+): TagTreeNode[] {
+  const roots: TagTreeNode[] = [];
+  const nodes = new Map<string, TagTreeNode>();
+  const cards = new Map<string, Set<string>>();
+  const dueCards = new Map<string, Set<string>>();
+
+  const getNode = (path: string): TagTreeNode => {
+    let node = nodes.get(path);
+    if (!node) {
+      const separator = path.lastIndexOf(TAG_SEPARATOR);
+      node = {
+        id: null,
+        name:
+          separator === -1
+            ? path
+            : path.slice(separator + TAG_SEPARATOR.length),
+        path,
+        cardCount: 0,
+        dueCount: 0,
+        children: [],
+      };
+      nodes.set(path, node);
+      cards.set(path, new Set());
+      dueCards.set(path, new Set());
+      (separator === -1
+        ? roots
+        : getNode(path.slice(0, separator)).children
+      ).push(node);
+    }
+    return node;
+  };
+
+  const namesById = new Map(tags.map((tag) => [tag.id, tag.name]));
+  for (const tag of tags) {
+    getNode(tag.name).id = tag.id;
+  }
+
+  // Count every card once on its tags and all their ancestors
+  const collect = (
+    into: Map<string, Set<string>>,
+    list: Array<{ tagId: string; cardId: string }>,
+  ) => {
+    for (const { tagId, cardId } of list) {
+      const name = namesById.get(tagId);
+      if (name !== undefined) {
+        for (const path of [...getAncestorNames(name), name]) {
+          into.get(path)!.add(cardId);
+        }
+      }
+    }
+  };
+  collect(cards, cardTags);
+  collect(dueCards, dueCardTags);
+
+  const finish = (level: TagTreeNode[]) => {
+    level.sort((a, b) => a.name.localeCompare(b.name));
+    for (const node of level) {
+      node.cardCount = cards.get(node.path)!.size;
+      node.dueCount = dueCards.get(node.path)!.size;
+      finish(node.children);
+    }
+  };
+  finish(roots);
+
+  return roots;
+}
+
+/**
+ * Get a user's tag tree with card and due counts.
+ *
+ * @param userId - User ID
+ * @param now - Current time, for due counts
+ * @returns The top-level nodes (see buildTagTree)
+ */
+export async function getTagTree(
+  userId: string,
+  now: Date = new Date(),
+): Promise<TagTreeNode[]> {
+  const [tags, cardTags, dueCardTags] = await Promise.all([
+    prisma.tag.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    }),
+    prisma.cardTag.findMany({
+      where: { tag: { userId } },
+      select: { tagId: true, cardId: true },
+    }),
+    prisma.cardTag.findMany({
+      where: {
+        tag: { userId },
+        card: {
+          nextReviewDate: { lte: now },
+          AND: availableCardConditions(now),
+        },
+      },
+      select: { tagId: true, cardId: true },
+    }),
+  ]);
+
+  return buildTagTree(tags, cardTags, dueCardTags);
+}
+
+/**
+ * List a card's tags by name.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @returns The card's tags
+ */
+export async function listCardTags(
+  userId: string,
+  cardId: string,
+): Promise<CardTagSummary[]> {
+  await assertCardOwner(userId, cardId);
+
+  return findCardTags(cardId);
+}
+
+/**
+ * Tag a card. Adding a tag the card already has does nothing.
+ *
+ * @param userId - Owner of the card and the tag
+ * @param cardId - Card ID
+ * @param tagId - Tag ID
+ * @returns The card's tags
+ */
+export async function addCardTag(
+  userId: string,
+  cardId: string,
+  tagId: string,
+): Promise<CardTagSummary[]> {
+  await assertCardOwner(userId, cardId);
+  await getOwnedTag(userId, tagId);
+
+  await prisma.cardTag.upsert({
+    where: { cardId_tagId: { cardId, tagId } },
+    create: { cardId, tagId },
+    update: {},
+  });
+
+  return findCardTags(cardId);
+}
+
+/**
+ * Remove a tag from a card. Removing a tag the card doesn't have does
+ * nothing.
+ *
+ * @param userId - Owner of the card
+ * @param cardId - Card ID
+ * @param tagId - Tag ID
+ * @returns The card's tags
+ */
+export async function removeCardTag(
+  userId: string,
+  cardId: string,
+  tagId: string,
+): Promise<CardTagSummary[]> {
+  await assertCardOwner(userId, cardId);
+
+  await prisma.cardTag.deleteMany({ where: { cardId, tagId } });
+
+  return findCardTags(cardId);
+}
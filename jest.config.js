@@ -3,6 +3,7 @@ const config = {
   projects: [
     '<rootDir>/apps/server/jest.config.js',
     '<rootDir>/apps/mobile/jest.config.cjs',
+    '<rootDir>/packages/card-render/jest.config.js',
     // Future packages can be added here:
     // '<rootDir>/packages/shared/jest.config.js',
   ],
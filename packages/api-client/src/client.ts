@@ -35,6 +35,11 @@ export interface ApiClientConfig {
   baseUrl: string;
   /** Function that returns auth headers (can be async for Clerk token) */
   getAuthHeaders: AuthHeaderProvider;
+  /**
+   * Name of the app making requests ('mobile' or 'desktop'), sent as the
+   * X-Client header so card edits record where they came from
+   */
+  clientName?: string;
 }
 
 // Module-level configuration (set via configureApiClient)
@@ -97,7 +102,7 @@ export async function request<T>(
   endpoint: string,
   options: RequestInit = {},
 ): Promise<T> {
-  const { baseUrl, getAuthHeaders } = getApiClientConfig();
+  const { baseUrl, getAuthHeaders, clientName } = getApiClientConfig();
   const url = `${baseUrl}${endpoint}`;
 
   // Get auth headers (may be async for Clerk token)
@@ -105,6 +110,7 @@ export async function request<T>(
 
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
+    ...(clientName && { 'X-Client': clientName }),
     ...authHeaders,
     ...options.headers,
   };
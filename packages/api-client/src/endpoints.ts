@@ -5,19 +5,51 @@
  * These match the current mobile api.ts methods exactly.
  */
 
-import { request } from './client';
+import { ApiError, getApiClientConfig, request } from './client';
 import type {
   User,
+  FSRSParameters,
+  FSRSVersion,
+  FSRSOptimization,
+  Page,
   Deck,
+  GetDecksOptions,
+  DeckPage,
   CreateDeckRequest,
   UpdateDeckRequest,
+  FilteredDeck,
+  CreateFilteredDeckRequest,
+  UpdateFilteredDeckRequest,
   Card,
+  GetCardsOptions,
+  CardAvailability,
+  LeechReportDeck,
+  CardSearchResult,
+  SearchCardsOptions,
   CreateCardRequest,
+  CreateCardResponse,
   UpdateCardRequest,
+  UpdateCardResponse,
+  CardRevision,
+  CardRevisionDiff,
+  Tag,
+  CardTag,
+  TagTreeNode,
+  NoteFields,
+  NoteType,
+  Note,
+  CreateNoteTypeRequest,
+  CreateNoteRequest,
+  Media,
   Review,
+  ReviewWithCard,
+  GetReviewsOptions,
+  ReviewTiming,
+  ReviewTimingStats,
   Rating,
   Sprint,
   SprintSource,
+  SprintMode,
   SprintStats,
   HomeSummary,
   NotificationPreferences,
@@ -25,6 +57,37 @@ import type {
   DevTestSprintNotificationResponse,
 } from './types';
 
+// =============================================================================
+// Pagination
+// =============================================================================
+
+/**
+ * Add list options to an endpoint as query parameters; arrays are sent
+ * comma-separated.
+ */
+function withQuery(endpoint: string, options: object): string {
+  const query = Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Iterate over the items of every page of a list, loading the next page
+ * once the items of the previous one are used up.
+ */
+async function* iteratePages<T>(
+  getPage: (cursor: string | undefined) => Promise<Page<T>>,
+): AsyncGenerator<T, void, undefined> {
+  let cursor: string | undefined;
+  do {
+    const page = await getPage(cursor);
+    yield* page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
 // =============================================================================
 // User API Methods
 // =============================================================================
@@ -36,15 +99,84 @@ export async function getMe(): Promise<{ user: User }> {
   return request('/api/me');
 }
 
+/**
+ * Get the FSRS parameters used to schedule the current user's reviews.
+ */
+export async function getFSRSParameters(): Promise<{
+  parameters: FSRSParameters;
+}> {
+  return request('/api/me/fsrs-parameters');
+}
+
+/**
+ * Start fitting the current user's FSRS parameters to their review history.
+ * The fit runs in the background; poll getFSRSOptimization() for the result.
+ */
+export async function optimizeFSRSParameters(): Promise<{
+  optimization: FSRSOptimization;
+}> {
+  return request('/api/me/fsrs-parameters/optimize', {
+    method: 'POST',
+  });
+}
+
+/**
+ * Get the current user's latest FSRS optimization (null if there was none)
+ * and the parameters now in use.
+ */
+export async function getFSRSOptimization(): Promise<{
+  parameters: FSRSParameters;
+  optimization: FSRSOptimization | null;
+}> {
+  return request('/api/me/fsrs-parameters/optimize');
+}
+
+/**
+ * Switch the current user's FSRS engine version.
+ * Card state is recomputed from the review log with the new engine.
+ */
+export async function setFSRSVersion(version: FSRSVersion): Promise<{
+  parameters: FSRSParameters;
+  recomputedCardCount: number;
+}> {
+  return request('/api/me/fsrs-parameters/version', {
+    method: 'PUT',
+    body: JSON.stringify({ version }),
+  });
+}
+
+/**
+ * Reset the current user's FSRS parameters to the defaults.
+ */
+export async function resetFSRSParameters(): Promise<{
+  parameters: FSRSParameters;
+}> {
+  return request('/api/me/fsrs-parameters', {
+    method: 'DELETE',
+  });
+}
+
 // =============================================================================
 // Deck API Methods
 // =============================================================================
 
 /**
- * Get all decks for the current user.
+ * Get a page of the current user's top-level decks with their subdecks,
+ * and with the first page all of their filtered decks.
+ */
+export async function getDecks(
+  options: GetDecksOptions = {},
+): Promise<DeckPage> {
+  return request(withQuery('/api/decks', options));
+}
+
+/**
+ * Iterate over all of the current user's top-level decks, a page at a time.
  */
-export async function getDecks(): Promise<{ decks: Deck[]; total: number }> {
-  return request('/api/decks');
+export function iterateDecks(
+  options: Omit<GetDecksOptions, 'cursor'> = {},
+): AsyncGenerator<Deck, void, undefined> {
+  return iteratePages((cursor) => getDecks({ ...options, cursor }));
 }
 
 /**
@@ -88,18 +220,91 @@ export async function deleteDeck(deckId: string): Promise<void> {
   });
 }
 
+// =============================================================================
+// Filtered Deck API Methods
+// =============================================================================
+
+/**
+ * Get a filtered deck with its current card count.
+ */
+export async function getFilteredDeck(
+  filteredDeckId: string,
+): Promise<{ filteredDeck: FilteredDeck }> {
+  return request(`/api/filtered-decks/${filteredDeckId}`);
+}
+
+/**
+ * Save a search as a filtered deck.
+ */
+export async function createFilteredDeck(
+  data: CreateFilteredDeckRequest,
+): Promise<{ filteredDeck: FilteredDeck }> {
+  return request('/api/filtered-decks', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Rename a filtered deck or change its filters.
+ */
+export async function updateFilteredDeck(
+  filteredDeckId: string,
+  data: UpdateFilteredDeckRequest,
+): Promise<{ filteredDeck: FilteredDeck }> {
+  return request(`/api/filtered-decks/${filteredDeckId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Delete a filtered deck. Its cards are kept.
+ */
+export async function deleteFilteredDeck(
+  filteredDeckId: string,
+): Promise<void> {
+  return request(`/api/filtered-decks/${filteredDeckId}`, {
+    method: 'DELETE',
+  });
+}
+
 // =============================================================================
 // Card API Methods
 // =============================================================================
 
 /**
- * Get cards, optionally filtered by deck.
+ * Get a page of cards, optionally filtered by deck, tag and filtered deck.
  */
 export async function getCards(
-  deckId?: string,
-): Promise<{ cards: Card[]; total: number }> {
-  const endpoint = deckId ? `/api/cards?deckId=${deckId}` : '/api/cards';
-  return request(endpoint);
+  options: GetCardsOptions = {},
+): Promise<Page<Card>> {
+  return request(withQuery('/api/cards', options));
+}
+
+/**
+ * Iterate over all cards matching the options, a page at a time.
+ */
+export function iterateCards(
+  options: Omit<GetCardsOptions, 'cursor'> = {},
+): AsyncGenerator<Card, void, undefined> {
+  return iteratePages((cursor) => getCards({ ...options, cursor }));
+}
+
+/**
+ * Full-text search of card fronts and backs, best matches first.
+ */
+export async function searchCards(
+  query: string,
+  options: SearchCardsOptions = {},
+): Promise<{ results: CardSearchResult[]; total: number }> {
+  const params = [
+    `q=${encodeURIComponent(query)}`,
+    ...Object.entries(options)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`),
+  ].join('&');
+  return request(`/api/cards/search?${params}`);
 }
 
 /**
@@ -109,12 +314,68 @@ export async function getDueCards(): Promise<{ cards: Card[]; total: number }> {
   return request('/api/cards/due');
 }
 
+/**
+ * Get leech cards grouped by deck, optionally filtered by deck.
+ */
+export async function getLeeches(
+  deckId?: string,
+): Promise<{ decks: LeechReportDeck[]; total: number }> {
+  const endpoint = deckId
+    ? `/api/cards/leeches?deckId=${deckId}`
+    : '/api/cards/leeches';
+  return request(endpoint);
+}
+
+/**
+ * Suspend a card, taking it out of rotation until it is unsuspended.
+ */
+export async function suspendCard(
+  id: string,
+): Promise<{ card: CardAvailability }> {
+  return request(`/api/cards/${id}/suspend`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Unsuspend a card.
+ */
+export async function unsuspendCard(
+  id: string,
+): Promise<{ card: CardAvailability }> {
+  return request(`/api/cards/${id}/suspend`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Bury a card until the start of the user's next day.
+ */
+export async function buryCard(
+  id: string,
+): Promise<{ card: CardAvailability }> {
+  return request(`/api/cards/${id}/bury`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Unbury a card.
+ */
+export async function unburyCard(
+  id: string,
+): Promise<{ card: CardAvailability }> {
+  return request(`/api/cards/${id}/bury`, {
+    method: 'DELETE',
+  });
+}
+
 /**
  * Create a new card.
  */
 export async function createCard(
   data: CreateCardRequest,
-): Promise<{ card: Card }> {
+): Promise<CreateCardResponse> {
   return request('/api/cards', {
     method: 'POST',
     body: JSON.stringify(data),
@@ -134,7 +395,7 @@ export async function getCard(cardId: string): Promise<{ card: Card }> {
 export async function updateCard(
   cardId: string,
   data: UpdateCardRequest,
-): Promise<{ card: Card }> {
+): Promise<UpdateCardResponse> {
   return request(`/api/cards/${cardId}`, {
     method: 'PATCH',
     body: JSON.stringify(data),
@@ -150,6 +411,276 @@ export async function deleteCard(cardId: string): Promise<void> {
   });
 }
 
+// =============================================================================
+// Card Revision API Methods
+// =============================================================================
+
+/**
+ * List a card's edit history, newest first.
+ */
+export async function getCardRevisions(
+  cardId: string,
+): Promise<{ revisions: CardRevision[]; total: number }> {
+  return request(`/api/cards/${cardId}/revisions`);
+}
+
+/**
+ * Diff two revisions of a card, or a revision and the card's current text
+ * (without toRevisionId).
+ */
+export async function diffCardRevisions(
+  cardId: string,
+  fromRevisionId: string,
+  toRevisionId?: string,
+): Promise<{ diff: CardRevisionDiff }> {
+  const query = toRevisionId
+    ? `from=${fromRevisionId}&to=${toRevisionId}`
+    : `from=${fromRevisionId}`;
+  return request(`/api/cards/${cardId}/revisions/diff?${query}`);
+}
+
+/**
+ * Put a revision's text back on a card. The restore is recorded as a new
+ * revision.
+ */
+export async function restoreCardRevision(
+  cardId: string,
+  revisionId: string,
+): Promise<UpdateCardResponse> {
+  return request(`/api/cards/${cardId}/revisions/${revisionId}/restore`, {
+    method: 'POST',
+  });
+}
+
+// =============================================================================
+// Tag API Methods
+// =============================================================================
+
+/**
+ * List the user's tags by name, with their card counts.
+ */
+export async function getTags(): Promise<{ tags: Tag[]; total: number }> {
+  return request('/api/tags');
+}
+
+/**
+ * Get the user's tags as a tree by `::` levels, with card and due counts.
+ */
+export async function getTagTree(): Promise<{ tree: TagTreeNode[] }> {
+  return request('/api/tags/tree');
+}
+
+/**
+ * Create a tag and its missing ancestors.
+ */
+export async function createTag(name: string): Promise<{ tag: Tag }> {
+  return request('/api/tags', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Rename or move a tag along with its descendants.
+ */
+export async function renameTag(
+  tagId: string,
+  name: string,
+): Promise<{ tag: Tag }> {
+  return request(`/api/tags/${tagId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Delete a tag and its descendants. Their cards are kept.
+ */
+export async function deleteTag(tagId: string): Promise<void> {
+  return request(`/api/tags/${tagId}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Get a card's tags.
+ */
+export async function getCardTags(
+  cardId: string,
+): Promise<{ tags: CardTag[] }> {
+  return request(`/api/cards/${cardId}/tags`);
+}
+
+/**
+ * Tag a card.
+ *
+ * @returns The card's tags
+ */
+export async function addCardTag(
+  cardId: string,
+  tagId: string,
+): Promise<{ tags: CardTag[] }> {
+  return request(`/api/cards/${cardId}/tags`, {
+    method: 'POST',
+    body: JSON.stringify({ tagId }),
+  });
+}
+
+/**
+ * Remove a tag from a card.
+ *
+ * @returns The card's tags
+ */
+export async function removeCardTag(
+  cardId: string,
+  tagId: string,
+): Promise<{ tags: CardTag[] }> {
+  return request(`/api/cards/${cardId}/tags/${tagId}`, {
+    method: 'DELETE',
+  });
+}
+
+// =============================================================================
+// Note API Methods
+// =============================================================================
+
+/**
+ * List the stock note types and the user's own.
+ */
+export async function getNoteTypes(): Promise<{ noteTypes: NoteType[] }> {
+  return request('/api/notes/types');
+}
+
+/**
+ * Create a custom note type.
+ */
+export async function createNoteType(
+  data: CreateNoteTypeRequest,
+): Promise<{ noteType: NoteType }> {
+  return request('/api/notes/types', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * List notes, optionally filtered by deck.
+ */
+export async function getNotes(
+  deckId?: string,
+): Promise<{ notes: Note[]; total: number }> {
+  const endpoint = deckId ? `/api/notes?deckId=${deckId}` : '/api/notes';
+  return request(endpoint);
+}
+
+/**
+ * Create a note and the cards its templates generate.
+ */
+export async function createNote(
+  data: CreateNoteRequest,
+): Promise<{ note: Note }> {
+  return request('/api/notes', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Get a single note with its cards.
+ */
+export async function getNote(noteId: string): Promise<{ note: Note }> {
+  return request(`/api/notes/${noteId}`);
+}
+
+/**
+ * Update a note's fields. Its cards are re-rendered and keep their
+ * scheduling.
+ */
+export async function updateNote(
+  noteId: string,
+  fields: NoteFields,
+): Promise<{ note: Note }> {
+  return request(`/api/notes/${noteId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ fields }),
+  });
+}
+
+/**
+ * Delete a note and its cards.
+ */
+export async function deleteNote(noteId: string): Promise<void> {
+  return request(`/api/notes/${noteId}`, {
+    method: 'DELETE',
+  });
+}
+
+// =============================================================================
+// Media API Methods
+// =============================================================================
+
+/**
+ * List the user's uploaded media, newest first.
+ */
+export async function getMediaList(): Promise<{
+  media: Media[];
+  total: number;
+}> {
+  return request('/api/media');
+}
+
+/**
+ * Upload an image or audio file (at most 10 MB).
+ *
+ * @param data - File contents
+ * @param mimeType - The file's type, e.g. image/png or audio/mpeg
+ * @param filename - Original file name, used as the image's alt text
+ */
+export async function uploadMedia(
+  data: Blob | ArrayBuffer,
+  mimeType: string,
+  filename?: string,
+): Promise<{ media: Media }> {
+  const endpoint = filename
+    ? `/api/media?filename=${encodeURIComponent(filename)}`
+    : '/api/media';
+  return request(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': mimeType },
+    body: data,
+  });
+}
+
+/**
+ * Download a media file. Its type tells images from audio.
+ */
+export async function fetchMedia(mediaId: string): Promise<Blob> {
+  const { baseUrl, getAuthHeaders } = getApiClientConfig();
+
+  const response = await fetch(`${baseUrl}/api/media/${mediaId}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      response.status === 404 ? 'NOT_FOUND' : 'UNKNOWN',
+      `Failed to load media (status ${response.status})`,
+    );
+  }
+
+  return response.blob();
+}
+
+/**
+ * Delete a media file that no card uses any more.
+ */
+export async function deleteMedia(mediaId: string): Promise<void> {
+  return request(`/api/media/${mediaId}`, {
+    method: 'DELETE',
+  });
+}
+
 // =============================================================================
 // Review API Methods
 // =============================================================================
@@ -157,16 +688,64 @@ export async function deleteCard(cardId: string): Promise<void> {
 /**
  * Submit a card review.
  */
-export async function submitReview(data: {
-  cardId: string;
-  rating: Rating;
-}): Promise<{ review: Review; card: Card }> {
+export async function submitReview(
+  data: { cardId: string; rating: Rating } & ReviewTiming,
+): Promise<{
+  review: Review;
+  card: Card;
+  undoableUntil: string;
+  /** Whether the review turned the card into a leech */
+  leech: boolean;
+}> {
   return request('/api/reviews', {
     method: 'POST',
     body: JSON.stringify(data),
   });
 }
 
+/**
+ * Undo the last review, restoring the card's previous scheduling state.
+ * Only possible until the undoableUntil time returned with the review.
+ */
+export async function undoLastReview(): Promise<{
+  review: Review;
+  card: Pick<Card, 'id' | 'state' | 'nextReview'>;
+}> {
+  return request('/api/reviews/undo', {
+    method: 'POST',
+  });
+}
+
+/**
+ * Get a page of the review history, newest first unless order is 'asc'.
+ */
+export async function getReviews(
+  options: GetReviewsOptions = {},
+): Promise<Page<ReviewWithCard>> {
+  return request(withQuery('/api/reviews', options));
+}
+
+/**
+ * Iterate over the whole review history, a page at a time.
+ */
+export function iterateReviews(
+  options: Omit<GetReviewsOptions, 'cursor'> = {},
+): AsyncGenerator<ReviewWithCard, void, undefined> {
+  return iteratePages((cursor) => getReviews({ ...options, cursor }));
+}
+
+/**
+ * Get average answer times per card, deck and state (slowest first).
+ */
+export async function getReviewTiming(
+  deckId?: string,
+): Promise<ReviewTimingStats> {
+  const endpoint = deckId
+    ? `/api/reviews/timing?deckId=${deckId}`
+    : '/api/reviews/timing';
+  return request(endpoint);
+}
+
 // =============================================================================
 // Sprint API Methods
 // =============================================================================
@@ -176,7 +755,13 @@ export async function submitReview(data: {
  */
 export async function startSprint(data?: {
   deckId?: string;
+  /** Only cards with this tag, from any deck unless deckId is given */
+  tagId?: string;
+  /** Only cards of this filtered deck */
+  filteredDeckId?: string;
   source?: SprintSource;
+  /** CRAM requires a deckId, tagId or filteredDeckId */
+  mode?: SprintMode;
 }): Promise<{ sprint: Sprint; resumed: boolean }> {
   return request('/api/sprints/start', {
     method: 'POST',
@@ -196,10 +781,14 @@ export async function getSprint(sprintId: string): Promise<{ sprint: Sprint }> {
  */
 export async function submitSprintReview(
   sprintId: string,
-  data: { cardId: string; rating: Rating },
+  data: { cardId: string; rating: Rating } & ReviewTiming,
 ): Promise<{
   sprint: Sprint;
   updatedCard: { id: string; nextReviewDate: string; state: string };
+  /** null in cram sprints, whose reviews can't be undone */
+  undoableUntil: string | null;
+  /** Whether the review turned the card into a leech */
+  leech: boolean;
 }> {
   return request(`/api/sprints/${sprintId}/review`, {
     method: 'POST',
@@ -207,6 +796,19 @@ export async function submitSprintReview(
   });
 }
 
+/**
+ * Undo the last review in a sprint so its card can be rated again.
+ * Reopens the sprint if the undone review completed it.
+ * @param sprintId - The sprint to undo the last review of
+ */
+export async function undoSprintReview(
+  sprintId: string,
+): Promise<{ sprint: Sprint; undoneCardId: string }> {
+  return request(`/api/sprints/${sprintId}/undo`, {
+    method: 'POST',
+  });
+}
+
 /**
  * Complete a sprint.
  */
@@ -17,26 +17,86 @@ export {
 
 // Types
 export type {
+  // Pagination
+  SortOrder,
+  Page,
+  PageOptions,
   // User
   User,
+  FSRSParameters,
+  FSRSVersion,
+  OptimizationStatus,
+  FSRSOptimization,
   // Deck
+  SchedulingAlgorithm,
   Deck,
+  DeckSort,
+  DeckListField,
+  GetDecksOptions,
+  DeckPage,
   CreateDeckRequest,
   UpdateDeckRequest,
+  // Filtered Deck
+  FilteredDeckFilters,
+  FilteredDeck,
+  CreateFilteredDeckRequest,
+  UpdateFilteredDeckRequest,
   // Card
   CardState,
+  CardType,
   Card,
+  CardSort,
+  CardListField,
+  GetCardsOptions,
+  CardAvailability,
+  LeechAction,
+  LeechCard,
+  LeechReportDeck,
+  SnippetPart,
+  CardSearchResult,
+  SearchCardsOptions,
   CreateCardRequest,
+  CreateCardResponse,
   UpdateCardRequest,
+  UpdateCardResponse,
+  // Card revisions
+  EditSource,
+  CardRevision,
+  DiffLine,
+  CardRevisionDiff,
+  // Tag
+  Tag,
+  CardTag,
+  TagTreeNode,
+  // Note
+  NoteFields,
+  CardTemplate,
+  NoteType,
+  NoteCard,
+  Note,
+  CreateNoteTypeRequest,
+  CreateNoteRequest,
+  // Media
+  Media,
   // Review
   Rating,
   Review,
+  ReviewStateBefore,
+  ReviewStateAfter,
+  ReviewWithCard,
+  ReviewListField,
+  GetReviewsOptions,
+  ReviewTiming,
+  TimingAverages,
+  ReviewTimingStats,
   // Sprint
   SprintStatus,
   SprintSource,
+  SprintMode,
   CardResult,
   SprintProgress,
   CardInSprint,
+  IntervalPreview,
   SprintCard,
   Sprint,
   SprintStats,
@@ -54,25 +114,74 @@ export type {
 export {
   // User
   getMe,
+  getFSRSParameters,
+  optimizeFSRSParameters,
+  getFSRSOptimization,
+  setFSRSVersion,
+  resetFSRSParameters,
   // Decks
   getDecks,
+  iterateDecks,
   createDeck,
   getDeck,
   updateDeck,
   deleteDeck,
+  // Filtered Decks
+  getFilteredDeck,
+  createFilteredDeck,
+  updateFilteredDeck,
+  deleteFilteredDeck,
   // Cards
   getCards,
+  iterateCards,
+  searchCards,
   getDueCards,
+  getLeeches,
+  suspendCard,
+  unsuspendCard,
+  buryCard,
+  unburyCard,
   createCard,
   getCard,
   updateCard,
   deleteCard,
+  // Card revisions
+  getCardRevisions,
+  diffCardRevisions,
+  restoreCardRevision,
+  // Tags
+  getTags,
+  getTagTree,
+  createTag,
+  renameTag,
+  deleteTag,
+  getCardTags,
+  addCardTag,
+  removeCardTag,
+  // Notes
+  getNoteTypes,
+  createNoteType,
+  getNotes,
+  createNote,
+  getNote,
+  updateNote,
+  deleteNote,
+  // Media
+  getMediaList,
+  uploadMedia,
+  fetchMedia,
+  deleteMedia,
   // Reviews
   submitReview,
+  undoLastReview,
+  getReviews,
+  iterateReviews,
+  getReviewTiming,
   // Sprints
   startSprint,
   getSprint,
   submitSprintReview,
+  undoSprintReview,
   completeSprint,
   abandonSprint,
   // Home
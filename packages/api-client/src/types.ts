@@ -5,6 +5,35 @@
  * These match the current mobile api.ts types exactly to ensure compatibility.
  */
 
+// =============================================================================
+// Pagination Types
+// =============================================================================
+
+export type SortOrder = 'asc' | 'desc';
+
+/** A page of a list; pass nextCursor as the cursor to get the next page */
+export interface Page<T> {
+  items: T[];
+  /** Number of items in the whole list */
+  total: number;
+  pageSize: number;
+  hasMore: boolean;
+  /** null on the last page */
+  nextCursor: string | null;
+}
+
+export interface PageOptions<Sort extends string, Field extends string> {
+  /** nextCursor of the previous page; only valid with the same sort and order */
+  cursor?: string;
+  /** Page size (default 50, max 200) */
+  limit?: number;
+  sort?: Sort;
+  /** Default: oldest first for the due sort, otherwise highest/newest first */
+  order?: SortOrder;
+  /** Fields to return besides the id (default all); the others are left out */
+  fields?: Field[];
+}
+
 // =============================================================================
 // User Types
 // =============================================================================
@@ -19,26 +48,100 @@ export interface User {
   createdAt: string;
 }
 
+export type FSRSVersion = 'FSRS_4_5' | 'FSRS_5';
+
+export interface FSRSParameters {
+  version: FSRSVersion;
+  weights: number[];
+  requestRetention: number;
+  maximumInterval: number;
+  isPersonalized: boolean;
+  optimizedAt: string | null;
+}
+
+export type OptimizationStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * A fit of the user's FSRS weights, run in the background. The loss summary
+ * is null until it succeeds.
+ */
+export interface FSRSOptimization {
+  id: string;
+  status: OptimizationStatus;
+  reviewCount: number;
+  scoredReviewCount: number | null;
+  initialLoss: number | null;
+  finalLoss: number | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
 // =============================================================================
 // Deck Types
 // =============================================================================
 
+export type SchedulingAlgorithm = 'FSRS' | 'SM2';
+
 export interface Deck {
   id: string;
   title: string;
   description: string | null;
   priority: number;
   cardCount: number;
+  /** Learning step override in minutes (null = user's steps) */
+  learningSteps?: number[] | null;
+  /** Relearning step override in minutes (null = user's steps) */
+  relearningSteps?: number[] | null;
+  /** Desired retention 0.70-0.97 (null = inherited) */
+  desiredRetention?: number | null;
+  /** Retention the deck is scheduled with, after inheritance */
+  effectiveRetention?: number;
+  /** Algorithm the deck's cards are scheduled with */
+  schedulingAlgorithm?: SchedulingAlgorithm;
+  /** New cards introduced per day (null = only the user's limit) */
+  newCardsPerDay?: number | null;
+  /** Reviews per day (null = only the user's limit) */
+  reviewsPerDay?: number | null;
+  /** Whether Basic cards get a reverse card (back to front) */
+  createReverseCards?: boolean;
   createdAt: string;
   updatedAt: string;
   subdecks?: Deck[];
 }
 
+export type DeckSort = 'created' | 'priority';
+
+/** Deck fields that can be selected in deck lists */
+export type DeckListField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'cardCount'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'subdecks';
+
+/** Top-level decks are paged; subdecks come with their parent */
+export type GetDecksOptions = PageOptions<DeckSort, DeckListField>;
+
+/** A page of top-level decks; the first also has the filtered decks */
+export interface DeckPage extends Page<Deck> {
+  /** All filtered decks (first page only) */
+  filteredDecks?: FilteredDeck[];
+}
+
 export interface CreateDeckRequest {
   title: string;
   description?: string;
   parentDeckId?: string;
   priority?: number;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  desiredRetention?: number;
+  schedulingAlgorithm?: SchedulingAlgorithm;
+  newCardsPerDay?: number;
+  reviewsPerDay?: number;
+  createReverseCards?: boolean;
 }
 
 export interface UpdateDeckRequest {
@@ -46,6 +149,53 @@ export interface UpdateDeckRequest {
   description?: string | null;
   parentDeckId?: string | null;
   priority?: number;
+  learningSteps?: number[] | null;
+  relearningSteps?: number[] | null;
+  desiredRetention?: number | null;
+  /** Switching converts the state of the deck's cards */
+  schedulingAlgorithm?: SchedulingAlgorithm;
+  newCardsPerDay?: number | null;
+  reviewsPerDay?: number | null;
+  createReverseCards?: boolean;
+}
+
+// =============================================================================
+// Filtered Deck Types
+// =============================================================================
+
+/** Filters of a filtered deck (null = not filtered by it) */
+export interface FilteredDeckFilters {
+  /** Full-text search of fronts and backs */
+  query: string | null;
+  /** Cards of the deck or its subdecks */
+  deckId: string | null;
+  /** Cards with the tag or one of its descendants */
+  tagId: string | null;
+  state: CardState | null;
+  minLapses: number | null;
+  /** Cards due within this many days (0 = due now) */
+  dueWithinDays: number | null;
+}
+
+/** Saved search studied like a deck; its cards match every filter set */
+export interface FilteredDeck extends FilteredDeckFilters {
+  id: string;
+  title: string;
+  /** Number of cards matching the filters now */
+  cardCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateFilteredDeckRequest
+  extends Partial<FilteredDeckFilters> {
+  title: string;
+}
+
+/** null clears a filter */
+export interface UpdateFilteredDeckRequest
+  extends Partial<FilteredDeckFilters> {
+  title?: string;
 }
 
 // =============================================================================
@@ -54,6 +204,9 @@ export interface UpdateDeckRequest {
 
 export type CardState = 'NEW' | 'LEARNING' | 'REVIEW' | 'RELEARNING';
 
+/** CLOZE cards are generated from {{c1::...}} markers in the front */
+export type CardType = 'BASIC' | 'CLOZE';
+
 export interface Card {
   id: string;
   front: string;
@@ -61,19 +214,124 @@ export interface Card {
   priority: number;
   deckId: string;
   deckTitle?: string;
+  type: CardType;
+  /** Cloze index this card asks for (CLOZE cards only) */
+  clozeIndex: number | null;
+  /** Shared by the cards generated from the same cloze text */
+  clozeGroupId: string | null;
+  /** Note the card was generated from (edit the note to change its text) */
+  noteId?: string | null;
+  /** Original card of a reverse card (edits are copied between the two) */
+  reverseOfId?: string | null;
+  /** Reverse card created along with this card, if any */
+  reverseCardId?: string | null;
   state: CardState;
   nextReview: string;
   lastReview: string | null;
   reps: number;
   lapses: number;
+  /** Set while the card is suspended */
+  suspendedAt?: string | null;
+  /** Set while the card is buried */
+  buriedUntil?: string | null;
+  /** The card's tags by name (card lists only) */
+  tags?: CardTag[];
   createdAt?: string;
 }
 
+export type CardSort = 'created' | 'due' | 'priority' | 'lapses';
+
+/** Card fields that can be selected in card lists */
+export type CardListField =
+  | 'front'
+  | 'back'
+  | 'priority'
+  | 'deckId'
+  | 'deckTitle'
+  | 'type'
+  | 'clozeIndex'
+  | 'clozeGroupId'
+  | 'noteId'
+  | 'reverseOfId'
+  | 'state'
+  | 'nextReview'
+  | 'lastReview'
+  | 'reps'
+  | 'lapses'
+  | 'suspendedAt'
+  | 'buriedUntil'
+  | 'tags'
+  | 'createdAt';
+
+export interface GetCardsOptions extends PageOptions<CardSort, CardListField> {
+  deckId?: string;
+  /** Cards with the tag or one of its descendants */
+  tagId?: string;
+  /** Cards of the filtered deck */
+  filteredDeckId?: string;
+}
+
+export interface CardAvailability {
+  id: string;
+  suspendedAt: string | null;
+  buriedUntil: string | null;
+}
+
+export type LeechAction = 'TAG' | 'SUSPEND' | 'TAG_AND_SUSPEND';
+
+export interface LeechCard {
+  id: string;
+  front: string;
+  back: string;
+  lapses: number;
+  suspendedAt: string | null;
+  /** Whether the card has the leech tag */
+  tagged: boolean;
+}
+
+export interface LeechReportDeck {
+  deckId: string;
+  deckTitle: string;
+  cards: LeechCard[];
+}
+
+/** Part of a search snippet; matches of the search are separate parts */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface CardSearchResult {
+  card: Card;
+  rank: number;
+  snippets: { front: SnippetPart[]; back: SnippetPart[] };
+}
+
+export interface SearchCardsOptions {
+  deckId?: string;
+  /** Cards with the tag or one of its descendants */
+  tagId?: string;
+  state?: CardState;
+  /** true: only cards due now; false: only cards that are not */
+  due?: boolean;
+  /** Page size (default 20, max 100) */
+  limit?: number;
+  offset?: number;
+}
+
 export interface CreateCardRequest {
   front: string;
   back: string;
   deckId: string;
   priority?: number;
+  /** CLOZE creates one card per cloze index (default: BASIC) */
+  type?: CardType;
+}
+
+export interface CreateCardResponse {
+  card: Card;
+  /** Every card created; one per cloze index for CLOZE cards */
+  cards?: Card[];
 }
 
 export interface UpdateCardRequest {
@@ -83,17 +341,247 @@ export interface UpdateCardRequest {
   priority?: number;
 }
 
+export interface UpdateCardResponse {
+  card: Card;
+  /** Cloze siblings deleted because the edit removed their cloze marker */
+  deletedCardIds: string[];
+}
+
+// =============================================================================
+// Card Revision Types
+// =============================================================================
+
+/** Client that made an edit (API: other clients) */
+export type EditSource = 'MOBILE' | 'DESKTOP' | 'API';
+
+/**
+ * A card's text after an edit. The first edit of a card also keeps the text
+ * it replaced, with no source.
+ */
+export interface CardRevision {
+  id: string;
+  front: string;
+  back: string;
+  source: EditSource | null;
+  /** Revision this one restored, if it was made by a restore */
+  restoredFromId: string | null;
+  createdAt: string;
+}
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/** Line diffs of a card's front and back */
+export interface CardRevisionDiff {
+  front: DiffLine[];
+  back: DiffLine[];
+}
+
+// =============================================================================
+// Tag Types
+// =============================================================================
+
+/**
+ * Tag grouping cards across decks. `::` separates the levels of a tag name
+ * (`lang::spanish::verbs`); filtering by a tag includes its descendants.
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  /** Number of cards with the tag */
+  cardCount: number;
+  createdAt: string;
+}
+
+/** Tag as listed on a card */
+export interface CardTag {
+  id: string;
+  name: string;
+}
+
+/** Node of the tag tree; its counts include its descendants' cards */
+export interface TagTreeNode {
+  /** Null for levels that are no tag of their own */
+  id: string | null;
+  /** Last level of the name */
+  name: string;
+  /** Full tag name */
+  path: string;
+  cardCount: number;
+  dueCount: number;
+  children: TagTreeNode[];
+}
+
+// =============================================================================
+// Note Types
+// =============================================================================
+
+/** Field values by field name */
+export type NoteFields = Record<string, string>;
+
+export interface CardTemplate {
+  name: string;
+  /** Numbered from 1 in the order of the note type's templates */
+  ordinal: number;
+  /** Template text with {{Field}} placeholders */
+  front: string;
+  back: string;
+}
+
+export interface NoteType {
+  id: string;
+  name: string;
+  fields: string[];
+  /** Stock note types (Basic, Basic and reversed) are shared by all users */
+  isStock: boolean;
+  templates: CardTemplate[];
+}
+
+export interface NoteCard {
+  id: string;
+  templateOrdinal: number | null;
+  front: string;
+  back: string;
+  state: CardState;
+  nextReview: string;
+}
+
+export interface Note {
+  id: string;
+  noteTypeId: string;
+  noteTypeName: string;
+  deckId: string;
+  fields: NoteFields;
+  cards: NoteCard[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateNoteTypeRequest {
+  name: string;
+  fields: string[];
+  templates: Omit<CardTemplate, 'ordinal'>[];
+}
+
+export interface CreateNoteRequest {
+  noteTypeId: string;
+  deckId: string;
+  fields: NoteFields;
+}
+
+// =============================================================================
+// Media Types
+// =============================================================================
+
+/**
+ * Uploaded image or audio file. Cards show it by including its markdown,
+ * ![alt](media:<id>), in their front or back.
+ */
+export interface Media {
+  id: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  filename: string | null;
+  /** Snippet to insert into a card */
+  markdown: string;
+  createdAt: string;
+}
+
 // =============================================================================
 // Review Types
 // =============================================================================
 
 export type Rating = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
 
+export interface ReviewStateBefore {
+  state: CardState | null;
+  stability: number | null;
+  difficulty: number | null;
+  elapsedDays: number | null;
+  scheduledDays: number | null;
+  reps: number | null;
+  lapses: number | null;
+  lastReview: string | null;
+  nextReviewDate: string | null;
+}
+
+export interface ReviewStateAfter {
+  state: CardState | null;
+  stability: number | null;
+  difficulty: number | null;
+  elapsedDays: number | null;
+  scheduledDays: number | null;
+  nextReviewDate: string | null;
+}
+
 export interface Review {
   id: string;
   cardId: string;
   rating: Rating;
+  sprintId: string | null;
+  durationMs: number | null;
+  /** Showing the front until revealing the answer */
+  timeToRevealMs: number | null;
+  /** Revealing the answer until rating */
+  timeToRateMs: number | null;
   createdAt: string;
+  before: ReviewStateBefore;
+  after: ReviewStateAfter;
+}
+
+/** A review in the review history, with its card */
+export interface ReviewWithCard extends Review {
+  card: Pick<Card, 'id' | 'front' | 'back'>;
+}
+
+/** Review fields that can be selected in the review history */
+export type ReviewListField =
+  | 'cardId'
+  | 'rating'
+  | 'sprintId'
+  | 'durationMs'
+  | 'timeToRevealMs'
+  | 'timeToRateMs'
+  | 'createdAt'
+  | 'before'
+  | 'after'
+  | 'card';
+
+/** The review history is sorted by creation only */
+export type GetReviewsOptions = PageOptions<'created', ReviewListField>;
+
+/** Answer times reported with a review, in milliseconds */
+export interface ReviewTiming {
+  durationMs?: number;
+  timeToRevealMs?: number;
+  timeToRateMs?: number;
+}
+
+/** Average answer times (null when no review reported that time) */
+export interface TimingAverages {
+  reviewCount: number;
+  averageSeconds: number | null;
+  averageRevealSeconds: number | null;
+  averageRateSeconds: number | null;
+}
+
+export interface ReviewTimingStats {
+  overall: TimingAverages;
+  /** Slowest decks first */
+  byDeck: Array<TimingAverages & { deckId: string; deckTitle: string }>;
+  byState: Array<TimingAverages & { state: CardState }>;
+  /** Slowest cards first */
+  slowestCards: Array<
+    TimingAverages & {
+      cardId: string;
+      front: string;
+      deckId: string;
+      deckTitle: string;
+    }
+  >;
 }
 
 // =============================================================================
@@ -102,6 +590,8 @@ export interface Review {
 
 export type SprintStatus = 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'ABANDONED';
 export type SprintSource = 'HOME' | 'DECK' | 'PUSH';
+/** CRAM reviews a deck's cards whether due or not, without rescheduling */
+export type SprintMode = 'REVIEW' | 'CRAM';
 export type CardResult = 'PASS' | 'FAIL' | 'SKIP';
 
 export interface SprintProgress {
@@ -117,11 +607,22 @@ export interface CardInSprint {
   priority: number;
   deckId: string;
   deckTitle?: string;
+  type: CardType;
+  clozeIndex: number | null;
   state: string;
   nextReviewDate: string;
   snoozedUntil: string | null;
+  /** Current probability of recall (null for new cards) */
+  retrievability: number | null;
+  /**
+   * Next interval in minutes for each rating (null in CRAM sprints, whose
+   * ratings don't reschedule the card)
+   */
+  intervalPreview: IntervalPreview | null;
 }
 
+export type IntervalPreview = Record<Rating, number>;
+
 export interface SprintCard {
   id: string;
   order: number;
@@ -134,6 +635,7 @@ export interface Sprint {
   id: string;
   status: SprintStatus;
   source: SprintSource;
+  mode: SprintMode;
   deckId: string | null;
   deckTitle: string | null;
   createdAt: string;
@@ -185,6 +687,17 @@ export interface NotificationPreferences {
   hasPushToken: boolean;
   lastPushSentAt: string | null;
   notificationsCountToday: number;
+  learningSteps: number[];
+  relearningSteps: number[];
+  /** Spread due dates with interval fuzz and load balancing */
+  enableFuzz: boolean;
+  /** Lapses at which a card becomes a leech */
+  leechThreshold: number;
+  leechAction: LeechAction;
+  /** New cards introduced per day, across all decks */
+  newCardsPerDay: number;
+  /** Reviews per day, across all decks */
+  reviewsPerDay: number;
 }
 
 export interface UpdateNotificationPreferencesRequest {
@@ -194,6 +707,13 @@ export interface UpdateNotificationPreferencesRequest {
   quietHoursStart?: string;
   quietHoursEnd?: string;
   sprintSize?: number;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  enableFuzz?: boolean;
+  leechThreshold?: number;
+  leechAction?: LeechAction;
+  newCardsPerDay?: number;
+  reviewsPerDay?: number;
 }
 
 // =============================================================================
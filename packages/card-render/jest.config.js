@@ -0,0 +1,12 @@
+const baseConfig = require('../../jest.config.base.js');
+
+/** @type {import('jest').Config} */
+const config = {
+  ...baseConfig,
+  displayName: 'card-render',
+  rootDir: '.',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+};
+
+module.exports = config;
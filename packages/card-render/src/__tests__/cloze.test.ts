@@ -0,0 +1,69 @@
+import { getClozeIndices, hasClozeMarkers } from '../cloze';
+import { renderCardHtml } from '../html';
+import { parseCard } from '../parse';
+
+const source = '{{c1::Paris}} is the capital of {{c2::France::country}}';
+
+describe('getClozeIndices', () => {
+  it('returns distinct indices in ascending order', () => {
+    expect(getClozeIndices('{{c2::a}} {{c1::b}} {{c2::c}}')).toEqual([1, 2]);
+    expect(hasClozeMarkers('No markers')).toBe(false);
+  });
+});
+
+describe('cloze rendering', () => {
+  it('blanks the asked index and shows the others', () => {
+    expect(
+      renderCardHtml(source, { cloze: { index: 1, revealed: false } }),
+    ).toBe(
+      '<p><span class="cloze cloze-blank">[...]</span> is the capital of France</p>',
+    );
+    expect(
+      renderCardHtml(source, { cloze: { index: 2, revealed: false } }),
+    ).toBe(
+      '<p>Paris is the capital of <span class="cloze cloze-blank">[country]</span></p>',
+    );
+  });
+
+  it('highlights the answer once revealed', () => {
+    expect(
+      renderCardHtml(source, { cloze: { index: 2, revealed: true } }),
+    ).toBe(
+      '<p>Paris is the capital of <span class="cloze cloze-answer">France</span></p>',
+    );
+  });
+
+  it('parses formatting inside and around markers', () => {
+    const root = parseCard('**{{c1::*Paris*}}** and {{c2::$x^2$}}', {
+      cloze: { index: 1, revealed: true },
+    });
+
+    expect(root.children[0]).toEqual({
+      type: 'paragraph',
+      children: [
+        {
+          type: 'strong',
+          children: [
+            {
+              type: 'cloze',
+              revealed: true,
+              hint: null,
+              children: [
+                {
+                  type: 'emphasis',
+                  children: [{ type: 'text', value: 'Paris' }],
+                },
+              ],
+            },
+          ],
+        },
+        { type: 'text', value: ' and ' },
+        { type: 'inlineMath', value: 'x^2', display: false },
+      ],
+    });
+  });
+
+  it('leaves markers as text without a cloze view', () => {
+    expect(renderCardHtml('{{c1::Paris}}')).toBe('<p>{{c1::Paris}}</p>');
+  });
+});
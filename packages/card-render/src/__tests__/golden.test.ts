@@ -0,0 +1,35 @@
+/**
+ * Golden-file tests: each fixtures/<name>.md renders to fixtures/<name>.html.
+ *
+ * After an intended output change, regenerate the golden files with
+ * `UPDATE_GOLDEN=1 pnpm --filter @microflash/card-render test` and review
+ * the diff.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { renderCardHtml } from '../html';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const update = process.env.UPDATE_GOLDEN === '1';
+
+const fixtures = fs
+  .readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith('.md'))
+  .map((file) => path.basename(file, '.md'));
+
+describe('golden files', () => {
+  it.each(fixtures)('%s', (name) => {
+    const markdown = fs.readFileSync(
+      path.join(FIXTURES_DIR, `${name}.md`),
+      'utf8',
+    );
+    const goldenPath = path.join(FIXTURES_DIR, `${name}.html`);
+    const html = `${renderCardHtml(markdown)}\n`;
+
+    if (update) {
+      fs.writeFileSync(goldenPath, html);
+    }
+    expect(html).toBe(fs.readFileSync(goldenPath, 'utf8'));
+  });
+});
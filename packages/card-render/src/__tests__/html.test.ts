@@ -0,0 +1,36 @@
+import { renderCardHtml, sanitizeUrl } from '../html';
+
+describe('sanitizeUrl', () => {
+  const protocols = ['http:', 'https:'];
+
+  it('allows listed protocols and relative URLs', () => {
+    expect(sanitizeUrl(' https://example.com ', protocols)).toBe(
+      'https://example.com',
+    );
+    expect(sanitizeUrl('/docs', protocols)).toBe('/docs');
+  });
+
+  it('rejects other protocols, however they are written', () => {
+    expect(sanitizeUrl('javascript:alert(1)', protocols)).toBeNull();
+    expect(sanitizeUrl('JavaScript:alert(1)', protocols)).toBeNull();
+    expect(sanitizeUrl('java\nscript:alert(1)', protocols)).toBeNull();
+    expect(sanitizeUrl('data:text/html,x', protocols)).toBeNull();
+  });
+});
+
+describe('renderCardHtml', () => {
+  it('typesets math with renderMath when given', () => {
+    const renderMath = (tex: string, display: boolean) =>
+      `<math display="${display ? 'block' : 'inline'}">${tex}</math>`;
+
+    expect(renderCardHtml('$x$\n\n$$\ny\n$$', { renderMath })).toBe(
+      '<p><math display="inline">x</math></p>\n' +
+        '<div class="math-block"><math display="block">y</math></div>',
+    );
+  });
+
+  it('renders nothing for empty content', () => {
+    expect(renderCardHtml('')).toBe('');
+    expect(renderCardHtml('\n  \n')).toBe('');
+  });
+});
@@ -0,0 +1,40 @@
+import { renderCardHtml } from '../html';
+import { getMediaId, getMediaIds } from '../media';
+
+describe('getMediaIds', () => {
+  it('returns each referenced media once', () => {
+    expect(
+      getMediaIds('![a](media:abc) text ![](media:def) ![b](media:abc)'),
+    ).toEqual(['abc', 'def']);
+    expect(getMediaIds('[link](https://example.com)')).toEqual([]);
+  });
+});
+
+describe('getMediaId', () => {
+  it('only accepts media: URLs', () => {
+    expect(getMediaId('media:abc123')).toBe('abc123');
+    expect(getMediaId('https://example.com/media:abc')).toBeNull();
+  });
+});
+
+describe('media rendering', () => {
+  const media = {
+    img1: { uri: 'data:image/png;base64,AAA', mimeType: 'image/png' },
+    snd1: { uri: 'data:audio/mpeg;base64,BBB', mimeType: 'audio/mpeg' },
+  };
+
+  it('renders images and audio by type', () => {
+    expect(renderCardHtml('![heart](media:img1)', { media })).toBe(
+      '<p><img class="media-image" src="data:image/png;base64,AAA" alt="heart"></p>',
+    );
+    expect(renderCardHtml('![](media:snd1)', { media })).toBe(
+      '<p><audio class="media-audio" controls src="data:audio/mpeg;base64,BBB"></audio></p>',
+    );
+  });
+
+  it('shows the alt text of media that has not loaded', () => {
+    expect(renderCardHtml('![heart](media:other)', { media })).toBe(
+      '<p><span class="media-missing">heart</span></p>',
+    );
+  });
+});
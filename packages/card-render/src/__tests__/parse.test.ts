@@ -0,0 +1,65 @@
+import { someNode } from '../ast';
+import { parseCard } from '../parse';
+
+describe('parseCard', () => {
+  it('parses blocks into the render AST', () => {
+    expect(
+      parseCard('# Title\n\n1. One\n2. ![cat](media:abc)\n\n$$\nx^2\n$$'),
+    ).toEqual({
+      type: 'root',
+      children: [
+        {
+          type: 'heading',
+          depth: 1,
+          children: [{ type: 'text', value: 'Title' }],
+        },
+        {
+          type: 'list',
+          ordered: true,
+          start: 1,
+          spread: false,
+          children: [
+            {
+              type: 'listItem',
+              children: [
+                {
+                  type: 'paragraph',
+                  children: [{ type: 'text', value: 'One' }],
+                },
+              ],
+            },
+            {
+              type: 'listItem',
+              children: [
+                {
+                  type: 'paragraph',
+                  children: [{ type: 'media', mediaId: 'abc', alt: 'cat' }],
+                },
+              ],
+            },
+          ],
+        },
+        { type: 'math', value: 'x^2' },
+      ],
+    });
+  });
+
+  it('keeps line breaks inside paragraphs', () => {
+    expect(parseCard('a\nb').children[0]).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'text', value: 'a' },
+        { type: 'break' },
+        { type: 'text', value: 'b' },
+      ],
+    });
+  });
+});
+
+describe('someNode', () => {
+  it('finds nested nodes', () => {
+    const root = parseCard('- **$x$**');
+    expect(someNode(root, (node) => node.type === 'inlineMath')).toBe(true);
+    expect(someNode(root, (node) => node.type === 'media')).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { getCursorSide, joinCardMarkdown, splitCardMarkdown } from '../split';
+
+describe('splitCardMarkdown', () => {
+  it('splits at the first separator line', () => {
+    expect(splitCardMarkdown('Front\n---\nBack\n---\nMore')).toEqual({
+      front: 'Front',
+      back: 'Back\n---\nMore',
+      hasSeparator: true,
+      separatorIndex: 5,
+    });
+  });
+
+  it('treats content without a separator as front only', () => {
+    expect(splitCardMarkdown('Front\r\n--- not a separator')).toEqual({
+      front: 'Front\n--- not a separator',
+      back: '',
+      hasSeparator: false,
+      separatorIndex: null,
+    });
+  });
+});
+
+describe('joinCardMarkdown', () => {
+  it('round-trips with splitCardMarkdown', () => {
+    const joined = joinCardMarkdown('Q', 'A');
+    expect(joined).toBe('Q\n---\nA');
+    expect(splitCardMarkdown(joined)).toMatchObject({ front: 'Q', back: 'A' });
+  });
+
+  it('leaves out the separator without a back', () => {
+    expect(joinCardMarkdown('Q', '  ')).toBe('Q');
+  });
+});
+
+describe('getCursorSide', () => {
+  it('puts the separator line with the front', () => {
+    expect(getCursorSide(5, 5)).toBe('front');
+    expect(getCursorSide(6, 5)).toBe('back');
+    expect(getCursorSide(100, null)).toBe('front');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Render AST
+ *
+ * The parsed form of one side of a card. Node names follow mdast where the
+ * concept exists there; math, media and cloze nodes are card specific.
+ * Text values are unescaped source text: renderers must escape them.
+ */
+
+// =============================================================================
+// Inline Nodes
+// =============================================================================
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface EmphasisNode {
+  type: 'emphasis';
+  children: InlineNode[];
+}
+
+export interface StrongNode {
+  type: 'strong';
+  children: InlineNode[];
+}
+
+export interface InlineCodeNode {
+  type: 'inlineCode';
+  value: string;
+}
+
+/**
+ * Math inside a line: `$...$` or `\(...\)`, or display math written inline
+ * (`$$...$$` or `\[...\]`).
+ */
+export interface InlineMathNode {
+  type: 'inlineMath';
+  /** TeX source */
+  value: string;
+  display: boolean;
+}
+
+export interface LinkNode {
+  type: 'link';
+  url: string;
+  title: string | null;
+  children: InlineNode[];
+}
+
+/**
+ * Image with an external URL.
+ */
+export interface ImageNode {
+  type: 'image';
+  url: string;
+  alt: string;
+  title: string | null;
+}
+
+/**
+ * Uploaded image or audio: `![alt](media:<id>)`. Whether it shows as an
+ * image or an audio player depends on the media's type.
+ */
+export interface MediaNode {
+  type: 'media';
+  mediaId: string;
+  alt: string;
+}
+
+/**
+ * Cloze marker of the index a card asks for (markers of other indices are
+ * parsed as their answer). Blanked until revealed.
+ */
+export interface ClozeNode {
+  type: 'cloze';
+  revealed: boolean;
+  /** Shown in the blank instead of "..." */
+  hint: string | null;
+  /** The answer (empty until revealed) */
+  children: InlineNode[];
+}
+
+/**
+ * Line break. Every newline inside a paragraph is one.
+ */
+export interface BreakNode {
+  type: 'break';
+}
+
+export type InlineNode =
+  | TextNode
+  | EmphasisNode
+  | StrongNode
+  | InlineCodeNode
+  | InlineMathNode
+  | LinkNode
+  | ImageNode
+  | MediaNode
+  | ClozeNode
+  | BreakNode;
+
+// =============================================================================
+// Block Nodes
+// =============================================================================
+
+export interface ParagraphNode {
+  type: 'paragraph';
+  children: InlineNode[];
+}
+
+export interface HeadingNode {
+  type: 'heading';
+  depth: 1 | 2 | 3 | 4 | 5 | 6;
+  children: InlineNode[];
+}
+
+export interface ListNode {
+  type: 'list';
+  ordered: boolean;
+  /** Number of the first item of ordered lists */
+  start: number | null;
+  /** Whether items are separated by blank lines (paragraphs show as such) */
+  spread: boolean;
+  children: ListItemNode[];
+}
+
+export interface ListItemNode {
+  type: 'listItem';
+  children: BlockNode[];
+}
+
+export interface BlockquoteNode {
+  type: 'blockquote';
+  children: BlockNode[];
+}
+
+/**
+ * Fenced code block.
+ */
+export interface CodeNode {
+  type: 'code';
+  lang: string | null;
+  value: string;
+}
+
+/**
+ * Display math on lines of its own (`$$` or `\[` ... `\]`).
+ */
+export interface MathNode {
+  type: 'math';
+  /** TeX source */
+  value: string;
+}
+
+export interface ThematicBreakNode {
+  type: 'thematicBreak';
+}
+
+export type BlockNode =
+  | ParagraphNode
+  | HeadingNode
+  | ListNode
+  | BlockquoteNode
+  | CodeNode
+  | MathNode
+  | ThematicBreakNode;
+
+export interface RootNode {
+  type: 'root';
+  children: BlockNode[];
+}
+
+export type CardNode = RootNode | BlockNode | ListItemNode | InlineNode;
+
+/**
+ * Get the child nodes of a node.
+ */
+export function getChildren(node: CardNode): CardNode[] {
+  return 'children' in node ? node.children : [];
+}
+
+/**
+ * Check whether a node or any of its descendants matches a predicate.
+ */
+export function someNode(
+  node: CardNode,
+  predicate: (node: CardNode) => boolean,
+): boolean {
+  return (
+    predicate(node) ||
+    getChildren(node).some((child) => someNode(child, predicate))
+  );
+}
+
+/**
+ * Get the text of inline nodes without formatting (e.g. for image alt text).
+ */
+export function toPlainText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'inlineCode':
+        case 'inlineMath':
+          return node.value;
+        case 'image':
+        case 'media':
+          return node.alt;
+        case 'break':
+          return '\n';
+        case 'cloze':
+          return node.revealed
+            ? toPlainText(node.children)
+            : `[${node.hint ?? '...'}]`;
+        default:
+          return toPlainText(node.children);
+      }
+    })
+    .join('');
+}
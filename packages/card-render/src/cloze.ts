@@ -0,0 +1,46 @@
+/**
+ * Cloze Marker Utilities
+ *
+ * Cloze cards share one source text with markers such as
+ * `{{c1::Paris}}` or `{{c1::Paris::city}}` (with a hint). Each card asks for
+ * one cloze index: its markers are blanked on the question side and
+ * highlighted once revealed. Markers of other indices show their answer.
+ * Parsing a card for a cloze view turns markers into cloze nodes.
+ */
+
+const CLOZE_MARKER = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * Matches a cloze marker at a given position (set lastIndex first).
+ * Groups: index, answer, hint.
+ */
+export const CLOZE_MARKER_AT = new RegExp(CLOZE_MARKER.source, 'y');
+
+/**
+ * Cloze index to render, and whether its answer is revealed
+ */
+export interface ClozeView {
+  index: number;
+  revealed: boolean;
+}
+
+/**
+ * Get the distinct cloze indices used in a text, in ascending order.
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_MARKER)) {
+    const index = Number(match[1]);
+    if (index > 0) {
+      indices.add(index);
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Check whether a text contains any cloze markers.
+ */
+export function hasClozeMarkers(text: string): boolean {
+  return getClozeIndices(text).length > 0;
+}
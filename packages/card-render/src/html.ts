@@ -0,0 +1,204 @@
+/**
+ * HTML Renderer
+ *
+ * Renders the render AST to HTML. The output is safe to insert into a page
+ * as is:
+ * - All text is escaped; markdown can't produce raw HTML.
+ * - Links only keep http(s), mailto and relative URLs; images only http(s).
+ *   Others render as their text.
+ *
+ * Math is output as its escaped TeX in `.math-inline` / `.math-display`
+ * elements for the client to typeset, unless a renderMath function is given.
+ */
+
+import type { BlockNode, InlineNode, RootNode } from './ast';
+import type { MediaSource } from './media';
+import { parseCard, type ParseOptions } from './parse';
+
+export interface HtmlRenderOptions {
+  /** Loaded media by ID; references to other media show their alt text */
+  media?: Record<string, MediaSource>;
+  /**
+   * Typeset TeX. Its output is inserted without escaping, so it must be
+   * safe HTML (e.g. KaTeX output).
+   */
+  renderMath?: (tex: string, display: boolean) => string;
+}
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const SAFE_IMAGE_PROTOCOLS = ['http:', 'https:'];
+const SCHEME = /^([a-z][a-z0-9+.-]*:)/i;
+
+/**
+ * Escape text for use in HTML content and attribute values.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Check a URL against allowed protocols. URLs without a protocol are
+ * relative and allowed.
+ *
+ * @returns The URL, or null if it isn't allowed
+ */
+export function sanitizeUrl(url: string, protocols: string[]): string | null {
+  // Browsers ignore control characters and whitespace in the scheme
+  // ("java\tscript:")
+  const compact = url.replace(/[\u0000- ]/g, '');
+  const scheme = SCHEME.exec(compact)?.[1].toLowerCase();
+  if (scheme === undefined || protocols.includes(scheme)) {
+    return url.trim();
+  }
+  return null;
+}
+
+function renderMath(
+  tex: string,
+  display: boolean,
+  options: HtmlRenderOptions,
+): string {
+  if (options.renderMath) {
+    return options.renderMath(tex, display);
+  }
+  return display
+    ? `<span class="math math-display">${escapeHtml(tex)}</span>`
+    : `<span class="math math-inline">${escapeHtml(tex)}</span>`;
+}
+
+function renderInline(nodes: InlineNode[], options: HtmlRenderOptions): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.value);
+        case 'emphasis':
+          return `<em>${renderInline(node.children, options)}</em>`;
+        case 'strong':
+          return `<strong>${renderInline(node.children, options)}</strong>`;
+        case 'inlineCode':
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case 'inlineMath':
+          return renderMath(node.value, node.display, options);
+        case 'break':
+          return '<br>\n';
+        case 'link': {
+          const children = renderInline(node.children, options);
+          const url = sanitizeUrl(node.url, SAFE_LINK_PROTOCOLS);
+          if (url === null) {
+            return children;
+          }
+          const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+          return `<a href="${escapeHtml(url)}"${title} rel="noopener noreferrer">${children}</a>`;
+        }
+        case 'image': {
+          const url = sanitizeUrl(node.url, SAFE_IMAGE_PROTOCOLS);
+          if (url === null) {
+            return escapeHtml(node.alt);
+          }
+          const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+          return `<img src="${escapeHtml(url)}" alt="${escapeHtml(node.alt)}"${title}>`;
+        }
+        case 'media': {
+          const source = options.media?.[node.mediaId];
+          if (!source) {
+            return `<span class="media-missing">${escapeHtml(node.alt || 'media')}</span>`;
+          }
+          if (source.mimeType.startsWith('audio/')) {
+            return `<audio class="media-audio" controls src="${escapeHtml(source.uri)}"></audio>`;
+          }
+          return `<img class="media-image" src="${escapeHtml(source.uri)}" alt="${escapeHtml(node.alt)}">`;
+        }
+        case 'cloze':
+          return node.revealed
+            ? `<span class="cloze cloze-answer">${renderInline(node.children, options)}</span>`
+            : `<span class="cloze cloze-blank">[${escapeHtml(node.hint ?? '...')}]</span>`;
+      }
+    })
+    .join('');
+}
+
+function renderBlock(
+  node: BlockNode,
+  options: HtmlRenderOptions,
+  tight = false,
+): string {
+  switch (node.type) {
+    case 'paragraph': {
+      const content = renderInline(node.children, options);
+      return tight ? content : `<p>${content}</p>`;
+    }
+    case 'heading':
+      return `<h${node.depth}>${renderInline(node.children, options)}</h${node.depth}>`;
+    case 'thematicBreak':
+      return '<hr>';
+    case 'code': {
+      const lang = node.lang
+        ? ` class="language-${escapeHtml(node.lang)}"`
+        : '';
+      return `<pre><code${lang}>${escapeHtml(node.value)}</code></pre>`;
+    }
+    case 'math':
+      return options.renderMath
+        ? `<div class="math-block">${options.renderMath(node.value, true)}</div>`
+        : `<div class="math math-display">${escapeHtml(node.value)}</div>`;
+    case 'blockquote':
+      return `<blockquote>\n${renderBlocks(node.children, options)}\n</blockquote>`;
+    case 'list': {
+      const tag = node.ordered ? 'ol' : 'ul';
+      const start =
+        node.ordered && node.start !== null && node.start !== 1
+          ? ` start="${node.start}"`
+          : '';
+      const items = node.children.map((item) => {
+        const content = item.children
+          .map((child) => renderBlock(child, options, !node.spread))
+          .join('\n');
+        // Block content goes on lines of its own, tight text inline
+        const first = item.children[0];
+        const inlineStart = !node.spread && first?.type === 'paragraph';
+        const last = item.children[item.children.length - 1];
+        const inlineEnd = !node.spread && last?.type === 'paragraph';
+        return `<li>${inlineStart ? '' : '\n'}${content}${inlineEnd || content === '' ? '' : '\n'}</li>`;
+      });
+      return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+    }
+  }
+}
+
+function renderBlocks(nodes: BlockNode[], options: HtmlRenderOptions): string {
+  return nodes.map((node) => renderBlock(node, options)).join('\n');
+}
+
+/**
+ * Render a parsed card side to HTML.
+ *
+ * @param root - Parsed card side (see parseCard)
+ * @param options - Render options
+ * @returns Sanitized HTML
+ */
+export function renderHtml(
+  root: RootNode,
+  options: HtmlRenderOptions = {},
+): string {
+  return renderBlocks(root.children, options);
+}
+
+/**
+ * Parse and render one side of a card to HTML.
+ *
+ * @param markdown - Card markdown (front or back)
+ * @param options - Parse and render options
+ * @returns Sanitized HTML
+ */
+export function renderCardHtml(
+  markdown: string,
+  options: ParseOptions & HtmlRenderOptions = {},
+): string {
+  return renderHtml(parseCard(markdown, options), options);
+}
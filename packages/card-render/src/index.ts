@@ -0,0 +1,66 @@
+/**
+ * @microflash/card-render
+ *
+ * Card rendering shared by the mobile and desktop apps: splits card
+ * markdown into front and back, parses a side into a render AST, and
+ * renders it to sanitized HTML.
+ */
+
+// Render AST
+export type {
+  TextNode,
+  EmphasisNode,
+  StrongNode,
+  InlineCodeNode,
+  InlineMathNode,
+  LinkNode,
+  ImageNode,
+  MediaNode,
+  ClozeNode,
+  BreakNode,
+  InlineNode,
+  ParagraphNode,
+  HeadingNode,
+  ListNode,
+  ListItemNode,
+  BlockquoteNode,
+  CodeNode,
+  MathNode,
+  ThematicBreakNode,
+  BlockNode,
+  RootNode,
+  CardNode,
+} from './ast';
+export { getChildren, someNode, toPlainText } from './ast';
+
+// Parsing
+export { parseCard, type ParseOptions } from './parse';
+export { parseInline, type InlineParseOptions } from './inline';
+
+// HTML
+export {
+  renderHtml,
+  renderCardHtml,
+  escapeHtml,
+  sanitizeUrl,
+  type HtmlRenderOptions,
+} from './html';
+
+// Front/back split
+export {
+  splitCardMarkdown,
+  joinCardMarkdown,
+  getCursorSide,
+  type CardMarkdownParts,
+} from './split';
+
+// Cloze markers
+export { getClozeIndices, hasClozeMarkers, type ClozeView } from './cloze';
+
+// Media references
+export {
+  getMediaId,
+  getMediaIds,
+  hasMediaReferences,
+  type MediaSource,
+} from './media';
@@ -0,0 +1,585 @@
+/**
+ * Inline Parser
+ *
+ * Parses the text of a paragraph or heading into inline nodes. Code spans,
+ * links, images and emphasis follow CommonMark, including its delimiter run
+ * rules, so nested formatting (`**bold *and italic***`) and intraword
+ * underscores (`snake_case`) come out right. On top of that:
+ * - Math: `$...$` and `\(...\)` inline, `$$...$$` and `\[...\]` display.
+ *   Math is kept verbatim, so TeX is never mistaken for markdown.
+ * - Cloze markers, when parsing for a cloze view.
+ * - Every newline is a line break.
+ *
+ * Raw HTML is not supported: it stays text (and is escaped when rendered).
+ */
+
+import type { InlineNode, TextNode } from './ast';
+import { toPlainText } from './ast';
+import { CLOZE_MARKER_AT, type ClozeView } from './cloze';
+import { getMediaId } from './media';
+
+export interface InlineParseOptions {
+  /** Parse cloze markers for this view (otherwise they stay text) */
+  cloze?: ClozeView;
+}
+
+/**
+ * A run of `*` or `_` that may open or close emphasis.
+ */
+interface Delimiter {
+  type: 'delimiter';
+  char: '*' | '_';
+  /** Characters left in the run */
+  count: number;
+  /** Length of the run as written (for the "rule of 3") */
+  length: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+/**
+ * An opening `[` or `![` waiting for its `]`.
+ */
+interface Bracket {
+  type: 'bracket';
+  image: boolean;
+  /** Cleared for link brackets once a link closes (links can't nest) */
+  active: boolean;
+}
+
+type Item = InlineNode | Delimiter | Bracket;
+
+const ASCII_PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const WHITESPACE = /\s/;
+const AUTOLINK = /<((?:https?|mailto):[^\s<>]*)>/y;
+/** Characters that may start something other than plain text */
+const SPECIAL = /[\\`$*_![\]<\n{]/;
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || WHITESPACE.test(char);
+}
+
+function isPunctuation(char: string | undefined): boolean {
+  return char !== undefined && PUNCTUATION.test(char);
+}
+
+/**
+ * Find the end of math starting at `start`, skipping TeX escapes (`\$`).
+ *
+ * @returns Index of the closing delimiter, or -1
+ */
+function findMathEnd(text: string, start: number, close: string): number {
+  for (let i = start; i < text.length; i++) {
+    if (text.startsWith(close, i)) {
+      return i;
+    }
+    if (text[i] === '\\' && close !== '\\)' && close !== '\\]') {
+      i++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the closing `$` of single-dollar math. Like Pandoc, the math must not
+ * start or end with whitespace and the closing `$` must not be followed by
+ * a digit, so prices ("$5 and $10") stay text.
+ */
+function findDollarMathEnd(text: string, start: number): number {
+  if (isWhitespace(text[start]) || text[start] === '$') {
+    return -1;
+  }
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '$') {
+      const closes =
+        !isWhitespace(text[i - 1]) && !/\d/.test(text[i + 1] ?? '');
+      return closes ? i : -1;
+    } else if (text[i] === '\n' && text[i + 1] === '\n') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove backslash escapes of ASCII punctuation.
+ */
+function unescape(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+/**
+ * Parse a link destination and optional title after `](`.
+ *
+ * @returns The URL, title and index after the closing `)`, or null
+ */
+function parseLinkTarget(
+  text: string,
+  start: number,
+): { url: string; title: string | null; end: number } | null {
+  let i = start;
+  const skipSpace = () => {
+    while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+  };
+
+  skipSpace();
+  let url: string;
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i + 1);
+    if (close === -1 || text.slice(i + 1, close).includes('\n')) {
+      return null;
+    }
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    const urlStart = i;
+    let depth = 0;
+    while (i < text.length && !/[\s]/.test(text[i])) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        i += 2;
+        continue;
+      }
+      if (text[i] === '(') depth++;
+      if (text[i] === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      i++;
+    }
+    url = text.slice(urlStart, i);
+  }
+
+  const beforeTitle = i;
+  skipSpace();
+  let title: string | null = null;
+  const quote = text[i];
+  if (i > beforeTitle && (quote === '"' || quote === "'" || quote === '(')) {
+    const closeQuote = quote === '(' ? ')' : quote;
+    const close = text.indexOf(closeQuote, i + 1);
+    if (close === -1) {
+      return null;
+    }
+    title = unescape(text.slice(i + 1, close));
+    i = close + 1;
+    skipSpace();
+  }
+
+  if (text[i] !== ')') {
+    return null;
+  }
+  return { url: unescape(url), title, end: i + 1 };
+}
+
+/**
+ * Turn a leftover delimiter or bracket into text.
+ */
+function toTextNode(item: Delimiter | Bracket): TextNode {
+  if (item.type === 'delimiter') {
+    return { type: 'text', value: item.char.repeat(item.count) };
+  }
+  return { type: 'text', value: item.image ? '![' : '[' };
+}
+
+/**
+ * Match emphasis delimiters (CommonMark's "process emphasis") and turn the
+ * items into nodes. Unmatched delimiters and brackets become text.
+ */
+function processEmphasis(items: Item[]): InlineNode[] {
+  let closerIndex = 0;
+  while (closerIndex < items.length) {
+    const closer = items[closerIndex];
+    if (closer.type !== 'delimiter' || !closer.canClose) {
+      closerIndex++;
+      continue;
+    }
+
+    let openerIndex = closerIndex - 1;
+    for (; openerIndex >= 0; openerIndex--) {
+      const opener = items[openerIndex];
+      if (
+        opener.type === 'delimiter' &&
+        opener.char === closer.char &&
+        opener.canOpen
+      ) {
+        // "Rule of 3": a run that can both open and close only matches
+        // runs whose combined length isn't a multiple of 3
+        const both = opener.canClose || closer.canOpen;
+        if (
+          !both ||
+          (opener.length + closer.length) % 3 !== 0 ||
+          (opener.length % 3 === 0 && closer.length % 3 === 0)
+        ) {
+          break;
+        }
+      }
+    }
+
+    if (openerIndex < 0) {
+      closerIndex++;
+      continue;
+    }
+
+    const opener = items[openerIndex] as Delimiter;
+    const used = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const children = items
+      .slice(openerIndex + 1, closerIndex)
+      .map((item) =>
+        item.type === 'delimiter' || item.type === 'bracket'
+          ? toTextNode(item)
+          : item,
+      );
+    const node: InlineNode = {
+      type: used === 2 ? 'strong' : 'emphasis',
+      children: mergeText(children),
+    };
+
+    opener.count -= used;
+    closer.count -= used;
+    items.splice(openerIndex + 1, closerIndex - openerIndex - 1, node);
+    closerIndex = openerIndex + 2;
+
+    if (opener.count === 0) {
+      items.splice(openerIndex, 1);
+      closerIndex--;
+    }
+    if (closer.count === 0) {
+      items.splice(closerIndex, 1);
+    }
+  }
+
+  return mergeText(
+    items.map((item) =>
+      item.type === 'delimiter' || item.type === 'bracket'
+        ? toTextNode(item)
+        : item,
+    ),
+  );
+}
+
+/**
+ * Merge adjacent text nodes and drop empty ones.
+ */
+function mergeText(nodes: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = [];
+  for (const node of nodes) {
+    const last = merged[merged.length - 1];
+    if (node.type === 'text') {
+      if (node.value === '') continue;
+      if (last?.type === 'text') {
+        merged[merged.length - 1] = {
+          type: 'text',
+          value: last.value + node.value,
+        };
+        continue;
+      }
+    }
+    merged.push(node);
+  }
+  return merged;
+}
+
+/**
+ * Parse inline markdown.
+ *
+ * @param text - Text of a paragraph or heading
+ * @param options - Parse options
+ * @returns Inline nodes
+ */
+export function parseInline(
+  text: string,
+  options: InlineParseOptions = {},
+): InlineNode[] {
+  const items: Item[] = [];
+  let pos = 0;
+
+  const pushText = (value: string) => {
+    items.push({ type: 'text', value });
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+
+    // Plain text up to the next special character
+    if (!SPECIAL.test(char)) {
+      let end = pos + 1;
+      while (end < text.length && !SPECIAL.test(text[end])) end++;
+      pushText(text.slice(pos, end));
+      pos = end;
+      continue;
+    }
+
+    switch (char) {
+      case '\\': {
+        const next = text[pos + 1];
+        if (next === '(' || next === '[') {
+          const close = next === '(' ? '\\)' : '\\]';
+          const end = findMathEnd(text, pos + 2, close);
+          if (end !== -1) {
+            items.push({
+              type: 'inlineMath',
+              value: text.slice(pos + 2, end).trim(),
+              display: next === '[',
+            });
+            pos = end + 2;
+            continue;
+          }
+        }
+        if (next === '\n') {
+          // Escaped newline: a break like any other newline
+          pos++;
+          continue;
+        }
+        if (next !== undefined && ASCII_PUNCTUATION.test(next)) {
+          pushText(next);
+          pos += 2;
+          continue;
+        }
+        pushText('\\');
+        pos++;
+        continue;
+      }
+
+      case '`': {
+        let runEnd = pos;
+        while (text[runEnd] === '`') runEnd++;
+        const fence = text.slice(pos, runEnd);
+
+        // Find a closing run of exactly the same length
+        let search = runEnd;
+        let close = -1;
+        while ((search = text.indexOf(fence, search)) !== -1) {
+          let end = search + fence.length;
+          if (text[end] !== '`' && text[search - 1] !== '`') {
+            close = search;
+            break;
+          }
+          while (text[end] === '`') end++;
+          search = end;
+        }
+
+        if (close === -1) {
+          pushText(fence);
+          pos = runEnd;
+          continue;
+        }
+
+        let value = text.slice(runEnd, close).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(value)) {
+          value = value.slice(1, -1);
+        }
+        items.push({ type: 'inlineCode', value });
+        pos = close + fence.length;
+        continue;
+      }
+
+      case '$': {
+        if (text[pos + 1] === '$') {
+          const end = findMathEnd(text, pos + 2, '$$');
+          if (end > pos + 2) {
+            items.push({
+              type: 'inlineMath',
+              value: text.slice(pos + 2, end).trim(),
+              display: true,
+            });
+            pos = end + 2;
+            continue;
+          }
+          pushText('$$');
+          pos += 2;
+          continue;
+        }
+        const end = findDollarMathEnd(text, pos + 1);
+        if (end !== -1) {
+          items.push({
+            type: 'inlineMath',
+            value: text.slice(pos + 1, end),
+            display: false,
+          });
+          pos = end + 1;
+          continue;
+        }
+        pushText('$');
+        pos++;
+        continue;
+      }
+
+      case '*':
+      case '_': {
+        let end = pos;
+        while (text[end] === char) end++;
+        const before = text[pos - 1];
+        const after = text[end];
+
+        const leftFlanking =
+          !isWhitespace(after) &&
+          (!isPunctuation(after) ||
+            isWhitespace(before) ||
+            isPunctuation(before));
+        const rightFlanking =
+          !isWhitespace(before) &&
+          (!isPunctuation(before) ||
+            isWhitespace(after) ||
+            isPunctuation(after));
+
+        items.push({
+          type: 'delimiter',
+          char,
+          count: end - pos,
+          length: end - pos,
+          canOpen:
+            char === '*'
+              ? leftFlanking
+              : leftFlanking && (!rightFlanking || isPunctuation(before)),
+          canClose:
+            char === '*'
+              ? rightFlanking
+              : rightFlanking && (!leftFlanking || isPunctuation(after)),
+        });
+        pos = end;
+        continue;
+      }
+
+      case '!': {
+        if (text[pos + 1] === '[') {
+          items.push({ type: 'bracket', image: true, active: true });
+          pos += 2;
+        } else {
+          pushText('!');
+          pos++;
+        }
+        continue;
+      }
+
+      case '[': {
+        items.push({ type: 'bracket', image: false, active: true });
+        pos++;
+        continue;
+      }
+
+      case ']': {
+        pos = closeBracket(text, pos, items);
+        continue;
+      }
+
+      case '<': {
+        AUTOLINK.lastIndex = pos;
+        const match = AUTOLINK.exec(text);
+        if (match) {
+          items.push({
+            type: 'link',
+            url: match[1],
+            title: null,
+            children: [{ type: 'text', value: match[1] }],
+          });
+          pos += match[0].length;
+        } else {
+          pushText('<');
+          pos++;
+        }
+        continue;
+      }
+
+      case '\n': {
+        // Trailing spaces of the line and indentation of the next one
+        // don't show
+        const last = items[items.length - 1];
+        if (last?.type === 'text') {
+          last.value = last.value.replace(/[ \t]+$/, '');
+        }
+        items.push({ type: 'break' });
+        pos++;
+        while (text[pos] === ' ' || text[pos] === '\t') pos++;
+        continue;
+      }
+
+      case '{': {
+        if (options.cloze) {
+          CLOZE_MARKER_AT.lastIndex = pos;
+          const match = CLOZE_MARKER_AT.exec(text);
+          if (match) {
+            const [marker, index, answer, hint] = match;
+            const children = parseInline(answer, options);
+            if (Number(index) === options.cloze.index) {
+              const { revealed } = options.cloze;
+              items.push({
+                type: 'cloze',
+                revealed,
+                hint: hint ?? null,
+                children: revealed ? children : [],
+              });
+            } else {
+              items.push(...children);
+            }
+            pos += marker.length;
+            continue;
+          }
+        }
+        pushText('{');
+        pos++;
+        continue;
+      }
+    }
+  }
+
+  return processEmphasis(items);
+}
+
+/**
+ * Handle a `]`: close the last open bracket into a link or image if a
+ * destination follows (CommonMark's "look for link or image").
+ *
+ * @returns Position after what was consumed
+ */
+function closeBracket(text: string, pos: number, items: Item[]): number {
+  let bracketIndex = items.length - 1;
+  while (bracketIndex >= 0 && items[bracketIndex].type !== 'bracket') {
+    bracketIndex--;
+  }
+
+  const bracket = items[bracketIndex] as Bracket | undefined;
+  if (!bracket) {
+    items.push({ type: 'text', value: ']' });
+    return pos + 1;
+  }
+
+  const target =
+    bracket.active && text[pos + 1] === '('
+      ? parseLinkTarget(text, pos + 2)
+      : null;
+  if (!target) {
+    items[bracketIndex] = toTextNode(bracket);
+    items.push({ type: 'text', value: ']' });
+    return pos + 1;
+  }
+
+  const children = processEmphasis(items.slice(bracketIndex + 1));
+  items.length = bracketIndex;
+
+  if (bracket.image) {
+    const alt = toPlainText(children);
+    const mediaId = getMediaId(target.url);
+    items.push(
+      mediaId
+        ? { type: 'media', mediaId, alt }
+        : { type: 'image', url: target.url, alt, title: target.title },
+    );
+  } else {
+    items.push({
+      type: 'link',
+      url: target.url,
+      title: target.title,
+      children,
+    });
+    // Links can't contain links
+    for (const item of items) {
+      if (item.type === 'bracket' && !item.image) {
+        item.active = false;
+      }
+    }
+  }
+
+  return target.end;
+}
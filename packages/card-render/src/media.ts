@@ -0,0 +1,42 @@
+/**
+ * Media Reference Utilities
+ *
+ * Cards show uploaded images and audio with markdown image syntax pointing
+ * at a media ID: `![alt](media:<id>)`. Whether it renders as an image or an
+ * audio player depends on the media's type, known once it is loaded.
+ */
+
+const MEDIA_IMAGE = /!\[([^\]]*)]\(media:([a-z0-9]+)\)/g;
+const MEDIA_URL = /^media:([a-z0-9]+)$/;
+
+/**
+ * A loaded media file.
+ */
+export interface MediaSource {
+  /** URI the file can be displayed from (e.g. a data URI) */
+  uri: string;
+  mimeType: string;
+}
+
+/**
+ * Get the media ID of a `media:<id>` URL.
+ *
+ * @returns The ID, or null for other URLs
+ */
+export function getMediaId(url: string): string | null {
+  return MEDIA_URL.exec(url)?.[1] ?? null;
+}
+
+/**
+ * Get the distinct media IDs a text references, in order of appearance.
+ */
+export function getMediaIds(text: string): string[] {
+  return [...new Set([...text.matchAll(MEDIA_IMAGE)].map((match) => match[2]))];
+}
+
+/**
+ * Check whether a text references any media.
+ */
+export function hasMediaReferences(text: string): boolean {
+  return getMediaIds(text).length > 0;
+}
@@ -0,0 +1,389 @@
+/**
+ * Card Markdown Parser
+ *
+ * Parses one side of a card into the render AST. Supported blocks:
+ * - Paragraphs (every newline is a line break)
+ * - ATX headings (`#` to `######`)
+ * - Bullet (`-`, `*`, `+`) and ordered (`1.`, `1)`) lists, nested by
+ *   indentation
+ * - Blockquotes (`>`)
+ * - Fenced code blocks (``` or ~~~)
+ * - Display math on lines of its own (`$$ ... $$` or `\[ ... \]`)
+ * - Thematic breaks (`***`, `___`, or `---` inside a side)
+ *
+ * Setext headings and indented code blocks are not supported: `---` splits
+ * front from back, and indentation in card text is rarely meant as code.
+ */
+
+import type {
+  BlockNode,
+  ListItemNode,
+  ListNode,
+  MathNode,
+  RootNode,
+} from './ast';
+import { parseInline, type InlineParseOptions } from './inline';
+
+export type ParseOptions = InlineParseOptions;
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK =
+  /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|(\d{1,9})[.)])(?:( {1,4})(.*))?$/;
+
+interface ListMarker {
+  ordered: boolean;
+  /** Bullet character, or `.`/`)` for ordered lists */
+  kind: string;
+  number: number | null;
+  /** Columns before the item's content */
+  contentIndent: number;
+  content: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function parseListMarker(line: string): ListMarker | null {
+  const match = LIST_ITEM.exec(line);
+  if (!match) {
+    return null;
+  }
+  const [, indent, marker, number, spaces, content] = match;
+  // Content starting 5+ spaces after the marker is indented by one space
+  const padding = spaces === undefined || content === '' ? 1 : spaces.length;
+  return {
+    ordered: number !== undefined,
+    kind: number !== undefined ? marker.slice(-1) : marker,
+    number: number !== undefined ? Number(number) : null,
+    contentIndent: indent.length + marker.length + padding,
+    content: content ?? '',
+  };
+}
+
+/**
+ * Try to read display math starting at a line.
+ *
+ * @returns The math node and the number of lines it takes, or null
+ */
+function parseMathBlock(
+  lines: string[],
+  start: number,
+): { node: MathNode; length: number } | null {
+  const first = lines[start].trim();
+  const [open, close] = first.startsWith('$$')
+    ? ['$$', '$$']
+    : first.startsWith('\\[')
+      ? ['\\[', '\\]']
+      : [null, null];
+  if (!open || !close) {
+    return null;
+  }
+
+  // All on one line
+  if (first.length > open.length + close.length - 1 && first.endsWith(close)) {
+    const value = first.slice(open.length, -close.length).trim();
+    return value.includes(close)
+      ? null
+      : { node: { type: 'math', value }, length: 1 };
+  }
+  if (first.includes(close, open.length)) {
+    return null;
+  }
+
+  for (let end = start + 1; end < lines.length; end++) {
+    const line = lines[end].trim();
+    if (isBlank(line)) {
+      return null;
+    }
+    if (line.endsWith(close)) {
+      const value = [
+        first.slice(open.length),
+        ...lines.slice(start + 1, end),
+        line.slice(0, -close.length),
+      ]
+        .join('\n')
+        .trim();
+      return { node: { type: 'math', value }, length: end - start + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a line starts a block that interrupts a paragraph.
+ */
+function interruptsParagraph(lines: string[], index: number): boolean {
+  const line = lines[index];
+  if (
+    FENCE_OPEN.test(line) ||
+    HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    parseMathBlock(lines, index)
+  ) {
+    return true;
+  }
+  // Only non-empty lists, and ordered ones starting at 1
+  const marker = parseListMarker(line);
+  return (
+    marker !== null &&
+    marker.content.trim() !== '' &&
+    (marker.number === null || marker.number === 1)
+  );
+}
+
+/**
+ * Parse a list starting at a line.
+ *
+ * @returns The list and the number of lines it takes
+ */
+function parseList(
+  lines: string[],
+  start: number,
+  options: ParseOptions,
+): { node: ListNode; length: number } {
+  const first = parseListMarker(lines[start]) as ListMarker;
+  const items: ListItemNode[] = [];
+  let spread = false;
+  let index = start;
+
+  while (index < lines.length) {
+    const marker = parseListMarker(lines[index]);
+    if (
+      !marker ||
+      THEMATIC_BREAK.test(lines[index]) ||
+      marker.ordered !== first.ordered ||
+      marker.kind !== first.kind
+    ) {
+      break;
+    }
+
+    // Collect the item's lines, without its indentation
+    const itemLines = [marker.content];
+    let end = index + 1;
+    let lastWasBlank = isBlank(marker.content);
+    while (end < lines.length) {
+      const line = lines[end];
+      if (isBlank(line)) {
+        itemLines.push('');
+        lastWasBlank = true;
+      } else if (indentOf(line) >= marker.contentIndent) {
+        itemLines.push(line.slice(marker.contentIndent));
+        lastWasBlank = false;
+      } else if (
+        !lastWasBlank &&
+        !parseListMarker(line) &&
+        !interruptsParagraph(lines, end)
+      ) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trimStart());
+      } else {
+        break;
+      }
+      end++;
+    }
+
+    // Blank lines at the end separate items rather than belonging to one
+    let contentEnd = itemLines.length;
+    while (contentEnd > 1 && isBlank(itemLines[contentEnd - 1])) contentEnd--;
+    const content = itemLines.slice(0, contentEnd);
+    const trailingBlank = contentEnd < itemLines.length;
+
+    if (hasBlankBetweenBlocks(content)) {
+      spread = true;
+    }
+
+    items.push({ type: 'listItem', children: parseBlocks(content, options) });
+    index = end;
+
+    if (trailingBlank) {
+      const next = index < lines.length ? parseListMarker(lines[index]) : null;
+      if (next && next.ordered === first.ordered && next.kind === first.kind) {
+        spread = true;
+      } else {
+        // The blank lines end the list
+        index -= itemLines.length - contentEnd;
+        break;
+      }
+    }
+  }
+
+  return {
+    node: {
+      type: 'list',
+      ordered: first.ordered,
+      start: first.number,
+      spread,
+      children: items,
+    },
+    length: index - start,
+  };
+}
+
+/**
+ * Check whether blank lines separate blocks directly inside a list item
+ * (rather than, say, lines inside a code block).
+ */
+function hasBlankBetweenBlocks(content: string[]): boolean {
+  let inFence: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const line = content[i];
+    const fence = FENCE_OPEN.exec(line);
+    if (inFence) {
+      if (line.trim().startsWith(inFence)) inFence = null;
+    } else if (fence) {
+      inFence = fence[2];
+    } else if (isBlank(line) && i > 0) {
+      // Blank lines between items of a nested list make that list loose,
+      // not this one
+      const next = content.slice(i + 1).find((l) => !isBlank(l));
+      if (
+        next !== undefined &&
+        indentOf(next) === 0 &&
+        !parseListMarker(next)
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Parse lines into blocks.
+ */
+function parseBlocks(lines: string[], options: ParseOptions): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const [, indent, marker, lang] = fence;
+      const closing = new RegExp(
+        `^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`,
+      );
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) {
+        // Remove the fence's indentation from the content
+        code.push(
+          lines[index].replace(new RegExp(`^ {0,${indent.length}}`), ''),
+        );
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', lang: lang || null, value: code.join('\n') });
+      continue;
+    }
+
+    const math = parseMathBlock(lines, index);
+    if (math) {
+      blocks.push(math.node);
+      index += math.length;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        depth: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline((heading[2] ?? '').trim(), options),
+      });
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length) {
+        const current = lines[index];
+        if (BLOCKQUOTE.test(current)) {
+          quoted.push(current.replace(BLOCKQUOTE, ''));
+        } else if (
+          !isBlank(current) &&
+          !isBlank(quoted[quoted.length - 1]) &&
+          !interruptsParagraph(lines, index)
+        ) {
+          // Lazy continuation of the quoted paragraph
+          quoted.push(current);
+        } else {
+          break;
+        }
+        index++;
+      }
+      blocks.push({
+        type: 'blockquote',
+        children: parseBlocks(quoted, options),
+      });
+      continue;
+    }
+
+    if (parseListMarker(line)) {
+      const list = parseList(lines, index, options);
+      blocks.push(list.node);
+      index += list.length;
+      continue;
+    }
+
+    // Paragraph
+    const paragraph = [line.trimStart()];
+    index++;
+    while (
+      index < lines.length &&
+      !isBlank(lines[index]) &&
+      !interruptsParagraph(lines, index)
+    ) {
+      paragraph.push(lines[index].trimStart());
+      index++;
+    }
+    blocks.push({
+      type: 'paragraph',
+      children: parseInline(paragraph.join('\n').trimEnd(), options),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse one side of a card.
+ *
+ * @param markdown - Card markdown (front or back, see splitCardMarkdown)
+ * @param options - Parse options; pass a cloze view for cloze cards
+ * @returns The render AST
+ */
+export function parseCard(
+  markdown: string,
+  options: ParseOptions = {},
+): RootNode {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    // Expand leading tabs so indentation can be measured in columns
+    .map((line) => line.replace(/^\t+/, (tabs) => '    '.repeat(tabs.length)));
+
+  return { type: 'root', children: parseBlocks(lines, options) };
+}
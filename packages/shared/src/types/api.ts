@@ -14,14 +14,36 @@ export interface ApiErrorDTO {
 }
 
 /**
- * Paginated list response wrapper
+ * Sort direction of a list
+ */
+export type SortOrderDTO = 'asc' | 'desc';
+
+/**
+ * Query parameters of paginated list endpoints
+ */
+export interface PageQueryDTO<Sort extends string, Field extends string> {
+  /** nextCursor of the previous page; only valid with the same sort and order */
+  cursor?: string;
+  /** Page size (default 50, max 200) */
+  limit?: number;
+  sort?: Sort;
+  /** Default depends on the sort, e.g. newest first for created */
+  order?: SortOrderDTO;
+  /** Fields to return besides the id (default all) */
+  fields?: Field[];
+}
+
+/**
+ * Paginated list response wrapper (cursor-based)
  */
 export interface PaginatedResponseDTO<T> {
   items: T[];
+  /** Number of items in the whole list */
   total: number;
-  page: number;
   pageSize: number;
   hasMore: boolean;
+  /** Cursor for the next page; null on the last page */
+  nextCursor: string | null;
 }
 
 /**
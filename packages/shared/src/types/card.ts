@@ -2,7 +2,8 @@
  * Card-related DTOs
  */
 
-import type { CardState, ISODateString } from './common';
+import type { PaginatedResponseDTO } from './api';
+import type { CardState, CardType, ISODateString, Rating } from './common';
 
 /**
  * Card as returned in API responses (full detail)
@@ -14,10 +15,23 @@ export interface CardDTO {
   priority: number;
   deckId: string;
   deckTitle?: string;
+  type: CardType;
+  /** Cloze index this card asks for (CLOZE cards only) */
+  clozeIndex: number | null;
+  /** Shared by the cards generated from the same cloze text */
+  clozeGroupId: string | null;
+  /** Note the card was generated from (edit the note to change its text) */
+  noteId: string | null;
+  /** Original card of a reverse card (edits are copied between the two) */
+  reverseOfId: string | null;
   state: CardState;
   nextReviewDate: ISODateString;
   lastReview: ISODateString | null;
   snoozedUntil: ISODateString | null;
+  /** Set while the card is suspended */
+  suspendedAt: ISODateString | null;
+  /** Set while the card is buried */
+  buriedUntil: ISODateString | null;
   reps: number;
   lapses: number;
   createdAt: ISODateString;
@@ -34,9 +48,108 @@ export interface CardInSprintDTO {
   priority: number;
   deckId: string;
   deckTitle?: string;
+  type: CardType;
+  clozeIndex: number | null;
   state: CardState;
   nextReviewDate: ISODateString;
   snoozedUntil: ISODateString | null;
+  /** Current probability of recall (null for new cards) */
+  retrievability: number | null;
+  /**
+   * Next interval in minutes for each rating (null in CRAM sprints, whose
+   * ratings don't reschedule the card)
+   */
+  intervalPreview: IntervalPreviewDTO | null;
+}
+
+/**
+ * Next review interval in minutes for each rating
+ */
+export type IntervalPreviewDTO = Record<Rating, number>;
+
+/**
+ * Response from suspending, unsuspending, burying or unburying a card
+ */
+export interface CardAvailabilityResponseDTO {
+  card: {
+    id: string;
+    suspendedAt: ISODateString | null;
+    buriedUntil: ISODateString | null;
+  };
+}
+
+/**
+ * What happens to a card when it becomes a leech
+ */
+export type LeechActionDTO = 'TAG' | 'SUSPEND' | 'TAG_AND_SUSPEND';
+
+/**
+ * Leech card as listed in the leech report
+ */
+export interface LeechCardDTO {
+  id: string;
+  front: string;
+  back: string;
+  lapses: number;
+  suspendedAt: ISODateString | null;
+  /** Whether the card has the leech tag */
+  tagged: boolean;
+}
+
+/**
+ * Leech cards of one deck
+ */
+export interface LeechReportDeckDTO {
+  deckId: string;
+  deckTitle: string;
+  cards: LeechCardDTO[];
+}
+
+/**
+ * Response from GET /api/cards/leeches
+ */
+export interface GetLeechesResponseDTO {
+  decks: LeechReportDeckDTO[];
+  total: number;
+}
+
+/**
+ * Part of a search result snippet; matches of the search are separate parts
+ */
+export interface SnippetPartDTO {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Card matching a search, with snippets of its front and back
+ */
+export interface CardSearchResultDTO {
+  card: CardDTO;
+  rank: number;
+  snippets: {
+    front: SnippetPartDTO[];
+    back: SnippetPartDTO[];
+  };
+}
+
+/**
+ * Sorts of GET /api/cards: by creation, due date, priority or lapses
+ */
+export type CardSortDTO = 'created' | 'due' | 'priority' | 'lapses';
+
+/**
+ * Response from GET /api/cards (a page of cards)
+ */
+export type GetCardsResponseDTO = PaginatedResponseDTO<CardDTO>;
+
+/**
+ * Response from GET /api/cards/search (best matches first)
+ */
+export interface SearchCardsResponseDTO {
+  results: CardSearchResultDTO[];
+  /** Number of matching cards, for paging */
+  total: number;
 }
 
 /**
@@ -47,6 +160,8 @@ export interface CreateCardRequestDTO {
   back: string;
   deckId: string;
   priority?: number;
+  /** CLOZE creates one card per cloze index (default: BASIC) */
+  type?: CardType;
 }
 
 /**
@@ -57,3 +172,57 @@ export interface UpdateCardRequestDTO {
   back?: string;
   priority?: number;
 }
+
+/**
+ * Response from updating a card or restoring one of its revisions
+ */
+export interface UpdateCardResponseDTO {
+  card: CardDTO;
+  /** Cloze siblings deleted because the edit removed their cloze marker */
+  deletedCardIds: string[];
+}
+
+/**
+ * Client that made a card edit (API: other clients)
+ */
+export type EditSourceDTO = 'MOBILE' | 'DESKTOP' | 'API';
+
+/**
+ * A card's text after an edit. The first edit of a card also keeps the text
+ * it replaced, with no source.
+ */
+export interface CardRevisionDTO {
+  id: string;
+  front: string;
+  back: string;
+  source: EditSourceDTO | null;
+  /** Revision this one restored, if it was made by a restore */
+  restoredFromId: string | null;
+  createdAt: ISODateString;
+}
+
+/**
+ * Response of GET /api/cards/:id/revisions
+ */
+export interface GetCardRevisionsResponseDTO {
+  revisions: CardRevisionDTO[];
+  total: number;
+}
+
+/**
+ * One line of a line diff
+ */
+export interface DiffLineDTO {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Response of GET /api/cards/:id/revisions/diff
+ */
+export interface DiffCardRevisionsResponseDTO {
+  diff: {
+    front: DiffLineDTO[];
+    back: DiffLineDTO[];
+  };
+}
@@ -5,6 +5,9 @@
 // Card states from FSRS algorithm
 export type CardState = 'NEW' | 'LEARNING' | 'REVIEW' | 'RELEARNING';
 
+// Card types (CLOZE cards are generated from {{c1::...}} markers)
+export type CardType = 'BASIC' | 'CLOZE';
+
 // Review ratings (4-grade scale)
 export type Rating = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
 
@@ -14,6 +17,9 @@ export type SprintStatus = 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'ABANDONED';
 // Sprint sources (where the sprint originated)
 export type SprintSource = 'HOME' | 'DECK' | 'PUSH';
 
+// Sprint modes (CRAM reviews a deck without rescheduling its cards)
+export type SprintMode = 'REVIEW' | 'CRAM';
+
 // Sprint card result
 export type CardResult = 'PASS' | 'FAIL' | 'SKIP';
 
@@ -4,6 +4,16 @@
 
 import type { ISODateString } from './common';
 
+/**
+ * Algorithm a deck's cards are scheduled with
+ */
+export type SchedulingAlgorithmDTO = 'FSRS' | 'SM2';
+
+/**
+ * Sorts of GET /api/decks: by creation or priority
+ */
+export type DeckSortDTO = 'created' | 'priority';
+
 /**
  * Deck as returned in API responses
  */
@@ -15,6 +25,22 @@ export interface DeckDTO {
   parentDeckId: string | null;
   cardCount: number;
   dueCount?: number;
+  /** Learning step override in minutes (null = user's steps) */
+  learningSteps?: number[] | null;
+  /** Relearning step override in minutes (null = user's steps) */
+  relearningSteps?: number[] | null;
+  /** Desired retention 0.70-0.97 (null = inherited) */
+  desiredRetention?: number | null;
+  /** Retention the deck is scheduled with, after inheritance */
+  effectiveRetention?: number;
+  /** Algorithm the deck's cards are scheduled with (not inherited) */
+  schedulingAlgorithm?: SchedulingAlgorithmDTO;
+  /** New cards introduced per day (null = only the user's limit) */
+  newCardsPerDay?: number | null;
+  /** Reviews per day (null = only the user's limit) */
+  reviewsPerDay?: number | null;
+  /** Whether Basic cards get a reverse card (back to front) */
+  createReverseCards?: boolean;
   createdAt: ISODateString;
   updatedAt: ISODateString;
   subdecks?: DeckDTO[];
@@ -28,6 +54,13 @@ export interface CreateDeckRequestDTO {
   description?: string;
   parentDeckId?: string;
   priority?: number;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  desiredRetention?: number;
+  schedulingAlgorithm?: SchedulingAlgorithmDTO;
+  newCardsPerDay?: number;
+  reviewsPerDay?: number;
+  createReverseCards?: boolean;
 }
 
 /**
@@ -37,4 +70,17 @@ export interface UpdateDeckRequestDTO {
   title?: string;
   description?: string | null;
   priority?: number;
+  /** null clears the override */
+  learningSteps?: number[] | null;
+  /** null clears the override */
+  relearningSteps?: number[] | null;
+  /** null inherits the parent deck's retention */
+  desiredRetention?: number | null;
+  /** Switching converts the state of the deck's cards */
+  schedulingAlgorithm?: SchedulingAlgorithmDTO;
+  /** null removes the deck's own limit */
+  newCardsPerDay?: number | null;
+  /** null removes the deck's own limit */
+  reviewsPerDay?: number | null;
+  createReverseCards?: boolean;
 }
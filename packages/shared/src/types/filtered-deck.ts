@@ -0,0 +1,68 @@
+/**
+ * Filtered deck DTOs
+ */
+
+import type { CardState, ISODateString } from './common';
+import type { PaginatedResponseDTO } from './api';
+import type { DeckDTO } from './deck';
+
+/**
+ * Filters of a filtered deck; its cards match every filter that is set
+ * (null = not filtered by it)
+ */
+export interface FilteredDeckFiltersDTO {
+  /** Full-text search of fronts and backs */
+  query: string | null;
+  /** Cards of the deck or its subdecks */
+  deckId: string | null;
+  /** Cards with the tag or one of its descendants */
+  tagId: string | null;
+  state: CardState | null;
+  minLapses: number | null;
+  /** Cards due within this many days (0 = due now) */
+  dueWithinDays: number | null;
+}
+
+/**
+ * Saved search studied like a deck. Its cards are worked out when it is
+ * used, not stored.
+ */
+export interface FilteredDeckDTO extends FilteredDeckFiltersDTO {
+  id: string;
+  title: string;
+  /** Number of cards matching the filters now */
+  cardCount: number;
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Response from GET /api/decks
+ */
+export interface GetDecksResponseDTO extends PaginatedResponseDTO<DeckDTO> {
+  /** All of the user's filtered decks (first page only) */
+  filteredDecks?: FilteredDeckDTO[];
+}
+
+/**
+ * Request to create a filtered deck
+ */
+export interface CreateFilteredDeckRequestDTO
+  extends Partial<FilteredDeckFiltersDTO> {
+  title: string;
+}
+
+/**
+ * Request to update a filtered deck (null clears a filter)
+ */
+export interface UpdateFilteredDeckRequestDTO
+  extends Partial<FilteredDeckFiltersDTO> {
+  title?: string;
+}
+
+/**
+ * Response of the filtered deck endpoints
+ */
+export interface FilteredDeckResponseDTO {
+  filteredDeck: FilteredDeckDTO;
+}
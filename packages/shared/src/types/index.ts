@@ -8,9 +8,11 @@
 // Common types
 export type {
   CardState,
+  CardType,
   Rating,
   SprintStatus,
   SprintSource,
+  SprintMode,
   CardResult,
   ISODateString,
 } from './common';
@@ -19,17 +21,77 @@ export type {
 export type {
   CardDTO,
   CardInSprintDTO,
+  IntervalPreviewDTO,
+  CardAvailabilityResponseDTO,
+  LeechActionDTO,
+  LeechCardDTO,
+  LeechReportDeckDTO,
+  GetLeechesResponseDTO,
+  SnippetPartDTO,
+  CardSearchResultDTO,
+  CardSortDTO,
+  GetCardsResponseDTO,
+  SearchCardsResponseDTO,
   CreateCardRequestDTO,
   UpdateCardRequestDTO,
+  UpdateCardResponseDTO,
+  EditSourceDTO,
+  CardRevisionDTO,
+  GetCardRevisionsResponseDTO,
+  DiffLineDTO,
+  DiffCardRevisionsResponseDTO,
 } from './card';
 
+// Note types
+export type {
+  NoteFieldsDTO,
+  CardTemplateDTO,
+  NoteTypeDTO,
+  NoteCardDTO,
+  NoteDTO,
+  CreateNoteTypeRequestDTO,
+  CreateNoteRequestDTO,
+  UpdateNoteRequestDTO,
+} from './note';
+
+// Tag types
+export type {
+  TagDTO,
+  CardTagDTO,
+  GetTagsResponseDTO,
+  TagTreeNodeDTO,
+  GetTagTreeResponseDTO,
+  TagRequestDTO,
+  AddCardTagRequestDTO,
+  CardTagsResponseDTO,
+} from './tag';
+
+// Media types
+export type {
+  MediaDTO,
+  UploadMediaResponseDTO,
+  GetMediaListResponseDTO,
+} from './media';
+
 // Deck types
 export type {
+  SchedulingAlgorithmDTO,
+  DeckSortDTO,
   DeckDTO,
   CreateDeckRequestDTO,
   UpdateDeckRequestDTO,
 } from './deck';
 
+// Filtered deck types
+export type {
+  FilteredDeckFiltersDTO,
+  FilteredDeckDTO,
+  GetDecksResponseDTO,
+  CreateFilteredDeckRequestDTO,
+  UpdateFilteredDeckRequestDTO,
+  FilteredDeckResponseDTO,
+} from './filtered-deck';
+
 // Sprint types
 export type {
   SprintProgressDTO,
@@ -61,8 +123,14 @@ export type {
 // Review types
 export type {
   ReviewDTO,
+  ReviewStateBeforeDTO,
+  ReviewStateAfterDTO,
+  ReviewWithCardDTO,
+  GetReviewsResponseDTO,
   CreateReviewRequestDTO,
   CreateReviewResponseDTO,
+  TimingAveragesDTO,
+  GetReviewTimingResponseDTO,
 } from './review';
 
 // User types
@@ -70,11 +138,22 @@ export type {
   UserDTO,
   GetMeResponseDTO,
   UpdateUserSettingsRequestDTO,
+  FSRSVersionDTO,
+  FSRSParametersDTO,
+  GetFSRSParametersResponseDTO,
+  OptimizationStatusDTO,
+  FSRSOptimizationDTO,
+  OptimizeFSRSParametersResponseDTO,
+  GetFSRSOptimizationResponseDTO,
+  UpdateFSRSVersionRequestDTO,
+  UpdateFSRSVersionResponseDTO,
 } from './user';
 
 // API types
 export type {
   ApiErrorDTO,
+  SortOrderDTO,
+  PageQueryDTO,
   PaginatedResponseDTO,
   SuccessResponseDTO,
 } from './api';
@@ -0,0 +1,34 @@
+/**
+ * Media-related DTOs
+ */
+
+import type { ISODateString } from './common';
+
+/**
+ * Uploaded image or audio file, shown on cards as ![alt](media:<id>)
+ */
+export interface MediaDTO {
+  id: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  filename: string | null;
+  /** Snippet to insert into a card */
+  markdown: string;
+  createdAt: ISODateString;
+}
+
+/**
+ * Response of POST /api/media
+ */
+export interface UploadMediaResponseDTO {
+  media: MediaDTO;
+}
+
+/**
+ * Response of GET /api/media
+ */
+export interface GetMediaListResponseDTO {
+  media: MediaDTO[];
+  total: number;
+}
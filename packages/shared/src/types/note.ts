@@ -0,0 +1,83 @@
+/**
+ * Note-related DTOs
+ */
+
+import type { CardState, ISODateString } from './common';
+
+/**
+ * Field values by field name
+ */
+export type NoteFieldsDTO = Record<string, string>;
+
+/**
+ * Template that renders one card per note from {{Field}} placeholders
+ */
+export interface CardTemplateDTO {
+  name: string;
+  ordinal: number;
+  front: string;
+  back: string;
+}
+
+/**
+ * Note type with its fields and card templates
+ */
+export interface NoteTypeDTO {
+  id: string;
+  name: string;
+  fields: string[];
+  /** Stock note types (Basic, Basic and reversed) are shared by all users */
+  isStock: boolean;
+  templates: CardTemplateDTO[];
+}
+
+/**
+ * Card generated from a note
+ */
+export interface NoteCardDTO {
+  id: string;
+  templateOrdinal: number | null;
+  front: string;
+  back: string;
+  state: CardState;
+  nextReview: ISODateString;
+}
+
+/**
+ * Note as returned in API responses
+ */
+export interface NoteDTO {
+  id: string;
+  noteTypeId: string;
+  noteTypeName: string;
+  deckId: string;
+  fields: NoteFieldsDTO;
+  cards: NoteCardDTO[];
+  createdAt: ISODateString;
+  updatedAt: ISODateString;
+}
+
+/**
+ * Request to create a custom note type
+ */
+export interface CreateNoteTypeRequestDTO {
+  name: string;
+  fields: string[];
+  templates: Omit<CardTemplateDTO, 'ordinal'>[];
+}
+
+/**
+ * Request to create a note
+ */
+export interface CreateNoteRequestDTO {
+  noteTypeId: string;
+  deckId: string;
+  fields: NoteFieldsDTO;
+}
+
+/**
+ * Request to update a note's fields
+ */
+export interface UpdateNoteRequestDTO {
+  fields: NoteFieldsDTO;
+}
@@ -3,6 +3,7 @@
  */
 
 import type { ISODateString } from './common';
+import type { LeechActionDTO } from './card';
 
 /**
  * User's notification preferences (simplified for MVP)
@@ -26,6 +27,27 @@ export interface NotificationPrefsDTO {
 
   /** Number of notifications sent today */
   notificationsCountToday: number;
+
+  /** Learning steps in minutes, for new cards */
+  learningSteps: number[];
+
+  /** Relearning steps in minutes, for lapsed cards */
+  relearningSteps: number[];
+
+  /** Spread due dates with interval fuzz and load balancing */
+  enableFuzz: boolean;
+
+  /** Lapses at which a card becomes a leech */
+  leechThreshold: number;
+
+  /** What happens to a card when it becomes a leech */
+  leechAction: LeechActionDTO;
+
+  /** New cards introduced per day, across all decks */
+  newCardsPerDay: number;
+
+  /** Reviews per day, across all decks */
+  reviewsPerDay: number;
 }
 
 /**
@@ -35,6 +57,13 @@ export interface UpdateNotificationPrefsRequestDTO {
   notificationsEnabled?: boolean;
   notificationCooldownMinutes?: number;
   maxNotificationsPerDay?: number;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  enableFuzz?: boolean;
+  leechThreshold?: number;
+  leechAction?: LeechActionDTO;
+  newCardsPerDay?: number;
+  reviewsPerDay?: number;
 }
 
 /**
@@ -2,7 +2,37 @@
  * Review-related DTOs
  */
 
-import type { Rating, ISODateString } from './common';
+import type { PaginatedResponseDTO } from './api';
+import type { CardState, Rating, ISODateString } from './common';
+
+/**
+ * Card scheduling state before a review.
+ * Fields are null for reviews that predate the review log.
+ */
+export interface ReviewStateBeforeDTO {
+  state: CardState | null;
+  stability: number | null;
+  difficulty: number | null;
+  elapsedDays: number | null;
+  scheduledDays: number | null;
+  reps: number | null;
+  lapses: number | null;
+  lastReview: ISODateString | null;
+  nextReviewDate: ISODateString | null;
+}
+
+/**
+ * Card scheduling state after a review.
+ * Fields are null for reviews that predate the review log.
+ */
+export interface ReviewStateAfterDTO {
+  state: CardState | null;
+  stability: number | null;
+  difficulty: number | null;
+  elapsedDays: number | null;
+  scheduledDays: number | null;
+  nextReviewDate: ISODateString | null;
+}
 
 /**
  * A review record
@@ -11,15 +41,46 @@ export interface ReviewDTO {
   id: string;
   cardId: string;
   rating: Rating;
+  sprintId: string | null;
+  durationMs: number | null;
+  /** Showing the front until revealing the answer */
+  timeToRevealMs: number | null;
+  /** Revealing the answer until rating */
+  timeToRateMs: number | null;
   createdAt: ISODateString;
+  before: ReviewStateBeforeDTO;
+  after: ReviewStateAfterDTO;
+}
+
+/**
+ * A review in the review history, with its card
+ */
+export interface ReviewWithCardDTO extends ReviewDTO {
+  card: {
+    id: string;
+    front: string;
+    back: string;
+  };
 }
 
+/**
+ * Response from GET /api/reviews (a page of the history, newest first by
+ * default)
+ */
+export type GetReviewsResponseDTO = PaginatedResponseDTO<ReviewWithCardDTO>;
+
 /**
  * Request to submit a standalone review (outside of sprint context)
  */
 export interface CreateReviewRequestDTO {
   cardId: string;
   rating: Rating;
+  /** Time taken to answer, in milliseconds */
+  durationMs?: number;
+  /** Time until the answer was revealed, in milliseconds */
+  timeToRevealMs?: number;
+  /** Time from revealing the answer until rating, in milliseconds */
+  timeToRateMs?: number;
 }
 
 /**
@@ -32,4 +93,36 @@ export interface CreateReviewResponseDTO {
     nextReviewDate: ISODateString;
     state: string;
   };
+  /** Whether the review turned the card into a leech */
+  leech: boolean;
+}
+
+/**
+ * Average answer times over a set of reviews.
+ * Averages are null when none of the reviews reported that time.
+ */
+export interface TimingAveragesDTO {
+  reviewCount: number;
+  averageSeconds: number | null;
+  averageRevealSeconds: number | null;
+  averageRateSeconds: number | null;
+}
+
+/**
+ * Response from GET /api/reviews/timing
+ */
+export interface GetReviewTimingResponseDTO {
+  overall: TimingAveragesDTO;
+  /** Slowest decks first */
+  byDeck: Array<TimingAveragesDTO & { deckId: string; deckTitle: string }>;
+  byState: Array<TimingAveragesDTO & { state: CardState }>;
+  /** Slowest cards first */
+  slowestCards: Array<
+    TimingAveragesDTO & {
+      cardId: string;
+      front: string;
+      deckId: string;
+      deckTitle: string;
+    }
+  >;
 }
@@ -5,6 +5,7 @@
 import type {
   SprintStatus,
   SprintSource,
+  SprintMode,
   CardResult,
   Rating,
   ISODateString,
@@ -38,6 +39,7 @@ export interface SprintDTO {
   id: string;
   status: SprintStatus;
   source: SprintSource;
+  mode: SprintMode;
   deckId: string | null;
   deckTitle: string | null;
   createdAt: ISODateString;
@@ -64,7 +66,13 @@ export interface ResumableSprintDTO {
  */
 export interface StartSprintRequestDTO {
   deckId?: string;
+  /** Only cards with this tag, from any deck unless deckId is given */
+  tagId?: string;
+  /** Only cards of this filtered deck */
+  filteredDeckId?: string;
   source?: SprintSource;
+  /** CRAM requires a deckId, tagId or filteredDeckId */
+  mode?: SprintMode;
 }
 
 /**
@@ -89,6 +97,12 @@ export interface GetSprintResponseDTO {
 export interface SubmitSprintReviewRequestDTO {
   cardId: string;
   rating: Rating;
+  /** Time taken to answer, in milliseconds */
+  durationMs?: number;
+  /** Time until the answer was revealed, in milliseconds */
+  timeToRevealMs?: number;
+  /** Time from revealing the answer until rating, in milliseconds */
+  timeToRateMs?: number;
 }
 
 /**
@@ -96,12 +110,14 @@ export interface SubmitSprintReviewRequestDTO {
  */
 export interface SubmitSprintReviewResponseDTO {
   sprint: SprintDTO;
-  /** The updated card after FSRS calculation */
+  /** The updated card after FSRS calculation (unchanged in cram sprints) */
   updatedCard: {
     id: string;
     nextReviewDate: ISODateString;
     state: string;
   };
+  /** Whether the review turned the card into a leech */
+  leech: boolean;
 }
 
 /**
@@ -0,0 +1,77 @@
+/**
+ * Tag-related DTOs
+ */
+
+import type { ISODateString } from './common';
+
+/**
+ * Tag grouping cards across decks. `::` separates the levels of a tag name
+ * (`lang::spanish::verbs`); filtering by a tag includes its descendants.
+ */
+export interface TagDTO {
+  id: string;
+  name: string;
+  /** Number of cards with the tag */
+  cardCount: number;
+  createdAt: ISODateString;
+}
+
+/**
+ * Tag as listed on a card
+ */
+export interface CardTagDTO {
+  id: string;
+  name: string;
+}
+
+/**
+ * Response of GET /api/tags
+ */
+export interface GetTagsResponseDTO {
+  tags: TagDTO[];
+  total: number;
+}
+
+/**
+ * Node of the tag tree; its counts include its descendants' cards
+ */
+export interface TagTreeNodeDTO {
+  /** Null for levels that are no tag of their own */
+  id: string | null;
+  /** Last level of the name */
+  name: string;
+  /** Full tag name */
+  path: string;
+  cardCount: number;
+  /** Cards that are due and not snoozed, suspended or buried */
+  dueCount: number;
+  children: TagTreeNodeDTO[];
+}
+
+/**
+ * Response of GET /api/tags/tree
+ */
+export interface GetTagTreeResponseDTO {
+  tree: TagTreeNodeDTO[];
+}
+
+/**
+ * Request to create or rename (move) a tag
+ */
+export interface TagRequestDTO {
+  name: string;
+}
+
+/**
+ * Request to tag a card (POST /api/cards/:id/tags)
+ */
+export interface AddCardTagRequestDTO {
+  tagId: string;
+}
+
+/**
+ * Response of the card tag endpoints: the card's tags by name
+ */
+export interface CardTagsResponseDTO {
+  tags: CardTagDTO[];
+}
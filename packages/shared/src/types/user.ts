@@ -30,3 +30,77 @@ export interface GetMeResponseDTO {
 export interface UpdateUserSettingsRequestDTO {
   sprintSize?: number;
 }
+
+/**
+ * FSRS scheduling engine version
+ */
+export type FSRSVersionDTO = 'FSRS_4_5' | 'FSRS_5';
+
+/**
+ * FSRS scheduling parameters as returned in API responses
+ */
+export interface FSRSParametersDTO {
+  version: FSRSVersionDTO;
+  weights: number[];
+  requestRetention: number;
+  maximumInterval: number;
+  isPersonalized: boolean;
+  optimizedAt: ISODateString | null;
+}
+
+/**
+ * Response from /api/me/fsrs-parameters (GET, DELETE)
+ */
+export interface GetFSRSParametersResponseDTO {
+  parameters: FSRSParametersDTO;
+}
+
+/**
+ * Request body for PUT /api/me/fsrs-parameters/version
+ */
+export interface UpdateFSRSVersionRequestDTO {
+  version: FSRSVersionDTO;
+}
+
+/**
+ * Response from PUT /api/me/fsrs-parameters/version
+ */
+export interface UpdateFSRSVersionResponseDTO {
+  parameters: FSRSParametersDTO;
+  recomputedCardCount: number;
+}
+
+export type OptimizationStatusDTO = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * A fit of the user's FSRS weights to their review history, run in the
+ * background
+ */
+export interface FSRSOptimizationDTO {
+  id: string;
+  status: OptimizationStatusDTO;
+  /** Reviews of FSRS cards the weights are fitted to */
+  reviewCount: number;
+  /** Loss summary; null until the fit succeeds */
+  scoredReviewCount: number | null;
+  initialLoss: number | null;
+  finalLoss: number | null;
+  startedAt: ISODateString;
+  completedAt: ISODateString | null;
+}
+
+/**
+ * Response from POST /api/me/fsrs-parameters/optimize (202)
+ */
+export interface OptimizeFSRSParametersResponseDTO {
+  optimization: FSRSOptimizationDTO;
+}
+
+/**
+ * Response from GET /api/me/fsrs-parameters/optimize
+ */
+export interface GetFSRSOptimizationResponseDTO {
+  parameters: FSRSParametersDTO;
+  /** The latest optimization; null if there was none */
+  optimization: FSRSOptimizationDTO | null;
+}